@@ -0,0 +1,81 @@
+// api/analyze-batch-control.ts
+// Pause, resume or cancel a project analysis batch. Pausing lets scenes already
+// in flight finish; cancelling also refunds the scenes that never started.
+
+import type { VercelRequest, VercelResponse } from '@vercel/node'
+import { getDb } from './lib/mongodb.js'
+import { logger } from './lib/logger.js'
+import { getBatch, setBatchStatus } from './lib/analysisJobs.js'
+import { cancelBatch, runBatch } from './lib/analysisBatches'
+import { projectRecordAccessError } from './lib/projectAccess'
+
+const ACTIONS = ['pause', 'resume', 'cancel'] as const
+type BatchAction = typeof ACTIONS[number]
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  // CORS handled by server.mjs middleware
+  if (req.method !== 'POST') return res.status(405).json({ error: 'Method not allowed' })
+
+  try {
+    const { batchId, action } = req.body || {}
+
+    if (!batchId || typeof batchId !== 'string') {
+      return res.status(400).json({ error: 'batchId is required' })
+    }
+    if (!ACTIONS.includes(action)) {
+      return res.status(400).json({ error: `action must be one of ${ACTIONS.join(', ')}` })
+    }
+
+    const authUserId = (req as VercelRequest & { auth?: { userId?: string } }).auth?.userId
+    if (!authUserId) {
+      return res.status(401).json({ error: 'Authentication required' })
+    }
+
+    const batch = await getBatch(batchId)
+    if (!batch) {
+      return res.status(404).json({ error: 'Batch not found' })
+    }
+    // Anyone who can edit the project runs its batches, whoever submitted them
+    const accessError = await projectRecordAccessError(await getDb(), batch, authUserId, 'editor')
+    if (accessError) {
+      return res.status(403).json({ error: accessError })
+    }
+
+    let changed = false
+    let creditsRefunded = 0
+    switch (action as BatchAction) {
+      case 'pause':
+        changed = await setBatchStatus(batchId, 'PAUSED', ['RUNNING'])
+        break
+      case 'resume':
+        changed = await setBatchStatus(batchId, 'RUNNING', ['PAUSED'])
+        if (changed) runBatch(batchId)
+        break
+      case 'cancel': {
+        const refunded = await cancelBatch(batch)
+        changed = refunded !== null
+        creditsRefunded = refunded || 0
+        break
+      }
+    }
+
+    if (!changed) {
+      return res.status(409).json({ error: `Cannot ${action} a batch that is ${batch.status.toLowerCase()}`, status: batch.status })
+    }
+
+    logger.log('analyze-batch-control', `⏯️  Batch ${batchId}: ${action}`)
+
+    return res.status(200).json({
+      success: true,
+      message: `Batch ${action === 'cancel' ? 'cancelled' : action === 'pause' ? 'paused' : 'resumed'}`,
+      status: (await getBatch(batchId))?.status,
+      creditsRefunded
+    })
+  } catch (error) {
+    logger.error('analyze-batch-control', 'Batch control error:', error)
+    return res.status(500).json({
+      error: 'Failed to update batch',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    })
+  }
+}
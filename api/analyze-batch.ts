@@ -0,0 +1,176 @@
+// api/analyze-batch.ts
+// Queues a whole project (or a chosen set of scenes) for server-side analysis.
+// Credits for every scene are reserved up front; scenes that fail or are
+// cancelled before they start are refunded. Progress is polled through
+// analyze-scene-status?batchId=…
+
+import type { VercelRequest, VercelResponse } from '@vercel/node'
+import { ObjectId } from 'mongodb'
+import { getDb } from './lib/mongodb.js'
+import { logger } from './lib/logger.js'
+import { hasEnoughCredits, deductCredits, refundCredits } from './lib/credits.js'
+import { createAnalysisBatch, getLatestProjectBatch } from './lib/analysisJobs.js'
+import { DEFAULT_BATCH_CONCURRENCY, MAX_BATCH_CONCURRENCY, runBatch } from './lib/analysisBatches'
+import { projectAccessError } from './lib/projectAccess'
+import { workspaceShortfallMessage } from './lib/workspaces'
+import type { StoredCharacter } from '../src/lib/characterRegistry'
+
+const CREDITS_PER_SCENE = 1
+
+interface StoredScene {
+  number?: number
+  scene_number?: number
+  text?: string
+  status?: string
+  needsReanalysis?: boolean
+}
+
+interface ProjectDocument {
+  userId?: string
+  workspaceId?: string | null
+  scenes?: StoredScene[]
+  characters?: StoredCharacter[]
+  visualStyle?: string | null
+  visualProfile?: unknown
+}
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  // CORS handled by server.mjs middleware
+  if (req.method !== 'POST') return res.status(405).json({ error: 'Method not allowed' })
+
+  try {
+    const { projectId, sceneNumbers, concurrency } = req.body || {}
+
+    if (!projectId) {
+      return res.status(400).json({ error: 'projectId is required' })
+    }
+    if (typeof projectId !== 'string' || !ObjectId.isValid(projectId)) {
+      return res.status(400).json({ error: 'Invalid projectId' })
+    }
+    if (sceneNumbers != null && (!Array.isArray(sceneNumbers) || !sceneNumbers.every((n: unknown) => typeof n === 'number'))) {
+      return res.status(400).json({ error: 'sceneNumbers must be an array of scene numbers' })
+    }
+
+    const authUserId = (req as VercelRequest & { auth?: { userId?: string } }).auth?.userId
+    if (!authUserId) {
+      return res.status(401).json({ error: 'Authentication required' })
+    }
+
+    const db = await getDb()
+    const project = await db.collection<ProjectDocument>('projects').findOne({ _id: new ObjectId(projectId) })
+    if (!project) {
+      return res.status(404).json({ error: 'Project not found' })
+    }
+    const accessError = projectAccessError(project, authUserId, 'editor')
+    if (accessError) {
+      return res.status(403).json({ error: accessError })
+    }
+
+    // One batch per project at a time; checked here before any credits move,
+    // and enforced by createAnalysisBatch for submissions that race past it
+    const batchInProgress = async () => res.status(409).json({
+      error: 'BATCH_IN_PROGRESS',
+      userMessage: 'This project already has an analysis batch in progress.',
+      batchId: (await getLatestProjectBatch(projectId))?.batchId
+    })
+    const latest = await getLatestProjectBatch(projectId)
+    if (latest && (latest.status === 'RUNNING' || latest.status === 'PAUSED')) {
+      return batchInProgress()
+    }
+
+    const scenes = (project.scenes || []).map((scene, index) => ({
+      ...scene,
+      number: Number(scene.number || scene.scene_number || index + 1),
+    }))
+    const wanted = Array.isArray(sceneNumbers) ? new Set<number>(sceneNumbers) : null
+    // Without an explicit list: everything not yet analyzed, failed, or flagged by a script revision
+    const targets = scenes.filter(scene =>
+      (wanted ? wanted.has(scene.number) : scene.status !== 'COMPLETED' || scene.needsReanalysis === true) &&
+      typeof scene.text === 'string' && scene.text.trim().length >= 5
+    )
+    if (targets.length === 0) {
+      return res.status(400).json({ error: 'NO_SCENES', userMessage: 'There are no scenes to analyze.' })
+    }
+
+    // Failed scenes are charged again; a scene that fails is refunded when it does
+    const queued = targets.map(scene => ({
+      sceneNumber: scene.number,
+      sceneText: scene.text!,
+      credits: CREDITS_PER_SCENE,
+    }))
+    const creditsReserved = queued.reduce((sum, scene) => sum + scene.credits, 0)
+
+    // Workspace projects are billed to the workspace
+    const workspaceId = project.workspaceId || null
+    const insufficientCredits = async () => res.status(402).json({
+      error: 'INSUFFICIENT_CREDITS',
+      message: `Batch needs ${creditsReserved} credits`,
+      userMessage: workspaceId
+        ? await workspaceShortfallMessage(workspaceId, authUserId, creditsReserved)
+        : `You need ${creditsReserved} credits to analyze ${queued.length} scenes. Please purchase more credits to continue.`
+    })
+    if (!(await hasEnoughCredits(authUserId, creditsReserved, workspaceId))) {
+      return insufficientCredits()
+    }
+    try {
+      await deductCredits(authUserId, creditsReserved, undefined, projectId, workspaceId)
+    } catch (error) {
+      // The balance or a workspace limit moved since the check above
+      const message = error instanceof Error ? error.message : ''
+      if (message === 'Not a member of this workspace') {
+        return res.status(403).json({ error: 'FORBIDDEN', userMessage: await workspaceShortfallMessage(workspaceId!, authUserId, creditsReserved) })
+      }
+      if (/insufficient|limit/i.test(message)) return insufficientCredits()
+      throw error
+    }
+
+    const refundReservation = async (reason: string) => {
+      try {
+        await refundCredits(authUserId, creditsReserved, reason, workspaceId)
+      } catch (refundError) {
+        logger.error('analyze-batch', `❌ Refund of ${creditsReserved} credit(s) to ${authUserId} failed:`, refundError)
+      }
+    }
+
+    let batch
+    try {
+      batch = await createAnalysisBatch({
+        userId: authUserId,
+        projectId,
+        workspaceId,
+        concurrency: Math.min(MAX_BATCH_CONCURRENCY, Math.max(1, Number(concurrency) || DEFAULT_BATCH_CONCURRENCY)),
+        creditsReserved,
+        scenes: queued,
+        totalScenes: scenes.length,
+        visualStyle: project.visualStyle || null,
+        visualProfile: project.visualProfile || null,
+        characters: project.characters,
+      })
+    } catch (error) {
+      await refundReservation(`Batch for project ${projectId} could not be created`)
+      throw error
+    }
+    if (!batch) {
+      await refundReservation(`Project ${projectId} already has a batch in progress`)
+      return batchInProgress()
+    }
+
+    runBatch(batch.batchId)
+
+    logger.log('analyze-batch', `🎬 Batch ${batch.batchId}: ${queued.length} scenes queued for project ${projectId}, ${creditsReserved} credit(s) reserved`)
+
+    return res.status(200).json({
+      success: true,
+      message: `${queued.length} scenes queued for analysis`,
+      batchId: batch.batchId,
+      sceneNumbers: batch.sceneNumbers,
+      creditsReserved
+    })
+  } catch (error) {
+    logger.error('analyze-batch', 'Batch submission error:', error)
+    return res.status(500).json({
+      error: 'Failed to queue analysis',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    })
+  }
+}
@@ -1,9 +1,40 @@
 // api/analyze-scene-status.ts
-// Poll endpoint for async job status
+// Poll endpoint for async job status. With ?batchId= (or ?projectId= for the
+// project's latest batch) it reports a whole analysis batch, scene by scene.
 
 import type { VercelRequest, VercelResponse } from '@vercel/node';
-import { getJobStatus } from './lib/analysisJobs.js';
+import { AnalysisBatch, getBatch, getBatchJobs, getJobStatus, getLatestProjectBatch } from './lib/analysisJobs.js';
+import { getDb } from './lib/mongodb.js';
 import { logger } from './lib/logger.js';
+import { projectRecordAccessError } from './lib/projectAccess';
+
+async function batchStatus(batch: AnalysisBatch) {
+  const jobs = await getBatchJobs(batch.batchId);
+  const counts = { pending: 0, processing: 0, completed: 0, error: 0, cancelled: 0 };
+  for (const job of jobs) {
+    counts[job.status.toLowerCase() as keyof typeof counts]++;
+  }
+  return {
+    batchId: batch.batchId,
+    projectId: batch.projectId,
+    status: batch.status,
+    concurrency: batch.concurrency,
+    creditsReserved: batch.creditsReserved,
+    creditsRefunded: batch.creditsRefunded,
+    total: jobs.length,
+    counts,
+    scenes: jobs.map(job => ({
+      sceneNumber: job.sceneNumber,
+      jobId: job.jobId,
+      status: job.status,
+      progress: job.progress,
+      error: job.error,
+    })),
+    createdAt: batch.createdAt,
+    updatedAt: batch.updatedAt,
+    completedAt: batch.completedAt,
+  };
+}
 
 export default async function handler(req: VercelRequest, res: VercelResponse) {
   // CORS headers
@@ -21,17 +52,33 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
   }
 
   try {
-    const { jobId } = req.query;
-
-    if (!jobId || typeof jobId !== 'string') {
-      return res.status(400).json({ error: 'jobId is required' });
-    }
+    const { jobId, batchId, projectId } = req.query;
 
     const authUserId = (req as any).auth?.userId as string | undefined;
     if (!authUserId) {
       return res.status(401).json({ error: 'Authentication required' });
     }
 
+    if ((batchId && typeof batchId === 'string') || (projectId && typeof projectId === 'string')) {
+      const batch = typeof batchId === 'string' && batchId
+        ? await getBatch(batchId)
+        : await getLatestProjectBatch(projectId as string);
+      if (!batch) {
+        // No batch yet is a normal answer when asking by project
+        return batchId ? res.status(404).json({ error: 'Batch not found' }) : res.status(200).json({ batch: null });
+      }
+      // A project's batch is visible to everyone the project is shared with
+      const accessError = await projectRecordAccessError(await getDb(), batch, authUserId, 'viewer');
+      if (accessError) {
+        return res.status(403).json({ error: accessError });
+      }
+      return res.status(200).json({ batch: await batchStatus(batch) });
+    }
+
+    if (!jobId || typeof jobId !== 'string') {
+      return res.status(400).json({ error: 'jobId, batchId or projectId is required' });
+    }
+
     logger.log('analyze-scene-status', `📊 Checking status for job ${jobId}`);
 
     const job = await getJobStatus(jobId);
@@ -40,9 +87,10 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       return res.status(404).json({ error: 'Job not found' });
     }
 
-    // Verify the job belongs to the authenticated user — prevents cross-user job enumeration.
-    if (job.userId && job.userId !== authUserId) {
-      return res.status(403).json({ error: 'User mismatch' });
+    // Only the job's project members (or, without a project, its owner) may read it — prevents cross-user job enumeration.
+    const jobAccessError = await projectRecordAccessError(await getDb(), job, authUserId, 'viewer');
+    if (jobAccessError) {
+      return res.status(403).json({ error: jobAccessError });
     }
 
     // Return job status
@@ -50,6 +98,8 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       jobId: job.jobId,
       status: job.status,
       progress: job.progress,
+      partial: job.partial,
+      usage: job.usage,
       result: job.result,
       error: job.error,
       createdAt: job.createdAt,
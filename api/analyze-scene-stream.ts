@@ -0,0 +1,113 @@
+// api/analyze-scene-stream.ts
+// Server-Sent Events for one analysis job: phase changes, each section as it
+// finishes (story and producing, then directing and the shot list), running
+// token usage, and finally the complete result or the error. The stream
+// opens with whatever the job record already holds, so joining late or
+// reconnecting loses nothing.
+
+import type { VercelRequest, VercelResponse } from '@vercel/node'
+import { getDb } from './lib/mongodb.js'
+import { logger } from './lib/logger.js'
+import { getJobStatus, type AnalysisJob } from './lib/analysisJobs.js'
+import { subscribeJobEvents } from './lib/analysisEvents'
+import { projectRecordAccessError } from './lib/projectAccess'
+import type { AnalysisStreamEvent } from '../src/types/analysis'
+
+const HEARTBEAT_MS = 15_000
+
+/** Events that replay a job's stored state, ending with its outcome if it has one */
+function snapshotEvents(job: AnalysisJob): AnalysisStreamEvent[] {
+  const events: AnalysisStreamEvent[] = []
+  if (job.progress && job.status === 'PROCESSING') {
+    events.push({ type: 'phase', phase: job.progress.phase, message: job.progress.message })
+  }
+  if (job.partial && job.usage) {
+    events.push({ type: 'partial', analysis: job.partial, usage: job.usage })
+  }
+  if (job.status === 'COMPLETED' && job.result) events.push({ type: 'complete', result: job.result })
+  if (job.status === 'ERROR') events.push({ type: 'error', error: job.error || 'Analysis failed' })
+  if (job.status === 'CANCELLED') events.push({ type: 'error', error: 'Analysis was cancelled' })
+  return events
+}
+
+const isFinal = (event: AnalysisStreamEvent) => event.type === 'complete' || event.type === 'error'
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  // CORS handled by server.mjs middleware
+  if (req.method !== 'GET') return res.status(405).json({ error: 'Method not allowed' })
+
+  const { jobId } = req.query
+  if (!jobId || typeof jobId !== 'string') {
+    return res.status(400).json({ error: 'jobId is required' })
+  }
+
+  const authUserId = (req as VercelRequest & { auth?: { userId?: string } }).auth?.userId
+  if (!authUserId) {
+    return res.status(401).json({ error: 'Authentication required' })
+  }
+
+  const job = await getJobStatus(jobId)
+  if (!job) {
+    return res.status(404).json({ error: 'Job not found' })
+  }
+  // Anyone who can see the job's project can watch it, whoever started it
+  const accessError = await projectRecordAccessError(await getDb(), job, authUserId, 'viewer')
+  if (accessError) {
+    return res.status(403).json({ error: accessError })
+  }
+
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache, no-transform',
+    'Connection': 'keep-alive',
+    // Stop proxies (nginx) from buffering the stream
+    'X-Accel-Buffering': 'no',
+  })
+
+  let closed = false
+  let unsubscribe = () => {}
+
+  // The heartbeat keeps idle connections open and re-checks the record, in
+  // case the job finished somewhere this process didn't hear about
+  const heartbeat = setInterval(async () => {
+    if (closed) return
+    try {
+      res.write(': ping\n\n')
+      const latest = await getJobStatus(jobId)
+      if (latest && latest.status !== 'PROCESSING' && latest.status !== 'PENDING') {
+        snapshotEvents(latest).filter(isFinal).forEach(send)
+      }
+    } catch (error) {
+      // Nothing awaits this callback, so a failure here must not escape it
+      logger.error('analyze-scene-stream', `❌ Heartbeat for job ${jobId} failed:`, error)
+      close()
+    }
+  }, HEARTBEAT_MS)
+
+  const close = () => {
+    if (closed) return
+    closed = true
+    clearInterval(heartbeat)
+    unsubscribe()
+    res.end()
+  }
+
+  const send = (event: AnalysisStreamEvent) => {
+    if (closed) return
+    res.write(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`)
+    if (isFinal(event)) close()
+  }
+
+  // Subscribe before reading the record again so nothing falls in between;
+  // a live event that repeats the snapshot is harmless to the client
+  const queued: AnalysisStreamEvent[] = []
+  let live = false
+  unsubscribe = subscribeJobEvents(jobId, event => (live ? send(event) : queued.push(event)))
+  req.on('close', close)
+
+  const current = (await getJobStatus(jobId)) || job
+  snapshotEvents(current).forEach(send)
+  live = true
+  queued.forEach(send)
+  if (!closed) logger.log('analyze-scene-stream', `📡 Streaming job ${jobId}`)
+}
@@ -1,32 +1,26 @@
 // api/analyze-scene.ts
-// Scene analysis using Claude API (Anthropic)
+// Scene analysis through the configured LLM provider (lib/llm.ts)
 // ARCHITECTURE: 3 focused API calls for reliable complete analysis
 
 import type { VercelRequest, VercelResponse } from '@vercel/node'
+import { ObjectId } from 'mongodb'
+import { getDb } from "./lib/mongodb.js";
 import { logger } from "./lib/logger";
 import { hasEnoughCredits, deductCredits, refundCredits } from "./lib/credits.js";
-import { createAnalysisJob, updateJobStatus, completeJob, failJob } from "./lib/analysisJobs.js";
+import { createAnalysisJob, updateJobStatus, completeJob, failJob, saveJobPartial } from "./lib/analysisJobs.js";
+import { publishJobEvent } from "./lib/analysisEvents";
+import { ACCESS_PROJECTION, storedProjectRole } from './lib/projectAccess'
+import { workspaceShortfallMessage } from './lib/workspaces'
+import { callLLMJson, getLLMProvider, type LLMJsonResult, type LLMProvider, type LLMUsage } from "./lib/llm";
+import { hasProjectRole } from '../src/lib/projectAccess'
+import { ensureRegistry, canonicalizeNames, resolveCharacter, type StoredCharacter } from '../src/lib/characterRegistry'
+import { analysisIssues, directingCallSchema, failingFields, producingCallSchema, storyCallSchema } from '../src/lib/analysisSchema'
+import { sceneThreadLinks, spineContextForScene, type StorySpine } from '../src/lib/storySpine'
+import { CAMERA_ANGLES, CAMERA_MOVEMENTS, CAMERA_RIGS, SHOT_SIZES, withShotCamera } from '../src/lib/shotCamera'
+import type { AnalysisData, AnalysisPhase, AnalysisUsageTotals } from '../src/types/analysis'
 
 const DEPLOY_TIMESTAMP = "2025-02-05T03:00:00Z_REQUIRED_FIELDS_PROMPT"
 
-// Model selection with environment variable fallback
-const MODEL = process.env.CLAUDE_MODEL || "claude-sonnet-4-5-20250929"
-
-function getEnvironmentVariable(name: string): string | undefined {
-  try {
-    if (process.env && typeof process.env === 'object') {
-      const value = process.env[name]
-      if (value !== undefined && value !== null) {
-        return value
-      }
-    }
-    return undefined
-  } catch (error) {
-    logger.error("analyze-scene", `Failed to access environment variable "${name}":`, error)
-    return undefined
-  }
-}
-
 interface VisualProfile {
   color_palette_hex: string[]
   accent_colors_hex: string[]
@@ -73,136 +67,26 @@ interface AnalyzeSceneRequest {
   totalScenes: number
   visualStyle?: string
   visualProfile?: VisualProfile
-  characters?: Array<{ name: string; physical: string }>
+  characters?: StoredCharacter[]
   customInstructions?: string
   storyLogicContext?: StoryLogicContext
-}
-
-// ═══════════════════════════════════════════════════════════════
-// HELPER: Make Claude API call
-// ═══════════════════════════════════════════════════════════════
-async function callClaude(
-  apiKey: string,
-  systemPrompt: string,
-  userPrompt: string,
-  invocationId: string,
-  callName: string,
-  maxTokens: number = 8000,
-  timeoutMs: number = 300000
-): Promise<{ success: boolean; data?: any; error?: string; usage?: any }> {
-  const MAX_RETRIES = 2 // 3 total attempts
-  let lastError = ''
-
-  for (let attempt = 0; attempt <= MAX_RETRIES; attempt++) {
-    if (attempt > 0) {
-      const backoffMs = Math.pow(3, attempt) * 1000 // 3s, 9s
-      logger.log("analyze-scene", `⏳ [${invocationId}] ${callName} retry ${attempt}/${MAX_RETRIES} after ${backoffMs}ms backoff...`)
-      await new Promise(r => setTimeout(r, backoffMs))
-    }
-
-    const controller = new AbortController()
-    const timeoutId = setTimeout(() => controller.abort(), timeoutMs)
-
-    try {
-      logger.log("analyze-scene", `🤖 [${invocationId}] Calling ${MODEL} for ${callName} (attempt ${attempt + 1}/${MAX_RETRIES + 1}, timeout ${Math.round(timeoutMs / 1000)}s)...`)
-      const startTime = Date.now()
-
-      const response = await fetch('https://api.anthropic.com/v1/messages', {
-        method: 'POST',
-        headers: {
-          'x-api-key': apiKey,
-          'anthropic-version': '2023-06-01',
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          model: MODEL,
-          max_tokens: maxTokens,
-          system: systemPrompt,
-          messages: [{ role: 'user', content: userPrompt }]
-        }),
-        signal: controller.signal
-      })
-
-      clearTimeout(timeoutId)
-      const duration = Date.now() - startTime
-      logger.log("analyze-scene", `⏱️  [${invocationId}] ${callName} responded in ${duration}ms`)
-
-      if (!response.ok) {
-        const errorText = await response.text()
-        lastError = `API error ${response.status}: ${errorText}`
-        logger.error("analyze-scene", `❌ [${invocationId}] ${callName} API error (${response.status}): ${errorText}`)
-        // Retry on 5xx server errors and 429 rate limits
-        if ((response.status >= 500 || response.status === 429) && attempt < MAX_RETRIES) {
-          continue
-        }
-        return { success: false, error: lastError }
-      }
-
-      const data = await response.json()
-      const content = data.content?.[0]?.text
-
-      if (!content) {
-        lastError = 'Empty response from Claude'
-        if (attempt < MAX_RETRIES) continue
-        return { success: false, error: lastError }
-      }
-
-      // Log token usage
-      const usage = data.usage || {}
-      const inputTokens = usage.input_tokens || 0
-      const outputTokens = usage.output_tokens || 0
-
-      // Cost calculation for Sonnet: $3 input / $15 output per million tokens
-      const estimatedCost = (
-        (inputTokens * 3 / 1_000_000) +
-        (outputTokens * 15 / 1_000_000)
-      ).toFixed(4)
-
-      logger.log("analyze-scene", `💰 [${invocationId}] ${callName} usage: input=${inputTokens}, output=${outputTokens}, cost=$${estimatedCost}`)
-
-      // Extract JSON from response
-      let jsonStr = content
-      const jsonMatch = content.match(/```(?:json)?\s*([\s\S]*?)```/)
-      if (jsonMatch) {
-        jsonStr = jsonMatch[1]
-      }
-      const rawJsonMatch = content.match(/\{[\s\S]*\}/)
-      if (rawJsonMatch && !jsonMatch) {
-        jsonStr = rawJsonMatch[0]
-      }
-
-      const parsed = JSON.parse(jsonStr.trim())
-      logger.log("analyze-scene", `✅ [${invocationId}] ${callName} parsed successfully${attempt > 0 ? ` (after ${attempt} retries)` : ''}`)
-      return { success: true, data: parsed, usage: { inputTokens, outputTokens, estimatedCost } }
-
-    } catch (error: any) {
-      clearTimeout(timeoutId)
-      if (error.name === 'AbortError') {
-        lastError = `${callName} timed out after ${Math.round(timeoutMs / 1000)}s`
-      } else {
-        lastError = error.message || 'Unknown error'
-      }
-
-      if (attempt < MAX_RETRIES) {
-        logger.warn("analyze-scene", `⚠️ [${invocationId}] ${callName} attempt ${attempt + 1} failed: ${lastError}`)
-        continue
-      }
-      return { success: false, error: lastError }
-    }
-  }
-
-  return { success: false, error: `${callName} failed after ${MAX_RETRIES + 1} attempts` }
+  /** Project the scene belongs to; its story spine, if built, informs the analysis */
+  projectId?: string
+  isRetry?: boolean
+  /** Reply 202 with the jobId straight away; follow progress on /api/analyze-scene-stream */
+  background?: boolean
 }
 
 // ═══════════════════════════════════════════════════════════════
 // CALL 1: STORY ANALYSIS (14 fields including story-critical analysis)
 // ═══════════════════════════════════════════════════════════════
 async function analyzeStory(
-  apiKey: string,
+  provider: LLMProvider,
   sceneText: string,
   characters: string[],
   invocationId: string,
   storyLogicContext?: StoryLogicContext,
+  spineContext: string = '',
   timeoutMs: number = 300000
 ): Promise<{ success: boolean; data?: any; error?: string; usage?: any }> {
 
@@ -220,6 +104,13 @@ TURN CAUSE: ${storyLogicContext.turnCause}
 STAKES: ${storyLogicContext.stakes}
 CHANGE (what shifts by scene end): ${storyLogicContext.change}
 </story_logic_context>
+` : ''
+
+  const storySpineBlock = spineContext ? `
+<story_spine>
+Where this scene sits in the whole script. Setups listed here MUST appear in setup_payoff.setups and payoffs in setup_payoff.payoffs; name the scene they connect to:
+${spineContext}
+</story_spine>
 ` : ''
 
   const userPrompt = `Analyze this scene and return JSON with ALL 14 fields. Every field is REQUIRED - do not skip any.
@@ -231,7 +122,7 @@ ${sceneText}
 <characters>
 ${characters.join(', ')}
 </characters>
-${storyLogicBlock}
+${storyLogicBlock}${storySpineBlock}
 
 Return ONLY valid JSON (no markdown, no explanation). Fill in EVERY field - especially synopsis and scene_obligation are CRITICAL:
 {
@@ -256,14 +147,19 @@ Return ONLY valid JSON (no markdown, no explanation). Fill in EVERY field - espe
 
 IMPORTANT: Your response must include ALL 14 fields with substantive content. Do not skip scene_obligation or the_one_thing.`
 
-  return callClaude(apiKey, systemPrompt, userPrompt, invocationId, 'STORY_ANALYSIS', 8000, timeoutMs)
+  return callLLMJson(provider, {
+    system: systemPrompt,
+    messages: [{ role: 'user', content: userPrompt }],
+    maxTokens: 8000,
+    callName: 'STORY_ANALYSIS'
+  }, invocationId, timeoutMs)
 }
 
 // ═══════════════════════════════════════════════════════════════
 // CALL 2: PRODUCING LOGISTICS (extraction from scene text)
 // ═══════════════════════════════════════════════════════════════
 async function analyzeProducing(
-  apiKey: string,
+  provider: LLMProvider,
   sceneText: string,
   sceneHeader: string,
   characters: string[],
@@ -323,7 +219,14 @@ Return ONLY this JSON (no markdown):
       "makeup": "Makeup/hair state exiting",
       "time_logic": "Time relationship to next scene",
       "emotional_state": "Character emotional state exiting"
-    }
+    },
+    "characters": [
+      {
+        "name": "CHARACTER NAME (one entry per principal and speaking character)",
+        "carries_in": { "costume": "What they wear entering", "props": "What they carry entering", "makeup": "Hair/makeup/injuries entering", "emotional_state": "How they feel entering" },
+        "carries_out": { "costume": "What they wear leaving", "props": "What they carry leaving", "makeup": "Hair/makeup/injuries leaving", "emotional_state": "How they feel leaving" }
+      }
+    ]
   },
   "scene_complexity": {
     "rating": "1-5 integer: 1=simple interior, 2=standard, 3=moderate technical needs, 4=complex/stunts/VFX, 5=major set piece",
@@ -369,19 +272,25 @@ Return ONLY this JSON (no markdown):
   }
 }`
 
-  return callClaude(apiKey, systemPrompt, userPrompt, invocationId, 'PRODUCING_LOGISTICS', 8000, timeoutMs)
+  return callLLMJson(provider, {
+    system: systemPrompt,
+    messages: [{ role: 'user', content: userPrompt }],
+    maxTokens: 8000,
+    callName: 'PRODUCING_LOGISTICS'
+  }, invocationId, timeoutMs)
 }
 
 // ═══════════════════════════════════════════════════════════════
 // CALL 3: DIRECTING + SHOTS (receives story context)
 // ═══════════════════════════════════════════════════════════════
 async function analyzeDirecting(
-  apiKey: string,
+  provider: LLMProvider,
   sceneText: string,
   characters: string[],
   storyAnalysis: any,
   customInstructions: string | undefined,
   invocationId: string,
+  spineContext: string = '',
   timeoutMs: number = 300000
 ): Promise<{ success: boolean; data?: any; error?: string; usage?: any }> {
 
@@ -486,6 +395,14 @@ WHEN TO USE INSERT + REACTION:
 
 RULE: If a character reveals something significant and another character's response to that reveal matters to the story, you need BOTH the reveal shot AND the reaction shot. Do not try to capture both in a single wide or medium.
 
+CAMERA DETAILS FOR THE DP:
+
+Every shot also carries structured camera fields the crew can plan and light from:
+- shot_size, camera_angle, camera_movement, rig: use ONLY the listed values
+- lens_mm: the focal length that serves the shot (wider lenses for geography and isolation, longer for compression and intimacy)
+- frame_rate: set ONLY for off-speed shots (e.g. 48 or 120 for slow motion); omit for normal speed
+- setup_id: a letter per camera position and lighting setup (A, B, C...). Shots from the same position share a letter even when they are not consecutive in the cut, so the crew can shoot them back to back. Reverse angles are a new setup.
+
 Return ONLY valid JSON.`
 
   const userPrompt = `Plan directing notes, performance guidance, and shot list for this scene:
@@ -510,6 +427,7 @@ ESSENTIAL EXPOSITION: ${storyAnalysis.essential_exposition || 'Not specified'}
 SETUPS: ${(storyAnalysis.setup_payoff?.setups || []).join('; ') || 'None'}
 PAYOFFS: ${(storyAnalysis.setup_payoff?.payoffs || []).join('; ') || 'None'}
 </story_context>
+${spineContext ? `<story_spine>\nWhere this scene sits in the whole script. Give SETUP and PAYOFF beats from it their own shots, and echo recurring motifs visually:\n${spineContext}\n</story_spine>` : ''}
 ${customInstructions ? `<director_notes>${customInstructions}</director_notes>` : ''}
 
 Return ONLY this JSON (no markdown):
@@ -571,6 +489,13 @@ Return ONLY this JSON (no markdown):
     {
       "shot_number": 1,
       "shot_type": "WIDE | MEDIUM | CLOSE_UP | EXTREME_CLOSE_UP | TWO_SHOT | GROUP_SHOT | INSERT | POV | OVER_SHOULDER",
+      "shot_size": "${SHOT_SIZES.join(' | ')}",
+      "camera_angle": "${CAMERA_ANGLES.join(' | ')}",
+      "camera_movement": "${CAMERA_MOVEMENTS.join(' | ')}",
+      "lens_mm": 35,
+      "rig": "${CAMERA_RIGS.join(' | ')}",
+      "frame_rate": "Only for off-speed shots, e.g. 48. Omit otherwise",
+      "setup_id": "A",
       "subject": "What/who is in frame and what action occurs",
       "visual": "Composition and camera notes for Director/DP",
       "serves_story_element": "CORE | TURN_CATALYST | TURN_LANDING | SUBTEXT | CONFLICT | STAKES | SETUP | PAYOFF",
@@ -581,7 +506,508 @@ Return ONLY this JSON (no markdown):
   "shot_list_rationale": "ONLY include if shot_list has 10+ shots. Explain why this scene genuinely requires more coverage than typical. Empty string if under 10 shots."
 }`
 
-  return callClaude(apiKey, systemPrompt, userPrompt, invocationId, 'DIRECTING_SHOTS', 16000, timeoutMs)
+  return callLLMJson(provider, {
+    system: systemPrompt,
+    messages: [{ role: 'user', content: userPrompt }],
+    maxTokens: 16000,
+    callName: 'DIRECTING_SHOTS'
+  }, invocationId, timeoutMs)
+}
+
+// ═══════════════════════════════════════════════════════════════
+// FIELD REPAIR
+// When a call's JSON fails its schema, ask the model again for only the
+// failing top-level fields and merge them back. One round per call: whatever
+// still fails afterwards is reported as a validation issue.
+// ═══════════════════════════════════════════════════════════════
+async function repairFields(
+  provider: LLMProvider,
+  callName: string,
+  schema: Parameters<typeof failingFields>[0],
+  data: Record<string, unknown>,
+  sceneText: string,
+  context: string,
+  invocationId: string,
+  timeoutMs: number
+): Promise<{ repaired: string[]; usage?: LLMUsage }> {
+  const failing = failingFields(schema, data)
+  if (failing.size === 0) return { repaired: [] }
+
+  const fields = [...failing.keys()]
+  logger.warn("analyze-scene", `🔧 [${invocationId}] ${callName} failed validation on ${fields.join(', ')}; requesting repair`)
+
+  const problems = fields.map(field => `- ${field}: ${failing.get(field)!.join('; ')}`).join('\n')
+  const current = JSON.stringify(Object.fromEntries(fields.map(field => [field, data[field] ?? null])), null, 2)
+  const result = await callLLMJson<Record<string, unknown>>(provider, {
+    system: `You are correcting part of a scene analysis you produced earlier. Regenerate ONLY the fields listed, fixing the problems noted, and keep them consistent with the scene. Return ONLY valid JSON.`,
+    messages: [{
+      role: 'user',
+      content: `<scene>
+${sceneText}
+</scene>
+${context ? `\n<context>\n${context}\n</context>\n` : ''}
+These fields failed validation:
+${problems}
+
+Their current values:
+${current}
+
+Return ONLY a JSON object with exactly these keys: ${fields.join(', ')}`
+    }],
+    maxTokens: fields.includes('shot_list') ? 16000 : 4000,
+    callName: `${callName}_REPAIR`
+  }, invocationId, timeoutMs)
+
+  if (result.success !== true || !result.data || typeof result.data !== 'object') {
+    logger.warn("analyze-scene", `⚠️ [${invocationId}] ${callName} repair failed: ${result.error || 'no data'}`)
+    return { repaired: [], usage: result.usage }
+  }
+
+  const repaired: string[] = []
+  for (const field of fields) {
+    if (!(field in result.data)) continue
+    const before = data[field]
+    data[field] = result.data[field]
+    // Keep the repair only if it actually fixed the field
+    if (failingFields(schema, data).has(field)) data[field] = before
+    else repaired.push(field)
+  }
+  logger.log("analyze-scene", `🔧 [${invocationId}] ${callName} repaired ${repaired.length}/${fields.length} field(s)${repaired.length ? `: ${repaired.join(', ')}` : ''}`)
+  return { repaired, usage: result.usage }
+}
+
+function sumUsage(usages: Array<LLMUsage | undefined>): AnalysisUsageTotals {
+  return {
+    totalInputTokens: usages.reduce((sum, usage) => sum + (usage?.inputTokens || 0), 0),
+    totalOutputTokens: usages.reduce((sum, usage) => sum + (usage?.outputTokens || 0), 0),
+    totalCost: usages.reduce((sum, usage) => sum + parseFloat(usage?.estimatedCost || '0'), 0).toFixed(4),
+  }
+}
+
+// ═══════════════════════════════════════════════════════════════
+// SCENE ANALYSIS PIPELINE
+// The three calls plus normalization and validation, without credits or
+// HTTP. Shared by the handler below and the batch queue (lib/analysisBatches).
+// ═══════════════════════════════════════════════════════════════
+export interface SceneAnalysisInput {
+  sceneText: string
+  sceneNumber: number
+  characters?: StoredCharacter[]
+  customInstructions?: string
+  storyLogicContext?: StoryLogicContext
+  storySpine?: StorySpine | null
+}
+
+type SceneAnalysisQuality = 'good' | 'fair' | 'poor'
+
+export type SceneAnalysisOutcome =
+  | {
+      success: true
+      analysis: Record<string, unknown>
+      validation: { quality: SceneAnalysisQuality; issues: string[] }
+      meta: Record<string, unknown>
+      usage: { totalInputTokens: number; totalOutputTokens: number; totalCost: string }
+    }
+  | { success: false; error: string }
+
+export async function runSceneAnalysis(
+  provider: LLMProvider,
+  input: SceneAnalysisInput,
+  invocationId: string,
+  jobId: string | null = null
+): Promise<SceneAnalysisOutcome> {
+  const { sceneText, sceneNumber, customInstructions, storyLogicContext, storySpine } = input
+  const spineContext = spineContextForScene(storySpine, sceneNumber)
+  if (spineContext) logger.log("analyze-scene", `🧭 [${invocationId}] Story spine present — scene ${sceneNumber} analyzed in whole-script context`)
+
+  // Extract character names
+  const dialogueMatches = sceneText.match(/^[A-Z][A-Z\s]+(?=\n)/gm) || []
+  const speakingCharacters = [...new Set(dialogueMatches.map(m => m.trim().replace(/\s*\(CONT'D\)/, '')))]
+  const actionPattern = /\b([A-Z][a-z]{2,})\s+(?:stands?|watches?|eyes|looks?|pushes?|pulls?|walks?|sits?|moves?|turns?|enters?|exits?|leaves?|waits?|unlocks?)\b/g
+  const actionMatches = [...sceneText.matchAll(actionPattern)]
+  const actionCharacters = actionMatches.map(m => m[1])
+  const allCharacters = [...new Set([...speakingCharacters, ...actionCharacters])]
+  const notCharacters = ['Camera', 'Shot', 'Scene', 'Something', 'Behind', 'Wind']
+  // Resolve against the project's cast registry so "MIKE" and "Michael" reach the prompts as one person
+  const registry = ensureRegistry(input.characters)
+  const detectedCharacters = allCharacters.filter(c => c.length > 2 && !notCharacters.includes(c))
+  const characters = registry.length > 0 ? canonicalizeNames(registry, detectedCharacters) : detectedCharacters
+
+  logger.log("analyze-scene", `📊 [${invocationId}] Characters: ${characters.join(', ')}`)
+
+  // Extract scene header (first line, usually INT/EXT line)
+  const sceneHeader = sceneText.split('\n')[0] || ''
+
+  const startTime = Date.now()
+
+  // ═══════════════════════════════════════════════════════════════
+  // DYNAMIC TIMEOUT: Scale based on scene length
+  // Base: 300s for scenes under 4000 chars. +60s per 2000 chars above. Cap: 540s (9 min).
+  // ═══════════════════════════════════════════════════════════════
+  const baseTimeoutMs = 300_000
+  const extraTimeoutMs = Math.max(0, sceneText.length - 4000) / 2000 * 60_000
+  const callTimeoutMs = Math.min(baseTimeoutMs + extraTimeoutMs, 540_000)
+  logger.log("analyze-scene", `⏱️  [${invocationId}] Dynamic timeout: ${Math.round(callTimeoutMs / 1000)}s (scene length: ${sceneText.length} chars)`)
+
+  // ═══════════════════════════════════════════════════════════════
+  // CALLS 1+2: Story Analysis + Producing Logistics (PARALLEL)
+  // Story and Producing are independent — run them concurrently
+  // to cut ~25 seconds off each scene analysis.
+  // ═══════════════════════════════════════════════════════════════
+  logger.log("analyze-scene", `\n📖🎬 [${invocationId}] STEP 1/3: Story + Producing (parallel)...`)
+
+  const repairUsage: LLMUsage[] = []
+  const repairedFields: string[] = []
+  const unresolvedCharacters: string[] = []
+
+  // Progress for streaming clients: saved on the job for late joiners and
+  // published to live subscribers. Jobless runs just skip it.
+  const callUsage: LLMUsage[] = []
+  const reportPhase = async (phase: AnalysisPhase, message: string) => {
+    if (!jobId) return
+    await updateJobStatus(jobId, 'PROCESSING', { phase, message })
+    publishJobEvent(jobId, { type: 'phase', phase, message })
+  }
+  const reportPartial = async (sections: Partial<AnalysisData>, usage?: LLMUsage) => {
+    if (usage) callUsage.push(usage)
+    if (!jobId) return
+    const totals = sumUsage([...callUsage, ...repairUsage])
+    await saveJobPartial(jobId, sections, totals)
+    publishJobEvent(jobId, { type: 'partial', analysis: sections, usage: totals })
+  }
+
+  // Each call is repaired and normalized as soon as it returns, and its
+  // section streamed to the client (lib/analysisEvents) without waiting
+  // for the other
+  const finishStory = async (result: LLMJsonResult<AnalysisData['story_analysis']>) => {
+    if (!result.success) return result
+    logger.log("analyze-scene", `✅ [${invocationId}] Story analysis complete`)
+    const storyRepair = await repairFields(provider, 'STORY_ANALYSIS', storyCallSchema, result.data, sceneText, '', invocationId, callTimeoutMs)
+    if (storyRepair.usage) repairUsage.push(storyRepair.usage)
+    repairedFields.push(...storyRepair.repaired.map(field => `story_analysis.${field}`))
+    logger.log("analyze-scene", `   - the_core: "${result.data.the_core?.substring(0, 60)}..."`)
+    logger.log("analyze-scene", `   - synopsis: "${result.data.synopsis?.substring(0, 60) || 'MISSING'}..."`)
+    logger.log("analyze-scene", `   - the_turn: "${result.data.the_turn?.substring(0, 60)}..."`)
+    logger.log("analyze-scene", `   - scene_obligation: "${result.data.scene_obligation?.substring(0, 60) || 'MISSING'}..."`)
+    logger.log("analyze-scene", `   - the_one_thing: "${result.data.the_one_thing?.substring(0, 60)}..."`)
+    logger.log("analyze-scene", `   - alternative_readings: ${result.data.alternative_readings?.length || 0} readings`)
+
+    // Normalize story fields with safe defaults
+    if (!result.data.synopsis) result.data.synopsis = ''
+    if (!result.data.scene_obligation) result.data.scene_obligation = ''
+    if (!result.data.the_one_thing) result.data.the_one_thing = ''
+    if (!result.data.setup_payoff) result.data.setup_payoff = { setups: [], payoffs: [] }
+    if (!result.data.setup_payoff.setups) result.data.setup_payoff.setups = []
+    if (!result.data.setup_payoff.payoffs) result.data.setup_payoff.payoffs = []
+    // Cross-link to the scenes at the other end of each spine thread
+    const links = sceneThreadLinks(storySpine, sceneNumber)
+    if (links.length > 0) result.data.setup_payoff.links = links
+    if (!result.data.essential_exposition) result.data.essential_exposition = ''
+    if (!result.data.if_this_scene_fails) result.data.if_this_scene_fails = ''
+    if (!Array.isArray(result.data.alternative_readings)) result.data.alternative_readings = []
+
+    await reportPartial({ story_analysis: result.data }, result.usage)
+    return result
+  }
+
+  const finishProducing = async (result: LLMJsonResult<AnalysisData['producing_logistics']>) => {
+    // Handle producing result
+    if (!result.success) {
+      logger.error("analyze-scene", `❌ [${invocationId}] Producing analysis failed: ${result.error}`)
+      // Continue with empty producing logistics rather than failing entirely
+      result.data = {
+        locations: { primary: sceneHeader, setting: 'Unknown', intExt: 'INT', timeOfDay: 'DAY' },
+        cast: { principal: characters, speaking: characters, silent: [], extras: { count: '0', description: '' } },
+        key_props: [],
+        red_flags: [],
+        departments_affected: ['Camera', 'Sound'],
+        resource_impact: 'Medium',
+        continuity: { carries_in: { costume: '', props: '', makeup: '', time_logic: '', emotional_state: '' }, carries_out: { costume: '', props: '', makeup: '', time_logic: '', emotional_state: '' } },
+        scene_complexity: { rating: 0, justification: '' },
+        estimated_screen_time: { pages: 0, estimated_minutes: '', pacing_note: '' },
+        scheduling_notes: { combinable_with: [], must_schedule_before: [], must_schedule_after: [], time_of_day_requirement: '', weather_dependency: '', actor_availability_note: '' },
+        sound_design: { production_sound_challenges: [], ambient_requirements: [], silence_moments: [], sound_effects_needed: [], music_notes: '' },
+        safety_specifics: { concerns: [], protocols_required: [], personnel_needed: [], actor_prep_required: '' },
+        department_specific_notes: {}
+      }
+    } else {
+      const producingRepair = await repairFields(provider, 'PRODUCING_LOGISTICS', producingCallSchema, result.data, sceneText, `SCENE HEADER: ${sceneHeader}\nCHARACTERS: ${characters.join(', ')}`, invocationId, callTimeoutMs)
+      if (producingRepair.usage) repairUsage.push(producingRepair.usage)
+      repairedFields.push(...producingRepair.repaired.map(field => `producing_logistics.${field}`))
+    }
+
+    logger.log("analyze-scene", `✅ [${invocationId}] Producing logistics complete`)
+    logger.log("analyze-scene", `   - Location: ${result.data.locations?.primary}`)
+    logger.log("analyze-scene", `   - Cast: ${result.data.cast?.principal?.join(', ')}`)
+    logger.log("analyze-scene", `   - Scene complexity: ${result.data.scene_complexity?.rating || 'missing'}/5`)
+    logger.log("analyze-scene", `   - Est. screen time: ${result.data.estimated_screen_time?.estimated_minutes || 'missing'}`)
+    logger.log("analyze-scene", `   - Sound challenges: ${result.data.sound_design?.production_sound_challenges?.length || 0}`)
+    logger.log("analyze-scene", `   - Safety concerns: ${result.data.safety_specifics?.concerns?.length || 0}`)
+
+    // Normalize new producing fields with safe defaults if Claude omitted them
+    const emptyCarry = { costume: '', props: '', makeup: '', time_logic: '', emotional_state: '' }
+    if (!result.data.continuity || typeof result.data.continuity !== 'object') result.data.continuity = { carries_in: { ...emptyCarry }, carries_out: { ...emptyCarry } }
+    if (!result.data.continuity.carries_in) result.data.continuity.carries_in = { ...emptyCarry }
+    if (!result.data.continuity.carries_out) result.data.continuity.carries_out = { ...emptyCarry }
+    if (!Array.isArray(result.data.continuity.characters)) result.data.continuity.characters = []
+    if (!result.data.scene_complexity || typeof result.data.scene_complexity !== 'object') result.data.scene_complexity = { rating: 0, justification: '' }
+    if (!result.data.estimated_screen_time || typeof result.data.estimated_screen_time !== 'object') result.data.estimated_screen_time = { pages: 0, estimated_minutes: '', pacing_note: '' }
+    if (!result.data.scheduling_notes || typeof result.data.scheduling_notes !== 'object') result.data.scheduling_notes = { combinable_with: [], must_schedule_before: [], must_schedule_after: [], time_of_day_requirement: '', weather_dependency: '', actor_availability_note: '' }
+    if (!Array.isArray(result.data.scheduling_notes.combinable_with)) result.data.scheduling_notes.combinable_with = []
+    if (!Array.isArray(result.data.scheduling_notes.must_schedule_before)) result.data.scheduling_notes.must_schedule_before = []
+    if (!Array.isArray(result.data.scheduling_notes.must_schedule_after)) result.data.scheduling_notes.must_schedule_after = []
+    if (!result.data.sound_design || typeof result.data.sound_design !== 'object') result.data.sound_design = { production_sound_challenges: [], ambient_requirements: [], silence_moments: [], sound_effects_needed: [], music_notes: '' }
+    if (!Array.isArray(result.data.sound_design.production_sound_challenges)) result.data.sound_design.production_sound_challenges = []
+    if (!Array.isArray(result.data.sound_design.ambient_requirements)) result.data.sound_design.ambient_requirements = []
+    if (!Array.isArray(result.data.sound_design.silence_moments)) result.data.sound_design.silence_moments = []
+    if (!Array.isArray(result.data.sound_design.sound_effects_needed)) result.data.sound_design.sound_effects_needed = []
+    if (!result.data.safety_specifics || typeof result.data.safety_specifics !== 'object') result.data.safety_specifics = { concerns: [], protocols_required: [], personnel_needed: [], actor_prep_required: '' }
+    if (!Array.isArray(result.data.safety_specifics.concerns)) result.data.safety_specifics.concerns = []
+    if (!Array.isArray(result.data.safety_specifics.protocols_required)) result.data.safety_specifics.protocols_required = []
+    if (!Array.isArray(result.data.safety_specifics.personnel_needed)) result.data.safety_specifics.personnel_needed = []
+    if (!result.data.department_specific_notes || typeof result.data.department_specific_notes !== 'object') result.data.department_specific_notes = {}
+
+    // Canonical cast names: every scene refers to a registry character by the
+    // same name. Names the registry doesn't know are reported back so the
+    // client can offer to add or merge them.
+    if (registry.length > 0 && result.data.cast && typeof result.data.cast === 'object') {
+      for (const key of ['principal', 'speaking', 'silent'] as const) {
+        const names = result.data.cast[key]
+        if (!Array.isArray(names)) continue
+        result.data.cast[key] = canonicalizeNames(registry, names)
+        for (const name of result.data.cast[key]) {
+          if (!resolveCharacter(registry, name) && !unresolvedCharacters.includes(name)) unresolvedCharacters.push(name)
+        }
+      }
+      // Per-character continuity is compared across scenes by name, so it needs the same names
+      for (const entry of result.data.continuity.characters) {
+        if (entry && typeof entry.name === 'string') entry.name = canonicalizeNames(registry, [entry.name])[0] || entry.name
+      }
+    }
+
+    await reportPartial({ producing_logistics: result.data }, result.usage)
+    return result
+  }
+
+  const [storyResult, producingResult] = await Promise.all([
+    analyzeStory(provider, sceneText, characters, invocationId, storyLogicContext, spineContext, callTimeoutMs).then(finishStory),
+    analyzeProducing(provider, sceneText, sceneHeader, characters, invocationId, callTimeoutMs).then(finishProducing),
+  ])
+
+  // Handle story result
+  if (!storyResult.success) {
+    logger.error("analyze-scene", `❌ [${invocationId}] Story analysis failed: ${storyResult.error}`)
+    return { success: false, error: storyResult.error || 'Story analysis failed' }
+  }
+
+  await reportPhase('directing', 'Story + Producing complete, generating shot list...')
+
+  // ═══════════════════════════════════════════════════════════════
+  // CALL 3: Directing + Shot List (with story context)
+  // ═══════════════════════════════════════════════════════════════
+  logger.log("analyze-scene", `\n🎥 [${invocationId}] STEP 3/3: Directing Vision + Shot List...`)
+  const directingResult = await analyzeDirecting(
+    provider,
+    sceneText,
+    characters,
+    storyResult.data,
+    customInstructions,
+    invocationId,
+    spineContext,
+    callTimeoutMs
+  )
+
+  // Track validation issues (declared here so directing degradation can push to it)
+  const validationIssues: string[] = []
+
+  if (!directingResult.success) {
+    logger.error("analyze-scene", `❌ [${invocationId}] Directing analysis failed: ${directingResult.error}`)
+    // GRACEFUL DEGRADATION: Return story + producing with empty directing
+    // instead of failing the entire analysis
+    directingResult.data = {
+      subtext: { what_they_say_vs_want: '', power_dynamic: '', emotional_turn: '', revelation_or_realization: '' },
+      conflict: { type: [], what_characters_want: [], obstacles: [], tactics: [], winner: '' },
+      tone_and_mood: { opening: '', shift: '', closing: '', energy: '' },
+      visual_strategy: { approach: '', camera_personality: '', lighting_mood: '' },
+      visual_metaphor: '',
+      editorial_intent: '',
+      key_moments: [],
+      blocking: { geography: '', movement: '', eyelines: '' },
+      actor_objectives: {},
+      scene_rhythm: { tempo: '', breaths: '', acceleration_points: '', holds: '' },
+      what_not_to_do: [],
+      tone_reference: '',
+      creative_questions: [],
+      performance_notes: {},
+      shot_list: [],
+      shot_list_rationale: ''
+    }
+    validationIssues.push('DIRECTING_DEGRADED: Shot list and directing vision could not be generated. Retry to complete analysis.')
+  } else {
+    const directingRepair = await repairFields(
+      provider,
+      'DIRECTING_SHOTS',
+      directingCallSchema(storyResult.data.the_turn),
+      directingResult.data,
+      sceneText,
+      `THE CORE: ${storyResult.data.the_core}\nTHE TURN: ${storyResult.data.the_turn}\nShot list entries use serves_story_element CORE | TURN_CATALYST | TURN_LANDING | SUBTEXT | CONFLICT | STAKES | SETUP | PAYOFF; the turn needs a TURN_CATALYST shot immediately followed by a TURN_LANDING shot.`,
+      invocationId,
+      callTimeoutMs
+    )
+    if (directingRepair.usage) repairUsage.push(directingRepair.usage)
+    // subtext and conflict are merged into story_analysis below
+    repairedFields.push(...directingRepair.repaired.map(field =>
+      field.startsWith('shot_list') ? field
+        : field === 'subtext' || field === 'conflict' ? `story_analysis.${field}`
+          : `directing_vision.${field}`
+    ))
+  }
+
+  logger.log("analyze-scene", `✅ [${invocationId}] Directing analysis complete`)
+  logger.log("analyze-scene", `   - Shots: ${directingResult.data.shot_list?.length || 0}`)
+  logger.log("analyze-scene", `   - Visual metaphor: "${directingResult.data.visual_metaphor?.substring(0, 60)}..."`)
+  logger.log("analyze-scene", `   - Actor objectives: ${Object.keys(directingResult.data.actor_objectives || {}).length} characters`)
+  logger.log("analyze-scene", `   - Scene rhythm tempo: ${directingResult.data.scene_rhythm?.tempo || 'missing'}`)
+  logger.log("analyze-scene", `   - What not to do: ${directingResult.data.what_not_to_do?.length || 0} items`)
+  logger.log("analyze-scene", `   - Creative questions: ${directingResult.data.creative_questions?.length || 0} items`)
+  // Log shot list story elements for debugging
+  if (directingResult.data.shot_list?.length > 0) {
+    const storyElements = directingResult.data.shot_list.map((s: any, i: number) => `${i + 1}:${s.serves_story_element || 'NONE'}`)
+    logger.log("analyze-scene", `   - Shot story elements: [${storyElements.join(', ')}]`)
+    const hasCatalyst = directingResult.data.shot_list.some((s: any) => s.serves_story_element === 'TURN_CATALYST')
+    const hasLanding = directingResult.data.shot_list.some((s: any) => s.serves_story_element === 'TURN_LANDING')
+    logger.log("analyze-scene", `   - Turn coverage: catalyst=${hasCatalyst}, landing=${hasLanding}`)
+  }
+  if (directingResult.data.shot_list_rationale) {
+    logger.log("analyze-scene", `   - Shot list rationale: "${directingResult.data.shot_list_rationale.substring(0, 80)}..."`)
+  }
+
+  // Normalize new directing fields with safe defaults if Claude omitted them
+  if (Array.isArray(directingResult.data.shot_list)) {
+    directingResult.data.shot_list = directingResult.data.shot_list.map((shot: unknown) =>
+      shot && typeof shot === 'object' ? withShotCamera(shot) : shot
+    )
+  }
+  if (!directingResult.data.actor_objectives || typeof directingResult.data.actor_objectives !== 'object') directingResult.data.actor_objectives = {}
+  if (!directingResult.data.scene_rhythm || typeof directingResult.data.scene_rhythm !== 'object') directingResult.data.scene_rhythm = { tempo: '', breaths: '', acceleration_points: '', holds: '' }
+  if (!directingResult.data.scene_rhythm.tempo) directingResult.data.scene_rhythm.tempo = ''
+  if (!directingResult.data.scene_rhythm.breaths) directingResult.data.scene_rhythm.breaths = ''
+  if (!directingResult.data.scene_rhythm.acceleration_points) directingResult.data.scene_rhythm.acceleration_points = ''
+  if (!directingResult.data.scene_rhythm.holds) directingResult.data.scene_rhythm.holds = ''
+  if (!Array.isArray(directingResult.data.what_not_to_do)) directingResult.data.what_not_to_do = []
+  if (typeof directingResult.data.tone_reference !== 'string') directingResult.data.tone_reference = ''
+  if (!Array.isArray(directingResult.data.creative_questions)) directingResult.data.creative_questions = []
+  if (!directingResult.data.performance_notes || typeof directingResult.data.performance_notes !== 'object') directingResult.data.performance_notes = {}
+
+  // ═══════════════════════════════════════════════════════════════
+  // MERGE ALL RESULTS
+  // ═══════════════════════════════════════════════════════════════
+  const analysis = {
+    story_analysis: {
+      ...storyResult.data,
+      // Add subtext and conflict from directing call (they're story elements but need directing context)
+      subtext: directingResult.data.subtext,
+      conflict: directingResult.data.conflict
+    },
+    producing_logistics: producingResult.data,
+    directing_vision: {
+      tone_and_mood: directingResult.data.tone_and_mood,
+      visual_strategy: directingResult.data.visual_strategy,
+      visual_metaphor: directingResult.data.visual_metaphor,
+      editorial_intent: directingResult.data.editorial_intent,
+      key_moments: directingResult.data.key_moments,
+      blocking: directingResult.data.blocking,
+      actor_objectives: directingResult.data.actor_objectives,
+      scene_rhythm: directingResult.data.scene_rhythm,
+      what_not_to_do: directingResult.data.what_not_to_do,
+      tone_reference: directingResult.data.tone_reference,
+      creative_questions: directingResult.data.creative_questions,
+      performance_notes: directingResult.data.performance_notes
+    },
+    shot_list: directingResult.data.shot_list || [],
+    shot_list_rationale: directingResult.data.shot_list_rationale || ''
+  }
+
+  await reportPartial({
+    story_analysis: analysis.story_analysis,
+    directing_vision: analysis.directing_vision,
+    shot_list: analysis.shot_list,
+    shot_list_rationale: analysis.shot_list_rationale,
+  }, directingResult.usage)
+  await reportPhase('complete', 'Validating analysis...')
+
+  const totalDuration = Date.now() - startTime
+
+  // Calculate total cost across all three calls and any repairs
+  const { totalCost, totalInputTokens, totalOutputTokens } = sumUsage([storyResult.usage, producingResult.usage, directingResult.usage, ...repairUsage])
+
+  logger.log("analyze-scene", `\n✅ [${invocationId}] ALL 3 CALLS COMPLETE in ${totalDuration}ms`)
+  logger.log("analyze-scene", `   - Total shots: ${analysis.shot_list.length}`)
+  logger.log("analyze-scene", `   - story_analysis fields: ${Object.keys(analysis.story_analysis).length}`)
+  logger.log("analyze-scene", `   - producing_logistics fields: ${Object.keys(analysis.producing_logistics).length}`)
+  logger.log("analyze-scene", `   - directing_vision fields: ${Object.keys(analysis.directing_vision).length}`)
+  logger.log("analyze-scene", `💰 [${invocationId}] TOTAL COST: $${totalCost} (input=${totalInputTokens}, output=${totalOutputTokens})`)
+
+  // Schema validation of the assembled analysis (src/lib/analysisSchema.ts);
+  // anything listed here survived the repair round above
+  validationIssues.push(...analysisIssues(analysis))
+
+  const validation = {
+    quality: (validationIssues.length === 0 ? 'good' : validationIssues.length <= 2 ? 'fair' : 'poor') as SceneAnalysisQuality,
+    issues: validationIssues
+  }
+  return {
+    success: true,
+    analysis,
+    validation,
+    meta: {
+      sceneNumber,
+      processingTime: totalDuration,
+      characters,
+      unresolvedCharacters,
+      actualShots: analysis.shot_list.length,
+      repairedFields,
+      model: provider.model,
+      provider: provider.name,
+      architecture: '3-call-split',
+    },
+    usage: {
+      totalInputTokens,
+      totalOutputTokens,
+      totalCost
+    }
+  }
+}
+
+interface ProjectContext {
+  storySpine: StorySpine | null
+  /** The workspace billed for the analysis, when the project belongs to one */
+  workspaceId: string | null
+}
+
+/**
+ * What the analysis needs from the scene's project: its story spine, when
+ * one has been built, and the workspace that pays for it. Only editors spend
+ * the workspace's credits; anyone else is billed personally, as is everyone
+ * when the project can't be read.
+ */
+async function loadProjectContext(projectId: string | undefined, userId: string, invocationId: string): Promise<ProjectContext> {
+  const none: ProjectContext = { storySpine: null, workspaceId: null }
+  if (!projectId || !ObjectId.isValid(projectId)) return none
+  try {
+    const db = await getDb()
+    const project = await db.collection<{ storySpine?: StorySpine | null; workspaceId?: string | null }>('projects')
+      .findOne({ _id: new ObjectId(projectId) }, { projection: { ...ACCESS_PROJECTION, storySpine: 1 } })
+    const role = project ? storedProjectRole(project, userId) : null
+    if (!project || !role) return none
+    return {
+      storySpine: project.storySpine || null,
+      workspaceId: hasProjectRole(role, 'editor') ? project.workspaceId || null : null,
+    }
+  } catch (error) {
+    logger.warn("analyze-scene", `⚠️ [${invocationId}] Could not load project: ${(error as Error).message}`)
+    return none
+  }
 }
 
 // ═══════════════════════════════════════════════════════════════
@@ -594,6 +1020,8 @@ export default async function handler(
   const invocationId = `${Date.now()}_${Math.random().toString(36).substring(2, 11)}`
   // Hoisted so the outer catch can call failJob(jobId, …) on early errors.
   let jobId: string | null = null
+  // Set once the scene's credit is taken, so every failure path can hand it back (at most once)
+  let refundCredit: ((reason: string) => Promise<void>) | null = null
 
   logger.log("analyze-scene", `\n🎬 [${invocationId}] ═══ SCENE ANALYSIS (3-CALL ARCHITECTURE) ═══`)
   logger.log("analyze-scene", `📅 Timestamp: ${new Date().toISOString()}`)
@@ -606,13 +1034,14 @@ export default async function handler(
   }
 
   try {
-    const anthropicKey = getEnvironmentVariable('ANTHROPIC_API_KEY')
+    const provider = getLLMProvider()
+    const configError = provider.configError()
 
-    if (!anthropicKey) {
-      logger.error("analyze-scene", `❌ [${invocationId}] ANTHROPIC_API_KEY not found`)
+    if (configError) {
+      logger.error("analyze-scene", `❌ [${invocationId}] ${configError}`)
       return res.status(500).json({
         error: 'SERVER_CONFIG_ERROR',
-        message: 'Anthropic API Key is not configured',
+        message: `LLM provider ${provider.name} is not configured`,
         userMessage: 'Server configuration error. Please contact support.',
         deployMarker: DEPLOY_TIMESTAMP
       })
@@ -630,7 +1059,7 @@ export default async function handler(
 
     const requestBody = req.body as AnalyzeSceneRequest
     const { userId: bodyUserId, sceneText, sceneNumber, totalScenes, customInstructions, storyLogicContext } = requestBody
-    const isRetry = (requestBody as any).isRetry === true
+    const isRetry = requestBody.isRetry === true
 
     // Auth: req.auth.userId is the verified Clerk session userId (set by requireAuth middleware).
     // Reject if body.userId doesn't match — prevents impersonation of other users.
@@ -667,47 +1096,44 @@ export default async function handler(
       })
     }
 
-    // Extract character names
-    const dialogueMatches = sceneText.match(/^[A-Z][A-Z\s]+(?=\n)/gm) || []
-    const speakingCharacters = [...new Set(dialogueMatches.map(m => m.trim().replace(/\s*\(CONT'D\)/, '')))]
-    const actionPattern = /\b([A-Z][a-z]{2,})\s+(?:stands?|watches?|eyes|looks?|pushes?|pulls?|walks?|sits?|moves?|turns?|enters?|exits?|leaves?|waits?|unlocks?)\b/g
-    const actionMatches = [...sceneText.matchAll(actionPattern)]
-    const actionCharacters = actionMatches.map(m => m[1])
-    const allCharacters = [...new Set([...speakingCharacters, ...actionCharacters])]
-    const notCharacters = ['Camera', 'Shot', 'Scene', 'Something', 'Behind', 'Wind']
-    const characters = allCharacters.filter(c => c.length > 2 && !notCharacters.includes(c))
-
-    logger.log("analyze-scene", `📊 [${invocationId}] Characters: ${characters.join(', ')}`)
-
-    // Extract scene header (first line, usually INT/EXT line)
-    const sceneHeader = sceneText.split('\n')[0] || ''
-
     // ═══════════════════════════════════════════════════════════════
     // CREDIT CHECK: Verify user has credits before analysis
     // Free retries skip credit deduction (user already paid)
     // ═══════════════════════════════════════════════════════════════
     const CREDITS_PER_SCENE = 1
+    const { storySpine, workspaceId } = await loadProjectContext(requestBody.projectId, userId, invocationId)
 
     if (isRetry) {
       logger.log("analyze-scene", `💳 [${invocationId}] Free retry — skipping credit deduction for ${userId}`)
     } else {
       logger.log("analyze-scene", `💳 [${invocationId}] Checking credits for ${userId}...`)
 
-      const hasCredits = await hasEnoughCredits(userId, CREDITS_PER_SCENE)
+      const hasCredits = await hasEnoughCredits(userId, CREDITS_PER_SCENE, workspaceId)
       if (!hasCredits) {
-        logger.warn("analyze-scene", `❌ [${invocationId}] Insufficient credits for ${userId}`)
+        logger.warn("analyze-scene", `❌ [${invocationId}] Insufficient credits for ${userId}${workspaceId ? ` in workspace ${workspaceId}` : ''}`)
         return res.status(402).json({
           error: 'INSUFFICIENT_CREDITS',
           message: 'Not enough credits to analyze this scene',
-          userMessage: 'You don\'t have enough credits to analyze this scene. Please purchase more credits to continue.',
+          userMessage: workspaceId
+            ? await workspaceShortfallMessage(workspaceId, userId, CREDITS_PER_SCENE)
+            : 'You don\'t have enough credits to analyze this scene. Please purchase more credits to continue.',
           deployMarker: DEPLOY_TIMESTAMP
         })
       }
 
       // Deduct credits BEFORE starting analysis
       try {
-        await deductCredits(userId, CREDITS_PER_SCENE)
+        await deductCredits(userId, CREDITS_PER_SCENE, undefined, requestBody.projectId, workspaceId)
         logger.log("analyze-scene", `💳 [${invocationId}] ${CREDITS_PER_SCENE} credit(s) deducted from ${userId}`)
+        refundCredit = async (reason: string) => {
+          refundCredit = null
+          try {
+            await refundCredits(userId, CREDITS_PER_SCENE, reason, workspaceId)
+            logger.log("analyze-scene", `💳 [${invocationId}] Credit refunded to ${userId} (${reason})`)
+          } catch (refundErr) {
+            logger.error("analyze-scene", `❌ [${invocationId}] Refund failed:`, refundErr)
+          }
+        }
       } catch (error: any) {
         logger.error("analyze-scene", `❌ [${invocationId}] Failed to deduct credits: ${error.message}`)
         return res.status(500).json({
@@ -719,17 +1145,6 @@ export default async function handler(
       }
     }
 
-    const startTime = Date.now()
-
-    // ═══════════════════════════════════════════════════════════════
-    // DYNAMIC TIMEOUT: Scale based on scene length
-    // Base: 300s for scenes under 4000 chars. +60s per 2000 chars above. Cap: 540s (9 min).
-    // ═══════════════════════════════════════════════════════════════
-    const baseTimeoutMs = 300_000
-    const extraTimeoutMs = Math.max(0, sceneText.length - 4000) / 2000 * 60_000
-    const callTimeoutMs = Math.min(baseTimeoutMs + extraTimeoutMs, 540_000)
-    logger.log("analyze-scene", `⏱️  [${invocationId}] Dynamic timeout: ${Math.round(callTimeoutMs / 1000)}s (scene length: ${sceneText.length} chars)`)
-
     // ═══════════════════════════════════════════════════════════════
     // CREATE JOB: Track progress for frontend polling
     // (jobId declared at handler scope so outer catch can reference it)
@@ -761,355 +1176,77 @@ export default async function handler(
     }
 
     // ═══════════════════════════════════════════════════════════════
-    // CALLS 1+2: Story Analysis + Producing Logistics (PARALLEL)
-    // Story and Producing are independent — run them concurrently
-    // to cut ~25 seconds off each scene analysis.
+    // ANALYZE: story + producing in parallel, then directing
     // ═══════════════════════════════════════════════════════════════
-    logger.log("analyze-scene", `\n📖🎬 [${invocationId}] STEP 1/3: Story + Producing (parallel)...`)
-
-    const [storyResult, producingResult] = await Promise.all([
-      analyzeStory(anthropicKey, sceneText, characters, invocationId, storyLogicContext, callTimeoutMs),
-      analyzeProducing(anthropicKey, sceneText, sceneHeader, characters, invocationId, callTimeoutMs),
-    ])
-
-    // Handle story result
-    if (!storyResult.success) {
-      if (jobId) await failJob(jobId, storyResult.error || 'Story analysis failed');
-      logger.error("analyze-scene", `❌ [${invocationId}] Story analysis failed: ${storyResult.error}`)
-      // Refund the credit — user got nothing
-      if (!isRetry) {
-        try {
-          await refundCredits(userId, CREDITS_PER_SCENE, `Story analysis failed for scene ${sceneNumber}`)
-          logger.log("analyze-scene", `💳 [${invocationId}] Credit refunded to ${userId} (story analysis failed)`)
-        } catch (refundErr: any) {
-          logger.error("analyze-scene", `❌ [${invocationId}] Refund failed: ${refundErr.message}`)
+    const finish = async (): Promise<{ status: number; body: Record<string, unknown> }> => {
+      const outcome = await runSceneAnalysis(
+        provider,
+        { sceneText, sceneNumber, characters: requestBody.characters, customInstructions, storyLogicContext, storySpine },
+        invocationId,
+        jobId
+      )
+
+      if (outcome.success === false) {
+        // Refund the credit — user got nothing
+        await refundCredit?.(`Story analysis failed for scene ${sceneNumber}`)
+        if (jobId) await failJob(jobId, outcome.error);
+        return {
+          status: 500,
+          body: {
+            error: 'STORY_ANALYSIS_FAILED',
+            message: outcome.error,
+            userMessage: 'Failed to analyze story elements. Your credit has been refunded. Please try again.',
+            deployMarker: DEPLOY_TIMESTAMP
+          }
         }
       }
-      return res.status(500).json({
-        error: 'STORY_ANALYSIS_FAILED',
-        message: storyResult.error,
-        userMessage: 'Failed to analyze story elements. Your credit has been refunded. Please try again.',
-        deployMarker: DEPLOY_TIMESTAMP
-      })
-    }
 
-    logger.log("analyze-scene", `✅ [${invocationId}] Story analysis complete`)
-    logger.log("analyze-scene", `   - the_core: "${storyResult.data.the_core?.substring(0, 60)}..."`)
-    logger.log("analyze-scene", `   - synopsis: "${storyResult.data.synopsis?.substring(0, 60) || 'MISSING'}..."`)
-    logger.log("analyze-scene", `   - the_turn: "${storyResult.data.the_turn?.substring(0, 60)}..."`)
-    logger.log("analyze-scene", `   - scene_obligation: "${storyResult.data.scene_obligation?.substring(0, 60) || 'MISSING'}..."`)
-    logger.log("analyze-scene", `   - the_one_thing: "${storyResult.data.the_one_thing?.substring(0, 60)}..."`)
-    logger.log("analyze-scene", `   - alternative_readings: ${storyResult.data.alternative_readings?.length || 0} readings`)
+      const { analysis, validation, meta, usage } = outcome
 
-    // Normalize story fields with safe defaults
-    if (!storyResult.data.synopsis) storyResult.data.synopsis = ''
-    if (!storyResult.data.scene_obligation) storyResult.data.scene_obligation = ''
-    if (!storyResult.data.the_one_thing) storyResult.data.the_one_thing = ''
-    if (!storyResult.data.setup_payoff) storyResult.data.setup_payoff = { setups: [], payoffs: [] }
-    if (!storyResult.data.setup_payoff.setups) storyResult.data.setup_payoff.setups = []
-    if (!storyResult.data.setup_payoff.payoffs) storyResult.data.setup_payoff.payoffs = []
-    if (!storyResult.data.essential_exposition) storyResult.data.essential_exposition = ''
-    if (!storyResult.data.if_this_scene_fails) storyResult.data.if_this_scene_fails = ''
-    if (!Array.isArray(storyResult.data.alternative_readings)) storyResult.data.alternative_readings = []
-
-    // Handle producing result
-    if (!producingResult.success) {
-      logger.error("analyze-scene", `❌ [${invocationId}] Producing analysis failed: ${producingResult.error}`)
-      // Continue with empty producing logistics rather than failing entirely
-      producingResult.data = {
-        locations: { primary: sceneHeader, setting: 'Unknown', intExt: 'INT', timeOfDay: 'DAY' },
-        cast: { principal: characters, speaking: characters, silent: [], extras: { count: '0', description: '' } },
-        key_props: [],
-        red_flags: [],
-        departments_affected: ['Camera', 'Sound'],
-        resource_impact: 'Medium',
-        continuity: { carries_in: { costume: '', props: '', makeup: '', time_logic: '', emotional_state: '' }, carries_out: { costume: '', props: '', makeup: '', time_logic: '', emotional_state: '' } },
-        scene_complexity: { rating: 0, justification: '' },
-        estimated_screen_time: { pages: 0, estimated_minutes: '', pacing_note: '' },
-        scheduling_notes: { combinable_with: [], must_schedule_before: [], must_schedule_after: [], time_of_day_requirement: '', weather_dependency: '', actor_availability_note: '' },
-        sound_design: { production_sound_challenges: [], ambient_requirements: [], silence_moments: [], sound_effects_needed: [], music_notes: '' },
-        safety_specifics: { concerns: [], protocols_required: [], personnel_needed: [], actor_prep_required: '' },
-        department_specific_notes: {}
+      // Mark job as complete
+      if (jobId) {
+        await completeJob(jobId, { analysis, validation, meta: { ...meta, usage } });
       }
-    }
 
-    logger.log("analyze-scene", `✅ [${invocationId}] Producing logistics complete`)
-    logger.log("analyze-scene", `   - Location: ${producingResult.data.locations?.primary}`)
-    logger.log("analyze-scene", `   - Cast: ${producingResult.data.cast?.principal?.join(', ')}`)
-    logger.log("analyze-scene", `   - Scene complexity: ${producingResult.data.scene_complexity?.rating || 'missing'}/5`)
-    logger.log("analyze-scene", `   - Est. screen time: ${producingResult.data.estimated_screen_time?.estimated_minutes || 'missing'}`)
-    logger.log("analyze-scene", `   - Sound challenges: ${producingResult.data.sound_design?.production_sound_challenges?.length || 0}`)
-    logger.log("analyze-scene", `   - Safety concerns: ${producingResult.data.safety_specifics?.concerns?.length || 0}`)
-
-    // Update job progress
-    if (jobId) {
-      await updateJobStatus(jobId, 'PROCESSING', {
-        phase: 'directing',
-        message: 'Story + Producing complete, generating shot list...'
-      });
-    }
-
-    // Normalize new producing fields with safe defaults if Claude omitted them
-    const emptyCarry = { costume: '', props: '', makeup: '', time_logic: '', emotional_state: '' }
-    if (!producingResult.data.continuity || typeof producingResult.data.continuity !== 'object') producingResult.data.continuity = { carries_in: { ...emptyCarry }, carries_out: { ...emptyCarry } }
-    if (!producingResult.data.continuity.carries_in) producingResult.data.continuity.carries_in = { ...emptyCarry }
-    if (!producingResult.data.continuity.carries_out) producingResult.data.continuity.carries_out = { ...emptyCarry }
-    if (!producingResult.data.scene_complexity || typeof producingResult.data.scene_complexity !== 'object') producingResult.data.scene_complexity = { rating: 0, justification: '' }
-    if (!producingResult.data.estimated_screen_time || typeof producingResult.data.estimated_screen_time !== 'object') producingResult.data.estimated_screen_time = { pages: 0, estimated_minutes: '', pacing_note: '' }
-    if (!producingResult.data.scheduling_notes || typeof producingResult.data.scheduling_notes !== 'object') producingResult.data.scheduling_notes = { combinable_with: [], must_schedule_before: [], must_schedule_after: [], time_of_day_requirement: '', weather_dependency: '', actor_availability_note: '' }
-    if (!Array.isArray(producingResult.data.scheduling_notes.combinable_with)) producingResult.data.scheduling_notes.combinable_with = []
-    if (!Array.isArray(producingResult.data.scheduling_notes.must_schedule_before)) producingResult.data.scheduling_notes.must_schedule_before = []
-    if (!Array.isArray(producingResult.data.scheduling_notes.must_schedule_after)) producingResult.data.scheduling_notes.must_schedule_after = []
-    if (!producingResult.data.sound_design || typeof producingResult.data.sound_design !== 'object') producingResult.data.sound_design = { production_sound_challenges: [], ambient_requirements: [], silence_moments: [], sound_effects_needed: [], music_notes: '' }
-    if (!Array.isArray(producingResult.data.sound_design.production_sound_challenges)) producingResult.data.sound_design.production_sound_challenges = []
-    if (!Array.isArray(producingResult.data.sound_design.ambient_requirements)) producingResult.data.sound_design.ambient_requirements = []
-    if (!Array.isArray(producingResult.data.sound_design.silence_moments)) producingResult.data.sound_design.silence_moments = []
-    if (!Array.isArray(producingResult.data.sound_design.sound_effects_needed)) producingResult.data.sound_design.sound_effects_needed = []
-    if (!producingResult.data.safety_specifics || typeof producingResult.data.safety_specifics !== 'object') producingResult.data.safety_specifics = { concerns: [], protocols_required: [], personnel_needed: [], actor_prep_required: '' }
-    if (!Array.isArray(producingResult.data.safety_specifics.concerns)) producingResult.data.safety_specifics.concerns = []
-    if (!Array.isArray(producingResult.data.safety_specifics.protocols_required)) producingResult.data.safety_specifics.protocols_required = []
-    if (!Array.isArray(producingResult.data.safety_specifics.personnel_needed)) producingResult.data.safety_specifics.personnel_needed = []
-    if (!producingResult.data.department_specific_notes || typeof producingResult.data.department_specific_notes !== 'object') producingResult.data.department_specific_notes = {}
-
-    // ═══════════════════════════════════════════════════════════════
-    // CALL 3: Directing + Shot List (with story context)
-    // ═══════════════════════════════════════════════════════════════
-    logger.log("analyze-scene", `\n🎥 [${invocationId}] STEP 3/3: Directing Vision + Shot List...`)
-    const directingResult = await analyzeDirecting(
-      anthropicKey,
-      sceneText,
-      characters,
-      storyResult.data,
-      customInstructions,
-      invocationId,
-      callTimeoutMs
-    )
-
-    // Track validation issues (declared here so directing degradation can push to it)
-    const validationIssues: string[] = []
-
-    if (!directingResult.success) {
-      logger.error("analyze-scene", `❌ [${invocationId}] Directing analysis failed: ${directingResult.error}`)
-      // GRACEFUL DEGRADATION: Return story + producing with empty directing
-      // instead of failing the entire analysis
-      directingResult.data = {
-        subtext: { what_they_say_vs_want: '', power_dynamic: '', emotional_turn: '', revelation_or_realization: '' },
-        conflict: { type: [], what_characters_want: [], obstacles: [], tactics: [], winner: '' },
-        tone_and_mood: { opening: '', shift: '', closing: '', energy: '' },
-        visual_strategy: { approach: '', camera_personality: '', lighting_mood: '' },
-        visual_metaphor: '',
-        editorial_intent: '',
-        key_moments: [],
-        blocking: { geography: '', movement: '', eyelines: '' },
-        actor_objectives: {},
-        scene_rhythm: { tempo: '', breaths: '', acceleration_points: '', holds: '' },
-        what_not_to_do: [],
-        tone_reference: '',
-        creative_questions: [],
-        performance_notes: {},
-        shot_list: [],
-        shot_list_rationale: ''
+      return {
+        status: 200,
+        body: {
+          success: true,
+          jobId,  // Include jobId in response
+          analysis,
+          validation,
+          meta: {
+            ...meta,
+            deployMarker: DEPLOY_TIMESTAMP,
+            usage
+          }
+        }
       }
-      validationIssues.push('DIRECTING_DEGRADED: Shot list and directing vision could not be generated. Retry to complete analysis.')
-    }
-
-    logger.log("analyze-scene", `✅ [${invocationId}] Directing analysis complete`)
-    logger.log("analyze-scene", `   - Shots: ${directingResult.data.shot_list?.length || 0}`)
-    logger.log("analyze-scene", `   - Visual metaphor: "${directingResult.data.visual_metaphor?.substring(0, 60)}..."`)
-    logger.log("analyze-scene", `   - Actor objectives: ${Object.keys(directingResult.data.actor_objectives || {}).length} characters`)
-    logger.log("analyze-scene", `   - Scene rhythm tempo: ${directingResult.data.scene_rhythm?.tempo || 'missing'}`)
-    logger.log("analyze-scene", `   - What not to do: ${directingResult.data.what_not_to_do?.length || 0} items`)
-    logger.log("analyze-scene", `   - Creative questions: ${directingResult.data.creative_questions?.length || 0} items`)
-    // Log shot list story elements for debugging
-    if (directingResult.data.shot_list?.length > 0) {
-      const storyElements = directingResult.data.shot_list.map((s: any, i: number) => `${i + 1}:${s.serves_story_element || 'NONE'}`)
-      logger.log("analyze-scene", `   - Shot story elements: [${storyElements.join(', ')}]`)
-      const hasCatalyst = directingResult.data.shot_list.some((s: any) => s.serves_story_element === 'TURN_CATALYST')
-      const hasLanding = directingResult.data.shot_list.some((s: any) => s.serves_story_element === 'TURN_LANDING')
-      logger.log("analyze-scene", `   - Turn coverage: catalyst=${hasCatalyst}, landing=${hasLanding}`)
     }
-    if (directingResult.data.shot_list_rationale) {
-      logger.log("analyze-scene", `   - Shot list rationale: "${directingResult.data.shot_list_rationale.substring(0, 80)}..."`)
-    }
-
-    // Normalize new directing fields with safe defaults if Claude omitted them
-    if (!directingResult.data.actor_objectives || typeof directingResult.data.actor_objectives !== 'object') directingResult.data.actor_objectives = {}
-    if (!directingResult.data.scene_rhythm || typeof directingResult.data.scene_rhythm !== 'object') directingResult.data.scene_rhythm = { tempo: '', breaths: '', acceleration_points: '', holds: '' }
-    if (!directingResult.data.scene_rhythm.tempo) directingResult.data.scene_rhythm.tempo = ''
-    if (!directingResult.data.scene_rhythm.breaths) directingResult.data.scene_rhythm.breaths = ''
-    if (!directingResult.data.scene_rhythm.acceleration_points) directingResult.data.scene_rhythm.acceleration_points = ''
-    if (!directingResult.data.scene_rhythm.holds) directingResult.data.scene_rhythm.holds = ''
-    if (!Array.isArray(directingResult.data.what_not_to_do)) directingResult.data.what_not_to_do = []
-    if (typeof directingResult.data.tone_reference !== 'string') directingResult.data.tone_reference = ''
-    if (!Array.isArray(directingResult.data.creative_questions)) directingResult.data.creative_questions = []
-    if (!directingResult.data.performance_notes || typeof directingResult.data.performance_notes !== 'object') directingResult.data.performance_notes = {}
 
-    // ═══════════════════════════════════════════════════════════════
-    // MERGE ALL RESULTS
-    // ═══════════════════════════════════════════════════════════════
-    const analysis = {
-      story_analysis: {
-        ...storyResult.data,
-        // Add subtext and conflict from directing call (they're story elements but need directing context)
-        subtext: directingResult.data.subtext,
-        conflict: directingResult.data.conflict
-      },
-      producing_logistics: producingResult.data,
-      directing_vision: {
-        tone_and_mood: directingResult.data.tone_and_mood,
-        visual_strategy: directingResult.data.visual_strategy,
-        visual_metaphor: directingResult.data.visual_metaphor,
-        editorial_intent: directingResult.data.editorial_intent,
-        key_moments: directingResult.data.key_moments,
-        blocking: directingResult.data.blocking,
-        actor_objectives: directingResult.data.actor_objectives,
-        scene_rhythm: directingResult.data.scene_rhythm,
-        what_not_to_do: directingResult.data.what_not_to_do,
-        tone_reference: directingResult.data.tone_reference,
-        creative_questions: directingResult.data.creative_questions,
-        performance_notes: directingResult.data.performance_notes
-      },
-      shot_list: directingResult.data.shot_list || [],
-      shot_list_rationale: directingResult.data.shot_list_rationale || ''
+    // Background mode needs a job to report through; without one, answer synchronously
+    if (requestBody.background === true && jobId) {
+      const backgroundJobId = jobId
+      finish().catch(async error => {
+        logger.error("analyze-scene", `❌ [${invocationId}] Background analysis failed:`, error)
+        await failJob(backgroundJobId, error instanceof Error ? error.message : 'Unknown error occurred')
+          .catch(failErr => logger.error("analyze-scene", `❌ [${invocationId}] Could not mark job failed:`, failErr))
+        // Refund the credit — user got nothing
+        await refundCredit?.(`Background analysis failed for scene ${sceneNumber}`)
+      })
+      return res.status(202).json({ success: true, jobId, background: true, deployMarker: DEPLOY_TIMESTAMP })
     }
 
-    const totalDuration = Date.now() - startTime
-
-    // Calculate total cost across all three calls
-    const totalCost = (
-      parseFloat(storyResult.usage?.estimatedCost || '0') +
-      parseFloat(producingResult.usage?.estimatedCost || '0') +
-      parseFloat(directingResult.usage?.estimatedCost || '0')
-    ).toFixed(4)
+    const { status, body } = await finish()
+    return res.status(status).json(body)
 
-    const totalInputTokens = (storyResult.usage?.inputTokens || 0) + (producingResult.usage?.inputTokens || 0) + (directingResult.usage?.inputTokens || 0)
-    const totalOutputTokens = (storyResult.usage?.outputTokens || 0) + (producingResult.usage?.outputTokens || 0) + (directingResult.usage?.outputTokens || 0)
-
-    logger.log("analyze-scene", `\n✅ [${invocationId}] ALL 3 CALLS COMPLETE in ${totalDuration}ms`)
-    logger.log("analyze-scene", `   - Total shots: ${analysis.shot_list.length}`)
-    logger.log("analyze-scene", `   - story_analysis fields: ${Object.keys(analysis.story_analysis).length}`)
-    logger.log("analyze-scene", `   - producing_logistics fields: ${Object.keys(analysis.producing_logistics).length}`)
-    logger.log("analyze-scene", `   - directing_vision fields: ${Object.keys(analysis.directing_vision).length}`)
-    logger.log("analyze-scene", `💰 [${invocationId}] TOTAL COST: $${totalCost} (input=${totalInputTokens}, output=${totalOutputTokens})`)
-
-    // Quick validation (validationIssues declared above directing call for graceful degradation)
-    if (!analysis.story_analysis.the_core || analysis.story_analysis.the_core.length < 20) {
-      validationIssues.push('the_core is too short')
-    }
-    if (!analysis.story_analysis.the_turn || analysis.story_analysis.the_turn.length < 20) {
-      validationIssues.push('the_turn is too short')
-    }
-    if (!analysis.shot_list || analysis.shot_list.length === 0) {
-      validationIssues.push('No shots generated')
-    }
-    // Validate story-driven shot list fields
-    if (analysis.shot_list && analysis.shot_list.length > 0) {
-      const shotsWithoutRationale = analysis.shot_list.filter((s: any) => !s.rationale || s.rationale.length < 10)
-      if (shotsWithoutRationale.length > 0) {
-        validationIssues.push(`${shotsWithoutRationale.length} shot(s) missing rationale`)
-      }
-      const shotsWithoutStoryElement = analysis.shot_list.filter((s: any) => !s.serves_story_element)
-      if (shotsWithoutStoryElement.length > 0) {
-        validationIssues.push(`${shotsWithoutStoryElement.length} shot(s) missing serves_story_element`)
-      }
-      if (analysis.shot_list.length >= 10 && (!analysis.shot_list_rationale || analysis.shot_list_rationale.length < 20)) {
-        validationIssues.push('Scene has 10+ shots but missing shot_list_rationale explanation')
-      }
-      // Validate turn coverage: catalyst + landing must both exist
-      const hasTurn = analysis.story_analysis.the_turn && analysis.story_analysis.the_turn.length > 20
-      if (hasTurn) {
-        const hasCatalyst = analysis.shot_list.some((s: any) => s.serves_story_element === 'TURN_CATALYST')
-        const hasLanding = analysis.shot_list.some((s: any) => s.serves_story_element === 'TURN_LANDING')
-        if (!hasCatalyst && !hasLanding) {
-          validationIssues.push('Turn coverage missing - no TURN_CATALYST or TURN_LANDING shots for identified scene turn')
-        } else if (!hasCatalyst) {
-          validationIssues.push('Turn coverage incomplete - missing TURN_CATALYST shot (the cause of the value change)')
-        } else if (!hasLanding) {
-          validationIssues.push('Turn coverage incomplete - missing TURN_LANDING shot (the character registering the change)')
-        }
-      }
-    }
-    // Validate new story analysis fields
-    if (!analysis.story_analysis.synopsis || analysis.story_analysis.synopsis.length < 30) {
-      validationIssues.push('synopsis is missing or too short (min 30 chars)')
-    }
-    if (!analysis.story_analysis.scene_obligation || analysis.story_analysis.scene_obligation.length < 30) {
-      validationIssues.push('scene_obligation is missing or too short (min 30 chars)')
-    }
-    if (!analysis.story_analysis.the_one_thing || analysis.story_analysis.the_one_thing.length < 20) {
-      validationIssues.push('the_one_thing is missing or too short (min 20 chars)')
-    }
-    if (analysis.story_analysis.alternative_readings && !Array.isArray(analysis.story_analysis.alternative_readings)) {
-      validationIssues.push('alternative_readings should be an array')
-    }
-    // Validate new directing vision fields
-    if (!Array.isArray(analysis.directing_vision.what_not_to_do) || analysis.directing_vision.what_not_to_do.length < 1) {
-      validationIssues.push('what_not_to_do is missing or empty (need at least 1 entry)')
-    }
-    if (!Array.isArray(analysis.directing_vision.creative_questions) || analysis.directing_vision.creative_questions.length < 1) {
-      validationIssues.push('creative_questions is missing or empty (need at least 1 entry)')
-    }
-    if (!analysis.directing_vision.scene_rhythm?.tempo) {
-      validationIssues.push('scene_rhythm.tempo is missing')
-    }
-    // Validate new producing logistics fields
-    const complexityRating = analysis.producing_logistics.scene_complexity?.rating
-    if (!complexityRating || complexityRating < 1 || complexityRating > 5) {
-      validationIssues.push('scene_complexity.rating is missing or not 1-5')
-    }
-    if (!analysis.producing_logistics.estimated_screen_time?.pages || analysis.producing_logistics.estimated_screen_time.pages <= 0) {
-      validationIssues.push('estimated_screen_time.pages is missing or zero')
-    }
-    if (!analysis.producing_logistics.continuity?.carries_in || !analysis.producing_logistics.continuity?.carries_out) {
-      validationIssues.push('continuity carries_in/carries_out is missing')
-    }
-
-    // Mark job as complete
-    if (jobId) {
-      await completeJob(jobId, {
-        analysis,
-        validation: {
-          quality: validationIssues.length === 0 ? 'good' : validationIssues.length <= 2 ? 'fair' : 'poor',
-          issues: validationIssues
-        },
-        meta: {
-          sceneNumber,
-          processingTime: totalDuration,
-          characters,
-          actualShots: analysis.shot_list.length,
-          model: MODEL,
-          architecture: '3-call-split',
-        }
-      });
-    }
-    
-    return res.status(200).json({
-      success: true,
-      jobId,  // Include jobId in response
-      analysis,
-      validation: {
-        quality: validationIssues.length === 0 ? 'good' : validationIssues.length <= 2 ? 'fair' : 'poor',
-        issues: validationIssues
-      },
-      meta: {
-        sceneNumber,
-        processingTime: totalDuration,
-        characters,
-        actualShots: analysis.shot_list.length,
-        model: MODEL,
-        architecture: '3-call-split',
-        deployMarker: DEPLOY_TIMESTAMP,
-        usage: {
-          totalInputTokens,
-          totalOutputTokens,
-          totalCost
-        }
-      }
-    })
 
   } catch (error) {
     logger.error("analyze-scene", `❌ [${invocationId}] Unexpected error:`, error)
-    
+
+    // Refund the credit — user got nothing
+    await refundCredit?.('Scene analysis failed unexpectedly')
+
     // Mark job as failed
     if (jobId) {
       await failJob(jobId, error instanceof Error ? error.message : 'Unknown error occurred');
@@ -0,0 +1,37 @@
+// api/assets/file.ts
+// Serves an asset from storage to a signed URL (see api/lib/assetStorage.ts).
+// Image tags can't send the Clerk bearer token, so the signature in the URL
+// is the authorization: it names one key and expires.
+import { VercelRequest, VercelResponse } from '@vercel/node'
+import { logger } from "../lib/logger";
+import { getAssetStorage, verifyLocalAssetSignature } from '../lib/assetStorage'
+
+const param = (value: string | string[] | undefined): string =>
+  (Array.isArray(value) ? value[0] : value) || ''
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (req.method !== 'GET') return res.status(405).json({ error: 'Method not allowed' })
+
+  try {
+    const key = param(req.query.key)
+    const expires = Number(param(req.query.expires))
+    const signature = param(req.query.signature)
+
+    if (!verifyLocalAssetSignature(key, expires, signature)) {
+      return res.status(403).json({ error: 'Invalid or expired asset link' })
+    }
+
+    const asset = await getAssetStorage().read(key)
+    if (!asset) {
+      return res.status(404).json({ error: 'Asset not found' })
+    }
+
+    // Keys are never reused, so the bytes behind one never change
+    res.setHeader('Content-Type', asset.contentType)
+    res.setHeader('Cache-Control', 'private, max-age=86400, immutable')
+    return res.status(200).send(asset.body)
+  } catch (error) {
+    logger.error("assets", 'Asset read error:', error)
+    return res.status(500).json({ error: 'Failed to read asset' })
+  }
+}
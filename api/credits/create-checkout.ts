@@ -1,9 +1,14 @@
 // api/credits/create-checkout.ts
 // Create Stripe Checkout session for purchasing credits
+// With a workspaceId the pack funds that workspace (admins only) instead of
+// the buyer's own balance
 
 import { VercelRequest, VercelResponse } from '@vercel/node'
 import Stripe from 'stripe'
 import { logger } from '../lib/logger.js'
+import { getDb } from '../lib/mongodb.js'
+import { findWorkspace } from '../lib/workspaces'
+import { hasWorkspaceRole, workspaceRole } from '../../src/lib/workspaces'
 
 const stripe = new Stripe(process.env.STRIPE_SECRET_KEY!, {
   apiVersion: '2024-12-18.acacia',
@@ -32,7 +37,7 @@ export default async function handler(
   }
   
   try {
-    const { pack } = req.body
+    const { pack, workspaceId } = req.body
 
     // Force userId from verified Clerk session — ignore any body.userId.
     const userId = (req as any).auth?.userId as string | undefined
@@ -48,7 +53,20 @@ export default async function handler(
       return res.status(400).json({ error: 'Invalid pack type' })
     }
 
-    logger.log('create-checkout', `[${invocationId}] Creating checkout for ${userId}, pack: ${pack}`)
+    let workspaceName: string | null = null
+    if (workspaceId != null) {
+      const workspace = typeof workspaceId === 'string' ? await findWorkspace(await getDb(), workspaceId) : null
+      const role = workspace ? workspaceRole(workspace.members, userId) : null
+      if (!workspace || !role) {
+        return res.status(404).json({ error: 'Workspace not found' })
+      }
+      if (!hasWorkspaceRole(role, 'admin')) {
+        return res.status(403).json({ error: 'Only workspace admins can buy credits for it' })
+      }
+      workspaceName = workspace.name
+    }
+
+    logger.log('create-checkout', `[${invocationId}] Creating checkout for ${userId}, pack: ${pack}${workspaceName ? `, workspace: ${workspaceId}` : ''}`)
     
     // Get the origin for success/cancel URLs
     const origin = req.headers.origin || req.headers.referer || 'https://shotlogic.studio'
@@ -62,7 +80,9 @@ export default async function handler(
             currency: 'usd',
             product_data: {
               name: `ShotLogic Credits - ${packConfig.name}`,
-              description: `${packConfig.credits} scene analysis credits`,
+              description: workspaceName
+                ? `${packConfig.credits} scene analysis credits for ${workspaceName}`
+                : `${packConfig.credits} scene analysis credits`,
             },
             unit_amount: packConfig.price,
           },
@@ -70,13 +90,14 @@ export default async function handler(
         },
       ],
       mode: 'payment',
-      success_url: `${baseUrl}/projects?credits=success`,
+      success_url: workspaceName ? `${baseUrl}/workspaces?credits=success` : `${baseUrl}/projects?credits=success`,
       cancel_url: `${baseUrl}/buy-credits?canceled=true`,
       client_reference_id: userId,
       metadata: {
         userId,
         credits: packConfig.credits.toString(),
         pack,
+        ...(workspaceName ? { workspaceId } : {}),
       },
     })
     
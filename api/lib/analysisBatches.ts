@@ -0,0 +1,295 @@
+// api/lib/analysisBatches.ts
+// Server-side queue for analyzing a whole project. Each batch runs its scenes
+// a few at a time inside this process; the queue state lives in MongoDB
+// (analysisBatches + analysisJobs) so a restart picks up where it left off.
+
+import { ObjectId } from 'mongodb'
+import { getDb } from './mongodb.js'
+import { logger } from './logger.js'
+import { refundCredits } from './credits.js'
+import { appendRevisions } from './analysisRevisions'
+import { stampSceneAnalysis, writeRekeyedFrames } from './shotIds'
+import { publishProjectChange } from './projectEvents'
+import {
+  AnalysisBatch,
+  AnalysisJob,
+  completeJob,
+  failJob,
+  getBatch,
+  setBatchStatus,
+} from './analysisJobs.js'
+import { runSceneAnalysis, type SceneAnalysisInput } from '../analyze-scene'
+import { getLLMProvider } from './llm'
+import type { StoredCharacter } from '../../src/lib/characterRegistry'
+import type { StorySpine } from '../../src/lib/storySpine'
+import type { StoryboardFrame } from '../../src/lib/storyboardFrames'
+
+export const DEFAULT_BATCH_CONCURRENCY = Math.max(1, parseInt(process.env.BATCH_ANALYSIS_CONCURRENCY || '3', 10) || 3)
+export const MAX_BATCH_CONCURRENCY = 5
+
+interface StoredScene {
+  number?: number
+  scene_number?: number
+  text?: string
+  analysis?: unknown
+  storyLogicContext?: unknown
+  [key: string]: unknown
+}
+
+interface ProjectDocument {
+  userId?: string
+  scenes?: StoredScene[]
+  characters?: StoredCharacter[]
+  storySpine?: StorySpine | null
+  storyboardFrames?: StoryboardFrame[]
+}
+
+// Batches with workers running in this process
+const activeBatches = new Set<string>()
+
+const sceneIndexOf = (scenes: StoredScene[], sceneNumber: number): number =>
+  scenes.findIndex((scene, index) => Number(scene.number || scene.scene_number || index + 1) === sceneNumber)
+
+/**
+ * Claim the next PENDING scene of a batch. The status flip is atomic, so two
+ * workers never analyze the same scene.
+ */
+async function claimNextJob(batchId: string): Promise<AnalysisJob | null> {
+  const db = await getDb()
+  return db.collection<AnalysisJob>('analysisJobs').findOneAndUpdate(
+    { batchId, status: 'PENDING' },
+    {
+      $set: {
+        status: 'PROCESSING',
+        progress: { phase: 'story', message: 'Starting story analysis...' },
+        updatedAt: new Date(),
+      },
+    },
+    { sort: { sceneNumber: 1 }, returnDocument: 'after' }
+  )
+}
+
+async function refundBatchCredits(batch: AnalysisBatch, credits: number, reason: string): Promise<void> {
+  if (credits <= 0) return
+  try {
+    await refundCredits(batch.userId, credits, reason, batch.workspaceId)
+    const db = await getDb()
+    await db.collection<AnalysisBatch>('analysisBatches').updateOne(
+      { batchId: batch.batchId },
+      { $inc: { creditsRefunded: credits }, $set: { updatedAt: new Date() } }
+    )
+  } catch (error) {
+    logger.error('analysisBatches', `❌ Refund of ${credits} credit(s) for batch ${batch.batchId} failed:`, error)
+  }
+}
+
+// Attempts at finding a scene's slot while a script revision keeps moving it
+const SAVE_ATTEMPTS = 3
+
+/**
+ * Write one scene result straight into its slot of the project's scene array.
+ * Field-level $set keeps concurrent workers from overwriting each other. The
+ * slot is re-checked in the update itself, as writeScenes does, so a script
+ * revision imported mid-analysis can't steer the result onto another scene.
+ * Returns the scene as it was just before the write.
+ */
+async function saveSceneResult(
+  batch: AnalysisBatch,
+  sceneNumber: number,
+  fields: Record<string, unknown>
+): Promise<StoredScene | null> {
+  const db = await getDb()
+  const projects = db.collection<ProjectDocument>('projects')
+  const _id = new ObjectId(batch.projectId)
+  // A new analysis moves the scene's version on, so edits begun on the old one conflict
+  const changesAnalysis = 'analysis' in fields
+
+  for (let attempt = 0; attempt < SAVE_ATTEMPTS; attempt++) {
+    const project = await projects.findOne({ _id }, { projection: { 'scenes.number': 1, 'scenes.scene_number': 1 } })
+    const index = sceneIndexOf(project?.scenes || [], sceneNumber)
+    if (index < 0) return null
+
+    const prefix = `scenes.${index}`
+    const update: Record<string, unknown> = { updatedAt: new Date() }
+    for (const [key, value] of Object.entries(fields)) update[`${prefix}.${key}`] = value
+    const before = await projects.findOneAndUpdate(
+      // Scenes from the earliest projects carry no number field
+      { _id, $or: [{ [`${prefix}.number`]: sceneNumber }, { [`${prefix}.number`]: { $exists: false } }] },
+      { $set: update, ...(changesAnalysis ? { $inc: { [`${prefix}.version`]: 1 } } : {}) },
+      { returnDocument: 'before', projection: { scenes: { $slice: [index, 1] } } }
+    )
+    if (before) {
+      publishProjectChange(batch.projectId, 'scenes', null, [sceneNumber])
+      return before.scenes?.[0] || null
+    }
+  }
+  throw new Error(`Scene ${sceneNumber} kept moving while its analysis was saved`)
+}
+
+async function processJob(batch: AnalysisBatch, job: AnalysisJob): Promise<void> {
+  const invocationId = `${batch.batchId}_${job.sceneNumber}`
+
+  let error: string
+  try {
+    const provider = getLLMProvider()
+    const configError = provider.configError()
+    if (configError) throw new Error(configError)
+
+    const db = await getDb()
+    const project = await db.collection<ProjectDocument>('projects').findOne({ _id: new ObjectId(batch.projectId) })
+    const scenes = project?.scenes || []
+    const scene = scenes[sceneIndexOf(scenes, job.sceneNumber)]
+    if (!scene) throw new Error(`Scene ${job.sceneNumber} is no longer in the project`)
+    // A script revision imported since submission changes the text; analyze what the scene says now
+    const sceneText = typeof scene.text === 'string' && scene.text.trim() ? scene.text : job.sceneText
+
+    const outcome = await runSceneAnalysis(
+      provider,
+      {
+        sceneText,
+        sceneNumber: job.sceneNumber,
+        // The registry may have changed since submission; use the current one
+        characters: project?.characters || job.characters,
+        customInstructions: job.customInstructions,
+        storyLogicContext: scene.storyLogicContext as SceneAnalysisInput['storyLogicContext'],
+        storySpine: project?.storySpine,
+      },
+      invocationId,
+      job.jobId
+    )
+
+    if (outcome.success === true) {
+      // Re-analyzed shots inherit the IDs of the shots they replace
+      const stamped = stampSceneAnalysis(outcome.analysis, scene.analysis, job.sceneNumber, project?.storyboardFrames)
+      const analysis = stamped.analysis
+      const previous = await saveSceneResult(batch, job.sceneNumber, {
+        analysis,
+        status: 'COMPLETED',
+        error: null,
+        needsReanalysis: false,
+      })
+      if (previous && typeof previous.text === 'string' && previous.text !== sceneText) {
+        // The text was revised while this ran: the analysis is already out of date
+        await saveSceneResult(batch, job.sceneNumber, { needsReanalysis: true })
+      }
+      if (previous) {
+        await writeRekeyedFrames(db.collection('projects'), new ObjectId(batch.projectId), project?.storyboardFrames, stamped.frames)
+        const before = typeof previous.analysis === 'string' || !previous.analysis
+          ? (previous.analysis as string | null | undefined)
+          : JSON.stringify(previous.analysis)
+        if (before !== analysis) {
+          await appendRevisions(db, batch.projectId, batch.userId, [{
+            sceneNumber: job.sceneNumber,
+            analysis,
+            previous: before,
+            source: 'ai',
+            model: typeof outcome.meta.model === 'string' ? outcome.meta.model : undefined,
+          }], project?.userId)
+        }
+      }
+      await completeJob(job.jobId, { validation: outcome.validation, meta: { ...outcome.meta, usage: outcome.usage } })
+      logger.log('analysisBatches', `✅ [${invocationId}] Scene ${job.sceneNumber} analyzed`)
+      return
+    }
+    error = outcome.error
+  } catch (err) {
+    error = err instanceof Error ? err.message : 'Unknown error occurred'
+  }
+
+  logger.error('analysisBatches', `❌ [${invocationId}] Scene ${job.sceneNumber} failed: ${error}`)
+  await failJob(job.jobId, error)
+  await saveSceneResult(batch, job.sceneNumber, { status: 'ERROR', error }).catch(() => null)
+  await refundBatchCredits(batch, job.credits || 0, `Batch analysis failed for scene ${job.sceneNumber}`)
+}
+
+async function worker(batchId: string): Promise<void> {
+  for (;;) {
+    // Re-read every time so pause and cancel take effect between scenes
+    const batch = await getBatch(batchId)
+    if (!batch || batch.status !== 'RUNNING') return
+    const job = await claimNextJob(batchId)
+    if (!job) return
+    await processJob(batch, job)
+  }
+}
+
+async function drainBatch(batchId: string): Promise<void> {
+  const db = await getDb()
+  const jobs = db.collection<AnalysisJob>('analysisJobs')
+
+  for (;;) {
+    const batch = await getBatch(batchId)
+    if (!batch || batch.status !== 'RUNNING') return
+
+    logger.log('analysisBatches', `▶️  Running batch ${batchId} (${batch.concurrency} at a time)`)
+    await Promise.all(Array.from({ length: batch.concurrency }, () => worker(batchId)))
+
+    // A pause and resume while the last scenes were in flight leaves work
+    // queued that no worker picked up; go round again for it
+    if (await jobs.countDocuments({ batchId, status: 'PENDING' }) > 0) continue
+    if (await jobs.countDocuments({ batchId, status: 'PROCESSING' }) === 0) {
+      await setBatchStatus(batchId, 'COMPLETED', ['RUNNING'])
+    }
+    return
+  }
+}
+
+/**
+ * Start (or resume) working through a batch in the background. A no-op when
+ * this process already has workers on it.
+ */
+export function runBatch(batchId: string): void {
+  if (activeBatches.has(batchId)) return
+  activeBatches.add(batchId)
+  drainBatch(batchId)
+    .catch(error => logger.error('analysisBatches', `❌ Batch ${batchId} stopped:`, error))
+    .finally(() => activeBatches.delete(batchId))
+}
+
+/**
+ * Cancel a batch: scenes not yet started are dropped and their credits
+ * returned. Scenes already in flight finish and keep their charge. Returns
+ * the credits refunded, or null when the batch had already stopped.
+ */
+export async function cancelBatch(batch: AnalysisBatch): Promise<number | null> {
+  const changed = await setBatchStatus(batch.batchId, 'CANCELLED', ['RUNNING', 'PAUSED'])
+  if (!changed) return null
+
+  const db = await getDb()
+  const jobs = db.collection<AnalysisJob>('analysisJobs')
+  const pending = await jobs.find({ batchId: batch.batchId, status: 'PENDING' }).toArray()
+  let credits = 0
+  for (const job of pending) {
+    // Only refund jobs this call actually moved, in case a worker claimed one meanwhile
+    const result = await jobs.updateOne(
+      { jobId: job.jobId, status: 'PENDING' },
+      { $set: { status: 'CANCELLED', updatedAt: new Date() } }
+    )
+    if (result.modifiedCount > 0) credits += job.credits || 0
+  }
+  await refundBatchCredits(batch, credits, `Batch analysis cancelled (${pending.length} scene(s) not started)`)
+  return credits
+}
+
+/**
+ * Called once at server startup. Scenes that were mid-analysis when the
+ * process stopped go back to the queue, and running batches restart.
+ * Assumes a single server process owns the queue.
+ */
+export async function resumeInterruptedBatches(): Promise<void> {
+  const db = await getDb()
+  const batches = await db.collection<AnalysisBatch>('analysisBatches')
+    .find({ status: { $in: ['RUNNING', 'PAUSED'] } })
+    .toArray()
+  if (batches.length === 0) return
+
+  await db.collection<AnalysisJob>('analysisJobs').updateMany(
+    { batchId: { $in: batches.map(batch => batch.batchId) }, status: 'PROCESSING' },
+    { $set: { status: 'PENDING', updatedAt: new Date() }, $unset: { progress: '' } }
+  )
+
+  for (const batch of batches) {
+    if (batch.status === 'RUNNING') runBatch(batch.batchId)
+  }
+  logger.log('analysisBatches', `🔁 Resumed ${batches.filter(b => b.status === 'RUNNING').length} batch(es), ${batches.filter(b => b.status === 'PAUSED').length} still paused`)
+}
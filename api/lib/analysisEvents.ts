@@ -0,0 +1,23 @@
+// api/lib/analysisEvents.ts
+// In-process pub/sub for analysis job progress, feeding the SSE endpoint
+// (api/analyze-scene-stream.ts). Events are fire-and-forget: anything a late
+// subscriber needs is also written to the job record, which it reads first.
+
+import { EventEmitter } from 'events'
+import type { AnalysisStreamEvent } from '../../src/types/analysis'
+
+const bus = new EventEmitter()
+// One listener per open stream; many can follow the same job
+bus.setMaxListeners(0)
+
+export function publishJobEvent(jobId: string, event: AnalysisStreamEvent): void {
+  bus.emit(jobId, event)
+}
+
+/** Returns the unsubscribe function */
+export function subscribeJobEvents(jobId: string, listener: (event: AnalysisStreamEvent) => void): () => void {
+  bus.on(jobId, listener)
+  return () => {
+    bus.off(jobId, listener)
+  }
+}
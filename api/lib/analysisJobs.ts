@@ -1,27 +1,42 @@
 // api/lib/analysisJobs.ts
-// Analysis job management for async scene analysis with polling
+// Analysis job management for async scene analysis with polling.
+// Jobs created for a whole-project batch carry a batchId; the batch record
+// (collection: analysisBatches) holds the queue state and credit reservation.
 
+import { MongoServerError, type Collection } from 'mongodb';
 import { getDb } from './mongodb.js';
 import { logger } from './logger.js';
+import { publishJobEvent } from './analysisEvents';
+import type { StoredCharacter } from '../../src/lib/characterRegistry';
+import type { AnalysisData, AnalysisUsageTotals } from '../../src/types/analysis';
 
-export type JobStatus = 'PENDING' | 'PROCESSING' | 'COMPLETED' | 'ERROR';
+export type JobStatus = 'PENDING' | 'PROCESSING' | 'COMPLETED' | 'ERROR' | 'CANCELLED';
+
+export type BatchStatus = 'RUNNING' | 'PAUSED' | 'CANCELLED' | 'COMPLETED';
 
 export interface AnalysisJob {
   jobId: string;
   userId: string;
   projectId?: string;
+  batchId?: string;
   sceneNumber: number;
   sceneText: string;
   totalScenes: number;
   visualStyle?: string | null;
   visualProfile?: any;
-  characters?: Array<{ name: string; physical: string }>;
+  characters?: StoredCharacter[];
   customInstructions?: string;
+  /** Credits held for this scene by its batch */
+  credits?: number;
   status: JobStatus;
   progress?: {
     phase: 'story' | 'producing' | 'directing' | 'complete';
     message: string;
   };
+  /** Sections finished so far, for clients that join the stream late */
+  partial?: Partial<AnalysisData>;
+  /** Tokens and cost so far */
+  usage?: AnalysisUsageTotals;
   result?: any;
   error?: string;
   createdAt: Date;
@@ -29,6 +44,25 @@ export interface AnalysisJob {
   completedAt?: Date;
 }
 
+export interface AnalysisBatch {
+  batchId: string;
+  userId: string;
+  projectId: string;
+  /** The workspace billed for the batch, when the project belongs to one */
+  workspaceId?: string | null;
+  status: BatchStatus;
+  /** Scenes analyzed at the same time */
+  concurrency: number;
+  sceneNumbers: number[];
+  /** Credits deducted up front at submission */
+  creditsReserved: number;
+  /** Credits handed back for scenes that failed or were cancelled */
+  creditsRefunded: number;
+  createdAt: Date;
+  updatedAt: Date;
+  completedAt?: Date;
+}
+
 /**
  * Create a new analysis job
  */
@@ -40,8 +74,10 @@ export async function createAnalysisJob(jobData: {
   totalScenes: number;
   visualStyle?: string | null;
   visualProfile?: any;
-  characters?: Array<{ name: string; physical: string }>;
+  characters?: StoredCharacter[];
   customInstructions?: string;
+  batchId?: string;
+  credits?: number;
 }): Promise<string> {
   try {
     const db = await getDb();
@@ -129,6 +165,26 @@ export async function updateJobStatus(
   }
 }
 
+/**
+ * Record sections of the analysis as they finish. Each top-level key is set
+ * on its own so story and producing, which finish in either order, don't
+ * overwrite each other.
+ */
+export async function saveJobPartial(
+  jobId: string,
+  sections: Partial<AnalysisData>,
+  usage: AnalysisUsageTotals
+): Promise<void> {
+  try {
+    const db = await getDb();
+    const update: Record<string, unknown> = { usage, updatedAt: new Date() };
+    for (const [key, value] of Object.entries(sections)) update[`partial.${key}`] = value;
+    await db.collection<AnalysisJob>('analysisJobs').updateOne({ jobId }, { $set: update });
+  } catch (error) {
+    logger.error('analysisJobs', `Failed to save partial result for job ${jobId}:`, error);
+  }
+}
+
 /**
  * Start processing a job (background execution)
  */
@@ -147,6 +203,7 @@ export async function completeJob(jobId: string, result: any): Promise<void> {
     phase: 'complete',
     message: 'Analysis complete'
   }, result);
+  publishJobEvent(jobId, { type: 'complete', result });
 }
 
 /**
@@ -154,4 +211,153 @@ export async function completeJob(jobId: string, result: any): Promise<void> {
  */
 export async function failJob(jobId: string, error: string): Promise<void> {
   await updateJobStatus(jobId, 'ERROR', undefined, undefined, error);
+  publishJobEvent(jobId, { type: 'error', error });
+}
+
+// A project has at most one RUNNING or PAUSED batch; the index makes two
+// simultaneous submissions collide instead of both starting
+let activeBatchIndex: Promise<string> | null = null;
+
+function ensureActiveBatchIndex(batches: Collection<AnalysisBatch>): Promise<string> {
+  if (!activeBatchIndex) {
+    activeBatchIndex = batches.createIndex(
+      { projectId: 1 },
+      { name: 'one_active_batch_per_project', unique: true, partialFilterExpression: { status: { $in: ['RUNNING', 'PAUSED'] } } }
+    ).catch(error => {
+      activeBatchIndex = null;
+      throw error;
+    });
+  }
+  return activeBatchIndex;
+}
+
+/**
+ * Create a batch and one PENDING job per scene. Null when the project
+ * already has a batch in progress.
+ */
+export async function createAnalysisBatch(batchData: {
+  userId: string;
+  projectId: string;
+  workspaceId?: string | null;
+  concurrency: number;
+  creditsReserved: number;
+  scenes: Array<{
+    sceneNumber: number;
+    sceneText: string;
+    credits: number;
+  }>;
+  totalScenes: number;
+  visualStyle?: string | null;
+  visualProfile?: unknown;
+  characters?: StoredCharacter[];
+}): Promise<AnalysisBatch | null> {
+  const db = await getDb();
+  const batches = db.collection<AnalysisBatch>('analysisBatches');
+  const jobs = db.collection<AnalysisJob>('analysisJobs');
+  await ensureActiveBatchIndex(batches);
+
+  const batchId = `batch_${Date.now()}_${Math.random().toString(36).substring(2, 11)}`;
+  const now = new Date();
+
+  const batch: AnalysisBatch = {
+    batchId,
+    userId: batchData.userId,
+    projectId: batchData.projectId,
+    workspaceId: batchData.workspaceId || null,
+    status: 'RUNNING',
+    concurrency: batchData.concurrency,
+    sceneNumbers: batchData.scenes.map(scene => scene.sceneNumber),
+    creditsReserved: batchData.creditsReserved,
+    creditsRefunded: 0,
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  try {
+    await batches.insertOne({ ...batch });
+  } catch (error) {
+    if (error instanceof MongoServerError && error.code === 11000) return null;
+    throw error;
+  }
+  try {
+    await jobs.insertMany(batchData.scenes.map((scene, index) => ({
+      jobId: `job_${Date.now()}_${index}_${Math.random().toString(36).substring(2, 11)}`,
+      userId: batchData.userId,
+      projectId: batchData.projectId,
+      batchId,
+      sceneNumber: scene.sceneNumber,
+      sceneText: scene.sceneText,
+      totalScenes: batchData.totalScenes,
+      visualStyle: batchData.visualStyle,
+      visualProfile: batchData.visualProfile,
+      characters: batchData.characters,
+      credits: scene.credits,
+      status: 'PENDING' as JobStatus,
+      createdAt: now,
+      updatedAt: now,
+    })));
+  } catch (error) {
+    // A batch without its jobs would hold the project's slot forever
+    await batches.updateOne({ batchId }, { $set: { status: 'CANCELLED', updatedAt: new Date(), completedAt: new Date() } });
+    throw error;
+  }
+
+  logger.log('analysisJobs', `✅ Created batch ${batchId} with ${batchData.scenes.length} scenes for project ${batchData.projectId}`);
+
+  return batch;
+}
+
+/**
+ * Get a batch by id
+ */
+export async function getBatch(batchId: string): Promise<AnalysisBatch | null> {
+  const db = await getDb();
+  return db.collection<AnalysisBatch>('analysisBatches').findOne({ batchId });
+}
+
+/**
+ * Most recent batch for a project, so a reloaded page can pick it back up
+ */
+export async function getLatestProjectBatch(projectId: string): Promise<AnalysisBatch | null> {
+  const db = await getDb();
+  return db.collection<AnalysisBatch>('analysisBatches')
+    .find({ projectId })
+    .sort({ createdAt: -1 })
+    .limit(1)
+    .next();
+}
+
+/**
+ * Jobs of a batch, in scene order
+ */
+export async function getBatchJobs(batchId: string): Promise<AnalysisJob[]> {
+  const db = await getDb();
+  return db.collection<AnalysisJob>('analysisJobs')
+    .find({ batchId })
+    .sort({ sceneNumber: 1 })
+    .toArray();
+}
+
+/**
+ * Move a batch to a new status. With `from`, only applies when the batch is
+ * currently in one of those statuses; returns whether it changed.
+ */
+export async function setBatchStatus(
+  batchId: string,
+  status: BatchStatus,
+  from?: BatchStatus[]
+): Promise<boolean> {
+  const db = await getDb();
+  const update: Partial<AnalysisBatch> = { status, updatedAt: new Date() };
+  if (status === 'COMPLETED' || status === 'CANCELLED') {
+    update.completedAt = new Date();
+  }
+  const result = await db.collection<AnalysisBatch>('analysisBatches').updateOne(
+    from ? { batchId, status: { $in: from } } : { batchId },
+    { $set: update }
+  );
+  if (result.modifiedCount > 0) {
+    logger.log('analysisJobs', `📝 Batch ${batchId} is now ${status}`);
+  }
+  return result.modifiedCount > 0;
 }
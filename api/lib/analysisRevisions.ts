@@ -0,0 +1,113 @@
+// api/lib/analysisRevisions.ts
+// Append-only revision log for scene analyses (collection: analysis_revisions)
+
+import { Db, ObjectId } from 'mongodb'
+import { logger } from './logger.js'
+import type { AnalysisRevision, RevisionSource } from '../../src/lib/analysisRevisions'
+
+export const REVISIONS_COLLECTION = 'analysis_revisions'
+
+export interface RevisionDocument {
+  _id?: ObjectId
+  projectId: string
+  /** null once the scene is omitted by a script revision */
+  sceneNumber: number | null
+  revision: number
+  analysis: string
+  source: RevisionSource
+  model?: string
+  createdBy: string
+  createdAt: Date
+  restoredFrom?: number
+  baseline?: boolean
+  detachedFrom?: number
+}
+
+export interface RevisionWrite {
+  sceneNumber: number
+  /** New analysis, as stored on the scene (JSON string) */
+  analysis: string
+  /** What the scene held before this write, so untracked analyses get a baseline */
+  previous?: string | null
+  source: RevisionSource
+  model?: string
+  restoredFrom?: number
+}
+
+export function toRevision(doc: RevisionDocument): AnalysisRevision {
+  return {
+    id: String(doc._id),
+    projectId: doc.projectId,
+    sceneNumber: doc.sceneNumber ?? doc.detachedFrom ?? 0,
+    revision: doc.revision,
+    analysis: doc.analysis,
+    source: doc.source,
+    model: doc.model,
+    createdBy: doc.createdBy,
+    createdAt: doc.createdAt.toISOString(),
+    restoredFrom: doc.restoredFrom,
+    baseline: doc.baseline,
+  }
+}
+
+/**
+ * Record one revision per write. Revisions are only ever inserted — never
+ * updated or deleted — so any earlier analysis can be restored later.
+ * Failures are logged, not thrown: the scene write has already succeeded.
+ */
+export async function appendRevisions(
+  db: Db,
+  projectId: string,
+  userId: string,
+  writes: RevisionWrite[],
+  baselineOwner?: string
+): Promise<AnalysisRevision[]> {
+  const revisions = db.collection<RevisionDocument>(REVISIONS_COLLECTION)
+  const recorded: AnalysisRevision[] = []
+
+  try {
+    for (const write of writes) {
+      const latest = await revisions.find({ projectId, sceneNumber: write.sceneNumber })
+        .sort({ revision: -1 })
+        .limit(1)
+        .next()
+      let next = (latest?.revision || 0) + 1
+
+      // First tracked write over an existing analysis: keep what was there
+      if (!latest && write.previous && write.previous !== write.analysis) {
+        await revisions.insertOne({
+          projectId,
+          sceneNumber: write.sceneNumber,
+          revision: next++,
+          analysis: write.previous,
+          source: 'ai',
+          createdBy: baselineOwner || userId,
+          createdAt: new Date(),
+          baseline: true,
+        })
+      }
+
+      const doc: RevisionDocument = {
+        projectId,
+        sceneNumber: write.sceneNumber,
+        revision: next,
+        analysis: write.analysis,
+        source: write.source,
+        createdBy: userId,
+        createdAt: new Date(),
+        ...(write.model ? { model: write.model } : {}),
+        ...(write.restoredFrom ? { restoredFrom: write.restoredFrom } : {}),
+      }
+      const { insertedId } = await revisions.insertOne(doc)
+      recorded.push(toRevision({ ...doc, _id: insertedId }))
+    }
+  } catch (error) {
+    logger.error('analysis-revisions', `Failed to record revisions for project ${projectId}:`, error)
+  }
+
+  return recorded
+}
+
+export function parseRevisionSource(value: unknown, fallback: RevisionSource): RevisionSource {
+  return value === 'ai' || value === 'manual' ? value : fallback
+}
@@ -0,0 +1,268 @@
+// api/lib/assetStorage.ts
+// Binary asset storage (storyboard frames and their thumbnails).
+// ASSET_STORAGE picks the backend:
+//   local (default) — files under ASSET_STORAGE_DIR (./storage/assets),
+//                     served by /api/assets/file through HMAC-signed URLs
+//   s3              — any S3-compatible bucket (AWS, R2, MinIO...), read
+//                     through presigned GET URLs. Needs S3_BUCKET,
+//                     S3_REGION, S3_ACCESS_KEY_ID, S3_SECRET_ACCESS_KEY and,
+//                     for non-AWS services, S3_ENDPOINT.
+// URLs expire, so API responses carry fresh ones rather than storing them.
+
+import { createHash, createHmac, timingSafeEqual } from 'crypto';
+import { mkdir, readFile, rm, writeFile } from 'fs/promises';
+import { dirname, join, resolve, sep } from 'path';
+import { logger } from './logger.js';
+
+/** How long a read URL stays valid */
+export const ASSET_URL_TTL_SECONDS = 12 * 60 * 60;
+
+export interface AssetStorage {
+  readonly name: string;
+  put(key: string, body: Buffer, contentType: string): Promise<void>;
+  read(key: string): Promise<{ body: Buffer; contentType: string } | null>;
+  delete(key: string): Promise<void>;
+  /** A URL the browser can load the asset from without an auth header */
+  url(key: string, expiresInSeconds?: number): Promise<string>;
+}
+
+// Keys are generated by the API, but the serving route takes them from a
+// query string — keep them to a plain relative path
+const SAFE_KEY = /^[A-Za-z0-9][A-Za-z0-9_.-]*(\/[A-Za-z0-9][A-Za-z0-9_.-]*)*$/;
+
+export const isSafeAssetKey = (key: string): boolean => SAFE_KEY.test(key) && !key.includes('..');
+
+function assertKey(key: string) {
+  if (!isSafeAssetKey(key)) throw new Error(`Invalid asset key: ${key}`);
+}
+
+// ─── Local disk ──────────────────────────────────────────────
+
+const CONTENT_TYPES: Record<string, string> = {
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  webp: 'image/webp',
+};
+
+function signingSecret(): string {
+  // Falls back to the Clerk key so a single-box deploy works without extra config
+  const secret = process.env.ASSET_SIGNING_SECRET || process.env.CLERK_SECRET_KEY;
+  if (!secret) throw new Error('ASSET_SIGNING_SECRET is not configured');
+  return secret;
+}
+
+const localSignature = (key: string, expires: number): string =>
+  createHmac('sha256', signingSecret()).update(`${key}:${expires}`).digest('base64url');
+
+/** Check a signed local asset URL's key, expiry and signature */
+export function verifyLocalAssetSignature(key: string, expires: number, signature: string): boolean {
+  if (!isSafeAssetKey(key) || !Number.isFinite(expires) || expires * 1000 < Date.now()) return false;
+  const expected = Buffer.from(localSignature(key, expires));
+  const given = Buffer.from(signature);
+  return expected.length === given.length && timingSafeEqual(expected, given);
+}
+
+class LocalDiskStorage implements AssetStorage {
+  readonly name = 'local';
+  private readonly root: string;
+
+  constructor(root: string) {
+    this.root = resolve(root);
+  }
+
+  private pathFor(key: string): string {
+    assertKey(key);
+    const path = resolve(join(this.root, key));
+    if (!path.startsWith(this.root + sep)) throw new Error(`Invalid asset key: ${key}`);
+    return path;
+  }
+
+  async put(key: string, body: Buffer): Promise<void> {
+    const path = this.pathFor(key);
+    await mkdir(dirname(path), { recursive: true });
+    await writeFile(path, body);
+  }
+
+  async read(key: string): Promise<{ body: Buffer; contentType: string } | null> {
+    try {
+      const body = await readFile(this.pathFor(key));
+      const extension = key.split('.').pop()?.toLowerCase() || '';
+      return { body, contentType: CONTENT_TYPES[extension] || 'application/octet-stream' };
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+      throw error;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await rm(this.pathFor(key), { force: true });
+  }
+
+  async url(key: string, expiresInSeconds = ASSET_URL_TTL_SECONDS): Promise<string> {
+    assertKey(key);
+    const expires = Math.floor(Date.now() / 1000) + expiresInSeconds;
+    const params = new URLSearchParams({ key, expires: String(expires), signature: localSignature(key, expires) });
+    return `/api/assets/file?${params.toString()}`;
+  }
+}
+
+// ─── S3-compatible (Signature Version 4, no SDK) ─────────────
+
+interface S3Config {
+  bucket: string;
+  region: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+  /** e.g. https://<account>.r2.cloudflarestorage.com; AWS when unset */
+  endpoint?: string;
+  /** bucket in the path rather than the host; the default with a custom endpoint */
+  pathStyle: boolean;
+}
+
+const sha256Hex = (data: string | Buffer): string => createHash('sha256').update(data).digest('hex');
+const hmac = (key: string | Buffer, data: string): Buffer => createHmac('sha256', key).update(data).digest();
+
+// RFC 3986 encoding, as SigV4 canonical requests require
+const encodeRfc3986 = (value: string): string =>
+  encodeURIComponent(value).replace(/[!'()*]/g, c => `%${c.charCodeAt(0).toString(16).toUpperCase()}`);
+
+class S3Storage implements AssetStorage {
+  readonly name = 's3';
+
+  constructor(private readonly config: S3Config) {}
+
+  private target(key: string): { host: string; path: string; origin: string } {
+    assertKey(key);
+    const encodedKey = key.split('/').map(encodeRfc3986).join('/');
+    const { bucket, region, endpoint, pathStyle } = this.config;
+    const base = new URL(endpoint || `https://s3.${region}.amazonaws.com`);
+    if (pathStyle) {
+      return { host: base.host, origin: `${base.protocol}//${base.host}`, path: `/${bucket}/${encodedKey}` };
+    }
+    const host = `${bucket}.${base.host}`;
+    return { host, origin: `${base.protocol}//${host}`, path: `/${encodedKey}` };
+  }
+
+  private signingKey(date: string): Buffer {
+    const { secretAccessKey, region } = this.config;
+    return hmac(hmac(hmac(hmac(`AWS4${secretAccessKey}`, date), region), 's3'), 'aws4_request');
+  }
+
+  private timestamps() {
+    const amzDate = new Date().toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+    return { amzDate, date: amzDate.slice(0, 8) };
+  }
+
+  private async send(method: 'PUT' | 'GET' | 'DELETE', key: string, body?: Buffer, contentType?: string): Promise<Response> {
+    const { host, path, origin } = this.target(key);
+    const { amzDate, date } = this.timestamps();
+    const payloadHash = sha256Hex(body || '');
+    // fetch sets Host itself; it is signed but not sent by hand
+    const headers: Record<string, string> = {
+      'x-amz-content-sha256': payloadHash,
+      'x-amz-date': amzDate,
+      ...(contentType ? { 'content-type': contentType } : {}),
+    };
+    const signed: Record<string, string> = { host, ...headers };
+    const signedHeaders = Object.keys(signed).sort();
+    const canonicalRequest = [
+      method,
+      path,
+      '',
+      signedHeaders.map(name => `${name}:${signed[name]}\n`).join(''),
+      signedHeaders.join(';'),
+      payloadHash,
+    ].join('\n');
+    const scope = `${date}/${this.config.region}/s3/aws4_request`;
+    const stringToSign = ['AWS4-HMAC-SHA256', amzDate, scope, sha256Hex(canonicalRequest)].join('\n');
+    const signature = hmac(this.signingKey(date), stringToSign).toString('hex');
+
+    return fetch(`${origin}${path}`, {
+      method,
+      headers: {
+        ...headers,
+        authorization: `AWS4-HMAC-SHA256 Credential=${this.config.accessKeyId}/${scope}, SignedHeaders=${signedHeaders.join(';')}, Signature=${signature}`,
+      },
+      body: body ? new Uint8Array(body) : undefined,
+    });
+  }
+
+  async put(key: string, body: Buffer, contentType: string): Promise<void> {
+    const response = await this.send('PUT', key, body, contentType);
+    if (!response.ok) throw new Error(`S3 upload failed (${response.status}): ${await response.text()}`);
+  }
+
+  async read(key: string): Promise<{ body: Buffer; contentType: string } | null> {
+    const response = await this.send('GET', key);
+    if (response.status === 404) return null;
+    if (!response.ok) throw new Error(`S3 read failed (${response.status})`);
+    return {
+      body: Buffer.from(await response.arrayBuffer()),
+      contentType: response.headers.get('content-type') || 'application/octet-stream',
+    };
+  }
+
+  async delete(key: string): Promise<void> {
+    const response = await this.send('DELETE', key);
+    if (!response.ok && response.status !== 404) throw new Error(`S3 delete failed (${response.status})`);
+  }
+
+  async url(key: string, expiresInSeconds = ASSET_URL_TTL_SECONDS): Promise<string> {
+    const { host, path, origin } = this.target(key);
+    const { amzDate, date } = this.timestamps();
+    const scope = `${date}/${this.config.region}/s3/aws4_request`;
+    const query: Record<string, string> = {
+      'X-Amz-Algorithm': 'AWS4-HMAC-SHA256',
+      'X-Amz-Credential': `${this.config.accessKeyId}/${scope}`,
+      'X-Amz-Date': amzDate,
+      'X-Amz-Expires': String(Math.min(expiresInSeconds, 7 * 24 * 60 * 60)),
+      'X-Amz-SignedHeaders': 'host',
+    };
+    const canonicalQuery = Object.keys(query).sort()
+      .map(name => `${encodeRfc3986(name)}=${encodeRfc3986(query[name])}`)
+      .join('&');
+    const canonicalRequest = ['GET', path, canonicalQuery, `host:${host}\n`, 'host', 'UNSIGNED-PAYLOAD'].join('\n');
+    const stringToSign = ['AWS4-HMAC-SHA256', amzDate, scope, sha256Hex(canonicalRequest)].join('\n');
+    const signature = hmac(this.signingKey(date), stringToSign).toString('hex');
+    return `${origin}${path}?${canonicalQuery}&X-Amz-Signature=${signature}`;
+  }
+}
+
+// ─── Backend selection ───────────────────────────────────────
+
+let cached: AssetStorage | null = null;
+
+function createAssetStorage(): AssetStorage {
+  const backend = (process.env.ASSET_STORAGE || 'local').toLowerCase();
+
+  if (backend === 's3') {
+    const { S3_BUCKET, S3_REGION, S3_ACCESS_KEY_ID, S3_SECRET_ACCESS_KEY, S3_ENDPOINT, S3_FORCE_PATH_STYLE } = process.env;
+    if (!S3_BUCKET || !S3_ACCESS_KEY_ID || !S3_SECRET_ACCESS_KEY) {
+      throw new Error('ASSET_STORAGE=s3 needs S3_BUCKET, S3_ACCESS_KEY_ID and S3_SECRET_ACCESS_KEY');
+    }
+    return new S3Storage({
+      bucket: S3_BUCKET,
+      // R2 and MinIO accept any region; "auto" is R2's convention
+      region: S3_REGION || (S3_ENDPOINT ? 'auto' : 'us-east-1'),
+      accessKeyId: S3_ACCESS_KEY_ID,
+      secretAccessKey: S3_SECRET_ACCESS_KEY,
+      endpoint: S3_ENDPOINT || undefined,
+      pathStyle: S3_FORCE_PATH_STYLE ? S3_FORCE_PATH_STYLE === 'true' : !!S3_ENDPOINT,
+    });
+  }
+
+  if (backend !== 'local') {
+    throw new Error(`Unknown ASSET_STORAGE backend "${backend}" (expected "local" or "s3")`);
+  }
+  return new LocalDiskStorage(process.env.ASSET_STORAGE_DIR || join(process.cwd(), 'storage', 'assets'));
+}
+
+/** The configured backend, created on first use */
+export function getAssetStorage(): AssetStorage {
+  if (!cached) {
+    cached = createAssetStorage();
+    logger.log('assetStorage', `Using ${cached.name} asset storage`);
+  }
+  return cached;
+}
@@ -0,0 +1,240 @@
+// api/lib/collaboration.ts
+// The project WebSocket (/api/collab): presence and change broadcasting for
+// everyone with a project open. A connection authenticates with its first
+// message — browsers can't put an Authorization header on a WebSocket — and
+// joins one project's room. Saved changes arrive through projectEvents and
+// are relayed to the room; clients refetch what they need over HTTP, so a
+// missed message costs nothing but a stale view until the next one.
+// Rooms live in this process, like the analysis event bus, so every client
+// of a project has to reach the same server instance.
+
+import type { IncomingMessage, Server } from 'http'
+import type { Duplex } from 'stream'
+import { randomUUID } from 'crypto'
+import { ObjectId, type Document } from 'mongodb'
+import { WebSocketServer, WebSocket, type RawData } from 'ws'
+import { getDb } from './mongodb.js'
+import { logger } from './logger.js'
+import { verifySessionToken } from './requireAuth'
+import { subscribeProjectChanges } from './projectEvents'
+import { ACCESS_PROJECTION, storedProjectRole } from './projectAccess'
+import type { ProjectRole } from '../../src/lib/projectAccess'
+import {
+  COLLAB_CLOSE,
+  type CollabClientMessage,
+  type CollabServerMessage,
+  type PresenceMember,
+  type ProjectChange,
+} from '../../src/types/collaboration'
+
+const PATH = '/api/collab'
+const JOIN_TIMEOUT_MS = 10_000
+const HEARTBEAT_MS = 30_000
+const MAX_NAME_LENGTH = 80
+
+interface Connection {
+  socket: WebSocket
+  member: PresenceMember
+  projectId: string
+  alive: boolean
+}
+
+interface Room {
+  connections: Map<string, Connection>
+  unsubscribe: () => void
+}
+
+const rooms = new Map<string, Room>()
+
+function send(socket: WebSocket, message: CollabServerMessage): void {
+  if (socket.readyState === WebSocket.OPEN) socket.send(JSON.stringify(message))
+}
+
+const membersOf = (room: Room): PresenceMember[] =>
+  Array.from(room.connections.values()).map(connection => connection.member)
+
+function broadcast(room: Room, message: CollabServerMessage): void {
+  room.connections.forEach(connection => send(connection.socket, message))
+}
+
+async function loadAccess(projectId: string): Promise<Document | null> {
+  if (!ObjectId.isValid(projectId)) return null
+  const db = await getDb()
+  return db.collection('projects').findOne({ _id: new ObjectId(projectId) }, { projection: ACCESS_PROJECTION })
+}
+
+/** After the share list changes: update everyone's role and drop whoever lost access */
+async function refreshRoles(projectId: string, room: Room): Promise<void> {
+  const project = await loadAccess(projectId)
+  room.connections.forEach(connection => {
+    const role = project ? storedProjectRole(project, connection.member.userId) : null
+    if (!role) {
+      connection.socket.close(COLLAB_CLOSE.forbidden, 'Access removed')
+    } else if (role !== connection.member.role) {
+      connection.member.role = role
+      send(connection.socket, { type: 'role', role })
+    }
+  })
+  broadcast(room, { type: 'presence', members: membersOf(room) })
+}
+
+function roomFor(projectId: string): Room {
+  const existing = rooms.get(projectId)
+  if (existing) return existing
+  const created: Room = {
+    connections: new Map(),
+    unsubscribe: subscribeProjectChanges(projectId, (change: ProjectChange) => {
+      broadcast(created, { type: 'change', change })
+      if (change.kind === 'deleted') {
+        created.connections.forEach(connection => connection.socket.close(COLLAB_CLOSE.notFound, 'Project deleted'))
+      } else if (change.kind === 'sharing') {
+        refreshRoles(projectId, created).catch(error => logger.error('collaboration', `Role refresh for ${projectId} failed:`, error))
+      }
+    }),
+  }
+  rooms.set(projectId, created)
+  return created
+}
+
+function leave(connection: Connection): void {
+  const room = rooms.get(connection.projectId)
+  if (!room || !room.connections.delete(connection.member.connectionId)) return
+  if (room.connections.size === 0) {
+    room.unsubscribe()
+    rooms.delete(connection.projectId)
+  } else {
+    broadcast(room, { type: 'presence', members: membersOf(room) })
+  }
+}
+
+function parseMessage(data: RawData): CollabClientMessage | null {
+  try {
+    const message = JSON.parse(data.toString())
+    return message && typeof message.type === 'string' ? message : null
+  } catch {
+    return null
+  }
+}
+
+async function join(socket: WebSocket, message: Extract<CollabClientMessage, { type: 'join' }>): Promise<Connection | null> {
+  const userId = typeof message.token === 'string' ? await verifySessionToken(message.token) : null
+  if (!userId) {
+    socket.close(COLLAB_CLOSE.unauthenticated, 'Authentication required')
+    return null
+  }
+  const project = typeof message.projectId === 'string' ? await loadAccess(message.projectId) : null
+  if (!project) {
+    socket.close(COLLAB_CLOSE.notFound, 'Project not found')
+    return null
+  }
+  const role: ProjectRole | null = storedProjectRole(project, userId)
+  if (!role) {
+    socket.close(COLLAB_CLOSE.forbidden, 'Forbidden')
+    return null
+  }
+
+  const name = typeof message.name === 'string' && message.name.trim()
+    ? message.name.trim().slice(0, MAX_NAME_LENGTH)
+    : 'Collaborator'
+  const connection: Connection = {
+    socket,
+    projectId: message.projectId,
+    alive: true,
+    member: {
+      connectionId: randomUUID(),
+      userId,
+      name,
+      role,
+      sceneNumber: null,
+      joinedAt: new Date().toISOString(),
+    },
+  }
+  const room = roomFor(message.projectId)
+  room.connections.set(connection.member.connectionId, connection)
+  send(socket, { type: 'joined', connectionId: connection.member.connectionId, role, members: membersOf(room) })
+  broadcast(room, { type: 'presence', members: membersOf(room) })
+  return connection
+}
+
+function handleConnection(socket: WebSocket): void {
+  let connection: Connection | null = null
+  let joining = false
+  const joinTimer = setTimeout(() => {
+    if (!connection) socket.close(COLLAB_CLOSE.unauthenticated, 'Join timed out')
+  }, JOIN_TIMEOUT_MS)
+
+  socket.on('message', async data => {
+    const message = parseMessage(data)
+    if (!message) return
+
+    if (!connection) {
+      if (message.type !== 'join' || joining) return
+      joining = true
+      try {
+        connection = await join(socket, message)
+      } catch (error) {
+        logger.error('collaboration', 'Join failed:', error)
+        socket.close(1011, 'Join failed')
+      } finally {
+        clearTimeout(joinTimer)
+      }
+      // The socket may have closed while the join was being checked
+      if (connection && socket.readyState !== WebSocket.OPEN) leave(connection)
+      return
+    }
+
+    connection.alive = true
+    if (message.type === 'focus') {
+      const sceneNumber = typeof message.sceneNumber === 'number' ? message.sceneNumber : null
+      if (sceneNumber === connection.member.sceneNumber) return
+      connection.member.sceneNumber = sceneNumber
+      const room = rooms.get(connection.projectId)
+      if (room) broadcast(room, { type: 'presence', members: membersOf(room) })
+    } else if (message.type === 'ping') {
+      send(socket, { type: 'pong' })
+    }
+  })
+
+  socket.on('pong', () => {
+    if (connection) connection.alive = true
+  })
+
+  socket.on('close', () => {
+    clearTimeout(joinTimer)
+    if (connection) leave(connection)
+  })
+
+  socket.on('error', error => {
+    logger.warn('collaboration', 'Socket error:', error.message)
+  })
+}
+
+/**
+ * Serve the collaboration socket from the app's HTTP server. Other upgrade
+ * requests are left alone. Authentication is by token, not cookie, so a
+ * page on another origin gains nothing by opening the socket.
+ */
+export function attachCollaborationServer(server: Server): void {
+  const wss = new WebSocketServer({ noServer: true, maxPayload: 16 * 1024 })
+
+  server.on('upgrade', (req: IncomingMessage, socket: Duplex, head: Buffer) => {
+    const pathname = new URL(req.url || '/', 'http://localhost').pathname
+    if (pathname !== PATH) return
+    wss.handleUpgrade(req, socket, head, ws => handleConnection(ws))
+  })
+
+  // Drop connections that stopped answering pings (sleeping laptops, dead networks)
+  const heartbeat = setInterval(() => {
+    rooms.forEach(room => room.connections.forEach(connection => {
+      if (!connection.alive) {
+        connection.socket.terminate()
+        return
+      }
+      connection.alive = false
+      connection.socket.ping()
+    }))
+  }, HEARTBEAT_MS)
+  heartbeat.unref()
+
+  logger.log('collaboration', `🤝 Collaboration socket listening on ${PATH}`)
+}
@@ -1,8 +1,11 @@
 // api/lib/credits.ts
 // User credits management for scene analysis billing
+// Analysis of a workspace project is billed to the workspace instead: pass
+// the project's workspaceId and these route to api/lib/workspaces.ts
 
 import { getDb } from './mongodb.js'
 import { logger } from './logger.js'
+import { deductWorkspaceCredits, refundWorkspaceCredits, workspaceCreditShortfall } from './workspaces'
 
 // Admin users get unlimited credits
 const ADMIN_USER_IDS = [
@@ -135,12 +138,14 @@ export async function addCredits(
 /**
  * Deduct credits from user account (for scene analysis)
  * Admin users don't have credits deducted but usage is still logged
+ * With a workspaceId the workspace's balance is charged instead
  */
 export async function deductCredits(
   userId: string,
   credits: number,
   sceneId?: string,
-  projectId?: string
+  projectId?: string,
+  workspaceId?: string | null
 ): Promise<number> {
   try {
     const db = await getDb()
@@ -172,6 +177,10 @@ export async function deductCredits(
       logger.log('credits', `Admin ${userId} used analysis (no charge). Usage logged.`)
       return 999999 // Return high number for admins
     }
+
+    if (workspaceId) {
+      return await deductWorkspaceCredits(workspaceId, userId, credits, sceneId, projectId)
+    }
     
     // Check balance first for regular users
     const user = await users.findOne({ userId })
@@ -217,12 +226,18 @@ export async function deductCredits(
 export async function refundCredits(
   userId: string,
   credits: number,
-  reason: string
+  reason: string,
+  workspaceId?: string | null
 ): Promise<void> {
   try {
     // Admin users don't need refunds (they aren't charged)
     if (isAdmin(userId)) return
 
+    if (workspaceId) {
+      await refundWorkspaceCredits(workspaceId, userId, credits, reason)
+      return
+    }
+
     const db = await getDb()
     const users = db.collection<UserCredits>('users')
 
@@ -251,14 +266,20 @@ export async function refundCredits(
 
 /**
  * Check if user has enough credits (admins always have unlimited)
+ * With a workspaceId: whether the workspace has them and the user's monthly
+ * limit there allows spending them
  */
-export async function hasEnoughCredits(userId: string, required: number): Promise<boolean> {
+export async function hasEnoughCredits(userId: string, required: number, workspaceId?: string | null): Promise<boolean> {
   try {
     // Admin users bypass credit checks
     if (isAdmin(userId)) {
       logger.log('credits', `Admin user ${userId} bypassing credit check`)
       return true
     }
+
+    if (workspaceId) {
+      return (await workspaceCreditShortfall(workspaceId, userId, required)) === null
+    }
     
     const balance = await getUserCredits(userId)
     return balance >= required
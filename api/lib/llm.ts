@@ -0,0 +1,291 @@
+// api/lib/llm.ts
+// Provider-neutral model calls: system prompt + messages in, parsed JSON out,
+// token usage and cost reported. LLM_PROVIDER picks the implementation:
+//   anthropic (default)  ANTHROPIC_API_KEY, CLAUDE_MODEL
+//   openai               OPENAI_API_KEY, OPENAI_MODEL, OPENAI_BASE_URL (any
+//                        OpenAI-compatible /chat/completions endpoint)
+//   mock                 canned fixtures, no network (see llmFixtures.ts)
+// LLM_PRICE_INPUT / LLM_PRICE_OUTPUT (USD per million tokens) override the
+// built-in price table for models it doesn't know.
+
+import { readFile } from 'fs/promises'
+import { join } from 'path'
+import { logger } from './logger.js'
+import { MOCK_FIXTURES } from './llmFixtures'
+
+export type LLMProviderName = 'anthropic' | 'openai' | 'mock'
+
+export interface LLMMessage {
+  role: 'user' | 'assistant'
+  content: string
+}
+
+export interface LLMRequest {
+  system: string
+  messages: LLMMessage[]
+  maxTokens: number
+  /** Which call this is (STORY_ANALYSIS, PARSE_SCREENPLAY...); names the mock fixture */
+  callName: string
+}
+
+export interface LLMCompletion {
+  text: string
+  inputTokens: number
+  outputTokens: number
+}
+
+export interface LLMProvider {
+  name: LLMProviderName
+  model: string
+  /** Why this provider can't run (missing key...), or null when it can */
+  configError(): string | null
+  /** One attempt; throws LLMHttpError for HTTP failures so the caller can decide to retry */
+  complete(request: LLMRequest, signal: AbortSignal): Promise<LLMCompletion>
+}
+
+export interface LLMUsage {
+  inputTokens: number
+  outputTokens: number
+  estimatedCost: string
+}
+
+export interface LLMJsonResult<T = unknown> {
+  success: boolean
+  data?: T
+  error?: string
+  usage?: LLMUsage
+}
+
+export class LLMHttpError extends Error {
+  constructor(public status: number, body: string) {
+    super(`API error ${status}: ${body}`)
+    this.name = 'LLMHttpError'
+  }
+}
+
+// ═══════════════════════════════════════════════════════════════
+// PRICING (USD per million tokens: input, output)
+// First match wins, so more specific patterns go first
+// ═══════════════════════════════════════════════════════════════
+const PRICE_TABLE: Array<[RegExp, number, number]> = [
+  [/claude-.*opus/, 15, 75],
+  [/claude-.*haiku/, 0.8, 4],
+  [/claude/, 3, 15],
+  [/gpt-4o-mini/, 0.15, 0.6],
+  [/gpt-4o/, 2.5, 10],
+  [/gpt-4\.1-mini/, 0.4, 1.6],
+  [/gpt-4\.1/, 2, 8],
+]
+
+export function estimateCost(provider: Pick<LLMProvider, 'name' | 'model'>, inputTokens: number, outputTokens: number): string {
+  if (provider.name === 'mock') return '0.0000'
+  const override = [process.env.LLM_PRICE_INPUT, process.env.LLM_PRICE_OUTPUT].map(v => (v ? parseFloat(v) : NaN))
+  const [, inputPrice, outputPrice] = !isNaN(override[0]) && !isNaN(override[1])
+    ? [null, override[0], override[1]]
+    : PRICE_TABLE.find(([pattern]) => pattern.test(provider.model)) || [null, 0, 0]
+  return ((inputTokens * inputPrice / 1_000_000) + (outputTokens * outputPrice / 1_000_000)).toFixed(4)
+}
+
+/** Pull the JSON object out of a reply that may wrap it in a code fence or prose */
+export function extractJson(content: string): unknown {
+  let jsonStr = content
+  const jsonMatch = content.match(/```(?:json)?\s*([\s\S]*?)```/)
+  if (jsonMatch) {
+    jsonStr = jsonMatch[1]
+  }
+  const rawJsonMatch = content.match(/\{[\s\S]*\}/)
+  if (rawJsonMatch && !jsonMatch) {
+    jsonStr = rawJsonMatch[0]
+  }
+  return JSON.parse(jsonStr.trim())
+}
+
+// ═══════════════════════════════════════════════════════════════
+// PROVIDERS
+// ═══════════════════════════════════════════════════════════════
+function anthropicProvider(): LLMProvider {
+  const apiKey = process.env.ANTHROPIC_API_KEY
+  return {
+    name: 'anthropic',
+    model: process.env.CLAUDE_MODEL || 'claude-sonnet-4-5-20250929',
+    configError: () => (apiKey ? null : 'ANTHROPIC_API_KEY not found'),
+    async complete(request, signal) {
+      const response = await fetch('https://api.anthropic.com/v1/messages', {
+        method: 'POST',
+        headers: {
+          'x-api-key': apiKey || '',
+          'anthropic-version': '2023-06-01',
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          model: this.model,
+          max_tokens: request.maxTokens,
+          system: request.system,
+          messages: request.messages,
+        }),
+        signal,
+      })
+      if (!response.ok) throw new LLMHttpError(response.status, await response.text())
+      const data = await response.json()
+      return {
+        text: data.content?.[0]?.text || '',
+        inputTokens: data.usage?.input_tokens || 0,
+        outputTokens: data.usage?.output_tokens || 0,
+      }
+    },
+  }
+}
+
+function openAICompatibleProvider(): LLMProvider {
+  const apiKey = process.env.OPENAI_API_KEY
+  const baseUrl = (process.env.OPENAI_BASE_URL || 'https://api.openai.com/v1').replace(/\/+$/, '')
+  return {
+    name: 'openai',
+    model: process.env.OPENAI_MODEL || 'gpt-4o',
+    configError: () => (apiKey ? null : 'OPENAI_API_KEY not found'),
+    async complete(request, signal) {
+      const response = await fetch(`${baseUrl}/chat/completions`, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${apiKey}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          model: this.model,
+          max_tokens: request.maxTokens,
+          messages: [{ role: 'system', content: request.system }, ...request.messages],
+          response_format: { type: 'json_object' },
+        }),
+        signal,
+      })
+      if (!response.ok) throw new LLMHttpError(response.status, await response.text())
+      const data = await response.json()
+      return {
+        text: data.choices?.[0]?.message?.content || '',
+        inputTokens: data.usage?.prompt_tokens || 0,
+        outputTokens: data.usage?.completion_tokens || 0,
+      }
+    },
+  }
+}
+
+/**
+ * Answers every call with the fixture named after its callName. Fixtures in
+ * LLM_MOCK_FIXTURES_DIR/<CALL_NAME>.json win over the built-in ones, and
+ * LLM_MOCK_FAIL=STORY_ANALYSIS,... makes those calls fail (without retries).
+ */
+function mockProvider(): LLMProvider {
+  const failing = (process.env.LLM_MOCK_FAIL || '').split(',').map(s => s.trim()).filter(Boolean)
+  return {
+    name: 'mock',
+    model: 'mock-fixtures',
+    configError: () => null,
+    async complete(request) {
+      if (failing.includes(request.callName)) {
+        throw new LLMHttpError(422, `mock failure for ${request.callName}`)
+      }
+      let text: string | undefined
+      if (process.env.LLM_MOCK_FIXTURES_DIR) {
+        text = await readFile(join(process.env.LLM_MOCK_FIXTURES_DIR, `${request.callName}.json`), 'utf8').catch(() => undefined)
+      }
+      if (text === undefined) {
+        const fixture = MOCK_FIXTURES[request.callName]
+        if (!fixture) throw new LLMHttpError(404, `no mock fixture for ${request.callName}`)
+        text = JSON.stringify(fixture)
+      }
+      // Deterministic stand-in for token counts: about four characters a token
+      const prompt = request.system + request.messages.map(m => m.content).join('')
+      return { text, inputTokens: Math.ceil(prompt.length / 4), outputTokens: Math.ceil(text.length / 4) }
+    },
+  }
+}
+
+/** The provider selected by LLM_PROVIDER */
+export function getLLMProvider(name: string | undefined = process.env.LLM_PROVIDER): LLMProvider {
+  switch ((name || 'anthropic').toLowerCase()) {
+    case 'anthropic':
+      return anthropicProvider()
+    case 'openai':
+      return openAICompatibleProvider()
+    case 'mock':
+      return mockProvider()
+    default:
+      throw new Error(`Unknown LLM_PROVIDER "${name}" (expected anthropic, openai or mock)`)
+  }
+}
+
+// ═══════════════════════════════════════════════════════════════
+// JSON CALL WITH RETRIES
+// ═══════════════════════════════════════════════════════════════
+/**
+ * Ask the model for a JSON object. Retries timeouts, empty replies,
+ * unparseable JSON, 5xx and 429 — up to three attempts with 3s/9s backoff.
+ * Never throws; failures come back as { success: false, error }.
+ */
+export async function callLLMJson<T = unknown>(
+  provider: LLMProvider,
+  request: LLMRequest,
+  invocationId: string,
+  timeoutMs: number = 300000
+): Promise<LLMJsonResult<T>> {
+  const { callName } = request
+  const MAX_RETRIES = 2 // 3 total attempts
+  let lastError = ''
+
+  for (let attempt = 0; attempt <= MAX_RETRIES; attempt++) {
+    if (attempt > 0) {
+      const backoffMs = Math.pow(3, attempt) * 1000 // 3s, 9s
+      logger.log("llm", `⏳ [${invocationId}] ${callName} retry ${attempt}/${MAX_RETRIES} after ${backoffMs}ms backoff...`)
+      await new Promise(r => setTimeout(r, backoffMs))
+    }
+
+    const controller = new AbortController()
+    const timeoutId = setTimeout(() => controller.abort(), timeoutMs)
+
+    try {
+      logger.log("llm", `🤖 [${invocationId}] Calling ${provider.name}:${provider.model} for ${callName} (attempt ${attempt + 1}/${MAX_RETRIES + 1}, timeout ${Math.round(timeoutMs / 1000)}s)...`)
+      const startTime = Date.now()
+
+      const completion = await provider.complete(request, controller.signal)
+
+      clearTimeout(timeoutId)
+      logger.log("llm", `⏱️  [${invocationId}] ${callName} responded in ${Date.now() - startTime}ms`)
+
+      if (!completion.text) {
+        lastError = `Empty response from ${provider.name}`
+        if (attempt < MAX_RETRIES) continue
+        return { success: false, error: lastError }
+      }
+
+      const { inputTokens, outputTokens } = completion
+      const estimatedCost = estimateCost(provider, inputTokens, outputTokens)
+      logger.log("llm", `💰 [${invocationId}] ${callName} usage: input=${inputTokens}, output=${outputTokens}, cost=$${estimatedCost}`)
+
+      const parsed = extractJson(completion.text) as T
+      logger.log("llm", `✅ [${invocationId}] ${callName} parsed successfully${attempt > 0 ? ` (after ${attempt} retries)` : ''}`)
+      return { success: true, data: parsed, usage: { inputTokens, outputTokens, estimatedCost } }
+
+    } catch (error) {
+      clearTimeout(timeoutId)
+      if ((error as Error).name === 'AbortError') {
+        lastError = `${callName} timed out after ${Math.round(timeoutMs / 1000)}s`
+      } else {
+        lastError = (error as Error).message || 'Unknown error'
+      }
+
+      if (error instanceof LLMHttpError) {
+        logger.error("llm", `❌ [${invocationId}] ${callName} ${error.message}`)
+        // Only server errors and rate limits are worth another attempt
+        if (error.status < 500 && error.status !== 429) return { success: false, error: lastError }
+      }
+
+      if (attempt < MAX_RETRIES) {
+        logger.warn("llm", `⚠️ [${invocationId}] ${callName} attempt ${attempt + 1} failed: ${lastError}`)
+        continue
+      }
+      return { success: false, error: lastError }
+    }
+  }
+
+  return { success: false, error: `${callName} failed after ${MAX_RETRIES + 1} attempts` }
+}
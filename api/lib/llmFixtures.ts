@@ -0,0 +1,181 @@
+// api/lib/llmFixtures.ts
+// Canned replies for LLM_PROVIDER=mock, keyed by callName. Each one is a
+// complete, valid answer for its call so the whole pipeline — normalization,
+// validation, saving — runs without network.
+
+export const MOCK_FIXTURES: Record<string, unknown> = {
+  STORY_SPINE: {
+    logline: 'A guarded avian vet gives online dating one last try and falls for a man whose childhood parrot turns out to be the bird she has been nursing.',
+    act_breaks: [
+      { act: 1, label: 'Setup', starts_at_scene: 1, summary: 'Sarah meets Mike and lets her guard down for the first time.' },
+      { act: 2, label: 'Confrontation', starts_at_scene: 2, summary: 'Sarah learns Mike has been hiding why he sought her out.' },
+      { act: 3, label: 'Resolution', starts_at_scene: 3, summary: 'Nelson the parrot brings them back together.' },
+    ],
+    character_arcs: [
+      { character: 'SARAH', arc: 'From protecting herself with work to risking being seen.', key_scenes: [1, 3] },
+      { character: 'MIKE', arc: 'From charming deflection to telling the truth about Nelson.', key_scenes: [2, 3] },
+    ],
+    setup_payoffs: [
+      {
+        description: 'Mike\'s childhood parrot Nelson',
+        setup_scene: 1,
+        setup: 'Mike tells the story of a parrot who could say twelve words.',
+        payoff_scenes: [3],
+        payoff: 'The parrot in Sarah\'s clinic says the same twelve words.',
+      },
+    ],
+    motifs: [
+      { motif: 'Birds in cages', meaning: 'Sarah\'s self-protection', scenes: [1, 3] },
+    ],
+  },
+
+  STORY_ANALYSIS: {
+    the_core: 'This scene exists to force two strangers past small talk and into a first real moment of connection.',
+    synopsis: 'Sarah waits nervously at a coffee shop for a first date. Mike arrives with a latte already bought for her, and after an awkward silence a story about his childhood parrot makes her laugh.',
+    the_turn: 'Sarah laughs at "He could say twelve words" — the first unguarded reaction of the scene.',
+    ownership: 'SARAH drives this scene by deciding whether to stay guarded or let Mike in.',
+    the_times: 'Contemporary, app-dating era.',
+    imagery_and_tone: 'Warm daylight, cramped corner table; awkward comedy easing into tenderness.',
+    stakes: 'SARAH risks another disappointing date confirming she should stop trying.',
+    pitfalls: ['Playing the awkwardness too broad', 'Mike reading as too smooth', 'Rushing the silence before the turn'],
+    scene_obligation: 'This scene must establish that Sarah and Mike have real chemistry beneath the nerves.',
+    the_one_thing: 'The laugh has to feel earned and surprising to Sarah herself.',
+    setup_payoff: {
+      setups: ['Sarah specializes in exotic birds', 'Mike\'s childhood parrot Nelson'],
+      payoffs: [],
+    },
+    essential_exposition: 'They met on a dating app; Sarah is a veterinarian who works with parrots.',
+    if_this_scene_fails: 'The relationship has no foundation and every later scene between them rings false.',
+    alternative_readings: ['Mike bought the latte to seem thoughtful rather than out of thoughtfulness', 'Sarah\'s nerves are about her last relationship, not Mike'],
+  },
+
+  PRODUCING_LOGISTICS: {
+    locations: { primary: 'COFFEE SHOP', setting: 'coffee shop', intExt: 'INT', timeOfDay: 'DAY' },
+    cast: {
+      principal: ['SARAH', 'MIKE'],
+      speaking: ['SARAH', 'MIKE'],
+      silent: [],
+      extras: 'Coffee shop patrons and a barista',
+    },
+    key_props: ['Phone', 'Two coffee cups', 'Sugar packet'],
+    red_flags: ['Practical location needs sound control during business hours'],
+    departments_affected: ['Camera', 'Sound', 'Art', 'Props'],
+    resource_impact: 'Low',
+    continuity: {
+      carries_in: { costume: 'Sarah in date outfit', props: 'Sarah\'s phone', makeup: 'Natural', time_logic: 'Afternoon', emotional_state: 'Nervous' },
+      carries_out: { costume: 'Unchanged', props: 'Half-finished lattes', makeup: 'Unchanged', time_logic: 'A few minutes later', emotional_state: 'Relaxed, curious' },
+      characters: [
+        {
+          name: 'SARAH',
+          carries_in: { costume: 'Green date dress, denim jacket', props: 'Phone', makeup: 'Natural, hair down', emotional_state: 'Nervous' },
+          carries_out: { costume: 'Unchanged', props: 'Phone, half-finished latte', makeup: 'Unchanged', emotional_state: 'Relaxed, curious' },
+        },
+        {
+          name: 'MIKE',
+          carries_in: { costume: 'Grey sweater, jeans', props: 'Two lattes', makeup: 'Clean-shaven', emotional_state: 'Eager, trying too hard' },
+          carries_out: { costume: 'Unchanged', props: 'Half-finished latte', makeup: 'Unchanged', emotional_state: 'Hopeful' },
+        },
+      ],
+    },
+    scene_complexity: { rating: 2, justification: 'Two-hander dialogue scene at a single practical location.' },
+    estimated_screen_time: { pages: 1.25, estimated_minutes: '1:15 - 1:45', pacing_note: 'The silence before the parrot story should breathe.' },
+    scheduling_notes: {
+      combinable_with: [],
+      must_schedule_before: [],
+      must_schedule_after: [],
+      time_of_day_requirement: 'Daylight through the front windows',
+      weather_dependency: 'None',
+      actor_availability_note: 'Both principals required all day',
+    },
+    sound_design: {
+      production_sound_challenges: ['Espresso machine noise'],
+      ambient_requirements: ['Low cafe chatter'],
+      silence_moments: ['The pause before Mike mentions the parrot'],
+      sound_effects_needed: [],
+      music_notes: 'Possible source music from cafe speakers, cleared in post',
+    },
+    safety_specifics: { concerns: [], protocols_required: [], personnel_needed: [], actor_prep_required: '' },
+    department_specific_notes: {
+      camera: 'Two-camera cross coverage recommended',
+      sound: 'Kill the espresso machine during takes',
+      art: 'Corner table with room for a dolly move',
+      props: 'Matching cups for continuity, sugar packets in quantity',
+    },
+  },
+
+  DIRECTING_SHOTS: {
+    subtext: {
+      what_they_say_vs_want: 'They trade pleasantries; both want to know whether this is worth their hope.',
+      power_dynamic: 'Mike leads early; the balance shifts to Sarah when she talks about her work.',
+      emotional_turn: 'Guarded to open.',
+      revelation_or_realization: 'Sarah realizes Mike is genuinely curious about her.',
+    },
+    conflict: {
+      type: ['internal', 'interpersonal'],
+      what_characters_want: ['SARAH: to not be disappointed again', 'MIKE: to make a good impression'],
+      obstacles: ['Nerves', 'Awkward silence'],
+      tactics: ['Mike: preemptive kindness', 'Sarah: apologizing'],
+      winner: 'Both — the connection lands.',
+    },
+    tone_and_mood: { opening: 'Tense, awkward', shift: 'The shared laugh', closing: 'Warm', energy: 'Low to medium' },
+    visual_strategy: { approach: 'Start wide and separate, end in matched close-ups', camera_personality: 'Patient observer', lighting_mood: 'Soft window light' },
+    visual_metaphor: 'The table between them shrinks as the scene goes on.',
+    editorial_intent: 'Hold the silence longer than is comfortable so the laugh releases it.',
+    key_moments: ['Mike arrives with two cups', 'The silence', 'Sarah laughs'],
+    blocking: { geography: 'Corner table by the window', movement: 'Mike crosses from the door and sits', eyelines: 'Sarah avoids his eyes until the turn' },
+    actor_objectives: { SARAH: 'To protect herself', MIKE: 'To put her at ease' },
+    scene_rhythm: { tempo: 'Slow build', breaths: 'After the latte reveal', acceleration_points: 'Talk of birds', holds: 'On Sarah after she laughs' },
+    what_not_to_do: ['Do not cut away from the silence early'],
+    tone_reference: 'Before Sunrise',
+    creative_questions: ['How much does Sarah already like Mike before the laugh?'],
+    performance_notes: { SARAH: 'Let the laugh surprise her', MIKE: 'Nervous under the confidence' },
+    shot_list: [
+      {
+        shot_number: 1,
+        shot_type: 'WIDE',
+        shot_size: 'WIDE',
+        camera_angle: 'EYE_LEVEL',
+        camera_movement: 'STATIC',
+        lens_mm: 24,
+        rig: 'TRIPOD',
+        setup_id: 'A',
+        subject: 'Sarah alone at the corner table',
+        visual: 'Sarah small in frame, checking her phone',
+        serves_story_element: 'ESTABLISH',
+        rationale: 'Isolates Sarah and sets up her nerves before Mike arrives.',
+        editorial_note: 'Hold long enough to feel her waiting.',
+      },
+      {
+        shot_number: 2,
+        shot_type: 'MEDIUM',
+        shot_size: 'MEDIUM',
+        camera_angle: 'EYE_LEVEL',
+        camera_movement: 'PUSH_IN',
+        lens_mm: 35,
+        rig: 'DOLLY',
+        setup_id: 'B',
+        subject: 'Mike holding out the latte',
+        visual: 'Two cups in Mike\'s hands as he sits',
+        serves_story_element: 'TURN_CATALYST',
+        rationale: 'The latte and the parrot story are what soften Sarah.',
+        editorial_note: 'Cut on the cup landing on the table.',
+      },
+      {
+        shot_number: 3,
+        shot_type: 'CLOSE-UP',
+        shot_size: 'CLOSE_UP',
+        camera_angle: 'EYE_LEVEL',
+        camera_movement: 'STATIC',
+        lens_mm: 85,
+        rig: 'TRIPOD',
+        setup_id: 'C',
+        subject: 'Sarah laughing',
+        visual: 'Sarah\'s face opening up for the first time',
+        serves_story_element: 'TURN_LANDING',
+        rationale: 'The audience needs to see the change register on Sarah.',
+        editorial_note: 'Stay on her through the laugh.',
+      },
+    ],
+    shot_list_rationale: '',
+  },
+}
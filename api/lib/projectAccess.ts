@@ -0,0 +1,44 @@
+// api/lib/projectAccess.ts
+// Role checks for the project endpoints. The roles themselves are defined in
+// src/lib/projectAccess.ts so the client can hide what a role can't do.
+
+import { ObjectId, type Db, type Document } from 'mongodb'
+import { hasProjectRole, projectRole, ROLE_LABELS, type ProjectRole } from '../../src/lib/projectAccess'
+
+type AccessFields = Parameters<typeof projectRole>[0]
+
+/** Add to a findOne projection so the access check has what it needs */
+export const ACCESS_PROJECTION = { userId: 1, collaborators: 1, workspaceId: 1, workspaceMembers: 1 } as const
+
+/** The user's role on a project document as read from the collection */
+export const storedProjectRole = (project: Document, userId: string): ProjectRole | null =>
+  projectRole(project as AccessFields, userId)
+
+/**
+ * Why the user may not act on the project with `required` access, as the
+ * 403 error to send, or null when they may.
+ */
+export function projectAccessError(project: Document, userId: string, required: ProjectRole): string | null {
+  const role = storedProjectRole(project, userId)
+  if (!role) return 'Forbidden'
+  if (hasProjectRole(role, required)) return null
+  return `${ROLE_LABELS[required]} access required (you are a ${ROLE_LABELS[role].toLowerCase()} on this project)`
+}
+
+/**
+ * The same check for a record filed under a project (an analysis batch or
+ * job), made through the project's roles whoever created the record. Records
+ * without a project, or whose project is gone, are only the creator's.
+ */
+export async function projectRecordAccessError(
+  db: Db,
+  record: { projectId?: string; userId?: string },
+  userId: string,
+  required: ProjectRole
+): Promise<string | null> {
+  const project = record.projectId && ObjectId.isValid(record.projectId)
+    ? await db.collection('projects').findOne({ _id: new ObjectId(record.projectId) }, { projection: ACCESS_PROJECTION })
+    : null
+  if (project) return projectAccessError(project, userId, required)
+  return !record.userId || record.userId === userId ? null : 'Forbidden'
+}
@@ -0,0 +1,81 @@
+// api/lib/projectComments.ts
+// Comment threads on projects (collection: project_comments), one document
+// per thread with its comments inline. Anchors, mentions and the inbox are
+// defined in src/lib/projectComments.ts.
+
+import { ObjectId, type Document } from 'mongodb'
+import { logger } from './logger.js'
+import { getClerk } from './requireAuth'
+import { getDb } from './mongodb.js'
+import { findWorkspace } from './workspaces'
+import type { ProjectCollaborator } from '../../src/lib/projectAccess'
+import type { CommentAnchor, CommentMember, CommentThread, ProjectComment, ThreadStatus } from '../../src/lib/projectComments'
+
+export const COMMENTS_COLLECTION = 'project_comments'
+
+export interface CommentThreadDocument {
+  _id?: ObjectId
+  projectId: string
+  sceneNumber: number | null
+  detachedFrom?: number
+  anchor: CommentAnchor
+  status: ThreadStatus
+  comments: Array<Omit<ProjectComment, 'createdAt'> & { createdAt: Date }>
+  createdBy: string
+  createdAt: Date
+  updatedAt: Date
+  resolvedBy?: string
+  resolvedAt?: Date
+  readBy?: Record<string, Date>
+}
+
+export function toThread(doc: CommentThreadDocument): CommentThread {
+  return {
+    id: String(doc._id),
+    projectId: doc.projectId,
+    sceneNumber: doc.sceneNumber,
+    ...(doc.detachedFrom !== undefined ? { detachedFrom: doc.detachedFrom } : {}),
+    anchor: doc.anchor,
+    status: doc.status,
+    comments: doc.comments.map(comment => ({ ...comment, createdAt: comment.createdAt.toISOString() })),
+    createdBy: doc.createdBy,
+    createdAt: doc.createdAt.toISOString(),
+    updatedAt: doc.updatedAt.toISOString(),
+    ...(doc.resolvedBy ? { resolvedBy: doc.resolvedBy } : {}),
+    ...(doc.resolvedAt ? { resolvedAt: doc.resolvedAt.toISOString() } : {}),
+    readBy: Object.fromEntries(Object.entries(doc.readBy || {}).map(([userId, at]) => [userId, at.toISOString()])),
+  }
+}
+
+/**
+ * Everyone who can be mentioned on the project. Collaborators carry the
+ * name and email they were shared under, as do the members of a workspace
+ * that owns it; the owner's come from Clerk, and fall back to "Owner" when
+ * Clerk can't be reached.
+ */
+export async function projectMembers(project: Document): Promise<CommentMember[]> {
+  const collaborators: ProjectCollaborator[] = project.collaborators || []
+  const members: CommentMember[] = collaborators.map(({ userId, name, email }) => ({ userId, name: name || email, email }))
+  if (project.workspaceId) {
+    const workspace = await findWorkspace(await getDb(), project.workspaceId)
+    const shared = new Set(members.map(member => member.userId))
+    const team = (workspace?.members || [])
+      .filter(member => !shared.has(member.userId))
+      .map(({ userId, name, email }) => ({ userId, name: name || email || 'Member', ...(email ? { email } : {}) }))
+    return [...team, ...members]
+  }
+  if (!project.userId) return members
+
+  let owner: CommentMember = { userId: project.userId, name: 'Owner' }
+  const { clerk } = getClerk()
+  if (clerk) {
+    try {
+      const user = await clerk.users.getUser(project.userId)
+      const email = user.primaryEmailAddress?.emailAddress
+      owner = { userId: user.id, name: user.fullName || email || 'Owner', ...(email ? { email } : {}) }
+    } catch (error) {
+      logger.warn('project-comments', `Owner lookup failed for ${project.userId}:`, error)
+    }
+  }
+  return [owner, ...members]
+}
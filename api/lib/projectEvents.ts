@@ -0,0 +1,34 @@
+// api/lib/projectEvents.ts
+// In-process pub/sub for saved project changes, feeding the collaboration
+// socket (api/lib/collaboration.ts). Write endpoints publish after their
+// write lands; listeners only learn that something changed and refetch.
+
+import { EventEmitter } from 'events'
+import type { ProjectChange, ProjectChangeKind } from '../../src/types/collaboration'
+
+const bus = new EventEmitter()
+// One listener per project with someone connected
+bus.setMaxListeners(0)
+
+export function publishProjectChange(
+  projectId: string,
+  kind: ProjectChangeKind,
+  by: string | null,
+  sceneNumbers?: number[]
+): void {
+  const change: ProjectChange = {
+    kind,
+    ...(sceneNumbers && sceneNumbers.length > 0 ? { sceneNumbers } : {}),
+    by,
+    at: new Date().toISOString(),
+  }
+  bus.emit(projectId, change)
+}
+
+/** Returns the unsubscribe function */
+export function subscribeProjectChanges(projectId: string, listener: (change: ProjectChange) => void): () => void {
+  bus.on(projectId, listener)
+  return () => {
+    bus.off(projectId, listener)
+  }
+}
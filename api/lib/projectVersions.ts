@@ -0,0 +1,139 @@
+// api/lib/projectVersions.ts
+// Compare-and-set writes for the version counters described in
+// src/lib/projectVersions.ts. A write only lands while the counters it was
+// based on are unchanged, and bumps them in the same update, so two saves
+// racing on the same scene or section can't both succeed.
+
+import type { VercelResponse } from '@vercel/node'
+import type { Collection, Document, ObjectId, UpdateFilter } from 'mongodb'
+import {
+  describeConflict,
+  sceneVersion,
+  sectionVersion,
+  type ProjectSection,
+  type SectionVersions,
+  type VersionConflict,
+} from '../../src/lib/projectVersions'
+
+/** Matches a counter still at `expected`; a counter never written reads as 0 */
+const versionIs = (path: string, expected: number) => ({ [path]: expected === 0 ? { $in: [0, null] } : expected })
+
+export function sendConflict(res: VercelResponse, conflicts: VersionConflict[]) {
+  const message = conflicts.length === 1
+    ? describeConflict(conflicts[0])
+    : `${conflicts.length} of the scenes you changed were changed by someone else since you loaded them`
+  return res.status(409).json({ error: 'Conflict', message, conflicts })
+}
+
+/**
+ * Apply `update` to the project if the section is still at `baseVersion`,
+ * bumping the section's counter. Without a base version (older clients,
+ * scripts) the write isn't checked but still bumps. Returns the section's
+ * new version, the conflict, or null when the project is gone.
+ */
+export async function writeSection(
+  collection: Collection,
+  projectId: ObjectId,
+  section: ProjectSection,
+  baseVersion: number | undefined,
+  update: UpdateFilter<Document>
+): Promise<{ version: number } | { conflict: VersionConflict } | null> {
+  const path = `versions.${section}`
+  const written = await collection.findOneAndUpdate(
+    { _id: projectId, ...(baseVersion === undefined ? {} : versionIs(path, baseVersion)) },
+    { ...update, $inc: { ...(update.$inc || {}), [path]: 1 } },
+    { returnDocument: 'after', projection: { versions: 1 } }
+  )
+  if (written) return { version: sectionVersion(written.versions, section) }
+
+  const current = await collection.findOne({ _id: projectId }, { projection: { versions: 1 } })
+  if (!current) return null
+  return { conflict: { scope: 'section', section, version: sectionVersion(current.versions as SectionVersions, section) } }
+}
+
+export interface SceneWrite {
+  /** Position in the project's scenes array when it was read */
+  index: number
+  sceneNumber: number
+  /** The version the change was based on; undefined skips the check */
+  baseVersion?: number
+  /** Fields to set on the scene */
+  fields: Record<string, unknown>
+}
+
+interface StoredSceneVersion {
+  number?: number
+  scene_number?: number
+  version?: number
+}
+
+const numberOf = (scene: StoredSceneVersion, index: number) => Number(scene.number || scene.scene_number || index + 1)
+
+/**
+ * A filter matching the project only while its scenes array is exactly as
+ * read: same length, every scene at the version it had. For writes that
+ * rebuild the whole array, where any concurrent scene save must fail them.
+ */
+export function scenesUnchanged(scenes: StoredSceneVersion[]): Record<string, unknown> {
+  if (scenes.length === 0) return { $or: [{ scenes: { $exists: false } }, { scenes: { $size: 0 } }] }
+  return {
+    scenes: { $size: scenes.length },
+    $and: scenes.map((scene, index) => versionIs(`scenes.${index}.version`, sceneVersion(scene))),
+  }
+}
+
+/**
+ * Write fields into individual scenes in one update, touching nothing else
+ * in the scenes array. Each scene must still sit at the index it was read
+ * from and, where a base version was given, still be at that version; every
+ * written scene's version is bumped. `extra` is merged into the update for
+ * project-level fields that go with the scenes (updatedAt, frames).
+ */
+export async function writeScenes(
+  collection: Collection,
+  projectId: ObjectId,
+  writes: SceneWrite[],
+  extra: { $set?: Record<string, unknown> } = {}
+): Promise<{ versions: Record<number, number> } | { conflicts: VersionConflict[] } | null> {
+  if (writes.length === 0) return { versions: {} }
+  const guards: Record<string, unknown>[] = []
+  const set: Record<string, unknown> = { ...(extra.$set || {}) }
+  const inc: Record<string, number> = {}
+  for (const write of writes) {
+    const prefix = `scenes.${write.index}`
+    // Scenes from the earliest projects carry no number field
+    guards.push({ $or: [{ [`${prefix}.number`]: write.sceneNumber }, { [`${prefix}.number`]: { $exists: false } }] })
+    if (write.baseVersion !== undefined) guards.push(versionIs(`${prefix}.version`, write.baseVersion))
+    for (const [field, value] of Object.entries(write.fields)) set[`${prefix}.${field}`] = value
+    inc[`${prefix}.version`] = 1
+  }
+
+  const written = await collection.findOneAndUpdate(
+    { _id: projectId, ...(guards.length > 0 ? { $and: guards } : {}) },
+    { $set: set, $inc: inc },
+    { returnDocument: 'after', projection: { scenes: { number: 1, scene_number: 1, version: 1 } } }
+  )
+  const scenes: StoredSceneVersion[] = (written || await collection.findOne(
+    { _id: projectId },
+    { projection: { scenes: { number: 1, scene_number: 1, version: 1 } } }
+  ))?.scenes || []
+  if (!written && scenes.length === 0) return null
+
+  const versionOf = (sceneNumber: number) => {
+    const index = scenes.findIndex((scene, i) => numberOf(scene, i) === sceneNumber)
+    return index < 0 ? 0 : sceneVersion(scenes[index])
+  }
+  if (written) {
+    return { versions: Object.fromEntries(writes.map(write => [write.sceneNumber, versionOf(write.sceneNumber)])) }
+  }
+  // Report the scenes that moved on; a scene that shifted position counts too
+  const moved = writes.filter(write => {
+    const scene = scenes[write.index]
+    return !scene || numberOf(scene, write.index) !== write.sceneNumber ||
+      (write.baseVersion !== undefined && sceneVersion(scene) !== write.baseVersion)
+  })
+  return {
+    conflicts: (moved.length > 0 ? moved : writes)
+      .map(write => ({ scope: 'scene', sceneNumber: write.sceneNumber, version: versionOf(write.sceneNumber) }))
+  }
+}
@@ -18,7 +18,7 @@ declare global {
 let cachedClerk: ReturnType<typeof createClerkClient> | null = null
 let cachedKey: string | undefined
 
-function getClerk() {
+export function getClerk() {
   const key = process.env.CLERK_SECRET_KEY
   if (!key) return { key: undefined, clerk: null }
   if (key !== cachedKey) {
@@ -28,6 +28,22 @@ function getClerk() {
   return { key, clerk: cachedClerk }
 }
 
+/**
+ * The user a Clerk session token belongs to, or null when it doesn't verify.
+ * Shared with the collaboration socket, which can't send an Authorization header.
+ */
+export async function verifySessionToken(token: string): Promise<string | null> {
+  const { key } = getClerk()
+  if (!key || !token) return null
+  try {
+    const payload = await verifyToken(token, { secretKey: key })
+    return payload.sub || null
+  } catch (err) {
+    logger.warn('requireAuth', 'Token verification failed:', err instanceof Error ? err.message : err)
+    return null
+  }
+}
+
 export async function requireAuth(req: Request, res: Response, next: NextFunction) {
   const { key, clerk } = getClerk()
   if (!key || !clerk) {
@@ -50,16 +66,10 @@ export async function requireAuth(req: Request, res: Response, next: NextFunctio
     return res.status(401).json({ error: 'Authentication required' })
   }
 
-  try {
-    const payload = await verifyToken(token, { secretKey: key })
-    const userId = payload.sub
-    if (!userId) {
-      return res.status(401).json({ error: 'Authentication required' })
-    }
-    req.auth = { userId }
-    return next()
-  } catch (err) {
-    logger.warn('requireAuth', 'Token verification failed:', err instanceof Error ? err.message : err)
+  const userId = await verifySessionToken(token)
+  if (!userId) {
     return res.status(401).json({ error: 'Authentication required' })
   }
+  req.auth = { userId }
+  return next()
 }
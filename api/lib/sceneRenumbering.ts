@@ -0,0 +1,39 @@
+// api/lib/sceneRenumbering.ts
+// Moves documents filed under a scene number (analysis revisions, comment
+// threads) to the scene's new number after a script revision.
+
+import type { Collection } from 'mongodb'
+import { logger } from './logger.js'
+
+/**
+ * Follow scenes through a script revision: documents move with a renumbered
+ * scene, and an omitted scene's documents are detached (sceneNumber null,
+ * detachedFrom the old number) but kept, so a new scene reusing its number
+ * starts clean. Two passes via a temporary negative number avoid collisions
+ * when scenes swap numbers. Failures are logged and reported as false rather
+ * than thrown: the revision has already been saved.
+ */
+export async function renumberSceneDocuments(
+  collection: Collection,
+  projectId: string,
+  mapping: Map<number, number | null>
+): Promise<boolean> {
+  const changes = Array.from(mapping.entries()).filter(([from, to]) => from !== to)
+  if (changes.length === 0) return true
+
+  try {
+    for (const [from] of changes) {
+      await collection.updateMany({ projectId, sceneNumber: from }, { $set: { sceneNumber: -from } })
+    }
+    for (const [from, to] of changes) {
+      await collection.updateMany(
+        { projectId, sceneNumber: -from },
+        to === null ? { $set: { sceneNumber: null, detachedFrom: from } } : { $set: { sceneNumber: to } }
+      )
+    }
+    return true
+  } catch (error) {
+    logger.error('scene-renumbering', `Failed to renumber ${collection.collectionName} for project ${projectId}:`, error)
+    return false
+  }
+}
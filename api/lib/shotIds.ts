@@ -0,0 +1,142 @@
+// api/lib/shotIds.ts
+// Stamps shot IDs into a scene analysis on its way into the project document.
+// Every path that writes an analysis goes through stampSceneAnalysis so the
+// IDs are assigned in one place (see src/lib/shotIds.ts for the rules).
+
+import type { Collection, Document, ObjectId, WithId } from 'mongodb';
+import { logger } from './logger.js';
+import { assignShotIds } from '../../src/lib/shotIds';
+import { rekeyPositionalFrames, StoryboardFrame } from '../../src/lib/storyboardFrames';
+
+export interface StampedAnalysis {
+  /** The analysis as stored on the scene (JSON string), shots carrying IDs */
+  analysis: string;
+  /** The project's frames with this scene's positional ones re-filed by ID; null if unchanged. Persist with writeRekeyedFrames */
+  frames: StoryboardFrame[] | null;
+}
+
+function parse(analysis: unknown): Record<string, unknown> | null {
+  if (!analysis) return null;
+  if (typeof analysis === 'object') return analysis as Record<string, unknown>;
+  if (typeof analysis !== 'string') return null;
+  try {
+    const parsed = JSON.parse(analysis);
+    return parsed && typeof parsed === 'object' ? parsed : null;
+  } catch {
+    return null;
+  }
+}
+
+const shotListOf = (analysis: Record<string, unknown> | null): unknown[] =>
+  Array.isArray(analysis?.shot_list) ? analysis.shot_list : [];
+
+/**
+ * The incoming analysis with IDs on its shots, matched against what the
+ * scene held before. Shots the previous analysis stored without IDs (saved
+ * before IDs existed) get them first, and any frames attached to those
+ * shots by position follow them to their new IDs.
+ */
+export function stampSceneAnalysis(
+  next: unknown,
+  previous: unknown,
+  sceneNumber: number,
+  frames?: StoryboardFrame[]
+): StampedAnalysis {
+  const previousShots = assignShotIds(shotListOf(parse(previous)));
+  const rekeyed = rekeyPositionalFrames(frames, sceneNumber, previousShots);
+
+  const analysis = parse(next);
+  if (!analysis || !Array.isArray(analysis.shot_list)) {
+    return { analysis: typeof next === 'string' ? next : JSON.stringify(next), frames: rekeyed };
+  }
+  return {
+    analysis: JSON.stringify({ ...analysis, shot_list: assignShotIds(analysis.shot_list, previousShots) }),
+    frames: rekeyed,
+  };
+}
+
+/**
+ * Give a stored analysis's shots IDs without changing anything else, for
+ * scenes saved before shots had them. Null when every shot already has one.
+ */
+export function backfillShotIds(
+  analysis: unknown,
+  sceneNumber: number,
+  frames?: StoryboardFrame[]
+): StampedAnalysis | null {
+  const parsed = parse(analysis);
+  const shots = shotListOf(parsed);
+  const stamped = assignShotIds(shots);
+  if (!parsed || stamped.every((shot, index) => shot === shots[index])) return null;
+  return {
+    analysis: JSON.stringify({ ...parsed, shot_list: stamped }),
+    frames: rekeyPositionalFrames(frames, sceneNumber, stamped),
+  };
+}
+
+/**
+ * Persist the frames a stamp re-filed. Only the frames whose key changed are
+ * written, each only if it is still filed where it was read, so frames
+ * attached, replaced or removed while the analysis was being produced are
+ * left as they are.
+ */
+export async function writeRekeyedFrames(
+  collection: Collection,
+  projectId: ObjectId,
+  before: StoryboardFrame[] | undefined,
+  after: StoryboardFrame[] | null | undefined
+): Promise<void> {
+  if (!after) return;
+  const keys = new Map((before || []).map(frame => [frame.id, frame.shotKey]));
+  const moved = after.filter(frame => keys.has(frame.id) && keys.get(frame.id) !== frame.shotKey);
+  if (moved.length === 0) return;
+
+  const set: Record<string, string> = {};
+  const arrayFilters = moved.map((frame, index) => {
+    set[`storyboardFrames.$[f${index}].shotKey`] = frame.shotKey;
+    return { [`f${index}.id`]: frame.id, [`f${index}.shotKey`]: keys.get(frame.id) };
+  });
+  await collection.updateOne({ _id: projectId }, { $set: set }, { arrayFilters });
+}
+
+/**
+ * Backfill IDs on every scene of a loaded project that still lacks them and
+ * persist the result, updating `project` in place. Each scene is written
+ * only if its analysis is still the one that was read, so a save or batch
+ * result landing in between wins and is stamped on its own write.
+ */
+export async function backfillProjectShotIds(collection: Collection, project: WithId<Document>): Promise<void> {
+  const scenes: Array<{ number?: number; scene_number?: number; analysis?: unknown }> = project.scenes || [];
+  const storedFrames: StoryboardFrame[] | undefined = project.storyboardFrames;
+  let frames = storedFrames;
+  let framesChanged = false;
+  let stampedScenes = 0;
+
+  for (let index = 0; index < scenes.length; index++) {
+    const scene = scenes[index];
+    if (typeof scene.analysis !== 'string') continue;
+    const sceneNumber = Number(scene.number || scene.scene_number || index + 1);
+    const stamped = backfillShotIds(scene.analysis, sceneNumber, frames);
+    if (!stamped) continue;
+
+    const result = await collection.updateOne(
+      { _id: project._id, [`scenes.${index}.analysis`]: scene.analysis },
+      { $set: { [`scenes.${index}.analysis`]: stamped.analysis } }
+    );
+    if (result.modifiedCount === 0) continue;
+    scene.analysis = stamped.analysis;
+    stampedScenes++;
+    if (stamped.frames) {
+      frames = stamped.frames;
+      framesChanged = true;
+    }
+  }
+
+  if (framesChanged) {
+    await writeRekeyedFrames(collection, project._id, storedFrames, frames);
+    project.storyboardFrames = frames;
+  }
+  if (stampedScenes > 0) {
+    logger.log('shotIds', `Assigned shot IDs in ${stampedScenes} scene(s) of project ${project._id}`);
+  }
+}
@@ -0,0 +1,57 @@
+// api/lib/storyboardFrames.ts
+// Server-side helpers for storyboard frames kept in asset storage
+
+import { getAssetStorage } from './assetStorage';
+import { logger } from './logger.js';
+import type { StoryboardFrame } from '../../src/lib/storyboardFrames';
+
+/** Where a project's frames are stored; keys outside it belong to someone else */
+export const frameKeyPrefix = (projectId: string): string => `projects/${projectId}/frames/`;
+
+/** Whether both of the frame's files are the project's own */
+const isProjectFrame = (frame: StoryboardFrame, projectId: string): boolean =>
+  frame.storageKey.startsWith(frameKeyPrefix(projectId)) && frame.thumbnailKey.startsWith(frameKeyPrefix(projectId));
+
+/** The frame with fresh read URLs for the image and its thumbnail */
+export async function withFrameUrls(frame: StoryboardFrame, projectId: string): Promise<StoryboardFrame> {
+  if (!isProjectFrame(frame, projectId)) throw new Error(`Frame ${frame.id} is not stored under project ${projectId}`);
+  const storage = getAssetStorage();
+  const [url, thumbnailUrl] = await Promise.all([storage.url(frame.storageKey), storage.url(frame.thumbnailKey)]);
+  return { ...frame, url, thumbnailUrl };
+}
+
+/** Frames as stored on a project, ready to send to the client. Frames pointing outside the project are left out */
+export async function framesForClient(frames: StoryboardFrame[] | undefined, projectId: string): Promise<StoryboardFrame[]> {
+  const own = (frames || []).filter(frame => isProjectFrame(frame, projectId));
+  if (own.length < (frames || []).length) {
+    logger.warn('storyboardFrames', `Project ${projectId} has ${(frames || []).length - own.length} frame(s) stored outside it`);
+  }
+  return Promise.all(own.map(frame => withFrameUrls(frame, projectId)));
+}
+
+/**
+ * Remove frames' files from storage. Failures are logged, not thrown: by the
+ * time this runs the project no longer references the files. Files outside
+ * the project's own folder are never touched.
+ */
+export async function deleteFrameAssets(frames: StoryboardFrame[], projectId: string): Promise<void> {
+  let storage: ReturnType<typeof getAssetStorage>;
+  try {
+    storage = getAssetStorage();
+  } catch (error) {
+    logger.warn('storyboardFrames', `Could not delete ${frames.length} frame(s):`, error instanceof Error ? error.message : error);
+    return;
+  }
+  const keys = frames.flatMap(frame => [frame.storageKey, frame.thumbnailKey]);
+  const own = keys.filter(key => key.startsWith(frameKeyPrefix(projectId)));
+  if (own.length < keys.length) {
+    logger.warn('storyboardFrames', `Skipped ${keys.length - own.length} file(s) stored outside project ${projectId}`);
+  }
+  await Promise.all(own.map(async key => {
+    try {
+      await storage.delete(key);
+    } catch (error) {
+      logger.warn('storyboardFrames', `Could not delete ${key}:`, error instanceof Error ? error.message : error);
+    }
+  }));
+}
@@ -0,0 +1,311 @@
+// api/lib/workspaces.ts
+// Workspaces (collection: workspaces) and their credit ledger (collection:
+// workspace_ledger). A workspace's balance is spent by its members on the
+// projects it owns, in place of their own credits (see credits.ts). Roles and
+// limits are defined in src/lib/workspaces.ts.
+
+import { Db, MongoServerError, ObjectId, type Collection, type Filter } from 'mongodb'
+import { getDb } from './mongodb.js'
+import { logger } from './logger.js'
+import { publishProjectChange } from './projectEvents'
+import {
+  spendingPeriod,
+  type LedgerEntryKind,
+  type Workspace,
+  type WorkspaceLedgerEntry,
+  type WorkspaceMember,
+  type WorkspaceProjectMember,
+} from '../../src/lib/workspaces'
+
+export const WORKSPACES_COLLECTION = 'workspaces'
+export const LEDGER_COLLECTION = 'workspace_ledger'
+
+export interface WorkspaceDocument {
+  _id?: ObjectId
+  name: string
+  ownerId: string
+  members: WorkspaceMember[]
+  credits: number
+  /** Credits spent per member, by period (YYYY-MM) then userId */
+  spend?: Record<string, Record<string, number>>
+  createdAt: Date
+  updatedAt: Date
+}
+
+export interface LedgerDocument {
+  _id?: ObjectId
+  workspaceId: string
+  userId: string
+  kind: LedgerEntryKind
+  credits: number
+  balance: number
+  projectId?: string
+  sceneId?: string
+  reason?: string
+  amount?: number
+  stripePaymentIntent?: string
+  createdAt: Date
+}
+
+export function toWorkspace(doc: WorkspaceDocument, userId: string): Workspace {
+  const period = spendingPeriod()
+  return {
+    id: String(doc._id),
+    name: doc.name,
+    ownerId: doc.ownerId,
+    credits: doc.credits,
+    members: doc.members,
+    role: doc.members.find(member => member.userId === userId)?.role || 'member',
+    spent: doc.spend?.[period] || {},
+    period,
+    createdAt: doc.createdAt.toISOString(),
+  }
+}
+
+export function toLedgerEntry(doc: LedgerDocument): WorkspaceLedgerEntry {
+  return {
+    id: String(doc._id),
+    workspaceId: doc.workspaceId,
+    userId: doc.userId,
+    kind: doc.kind,
+    credits: doc.credits,
+    balance: doc.balance,
+    ...(doc.projectId ? { projectId: doc.projectId } : {}),
+    ...(doc.reason ? { reason: doc.reason } : {}),
+    ...(doc.amount !== undefined ? { amount: doc.amount } : {}),
+    createdAt: doc.createdAt.toISOString(),
+  }
+}
+
+/** The member list as stored on each of the workspace's projects */
+export const projectMembersOf = (members: WorkspaceMember[]): WorkspaceProjectMember[] =>
+  members.map(({ userId, role }) => ({ userId, role }))
+
+export async function findWorkspace(db: Db, workspaceId: string): Promise<WorkspaceDocument | null> {
+  if (!ObjectId.isValid(workspaceId)) return null
+  return db.collection<WorkspaceDocument>(WORKSPACES_COLLECTION).findOne({ _id: new ObjectId(workspaceId) })
+}
+
+/**
+ * Copy the member list onto every project the workspace owns, where the
+ * project access check reads it, and tell anyone in those projects that
+ * access changed.
+ */
+export async function syncWorkspaceProjects(db: Db, workspaceId: string, members: WorkspaceMember[]): Promise<void> {
+  const projects = db.collection('projects')
+  const owned = await projects.find({ workspaceId }, { projection: { _id: 1 } }).toArray()
+  if (owned.length === 0) return
+  await projects.updateMany({ workspaceId }, { $set: { workspaceMembers: projectMembersOf(members) } })
+  owned.forEach(project => publishProjectChange(String(project._id), 'sharing', null))
+}
+
+export type CreditShortfall = 'membership' | 'balance' | 'limit'
+
+/**
+ * Why the member can't spend `required` of the workspace's credits, or null
+ * when they can.
+ */
+export async function workspaceCreditShortfall(
+  workspaceId: string,
+  userId: string,
+  required: number
+): Promise<CreditShortfall | null> {
+  const db = await getDb()
+  const workspace = await findWorkspace(db, workspaceId)
+  const member = workspace?.members.find(m => m.userId === userId)
+  if (!workspace || !member) return 'membership'
+  if (workspace.credits < required) return 'balance'
+  if (member.monthlyLimit !== null) {
+    const spent = workspace.spend?.[spendingPeriod()]?.[userId] || 0
+    if (spent + required > member.monthlyLimit) return 'limit'
+  }
+  return null
+}
+
+/** The 402 message for a shortfall, worded for the member who hit it */
+export async function workspaceShortfallMessage(workspaceId: string, userId: string, required: number): Promise<string> {
+  const db = await getDb()
+  const workspace = await findWorkspace(db, workspaceId)
+  const member = workspace?.members.find(m => m.userId === userId)
+  if (!workspace || !member) {
+    return 'This project belongs to a workspace you are not a member of, so you can\'t spend its credits.'
+  }
+  if (member.monthlyLimit !== null) {
+    const spent = workspace.spend?.[spendingPeriod()]?.[userId] || 0
+    if (spent + required > member.monthlyLimit) {
+      return `This needs ${required} credit(s), which would take you past your monthly limit of ${member.monthlyLimit} in ${workspace.name} (${spent} used). Ask a workspace admin to raise it.`
+    }
+  }
+  return `${workspace.name} has ${workspace.credits} credit(s) left and this needs ${required}. Ask a workspace admin to buy more.`
+}
+
+async function writeLedger(entry: Omit<LedgerDocument, '_id' | 'createdAt'>): Promise<void> {
+  try {
+    const db = await getDb()
+    await db.collection<LedgerDocument>(LEDGER_COLLECTION).insertOne({ ...entry, createdAt: new Date() })
+  } catch (error) {
+    // The balance has already moved; a missing line is better than a failed analysis
+    logger.error('workspaces', `Failed to write ledger entry for workspace ${entry.workspaceId}:`, error)
+  }
+}
+
+/**
+ * Spend the workspace's credits on a member's analysis. The balance and the
+ * member's monthly limit are checked in the same update that takes the
+ * credits, so simultaneous analyses can't overdraw either.
+ */
+export async function deductWorkspaceCredits(
+  workspaceId: string,
+  userId: string,
+  credits: number,
+  sceneId?: string,
+  projectId?: string
+): Promise<number> {
+  const db = await getDb()
+  const workspaces = db.collection<WorkspaceDocument>(WORKSPACES_COLLECTION)
+  const workspace = await findWorkspace(db, workspaceId)
+  const member = workspace?.members.find(m => m.userId === userId)
+  if (!workspace || !member) {
+    throw new Error('Not a member of this workspace')
+  }
+
+  const spendKey = `spend.${spendingPeriod()}.${userId}`
+  const filter: Filter<WorkspaceDocument> = {
+    _id: workspace._id,
+    credits: { $gte: credits },
+    // The limit read above must still be the member's limit
+    members: { $elemMatch: { userId, monthlyLimit: member.monthlyLimit } },
+  }
+  if (member.monthlyLimit !== null) {
+    if (credits > member.monthlyLimit) throw new Error('Monthly spending limit reached')
+    filter.$or = [{ [spendKey]: { $exists: false } }, { [spendKey]: { $lte: member.monthlyLimit - credits } }]
+  }
+
+  const result = await workspaces.findOneAndUpdate(
+    filter,
+    { $inc: { credits: -credits, [spendKey]: credits }, $set: { updatedAt: new Date() } },
+    { returnDocument: 'after' }
+  )
+  if (!result) {
+    const shortfall = await workspaceCreditShortfall(workspaceId, userId, credits)
+    throw new Error(shortfall === 'limit' ? 'Monthly spending limit reached' : 'Insufficient workspace credits')
+  }
+
+  await writeLedger({
+    workspaceId,
+    userId,
+    kind: 'usage',
+    credits: -credits,
+    balance: result.credits,
+    ...(projectId ? { projectId } : {}),
+    ...(sceneId ? { sceneId } : {}),
+  })
+  logger.log('workspaces', `Deducted ${credits} from workspace ${workspaceId} for ${userId}. New balance: ${result.credits}`)
+  return result.credits
+}
+
+/**
+ * Hand back credits a member's analysis didn't use. They come off this
+ * period's spend too, unless the period has turned since.
+ */
+export async function refundWorkspaceCredits(
+  workspaceId: string,
+  userId: string,
+  credits: number,
+  reason: string
+): Promise<void> {
+  const db = await getDb()
+  const workspaces = db.collection<WorkspaceDocument>(WORKSPACES_COLLECTION)
+  if (!ObjectId.isValid(workspaceId)) throw new Error('Workspace not found')
+  const _id = new ObjectId(workspaceId)
+
+  const result = await workspaces.findOneAndUpdate(
+    { _id },
+    { $inc: { credits }, $set: { updatedAt: new Date() } },
+    { returnDocument: 'after' }
+  )
+  if (!result) throw new Error('Workspace not found')
+
+  const spendKey = `spend.${spendingPeriod()}.${userId}`
+  await workspaces.updateOne({ _id, [spendKey]: { $gte: credits } }, { $inc: { [spendKey]: -credits } })
+
+  await writeLedger({
+    workspaceId,
+    userId,
+    kind: 'refund',
+    credits,
+    balance: result.credits,
+    reason: `Auto-refund: ${reason}`,
+  })
+  logger.log('workspaces', `Refunded ${credits} credit(s) to workspace ${workspaceId} for ${userId}: ${reason}`)
+}
+
+// A payment is credited once: its ledger line is written before the balance
+// moves, and the index turns a second delivery of it into a duplicate key
+let paymentIndex: Promise<string> | null = null
+
+function ensurePaymentIndex(ledger: Collection<LedgerDocument>): Promise<string> {
+  if (!paymentIndex) {
+    paymentIndex = ledger.createIndex(
+      { workspaceId: 1, stripePaymentIntent: 1 },
+      { name: 'one_entry_per_payment', unique: true, partialFilterExpression: { stripePaymentIntent: { $type: 'string' } } }
+    ).catch(error => {
+      paymentIndex = null
+      throw error
+    })
+  }
+  return paymentIndex
+}
+
+/**
+ * Add purchased credits to the workspace. Stripe can deliver the same
+ * payment more than once, even at the same time; a payment already in the
+ * ledger is not added again.
+ */
+export async function addWorkspaceCredits(
+  workspaceId: string,
+  userId: string,
+  amount: number,
+  credits: number,
+  stripePaymentIntent?: string
+): Promise<number> {
+  const db = await getDb()
+  const workspaces = db.collection<WorkspaceDocument>(WORKSPACES_COLLECTION)
+  if (!ObjectId.isValid(workspaceId)) throw new Error('Workspace not found')
+
+  // Claim the payment first, so a concurrent delivery of it stops here; the
+  // balance is filled in once the credits have landed
+  const ledger = db.collection<LedgerDocument>(LEDGER_COLLECTION)
+  await ensurePaymentIndex(ledger)
+  let entryId: ObjectId
+  try {
+    entryId = (await ledger.insertOne({
+      workspaceId,
+      userId,
+      kind: 'purchase',
+      credits,
+      balance: 0,
+      amount,
+      ...(stripePaymentIntent ? { stripePaymentIntent } : {}),
+      createdAt: new Date(),
+    })).insertedId
+  } catch (error) {
+    if (!(error instanceof MongoServerError && error.code === 11000)) throw error
+    logger.warn('workspaces', `Payment ${stripePaymentIntent} already credited to workspace ${workspaceId}`)
+    const workspace = await findWorkspace(db, workspaceId)
+    return workspace?.credits ?? 0
+  }
+
+  const result = await workspaces.findOneAndUpdate(
+    { _id: new ObjectId(workspaceId) },
+    { $inc: { credits }, $set: { updatedAt: new Date() } },
+    { returnDocument: 'after' }
+  )
+  if (!result) {
+    await ledger.deleteOne({ _id: entryId })
+    throw new Error('Workspace not found')
+  }
+  await ledger.updateOne({ _id: entryId }, { $set: { balance: result.credits } })
+  logger.log('workspaces', `Added ${credits} credits to workspace ${workspaceId}. New balance: ${result.credits}`)
+  return result.credits
+}
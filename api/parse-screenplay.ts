@@ -1,13 +1,28 @@
 import type { VercelRequest, VercelResponse } from '@vercel/node'
 import { XMLParser } from 'fast-xml-parser'
 import { logger } from "./lib/logger";
+import { tokenizeFountain, splitFountainScenes, renderFountainElements } from '../src/lib/fountainParser'
 
 const MAX_FILE_SIZE = 10 * 1024 * 1024
 
 interface ParseRequest {
   fileData: string
   fileName: string
-  fileType: 'txt' | 'pdf' | 'fdx'
+  fileType: 'txt' | 'pdf' | 'fdx' | 'fountain'
+}
+
+interface FountainParseResult {
+  screenplayText: string
+  title: string | null
+  titlePage: Record<string, string>
+  scenes: Array<{
+    number: number
+    header: string
+    text: string
+    sceneLabel?: string
+  }>
+  /** Locked scene numbers left behind as OMITTED headings */
+  omitted: string[]
 }
 
 async function parsePDF(buffer: Buffer): Promise<string> {
@@ -241,7 +256,9 @@ async function parseFDX(buffer: Buffer): Promise<string> {
         sceneHeadingCount++
         logger.log("parse-screenplay", '[FDX] Scene:', text);
         lines.push('')
-        lines.push(text.toUpperCase())
+        // Locked scripts carry the production scene number as an attribute;
+        // keep it on the slugline so the scene splitter can read it back
+        lines.push(para['@_Number'] ? `${para['@_Number']} ${text.toUpperCase()}` : text.toUpperCase())
         lines.push('')
         break
       case 'Action':
@@ -275,6 +292,58 @@ async function parseFDX(buffer: Buffer): Promise<string> {
   return result
 }
 
+function parseFountain(buffer: Buffer): FountainParseResult {
+  const text = buffer.toString('utf-8')
+
+  let doc
+  try {
+    doc = tokenizeFountain(text)
+  } catch (tokenizeError) {
+    logger.error("parse-screenplay", '[Fountain] Tokenize error:', tokenizeError)
+    throw new Error(`FOUNTAIN_ERROR: Failed to read Fountain markup - ${tokenizeError instanceof Error ? tokenizeError.message : 'Unknown error'}`)
+  }
+
+  const fountainScenes = splitFountainScenes(doc)
+  if (fountainScenes.length === 0) {
+    throw new Error('FOUNTAIN_ERROR: No scene headings found. Scene headings must start with INT, EXT, EST, INT./EXT or I/E, or be forced with a leading period (.FLASHBACK).')
+  }
+
+  const scenes: FountainParseResult['scenes'] = []
+  const omitted: string[] = []
+  for (const scene of fountainScenes) {
+    const body = renderFountainElements(scene.elements)
+    if (/\bOMITTED\b/i.test(scene.heading) && scene.sceneNumber) {
+      omitted.push(scene.sceneNumber)
+      continue
+    }
+    if (body.length < 10) {
+      logger.warn("parse-screenplay", `[Fountain] Skipping empty scene: ${scene.heading}`)
+      continue
+    }
+    scenes.push({
+      number: scenes.length + 1,
+      header: scene.heading,
+      text: `${scene.heading}\n\n${body}`,
+      sceneLabel: scene.sceneNumber
+    })
+  }
+
+  if (scenes.length === 0) {
+    throw new Error(`FOUNTAIN_ERROR: Found ${fountainScenes.length} scene headings but no scenes with content.`)
+  }
+
+  const dualCount = doc.elements.filter(e => e.type === 'character' && e.dual).length
+  logger.log("parse-screenplay", `[Fountain] Success: ${scenes.length} scenes, ${doc.elements.length} elements, ${dualCount} dual-dialogue cues, title page keys: ${Object.keys(doc.titlePage).join(', ') || 'none'}`)
+
+  return {
+    screenplayText: scenes.map(s => s.text).join('\n\n'),
+    title: doc.titlePage.title ? doc.titlePage.title.split('\n')[0] : null,
+    titlePage: doc.titlePage,
+    scenes,
+    omitted
+  }
+}
+
 function parseTXT(buffer: Buffer): string {
   let text = ''
   try {
@@ -326,11 +395,11 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       })
     }
 
-    if (!fileType || !['txt', 'pdf', 'fdx'].includes(fileType)) {
+    if (!fileType || !['txt', 'pdf', 'fdx', 'fountain'].includes(fileType)) {
       return res.status(400).json({
         error: 'INVALID_FILE_TYPE',
-        message: 'fileType must be one of: txt, pdf, fdx',
-        userMessage: `Unsupported file type${fileType ? `: ${fileType}` : ''}. Please upload a .txt, .pdf, or .fdx file.`
+        message: 'fileType must be one of: txt, pdf, fdx, fountain',
+        userMessage: `Unsupported file type${fileType ? `: ${fileType}` : ''}. Please upload a .txt, .pdf, .fdx, or .fountain file.`
       })
     }
 
@@ -365,9 +434,13 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     logger.log("parse-screenplay", `[Parse] Processing ${fileType.toUpperCase()}: ${fileName} (${(buffer.length / 1024).toFixed(2)}KB)`)
 
     let screenplayText = ''
+    let fountain: FountainParseResult | null = null
 
     try {
-      if (fileType === 'txt') {
+      if (fileType === 'fountain') {
+        fountain = parseFountain(buffer)
+        screenplayText = fountain.screenplayText
+      } else if (fileType === 'txt') {
         screenplayText = parseTXT(buffer)
       } else if (fileType === 'fdx') {
         screenplayText = await parseFDX(buffer)
@@ -407,6 +480,14 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     return res.status(200).json({
       success: true,
       screenplayText,
+      // Fountain carries its own structure — send scenes so the client doesn't
+      // have to re-detect forced headings with the INT./EXT. regex
+      ...(fountain && {
+        scenes: fountain.scenes,
+        omitted: fountain.omitted,
+        title: fountain.title,
+        titlePage: fountain.titlePage
+      }),
       meta: {
         fileName,
         fileType,
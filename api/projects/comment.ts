@@ -0,0 +1,163 @@
+// api/projects/comment.ts
+// Writes to a project's comment threads. Commenters and up start threads,
+// reply, and resolve or reopen them; anyone who can read the project can
+// mark a thread read. Threads are described in src/lib/projectComments.ts.
+import { VercelRequest, VercelResponse } from '@vercel/node'
+import { getDb } from '../lib/mongodb.js'
+import { ObjectId } from 'mongodb'
+import { logger } from "../lib/logger";
+import { ACCESS_PROJECTION, projectAccessError } from '../lib/projectAccess'
+import { publishProjectChange } from '../lib/projectEvents'
+import { COMMENTS_COLLECTION, CommentThreadDocument, projectMembers, toThread } from '../lib/projectComments'
+import { findMentions, MAX_COMMENT_LENGTH, MAX_THREAD_COMMENTS, parseAnchor } from '../../src/lib/projectComments'
+
+const ACTIONS = ['create', 'reply', 'resolve', 'reopen', 'read'] as const
+type CommentAction = typeof ACTIONS[number]
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  // CORS handled by server.mjs middleware
+  if (req.method !== 'POST') return res.status(405).json({ error: 'Method not allowed' })
+
+  try {
+    const { projectId, action, threadId, sceneNumber, anchor: rawAnchor, body } = req.body || {}
+
+    if (!projectId || !ObjectId.isValid(projectId)) {
+      return res.status(400).json({ error: 'A valid projectId is required' })
+    }
+    if (!ACTIONS.includes(action)) {
+      return res.status(400).json({ error: `action must be one of ${ACTIONS.join(', ')}` })
+    }
+    const commentAction = action as CommentAction
+    if (commentAction !== 'create' && (typeof threadId !== 'string' || !ObjectId.isValid(threadId))) {
+      return res.status(400).json({ error: 'A valid threadId is required' })
+    }
+    const anchor = commentAction === 'create' ? parseAnchor(rawAnchor) : null
+    if (commentAction === 'create') {
+      if (!anchor) {
+        return res.status(400).json({ error: 'anchor must be a scene, an analysis field path or a shot ID' })
+      }
+      if (!Number.isFinite(sceneNumber)) {
+        return res.status(400).json({ error: 'sceneNumber is required' })
+      }
+    }
+    const text = typeof body === 'string' ? body.trim() : ''
+    if (commentAction === 'create' || commentAction === 'reply') {
+      if (!text) {
+        return res.status(400).json({ error: 'A comment cannot be empty' })
+      }
+      if (text.length > MAX_COMMENT_LENGTH) {
+        return res.status(400).json({ error: `Comments are limited to ${MAX_COMMENT_LENGTH} characters` })
+      }
+    }
+
+    const authUserId = (req as VercelRequest & { auth?: { userId?: string } }).auth?.userId
+    if (!authUserId) {
+      return res.status(401).json({ error: 'Authentication required' })
+    }
+
+    const db = await getDb()
+    const project = await db.collection('projects').findOne(
+      { _id: new ObjectId(projectId) },
+      { projection: { ...ACCESS_PROJECTION, 'scenes.number': 1 } }
+    )
+    if (!project) {
+      return res.status(404).json({ error: 'Project not found' })
+    }
+    const accessError = projectAccessError(project, authUserId, commentAction === 'read' ? 'viewer' : 'commenter')
+    if (accessError) {
+      return res.status(403).json({ error: accessError })
+    }
+
+    const threads = db.collection<CommentThreadDocument>(COMMENTS_COLLECTION)
+    const now = new Date()
+
+    // The author's name and whoever the body mentions, from the project's members
+    const newComment = async () => {
+      const members = await projectMembers(project)
+      const author = members.find(member => member.userId === authUserId)
+      return {
+        id: new ObjectId().toHexString(),
+        authorId: authUserId,
+        authorName: author?.name || 'Collaborator',
+        body: text,
+        mentions: findMentions(text, members).filter(userId => userId !== authUserId),
+        createdAt: now
+      }
+    }
+
+    let thread: CommentThreadDocument | null
+    if (commentAction === 'create') {
+      if (!(project.scenes || []).some((scene: { number?: number }) => scene.number === sceneNumber)) {
+        return res.status(404).json({ error: `Scene ${sceneNumber} not found` })
+      }
+      const doc: CommentThreadDocument = {
+        projectId,
+        sceneNumber,
+        anchor: anchor!,
+        status: 'open',
+        comments: [await newComment()],
+        createdBy: authUserId,
+        createdAt: now,
+        updatedAt: now,
+        readBy: { [authUserId]: now }
+      }
+      const { insertedId } = await threads.insertOne(doc)
+      thread = { ...doc, _id: insertedId }
+    } else {
+      const filter = { _id: new ObjectId(threadId), projectId }
+      if (commentAction === 'reply') {
+        thread = await threads.findOneAndUpdate(
+          // Full threads take no more replies; the guard keeps a burst of them under the cap
+          { ...filter, [`comments.${MAX_THREAD_COMMENTS - 1}`]: { $exists: false } },
+          {
+            $push: { comments: await newComment() },
+            $set: { updatedAt: now, [`readBy.${authUserId}`]: now }
+          },
+          { returnDocument: 'after' }
+        )
+        if (!thread && await threads.countDocuments(filter, { limit: 1 })) {
+          return res.status(400).json({ error: `Threads are limited to ${MAX_THREAD_COMMENTS} comments. Start a new one.` })
+        }
+      } else if (commentAction === 'resolve') {
+        thread = await threads.findOneAndUpdate(
+          filter,
+          { $set: { status: 'resolved', resolvedBy: authUserId, resolvedAt: now, updatedAt: now } },
+          { returnDocument: 'after' }
+        )
+      } else if (commentAction === 'reopen') {
+        thread = await threads.findOneAndUpdate(
+          filter,
+          { $set: { status: 'open', updatedAt: now }, $unset: { resolvedBy: '', resolvedAt: '' } },
+          { returnDocument: 'after' }
+        )
+      } else {
+        thread = await threads.findOneAndUpdate(
+          filter,
+          { $set: { [`readBy.${authUserId}`]: now } },
+          { returnDocument: 'after' }
+        )
+      }
+    }
+
+    if (!thread) {
+      return res.status(404).json({ error: 'Thread not found' })
+    }
+
+    // Reading only changes the reader's own inbox
+    if (commentAction !== 'read') {
+      publishProjectChange(projectId, 'comments', authUserId, thread.sceneNumber !== null ? [thread.sceneNumber] : undefined)
+      logger.log("comment", `💬 Project ${projectId}: ${commentAction} thread ${String(thread._id)}`)
+    }
+
+    return res.status(200).json({
+      success: true,
+      thread: toThread(thread)
+    })
+  } catch (error) {
+    logger.error("comment", 'Comment error:', error)
+    return res.status(500).json({
+      error: 'Failed to update comments',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    })
+  }
+}
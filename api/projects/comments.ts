@@ -0,0 +1,62 @@
+// api/projects/comments.ts
+// Lists a project's comment threads, oldest first, with the members who can
+// be mentioned. The client builds each scene's threads and the inbox from it
+import { VercelRequest, VercelResponse } from '@vercel/node'
+import { getDb } from '../lib/mongodb.js'
+import { ObjectId } from 'mongodb'
+import { logger } from "../lib/logger";
+import { ACCESS_PROJECTION, projectAccessError } from '../lib/projectAccess'
+import { COMMENTS_COLLECTION, CommentThreadDocument, projectMembers, toThread } from '../lib/projectComments'
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  // CORS handled by server.mjs middleware
+  if (req.method !== 'GET') return res.status(405).json({ error: 'Method not allowed' })
+
+  try {
+    const { projectId } = req.query
+
+    if (!projectId || typeof projectId !== 'string' || !ObjectId.isValid(projectId)) {
+      return res.status(400).json({ error: 'A valid projectId is required' })
+    }
+
+    const authUserId = (req as VercelRequest & { auth?: { userId?: string } }).auth?.userId
+    if (!authUserId) {
+      return res.status(401).json({ error: 'Authentication required' })
+    }
+
+    const db = await getDb()
+    const project = await db.collection('projects').findOne(
+      { _id: new ObjectId(projectId) },
+      { projection: ACCESS_PROJECTION }
+    )
+    if (!project) {
+      return res.status(404).json({ error: 'Project not found' })
+    }
+    const accessError = projectAccessError(project, authUserId, 'viewer')
+    if (accessError) {
+      return res.status(403).json({ error: accessError })
+    }
+
+    const [docs, members] = await Promise.all([
+      db.collection<CommentThreadDocument>(COMMENTS_COLLECTION)
+        .find({ projectId })
+        .sort({ createdAt: 1 })
+        .toArray(),
+      projectMembers(project),
+    ])
+
+    logger.log("comments", `💬 Project ${projectId}: ${docs.length} thread(s)`)
+
+    return res.status(200).json({
+      success: true,
+      threads: docs.map(toThread),
+      members
+    })
+  } catch (error) {
+    logger.error("comments", 'List error:', error)
+    return res.status(500).json({
+      error: 'Failed to load comments',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    })
+  }
+}
@@ -0,0 +1,65 @@
+// api/projects/delete-frame.ts
+// Detaches a storyboard frame from its shot and removes its files from asset storage
+import { VercelRequest, VercelResponse } from '@vercel/node'
+import { getDb } from '../lib/mongodb.js'
+import { ObjectId } from 'mongodb'
+import { logger } from "../lib/logger";
+import { projectAccessError, ACCESS_PROJECTION } from '../lib/projectAccess'
+import { publishProjectChange } from '../lib/projectEvents'
+import { deleteFrameAssets } from '../lib/storyboardFrames'
+import type { StoryboardFrame } from '../../src/lib/storyboardFrames'
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  // CORS handled by server.mjs middleware
+  if (req.method !== 'POST') return res.status(405).json({ error: 'Method not allowed' })
+
+  try {
+    const { projectId, frameId } = req.body || {}
+
+    if (!projectId || !ObjectId.isValid(projectId) || typeof frameId !== 'string') {
+      return res.status(400).json({ error: 'projectId and frameId are required' })
+    }
+
+    const authUserId = (req as VercelRequest & { auth?: { userId?: string } }).auth?.userId
+    if (!authUserId) {
+      return res.status(401).json({ error: 'Authentication required' })
+    }
+
+    const db = await getDb()
+    const collection = db.collection<{ storyboardFrames?: StoryboardFrame[] }>('projects')
+    const objectId = new ObjectId(projectId)
+
+    const existing = await collection.findOne({ _id: objectId }, { projection: { ...ACCESS_PROJECTION, storyboardFrames: 1 } })
+    if (!existing) {
+      return res.status(404).json({ error: 'Project not found' })
+    }
+    const accessError = projectAccessError(existing, authUserId, 'editor')
+    if (accessError) {
+      return res.status(403).json({ error: accessError })
+    }
+
+    const frames: StoryboardFrame[] = existing.storyboardFrames || []
+    const frame = frames.find(f => f.id === frameId)
+    if (!frame) {
+      return res.status(404).json({ error: 'Frame not found' })
+    }
+
+    await collection.updateOne(
+      { _id: objectId },
+      { $pull: { storyboardFrames: { id: frameId } }, $set: { updatedAt: new Date() } }
+    )
+    await deleteFrameAssets([frame], projectId)
+
+    publishProjectChange(projectId, 'frames', authUserId, [frame.sceneNumber])
+
+    logger.log("delete-frame", `🗑️ Frame ${frameId} removed from scene ${frame.sceneNumber} shot ${frame.shotKey}`)
+
+    return res.status(200).json({ success: true, frameId })
+  } catch (error) {
+    logger.error("delete-frame", 'Delete error:', error)
+    return res.status(500).json({
+      error: 'Failed to delete frame',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    })
+  }
+}
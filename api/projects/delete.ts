@@ -5,6 +5,11 @@ import { VercelRequest, VercelResponse } from '@vercel/node'
 import { getDb } from '../lib/mongodb.js'
 import { ObjectId } from 'mongodb'
 import { logger } from "../lib/logger";
+import { REVISIONS_COLLECTION } from '../lib/analysisRevisions'
+import { COMMENTS_COLLECTION } from '../lib/projectComments'
+import { projectAccessError } from '../lib/projectAccess'
+import { publishProjectChange } from '../lib/projectEvents'
+import { deleteFrameAssets } from '../lib/storyboardFrames'
 
 const DEPLOY_TIMESTAMP = '2025-12-16T17:45:00Z_FINAL_DELETE_FIX'
 
@@ -77,8 +82,9 @@ export default async function handler(
     if (!existing) {
       return res.status(404).json({ error: 'Project not found', deployMarker: DEPLOY_TIMESTAMP })
     }
-    if (existing.userId && existing.userId !== authUserId) {
-      return res.status(403).json({ error: 'Forbidden', deployMarker: DEPLOY_TIMESTAMP })
+    const accessError = projectAccessError(existing, authUserId, 'owner')
+    if (accessError) {
+      return res.status(403).json({ error: accessError, deployMarker: DEPLOY_TIMESTAMP })
     }
 
     // Delete the project
@@ -92,6 +98,21 @@ export default async function handler(
       })
     }
 
+    // Collaborators still in the project are disconnected
+    publishProjectChange(idString, 'deleted', authUserId)
+
+    // Revision history and comment threads belong to the project and go with it
+    const revisions = await db.collection(REVISIONS_COLLECTION).deleteMany({ projectId: idString })
+    logger.log("delete", `   [${invocationId}] Removed ${revisions.deletedCount} analysis revision(s)`)
+    const comments = await db.collection(COMMENTS_COLLECTION).deleteMany({ projectId: idString })
+    logger.log("delete", `   [${invocationId}] Removed ${comments.deletedCount} comment thread(s)`)
+
+    // So do its storyboard frames in asset storage
+    if (existing.storyboardFrames?.length) {
+      await deleteFrameAssets(existing.storyboardFrames, idString)
+      logger.log("delete", `   [${invocationId}] Removed ${existing.storyboardFrames.length} storyboard frame(s)`)
+    }
+
     const duration = Date.now() - startTime
     logger.log("delete", `✅ [${invocationId}] SUCCESS - Project deleted in ${duration}ms`)
 
@@ -1,10 +1,12 @@
 // api/projects/get-all.ts
-// PRODUCTION-READY: Fetches all saved projects filtered by userId
+// PRODUCTION-READY: Fetches the user's own projects, those shared with them
+// and those of the workspaces they belong to
 
 import { VercelRequest, VercelResponse } from '@vercel/node'
 import { getDb } from '../lib/mongodb.js'
 import { ObjectId } from 'mongodb'
 import { logger } from "../lib/logger";
+import { storedProjectRole } from '../lib/projectAccess'
 
 const DEPLOY_TIMESTAMP = '2024-12-24T_USER_FILTER'
 
@@ -49,19 +51,20 @@ export default async function handler(
     const collection = db.collection('projects')
 
     // Always filter by the authenticated user — never fall back to `{}`.
-    const query = { userId }
+    const query = { $or: [{ userId }, { 'collaborators.userId': userId }, { 'workspaceMembers.userId': userId }] }
     logger.log("get-all", `🔍 [${invocationId}] Query filter:`, query)
 
     const projectList = await collection
       .find(query)
-      .project({ name: 1, updatedAt: 1, userId: 1 })
+      .project({ name: 1, updatedAt: 1, userId: 1, collaborators: 1, workspaceId: 1, workspaceMembers: 1 })
       .sort({ updatedAt: -1 })
       .limit(100)
       .toArray()
 
     logger.log("get-all", `📦 [${invocationId}] Found ${projectList.length} project(s)`)
 
-    const projects = projectList.map((project, index) => {
+    // A project moved into a workspace its creator has since left is no longer theirs
+    const projects = projectList.filter(project => storedProjectRole(project, userId)).map((project, index) => {
       const idString = project._id instanceof ObjectId
         ? project._id.toHexString()
         : String(project._id)
@@ -71,6 +74,8 @@ export default async function handler(
       return {
         _id: idString,
         name: project.name || 'Untitled Project',
+        role: storedProjectRole(project, userId),
+        workspaceId: project.workspaceId || null,
         updatedAt: project.updatedAt
           ? project.updatedAt instanceof Date
             ? project.updatedAt.toISOString()
@@ -3,6 +3,7 @@ import { VercelRequest, VercelResponse } from '@vercel/node';
 import { getDb } from '../lib/mongodb.js';
 import { ObjectId } from 'mongodb';
 import { logger } from "../lib/logger";
+import { projectAccessError } from '../lib/projectAccess';
 
 export default async function handler(
   req: VercelRequest,
@@ -47,8 +48,9 @@ export default async function handler(
       });
     }
 
-    if (project.userId && project.userId !== authUserId) {
-      return res.status(403).json({ error: 'Forbidden' });
+    const accessError = projectAccessError(project, authUserId, 'viewer');
+    if (accessError) {
+      return res.status(403).json({ error: accessError });
     }
 
     logger.log("get-by-id", `✅ Project ${projectId} loaded`);
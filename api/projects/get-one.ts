@@ -6,6 +6,12 @@ import { VercelRequest, VercelResponse } from '@vercel/node'
 import { getDb } from '../lib/mongodb.js'
 import { ObjectId } from 'mongodb'
 import { logger } from "../lib/logger";
+import { ensureRegistry } from '../../src/lib/characterRegistry'
+import { ensureLocations } from '../../src/lib/locationRegistry'
+import { framesForClient } from '../lib/storyboardFrames'
+import { backfillProjectShotIds } from '../lib/shotIds'
+import { projectAccessError, storedProjectRole } from '../lib/projectAccess'
+import { sceneVersion } from '../../src/lib/projectVersions'
 
 const DEPLOY_TIMESTAMP = '2025-02-05T02:00:00Z_PRESERVE_ALL_SHOT_FIELDS'
 
@@ -63,12 +69,21 @@ export default async function handler(
       return res.status(404).json({ error: 'Project not found', deployMarker: DEPLOY_TIMESTAMP })
     }
 
-    if (project.userId && project.userId !== authUserId) {
-      return res.status(403).json({ error: 'Forbidden', deployMarker: DEPLOY_TIMESTAMP })
+    const accessError = projectAccessError(project, authUserId, 'viewer')
+    if (accessError) {
+      return res.status(403).json({ error: accessError, deployMarker: DEPLOY_TIMESTAMP })
     }
 
     logger.log("get-one", `✅ [${invocationId}] Project found: ${project.name || 'Untitled'}`)
 
+    // Analyses saved before shots had IDs get them on first load, so the
+    // client always has a stable key for frames and notes
+    try {
+      await backfillProjectShotIds(collection, project)
+    } catch (error) {
+      logger.error("get-one", `⚠️ [${invocationId}] Shot ID backfill failed:`, error)
+    }
+
     // Transform scenes to match frontend expectations
     const transformedScenes = (project.scenes || []).map((scene: any, index: number) => {
       const textLines = (scene.text || '').split('\n');
@@ -231,10 +246,23 @@ export default async function handler(
         content: scene.text || '',
         analysis: analysisString,
         status: scene.status === 'complete' || scene.status === 'COMPLETED' ? 'COMPLETED' : (scene.status || 'PENDING').toUpperCase(),
-        ...(scene.storyLogicContext ? { storyLogicContext: scene.storyLogicContext } : {})
+        version: sceneVersion(scene),
+        ...(scene.label ? { scene_label: scene.label } : {}),
+        ...(scene.storyLogicContext ? { storyLogicContext: scene.storyLogicContext } : {}),
+        ...(scene.revisionStatus ? { revisionStatus: scene.revisionStatus } : {}),
+        ...(scene.needsReanalysis ? { needsReanalysis: true } : {})
       };
     });
 
+    // One-time migration: legacy { name, physical } characters get registry
+    // IDs and cast numbers, persisted so the IDs stay stable from here on
+    const characters = ensureRegistry(project.characters)
+    const needsMigration = (project.characters || []).some((c: { id?: string; castNumber?: number; aliases?: unknown }) => !c.id || !c.castNumber || !Array.isArray(c.aliases))
+    if (needsMigration && characters.length > 0) {
+      await collection.updateOne({ _id: objectId }, { $set: { characters } })
+      logger.log("get-one", `👥 [${invocationId}] Migrated ${characters.length} characters to registry format`)
+    }
+
     const duration = Date.now() - startTime
     logger.log("get-one", `⏱️  [${invocationId}] Total: ${duration}ms`)
 
@@ -250,6 +278,14 @@ export default async function handler(
       ? 'COMPLETED'
       : (project.status === 'processing' ? 'processing' : (analyzingCount > 0 || pendingCount > 0 ? 'processing' : 'COMPLETED'))
 
+    // A storage misconfiguration shouldn't keep the project from loading
+    let storyboardFrames: Awaited<ReturnType<typeof framesForClient>> = []
+    try {
+      storyboardFrames = await framesForClient(project.storyboardFrames, String(project._id))
+    } catch (error) {
+      logger.error("get-one", `⚠️ [${invocationId}] Could not sign storyboard frame URLs:`, error)
+    }
+
     return res.status(200).json({
       success: true,
       project: {
@@ -262,8 +298,21 @@ export default async function handler(
         current_scene: completedCount,
         status: projectStatus,
         visual_style: project.visual_style || null,
-        characters: project.characters || [],
+        characters,
+        locations: ensureLocations(project.locations),
         visual_profile: project.visual_profile || null,
+        schedule: project.schedule || null,
+        budget: project.budget || null,
+        scriptRevisions: project.scriptRevisions || [],
+        sceneNumbersLocked: project.sceneNumbersLocked === true,
+        omittedScenes: project.omittedScenes || [],
+        storySpine: project.storySpine || null,
+        storyboardFrames,
+        shotNotes: project.shotNotes || {},
+        role: storedProjectRole(project, authUserId),
+        ownerId: project.userId || null,
+        collaborators: project.collaborators || [],
+        versions: project.versions || {},
         createdAt: project.createdAt,
         updatedAt: project.updatedAt
       },
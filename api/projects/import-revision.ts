@@ -0,0 +1,228 @@
+// api/projects/import-revision.ts
+// Imports a revised draft into an existing project. Scenes are matched to the
+// current ones; unchanged scenes keep their analyses, modified scenes keep the
+// old analysis flagged for re-analysis, added scenes start pending and
+// omitted scenes are dropped. With locked scene numbers, matched scenes keep
+// their numbers, new ones become 12A-style inserts and dropped ones stay
+// behind as OMITTED. Nothing is analyzed (or charged) here.
+import { VercelRequest, VercelResponse } from '@vercel/node'
+import { getDb } from '../lib/mongodb.js'
+import { ObjectId } from 'mongodb'
+import { logger } from "../lib/logger";
+import { REVISIONS_COLLECTION } from '../lib/analysisRevisions'
+import { COMMENTS_COLLECTION } from '../lib/projectComments'
+import { renumberSceneDocuments } from '../lib/sceneRenumbering'
+import { projectAccessError } from '../lib/projectAccess'
+import { scenesUnchanged } from '../lib/projectVersions'
+import { publishProjectChange } from '../lib/projectEvents'
+import { sceneVersion } from '../../src/lib/projectVersions'
+import type { ProjectCollaborator } from '../../src/lib/projectAccess'
+import {
+  RevisionSceneInput,
+  ScriptRevisionRecord,
+  countMatches,
+  matchRevisedScenes,
+  nextRevisionLabel,
+} from '../../src/lib/scriptRevision'
+import { OmittedScene, planRevisionLabels } from '../../src/lib/sceneNumbering'
+
+interface StoredScene {
+  number: number
+  label?: string
+  text?: string
+  analysis?: unknown
+  status?: string
+  error?: string | null
+  revisionStatus?: string
+  needsReanalysis?: boolean
+  version?: number
+  [key: string]: unknown
+}
+
+interface StoredSchedule {
+  days?: Array<{ dayNumber: number; sceneNumbers: number[] }>
+  [key: string]: unknown
+}
+
+interface ProjectDocument {
+  userId?: string
+  collaborators?: ProjectCollaborator[]
+  scenes?: StoredScene[]
+  schedule?: StoredSchedule | null
+  scriptRevisions?: ScriptRevisionRecord[]
+  sceneNumbersLocked?: boolean
+  omittedScenes?: OmittedScene[]
+  updatedAt?: Date
+}
+
+const isSceneInput = (scene: RevisionSceneInput) =>
+  scene && typeof scene.number === 'number' && typeof scene.text === 'string' && scene.text.trim().length > 0
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  // CORS handled by server.mjs middleware
+  if (req.method !== 'POST') return res.status(405).json({ error: 'Method not allowed' })
+
+  try {
+    const { projectId, scenes, label, fileName, omitted } = req.body
+
+    if (!projectId) {
+      return res.status(400).json({ error: 'projectId is required' })
+    }
+    if (!Array.isArray(scenes) || scenes.length === 0 || !scenes.every(isSceneInput)) {
+      return res.status(400).json({ error: 'scenes must be a non-empty array of { number, text }' })
+    }
+
+    const authUserId = (req as VercelRequest & { auth?: { userId?: string } }).auth?.userId
+    if (!authUserId) {
+      return res.status(401).json({ error: 'Authentication required' })
+    }
+
+    const db = await getDb()
+    const collection = db.collection<ProjectDocument>('projects')
+    const objectId = new ObjectId(projectId)
+
+    const project = await collection.findOne({ _id: objectId })
+    if (!project) {
+      return res.status(404).json({ error: 'Project not found' })
+    }
+    const accessError = projectAccessError(project, authUserId, 'editor')
+    if (accessError) {
+      return res.status(403).json({ error: accessError })
+    }
+
+    const existing: StoredScene[] = (project.scenes || []).map((scene, index) => ({
+      ...scene,
+      number: scene.number || index + 1,
+    }))
+    const revised: RevisionSceneInput[] = scenes.map((scene: RevisionSceneInput) => ({
+      number: scene.number,
+      text: scene.text,
+      ...(typeof scene.label === 'string' && scene.label ? { label: scene.label } : {}),
+    }))
+
+    const matches = matchRevisedScenes(
+      existing.map(scene => ({ number: scene.number, text: scene.text || '' })),
+      revised
+    )
+    const byOldNumber = new Map(existing.map(scene => [scene.number, scene]))
+    const textByNewNumber = new Map(revised.map(scene => [scene.number, scene.text]))
+    const numbering = planRevisionLabels(matches, {
+      locked: project.sceneNumbersLocked === true,
+      existingLabels: new Map(existing.filter(scene => scene.label).map(scene => [scene.number, scene.label!])),
+      revisedLabels: new Map(revised.filter(scene => scene.label).map(scene => [scene.number, scene.label!])),
+      previouslyOmitted: project.omittedScenes || [],
+      draftOmitted: Array.isArray(omitted) ? omitted.filter((o: unknown): o is string => typeof o === 'string') : [],
+    })
+
+    // Every scene comes out of an import at one version above any it went in
+    // with, so an edit started before the import conflicts instead of landing
+    // on whatever scene now holds its number
+    const version = Math.max(0, ...(project.scenes || []).map(sceneVersion)) + 1
+    const updatedScenes: StoredScene[] = []
+    const renumbering = new Map<number, number | null>()
+    for (const match of matches) {
+      if (match.status === 'omitted') {
+        renumbering.set(match.oldNumber!, null)
+        continue
+      }
+      const text = textByNewNumber.get(match.newNumber!) || ''
+      const sceneLabel = numbering.labels.get(match.newNumber!)
+      if (match.status === 'added') {
+        updatedScenes.push({
+          number: match.newNumber!,
+          ...(sceneLabel ? { label: sceneLabel } : {}),
+          text, analysis: null, status: 'PENDING', error: null, revisionStatus: 'added', needsReanalysis: true, version
+        })
+        continue
+      }
+      renumbering.set(match.oldNumber!, match.newNumber!)
+      const { label: _previousLabel, ...previous } = byOldNumber.get(match.oldNumber!)!
+      updatedScenes.push({
+        ...previous,
+        number: match.newNumber!,
+        ...(sceneLabel ? { label: sceneLabel } : {}),
+        text,
+        revisionStatus: match.status,
+        needsReanalysis: match.status === 'modified' || byOldNumber.get(match.oldNumber!)?.needsReanalysis === true,
+        version,
+      })
+    }
+
+    // Shooting days follow their scenes to the new numbers
+    const schedule = project.schedule || null
+    const updatedSchedule = schedule?.days
+      ? {
+          ...schedule,
+          days: schedule.days.map(day => ({
+            ...day,
+            sceneNumbers: day.sceneNumbers
+              .map(n => (renumbering.has(n) ? renumbering.get(n) : n))
+              .filter((n): n is number => typeof n === 'number'),
+          })),
+          updatedAt: new Date().toISOString(),
+        }
+      : schedule
+
+    const counts = countMatches(matches)
+    const previousRevisions = project.scriptRevisions || []
+    const record: ScriptRevisionRecord = {
+      label: typeof label === 'string' && label.trim() ? label.trim() : nextRevisionLabel(previousRevisions),
+      ...(typeof fileName === 'string' ? { fileName } : {}),
+      importedAt: new Date().toISOString(),
+      counts,
+    }
+
+    // The whole scenes array is replaced, so any scene saved since it was
+    // read fails the import rather than being silently dropped
+    const result = await collection.updateOne(
+      { _id: objectId, ...scenesUnchanged(project.scenes || []) },
+      {
+        $set: {
+          scenes: updatedScenes,
+          schedule: updatedSchedule,
+          omittedScenes: numbering.omitted,
+          updatedAt: new Date()
+        },
+        $inc: { 'versions.schedule': 1, 'versions.numbering': 1 },
+        $push: { scriptRevisions: record }
+      }
+    )
+    if (result.matchedCount === 0) {
+      return res.status(409).json({
+        error: 'Conflict',
+        userMessage: 'Scenes were changed by someone else while the revision was being imported. Try the import again.',
+        conflicts: []
+      })
+    }
+
+    // Analysis history and comment threads follow their scenes to the new numbers
+    const historyMoved = await renumberSceneDocuments(db.collection(REVISIONS_COLLECTION), projectId, renumbering)
+    const commentsMoved = await renumberSceneDocuments(db.collection(COMMENTS_COLLECTION), projectId, renumbering)
+    const unmoved = [historyMoved ? null : 'analysis history', commentsMoved ? null : 'comments'].filter(Boolean)
+
+    publishProjectChange(projectId, 'scenes', authUserId)
+    publishProjectChange(projectId, 'schedule', authUserId)
+
+    logger.log("import-revision", `📝 Project ${projectId} ${record.label} revision: ${counts.unchanged} unchanged, ${counts.modified} modified, ${counts.added} added, ${counts.omitted} omitted`)
+
+    return res.status(200).json({
+      success: true,
+      message: `${record.label} revision imported`,
+      revision: record,
+      matches,
+      labels: Object.fromEntries(numbering.labels),
+      // Includes scenes still flagged from an earlier revision
+      reanalyze: updatedScenes.filter(scene => scene.needsReanalysis).map(scene => scene.number),
+      modifiedCount: result.modifiedCount,
+      ...(unmoved.length > 0 ? {
+        warning: `The revision was imported, but scene ${unmoved.join(' and ')} could not be moved to the new scene numbers.`
+      } : {})
+    })
+  } catch (error) {
+    logger.error("import-revision", 'Import error:', error)
+    return res.status(500).json({
+      error: 'Failed to import revision',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    })
+  }
+}
@@ -4,6 +4,10 @@ import { VercelRequest, VercelResponse } from '@vercel/node'
 import { getDb } from '../lib/mongodb.js'
 import { ObjectId } from 'mongodb'
 import { logger } from "../lib/logger";
+import { projectAccessError } from '../lib/projectAccess'
+import { writeSection, sendConflict } from '../lib/projectVersions'
+import { publishProjectChange } from '../lib/projectEvents'
+import { parseBaseVersion } from '../../src/lib/projectVersions'
 
 const DEPLOY_TIMESTAMP = '2025-12-24T20:00:00Z_RENAME_ENDPOINT'
 
@@ -30,7 +34,7 @@ export default async function handler(
   }
 
   try {
-    const { projectId, newName } = req.body || {}
+    const { projectId, newName, baseVersion } = req.body || {}
 
     logger.log("rename", `📝 [${invocationId}] Rename request:`, { projectId, newName })
 
@@ -89,7 +93,7 @@ export default async function handler(
     const db = await getDb()
     const collection = db.collection('projects')
 
-    // Ownership check
+    // Access check
     const authUserId = (req as any).auth?.userId as string | undefined
     if (!authUserId) {
       return res.status(401).json({ error: 'Authentication required', deployMarker: DEPLOY_TIMESTAMP })
@@ -98,28 +102,30 @@ export default async function handler(
     if (!existing) {
       return res.status(404).json({ error: 'Project not found', deployMarker: DEPLOY_TIMESTAMP })
     }
-    if (existing.userId && existing.userId !== authUserId) {
-      return res.status(403).json({ error: 'Forbidden', deployMarker: DEPLOY_TIMESTAMP })
+    const accessError = projectAccessError(existing, authUserId, 'editor')
+    if (accessError) {
+      return res.status(403).json({ error: accessError, deployMarker: DEPLOY_TIMESTAMP })
     }
 
     // Update the project name
-    const result = await collection.updateOne(
-      { _id: objectId },
-      {
-        $set: {
-          name: trimmedName,
-          updatedAt: new Date().toISOString()
-        }
+    const written = await writeSection(collection, objectId, 'name', parseBaseVersion(baseVersion), {
+      $set: {
+        name: trimmedName,
+        updatedAt: new Date().toISOString()
       }
-    )
+    })
 
-    if (result.matchedCount === 0) {
+    if (!written) {
       return res.status(404).json({
         error: 'Project not found',
         message: `No project exists with ID: ${projectId}`,
         deployMarker: DEPLOY_TIMESTAMP
       })
     }
+    if ('conflict' in written) {
+      return sendConflict(res, [written.conflict])
+    }
+    publishProjectChange(projectId, 'name', authUserId)
 
     const duration = Date.now() - startTime
     logger.log("rename", `✅ [${invocationId}] SUCCESS - Project renamed to "${trimmedName}" in ${duration}ms`)
@@ -129,6 +135,7 @@ export default async function handler(
       message: 'Project renamed successfully',
       newName: trimmedName,
       projectId: projectId,
+      version: written.version,
       processingTime: duration,
       deployMarker: DEPLOY_TIMESTAMP
     })
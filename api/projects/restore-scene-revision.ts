@@ -0,0 +1,107 @@
+// api/projects/restore-scene-revision.ts
+// Restores a scene's analysis from an earlier revision. The restore is itself
+// recorded as a new revision, so history is never rewritten.
+import { VercelRequest, VercelResponse } from '@vercel/node'
+import { getDb } from '../lib/mongodb.js'
+import { ObjectId } from 'mongodb'
+import { logger } from "../lib/logger";
+import { REVISIONS_COLLECTION, RevisionDocument, appendRevisions, toRevision } from '../lib/analysisRevisions'
+import { stampSceneAnalysis, writeRekeyedFrames } from '../lib/shotIds'
+import { projectAccessError } from '../lib/projectAccess'
+import { writeScenes, sendConflict } from '../lib/projectVersions'
+import { publishProjectChange } from '../lib/projectEvents'
+import { parseBaseVersion } from '../../src/lib/projectVersions'
+
+interface SceneRecord {
+  number?: number
+  scene_number?: number
+  analysis?: unknown
+}
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  // CORS handled by server.mjs middleware
+  if (req.method !== 'POST') return res.status(405).json({ error: 'Method not allowed' })
+
+  try {
+    const { projectId, revisionId, baseVersion } = req.body
+
+    if (!projectId || !revisionId) {
+      return res.status(400).json({ error: 'projectId and revisionId are required' })
+    }
+
+    const authUserId = (req as VercelRequest & { auth?: { userId?: string } }).auth?.userId
+    if (!authUserId) {
+      return res.status(401).json({ error: 'Authentication required' })
+    }
+
+    const db = await getDb()
+    const collection = db.collection('projects')
+    const objectId = new ObjectId(projectId)
+
+    const project = await collection.findOne({ _id: objectId })
+    if (!project) {
+      return res.status(404).json({ error: 'Project not found' })
+    }
+    const accessError = projectAccessError(project, authUserId, 'editor')
+    if (accessError) {
+      return res.status(403).json({ error: accessError })
+    }
+
+    const doc = await db.collection<RevisionDocument>(REVISIONS_COLLECTION).findOne({ _id: new ObjectId(revisionId), projectId })
+    if (!doc) {
+      return res.status(404).json({ error: 'Revision not found' })
+    }
+    const target = toRevision(doc)
+
+    const scenes: SceneRecord[] = project.scenes || []
+    const index = scenes.findIndex((scene, i) => Number(scene.number || scene.scene_number || (i + 1)) === target.sceneNumber)
+    if (index < 0) {
+      return res.status(404).json({ error: 'Scene not found', message: `No scene with number ${target.sceneNumber} found` })
+    }
+
+    const scene = scenes[index]
+    const previous = typeof scene.analysis === 'string' || !scene.analysis ? (scene.analysis as string | null) : JSON.stringify(scene.analysis)
+    // Older revisions may predate shot IDs; restored shots take the IDs of the shots they match
+    const stamped = stampSceneAnalysis(target.analysis, previous, target.sceneNumber, project.storyboardFrames)
+    const restored = stamped.analysis
+
+    const written = await writeScenes(collection, objectId, [{
+      index,
+      sceneNumber: target.sceneNumber,
+      baseVersion: parseBaseVersion(baseVersion),
+      fields: { analysis: restored, status: 'COMPLETED' }
+    }], { $set: { updatedAt: new Date() } })
+    if (!written) {
+      return res.status(404).json({ error: 'Project not found' })
+    }
+    if ('conflicts' in written) {
+      return sendConflict(res, written.conflicts)
+    }
+    await writeRekeyedFrames(collection, objectId, project.storyboardFrames, stamped.frames)
+    publishProjectChange(projectId, 'scenes', authUserId, [target.sceneNumber])
+
+    const [revision] = await appendRevisions(db, projectId, authUserId, [{
+      sceneNumber: target.sceneNumber,
+      analysis: restored,
+      previous,
+      source: 'restore',
+      model: target.model,
+      restoredFrom: target.revision
+    }], project.userId)
+
+    logger.log("restore-scene-revision", `⏪ Project ${projectId} scene ${target.sceneNumber} restored to revision ${target.revision}`)
+
+    return res.status(200).json({
+      success: true,
+      message: `Scene ${target.sceneNumber} restored to revision ${target.revision}`,
+      revision: revision || null,
+      version: written.versions[target.sceneNumber]
+    })
+  } catch (error) {
+    logger.error("restore-scene-revision", 'Restore error:', error)
+    return res.status(500).json({
+      error: 'Failed to restore',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    })
+  }
+}
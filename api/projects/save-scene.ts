@@ -6,6 +6,12 @@ import { VercelRequest, VercelResponse } from '@vercel/node'
 import { getDb } from '../lib/mongodb.js'
 import { ObjectId } from 'mongodb'
 import { logger } from "../lib/logger";
+import { appendRevisions, parseRevisionSource, RevisionWrite } from '../lib/analysisRevisions'
+import { stampSceneAnalysis, writeRekeyedFrames } from '../lib/shotIds'
+import { projectAccessError } from '../lib/projectAccess'
+import { writeScenes, sendConflict, SceneWrite } from '../lib/projectVersions'
+import { publishProjectChange } from '../lib/projectEvents'
+import { parseBaseVersion } from '../../src/lib/projectVersions'
 
 // ╔═══════════════════════════════════════════════════════════════════════════╗
 // ║                    ⚠️  CRITICAL: DATA FORMAT LOCK  ⚠️                      ║
@@ -54,7 +60,8 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
   }
 
   try {
-    const { projectId, sceneUpdates } = req.body
+    // sceneVersions maps the same scene keys to the version each edit started from
+    const { projectId, sceneUpdates, sceneVersions, source, model } = req.body
 
     if (!projectId || !sceneUpdates) {
       return res.status(400).json({
@@ -81,12 +88,19 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     if (!authUserId) {
       return res.status(401).json({ error: 'Authentication required', deployMarker: DEPLOY_TIMESTAMP })
     }
-    if (project.userId && project.userId !== authUserId) {
-      return res.status(403).json({ error: 'Forbidden', deployMarker: DEPLOY_TIMESTAMP })
+    const accessError = projectAccessError(project, authUserId, 'editor')
+    if (accessError) {
+      return res.status(403).json({ error: accessError, deployMarker: DEPLOY_TIMESTAMP })
     }
 
     // Update scenes with new analysis data - UNIFIED STRING FORMAT
-    const updatedScenes = (project.scenes || []).map((scene: any) => {
+    // Edits from the UI are manual unless the caller says they came from the AI
+    const revisionWrites: RevisionWrite[] = []
+    const revisionSource = parseRevisionSource(source, 'manual')
+    let storyboardFrames = project.storyboardFrames
+    let framesRekeyed = false
+    const sceneWrites: SceneWrite[] = []
+    ;(project.scenes || []).forEach((scene: any, index: number) => {
       const sceneKey = `scene-${scene.number}`
 
       if (sceneUpdates[sceneKey]) {
@@ -95,7 +109,7 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
         // Handle case where analysis might be null/undefined
         if (!analysisData) {
           logger.warn("save-scene", `   ⚠️ [${invocationId}] Scene ${scene.number} analysis is null/undefined, skipping`)
-          return scene
+          return
         }
 
         // Log what we received
@@ -108,14 +122,14 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
             logger.log("save-scene", `      ✓ Parsed string to object`)
           } catch (e) {
             logger.error("save-scene", `   ❌ [${invocationId}] Scene ${scene.number} analysis is invalid string: ${analysisData.substring(0, 100)}`)
-            return scene
+            return
           }
         }
 
         // Validate it's an object
         if (typeof analysisData !== 'object' || analysisData === null) {
           logger.error("save-scene", `   ❌ [${invocationId}] Scene ${scene.number} analysis is not an object: ${typeof analysisData}`)
-          return scene
+          return
         }
 
         logger.log("save-scene", `   ✏️ [${invocationId}] Updating scene ${scene.number}`)
@@ -123,46 +137,64 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
         logger.log("save-scene", `      - story_analysis keys: ${Object.keys(analysisData?.story_analysis || {}).join(', ') || 'none'}`)
         logger.log("save-scene", `      - shot_list count: ${analysisData?.shot_list?.length || 0}`)
 
+        const previous = typeof scene.analysis === 'string' || !scene.analysis ? scene.analysis : JSON.stringify(scene.analysis)
+
         // CRITICAL: Store as JSON string (same format as update-scene-analysis.ts)
-        // This ensures get-one.ts handles all scenes consistently
-        // Double-check it's actually a string
-        const stringifiedAnalysis = JSON.stringify(analysisData)
-        const finalAnalysis = typeof stringifiedAnalysis === 'string' ? stringifiedAnalysis : String(stringifiedAnalysis)
+        // This ensures get-one.ts handles all scenes consistently.
+        // Stamping keeps each shot's ID through reorders and edits
+        const stamped = stampSceneAnalysis(analysisData, previous, scene.number, storyboardFrames)
+        const finalAnalysis = stamped.analysis
+        if (stamped.frames) {
+          storyboardFrames = stamped.frames
+          framesRekeyed = true
+        }
         
         logger.log("save-scene", `      - stringified type: ${typeof finalAnalysis}`)
         logger.log("save-scene", `      - stringified length: ${finalAnalysis.length}`)
-        
-        return {
-          ...scene,
-          analysis: finalAnalysis,
-          status: 'COMPLETED'
+
+        if (previous !== finalAnalysis) {
+          revisionWrites.push({
+            sceneNumber: scene.number,
+            analysis: finalAnalysis,
+            previous,
+            source: revisionSource,
+            model: typeof model === 'string' ? model : undefined
+          })
         }
+        
+        sceneWrites.push({
+          index,
+          sceneNumber: scene.number,
+          baseVersion: parseBaseVersion(sceneVersions?.[sceneKey]),
+          fields: { analysis: finalAnalysis, status: 'COMPLETED' }
+        })
       }
-      return scene
     })
 
     // Log what we're about to save
-    for (const scene of updatedScenes) {
-      if (scene.analysis) {
-        logger.log("save-scene", `   💾 [${invocationId}] Scene ${scene.number} analysis type before save: ${typeof scene.analysis}`)
-        logger.log("save-scene", `       First 100 chars: ${typeof scene.analysis === 'string' ? scene.analysis.substring(0, 100) : JSON.stringify(scene.analysis).substring(0, 100)}`)
-      }
+    for (const write of sceneWrites) {
+      const analysis = write.fields.analysis as string
+      logger.log("save-scene", `   💾 [${invocationId}] Scene ${write.sceneNumber} analysis type before save: ${typeof analysis}`)
+      logger.log("save-scene", `       First 100 chars: ${analysis.substring(0, 100)}`)
     }
 
-    // Update the project in MongoDB
-    const result = await collection.updateOne(
-      { _id: objectId },
-      {
-        $set: {
-          scenes: updatedScenes,
-          updatedAt: new Date()
-        }
-      }
-    )
-    
-    logger.log("save-scene", `   📤 [${invocationId}] MongoDB updateOne result: matchedCount=${result.matchedCount}, modifiedCount=${result.modifiedCount}`)
+    // Update the edited scenes in MongoDB. Each is written in place, and only
+    // if nobody saved it since this edit started; otherwise nothing is written
+    const written = await writeScenes(collection, objectId, sceneWrites, { $set: { updatedAt: new Date() } })
+    if (!written) {
+      return res.status(404).json({ error: 'Project not found', deployMarker: DEPLOY_TIMESTAMP })
+    }
+    if ('conflicts' in written) {
+      logger.warn("save-scene", `   ⚠️ [${invocationId}] Conflict on scene(s) ${written.conflicts.map(c => 'sceneNumber' in c ? c.sceneNumber : c.section).join(', ')}`)
+      return sendConflict(res, written.conflicts)
+    }
+    if (framesRekeyed) await writeRekeyedFrames(collection, objectId, project.storyboardFrames, storyboardFrames)
+    publishProjectChange(projectId, 'scenes', authUserId, sceneWrites.map(write => write.sceneNumber))
+
+    logger.log("save-scene", `✅ [${invocationId}] Updated ${sceneWrites.length} scene(s)`)
 
-    logger.log("save-scene", `✅ [${invocationId}] Updated ${result.modifiedCount} project(s)`)
+    const revisions = await appendRevisions(db, projectId, authUserId, revisionWrites, project.userId)
+    logger.log("save-scene", `   🗂️ [${invocationId}] Recorded ${revisions.length} analysis revision(s)`)
 
     // ═══════════════════════════════════════════════════════════════
     // VERIFICATION: Fetch back and validate format
@@ -261,7 +293,8 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     return res.status(200).json({
       success: true,
       message: `Updated ${Object.keys(sceneUpdates).length} scene(s)`,
-      modifiedCount: result.modifiedCount,
+      versions: written.versions,
+      revisions: revisions.map(({ id, sceneNumber, revision }) => ({ id, sceneNumber, revision })),
       allScenesCompleted,
       deployMarker: DEPLOY_TIMESTAMP
     })
@@ -4,9 +4,34 @@ import { getDb } from '../lib/mongodb.js'; // CRITICAL: Must use .js extension
 import { ObjectId } from 'mongodb';
 import { MongoClient } from 'mongodb'; // CRITICAL: Ensure MongoDB driver dependency is resolved
 import { logger } from "../lib/logger";
+import { findWorkspace, projectMembersOf } from '../lib/workspaces';
+import { workspaceRole } from '../../src/lib/workspaces';
+import type { OmittedScene } from '../../src/lib/sceneNumbering';
 
 const DEPLOY_TIMESTAMP = '2024-12-16T12:58:00Z_SAVE_INIT';
 
+/** A new project's scenes: numbered text waiting for analysis */
+function newScenes(scenes: unknown): Array<Record<string, unknown>> {
+  if (!Array.isArray(scenes)) return [];
+  return scenes
+    .filter(scene => scene && typeof scene === 'object' && typeof scene.text === 'string')
+    .map((scene, index) => ({
+      number: Number.isInteger(scene.number) ? scene.number : index + 1,
+      text: scene.text,
+      ...(typeof scene.label === 'string' && scene.label ? { label: scene.label } : {}),
+      analysis: null,
+      status: 'PENDING',
+      error: null,
+    }));
+}
+
+function omittedScenes(omitted: unknown): OmittedScene[] {
+  if (!Array.isArray(omitted)) return [];
+  return omitted
+    .filter(scene => scene && typeof scene === 'object' && typeof scene.label === 'string')
+    .map(scene => ({ label: scene.label, ...(typeof scene.heading === 'string' ? { heading: scene.heading } : {}) }));
+}
+
 export default async function handler(
   req: VercelRequest,
   res: VercelResponse
@@ -19,10 +44,10 @@ export default async function handler(
   }
 
   try {
-    const projectData = req.body;
+    const projectData = req.body || {};
 
     // Basic validation
-    if (!projectData || !projectData.name) {
+    if (typeof projectData.name !== 'string' || !projectData.name.trim()) {
       return res.status(400).json({
         error: 'Missing project data or name',
         message: 'The request body must include a project name.'
@@ -38,16 +63,35 @@ export default async function handler(
     const db = await getDb();
     const collection = db.collection('projects');
 
-    // 2. Prepare data for insertion/update — force userId from verified session.
+    // 2. A project created in a workspace belongs to it; any member may create one
+    let workspaceFields = {};
+    if (projectData.workspaceId) {
+      const workspace = typeof projectData.workspaceId === 'string'
+        ? await findWorkspace(db, projectData.workspaceId)
+        : null;
+      if (!workspace || !workspaceRole(workspace.members, authUserId)) {
+        return res.status(403).json({ error: 'You are not a member of that workspace' });
+      }
+      workspaceFields = { workspaceId: projectData.workspaceId, workspaceMembers: projectMembersOf(workspace.members) };
+    }
+
+    // 3. Build the new project from the fields a client may set; ownership,
+    // sharing, frames and versions are the server's. userId comes from the session.
     const now = new Date();
     const projectToSave = {
-      ...projectData,
+      name: projectData.name.trim(),
+      scenes: newScenes(projectData.scenes),
+      characters: Array.isArray(projectData.characters) ? projectData.characters : [],
+      sceneNumbersLocked: projectData.sceneNumbersLocked === true,
+      omittedScenes: omittedScenes(projectData.omittedScenes),
+      status: typeof projectData.status === 'string' ? projectData.status : 'processing',
+      ...workspaceFields,
       userId: authUserId,
       updatedAt: now,
-      createdAt: projectData.createdAt || now, // Preserve createdAt if it exists
+      createdAt: now,
     };
 
-    // 3. Insert the new project
+    // 4. Insert the new project
     const result = await collection.insertOne(projectToSave);
 
     const duration = Date.now() - startTime;
@@ -0,0 +1,58 @@
+// api/projects/scene-revisions.ts
+// Lists the analysis revisions recorded for one scene, newest first
+import { VercelRequest, VercelResponse } from '@vercel/node'
+import { getDb } from '../lib/mongodb.js'
+import { ObjectId } from 'mongodb'
+import { logger } from "../lib/logger";
+import { REVISIONS_COLLECTION, RevisionDocument, toRevision } from '../lib/analysisRevisions'
+import { ACCESS_PROJECTION, projectAccessError } from '../lib/projectAccess'
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  // CORS handled by server.mjs middleware
+  if (req.method !== 'GET') return res.status(405).json({ error: 'Method not allowed' })
+
+  try {
+    const { projectId, sceneNumber } = req.query
+    const sceneNum = Number(sceneNumber)
+
+    if (!projectId || typeof projectId !== 'string' || !Number.isFinite(sceneNum)) {
+      return res.status(400).json({ error: 'projectId and sceneNumber are required' })
+    }
+
+    const authUserId = (req as VercelRequest & { auth?: { userId?: string } }).auth?.userId
+    if (!authUserId) {
+      return res.status(401).json({ error: 'Authentication required' })
+    }
+
+    const db = await getDb()
+    const project = await db.collection('projects').findOne(
+      { _id: new ObjectId(projectId) },
+      { projection: ACCESS_PROJECTION }
+    )
+    if (!project) {
+      return res.status(404).json({ error: 'Project not found' })
+    }
+    const accessError = projectAccessError(project, authUserId, 'viewer')
+    if (accessError) {
+      return res.status(403).json({ error: accessError })
+    }
+
+    const docs = await db.collection<RevisionDocument>(REVISIONS_COLLECTION)
+      .find({ projectId, sceneNumber: sceneNum })
+      .sort({ revision: -1 })
+      .toArray()
+
+    logger.log("scene-revisions", `🗂️ Project ${projectId} scene ${sceneNum}: ${docs.length} revision(s)`)
+
+    return res.status(200).json({
+      success: true,
+      revisions: docs.map(toRevision)
+    })
+  } catch (error) {
+    logger.error("scene-revisions", 'List error:', error)
+    return res.status(500).json({
+      error: 'Failed to load revisions',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    })
+  }
+}
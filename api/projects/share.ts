@@ -0,0 +1,147 @@
+// api/projects/share.ts
+// Manages who a project is shared with. The owner adds people by the email
+// address of their account, changes their role or removes them; anyone the
+// project is shared with can remove themselves. Roles are described in
+// src/lib/projectAccess.ts.
+import { VercelRequest, VercelResponse } from '@vercel/node'
+import { getDb } from '../lib/mongodb.js'
+import { ObjectId } from 'mongodb'
+import { logger } from "../lib/logger";
+import { getClerk } from '../lib/requireAuth'
+import { ACCESS_PROJECTION, projectAccessError } from '../lib/projectAccess'
+import { publishProjectChange } from '../lib/projectEvents'
+import { isCollaboratorRole, type ProjectCollaborator } from '../../src/lib/projectAccess'
+
+const MAX_COLLABORATORS = 50
+
+interface ProjectDocument {
+  userId?: string
+  collaborators?: ProjectCollaborator[]
+  updatedAt?: Date
+}
+
+async function findAccount(email: string): Promise<{ userId: string; email: string; name?: string } | null> {
+  const { clerk } = getClerk()
+  if (!clerk) throw new Error('CLERK_SECRET_KEY is not configured')
+  const { data } = await clerk.users.getUserList({ emailAddress: [email] })
+  const user = data[0]
+  if (!user) return null
+  return {
+    userId: user.id,
+    email: user.primaryEmailAddress?.emailAddress || email,
+    ...(user.fullName ? { name: user.fullName } : {}),
+  }
+}
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  // CORS handled by server.mjs middleware
+  if (req.method !== 'POST') return res.status(405).json({ error: 'Method not allowed' })
+
+  try {
+    const { projectId, action, email, userId, role } = req.body || {}
+
+    if (!projectId || !ObjectId.isValid(projectId)) {
+      return res.status(400).json({ error: 'A valid projectId is required' })
+    }
+    if (action !== 'add' && action !== 'update' && action !== 'remove') {
+      return res.status(400).json({ error: 'action must be add, update or remove' })
+    }
+    if ((action === 'add' || action === 'update') && !isCollaboratorRole(role)) {
+      return res.status(400).json({ error: 'role must be editor, commenter or viewer' })
+    }
+    if ((action === 'update' || action === 'remove') && (typeof userId !== 'string' || !userId)) {
+      return res.status(400).json({ error: 'userId is required' })
+    }
+
+    const authUserId = (req as VercelRequest & { auth?: { userId?: string } }).auth?.userId
+    if (!authUserId) {
+      return res.status(401).json({ error: 'Authentication required' })
+    }
+
+    const db = await getDb()
+    const collection = db.collection<ProjectDocument>('projects')
+    const objectId = new ObjectId(projectId)
+
+    const project = await collection.findOne({ _id: objectId }, { projection: ACCESS_PROJECTION })
+    if (!project) {
+      return res.status(404).json({ error: 'Project not found' })
+    }
+    const collaborators = project.collaborators || []
+
+    // Leaving a project needs no more than being in it
+    const leaving = action === 'remove' && userId === authUserId && project.userId !== authUserId
+    const accessError = projectAccessError(project, authUserId, leaving ? 'viewer' : 'owner')
+    if (accessError) {
+      return res.status(403).json({ error: accessError })
+    }
+    // Sharing is tied to the owner's account; projects from before accounts have none
+    if (!project.userId) {
+      return res.status(400).json({ error: 'This project has no owner to share it from. Claim it first.' })
+    }
+
+    if (action === 'add') {
+      if (typeof email !== 'string' || !email.includes('@')) {
+        return res.status(400).json({ error: 'A valid email address is required' })
+      }
+      if (collaborators.length >= MAX_COLLABORATORS) {
+        return res.status(400).json({ error: `Projects can be shared with at most ${MAX_COLLABORATORS} people` })
+      }
+      const account = await findAccount(email.trim().toLowerCase())
+      if (!account) {
+        return res.status(404).json({
+          error: 'USER_NOT_FOUND',
+          userMessage: `No account uses ${email.trim()}. Ask them to sign up first, then share again.`
+        })
+      }
+      if (account.userId === project.userId) {
+        return res.status(400).json({ error: 'The owner already has access' })
+      }
+      const collaborator: ProjectCollaborator = {
+        ...account,
+        role,
+        addedBy: authUserId,
+        addedAt: new Date().toISOString()
+      }
+      const result = await collection.updateOne(
+        { _id: objectId, 'collaborators.userId': { $ne: account.userId } },
+        { $push: { collaborators: collaborator }, $set: { updatedAt: new Date() } }
+      )
+      if (result.matchedCount === 0) {
+        return res.status(409).json({ error: 'ALREADY_SHARED', userMessage: `The project is already shared with ${account.email}.` })
+      }
+    } else if (action === 'update') {
+      const result = await collection.updateOne(
+        { _id: objectId, 'collaborators.userId': userId },
+        { $set: { 'collaborators.$.role': role, updatedAt: new Date() } }
+      )
+      if (result.matchedCount === 0) {
+        return res.status(404).json({ error: 'Collaborator not found' })
+      }
+    } else {
+      const result = await collection.updateOne(
+        { _id: objectId },
+        { $pull: { collaborators: { userId } }, $set: { updatedAt: new Date() } }
+      )
+      if (result.modifiedCount === 0) {
+        return res.status(404).json({ error: 'Collaborator not found' })
+      }
+    }
+
+    publishProjectChange(projectId, 'sharing', authUserId)
+
+    const updated = await collection.findOne({ _id: objectId }, { projection: { collaborators: 1 } })
+
+    logger.log("share", `🤝 Project ${projectId}: ${action} ${action === 'add' ? email : userId}${role ? ` as ${role}` : ''}`)
+
+    return res.status(200).json({
+      success: true,
+      collaborators: updated?.collaborators || []
+    })
+  } catch (error) {
+    logger.error("share", 'Share error:', error)
+    return res.status(500).json({
+      error: 'Failed to update sharing',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    })
+  }
+}
@@ -0,0 +1,88 @@
+// api/projects/update-budget.ts
+// Saves the budget rate card on the project document
+import { VercelRequest, VercelResponse } from '@vercel/node'
+import { getDb } from '../lib/mongodb.js'
+import { ObjectId } from 'mongodb'
+import { logger } from "../lib/logger";
+import { projectAccessError } from '../lib/projectAccess'
+import { writeSection, sendConflict } from '../lib/projectVersions'
+import { publishProjectChange } from '../lib/projectEvents'
+import { parseBaseVersion } from '../../src/lib/projectVersions'
+import { validateRateCard, type RateCard } from '../../src/lib/rateCard'
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  // CORS handled by server.mjs middleware
+  if (req.method !== 'POST') return res.status(405).json({ error: 'Method not allowed' })
+
+  try {
+    const { projectId, rateCard, baseVersion } = req.body
+
+    if (!projectId) {
+      return res.status(400).json({ error: 'projectId is required' })
+    }
+
+    // null resets the project to the default rates
+    let validated: RateCard | null = null
+    if (rateCard !== null) {
+      const checked = validateRateCard(rateCard)
+      if ('error' in checked) {
+        return res.status(400).json({ error: checked.error })
+      }
+      validated = checked.rateCard
+    }
+
+    const authUserId = (req as VercelRequest & { auth?: { userId?: string } }).auth?.userId
+    if (!authUserId) {
+      return res.status(401).json({ error: 'Authentication required' })
+    }
+
+    logger.log("update-budget", "💰 Updating rate card for project", projectId)
+
+    const db = await getDb()
+    const collection = db.collection('projects')
+    const objectId = new ObjectId(projectId)
+
+    const existing = await collection.findOne({ _id: objectId })
+    if (!existing) {
+      return res.status(404).json({ error: 'Project not found' })
+    }
+    const accessError = projectAccessError(existing, authUserId, 'editor')
+    if (accessError) {
+      return res.status(403).json({ error: accessError })
+    }
+
+    const stored = validated === null ? null : {
+      rateCard: validated,
+      updatedAt: new Date().toISOString()
+    }
+
+    const written = await writeSection(collection, objectId, 'budget', parseBaseVersion(baseVersion), {
+      $set: {
+        budget: stored,
+        updatedAt: new Date()
+      }
+    })
+    if (!written) {
+      return res.status(404).json({ error: 'Project not found' })
+    }
+    if ('conflict' in written) {
+      return sendConflict(res, [written.conflict])
+    }
+    publishProjectChange(projectId, 'budget', authUserId)
+
+    logger.log("update-budget", "✅ Rate card updated, version:", written.version)
+
+    return res.status(200).json({
+      success: true,
+      message: 'Budget updated',
+      budget: stored,
+      version: written.version
+    })
+  } catch (error) {
+    logger.error("update-budget", 'Update error:', error)
+    return res.status(500).json({
+      error: 'Failed to update',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    })
+  }
+}
@@ -1,20 +1,28 @@
 // api/projects/update-characters.ts
-// Updates project character definitions in MongoDB
+// Updates the project's character registry in MongoDB
 import { VercelRequest, VercelResponse } from '@vercel/node'
 import { getDb } from '../lib/mongodb.js'
 import { ObjectId } from 'mongodb'
 import { logger } from "../lib/logger";
+import { projectAccessError } from '../lib/projectAccess'
+import { writeSection, sendConflict } from '../lib/projectVersions'
+import { publishProjectChange } from '../lib/projectEvents'
+import { parseBaseVersion } from '../../src/lib/projectVersions'
+import { ensureRegistry } from '../../src/lib/characterRegistry'
 
 export default async function handler(req: VercelRequest, res: VercelResponse) {
   // CORS handled by server.mjs middleware
   if (req.method !== 'POST') return res.status(405).json({ error: 'Method not allowed' })
   
   try {
-    const { projectId, characters } = req.body
+    const { projectId, characters, baseVersion } = req.body
     
     if (!projectId) {
       return res.status(400).json({ error: 'projectId is required' })
     }
+    if (characters != null && !Array.isArray(characters)) {
+      return res.status(400).json({ error: 'characters must be an array' })
+    }
 
     const authUserId = (req as any).auth?.userId as string | undefined
     if (!authUserId) {
@@ -32,26 +40,36 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     if (!existing) {
       return res.status(404).json({ error: 'Project not found' })
     }
-    if (existing.userId && existing.userId !== authUserId) {
-      return res.status(403).json({ error: 'Forbidden' })
+    const accessError = projectAccessError(existing, authUserId, 'editor')
+    if (accessError) {
+      return res.status(403).json({ error: accessError })
     }
 
-    const result = await collection.updateOne(
-      { _id: objectId },
-      {
-        $set: {
-          characters: characters || [],
-          updatedAt: new Date()
-        }
+    // Normalizes names, assigns IDs/cast numbers to new entries and folds
+    // duplicates, so every client write leaves a consistent registry
+    const registry = ensureRegistry(characters)
+
+    const written = await writeSection(collection, objectId, 'characters', parseBaseVersion(baseVersion), {
+      $set: {
+        characters: registry,
+        updatedAt: new Date()
       }
-    )
+    })
+    if (!written) {
+      return res.status(404).json({ error: 'Project not found' })
+    }
+    if ('conflict' in written) {
+      return sendConflict(res, [written.conflict])
+    }
+    publishProjectChange(projectId, 'characters', authUserId)
     
-    logger.log("update-characters", "✅ Characters updated, modified:", result.modifiedCount)
+    logger.log("update-characters", "✅ Characters updated, version:", written.version)
     
     return res.status(200).json({
       success: true,
       message: 'Characters updated',
-      modifiedCount: result.modifiedCount
+      characters: registry,
+      version: written.version
     })
   } catch (error) {
     logger.error("update-characters", 'Update error:', error)
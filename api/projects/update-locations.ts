@@ -0,0 +1,81 @@
+// api/projects/update-locations.ts
+// Updates the project's shooting locations in MongoDB
+import { VercelRequest, VercelResponse } from '@vercel/node'
+import { getDb } from '../lib/mongodb.js'
+import { ObjectId } from 'mongodb'
+import { logger } from "../lib/logger";
+import { projectAccessError } from '../lib/projectAccess'
+import { writeSection, sendConflict } from '../lib/projectVersions'
+import { publishProjectChange } from '../lib/projectEvents'
+import { parseBaseVersion } from '../../src/lib/projectVersions'
+import { ensureLocations } from '../../src/lib/locationRegistry'
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  // CORS handled by server.mjs middleware
+  if (req.method !== 'POST') return res.status(405).json({ error: 'Method not allowed' })
+
+  try {
+    const { projectId, locations, baseVersion } = req.body
+
+    if (!projectId) {
+      return res.status(400).json({ error: 'projectId is required' })
+    }
+    if (locations != null && !Array.isArray(locations)) {
+      return res.status(400).json({ error: 'locations must be an array' })
+    }
+
+    const authUserId = (req as VercelRequest & { auth?: { userId?: string } }).auth?.userId
+    if (!authUserId) {
+      return res.status(401).json({ error: 'Authentication required' })
+    }
+
+    logger.log("update-locations", "📍 Updating locations for project", projectId)
+    logger.log("update-locations", "   Location count:", locations?.length || 0)
+
+    const db = await getDb()
+    const collection = db.collection('projects')
+    const objectId = new ObjectId(projectId)
+
+    const existing = await collection.findOne({ _id: objectId })
+    if (!existing) {
+      return res.status(404).json({ error: 'Project not found' })
+    }
+    const accessError = projectAccessError(existing, authUserId, 'editor')
+    if (accessError) {
+      return res.status(403).json({ error: accessError })
+    }
+
+    // Assigns IDs, normalizes set names and drops bad photo links, and gives
+    // each set to one location, so every client write leaves a consistent list
+    const stored = ensureLocations(locations)
+
+    const written = await writeSection(collection, objectId, 'locations', parseBaseVersion(baseVersion), {
+      $set: {
+        locations: stored,
+        updatedAt: new Date()
+      }
+    })
+    if (!written) {
+      return res.status(404).json({ error: 'Project not found' })
+    }
+    if ('conflict' in written) {
+      return sendConflict(res, [written.conflict])
+    }
+    publishProjectChange(projectId, 'locations', authUserId)
+
+    logger.log("update-locations", "✅ Locations updated, version:", written.version)
+
+    return res.status(200).json({
+      success: true,
+      message: 'Locations updated',
+      locations: stored,
+      version: written.version
+    })
+  } catch (error) {
+    logger.error("update-locations", 'Update error:', error)
+    return res.status(500).json({
+      error: 'Failed to update',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    })
+  }
+}
@@ -0,0 +1,94 @@
+// api/projects/update-numbering.ts
+// Locks or unlocks production scene numbers. Locking stamps every scene with
+// the number it has now, so later revisions insert 12A/12B and leave
+// OMITTED placeholders instead of renumbering.
+import { VercelRequest, VercelResponse } from '@vercel/node'
+import { getDb } from '../lib/mongodb.js'
+import { ObjectId } from 'mongodb'
+import { logger } from "../lib/logger";
+import { projectAccessError } from '../lib/projectAccess'
+import { writeSection, sendConflict } from '../lib/projectVersions'
+import { publishProjectChange } from '../lib/projectEvents'
+import { parseBaseVersion } from '../../src/lib/projectVersions'
+import { assignLockedLabels } from '../../src/lib/sceneNumbering'
+
+interface StoredScene {
+  number: number
+  label?: string
+  [key: string]: unknown
+}
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  // CORS handled by server.mjs middleware
+  if (req.method !== 'POST') return res.status(405).json({ error: 'Method not allowed' })
+
+  try {
+    const { projectId, locked, baseVersion } = req.body
+
+    if (!projectId) {
+      return res.status(400).json({ error: 'projectId is required' })
+    }
+    if (typeof locked !== 'boolean') {
+      return res.status(400).json({ error: 'locked must be a boolean' })
+    }
+
+    const authUserId = (req as VercelRequest & { auth?: { userId?: string } }).auth?.userId
+    if (!authUserId) {
+      return res.status(401).json({ error: 'Authentication required' })
+    }
+
+    const db = await getDb()
+    const collection = db.collection('projects')
+    const objectId = new ObjectId(projectId)
+
+    const existing = await collection.findOne({ _id: objectId })
+    if (!existing) {
+      return res.status(404).json({ error: 'Project not found' })
+    }
+    const accessError = projectAccessError(existing, authUserId, 'editor')
+    if (accessError) {
+      return res.status(403).json({ error: accessError })
+    }
+
+    const update: Record<string, unknown> = { sceneNumbersLocked: locked, updatedAt: new Date() }
+    let labeled: number[] = []
+    if (locked) {
+      const scenes: StoredScene[] = (existing.scenes || []).map((scene: StoredScene, index: number) => ({
+        ...scene,
+        number: scene.number || index + 1,
+      }))
+      // An unnumbered draft locks at its current numbering; a partly numbered
+      // one keeps its numbers and treats the rest as inserts
+      const labels = scenes.some(scene => scene.label)
+        ? assignLockedLabels(scenes.map(scene => scene.label), (existing.omittedScenes || []).map((o: { label: string }) => o.label))
+        : scenes.map(scene => String(scene.number))
+      // Only the labels are written, so edits to the scenes in between survive
+      scenes.forEach((scene, idx) => { update[`scenes.${idx}.label`] = labels[idx] })
+      labeled = scenes.map(scene => scene.number)
+    }
+
+    const written = await writeSection(collection, objectId, 'numbering', parseBaseVersion(baseVersion), { $set: update })
+    if (!written) {
+      return res.status(404).json({ error: 'Project not found' })
+    }
+    if ('conflict' in written) {
+      return sendConflict(res, [written.conflict])
+    }
+    publishProjectChange(projectId, 'numbering', authUserId, labeled)
+
+    logger.log("update-numbering", `🔢 Project ${projectId} scene numbers ${locked ? 'locked' : 'unlocked'}`)
+
+    return res.status(200).json({
+      success: true,
+      message: locked ? 'Scene numbers locked' : 'Scene numbers unlocked',
+      locked,
+      version: written.version
+    })
+  } catch (error) {
+    logger.error("update-numbering", 'Update error:', error)
+    return res.status(500).json({
+      error: 'Failed to update',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    })
+  }
+}
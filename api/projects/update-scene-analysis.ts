@@ -4,6 +4,12 @@ import { VercelRequest, VercelResponse } from '@vercel/node'
 import { getDb } from '../lib/mongodb.js'
 import { ObjectId } from 'mongodb'
 import { logger } from "../lib/logger";
+import { appendRevisions, parseRevisionSource, RevisionWrite } from '../lib/analysisRevisions'
+import { stampSceneAnalysis, writeRekeyedFrames } from '../lib/shotIds'
+import { projectAccessError } from '../lib/projectAccess'
+import { writeScenes, sendConflict } from '../lib/projectVersions'
+import { publishProjectChange } from '../lib/projectEvents'
+import { parseBaseVersion } from '../../src/lib/projectVersions'
 
 // ╔═══════════════════════════════════════════════════════════════════════════╗
 // ║                    ⚠️  CRITICAL: DATA FORMAT LOCK  ⚠️                      ║
@@ -45,7 +51,7 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
   if (req.method !== 'POST') return res.status(405).json({ error: 'Method not allowed', deployMarker: DEPLOY_TIMESTAMP })
 
   try {
-    const { projectId, sceneNumber, analysis } = req.body
+    const { projectId, sceneNumber, analysis, source, model, baseVersion } = req.body
 
     if (!projectId || !sceneNumber || !analysis) {
       return res.status(400).json({
@@ -71,8 +77,9 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       return res.status(404).json({ error: 'Project not found', deployMarker: DEPLOY_TIMESTAMP })
     }
 
-    if (project.userId && project.userId !== authUserId) {
-      return res.status(403).json({ error: 'Forbidden', deployMarker: DEPLOY_TIMESTAMP })
+    const accessError = projectAccessError(project, authUserId, 'editor')
+    if (accessError) {
+      return res.status(403).json({ error: accessError, deployMarker: DEPLOY_TIMESTAMP })
     }
 
     // Extract the actual analysis data (handle nested structure from API)
@@ -84,26 +91,13 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     logger.log("update-scene-analysis", `   [${invocationId}] Analysis data keys: ${Object.keys(analysisData).join(', ')}`)
 
     // Update the specific scene's analysis
-    let matchFound = false
-    const updatedScenes = (project.scenes || []).map((scene: any, index: number) => {
-      const sceneNum = scene.number || scene.scene_number || (index + 1)
-      const targetNum = Number(sceneNumber)
-      
-      if (Number(sceneNum) === targetNum) {
-        matchFound = true
-        logger.log("update-scene-analysis", `   ✅ [${invocationId}] Updating scene ${sceneNum}`)
-        return {
-          ...scene,
-          // CRITICAL FIX: Stringify analysis so parseAnalysis() can JSON.parse() it
-          // This matches how Index.tsx saves initial analysis
-          analysis: JSON.stringify(analysisData),
-          status: 'COMPLETED'
-        }
-      }
-      return scene
-    })
+    const revisionWrites: RevisionWrite[] = []
+    const targetNum = Number(sceneNumber)
+    const index = (project.scenes || []).findIndex((scene: any, i: number) =>
+      Number(scene.number || scene.scene_number || (i + 1)) === targetNum
+    )
 
-    if (!matchFound) {
+    if (index < 0) {
       return res.status(404).json({
         error: 'Scene not found',
         message: `No scene with number ${sceneNumber} found`,
@@ -111,13 +105,51 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       })
     }
 
-    await collection.updateOne(
-      { _id: objectId },
-      { $set: { scenes: updatedScenes, updatedAt: new Date() } }
-    )
+    const scene = project.scenes[index]
+    logger.log("update-scene-analysis", `   ✅ [${invocationId}] Updating scene ${targetNum}`)
+    const previous = typeof scene.analysis === 'string' || !scene.analysis ? scene.analysis : JSON.stringify(scene.analysis)
+    // Shots keep their IDs (or inherit them from the shots they replace)
+    const stamped = stampSceneAnalysis(analysisData, previous, targetNum, project.storyboardFrames)
+    const stringifiedAnalysis = stamped.analysis
+    if (previous !== stringifiedAnalysis) {
+      // This endpoint is the save path for analyze-scene results, so default to AI
+      revisionWrites.push({
+        sceneNumber: targetNum,
+        analysis: stringifiedAnalysis,
+        previous,
+        source: parseRevisionSource(source, 'ai'),
+        model: typeof model === 'string' ? model : undefined
+      })
+    }
+
+    // Only this scene's fields are written; the rest of the project is untouched
+    const written = await writeScenes(collection, objectId, [{
+      index,
+      sceneNumber: targetNum,
+      baseVersion: parseBaseVersion(baseVersion),
+      fields: {
+        // CRITICAL FIX: Stringify analysis so parseAnalysis() can JSON.parse() it
+        // This matches how Index.tsx saves initial analysis
+        analysis: stringifiedAnalysis,
+        status: 'COMPLETED',
+        // A fresh analysis clears the script-revision "needs re-analysis" flag
+        needsReanalysis: false
+      }
+    }], { $set: { updatedAt: new Date() } })
+
+    if (!written) {
+      return res.status(404).json({ error: 'Project not found', deployMarker: DEPLOY_TIMESTAMP })
+    }
+    if ('conflicts' in written) {
+      return sendConflict(res, written.conflicts)
+    }
+    await writeRekeyedFrames(collection, objectId, project.storyboardFrames, stamped.frames)
+    publishProjectChange(projectId, 'scenes', authUserId, [targetNum])
 
     logger.log("update-scene-analysis", `✅ [${invocationId}] Scene ${sceneNumber} analysis saved as string`)
 
+    const [revision] = await appendRevisions(db, projectId, authUserId, revisionWrites, project.userId)
+
     // ═══════════════════════════════════════════════════════════════
     // VERIFICATION: Fetch back and validate format
     // ═══════════════════════════════════════════════════════════════
@@ -190,6 +222,8 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     return res.status(200).json({
       success: true,
       message: `Scene ${sceneNumber} analysis updated`,
+      revision: revision ? { id: revision.id, revision: revision.revision } : null,
+      version: written.versions[targetNum],
       deployMarker: DEPLOY_TIMESTAMP
     })
 
@@ -6,6 +6,8 @@ import { VercelRequest, VercelResponse } from '@vercel/node'
 import { getDb } from '../lib/mongodb.js'
 import { ObjectId } from 'mongodb'
 import { logger } from "../lib/logger";
+import { projectAccessError } from '../lib/projectAccess'
+import { publishProjectChange } from '../lib/projectEvents'
 
 export default async function handler(req: VercelRequest, res: VercelResponse) {
   // CORS handled by server.mjs middleware
@@ -37,40 +39,40 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       return res.status(404).json({ error: 'Project not found' })
     }
 
-    if (project.userId && project.userId !== authUserId) {
-      return res.status(403).json({ error: 'Forbidden' })
+    const accessError = projectAccessError(project, authUserId, 'editor')
+    if (accessError) {
+      return res.status(403).json({ error: accessError })
     }
 
     // Update the specific scene's status
-    let matchFound = false
-    const updatedScenes = (project.scenes || []).map((scene: any, index: number) => {
-      const sceneNum = scene.number || scene.scene_number || (index + 1)
-      const targetNum = Number(sceneNumber)
-
-      if (Number(sceneNum) === targetNum) {
-        matchFound = true
-        logger.log("update-scene-status", `Updating scene ${sceneNum} status: ${scene.status} -> ${status}`)
-        return {
-          ...scene,
-          status,
-          error: errorMessage || null,
-          updatedAt: new Date().toISOString()
-        }
-      }
-      return scene
-    })
+    const targetNum = Number(sceneNumber)
+    const index = (project.scenes || []).findIndex((scene: any, i: number) =>
+      Number(scene.number || scene.scene_number || (i + 1)) === targetNum
+    )
 
-    if (!matchFound) {
+    if (index < 0) {
       return res.status(404).json({
         error: 'Scene not found',
         message: `No scene with number ${sceneNumber} found`
       })
     }
 
+    logger.log("update-scene-status", `Updating scene ${targetNum} status: ${project.scenes[index].status} -> ${status}`)
+
+    // Status is bookkeeping rather than content, so it is written in place
+    // without bumping the scene's version (a pending edit shouldn't conflict with it)
     await collection.updateOne(
       { _id: objectId },
-      { $set: { scenes: updatedScenes, updatedAt: new Date() } }
+      {
+        $set: {
+          [`scenes.${index}.status`]: status,
+          [`scenes.${index}.error`]: errorMessage || null,
+          [`scenes.${index}.updatedAt`]: new Date().toISOString(),
+          updatedAt: new Date()
+        }
+      }
     )
+    publishProjectChange(projectId, 'scenes', authUserId, [targetNum])
 
     logger.log("update-scene-status", `Scene ${sceneNumber} status updated to ${status}`)
 
@@ -0,0 +1,106 @@
+// api/projects/update-schedule.ts
+// Saves the stripboard / shooting schedule on the project document
+import { VercelRequest, VercelResponse } from '@vercel/node'
+import { getDb } from '../lib/mongodb.js'
+import { ObjectId } from 'mongodb'
+import { logger } from "../lib/logger";
+import { projectAccessError } from '../lib/projectAccess'
+import { writeSection, sendConflict } from '../lib/projectVersions'
+import { publishProjectChange } from '../lib/projectEvents'
+import { parseBaseVersion } from '../../src/lib/projectVersions'
+
+interface ShootDayInput {
+  dayNumber: number
+  sceneNumbers: number[]
+}
+
+interface ScheduleInput {
+  settings?: { maxEighthsPerDay?: unknown }
+  days?: unknown
+  generatedAt?: string
+}
+
+function isValidSchedule(schedule: ScheduleInput | null | undefined): boolean {
+  if (!schedule || typeof schedule !== 'object') return false
+  const maxEighths = schedule.settings?.maxEighthsPerDay
+  if (typeof maxEighths !== 'number' || maxEighths <= 0) return false
+  if (!Array.isArray(schedule.days)) return false
+  return schedule.days.every((day: ShootDayInput) =>
+    day && typeof day.dayNumber === 'number' &&
+    Array.isArray(day.sceneNumbers) && day.sceneNumbers.every(n => typeof n === 'number')
+  )
+}
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  // CORS handled by server.mjs middleware
+  if (req.method !== 'POST') return res.status(405).json({ error: 'Method not allowed' })
+
+  try {
+    const { projectId, schedule, baseVersion } = req.body
+
+    if (!projectId) {
+      return res.status(400).json({ error: 'projectId is required' })
+    }
+    // null clears the schedule
+    if (schedule !== null && !isValidSchedule(schedule)) {
+      return res.status(400).json({ error: 'schedule must have settings.maxEighthsPerDay and days[{ dayNumber, sceneNumbers }]' })
+    }
+
+    const authUserId = (req as VercelRequest & { auth?: { userId?: string } }).auth?.userId
+    if (!authUserId) {
+      return res.status(401).json({ error: 'Authentication required' })
+    }
+
+    logger.log("update-schedule", "🗓️ Updating schedule for project", projectId)
+    logger.log("update-schedule", "   Shoot days:", schedule?.days?.length || 0)
+
+    const db = await getDb()
+    const collection = db.collection('projects')
+    const objectId = new ObjectId(projectId)
+
+    const existing = await collection.findOne({ _id: objectId })
+    if (!existing) {
+      return res.status(404).json({ error: 'Project not found' })
+    }
+    const accessError = projectAccessError(existing, authUserId, 'editor')
+    if (accessError) {
+      return res.status(403).json({ error: accessError })
+    }
+
+    const stored = schedule === null ? null : {
+      settings: { maxEighthsPerDay: schedule.settings.maxEighthsPerDay },
+      days: schedule.days.map((day: ShootDayInput) => ({ dayNumber: day.dayNumber, sceneNumbers: day.sceneNumbers })),
+      generatedAt: schedule.generatedAt || new Date().toISOString(),
+      updatedAt: new Date().toISOString()
+    }
+
+    const written = await writeSection(collection, objectId, 'schedule', parseBaseVersion(baseVersion), {
+      $set: {
+        schedule: stored,
+        updatedAt: new Date()
+      }
+    })
+    if (!written) {
+      return res.status(404).json({ error: 'Project not found' })
+    }
+    if ('conflict' in written) {
+      return sendConflict(res, [written.conflict])
+    }
+    publishProjectChange(projectId, 'schedule', authUserId)
+
+    logger.log("update-schedule", "✅ Schedule updated, version:", written.version)
+
+    return res.status(200).json({
+      success: true,
+      message: 'Schedule updated',
+      schedule: stored,
+      version: written.version
+    })
+  } catch (error) {
+    logger.error("update-schedule", 'Update error:', error)
+    return res.status(500).json({
+      error: 'Failed to update',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    })
+  }
+}
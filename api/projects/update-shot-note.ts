@@ -0,0 +1,75 @@
+// api/projects/update-shot-note.ts
+// Saves (or clears) the storyboard note on one shot, keyed by its shot ID
+import { VercelRequest, VercelResponse } from '@vercel/node'
+import { getDb } from '../lib/mongodb.js'
+import { ObjectId } from 'mongodb'
+import { logger } from "../lib/logger";
+import { projectAccessError, ACCESS_PROJECTION } from '../lib/projectAccess'
+import { publishProjectChange } from '../lib/projectEvents'
+import { isShotId, MAX_SHOT_NOTE_LENGTH } from '../../src/lib/shotIds'
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  // CORS handled by server.mjs middleware
+  if (req.method !== 'POST') return res.status(405).json({ error: 'Method not allowed' })
+
+  try {
+    const { projectId, shotId, note } = req.body || {}
+
+    if (!projectId || !ObjectId.isValid(projectId)) {
+      return res.status(400).json({ error: 'A valid projectId is required' })
+    }
+    if (!isShotId(shotId)) {
+      return res.status(400).json({ error: 'A valid shotId is required' })
+    }
+    if (typeof note !== 'string') {
+      return res.status(400).json({ error: 'note must be a string' })
+    }
+    if (note.length > MAX_SHOT_NOTE_LENGTH) {
+      return res.status(400).json({ error: `Notes are limited to ${MAX_SHOT_NOTE_LENGTH} characters` })
+    }
+
+    const authUserId = (req as VercelRequest & { auth?: { userId?: string } }).auth?.userId
+    if (!authUserId) {
+      return res.status(401).json({ error: 'Authentication required' })
+    }
+
+    const db = await getDb()
+    const collection = db.collection('projects')
+    const objectId = new ObjectId(projectId)
+
+    const existing = await collection.findOne({ _id: objectId }, { projection: ACCESS_PROJECTION })
+    if (!existing) {
+      return res.status(404).json({ error: 'Project not found' })
+    }
+    const accessError = projectAccessError(existing, authUserId, 'editor')
+    if (accessError) {
+      return res.status(403).json({ error: accessError })
+    }
+
+    // An empty note removes the entry rather than storing a blank
+    const trimmed = note.trim()
+    const field = `shotNotes.${shotId}`
+    await collection.updateOne(
+      { _id: objectId },
+      trimmed
+        ? { $set: { [field]: trimmed, updatedAt: new Date() } }
+        : { $unset: { [field]: '' }, $set: { updatedAt: new Date() } }
+    )
+
+    publishProjectChange(projectId, 'notes', authUserId)
+
+    logger.log("update-shot-note", `📝 Note ${trimmed ? 'saved' : 'cleared'} on shot ${shotId} of project ${projectId}`)
+
+    return res.status(200).json({
+      success: true,
+      shotId,
+      note: trimmed
+    })
+  } catch (error) {
+    logger.error("update-shot-note", 'Update error:', error)
+    return res.status(500).json({
+      error: 'Failed to update',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    })
+  }
+}
@@ -4,13 +4,17 @@ import { VercelRequest, VercelResponse } from '@vercel/node'
 import { getDb } from '../lib/mongodb.js'
 import { ObjectId } from 'mongodb'
 import { logger } from "../lib/logger";
+import { projectAccessError } from '../lib/projectAccess'
+import { writeSection, sendConflict } from '../lib/projectVersions'
+import { publishProjectChange } from '../lib/projectEvents'
+import { parseBaseVersion } from '../../src/lib/projectVersions'
 
 export default async function handler(req: VercelRequest, res: VercelResponse) {
   // CORS handled by server.mjs middleware
   if (req.method !== 'POST') return res.status(405).json({ error: 'Method not allowed' })
   
   try {
-    const { projectId, visualStyle } = req.body
+    const { projectId, visualStyle, baseVersion } = req.body
     
     if (!projectId) {
       return res.status(400).json({ error: 'projectId is required' })
@@ -31,27 +35,31 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     if (!existing) {
       return res.status(404).json({ error: 'Project not found' })
     }
-    if (existing.userId && existing.userId !== authUserId) {
-      return res.status(403).json({ error: 'Forbidden' })
+    const accessError = projectAccessError(existing, authUserId, 'editor')
+    if (accessError) {
+      return res.status(403).json({ error: accessError })
     }
 
-    const result = await collection.updateOne(
-      { _id: objectId },
-      {
-        $set: {
-          visual_style: visualStyle || null,
-          updatedAt: new Date()
-        }
+    const written = await writeSection(collection, objectId, 'style', parseBaseVersion(baseVersion), {
+      $set: {
+        visual_style: visualStyle || null,
+        updatedAt: new Date()
       }
-    )
+    })
+    if (!written) {
+      return res.status(404).json({ error: 'Project not found' })
+    }
+    if ('conflict' in written) {
+      return sendConflict(res, [written.conflict])
+    }
+    publishProjectChange(projectId, 'style', authUserId)
     
-    logger.log("update-style", `✅ Visual style updated, matched: ${result.matchedCount}, modified: ${result.modifiedCount}`)
+    logger.log("update-style", `✅ Visual style updated, version: ${written.version}`)
     
     return res.status(200).json({
       success: true,
       message: 'Visual style updated',
-      matchedCount: result.matchedCount,
-      modifiedCount: result.modifiedCount
+      version: written.version
     })
   } catch (error) {
     logger.error("update-style", 'Update error:', error)
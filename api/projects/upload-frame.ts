@@ -0,0 +1,144 @@
+// api/projects/upload-frame.ts
+// Stores an uploaded storyboard frame and its thumbnail in asset storage and
+// attaches it to a shot on the project, replacing any frame already there
+import { VercelRequest, VercelResponse } from '@vercel/node'
+import { getDb } from '../lib/mongodb.js'
+import { ObjectId } from 'mongodb'
+import { randomUUID } from 'crypto'
+import { logger } from "../lib/logger";
+import { projectAccessError, ACCESS_PROJECTION } from '../lib/projectAccess'
+import { publishProjectChange } from '../lib/projectEvents'
+import { getAssetStorage } from '../lib/assetStorage'
+import { withFrameUrls, deleteFrameAssets, frameKeyPrefix } from '../lib/storyboardFrames'
+import {
+  StoryboardFrame,
+  MAX_FRAME_BYTES,
+  FRAME_EXTENSIONS,
+  detectFrameContentType,
+  isFrameForShot
+} from '../../src/lib/storyboardFrames'
+import { isShotId } from '../../src/lib/shotIds'
+
+// Accepts a data URL or bare base64
+function decodeImage(value: unknown): Buffer | null {
+  if (typeof value !== 'string' || !value) return null
+  const base64 = value.startsWith('data:') ? value.slice(value.indexOf(',') + 1) : value
+  const buffer = Buffer.from(base64, 'base64')
+  return buffer.length > 0 ? buffer : null
+}
+
+const dimension = (value: unknown): number =>
+  typeof value === 'number' && Number.isFinite(value) && value > 0 ? Math.round(value) : 0
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  // CORS handled by server.mjs middleware
+  if (req.method !== 'POST') return res.status(405).json({ error: 'Method not allowed' })
+
+  try {
+    const { projectId, sceneNumber, shotKey, image, thumbnail, width, height } = req.body || {}
+
+    if (!projectId || !ObjectId.isValid(projectId)) {
+      return res.status(400).json({ error: 'A valid projectId is required' })
+    }
+    if (typeof sceneNumber !== 'number' || typeof shotKey !== 'string' || !shotKey.trim()) {
+      return res.status(400).json({ error: 'sceneNumber and shotKey are required' })
+    }
+
+    const frameBytes = decodeImage(image)
+    const thumbnailBytes = decodeImage(thumbnail)
+    if (!frameBytes || !thumbnailBytes) {
+      return res.status(400).json({ error: 'image and thumbnail are required' })
+    }
+    if (frameBytes.length > MAX_FRAME_BYTES || thumbnailBytes.length > MAX_FRAME_BYTES) {
+      return res.status(413).json({ error: `Frames are limited to ${MAX_FRAME_BYTES / (1024 * 1024)}MB` })
+    }
+    const contentType = detectFrameContentType(frameBytes)
+    const thumbnailType = detectFrameContentType(thumbnailBytes)
+    if (!contentType || !thumbnailType) {
+      return res.status(415).json({ error: 'Frames must be JPEG, PNG or WebP images' })
+    }
+
+    const authUserId = (req as VercelRequest & { auth?: { userId?: string } }).auth?.userId
+    if (!authUserId) {
+      return res.status(401).json({ error: 'Authentication required' })
+    }
+
+    const db = await getDb()
+    const collection = db.collection<{ storyboardFrames?: StoryboardFrame[] }>('projects')
+    const objectId = new ObjectId(projectId)
+
+    const existing = await collection.findOne({ _id: objectId }, { projection: ACCESS_PROJECTION })
+    if (!existing) {
+      return res.status(404).json({ error: 'Project not found' })
+    }
+    const accessError = projectAccessError(existing, authUserId, 'editor')
+    if (accessError) {
+      return res.status(403).json({ error: accessError })
+    }
+
+    const storage = getAssetStorage()
+    const id = randomUUID()
+    const frame: StoryboardFrame = {
+      id,
+      sceneNumber,
+      shotKey: shotKey.trim(),
+      contentType,
+      width: dimension(width),
+      height: dimension(height),
+      bytes: frameBytes.length,
+      storageKey: `${frameKeyPrefix(projectId)}${id}.${FRAME_EXTENSIONS[contentType]}`,
+      thumbnailKey: `${frameKeyPrefix(projectId)}${id}-thumb.${FRAME_EXTENSIONS[thumbnailType]}`,
+      uploadedBy: authUserId,
+      uploadedAt: new Date().toISOString()
+    }
+
+    await storage.put(frame.storageKey, frameBytes, contentType)
+    await storage.put(frame.thumbnailKey, thumbnailBytes, thumbnailType)
+
+    // Drop the shot's old frame and add the new one in a single update, so
+    // two uploads to the same shot can't both stay, and frames others attach
+    // to different shots in the meantime survive. Same rule as isFrameForShot
+    const sameShot = [
+      { $eq: ['$$frame.shotKey', { $literal: frame.shotKey }] },
+      ...(isShotId(frame.shotKey) ? [] : [{ $eq: ['$$frame.sceneNumber', frame.sceneNumber] }]),
+    ]
+    const before = await collection.findOneAndUpdate(
+      { _id: objectId },
+      [{
+        $set: {
+          storyboardFrames: {
+            $concatArrays: [
+              { $filter: { input: { $ifNull: ['$storyboardFrames', []] }, as: 'frame', cond: { $not: [{ $and: sameShot }] } } },
+              [{ $literal: frame }],
+            ],
+          },
+          updatedAt: new Date(),
+        },
+      }],
+      { returnDocument: 'before', projection: { storyboardFrames: 1 } }
+    )
+    if (!before) {
+      await deleteFrameAssets([frame], projectId)
+      return res.status(404).json({ error: 'Project not found' })
+    }
+    const replaced = (before.storyboardFrames || []).filter(f => isFrameForShot(f, frame.sceneNumber, frame.shotKey))
+
+    // The document no longer points at the old frame, so a failed cleanup only leaves an orphan
+    await deleteFrameAssets(replaced, projectId)
+
+    publishProjectChange(projectId, 'frames', authUserId, [sceneNumber])
+
+    logger.log("upload-frame", `🖼️ Frame for scene ${sceneNumber} shot ${frame.shotKey} stored (${frameBytes.length} bytes, ${storage.name})`)
+
+    return res.status(200).json({
+      success: true,
+      frame: await withFrameUrls(frame, projectId)
+    })
+  } catch (error) {
+    logger.error("upload-frame", 'Upload error:', error)
+    return res.status(500).json({
+      error: 'Failed to upload frame',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    })
+  }
+}
@@ -0,0 +1,195 @@
+// api/story-spine.ts
+// Whole-script pre-pass: reads every scene in one call and stores a compact
+// story spine on the project (logline, act breaks, character arcs,
+// setup/payoff threads, motifs — see src/lib/storySpine.ts). Scene analyses
+// run after this pick it up from the project and analyze each scene against it.
+
+import type { VercelRequest, VercelResponse } from '@vercel/node'
+import { ObjectId } from 'mongodb'
+import { getDb } from './lib/mongodb.js'
+import { logger } from './lib/logger.js'
+import { hasEnoughCredits, deductCredits, refundCredits } from './lib/credits.js'
+import { callLLMJson, getLLMProvider } from './lib/llm'
+import { projectAccessError } from './lib/projectAccess'
+import { publishProjectChange } from './lib/projectEvents'
+import { workspaceShortfallMessage } from './lib/workspaces'
+import { normalizeStorySpine, type StorySpine } from '../src/lib/storySpine'
+
+const CREDITS_PER_SPINE = 1
+// Roughly 90k tokens of script; longer scripts are trimmed scene by scene
+const MAX_SCRIPT_CHARS = 360_000
+const SPINE_TIMEOUT_MS = 540_000
+
+interface StoredScene {
+  number?: number
+  scene_number?: number
+  text?: string
+}
+
+interface ProjectDocument {
+  userId?: string
+  workspaceId?: string | null
+  name?: string
+  scenes?: StoredScene[]
+  storySpine?: StorySpine | null
+}
+
+/**
+ * The script as numbered scenes. When it runs over budget each scene keeps
+ * its opening (heading, action, first exchanges) up to an even share.
+ */
+function scriptForSpine(scenes: Array<{ number: number; text: string }>): string {
+  const total = scenes.reduce((sum, scene) => sum + scene.text.length, 0)
+  const share = total > MAX_SCRIPT_CHARS ? Math.floor(MAX_SCRIPT_CHARS / scenes.length) : Infinity
+  return scenes
+    .map(scene => {
+      const text = scene.text.length > share ? `${scene.text.slice(0, share)}\n[…scene trimmed…]` : scene.text
+      return `<scene number="${scene.number}">\n${text.trim()}\n</scene>`
+    })
+    .join('\n\n')
+}
+
+const SYSTEM_PROMPT = `You are a story editor reading a complete screenplay to build its story bible before the scenes are broken down one by one. Track how the whole script is built: where the acts turn, how each principal character changes, which details are planted early and paid off later, and which images or ideas recur. Refer to scenes ONLY by the number attribute of their <scene> tag. Return ONLY valid JSON.`
+
+function spinePrompt(title: string, script: string, sceneCount: number): string {
+  return `Read this ${sceneCount}-scene screenplay${title ? ` ("${title}")` : ''} and return its story spine.
+
+<screenplay>
+${script}
+</screenplay>
+
+Return ONLY this JSON (no markdown):
+{
+  "logline": "[One sentence: protagonist, want, obstacle, stakes]",
+  "act_breaks": [
+    { "act": 1, "label": "[e.g. Setup]", "starts_at_scene": 1, "summary": "[What this act does for the story]" }
+  ],
+  "character_arcs": [
+    { "character": "[NAME as written in the script]", "arc": "[Where they start, what changes them, where they end]", "key_scenes": [3, 17, 42] }
+  ],
+  "setup_payoffs": [
+    {
+      "description": "[Short name for the thread, e.g. 'The revolver in the desk drawer']",
+      "setup_scene": 3,
+      "setup": "[What is planted and how]",
+      "payoff_scenes": [44],
+      "payoff": "[How it lands]"
+    }
+  ],
+  "motifs": [
+    { "motif": "[Recurring image, sound, line or idea]", "meaning": "[What it carries]", "scenes": [2, 19, 51] }
+  ]
+}
+
+RULES:
+- Every scene number must be one that appears in the screenplay.
+- setup_payoffs: only threads that are planted in one scene and pay off in a LATER scene. Props, lines, skills, injuries, promises, secrets. Aim for the 5-20 that matter most.
+- character_arcs: principal characters only; key_scenes are the scenes where the arc visibly moves.
+- Keep every text field to one or two sentences — this bible is injected into every scene's analysis.`
+}
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  // CORS handled by server.mjs middleware
+  if (req.method !== 'POST') return res.status(405).json({ error: 'Method not allowed' })
+
+  const invocationId = `spine_${Date.now()}_${Math.random().toString(36).substring(2, 11)}`
+
+  try {
+    const { projectId } = req.body || {}
+    if (!projectId || typeof projectId !== 'string' || !ObjectId.isValid(projectId)) {
+      return res.status(400).json({ error: 'projectId is required' })
+    }
+
+    const authUserId = (req as VercelRequest & { auth?: { userId?: string } }).auth?.userId
+    if (!authUserId) {
+      return res.status(401).json({ error: 'Authentication required' })
+    }
+
+    const provider = getLLMProvider()
+    const configError = provider.configError()
+    if (configError) {
+      logger.error('story-spine', `❌ [${invocationId}] ${configError}`)
+      return res.status(500).json({
+        error: 'SERVER_CONFIG_ERROR',
+        message: `LLM provider ${provider.name} is not configured`,
+        userMessage: 'Server configuration error. Please contact support.'
+      })
+    }
+
+    const db = await getDb()
+    const projects = db.collection<ProjectDocument>('projects')
+    const project = await projects.findOne({ _id: new ObjectId(projectId) })
+    if (!project) {
+      return res.status(404).json({ error: 'Project not found' })
+    }
+    const accessError = projectAccessError(project, authUserId, 'editor')
+    if (accessError) {
+      return res.status(403).json({ error: accessError })
+    }
+
+    const scenes = (project.scenes || [])
+      .map((scene, index) => ({ number: Number(scene.number || scene.scene_number || index + 1), text: scene.text || '' }))
+      .filter(scene => scene.text.trim().length > 0)
+    if (scenes.length < 2) {
+      return res.status(400).json({ error: 'NO_SCENES', userMessage: 'The story spine needs a script with at least two scenes.' })
+    }
+
+    // Workspace projects are billed to the workspace
+    const workspaceId = project.workspaceId || null
+    if (!(await hasEnoughCredits(authUserId, CREDITS_PER_SPINE, workspaceId))) {
+      return res.status(402).json({
+        error: 'INSUFFICIENT_CREDITS',
+        message: 'Not enough credits to build the story spine',
+        userMessage: workspaceId
+          ? await workspaceShortfallMessage(workspaceId, authUserId, CREDITS_PER_SPINE)
+          : 'You don\'t have enough credits to build the story spine. Please purchase more credits to continue.'
+      })
+    }
+    await deductCredits(authUserId, CREDITS_PER_SPINE, undefined, projectId, workspaceId)
+
+    logger.log('story-spine', `🧭 [${invocationId}] Building story spine for ${projectId} (${scenes.length} scenes)`)
+
+    const result = await callLLMJson(provider, {
+      system: SYSTEM_PROMPT,
+      messages: [{ role: 'user', content: spinePrompt(project.name || '', scriptForSpine(scenes), scenes.length) }],
+      maxTokens: 8000,
+      callName: 'STORY_SPINE'
+    }, invocationId, SPINE_TIMEOUT_MS)
+
+    let spine: StorySpine | null = null
+    let error = result.error || 'Story spine call failed'
+    if (result.success) {
+      try {
+        spine = normalizeStorySpine(result.data, scenes.map(scene => scene.number))
+      } catch (normalizeError) {
+        error = (normalizeError as Error).message
+      }
+    }
+
+    if (!spine) {
+      logger.error('story-spine', `❌ [${invocationId}] ${error}`)
+      await refundCredits(authUserId, CREDITS_PER_SPINE, 'Story spine failed', workspaceId).catch(refundError =>
+        logger.error('story-spine', `❌ [${invocationId}] Refund failed: ${refundError.message}`)
+      )
+      return res.status(500).json({
+        error: 'STORY_SPINE_FAILED',
+        message: error,
+        userMessage: 'Failed to build the story spine. Your credit has been refunded. Please try again.'
+      })
+    }
+
+    spine.meta = { model: provider.model, generatedAt: new Date().toISOString(), sceneCount: scenes.length }
+    await projects.updateOne({ _id: new ObjectId(projectId) }, { $set: { storySpine: spine, updatedAt: new Date() } })
+    publishProjectChange(projectId, 'storySpine', authUserId)
+
+    logger.log('story-spine', `✅ [${invocationId}] Spine saved: ${spine.act_breaks.length} acts, ${spine.setup_payoffs.length} setup/payoff threads, ${spine.motifs.length} motifs`)
+
+    return res.status(200).json({ success: true, storySpine: spine, usage: result.usage })
+  } catch (error) {
+    logger.error('story-spine', `❌ [${invocationId}] Unexpected error:`, error)
+    return res.status(500).json({
+      error: 'Failed to build story spine',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    })
+  }
+}
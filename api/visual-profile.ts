@@ -1,6 +1,11 @@
 import type { VercelRequest, VercelResponse } from '@vercel/node'
 import { MongoClient, ObjectId } from 'mongodb'
 import { logger } from "./lib/logger";
+import { projectAccessError, ACCESS_PROJECTION } from './lib/projectAccess'
+import { writeSection, sendConflict } from './lib/projectVersions'
+import { publishProjectChange } from './lib/projectEvents'
+import { parseBaseVersion } from '../src/lib/projectVersions'
+import type { ProjectRole } from '../src/lib/projectAccess'
 
 const MONGODB_URI = process.env.MONGODB_URI
 const DB_NAME = 'shotlogic'
@@ -50,6 +55,11 @@ export default async function handler(
 
   // CORS handled by server.mjs middleware
 
+  const authUserId = (req as VercelRequest & { auth?: { userId?: string } }).auth?.userId
+  if (!authUserId) {
+    return res.status(401).json({ error: 'Authentication required', deployMarker: DEPLOY_TIMESTAMP })
+  }
+
   let client: MongoClient | null = null
 
   try {
@@ -59,6 +69,14 @@ export default async function handler(
     const db = client.db(DB_NAME)
     const projectsCollection = db.collection('projects')
 
+    /** The 403 or 404 to send when the user can't act on the project with `required` access */
+    const accessFailure = async (projectId: string, required: ProjectRole) => {
+      const project = await projectsCollection.findOne({ _id: new ObjectId(projectId) }, { projection: ACCESS_PROJECTION })
+      if (!project) return { status: 404, error: 'PROJECT_NOT_FOUND', message: 'Project not found' }
+      const accessError = projectAccessError(project, authUserId, required)
+      return accessError ? { status: 403, error: 'FORBIDDEN', message: accessError } : null
+    }
+
     // GET: Retrieve Visual Profile for a project
     if (req.method === 'GET') {
       const { projectId } = req.query
@@ -73,6 +91,11 @@ export default async function handler(
 
       logger.log("visual-profile", `📸 [${invocationId}] GET Visual Profile for project: ${projectId}`)
 
+      const denied = await accessFailure(projectId, 'viewer')
+      if (denied) {
+        return res.status(denied.status).json({ error: denied.error, message: denied.message, deployMarker: DEPLOY_TIMESTAMP })
+      }
+
       const project = await projectsCollection.findOne({
         _id: new ObjectId(projectId)
       })
@@ -95,7 +118,7 @@ export default async function handler(
 
     // POST: Create or Update Visual Profile for a project
     if (req.method === 'POST' || req.method === 'PUT') {
-      const { projectId, visualProfile } = req.body
+      const { projectId, visualProfile, baseVersion } = req.body
 
       if (!projectId || typeof projectId !== 'string') {
         return res.status(400).json({
@@ -115,6 +138,11 @@ export default async function handler(
 
       logger.log("visual-profile", `📸 [${invocationId}] ${req.method} Visual Profile for project: ${projectId}`)
 
+      const denied = await accessFailure(projectId, 'editor')
+      if (denied) {
+        return res.status(denied.status).json({ error: denied.error, message: denied.message, deployMarker: DEPLOY_TIMESTAMP })
+      }
+
       // Validate required fields
       const requiredFields = [
         'color_palette_hex',
@@ -151,23 +179,24 @@ export default async function handler(
       }
 
       // Update project with visual profile
-      const result = await projectsCollection.updateOne(
-        { _id: new ObjectId(projectId) },
-        {
-          $set: {
-            visual_profile: profileWithTimestamps,
-            updated_at: now
-          }
+      const written = await writeSection(projectsCollection, new ObjectId(projectId), 'visualProfile', parseBaseVersion(baseVersion), {
+        $set: {
+          visual_profile: profileWithTimestamps,
+          updated_at: now
         }
-      )
+      })
 
-      if (result.matchedCount === 0) {
+      if (!written) {
         return res.status(404).json({
           error: 'PROJECT_NOT_FOUND',
           message: 'Project not found',
           deployMarker: DEPLOY_TIMESTAMP
         })
       }
+      if ('conflict' in written) {
+        return sendConflict(res, [written.conflict])
+      }
+      publishProjectChange(projectId, 'visualProfile', authUserId)
 
       logger.log("visual-profile", `✅ [${invocationId}] Visual Profile ${req.method === 'POST' ? 'created' : 'updated'} successfully`)
 
@@ -175,6 +204,7 @@ export default async function handler(
         success: true,
         message: `Visual Profile ${req.method === 'POST' ? 'created' : 'updated'} successfully`,
         visual_profile: profileWithTimestamps,
+        version: written.version,
         deployMarker: DEPLOY_TIMESTAMP
       })
     }
@@ -193,15 +223,17 @@ export default async function handler(
 
       logger.log("visual-profile", `📸 [${invocationId}] DELETE Visual Profile for project: ${projectId}`)
 
-      const result = await projectsCollection.updateOne(
-        { _id: new ObjectId(projectId) },
-        {
-          $unset: { visual_profile: '' },
-          $set: { updated_at: new Date().toISOString() }
-        }
-      )
+      const denied = await accessFailure(projectId, 'editor')
+      if (denied) {
+        return res.status(denied.status).json({ error: denied.error, message: denied.message, deployMarker: DEPLOY_TIMESTAMP })
+      }
+
+      const written = await writeSection(projectsCollection, new ObjectId(projectId), 'visualProfile', undefined, {
+        $unset: { visual_profile: '' },
+        $set: { updated_at: new Date().toISOString() }
+      })
 
-      if (result.matchedCount === 0) {
+      if (!written || 'conflict' in written) {
         return res.status(404).json({
           error: 'PROJECT_NOT_FOUND',
           message: 'Project not found',
@@ -209,6 +241,7 @@ export default async function handler(
         })
       }
 
+      publishProjectChange(projectId, 'visualProfile', authUserId)
       logger.log("visual-profile", `✅ [${invocationId}] Visual Profile deleted successfully`)
 
       return res.status(200).json({
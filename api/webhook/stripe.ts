@@ -4,6 +4,7 @@
 import { VercelRequest, VercelResponse } from '@vercel/node'
 import Stripe from 'stripe'
 import { addCredits } from '../lib/credits.js'
+import { addWorkspaceCredits } from '../lib/workspaces'
 import { logger } from '../lib/logger.js'
 
 const stripe = new Stripe(process.env.STRIPE_SECRET_KEY!, {
@@ -72,15 +73,19 @@ export default async function handler(
         return res.status(400).json({ error: 'Missing required metadata' })
       }
       
-      logger.log('stripe-webhook', `[${invocationId}] Adding ${credits} credits to ${userId}`)
+      // Packs bought for a workspace fund the workspace, not the buyer
+      const workspaceId = session.metadata?.workspaceId
+      logger.log('stripe-webhook', `[${invocationId}] Adding ${credits} credits to ${workspaceId ? `workspace ${workspaceId}` : userId}`)
       
       try {
-        const newBalance = await addCredits(
-          userId,
-          amountTotal / 100, // Convert cents to dollars
-          credits,
-          session.payment_intent as string
-        )
+        const newBalance = workspaceId
+          ? await addWorkspaceCredits(workspaceId, userId, amountTotal / 100, credits, session.payment_intent as string)
+          : await addCredits(
+            userId,
+            amountTotal / 100, // Convert cents to dollars
+            credits,
+            session.payment_intent as string
+          )
         
         logger.log('stripe-webhook', `[${invocationId}] Credits added. New balance: ${newBalance}`)
       } catch (error: any) {
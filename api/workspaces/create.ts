@@ -0,0 +1,85 @@
+// api/workspaces/create.ts
+// Creates a workspace with the user as its owner and an empty balance.
+// Credits are added by buying a pack for it (credits/create-checkout).
+import { VercelRequest, VercelResponse } from '@vercel/node'
+import { getDb } from '../lib/mongodb.js'
+import { logger } from "../lib/logger";
+import { getClerk } from '../lib/requireAuth'
+import { toWorkspace, WORKSPACES_COLLECTION, type WorkspaceDocument } from '../lib/workspaces'
+import { MAX_WORKSPACE_NAME_LENGTH, type WorkspaceMember } from '../../src/lib/workspaces'
+
+const MAX_OWNED_WORKSPACES = 10
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  // CORS handled by server.mjs middleware
+  if (req.method !== 'POST') return res.status(405).json({ error: 'Method not allowed' })
+
+  try {
+    const { name } = req.body || {}
+    const trimmed = typeof name === 'string' ? name.trim() : ''
+    if (!trimmed) {
+      return res.status(400).json({ error: 'A workspace name is required' })
+    }
+    if (trimmed.length > MAX_WORKSPACE_NAME_LENGTH) {
+      return res.status(400).json({ error: `Workspace names are limited to ${MAX_WORKSPACE_NAME_LENGTH} characters` })
+    }
+
+    const authUserId = (req as VercelRequest & { auth?: { userId?: string } }).auth?.userId
+    if (!authUserId) {
+      return res.status(401).json({ error: 'Authentication required' })
+    }
+
+    const db = await getDb()
+    const workspaces = db.collection<WorkspaceDocument>(WORKSPACES_COLLECTION)
+    if (await workspaces.countDocuments({ ownerId: authUserId }) >= MAX_OWNED_WORKSPACES) {
+      return res.status(400).json({ error: `You can own at most ${MAX_OWNED_WORKSPACES} workspaces` })
+    }
+
+    // The owner is listed under the name and address of their account
+    let owner: WorkspaceMember = {
+      userId: authUserId,
+      email: '',
+      role: 'owner',
+      monthlyLimit: null,
+      addedBy: authUserId,
+      addedAt: new Date().toISOString()
+    }
+    const { clerk } = getClerk()
+    if (clerk) {
+      try {
+        const user = await clerk.users.getUser(authUserId)
+        owner = {
+          ...owner,
+          email: user.primaryEmailAddress?.emailAddress || '',
+          ...(user.fullName ? { name: user.fullName } : {})
+        }
+      } catch (error) {
+        logger.warn("workspaces", `Owner lookup failed for ${authUserId}:`, error)
+      }
+    }
+
+    const now = new Date()
+    const doc: WorkspaceDocument = {
+      name: trimmed,
+      ownerId: authUserId,
+      members: [owner],
+      credits: 0,
+      createdAt: now,
+      updatedAt: now
+    }
+    const { insertedId } = await workspaces.insertOne(doc)
+
+    logger.log("workspaces", `🏢 ${authUserId} created workspace ${insertedId} "${trimmed}"`)
+
+    return res.status(201).json({
+      success: true,
+      workspace: toWorkspace({ ...doc, _id: insertedId }, authUserId)
+    })
+  } catch (error) {
+    logger.error("workspaces", 'Create error:', error)
+    return res.status(500).json({
+      error: 'Failed to create workspace',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    })
+  }
+}
@@ -0,0 +1,38 @@
+// api/workspaces/get-all.ts
+// Lists the workspaces the user belongs to, with each one's balance, members
+// and what every member has spent this month.
+import { VercelRequest, VercelResponse } from '@vercel/node'
+import { getDb } from '../lib/mongodb.js'
+import { logger } from "../lib/logger";
+import { toWorkspace, WORKSPACES_COLLECTION, type WorkspaceDocument } from '../lib/workspaces'
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  // CORS handled by server.mjs middleware
+  if (req.method !== 'GET') return res.status(405).json({ error: 'Method not allowed' })
+
+  try {
+    const authUserId = (req as VercelRequest & { auth?: { userId?: string } }).auth?.userId
+    if (!authUserId) {
+      return res.status(401).json({ error: 'Authentication required' })
+    }
+
+    const db = await getDb()
+    const docs = await db.collection<WorkspaceDocument>(WORKSPACES_COLLECTION)
+      .find({ 'members.userId': authUserId })
+      .sort({ createdAt: 1 })
+      .toArray()
+
+    logger.log("workspaces", `🏢 ${authUserId}: ${docs.length} workspace(s)`)
+
+    return res.status(200).json({
+      success: true,
+      workspaces: docs.map(doc => toWorkspace(doc, authUserId))
+    })
+  } catch (error) {
+    logger.error("workspaces", 'List error:', error)
+    return res.status(500).json({
+      error: 'Failed to load workspaces',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    })
+  }
+}
@@ -0,0 +1,55 @@
+// api/workspaces/ledger.ts
+// The workspace's credit ledger, newest first: purchases, analysis usage and
+// refunds. Admins see every entry; members see their own.
+import { VercelRequest, VercelResponse } from '@vercel/node'
+import { getDb } from '../lib/mongodb.js'
+import { ObjectId } from 'mongodb'
+import { logger } from "../lib/logger";
+import { findWorkspace, LEDGER_COLLECTION, toLedgerEntry, type LedgerDocument } from '../lib/workspaces'
+import { hasWorkspaceRole, workspaceRole } from '../../src/lib/workspaces'
+
+const MAX_ENTRIES = 200
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  // CORS handled by server.mjs middleware
+  if (req.method !== 'GET') return res.status(405).json({ error: 'Method not allowed' })
+
+  try {
+    const { workspaceId } = req.query
+
+    if (!workspaceId || typeof workspaceId !== 'string' || !ObjectId.isValid(workspaceId)) {
+      return res.status(400).json({ error: 'A valid workspaceId is required' })
+    }
+
+    const authUserId = (req as VercelRequest & { auth?: { userId?: string } }).auth?.userId
+    if (!authUserId) {
+      return res.status(401).json({ error: 'Authentication required' })
+    }
+
+    const db = await getDb()
+    const workspace = await findWorkspace(db, workspaceId)
+    const role = workspace ? workspaceRole(workspace.members, authUserId) : null
+    if (!role) {
+      return res.status(404).json({ error: 'Workspace not found' })
+    }
+
+    const docs = await db.collection<LedgerDocument>(LEDGER_COLLECTION)
+      .find(hasWorkspaceRole(role, 'admin') ? { workspaceId } : { workspaceId, userId: authUserId })
+      .sort({ createdAt: -1 })
+      .limit(MAX_ENTRIES)
+      .toArray()
+
+    logger.log("workspaces", `📒 Workspace ${workspaceId}: ${docs.length} ledger entr${docs.length === 1 ? 'y' : 'ies'}`)
+
+    return res.status(200).json({
+      success: true,
+      entries: docs.map(toLedgerEntry)
+    })
+  } catch (error) {
+    logger.error("workspaces", 'Ledger error:', error)
+    return res.status(500).json({
+      error: 'Failed to load the ledger',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    })
+  }
+}
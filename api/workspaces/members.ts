@@ -0,0 +1,172 @@
+// api/workspaces/members.ts
+// Manages who is in a workspace. Admins add people by the email address of
+// their account, change their role or monthly limit, or remove them; only
+// the owner manages admins. Anyone but the owner can leave. The new member
+// list is copied onto the workspace's projects, which is where project
+// access is checked. Roles are described in src/lib/workspaces.ts.
+import { VercelRequest, VercelResponse } from '@vercel/node'
+import { getDb } from '../lib/mongodb.js'
+import { ObjectId } from 'mongodb'
+import { logger } from "../lib/logger";
+import { getClerk } from '../lib/requireAuth'
+import { findWorkspace, syncWorkspaceProjects, toWorkspace, WORKSPACES_COLLECTION, type WorkspaceDocument } from '../lib/workspaces'
+import {
+  canManageMember,
+  isWorkspaceMemberRole,
+  MAX_WORKSPACE_MEMBERS,
+  parseMonthlyLimit,
+  workspaceRole,
+  type WorkspaceMember,
+} from '../../src/lib/workspaces'
+
+async function findAccount(email: string): Promise<{ userId: string; email: string; name?: string } | null> {
+  const { clerk } = getClerk()
+  if (!clerk) throw new Error('CLERK_SECRET_KEY is not configured')
+  const { data } = await clerk.users.getUserList({ emailAddress: [email] })
+  const user = data[0]
+  if (!user) return null
+  return {
+    userId: user.id,
+    email: user.primaryEmailAddress?.emailAddress || email,
+    ...(user.fullName ? { name: user.fullName } : {}),
+  }
+}
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  // CORS handled by server.mjs middleware
+  if (req.method !== 'POST') return res.status(405).json({ error: 'Method not allowed' })
+
+  try {
+    const { workspaceId, action, email, userId, role, monthlyLimit: rawLimit } = req.body || {}
+
+    if (!workspaceId || !ObjectId.isValid(workspaceId)) {
+      return res.status(400).json({ error: 'A valid workspaceId is required' })
+    }
+    if (action !== 'add' && action !== 'update' && action !== 'remove') {
+      return res.status(400).json({ error: 'action must be add, update or remove' })
+    }
+    if (action === 'add' && !isWorkspaceMemberRole(role)) {
+      return res.status(400).json({ error: 'role must be admin or member' })
+    }
+    if (action === 'update' && role !== undefined && !isWorkspaceMemberRole(role)) {
+      return res.status(400).json({ error: 'role must be admin or member' })
+    }
+    if ((action === 'update' || action === 'remove') && (typeof userId !== 'string' || !userId)) {
+      return res.status(400).json({ error: 'userId is required' })
+    }
+    const monthlyLimit = rawLimit === undefined ? undefined : parseMonthlyLimit(rawLimit)
+    if (rawLimit !== undefined && monthlyLimit === undefined) {
+      return res.status(400).json({ error: 'monthlyLimit must be a whole number of credits, or null for no limit' })
+    }
+    if (action === 'update' && role === undefined && monthlyLimit === undefined) {
+      return res.status(400).json({ error: 'Nothing to update: send a role or a monthlyLimit' })
+    }
+
+    const authUserId = (req as VercelRequest & { auth?: { userId?: string } }).auth?.userId
+    if (!authUserId) {
+      return res.status(401).json({ error: 'Authentication required' })
+    }
+
+    const db = await getDb()
+    const collection = db.collection<WorkspaceDocument>(WORKSPACES_COLLECTION)
+    const objectId = new ObjectId(workspaceId)
+
+    const workspace = await findWorkspace(db, workspaceId)
+    const actorRole = workspace ? workspaceRole(workspace.members, authUserId) : null
+    if (!workspace || !actorRole) {
+      return res.status(404).json({ error: 'Workspace not found' })
+    }
+
+    const leaving = action === 'remove' && userId === authUserId
+    const target = action === 'add' ? null : workspace.members.find(member => member.userId === userId)
+    if (action !== 'add' && !target) {
+      return res.status(404).json({ error: 'Member not found' })
+    }
+    if (leaving && actorRole === 'owner') {
+      return res.status(400).json({ error: 'The owner cannot leave their workspace' })
+    }
+    if (!leaving) {
+      const allowed = canManageMember(actorRole, target ? target.role : role) &&
+        (role === undefined || canManageMember(actorRole, role))
+      if (!allowed) {
+        return res.status(403).json({
+          error: actorRole === 'member' ? 'Workspace admin access required' : 'Only the workspace owner can manage admins'
+        })
+      }
+    }
+
+    if (action === 'add') {
+      if (typeof email !== 'string' || !email.includes('@')) {
+        return res.status(400).json({ error: 'A valid email address is required' })
+      }
+      const account = await findAccount(email.trim().toLowerCase())
+      if (!account) {
+        return res.status(404).json({
+          error: 'USER_NOT_FOUND',
+          userMessage: `No account uses ${email.trim()}. Ask them to sign up first, then add them again.`
+        })
+      }
+      const member: WorkspaceMember = {
+        ...account,
+        role,
+        monthlyLimit: monthlyLimit ?? null,
+        addedBy: authUserId,
+        addedAt: new Date().toISOString()
+      }
+      const result = await collection.updateOne(
+        {
+          _id: objectId,
+          'members.userId': { $ne: account.userId },
+          [`members.${MAX_WORKSPACE_MEMBERS - 1}`]: { $exists: false }
+        },
+        { $push: { members: member }, $set: { updatedAt: new Date() } }
+      )
+      if (result.matchedCount === 0) {
+        if (workspace.members.length >= MAX_WORKSPACE_MEMBERS) {
+          return res.status(400).json({ error: `Workspaces can have at most ${MAX_WORKSPACE_MEMBERS} members` })
+        }
+        return res.status(409).json({ error: 'ALREADY_MEMBER', userMessage: `${account.email} is already in this workspace.` })
+      }
+    } else if (action === 'update') {
+      const result = await collection.updateOne(
+        { _id: objectId, 'members.userId': userId },
+        {
+          $set: {
+            ...(role !== undefined ? { 'members.$.role': role } : {}),
+            ...(monthlyLimit !== undefined ? { 'members.$.monthlyLimit': monthlyLimit } : {}),
+            updatedAt: new Date()
+          }
+        }
+      )
+      if (result.matchedCount === 0) {
+        return res.status(404).json({ error: 'Member not found' })
+      }
+    } else {
+      const result = await collection.updateOne(
+        { _id: objectId, ownerId: { $ne: userId } },
+        { $pull: { members: { userId } }, $set: { updatedAt: new Date() } }
+      )
+      if (result.modifiedCount === 0) {
+        return res.status(404).json({ error: 'Member not found' })
+      }
+    }
+
+    const updated = await findWorkspace(db, workspaceId)
+    if (updated && (action !== 'update' || role !== undefined)) {
+      await syncWorkspaceProjects(db, workspaceId, updated.members)
+    }
+
+    logger.log("workspaces", `🏢 Workspace ${workspaceId}: ${action} ${action === 'add' ? email : userId}${role ? ` as ${role}` : ''}${monthlyLimit !== undefined ? ` limit ${monthlyLimit}` : ''}`)
+
+    return res.status(200).json({
+      success: true,
+      workspace: updated && !leaving ? toWorkspace(updated, authUserId) : null
+    })
+  } catch (error) {
+    logger.error("workspaces", 'Members error:', error)
+    return res.status(500).json({
+      error: 'Failed to update workspace members',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    })
+  }
+}
@@ -0,0 +1,81 @@
+// api/workspaces/move-project.ts
+// Moves a project into a workspace, or out of one back to a personal
+// project. The mover must own the project and be an admin of the workspace
+// it goes to. Taking a project out of a workspace makes the mover its owner.
+import { VercelRequest, VercelResponse } from '@vercel/node'
+import { getDb } from '../lib/mongodb.js'
+import { ObjectId } from 'mongodb'
+import { logger } from "../lib/logger";
+import { ACCESS_PROJECTION, projectAccessError } from '../lib/projectAccess'
+import { publishProjectChange } from '../lib/projectEvents'
+import { findWorkspace, projectMembersOf } from '../lib/workspaces'
+import { hasWorkspaceRole, workspaceRole } from '../../src/lib/workspaces'
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  // CORS handled by server.mjs middleware
+  if (req.method !== 'POST') return res.status(405).json({ error: 'Method not allowed' })
+
+  try {
+    const { projectId, workspaceId } = req.body || {}
+
+    if (!projectId || !ObjectId.isValid(projectId)) {
+      return res.status(400).json({ error: 'A valid projectId is required' })
+    }
+    if (workspaceId !== null && (typeof workspaceId !== 'string' || !ObjectId.isValid(workspaceId))) {
+      return res.status(400).json({ error: 'workspaceId must be a workspace ID, or null to make the project personal' })
+    }
+
+    const authUserId = (req as VercelRequest & { auth?: { userId?: string } }).auth?.userId
+    if (!authUserId) {
+      return res.status(401).json({ error: 'Authentication required' })
+    }
+
+    const db = await getDb()
+    const collection = db.collection('projects')
+    const objectId = new ObjectId(projectId)
+
+    const project = await collection.findOne({ _id: objectId }, { projection: ACCESS_PROJECTION })
+    if (!project) {
+      return res.status(404).json({ error: 'Project not found' })
+    }
+    const accessError = projectAccessError(project, authUserId, 'owner')
+    if (accessError) {
+      return res.status(403).json({ error: accessError })
+    }
+    if ((project.workspaceId || null) === workspaceId) {
+      return res.status(200).json({ success: true, workspaceId })
+    }
+
+    if (workspaceId === null) {
+      await collection.updateOne(
+        { _id: objectId },
+        { $set: { userId: authUserId, updatedAt: new Date() }, $unset: { workspaceId: '', workspaceMembers: '' } }
+      )
+    } else {
+      const workspace = await findWorkspace(db, workspaceId)
+      const role = workspace ? workspaceRole(workspace.members, authUserId) : null
+      if (!workspace || !role) {
+        return res.status(404).json({ error: 'Workspace not found' })
+      }
+      if (!hasWorkspaceRole(role, 'admin')) {
+        return res.status(403).json({ error: `Only admins of ${workspace.name} can move projects into it` })
+      }
+      await collection.updateOne(
+        { _id: objectId },
+        { $set: { workspaceId, workspaceMembers: projectMembersOf(workspace.members), updatedAt: new Date() } }
+      )
+    }
+
+    publishProjectChange(projectId, 'sharing', authUserId)
+
+    logger.log("workspaces", `🏢 Project ${projectId} moved ${workspaceId ? `to workspace ${workspaceId}` : `out of workspace ${project.workspaceId}`}`)
+
+    return res.status(200).json({ success: true, workspaceId })
+  } catch (error) {
+    logger.error("workspaces", 'Move project error:', error)
+    return res.status(500).json({
+      error: 'Failed to move project',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    })
+  }
+}
@@ -10,6 +10,9 @@
  *
  * Environment variables:
  *   API_URL - Base URL for API (default: https://www.shotlogic.studio)
+ *
+ * To run offline, point API_URL at a local server started with
+ * LLM_PROVIDER=mock; every call then answers from api/lib/llmFixtures.ts.
  */
 
 const TEST_SCENE = `
@@ -0,0 +1,204 @@
+/**
+ * UNIT TEST: Fountain tokenizer (src/lib/fountainParser.ts)
+ *
+ * Run manually: npx tsx scripts/test-fountain.ts
+ * Run via npm:  npm test
+ */
+
+import assert from 'node:assert/strict';
+import {
+  renderFountainElements,
+  splitFountainScenes,
+  tokenizeFountain,
+  type FountainElement,
+} from '../src/lib/fountainParser';
+import { run, test } from './test-harness';
+
+const summary = (elements: FountainElement[]) =>
+  elements.map(({ type, text, dual, forced }) => ({ type, text, ...(dual ? { dual } : {}), ...(forced ? { forced } : {}) }));
+
+test('title page keys, continuation lines and emphasis', () => {
+  const doc = tokenizeFountain([
+    'Title: **THE LAST SHIFT**',
+    'Credit: Written by',
+    'Author: Jane Roe',
+    'Contact:',
+    '    Roe Pictures',
+    '    555-0100',
+    '',
+    'INT. DINER - NIGHT',
+    '',
+    'Rain on the glass.',
+  ].join('\n'));
+
+  assert.deepEqual(doc.titlePage, {
+    title: 'THE LAST SHIFT',
+    credit: 'Written by',
+    author: 'Jane Roe',
+    contact: 'Roe Pictures\n555-0100',
+  });
+  assert.deepEqual(summary(doc.elements), [
+    { type: 'scene_heading', text: 'INT. DINER - NIGHT' },
+    { type: 'action', text: 'Rain on the glass.' },
+  ]);
+});
+
+test('a script without a title page starts at the first line', () => {
+  const doc = tokenizeFountain('EXT. PIER - DAY\n\nGulls.');
+  assert.deepEqual(doc.titlePage, {});
+  assert.equal(doc.elements[0].type, 'scene_heading');
+});
+
+test('scene numbers come off the heading', () => {
+  const [heading] = tokenizeFountain('INT. HOUSE - DAY #12A#').elements;
+  assert.equal(heading.text, 'INT. HOUSE - DAY');
+  assert.equal(heading.sceneNumber, '12A');
+});
+
+test('dual dialogue marks the previous speaker left and the caret speaker right', () => {
+  const doc = tokenizeFountain([
+    'INT. KITCHEN - DAY',
+    '',
+    'BRICK',
+    'Screw retirement.',
+    '',
+    'STEEL ^',
+    '(shouting)',
+    'Screw retirement.',
+    '',
+    'They stare at each other.',
+  ].join('\n'));
+
+  assert.deepEqual(summary(doc.elements), [
+    { type: 'scene_heading', text: 'INT. KITCHEN - DAY' },
+    { type: 'character', text: 'BRICK', dual: 'left' },
+    { type: 'dialogue', text: 'Screw retirement.', dual: 'left' },
+    { type: 'character', text: 'STEEL', dual: 'right' },
+    { type: 'parenthetical', text: '(shouting)', dual: 'right' },
+    { type: 'dialogue', text: 'Screw retirement.', dual: 'right' },
+    { type: 'action', text: 'They stare at each other.' },
+  ]);
+});
+
+test('forced elements: heading, action, character, transition and lyrics', () => {
+  const doc = tokenizeFountain([
+    '.flashback',
+    '',
+    '!SCREAMS echo down the hall.',
+    '',
+    '@McCLANE',
+    'Yippee ki-yay.',
+    '',
+    '~Row, row, row your boat',
+    '',
+    '> SMASH CUT',
+  ].join('\n'));
+
+  assert.deepEqual(summary(doc.elements), [
+    { type: 'scene_heading', text: 'FLASHBACK', forced: true },
+    { type: 'action', text: 'SCREAMS echo down the hall.', forced: true },
+    { type: 'character', text: 'McCLANE', forced: true },
+    { type: 'dialogue', text: 'Yippee ki-yay.' },
+    { type: 'lyrics', text: 'Row, row, row your boat', forced: true },
+    { type: 'transition', text: 'SMASH CUT', forced: true },
+  ]);
+});
+
+test('an ellipsis is action, not a forced heading', () => {
+  const [element] = tokenizeFountain('...and then nothing.').elements;
+  assert.equal(element.type, 'action');
+});
+
+test('centered text and natural transitions', () => {
+  const doc = tokenizeFountain('INT. ROOM - DAY\n\n> THE END <\n\nCUT TO:\n\nEXT. ROAD - DAY');
+  assert.deepEqual(summary(doc.elements).slice(1, 3), [
+    { type: 'centered', text: 'THE END' },
+    { type: 'transition', text: 'CUT TO:' },
+  ]);
+});
+
+test('action lines join within a paragraph; a blank line starts a new one', () => {
+  const doc = tokenizeFountain('INT. HALL - DAY\n\nA door creaks.\nSomeone is there.\n\nSilence.');
+  assert.deepEqual(summary(doc.elements).slice(1), [
+    { type: 'action', text: 'A door creaks.\nSomeone is there.' },
+    { type: 'action', text: 'Silence.' },
+  ]);
+});
+
+test('boneyard is discarded, across lines and inline', () => {
+  const doc = tokenizeFountain([
+    'INT. OFFICE - DAY',
+    '',
+    'Papers everywhere. /* cut the cat */',
+    '',
+    '/*',
+    'INT. DELETED SCENE - NIGHT',
+    '',
+    'Nobody sees this.',
+    '*/',
+    '',
+    'The phone rings.',
+  ].join('\n'));
+
+  assert.deepEqual(summary(doc.elements), [
+    { type: 'scene_heading', text: 'INT. OFFICE - DAY' },
+    { type: 'action', text: 'Papers everywhere.' },
+    { type: 'action', text: 'The phone rings.' },
+  ]);
+});
+
+test('notes become their own elements and leave the text around them clean', () => {
+  const doc = tokenizeFountain([
+    'INT. GARAGE - NIGHT',
+    '',
+    'The car [[check with props: which model?]] idles.',
+    '',
+    'MIA',
+    'Get in. [[Too curt?',
+    'Maybe soften.]]',
+  ].join('\n'));
+
+  assert.deepEqual(summary(doc.elements), [
+    { type: 'scene_heading', text: 'INT. GARAGE - NIGHT' },
+    { type: 'action', text: 'The car idles.' },
+    { type: 'note', text: 'check with props: which model?' },
+    { type: 'character', text: 'MIA' },
+    { type: 'dialogue', text: 'Get in.' },
+    { type: 'note', text: 'Too curt? Maybe soften.' },
+  ]);
+});
+
+test('scenes drop notes, sections and synopses, and render as plain screenplay text', () => {
+  const doc = tokenizeFountain([
+    'FADE IN:',
+    '',
+    '# ACT ONE',
+    '',
+    'INT. BAR - NIGHT #1#',
+    '',
+    '= Joe waits for someone who never comes.',
+    '',
+    'Joe nurses a drink. [[dim the lights]]',
+    '',
+    'JOE',
+    '(to himself)',
+    'Any minute now.',
+    '',
+    'EXT. STREET - NIGHT #2#',
+    '',
+    'Empty.',
+  ].join('\n'));
+
+  const scenes = splitFountainScenes(doc);
+  assert.deepEqual(scenes.map(scene => [scene.heading, scene.sceneNumber]), [
+    ['INT. BAR - NIGHT', '1'],
+    ['EXT. STREET - NIGHT', '2'],
+  ]);
+  assert.ok(scenes[0].elements.every(element => !['note', 'section', 'synopsis'].includes(element.type)));
+  assert.equal(
+    renderFountainElements(scenes[0].elements),
+    'Joe nurses a drink.\n\nJOE\n(to himself)\nAny minute now.'
+  );
+});
+
+run('FOUNTAIN TOKENIZER');
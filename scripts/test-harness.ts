@@ -0,0 +1,41 @@
+/**
+ * Minimal runner shared by the unit test scripts (scripts/test-*.ts other
+ * than test-analysis.ts). Each script registers cases with `test` and ends
+ * with `run`, which prints a ✓/❌ line per case and exits non-zero on any
+ * failure so `npm test` stops at the first failing script.
+ */
+
+type TestCase = { name: string; fn: () => void | Promise<void> };
+
+const cases: TestCase[] = [];
+
+export function test(name: string, fn: () => void | Promise<void>): void {
+  cases.push({ name, fn });
+}
+
+export async function run(title: string): Promise<void> {
+  console.log('═══════════════════════════════════════════════════════════════');
+  console.log(`  ${title}`);
+  console.log('═══════════════════════════════════════════════════════════════');
+
+  const failures: string[] = [];
+  for (const { name, fn } of cases) {
+    try {
+      await fn();
+      console.log(`   ✓ ${name}`);
+    } catch (err) {
+      failures.push(name);
+      console.log(`   ❌ ${name}`);
+      console.log(`      ${err instanceof Error ? err.message.split('\n').join('\n      ') : String(err)}`);
+    }
+  }
+
+  console.log('');
+  if (failures.length > 0) {
+    console.log(`❌ ${failures.length} of ${cases.length} failed`);
+    console.log('');
+    process.exit(1);
+  }
+  console.log(`✅ ${cases.length} passed`);
+  console.log('');
+}
@@ -0,0 +1,167 @@
+/**
+ * UNIT TEST: Shooting schedule, Day Out of Days and budget top sheet
+ * (src/utils/scheduler.ts, src/utils/dood.ts, src/utils/budget.ts)
+ *
+ * These modules import through the "@/" alias, so tsx needs the app tsconfig.
+ *
+ * Run manually: npx tsx --tsconfig tsconfig.app.json scripts/test-production-reports.ts
+ * Run via npm:  npm test
+ */
+
+import assert from 'node:assert/strict';
+import type { Scene } from '../src/types/analysis';
+import type { ShootingSchedule } from '../src/types/schedule';
+import { DEFAULT_RATE_CARD } from '../src/lib/rateCard';
+import {
+  buildSchedulingScenes,
+  companyMoves,
+  dayEighths,
+  generateSchedule,
+  reconcileSchedule,
+  scriptOrderSchedule,
+  validateSchedule,
+} from '../src/utils/scheduler';
+import { buildDood } from '../src/utils/dood';
+import { buildBudget } from '../src/utils/budget';
+import { run, test } from './test-harness';
+
+function scene(
+  number: number,
+  header: string,
+  pages: number,
+  cast: string[],
+  logistics: Record<string, unknown> = {}
+): Scene {
+  return {
+    id: `scene-${number}`,
+    scene_number: number,
+    header,
+    content: header,
+    status: 'COMPLETED',
+    analysis: JSON.stringify({
+      producing_logistics: {
+        cast: { principal: cast },
+        estimated_screen_time: { pages },
+        ...logistics,
+      },
+    }),
+  };
+}
+
+// MIA works scenes 1, 3 and 4, JOE 1 and 2, SAM only 4. Scene 3 has to be shot after 4.
+const SCENES: Scene[] = [
+  scene(1, 'INT. DINER - NIGHT', 2, ['MIA', 'JOE']),
+  scene(2, 'EXT. ROAD - DAY', 1, ['JOE'], { vehicles: ['pickup truck'] }),
+  scene(3, 'INT. DINER - NIGHT', 2, ['MIA'], { scheduling_notes: { must_schedule_after: ['Scene 4 (the crash)'] } }),
+  scene(4, 'EXT. ROAD - DAY', 3, ['MIA', 'SAM'], { cast: { principal: ['MIA', 'SAM'], extras: '12 drivers' } }),
+];
+
+const saved = (days: number[][], maxEighthsPerDay = 40): ShootingSchedule => ({
+  settings: { maxEighthsPerDay },
+  days: days.map((sceneNumbers, idx) => ({ dayNumber: idx + 1, sceneNumbers })),
+  generatedAt: '2026-01-01T00:00:00.000Z',
+});
+
+const items = buildSchedulingScenes(SCENES);
+
+test('scheduling notes become dependencies on known scenes', () => {
+  assert.deepEqual(items.map(item => [item.sceneNumber, item.eighths, item.mustFollow]), [
+    [1, 16, []],
+    [2, 8, []],
+    [3, 16, [4]],
+    [4, 24, []],
+  ]);
+});
+
+test('generated days respect dependencies and the page budget', () => {
+  const schedule = generateSchedule(items, { maxEighthsPerDay: 40 });
+  assert.deepEqual(schedule.days.map(day => day.sceneNumbers), [[1, 2], [4, 3]]);
+  assert.ok(schedule.days.every(day => dayEighths(day, items) <= 40));
+  assert.deepEqual(validateSchedule(schedule, items), []);
+});
+
+test('hand-edited schedules are checked for order, page budget and missing scenes', () => {
+  const violations = validateSchedule(saved([[3], [4, 1]], 32), items);
+  assert.deepEqual(violations.map(v => [v.type, v.sceneNumber ?? v.dayNumber]), [
+    ['unscheduled', 2],
+    ['order', 3],
+    ['page_budget', 2],
+  ]);
+});
+
+test('company moves and script-order fallback', () => {
+  assert.deepEqual(companyMoves({ dayNumber: 1, sceneNumbers: [1, 2, 3] }, items), [
+    { from: 'DINER', to: 'ROAD' },
+    { from: 'ROAD', to: 'DINER' },
+  ]);
+  assert.deepEqual(scriptOrderSchedule(items, { maxEighthsPerDay: 24 }).days.map(day => day.sceneNumbers), [[1, 2], [3], [4]]);
+});
+
+test('reconciling drops scenes that are gone and renumbers the days', () => {
+  const schedule = reconcileSchedule(saved([[9], [2, 8], [1]]), items);
+  assert.deepEqual(schedule.days, [{ dayNumber: 1, sceneNumbers: [2] }, { dayNumber: 2, sceneNumbers: [1] }]);
+});
+
+test('DOOD codes: start, work, hold, finish and single-day', () => {
+  const dood = buildDood(SCENES, saved([], 16));
+  assert.equal(dood.source, 'script');
+  assert.deepEqual(dood.rows.map(row => [row.name, row.codes.join(' ')]), [
+    ['MIA', 'SW H W WF'],
+    ['JOE', 'SW WF  '],
+    ['SAM', '   SWF'],
+  ]);
+  const mia = dood.rows[0];
+  assert.deepEqual([mia.workDays, mia.holdDays, mia.totalDays, mia.startDay, mia.finishDay], [3, 1, 4, 1, 4]);
+});
+
+test('a saved schedule drives the DOOD days', () => {
+  const dood = buildDood(SCENES, saved([[4, 3], [1, 2]]));
+  assert.equal(dood.source, 'schedule');
+  assert.deepEqual(dood.rows.map(row => [row.name, row.codes.join(' ')]), [
+    ['MIA', 'SW WF'],
+    ['JOE', ' SWF'],
+    ['SAM', 'SWF '],
+  ]);
+});
+
+test('budget top sheet from the rate card', () => {
+  const budget = buildBudget(SCENES, DEFAULT_RATE_CARD, saved([], 16));
+  const line = (account: string) => budget.lines.find(l => l.account === account)?.amount;
+
+  assert.equal(budget.shootDays, 4);
+  assert.equal(line('Production Crew'), 4 * 12000);
+  assert.equal(line('Camera, Grip & Electric'), 4 * 4000);
+  assert.equal(line('Locations'), 4 * 1500);
+  assert.equal(line('Company Moves'), 0);
+  // MIA and JOE are the two leads, paid first to last work day; SAM is a day player
+  assert.equal(line('Cast — Leads'), (4 + 2) * 2000);
+  assert.equal(line('Cast — Day Players'), 600);
+  assert.equal(line('Background Extras'), 12 * 200);
+  assert.equal(line('Picture Vehicles'), 350);
+  // Scenes 1 and 3 are nights, each alone on its day
+  assert.equal(line('Night & Complexity Premiums'), 2 * 16000 * 0.25);
+  assert.equal(line('Post-Production'), 8 * 1500);
+
+  assert.equal(budget.aboveTheLine, 25000 + 30000 + 40000 + 12000 + 600);
+  assert.equal(budget.belowTheLine, 48000 + 16000 + 6000 + 2400 + 350 + 8000);
+  assert.equal(budget.contingency, (budget.aboveTheLine + budget.belowTheLine + budget.post) * 0.1);
+  assert.equal(budget.total, budget.aboveTheLine + budget.belowTheLine + budget.post + budget.contingency);
+});
+
+test('per-scene costs add up to everything but the flat fees', () => {
+  const budget = buildBudget(SCENES, DEFAULT_RATE_CARD, saved([[1, 2], [3, 4]]));
+  const flatFees = DEFAULT_RATE_CARD.writerFee + DEFAULT_RATE_CARD.producerFee + DEFAULT_RATE_CARD.directorFee;
+  const sceneTotal = budget.scenes.reduce((sum, cost) => sum + cost.total, 0);
+  assert.ok(Math.abs(sceneTotal - (budget.aboveTheLine - flatFees + budget.belowTheLine + budget.post)) < 0.01);
+  // Both days move from the diner to the road; the move is charged to the scene moved for
+  assert.equal(budget.lines.find(l => l.account === 'Company Moves')?.amount, 2 * 2500);
+  assert.ok(budget.scenes.find(cost => cost.sceneNumber === 2)?.drivers.some(d => d.label === 'Company move'));
+});
+
+test('unanalyzed scenes are listed rather than priced', () => {
+  const budget = buildBudget([...SCENES, { ...SCENES[0], id: 'scene-5', scene_number: 5, analysis: null }]);
+  assert.deepEqual(budget.missingScenes, [5]);
+  assert.equal(budget.scenes.length, 4);
+});
+
+run('SCHEDULE, DOOD AND BUDGET');
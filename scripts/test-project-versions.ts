@@ -0,0 +1,166 @@
+/**
+ * UNIT TEST: Compare-and-set project writes (api/lib/projectVersions.ts,
+ * src/lib/projectVersions.ts)
+ *
+ * The writes run against a small in-memory collection that understands the
+ * filter and update operators the version guards use, so no database is
+ * needed.
+ *
+ * Run manually: npx tsx scripts/test-project-versions.ts
+ * Run via npm:  npm test
+ */
+
+import assert from 'node:assert/strict';
+import type { Collection, ObjectId } from 'mongodb';
+import { scenesUnchanged, writeScenes, writeSection } from '../api/lib/projectVersions';
+import { parseBaseVersion, sceneVersion, versionConflicts } from '../src/lib/projectVersions';
+import { run, test } from './test-harness';
+
+type Doc = Record<string, unknown>;
+
+const get = (doc: unknown, path: string): unknown =>
+  path.split('.').reduce<unknown>((value, key) => (value && typeof value === 'object' ? (value as Doc)[key] : undefined), doc);
+
+function set(doc: Doc, path: string, value: unknown) {
+  const keys = path.split('.');
+  let target = doc;
+  for (const key of keys.slice(0, -1)) {
+    if (!target[key] || typeof target[key] !== 'object') target[key] = {};
+    target = target[key] as Doc;
+  }
+  target[keys[keys.length - 1]] = value;
+}
+
+function matches(doc: Doc, filter: Doc): boolean {
+  return Object.entries(filter).every(([key, condition]) => {
+    if (key === '$and') return (condition as Doc[]).every(f => matches(doc, f));
+    if (key === '$or') return (condition as Doc[]).some(f => matches(doc, f));
+    const value = get(doc, key);
+    if (condition && typeof condition === 'object' && !Array.isArray(condition)) {
+      const ops = condition as Doc;
+      if ('$exists' in ops) return (value !== undefined) === ops.$exists;
+      if ('$size' in ops) return Array.isArray(value) && value.length === ops.$size;
+      if ('$in' in ops) return (ops.$in as unknown[]).some(option => option === null ? value == null : option === value);
+    }
+    return value === condition;
+  });
+}
+
+function memoryCollection(docs: Doc[]) {
+  return {
+    async findOne(filter: Doc) {
+      const doc = docs.find(d => matches(d, filter));
+      return doc ? structuredClone(doc) : null;
+    },
+    async findOneAndUpdate(filter: Doc, update: { $set?: Doc; $inc?: Record<string, number> }) {
+      const doc = docs.find(d => matches(d, filter));
+      if (!doc) return null;
+      for (const [path, value] of Object.entries(update.$set || {})) set(doc, path, value);
+      for (const [path, by] of Object.entries(update.$inc || {})) set(doc, path, (Number(get(doc, path)) || 0) + by);
+      return structuredClone(doc);
+    },
+  } as unknown as Collection;
+}
+
+const PROJECT_ID = 'project-1' as unknown as ObjectId;
+
+const project = (): Doc => ({
+  _id: PROJECT_ID,
+  scenes: [
+    { number: 1, text: 'INT. DINER - NIGHT', version: 3 },
+    { number: 2, text: 'EXT. ROAD - DAY' },
+  ],
+  versions: { schedule: 2 },
+});
+
+test('client versions must be non-negative integers', () => {
+  assert.equal(parseBaseVersion(4), 4);
+  assert.equal(parseBaseVersion(0), 0);
+  assert.equal(parseBaseVersion(-1), undefined);
+  assert.equal(parseBaseVersion(1.5), undefined);
+  assert.equal(parseBaseVersion('4'), undefined);
+  assert.equal(sceneVersion({}), 0);
+});
+
+test('a scene write at the current version lands and bumps the version', async () => {
+  const docs = [project()];
+  const result = await writeScenes(memoryCollection(docs), PROJECT_ID, [
+    { index: 0, sceneNumber: 1, baseVersion: 3, fields: { text: 'INT. DINER - DAWN' } },
+  ]);
+  assert.deepEqual(result, { versions: { 1: 4 } });
+  assert.equal(get(docs[0], 'scenes.0.text'), 'INT. DINER - DAWN');
+});
+
+test('a scene saved before versions counts as version 0', async () => {
+  const docs = [project()];
+  const result = await writeScenes(memoryCollection(docs), PROJECT_ID, [
+    { index: 1, sceneNumber: 2, baseVersion: 0, fields: { text: 'EXT. ROAD - NIGHT' } },
+  ]);
+  assert.deepEqual(result, { versions: { 2: 1 } });
+});
+
+test('the second of two saves based on the same version conflicts', async () => {
+  const docs = [project()];
+  const collection = memoryCollection(docs);
+  const first = await writeScenes(collection, PROJECT_ID, [{ index: 0, sceneNumber: 1, baseVersion: 3, fields: { text: 'A' } }]);
+  const second = await writeScenes(collection, PROJECT_ID, [{ index: 0, sceneNumber: 1, baseVersion: 3, fields: { text: 'B' } }]);
+  assert.deepEqual(first, { versions: { 1: 4 } });
+  assert.deepEqual(second, { conflicts: [{ scope: 'scene', sceneNumber: 1, version: 4 }] });
+  assert.equal(get(docs[0], 'scenes.0.text'), 'A');
+});
+
+test('a scene that moved to another index conflicts even without a base version', async () => {
+  const docs = [project()];
+  const result = await writeScenes(memoryCollection(docs), PROJECT_ID, [
+    { index: 0, sceneNumber: 2, fields: { text: 'wrong scene' } },
+  ]);
+  assert.deepEqual(result, { conflicts: [{ scope: 'scene', sceneNumber: 2, version: 0 }] });
+  assert.equal(get(docs[0], 'scenes.0.text'), 'INT. DINER - NIGHT');
+});
+
+test('only the scenes that moved on are reported', async () => {
+  const docs = [project()];
+  const result = await writeScenes(memoryCollection(docs), PROJECT_ID, [
+    { index: 0, sceneNumber: 1, baseVersion: 2, fields: { text: 'stale' } },
+    { index: 1, sceneNumber: 2, baseVersion: 0, fields: { text: 'fresh' } },
+  ]);
+  assert.deepEqual(result, { conflicts: [{ scope: 'scene', sceneNumber: 1, version: 3 }] });
+  assert.equal(get(docs[0], 'scenes.1.text'), 'EXT. ROAD - DAY');
+});
+
+test('writing scenes of a missing project reports null', async () => {
+  const result = await writeScenes(memoryCollection([]), PROJECT_ID, [{ index: 0, sceneNumber: 1, fields: {} }]);
+  assert.equal(result, null);
+});
+
+test('section writes compare and bump their own counter', async () => {
+  const docs = [project()];
+  const collection = memoryCollection(docs);
+  assert.deepEqual(await writeSection(collection, PROJECT_ID, 'schedule', 2, { $set: { schedule: { days: [] } } }), { version: 3 });
+  assert.deepEqual(
+    await writeSection(collection, PROJECT_ID, 'schedule', 2, { $set: { schedule: null } }),
+    { conflict: { scope: 'section', section: 'schedule', version: 3 } }
+  );
+  assert.deepEqual(await writeSection(collection, PROJECT_ID, 'budget', 0, { $set: { budget: {} } }), { version: 1 });
+  assert.deepEqual(await writeSection(collection, PROJECT_ID, 'schedule', undefined, { $set: { schedule: null } }), { version: 4 });
+  assert.equal(await writeSection(memoryCollection([]), PROJECT_ID, 'name', 0, { $set: { name: 'x' } }), null);
+});
+
+test('a whole-array rewrite only matches the scenes exactly as read', () => {
+  const doc = project();
+  const guard = scenesUnchanged(doc.scenes as Doc[]);
+  assert.ok(matches(doc, guard));
+  set(doc, 'scenes.1.version', 1);
+  assert.ok(!matches(doc, guard));
+  assert.ok(!matches({ scenes: [...(project().scenes as Doc[]), { number: 3 }] }, guard));
+  assert.ok(matches({}, scenesUnchanged([])));
+});
+
+test('conflicts are read back out of a failed 409 save', () => {
+  const conflicts = [{ scope: 'scene', sceneNumber: 1, version: 4 }];
+  assert.deepEqual(versionConflicts({ status: 409, details: { conflicts } }), conflicts);
+  assert.equal(versionConflicts({ status: 500, details: { conflicts } }), null);
+  assert.equal(versionConflicts(new Error('network')), null);
+});
+
+run('PROJECT VERSIONS');
@@ -0,0 +1,93 @@
+/**
+ * UNIT TEST: Production scene numbers and locking (src/lib/sceneNumbering.ts)
+ *
+ * Run manually: npx tsx scripts/test-scene-numbering.ts
+ * Run via npm:  npm test
+ */
+
+import assert from 'node:assert/strict';
+import {
+  assignLockedLabels,
+  compareSceneLabels,
+  findOmittedLabels,
+  insertSceneLabel,
+  parseSceneLabel,
+  planRevisionLabels,
+} from '../src/lib/sceneNumbering';
+import type { SceneMatch } from '../src/lib/scriptRevision';
+import { run, test } from './test-harness';
+
+test('numbers read off leading and trailing slugline labels', () => {
+  assert.equal(parseSceneLabel('12A INT. HOUSE - DAY 12A'), '12A');
+  assert.equal(parseSceneLabel('7. EXT. ROAD - NIGHT'), '7');
+  assert.equal(parseSceneLabel('INT. HOUSE - CONTINUOUS *14*'), '14');
+  assert.equal(parseSceneLabel('INT. HOUSE - DAY'), null);
+});
+
+test('a story day at the end of a slugline is not a scene number', () => {
+  assert.equal(parseSceneLabel('INT. HOUSE - NIGHT - DAY 2'), null);
+});
+
+test('OMITTED placeholders in their common forms', () => {
+  assert.deepEqual(findOmittedLabels('13  OMITTED  13\nOMITTED 14\nSCENE 15A OMITTED\nThe door is omitted.'), ['13', '14', '15A']);
+});
+
+test('production order: A12 < 12 < 12A < 12Z < 12AA < 13', () => {
+  const labels = ['13', '12AA', '12', '12Z', 'A12', '12A'];
+  assert.deepEqual([...labels].sort(compareSceneLabels), ['A12', '12', '12A', '12Z', '12AA', '13']);
+});
+
+test('inserted scenes take the next free suffix', () => {
+  assert.equal(insertSceneLabel('12', '13', new Set(['12', '13'])), '12A');
+  assert.equal(insertSceneLabel('12', '13', new Set(['12', '12A', '12B', '13'])), '12C');
+  assert.equal(insertSceneLabel('12Z', null, new Set(['12Z'])), '12ZA');
+  assert.equal(insertSceneLabel(null, '1', new Set(['1'])), 'A1');
+});
+
+test('locked labels stay put and new scenes slot in between', () => {
+  assert.deepEqual(assignLockedLabels(['1', null, null, '2', null]), ['1', '1A', '1B', '2', '2A']);
+  assert.deepEqual(assignLockedLabels([null, '1']), ['A1', '1']);
+});
+
+test('numbers held by omitted scenes are never reused', () => {
+  assert.deepEqual(assignLockedLabels(['12', null, '13'], ['12A']), ['12', '12B', '13']);
+});
+
+const match = (status: SceneMatch['status'], oldNumber: number | undefined, newNumber: number | undefined, heading = ''): SceneMatch =>
+  ({ status, oldNumber, newNumber, heading, similarity: 1 });
+
+test('a locked revision keeps matched numbers, inserts added scenes and omits cut ones', () => {
+  const plan = planRevisionLabels(
+    [
+      match('unchanged', 1, 1),
+      match('added', undefined, 2),
+      match('modified', 2, 3),
+      match('omitted', 3, undefined, 'EXT. ROOF - NIGHT'),
+      match('unchanged', 4, 4),
+    ],
+    {
+      locked: true,
+      existingLabels: new Map([[1, '1'], [2, '2'], [3, '3'], [4, '4']]),
+      revisedLabels: new Map(),
+      previouslyOmitted: [{ label: '1A' }],
+    }
+  );
+  assert.deepEqual(Object.fromEntries(plan.labels), { 1: '1', 2: '1B', 3: '2', 4: '4' });
+  assert.deepEqual(plan.omitted, [{ label: '1A' }, { label: '3', heading: 'EXT. ROOF - NIGHT' }]);
+});
+
+test('an unlocked revision takes the new draft\'s numbering', () => {
+  const plan = planRevisionLabels(
+    [match('unchanged', 1, 1), match('added', undefined, 2), match('omitted', 2, undefined)],
+    {
+      locked: false,
+      existingLabels: new Map([[1, '1'], [2, '2']]),
+      revisedLabels: new Map([[1, '1'], [2, '1A']]),
+      draftOmitted: ['2'],
+    }
+  );
+  assert.deepEqual(Object.fromEntries(plan.labels), { 1: '1', 2: '1A' });
+  assert.deepEqual(plan.omitted, [{ label: '2' }]);
+});
+
+run('SCENE NUMBERING');
@@ -0,0 +1,75 @@
+/**
+ * UNIT TEST: Shot IDs across re-analysis (src/lib/shotIds.ts)
+ *
+ * Run manually: npx tsx scripts/test-shot-ids.ts
+ * Run via npm:  npm test
+ */
+
+import assert from 'node:assert/strict';
+import { assignShotIds, isShotId } from '../src/lib/shotIds';
+import { run, test } from './test-harness';
+
+type Shot = { id?: string; shot_type?: string; subject: string; visual?: string };
+
+const ID_A = '11111111-1111-4111-8111-111111111111';
+const ID_B = '22222222-2222-4222-8222-222222222222';
+const ID_C = '33333333-3333-4333-8333-333333333333';
+
+const previous = [
+  { id: ID_A, shot_type: 'WIDE', subject: 'Diner exterior', visual: 'Rain hammers the neon sign over the diner door' },
+  { id: ID_B, shot_type: 'CLOSE', subject: 'Mia', visual: 'Mia grips the coffee cup, knuckles white' },
+  { id: ID_C, shot_type: 'MEDIUM', subject: 'Joe', visual: 'Joe slides into the booth across from Mia' },
+];
+
+test('IDs the shots already carry are kept', () => {
+  const shots = assignShotIds<Shot>([{ id: ID_B, subject: 'anything' }], previous);
+  assert.equal(shots[0].id, ID_B);
+});
+
+test('a re-analyzed shot inherits the ID of the previous shot it resembles', () => {
+  const shots = assignShotIds<Shot>([
+    { shot_type: 'MEDIUM', subject: 'Joe', visual: 'Joe slides into the booth across from Mia, dripping' },
+    { shot_type: 'WIDE', subject: 'Diner exterior', visual: 'Rain hammers the neon sign above the diner door' },
+  ], previous);
+  assert.deepEqual(shots.map(shot => shot.id), [ID_C, ID_A]);
+});
+
+test('a shot nothing resembles gets a fresh ID', () => {
+  const [shot] = assignShotIds<Shot>([{ subject: 'Parking lot', visual: 'A truck backs out, headlights sweeping' }], previous);
+  assert.ok(isShotId(shot.id));
+  assert.ok(![ID_A, ID_B, ID_C].includes(shot.id!));
+});
+
+test('each previous ID is inherited at most once, by the closest match', () => {
+  const shots = assignShotIds<Shot>([
+    { shot_type: 'CLOSE', subject: 'Mia', visual: 'Mia grips the cup' },
+    { shot_type: 'CLOSE', subject: 'Mia', visual: 'Mia grips the coffee cup, knuckles white' },
+  ], previous);
+  assert.equal(shots[1].id, ID_B);
+  assert.notEqual(shots[0].id, ID_B);
+  assert.ok(isShotId(shots[0].id));
+});
+
+test('an ID kept by one shot is not handed to another', () => {
+  const shots = assignShotIds<Shot>([
+    { id: ID_A, subject: 'Mia', visual: 'Mia grips the coffee cup, knuckles white' },
+    { shot_type: 'WIDE', subject: 'Diner exterior', visual: 'Rain hammers the neon sign over the diner door' },
+  ], previous);
+  assert.equal(shots[0].id, ID_A);
+  assert.notEqual(shots[1].id, ID_A);
+});
+
+test('a duplicated shot keeps the ID on its first copy only', () => {
+  const shots = assignShotIds<Shot>([{ id: ID_A, subject: 'x' }, { id: ID_A, subject: 'x' }]);
+  assert.equal(shots[0].id, ID_A);
+  assert.notEqual(shots[1].id, ID_A);
+  assert.ok(isShotId(shots[1].id));
+});
+
+test('invalid IDs are replaced and plain-string shots pass through', () => {
+  const shots = assignShotIds<unknown>(['WIDE - the diner', { id: 'shot-1', subject: 'Joe' }]);
+  assert.equal(shots[0], 'WIDE - the diner');
+  assert.ok(isShotId((shots[1] as { id: unknown }).id));
+});
+
+run('SHOT IDS');
@@ -95,6 +95,25 @@ app.get('/api/analyze-scene-status', requireAuth, async (req, res) => {
   await apiHandler(req, res, join(__dirname, 'api/analyze-scene-status.ts'));
 });
 
+// Live progress for one analysis job (Server-Sent Events)
+app.get('/api/analyze-scene-stream', requireAuth, async (req, res) => {
+  await apiHandler(req, res, join(__dirname, 'api/analyze-scene-stream.ts'));
+});
+
+// Whole-project analysis queue (submission reserves credits — full rate-limit chain)
+app.post('/api/analyze-batch', aiIpLimiter, requireAuth, aiUserLimiter, async (req, res) => {
+  await apiHandler(req, res, join(__dirname, 'api/analyze-batch.ts'));
+});
+
+app.post('/api/analyze-batch-control', requireAuth, async (req, res) => {
+  await apiHandler(req, res, join(__dirname, 'api/analyze-batch-control.ts'));
+});
+
+// Whole-script story spine pre-pass (one model call, charged — full rate-limit chain)
+app.post('/api/story-spine', aiIpLimiter, requireAuth, aiUserLimiter, async (req, res) => {
+  await apiHandler(req, res, join(__dirname, 'api/story-spine.ts'));
+});
+
 // Project endpoints (all require session; handler enforces ownership)
 app.get('/api/projects/get-all', requireAuth, async (req, res) => {
   await apiHandler(req, res, join(__dirname, 'api/projects/get-all.ts'));
@@ -134,10 +153,42 @@ app.post("/api/projects/update-characters", requireAuth, async (req, res) => {
   await apiHandler(req, res, join(__dirname, "api/projects/update-characters.ts"));
 });
 
+app.post("/api/projects/update-locations", requireAuth, async (req, res) => {
+  await apiHandler(req, res, join(__dirname, "api/projects/update-locations.ts"));
+});
+
+app.post("/api/projects/update-schedule", requireAuth, async (req, res) => {
+  await apiHandler(req, res, join(__dirname, "api/projects/update-schedule.ts"));
+});
+
+app.post("/api/projects/update-budget", requireAuth, async (req, res) => {
+  await apiHandler(req, res, join(__dirname, "api/projects/update-budget.ts"));
+});
+
+app.post("/api/projects/update-shot-note", requireAuth, async (req, res) => {
+  await apiHandler(req, res, join(__dirname, "api/projects/update-shot-note.ts"));
+});
+
+app.post("/api/projects/update-numbering", requireAuth, async (req, res) => {
+  await apiHandler(req, res, join(__dirname, "api/projects/update-numbering.ts"));
+});
+
 app.post("/api/projects/update-scene-analysis", requireAuth, async (req, res) => {
   await apiHandler(req, res, join(__dirname, "api/projects/update-scene-analysis.ts"));
 });
 
+app.get("/api/projects/scene-revisions", requireAuth, async (req, res) => {
+  await apiHandler(req, res, join(__dirname, "api/projects/scene-revisions.ts"));
+});
+
+app.post("/api/projects/restore-scene-revision", requireAuth, async (req, res) => {
+  await apiHandler(req, res, join(__dirname, "api/projects/restore-scene-revision.ts"));
+});
+
+app.post("/api/projects/import-revision", requireAuth, async (req, res) => {
+  await apiHandler(req, res, join(__dirname, "api/projects/import-revision.ts"));
+});
+
 app.post("/api/projects/update-scene-status", requireAuth, async (req, res) => {
   await apiHandler(req, res, join(__dirname, "api/projects/update-scene-status.ts"));
 });
@@ -146,6 +197,31 @@ app.post("/api/projects/import-storylogic", requireAuth, async (req, res) => {
   await apiHandler(req, res, join(__dirname, "api/projects/import-storylogic.ts"));
 });
 
+app.post("/api/projects/share", requireAuth, async (req, res) => {
+  await apiHandler(req, res, join(__dirname, "api/projects/share.ts"));
+});
+
+app.get("/api/projects/comments", requireAuth, async (req, res) => {
+  await apiHandler(req, res, join(__dirname, "api/projects/comments.ts"));
+});
+
+app.post("/api/projects/comment", requireAuth, async (req, res) => {
+  await apiHandler(req, res, join(__dirname, "api/projects/comment.ts"));
+});
+
+app.post("/api/projects/upload-frame", requireAuth, async (req, res) => {
+  await apiHandler(req, res, join(__dirname, "api/projects/upload-frame.ts"));
+});
+
+app.post("/api/projects/delete-frame", requireAuth, async (req, res) => {
+  await apiHandler(req, res, join(__dirname, "api/projects/delete-frame.ts"));
+});
+
+// Signed asset links (storyboard frames) — the signature authorizes, not a session
+app.get("/api/assets/file", async (req, res) => {
+  await apiHandler(req, res, join(__dirname, "api/assets/file.ts"));
+});
+
 // Admin endpoints (X-API-Key)
 app.get("/api/admin/analysis-health", requireApiKey, async (req, res) => {
   await apiHandler(req, res, join(__dirname, "api/admin/analysis-health.ts"));
@@ -184,6 +260,27 @@ app.post("/api/credits/create-checkout", requireAuth, async (req, res) => {
   await apiHandler(req, res, join(__dirname, "api/credits/create-checkout.ts"));
 });
 
+// Workspaces: shared credit pools for teams
+app.get("/api/workspaces/get-all", requireAuth, async (req, res) => {
+  await apiHandler(req, res, join(__dirname, "api/workspaces/get-all.ts"));
+});
+
+app.post("/api/workspaces/create", requireAuth, async (req, res) => {
+  await apiHandler(req, res, join(__dirname, "api/workspaces/create.ts"));
+});
+
+app.post("/api/workspaces/members", requireAuth, async (req, res) => {
+  await apiHandler(req, res, join(__dirname, "api/workspaces/members.ts"));
+});
+
+app.get("/api/workspaces/ledger", requireAuth, async (req, res) => {
+  await apiHandler(req, res, join(__dirname, "api/workspaces/ledger.ts"));
+});
+
+app.post("/api/workspaces/move-project", requireAuth, async (req, res) => {
+  await apiHandler(req, res, join(__dirname, "api/workspaces/move-project.ts"));
+});
+
 // Stripe webhook
 app.post("/api/webhook/stripe", async (req, res) => {
   await apiHandler(req, res, join(__dirname, "api/webhook/stripe.ts"));
@@ -210,6 +307,18 @@ app.use((req, res) => {
   res.sendFile(join(__dirname, 'dist', 'index.html'));
 });
 
-app.listen(PORT, '0.0.0.0', () => {
+const server = app.listen(PORT, '0.0.0.0', () => {
   console.log(`✅ ShotLogic running on port ${PORT}`);
 });
+
+// Presence and live change broadcasting for shared projects (WebSocket on /api/collab)
+const { attachCollaborationServer } = await import(join(__dirname, 'api/lib/collaboration.ts'));
+attachCollaborationServer(server);
+
+// Pick up analysis batches interrupted by the last shutdown
+try {
+  const { resumeInterruptedBatches } = await import(join(__dirname, 'api/lib/analysisBatches.ts'));
+  await resumeInterruptedBatches();
+} catch (error) {
+  console.error('❌ Failed to resume analysis batches:', error);
+}
@@ -8,6 +8,7 @@ import ProjectDetails from './pages/ProjectDetails'
 import Landing from './pages/Landing'
 import AccessRestricted from './pages/AccessRestricted'
 import BuyCredits from './pages/BuyCredits'
+import Workspaces from './pages/Workspaces'
 import AdminCredits from './pages/AdminCredits'
 import UserGuide from './pages/UserGuide'
 import AdminUsers from './pages/AdminUsers'
@@ -78,6 +79,7 @@ function App() {
             <Route path="/new-project" element={<ProtectedRoute><Index /></ProtectedRoute>} />
             <Route path="/project/:id" element={<ProtectedRoute><ProjectDetails /></ProtectedRoute>} />
             <Route path="/buy-credits" element={<ProtectedRoute><BuyCredits /></ProtectedRoute>} />
+            <Route path="/workspaces" element={<ProtectedRoute><Workspaces /></ProtectedRoute>} />
             <Route path="/admin/credits" element={<ProtectedRoute><AdminCredits /></ProtectedRoute>} />
             <Route path="/admin/users" element={<ProtectedRoute><AdminUsers /></ProtectedRoute>} />
             <Route path="/guide" element={<ProtectedRoute><UserGuide /></ProtectedRoute>} />
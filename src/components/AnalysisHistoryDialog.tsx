@@ -0,0 +1,215 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { useToast } from '@/hooks/use-toast';
+import { api, ApiError } from '@/utils/apiClient';
+import { Scene } from '@/types/analysis';
+import { AnalysisRevision, ShotChange, diffAnalyses } from '@/lib/analysisRevisions';
+import { displaySceneNumber } from '@/lib/sceneNumbering';
+import { analysisFieldLabel } from '@/lib/projectComments';
+import { History, RotateCcw } from 'lucide-react';
+
+interface AnalysisHistoryDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  projectId: string;
+  scene: Scene;
+}
+
+const SOURCE_LABELS: Record<AnalysisRevision['source'], string> = {
+  ai: 'AI',
+  manual: 'Manual edit',
+  restore: 'Restore',
+};
+
+const shotSummary = (shot?: Record<string, unknown>): string => {
+  if (!shot) return '';
+  const type = String(shot.shot_type || shot.shotType || '');
+  const text = String(shot.visual || shot.subject || shot.action || shot.value || '');
+  return [type, text].filter(Boolean).join(' — ');
+};
+
+const CHANGE_STYLES = {
+  before: 'bg-red-500/10 border-red-500/30',
+  after: 'bg-green-500/10 border-green-500/30',
+};
+
+const ShotCell: React.FC<{ change: ShotChange; side: 'before' | 'after' }> = ({ change, side }) => {
+  const shot = side === 'before' ? change.before : change.after;
+  const index = side === 'before' ? change.beforeIndex : change.afterIndex;
+  if (!shot || index === undefined) return <div className="rounded border border-dashed border-border/50 p-2" />;
+
+  const highlighted = change.kind !== 'unchanged';
+  return (
+    <div className={`rounded border p-2 text-xs space-y-1 ${highlighted ? CHANGE_STYLES[side] : 'border-border/50 text-muted-foreground'}`}>
+      <div className="font-semibold text-foreground">Shot {index + 1}</div>
+      <div>{shotSummary(shot)}</div>
+      {change.kind === 'changed' && change.fields && change.fields.length > 0 && (
+        <div className="text-[10px] text-muted-foreground">Changed: {change.fields.join(', ')}</div>
+      )}
+    </div>
+  );
+};
+
+export const AnalysisHistoryDialog: React.FC<AnalysisHistoryDialogProps> = ({ open, onOpenChange, projectId, scene }) => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [isRestoring, setIsRestoring] = useState(false);
+
+  const { data: revisions = [], isLoading } = useQuery({
+    queryKey: ['scene-revisions', projectId, scene.scene_number],
+    queryFn: async (): Promise<AnalysisRevision[]> => {
+      const result = await api.get(
+        `/api/projects/scene-revisions?projectId=${projectId}&sceneNumber=${scene.scene_number}`,
+        { context: 'Loading analysis history', timeoutMs: 30000, maxRetries: 1 }
+      );
+      return result.revisions || [];
+    },
+    enabled: open,
+  });
+
+  // Default to the revision before the current one — the most useful comparison
+  useEffect(() => {
+    if (!open) setSelectedId(null);
+    else if (!selectedId && revisions.length > 0) setSelectedId((revisions[1] || revisions[0]).id);
+  }, [open, revisions, selectedId]);
+
+  const selected = revisions.find(r => r.id === selectedId) || null;
+  const diff = useMemo(
+    () => (selected ? diffAnalyses(selected.analysis, scene.analysis) : null),
+    [selected, scene.analysis]
+  );
+  const isCurrent = !!selected && selected.analysis === scene.analysis;
+  const shotChanges = diff?.shots.filter(s => s.kind !== 'unchanged').length || 0;
+
+  const handleRestore = async () => {
+    if (!selected) return;
+    setIsRestoring(true);
+    try {
+      await api.post('/api/projects/restore-scene-revision', {
+        projectId,
+        revisionId: selected.id,
+      }, {
+        context: `Restoring revision ${selected.revision}`,
+        timeoutMs: 30000,
+        maxRetries: 1
+      });
+      await queryClient.invalidateQueries({ queryKey: ['project', projectId] });
+      await queryClient.invalidateQueries({ queryKey: ['scene-revisions', projectId, scene.scene_number] });
+      toast({ title: 'Revision restored', description: `Scene ${displaySceneNumber(scene)} restored to revision ${selected.revision}` });
+      onOpenChange(false);
+    } catch (error) {
+      const errorMsg = (error as ApiError).userMessage || (error as Error).message || 'Failed to restore';
+      toast({ title: 'Restore failed', description: errorMsg, variant: 'destructive' });
+    } finally {
+      setIsRestoring(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[1100px] max-h-[90vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <History className="w-5 h-5" />
+            Scene {displaySceneNumber(scene)} — Analysis History
+          </DialogTitle>
+          <DialogDescription>
+            Every AI run, manual edit and restore is kept. Pick a revision to compare it with the current analysis.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex gap-4 min-h-0 flex-1">
+          {/* Revision list */}
+          <div className="w-56 flex-shrink-0 overflow-y-auto space-y-1 pr-1">
+            {isLoading && <p className="text-xs text-muted-foreground">Loading...</p>}
+            {!isLoading && revisions.length === 0 && (
+              <p className="text-xs text-muted-foreground">No revisions recorded yet. History starts with the next save or re-analysis.</p>
+            )}
+            {revisions.map(revision => (
+              <button
+                key={revision.id}
+                onClick={() => setSelectedId(revision.id)}
+                className={`w-full text-left rounded border px-2 py-1.5 text-xs transition-colors ${
+                  revision.id === selectedId ? 'border-netflix-red bg-netflix-red/10' : 'border-border hover:bg-white/5'
+                }`}
+              >
+                <div className="flex items-center justify-between gap-1">
+                  <span className="font-bold text-foreground">Rev {revision.revision}</span>
+                  <Badge variant="outline" className="text-[10px] px-1 py-0">
+                    {revision.baseline ? 'Original' : SOURCE_LABELS[revision.source]}
+                  </Badge>
+                </div>
+                <div className="text-muted-foreground">{new Date(revision.createdAt).toLocaleString()}</div>
+                {revision.model && <div className="text-muted-foreground truncate">{revision.model}</div>}
+                {revision.restoredFrom && <div className="text-muted-foreground">from rev {revision.restoredFrom}</div>}
+              </button>
+            ))}
+          </div>
+
+          {/* Side-by-side diff */}
+          <div className="flex-1 min-w-0 overflow-y-auto space-y-4">
+            {selected && diff && (
+              <>
+                <div className="flex items-center gap-2">
+                  <Badge variant="outline" className="text-xs">{diff.fields.length} field change{diff.fields.length !== 1 ? 's' : ''}</Badge>
+                  <Badge variant="outline" className="text-xs">{shotChanges} shot change{shotChanges !== 1 ? 's' : ''}</Badge>
+                  <Button
+                    size="sm"
+                    onClick={handleRestore}
+                    disabled={isCurrent || isRestoring}
+                    className="ml-auto bg-netflix-red hover:bg-netflix-red/90"
+                  >
+                    <RotateCcw className="w-4 h-4 mr-1" />
+                    {isCurrent ? 'Current version' : isRestoring ? 'Restoring...' : `Restore revision ${selected.revision}`}
+                  </Button>
+                </div>
+
+                <div className="grid grid-cols-2 gap-2 text-xs font-bold text-muted-foreground uppercase tracking-wider">
+                  <span>Revision {selected.revision}</span>
+                  <span>Current</span>
+                </div>
+
+                {diff.fields.length === 0 && shotChanges === 0 && (
+                  <p className="text-sm text-muted-foreground text-center py-6">No differences.</p>
+                )}
+
+                {diff.fields.map(change => (
+                  <div key={change.path} className="space-y-1">
+                    <div className="text-xs font-semibold text-foreground">
+                      {analysisFieldLabel(change.path)}
+                      <span className="ml-2 font-normal text-muted-foreground">{change.kind}</span>
+                    </div>
+                    <div className="grid grid-cols-2 gap-2 text-xs">
+                      <div className={`rounded border p-2 whitespace-pre-wrap break-words ${change.before !== undefined ? CHANGE_STYLES.before : 'border-dashed border-border/50'}`}>
+                        {change.before}
+                      </div>
+                      <div className={`rounded border p-2 whitespace-pre-wrap break-words ${change.after !== undefined ? CHANGE_STYLES.after : 'border-dashed border-border/50'}`}>
+                        {change.after}
+                      </div>
+                    </div>
+                  </div>
+                ))}
+
+                {diff.shots.length > 0 && (
+                  <div className="space-y-1">
+                    <div className="text-xs font-semibold text-foreground">Shot List</div>
+                    {diff.shots.map((change, idx) => (
+                      <div key={idx} className="grid grid-cols-2 gap-2">
+                        <ShotCell change={change} side="before" />
+                        <ShotCell change={change} side="after" />
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </>
+            )}
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
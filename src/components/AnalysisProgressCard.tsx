@@ -2,10 +2,12 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Progress } from "@/components/ui/progress";
 import { CheckCircle2, Circle, Loader2, AlertCircle } from "lucide-react";
 import { cn } from "@/lib/utils";
+import { displaySceneNumber } from "@/lib/sceneNumbering";
 
 interface Scene {
   id: string;
   scene_number: number;
+  scene_label?: string;
   header: string;
   status: string;
   retry_count: number;
@@ -96,7 +98,7 @@ export const AnalysisProgressCard = ({
               >
                 {getSceneIcon(scene)}
                 <span className="text-sm flex-1 text-foreground">
-                  Scene {scene.scene_number}
+                  Scene {displaySceneNumber(scene)}
                 </span>
                 {scene.retry_count > 0 && scene.retry_count < 3 && (
                   <span className="text-xs text-muted-foreground">
@@ -1,10 +1,13 @@
 import React, { useState } from 'react';
 import { CheckCircle2, Loader2, Circle, AlertCircle, ChevronDown, ChevronUp, Clock, RefreshCw } from 'lucide-react';
 import { cn } from '@/lib/utils';
+import { displaySceneNumber } from '@/lib/sceneNumbering';
+import type { AnalysisPhase, LiveSceneAnalysis } from '@/types/analysis';
 
 interface Scene {
   id: string;
   scene_number: number;
+  scene_label?: string;
   header: string;
   content: string;
   status: string;
@@ -16,15 +19,91 @@ interface AnalysisProgressPanelProps {
   onSceneClick: (sceneId: string) => void;
   currentSceneId: string | null;
   onRetryScene?: (sceneId: string, sceneNumber: number, sceneContent: string) => void;
+  /** Single-scene analysis streaming in; its sections show as they finish */
+  live?: LiveSceneAnalysis | null;
 }
 
 const SECONDS_PER_SCENE = 90;
 
+const LIVE_STEPS: Array<{ key: 'story_analysis' | 'producing_logistics' | 'directing_vision'; label: string; phase: AnalysisPhase }> = [
+  { key: 'story_analysis', label: 'Story', phase: 'story' },
+  { key: 'producing_logistics', label: 'Producing', phase: 'story' },
+  { key: 'directing_vision', label: 'Directing & shots', phase: 'directing' },
+];
+
+const LivePreview: React.FC<{ live: LiveSceneAnalysis; sceneLabel: string }> = ({ live, sceneLabel }) => {
+  const story = live.analysis.story_analysis;
+  const producing = live.analysis.producing_logistics;
+  const shots = live.analysis.shot_list || [];
+  const tokens = live.usage ? live.usage.totalInputTokens + live.usage.totalOutputTokens : 0;
+
+  return (
+    <div className="px-4 pb-4 space-y-3">
+      <div className="flex items-center justify-between gap-3">
+        <p className="text-xs text-white/70 truncate">{sceneLabel} — {live.message}</p>
+        {live.usage && (
+          <span className="text-[11px] text-white/40 flex-shrink-0">
+            {tokens.toLocaleString()} tokens · ${live.usage.totalCost}
+          </span>
+        )}
+      </div>
+
+      <div className="flex flex-wrap gap-3">
+        {LIVE_STEPS.map(step => {
+          const done = !!live.analysis[step.key];
+          const running = !done && step.phase === live.phase;
+          return (
+            <span key={step.key} className="flex items-center gap-1.5 text-xs text-white/60">
+              {done
+                ? <CheckCircle2 className="w-3.5 h-3.5 text-green-500" />
+                : running
+                  ? <Loader2 className="w-3.5 h-3.5 text-[#E50914] animate-spin" />
+                  : <Circle className="w-3.5 h-3.5 text-white/20" />}
+              {step.label}
+            </span>
+          );
+        })}
+      </div>
+
+      {story && (
+        <div className="rounded border border-white/10 bg-white/5 p-3 space-y-2 text-sm">
+          {story.the_one_thing && (
+            <p className="text-white/90"><span className="text-white/40 text-xs uppercase mr-2">The one thing</span>{story.the_one_thing}</p>
+          )}
+          {story.the_core && (
+            <p className="text-white/80"><span className="text-white/40 text-xs uppercase mr-2">The core</span>{story.the_core}</p>
+          )}
+          {story.the_turn && (
+            <p className="text-white/80"><span className="text-white/40 text-xs uppercase mr-2">The turn</span>{story.the_turn}</p>
+          )}
+          {story.synopsis && <p className="text-white/60 text-xs">{story.synopsis}</p>}
+        </div>
+      )}
+
+      {producing && (
+        <p className="text-xs text-white/50">
+          {[
+            producing.locations?.primary,
+            producing.scene_complexity?.rating ? `complexity ${producing.scene_complexity.rating}/5` : null,
+            producing.estimated_screen_time?.estimated_minutes,
+            producing.cast?.principal?.length ? producing.cast.principal.join(', ') : null,
+          ].filter(Boolean).join(' · ')}
+        </p>
+      )}
+
+      {shots.length > 0 && (
+        <p className="text-xs text-white/50">{shots.length} shot{shots.length !== 1 ? 's' : ''} planned — validating...</p>
+      )}
+    </div>
+  );
+};
+
 export const AnalysisProgressPanel: React.FC<AnalysisProgressPanelProps> = ({
   scenes,
   onSceneClick,
   currentSceneId,
   onRetryScene,
+  live,
 }) => {
   const [isExpanded, setIsExpanded] = useState(true);
 
@@ -58,7 +137,7 @@ export const AnalysisProgressPanel: React.FC<AnalysisProgressPanelProps> = ({
   const getSceneLabel = (scene: Scene) => {
     const header = scene.header || '';
     const location = header.replace(/^\d+\.?\s*/, '').substring(0, 40);
-    return `Scene ${scene.scene_number}${location ? ' - ' + location : ''}`;
+    return `Scene ${displaySceneNumber(scene)}${location ? ' - ' + location : ''}`;
   };
 
   return (
@@ -116,6 +195,17 @@ export const AnalysisProgressPanel: React.FC<AnalysisProgressPanelProps> = ({
         ) : null}
       </div>
 
+      {/* Sections of the scene being analyzed, as they arrive */}
+      {live && (
+        <LivePreview
+          live={live}
+          sceneLabel={(() => {
+            const scene = scenes.find(s => s.scene_number === live.sceneNumber);
+            return scene ? getSceneLabel(scene) : `Scene ${live.sceneNumber}`;
+          })()}
+        />
+      )}
+
       {/* Expanded scene list */}
       {isExpanded && (
         <div className="px-4 pb-4">
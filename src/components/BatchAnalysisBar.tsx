@@ -0,0 +1,74 @@
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { Loader2, Pause, Play, X } from "lucide-react";
+import { displaySceneNumber } from "@/lib/sceneNumbering";
+import { AnalysisBatchProgress, Scene } from "@/types/analysis";
+
+interface BatchAnalysisBarProps {
+  batch: AnalysisBatchProgress;
+  scenes: Scene[];
+  onPause: () => void;
+  onResume: () => void;
+  onCancel: () => void;
+}
+
+/** Progress and controls for a whole-project analysis running on the server */
+export const BatchAnalysisBar = ({ batch, scenes, onPause, onResume, onCancel }: BatchAnalysisBarProps) => {
+  const { counts, total } = batch;
+  const finished = counts.completed + counts.error;
+  const paused = batch.status === 'PAUSED';
+  const inFlight = batch.scenes
+    .filter(s => s.status === 'PROCESSING')
+    .map(s => {
+      const scene = scenes.find(sc => sc.scene_number === s.sceneNumber);
+      return scene ? displaySceneNumber(scene) : String(s.sceneNumber);
+    });
+
+  return (
+    <div className="bg-card border border-border rounded-lg px-5 py-4 space-y-3">
+      <div className="flex items-center justify-between gap-4">
+        <div className="flex items-center gap-3 min-w-0">
+          {paused
+            ? <Pause className="w-5 h-5 text-muted-foreground flex-shrink-0" />
+            : <Loader2 className="w-5 h-5 text-netflix-red animate-spin flex-shrink-0" />}
+          <div className="min-w-0">
+            <p className="text-sm font-medium text-foreground">
+              {paused ? 'Analysis paused' : 'Analyzing scenes'} — {finished} of {total} done
+              {counts.error > 0 && <span className="text-destructive"> ({counts.error} failed)</span>}
+            </p>
+            <p className="text-xs text-muted-foreground truncate">
+              {paused
+                ? 'Scenes already in progress will finish; the rest wait until you resume.'
+                : inFlight.length > 0
+                  ? `Working on scene${inFlight.length !== 1 ? 's' : ''} ${inFlight.join(', ')}`
+                  : 'Waiting for the next scene...'}
+            </p>
+          </div>
+        </div>
+        <div className="flex items-center gap-2 flex-shrink-0">
+          {paused ? (
+            <Button variant="outline" size="sm" onClick={onResume}>
+              <Play className="w-4 h-4 mr-1" />
+              Resume
+            </Button>
+          ) : (
+            <Button variant="outline" size="sm" onClick={onPause}>
+              <Pause className="w-4 h-4 mr-1" />
+              Pause
+            </Button>
+          )}
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={onCancel}
+            className="text-red-500 hover:text-red-600 hover:bg-red-50"
+          >
+            <X className="w-4 h-4 mr-1" />
+            Cancel
+          </Button>
+        </div>
+      </div>
+      <Progress value={total > 0 ? (finished / total) * 100 : 0} className="h-2" />
+    </div>
+  );
+};
@@ -0,0 +1,255 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Scene } from '@/types/analysis';
+import { ShootingSchedule } from '@/types/schedule';
+import { CharacterRecord } from '@/lib/characterRegistry';
+import { ShootingLocation } from '@/lib/locationRegistry';
+import { RateCard, RateCardKey, ProjectBudget, DEFAULT_RATE_CARD, validateRateCard } from '@/lib/rateCard';
+import { buildBudget, formatMoney, BudgetSection } from '@/utils/budget';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { RotateCcw, Save } from 'lucide-react';
+
+interface BudgetTopSheetProps {
+  scenes: Scene[];
+  schedule: ShootingSchedule | null | undefined;
+  budget: ProjectBudget | null | undefined;
+  characters?: CharacterRecord[];
+  locations?: ShootingLocation[];
+  onSave: (rateCard: RateCard | null, baseVersion?: number) => Promise<void>;
+  /** The saved version the draft starts from, sent back with the save */
+  version?: number;
+  onSelectScene: (sceneId: string) => void;
+}
+
+// Rate card fields in the order the editor shows them
+const RATE_FIELDS: Array<{ group: string; fields: Array<{ key: RateCardKey; label: string; step: number }> }> = [
+  {
+    group: 'Above the line',
+    fields: [
+      { key: 'writerFee', label: 'Writer / rights', step: 1000 },
+      { key: 'producerFee', label: 'Producers', step: 1000 },
+      { key: 'directorFee', label: 'Director', step: 1000 },
+    ],
+  },
+  {
+    group: 'Cast day rates',
+    fields: [
+      { key: 'leadDayRate', label: 'Lead', step: 100 },
+      { key: 'supportingDayRate', label: 'Supporting', step: 100 },
+      { key: 'dayPlayerRate', label: 'Day player', step: 50 },
+      { key: 'leadCount', label: 'Number of leads', step: 1 },
+    ],
+  },
+  {
+    group: 'Per shoot day',
+    fields: [
+      { key: 'crewDayRate', label: 'Crew', step: 500 },
+      { key: 'equipmentDayRate', label: 'Camera, grip & electric', step: 250 },
+      { key: 'locationDayFee', label: 'Location fee', step: 100 },
+      { key: 'companyMoveCost', label: 'Company move', step: 100 },
+      { key: 'extraDayRate', label: 'Extra', step: 25 },
+      { key: 'extrasPerUnspecifiedGroup', label: 'Extras per unnumbered group', step: 1 },
+      { key: 'vehicleDayRate', label: 'Picture vehicle', step: 50 },
+    ],
+  },
+  {
+    group: 'Multipliers',
+    fields: [
+      { key: 'sfxMultiplier', label: 'SFX / VFX scenes', step: 0.05 },
+      { key: 'stuntMultiplier', label: 'Stunt scenes', step: 0.05 },
+      { key: 'nightMultiplier', label: 'Night scenes', step: 0.05 },
+      { key: 'complexityStep', label: 'Per complexity point over 3', step: 0.05 },
+    ],
+  },
+  {
+    group: 'Post & contingency',
+    fields: [
+      { key: 'postPerMinute', label: 'Post per screen minute', step: 100 },
+      { key: 'contingencyPercent', label: 'Contingency %', step: 1 },
+    ],
+  },
+];
+
+const SECTION_TITLES: Record<BudgetSection, string> = {
+  above: 'Above the Line',
+  below: 'Below the Line',
+  post: 'Post-Production',
+};
+
+const TOP_SCENES = 10;
+
+export const BudgetTopSheet: React.FC<BudgetTopSheetProps> = ({ scenes, schedule, budget, characters, locations, onSave, onSelectScene, version }) => {
+  const saved = budget?.rateCard || DEFAULT_RATE_CARD;
+  const [draft, setDraft] = useState<RateCard>(saved);
+  const [baseVersion, setBaseVersion] = useState(version);
+  const [isDirty, setIsDirty] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Pick up the saved rates when the project refetches, unless the user is mid-edit
+  useEffect(() => {
+    if (isDirty) return;
+    setDraft(budget?.rateCard || DEFAULT_RATE_CARD);
+    setBaseVersion(version);
+  }, [budget, isDirty, version]);
+
+  const checked = useMemo(() => validateRateCard(draft), [draft]);
+  const error = 'error' in checked ? checked.error : null;
+  const estimate = useMemo(
+    () => buildBudget(scenes, 'rateCard' in checked ? checked.rateCard : saved, schedule, characters, locations),
+    [scenes, checked, saved, schedule, characters, locations]
+  );
+  const money = (amount: number) => formatMoney(amount, estimate.rateCard.currency);
+  const sceneIds = useMemo(() => new Map(scenes.map(scene => [scene.scene_number, scene.id])), [scenes]);
+
+  const updateField = (key: RateCardKey, value: string) => {
+    const parsed = parseFloat(value);
+    setDraft(prev => ({ ...prev, [key]: Number.isNaN(parsed) ? -1 : parsed }));
+    setIsDirty(true);
+  };
+
+  const handleSave = async (rateCard: RateCard | null) => {
+    setIsSaving(true);
+    try {
+      await onSave(rateCard, baseVersion);
+      setIsDirty(false);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (estimate.scenes.length === 0) {
+    return (
+      <p className="text-sm text-muted-foreground text-center py-8">
+        Analyze scenes to estimate a budget.
+      </p>
+    );
+  }
+
+  const sectionTotal = (section: BudgetSection) =>
+    section === 'above' ? estimate.aboveTheLine : section === 'below' ? estimate.belowTheLine : estimate.post;
+  const costliest = [...estimate.scenes].sort((a, b) => b.total - a.total).slice(0, TOP_SCENES);
+
+  return (
+    <div className="space-y-6">
+      {/* Rate card */}
+      <div className="space-y-3">
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <h3 className="text-sm font-semibold text-primary">Rate Card ({draft.currency})</h3>
+          <div className="flex gap-2">
+            <Button variant="outline" size="sm" onClick={() => handleSave(null)} disabled={isSaving || !budget}>
+              <RotateCcw className="w-4 h-4 mr-1" />
+              Reset to defaults
+            </Button>
+            <Button size="sm" onClick={() => handleSave(draft)} disabled={isSaving || !isDirty || !!error}>
+              <Save className="w-4 h-4 mr-1" />
+              {isSaving ? 'Saving...' : 'Save rates'}
+            </Button>
+          </div>
+        </div>
+        {error && <p className="text-xs text-red-400">{error}</p>}
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+          {RATE_FIELDS.map(({ group, fields }) => (
+            <div key={group} className="bg-muted/30 rounded-lg p-3 space-y-2">
+              <p className="text-xs font-semibold text-muted-foreground uppercase">{group}</p>
+              {fields.map(field => (
+                <div key={field.key} className="flex items-center justify-between gap-2">
+                  <label htmlFor={`rate-${field.key}`} className="text-xs text-foreground">{field.label}</label>
+                  <Input
+                    id={`rate-${field.key}`}
+                    type="number"
+                    min={0}
+                    step={field.step}
+                    value={draft[field.key] < 0 ? '' : draft[field.key]}
+                    onChange={(e) => updateField(field.key, e.target.value)}
+                    className="w-28 h-7 text-xs text-right"
+                  />
+                </div>
+              ))}
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {/* Top sheet */}
+      <div className="space-y-2">
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <h3 className="text-sm font-semibold text-primary">Top Sheet</h3>
+          <div className="flex gap-2">
+            <Badge variant="outline" className="text-xs">
+              {estimate.shootDays} shoot days {estimate.source === 'schedule' ? 'from saved schedule' : 'in script order'}
+            </Badge>
+            {estimate.missingScenes.length > 0 && (
+              <Badge variant="outline" className="text-xs text-yellow-400">
+                {estimate.missingScenes.length} scene(s) not analyzed
+              </Badge>
+            )}
+          </div>
+        </div>
+        <div className="rounded-lg border border-border overflow-hidden text-sm">
+          {(['above', 'below', 'post'] as BudgetSection[]).map(section => (
+            <div key={section}>
+              <div className="bg-muted/50 px-3 py-1.5 text-xs font-semibold uppercase text-muted-foreground">
+                {SECTION_TITLES[section]}
+              </div>
+              {estimate.lines.filter(line => line.section === section).map(line => (
+                <div key={line.account} className="flex items-center gap-3 px-3 py-1 border-t border-border/50">
+                  <span className="w-48 text-foreground">{line.account}</span>
+                  <span className="flex-1 text-xs text-muted-foreground truncate">{line.basis}</span>
+                  <span className="w-28 text-right tabular-nums">{money(line.amount)}</span>
+                </div>
+              ))}
+              <div className="flex justify-between px-3 py-1 border-t border-border font-semibold">
+                <span>Total {SECTION_TITLES[section]}</span>
+                <span className="tabular-nums">{money(sectionTotal(section))}</span>
+              </div>
+            </div>
+          ))}
+          <div className="flex justify-between px-3 py-1 border-t border-border">
+            <span>Contingency ({estimate.rateCard.contingencyPercent}%)</span>
+            <span className="tabular-nums">{money(estimate.contingency)}</span>
+          </div>
+          <div className="flex justify-between px-3 py-2 border-t border-border bg-primary/10 font-bold text-primary">
+            <span>Grand Total</span>
+            <span className="tabular-nums">{money(estimate.total)}</span>
+          </div>
+        </div>
+      </div>
+
+      {/* Per-scene cost drivers */}
+      <div className="space-y-2">
+        <h3 className="text-sm font-semibold text-primary">Costliest Scenes</h3>
+        <div className="space-y-2">
+          {costliest.map(scene => {
+            const sceneId = sceneIds.get(scene.sceneNumber);
+            return (
+              <div key={scene.sceneNumber} className="bg-muted/30 rounded-lg p-3 space-y-1">
+                <div className="flex items-center justify-between gap-3 text-sm">
+                  <button
+                    type="button"
+                    onClick={() => sceneId && onSelectScene(sceneId)}
+                    className="text-left text-foreground hover:text-primary truncate"
+                  >
+                    <span className="font-medium">Sc. {scene.sceneLabel}</span>
+                    <span className="text-muted-foreground"> {scene.header}</span>
+                  </button>
+                  <span className="font-semibold tabular-nums">{money(scene.total)}</span>
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  {scene.drivers.slice(0, 4).map(driver => `${driver.label} ${money(driver.amount)}`).join(' • ')}
+                </p>
+                {scene.flags.length > 0 && (
+                  <div className="flex flex-wrap gap-1">
+                    {scene.flags.map(flag => (
+                      <Badge key={flag} variant="outline" className="text-xs bg-yellow-500/10 text-yellow-400 border-yellow-500/30">{flag}</Badge>
+                    ))}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,194 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Scene, parseAnalysis } from '@/types/analysis';
+import {
+  CharacterRecord,
+  addCharacters,
+  mergeCharacters,
+  splitAlias,
+  resolveCharacter,
+  normalizeCharacterName,
+} from '@/lib/characterRegistry';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Merge, Plus, Save, X } from 'lucide-react';
+
+interface CastRegistryProps {
+  scenes: Scene[];
+  characters: CharacterRecord[];
+  onSave: (characters: CharacterRecord[], baseVersion?: number) => Promise<void>;
+  /** The saved version the draft starts from, sent back with the save */
+  version?: number;
+}
+
+// Every cast name the analyses mention, with the scenes it appears in
+function castMentions(scenes: Scene[]): Map<string, number[]> {
+  const mentions = new Map<string, number[]>();
+  for (const scene of scenes) {
+    const cast = parseAnalysis(scene.analysis)?.producing_logistics?.cast;
+    if (!cast) continue;
+    for (const raw of [...(cast.principal || []), ...(cast.speaking || []), ...(cast.silent || [])]) {
+      const name = normalizeCharacterName(raw);
+      if (!name) continue;
+      const list = mentions.get(name) || [];
+      if (!list.includes(scene.scene_number)) list.push(scene.scene_number);
+      mentions.set(name, list);
+    }
+  }
+  return mentions;
+}
+
+export const CastRegistry: React.FC<CastRegistryProps> = ({ scenes, characters, onSave, version }) => {
+  const [draft, setDraft] = useState<CharacterRecord[]>(characters);
+  const [selected, setSelected] = useState<string[]>([]);
+  const [baseVersion, setBaseVersion] = useState(version);
+  const [isDirty, setIsDirty] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (isDirty) return;
+    setDraft(characters);
+    setBaseVersion(version);
+  }, [characters, isDirty, version]);
+
+  const mentions = useMemo(() => castMentions(scenes), [scenes]);
+
+  const sceneCounts = useMemo(() => {
+    const counts = new Map<string, Set<number>>();
+    for (const [name, sceneNumbers] of mentions) {
+      const id = resolveCharacter(draft, name)?.id;
+      if (!id) continue;
+      const set = counts.get(id) || new Set<number>();
+      sceneNumbers.forEach(n => set.add(n));
+      counts.set(id, set);
+    }
+    return counts;
+  }, [mentions, draft]);
+
+  const unresolved = useMemo(
+    () => Array.from(mentions.entries())
+      .filter(([name]) => !resolveCharacter(draft, name))
+      .sort((a, b) => b[1].length - a[1].length),
+    [mentions, draft]
+  );
+
+  const update = (next: CharacterRecord[]) => {
+    setDraft(next);
+    setIsDirty(true);
+  };
+
+  const handleMerge = () => {
+    // The lowest cast number survives — it's usually the name the script uses most
+    const chosen = draft.filter(c => selected.includes(c.id)).sort((a, b) => a.castNumber - b.castNumber);
+    if (chosen.length < 2) return;
+    update(mergeCharacters(draft, chosen[0].id, chosen.slice(1).map(c => c.id)));
+    setSelected([]);
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      await onSave(draft, baseVersion);
+      setIsDirty(false);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Controls */}
+      <div className="flex flex-wrap items-center gap-3">
+        <Button size="sm" variant="outline" onClick={handleMerge} disabled={selected.length < 2}>
+          <Merge className="w-4 h-4 mr-1" />
+          Merge selected{selected.length > 1 ? ` (${selected.length})` : ''}
+        </Button>
+        <Button
+          size="sm"
+          onClick={handleSave}
+          disabled={!isDirty || isSaving}
+          className="bg-netflix-red hover:bg-netflix-red/90"
+        >
+          <Save className="w-4 h-4 mr-1" />
+          {isSaving ? 'Saving...' : 'Save Cast'}
+        </Button>
+        <Badge variant="outline" className="ml-auto text-xs">{draft.length} characters</Badge>
+      </div>
+
+      {/* Registry */}
+      {draft.length === 0 ? (
+        <p className="text-sm text-muted-foreground text-center py-6">
+          No characters yet. Add names found in the analyses below.
+        </p>
+      ) : (
+        <div className="rounded-lg border border-border divide-y divide-border/50">
+          {draft.map(character => (
+            <div key={character.id} className="flex items-start gap-3 px-3 py-2.5 hover:bg-white/5">
+              <Checkbox
+                checked={selected.includes(character.id)}
+                onCheckedChange={(checked) => setSelected(prev =>
+                  checked ? [...prev, character.id] : prev.filter(id => id !== character.id)
+                )}
+                className="mt-2"
+              />
+              <span className="w-8 pt-1.5 text-sm font-bold text-muted-foreground text-right">{character.castNumber}.</span>
+              <div className="flex-1 min-w-0 space-y-1.5">
+                <div className="flex items-center gap-2 flex-wrap">
+                  <span className="text-sm font-bold text-foreground">{character.name}</span>
+                  {character.aliases.map(alias => (
+                    <Badge key={alias} variant="secondary" className="text-xs gap-1">
+                      {alias}
+                      <button
+                        onClick={() => update(splitAlias(draft, character.id, alias))}
+                        title="Split into a separate character"
+                        className="hover:text-red-400"
+                      >
+                        <X className="w-3 h-3" />
+                      </button>
+                    </Badge>
+                  ))}
+                </div>
+                <Input
+                  value={character.physical}
+                  placeholder="Physical description used in image prompts"
+                  onChange={(e) => update(draft.map(c => (c.id === character.id ? { ...c, physical: e.target.value } : c)))}
+                  className="h-8 text-xs"
+                />
+              </div>
+              <Badge variant="outline" className="text-xs mt-1.5">
+                {sceneCounts.get(character.id)?.size || 0} scenes
+              </Badge>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Names from analyses the registry doesn't know */}
+      {unresolved.length > 0 && (
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <h4 className="text-xs font-bold text-muted-foreground uppercase tracking-wider">
+              Unmatched names in analyses ({unresolved.length})
+            </h4>
+            <Button size="sm" variant="ghost" onClick={() => update(addCharacters(draft, unresolved.map(([name]) => name)))}>
+              <Plus className="w-3 h-3 mr-1" />
+              Add all
+            </Button>
+          </div>
+          <div className="flex flex-wrap gap-2">
+            {unresolved.map(([name, sceneNumbers]) => (
+              <Button key={name} size="sm" variant="outline" onClick={() => update(addCharacters(draft, [name]))}>
+                + {name}
+                <span className="ml-1 text-muted-foreground">({sceneNumbers.length})</span>
+              </Button>
+            ))}
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Add a name, then select it with the character it belongs to and merge to record it as an alias.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
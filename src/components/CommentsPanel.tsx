@@ -0,0 +1,363 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from '@/components/ui/sheet';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import {
+  CommentAnchor,
+  CommentMember,
+  CommentThread,
+  InboxEntry,
+  MAX_COMMENT_LENGTH,
+  anchorLabel,
+  isThreadUnread,
+  sameAnchor,
+} from '@/lib/projectComments';
+import { AtSign, CheckCircle2, MessageSquare, RotateCcw } from 'lucide-react';
+
+interface CommentsPanelProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  threads: CommentThread[];
+  members: CommentMember[];
+  inbox: InboxEntry[];
+  currentUserId: string | undefined;
+  /** Commenters and up; viewers only read */
+  canComment: boolean;
+  /** The scene open in the project, whose threads the Scene tab lists */
+  sceneNumber: number | null;
+  /** Shot IDs of that scene in order, for "Shot 4" labels */
+  shotIds: string[];
+  /** Only threads on this anchor, and new threads go on it; null for the whole scene */
+  anchor: CommentAnchor | null;
+  onAnchorChange: (anchor: CommentAnchor | null) => void;
+  sceneLabel: (sceneNumber: number) => string;
+  /** From the inbox: open the thread's scene with the panel on its anchor */
+  onOpenThread: (thread: CommentThread) => void;
+  onCreateThread: (sceneNumber: number, anchor: CommentAnchor, body: string) => Promise<CommentThread | null>;
+  onReply: (threadId: string, body: string) => Promise<CommentThread | null>;
+  onSetResolved: (threadId: string, resolved: boolean) => Promise<CommentThread | null>;
+  onMarkRead: (threadId: string) => void;
+}
+
+// "@Name" runs in a comment, highlighted when they name a member
+const CommentBody: React.FC<{ body: string; members: CommentMember[] }> = ({ body, members }) => {
+  const handles = members.flatMap(member => [member.name, member.email].filter(Boolean) as string[])
+    .sort((a, b) => b.length - a.length);
+  const parts: React.ReactNode[] = [];
+  let rest = body;
+  while (rest) {
+    const at = rest.indexOf('@');
+    const handle = at === -1 ? undefined : handles.find(h => rest.slice(at + 1, at + 1 + h.length).toLowerCase() === h.toLowerCase());
+    if (at === -1 || !handle) {
+      parts.push(at === -1 ? rest : rest.slice(0, at + 1));
+      rest = at === -1 ? '' : rest.slice(at + 1);
+      continue;
+    }
+    parts.push(rest.slice(0, at));
+    parts.push(<span key={parts.length} className="text-primary font-medium">@{rest.slice(at + 1, at + 1 + handle.length)}</span>);
+    rest = rest.slice(at + 1 + handle.length);
+  }
+  return <p className="text-sm text-foreground whitespace-pre-wrap break-words">{parts}</p>;
+};
+
+const Composer: React.FC<{
+  placeholder: string;
+  submitLabel: string;
+  members: CommentMember[];
+  currentUserId: string | undefined;
+  onSubmit: (body: string) => Promise<unknown>;
+}> = ({ placeholder, submitLabel, members, currentUserId, onSubmit }) => {
+  const [body, setBody] = useState('');
+  const [isPosting, setIsPosting] = useState(false);
+  const others = members.filter(member => member.userId !== currentUserId);
+
+  const submit = async () => {
+    if (!body.trim()) return;
+    setIsPosting(true);
+    const posted = await onSubmit(body.trim());
+    setIsPosting(false);
+    if (posted) setBody('');
+  };
+
+  return (
+    <div className="space-y-2">
+      <Textarea
+        value={body}
+        onChange={(e) => setBody(e.target.value)}
+        onKeyDown={(e) => (e.metaKey || e.ctrlKey) && e.key === 'Enter' && submit()}
+        placeholder={placeholder}
+        maxLength={MAX_COMMENT_LENGTH}
+        rows={3}
+        disabled={isPosting}
+        className="text-sm"
+      />
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex flex-wrap items-center gap-1 min-w-0">
+          {others.length > 0 && <AtSign className="w-3 h-3 text-muted-foreground flex-shrink-0" />}
+          {others.slice(0, 6).map(member => (
+            <button
+              key={member.userId}
+              type="button"
+              onClick={() => setBody(current => `${current}${current && !current.endsWith(' ') ? ' ' : ''}@${member.name} `)}
+              className="text-[11px] px-1.5 py-0.5 rounded border border-border text-muted-foreground hover:text-foreground truncate max-w-[120px]"
+              title={member.email ? `Mention ${member.name} (${member.email})` : `Mention ${member.name}`}
+            >
+              {member.name}
+            </button>
+          ))}
+        </div>
+        <Button size="sm" onClick={submit} disabled={isPosting || !body.trim()}>
+          {submitLabel}
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+const ThreadCard: React.FC<{
+  thread: CommentThread;
+  label: string;
+  members: CommentMember[];
+  currentUserId: string | undefined;
+  canComment: boolean;
+  onReply: CommentsPanelProps['onReply'];
+  onSetResolved: CommentsPanelProps['onSetResolved'];
+  onMarkRead: CommentsPanelProps['onMarkRead'];
+}> = ({ thread, label, members, currentUserId, canComment, onReply, onSetResolved, onMarkRead }) => {
+  const [showReply, setShowReply] = useState(false);
+  const unread = !!currentUserId && isThreadUnread(thread, currentUserId);
+  const resolved = thread.status === 'resolved';
+  const latestId = thread.comments[thread.comments.length - 1]?.id;
+  const markedRef = useRef<string>();
+
+  // Showing a thread in the panel counts as reading it, once per new comment
+  useEffect(() => {
+    if (!unread || markedRef.current === latestId) return;
+    markedRef.current = latestId;
+    onMarkRead(thread.id);
+  }, [unread, latestId, thread.id, onMarkRead]);
+
+  return (
+    <div className={`rounded-lg border p-3 space-y-3 ${resolved ? 'border-border/50 opacity-70' : 'border-border bg-muted/20'}`}>
+      <div className="flex items-center justify-between gap-2">
+        <Badge variant="outline" className="text-[10px] truncate">{label}</Badge>
+        {resolved ? (
+          <span className="text-[11px] text-muted-foreground">Resolved</span>
+        ) : unread ? (
+          <span className="w-2 h-2 rounded-full bg-primary flex-shrink-0" title="Unread" />
+        ) : null}
+      </div>
+      {thread.comments.map(comment => (
+        <div key={comment.id} className="space-y-0.5">
+          <div className="flex items-baseline gap-2 text-xs">
+            <span className="font-semibold text-foreground">{comment.authorName}</span>
+            <span className="text-muted-foreground">{new Date(comment.createdAt).toLocaleString()}</span>
+          </div>
+          <CommentBody body={comment.body} members={members} />
+        </div>
+      ))}
+      {canComment && (
+        <div className="space-y-2">
+          {showReply && !resolved && (
+            <Composer
+              placeholder="Reply…"
+              submitLabel="Reply"
+              members={members}
+              currentUserId={currentUserId}
+              onSubmit={async (body) => {
+                const replied = await onReply(thread.id, body);
+                if (replied) setShowReply(false);
+                return replied;
+              }}
+            />
+          )}
+          <div className="flex justify-end gap-1">
+            {!resolved && !showReply && (
+              <Button variant="ghost" size="sm" className="h-7 text-xs" onClick={() => setShowReply(true)}>
+                Reply
+              </Button>
+            )}
+            <Button variant="ghost" size="sm" className="h-7 text-xs" onClick={() => onSetResolved(thread.id, !resolved)}>
+              {resolved ? <RotateCcw className="w-3 h-3 mr-1" /> : <CheckCircle2 className="w-3 h-3 mr-1" />}
+              {resolved ? 'Reopen' : 'Resolve'}
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+/** Opens the comments panel on one anchor, showing how many open threads it has */
+export const CommentAnchorButton: React.FC<{ count: number; onClick: () => void; className?: string }> = ({ count, onClick, className = '' }) => (
+  <button
+    type="button"
+    onClick={onClick}
+    title={count > 0 ? `${count} open comment thread${count === 1 ? '' : 's'}` : 'Comment'}
+    className={`inline-flex items-center gap-1 text-xs rounded px-1 py-0.5 ${count > 0 ? 'text-primary' : 'text-muted-foreground/60 hover:text-muted-foreground'} ${className}`}
+  >
+    <MessageSquare className="w-3.5 h-3.5" />
+    {count > 0 && count}
+  </button>
+);
+
+export const CommentsPanel: React.FC<CommentsPanelProps> = ({
+  open,
+  onOpenChange,
+  threads,
+  members,
+  inbox,
+  currentUserId,
+  canComment,
+  sceneNumber,
+  shotIds,
+  anchor,
+  onAnchorChange,
+  sceneLabel,
+  onOpenThread,
+  onCreateThread,
+  onReply,
+  onSetResolved,
+  onMarkRead,
+}) => {
+  const [tab, setTab] = useState<'scene' | 'inbox'>('scene');
+  const [showResolved, setShowResolved] = useState(false);
+
+  // Opening the panel from an anchor always lands on that scene's threads
+  useEffect(() => {
+    if (anchor) setTab('scene');
+  }, [anchor]);
+
+  const sceneThreads = sceneNumber === null ? [] : threads.filter(thread =>
+    thread.sceneNumber === sceneNumber && (!anchor || sameAnchor(thread.anchor, anchor))
+  );
+  const openSceneThreads = sceneThreads.filter(thread => thread.status === 'open');
+  const resolvedSceneThreads = sceneThreads.filter(thread => thread.status === 'resolved');
+  const unreadCount = inbox.filter(entry => entry.unread).length;
+  const target = anchor || { kind: 'scene' as const };
+
+  const threadLabel = (thread: CommentThread) =>
+    anchorLabel(thread.anchor, thread.sceneNumber === sceneNumber ? shotIds : undefined);
+
+  const renderThread = (thread: CommentThread) => (
+    <ThreadCard
+      key={thread.id}
+      thread={thread}
+      label={threadLabel(thread)}
+      members={members}
+      currentUserId={currentUserId}
+      canComment={canComment}
+      onReply={onReply}
+      onSetResolved={onSetResolved}
+      onMarkRead={onMarkRead}
+    />
+  );
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent side="right" className="w-full sm:max-w-[440px] flex flex-col gap-4">
+        <SheetHeader>
+          <SheetTitle className="flex items-center gap-2">
+            <MessageSquare className="w-5 h-5" />
+            Comments
+          </SheetTitle>
+          <SheetDescription>
+            Notes on the analysis and shots. Resolving a thread keeps it, out of the way.
+          </SheetDescription>
+        </SheetHeader>
+
+        <Tabs value={tab} onValueChange={(value) => setTab(value as 'scene' | 'inbox')} className="flex-1 min-h-0 flex flex-col">
+          <TabsList className="grid grid-cols-2">
+            <TabsTrigger value="scene">
+              {sceneNumber !== null ? `Scene ${sceneLabel(sceneNumber)}` : 'Scene'}
+            </TabsTrigger>
+            <TabsTrigger value="inbox">
+              Inbox{unreadCount > 0 && <Badge className="ml-2 h-5 px-1.5">{unreadCount}</Badge>}
+            </TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="scene" className="flex-1 min-h-0 overflow-y-auto space-y-3 pr-1">
+            {sceneNumber === null ? (
+              <p className="text-sm text-muted-foreground">Open a scene to see its comments.</p>
+            ) : (
+              <>
+                {anchor && (
+                  <div className="flex items-center justify-between text-xs">
+                    <span className="text-muted-foreground">On <span className="text-foreground font-medium">{anchorLabel(anchor, shotIds)}</span></span>
+                    <button type="button" className="text-primary hover:underline" onClick={() => onAnchorChange(null)}>
+                      All of this scene
+                    </button>
+                  </div>
+                )}
+                {canComment && (
+                  <Composer
+                    placeholder={`Comment on ${anchor ? anchorLabel(anchor, shotIds).toLowerCase() : 'this scene'}… Type @ and a name to mention someone.`}
+                    submitLabel="Comment"
+                    members={members}
+                    currentUserId={currentUserId}
+                    onSubmit={(body) => onCreateThread(sceneNumber, target, body)}
+                  />
+                )}
+                {openSceneThreads.length === 0 && (
+                  <p className="text-sm text-muted-foreground">No open comments{anchor ? ' here' : ' on this scene'}.</p>
+                )}
+                {openSceneThreads.map(renderThread)}
+                {resolvedSceneThreads.length > 0 && (
+                  <button
+                    type="button"
+                    onClick={() => setShowResolved(!showResolved)}
+                    className="text-xs text-muted-foreground hover:text-foreground"
+                  >
+                    {showResolved ? 'Hide' : 'Show'} {resolvedSceneThreads.length} resolved
+                  </button>
+                )}
+                {showResolved && resolvedSceneThreads.map(renderThread)}
+              </>
+            )}
+          </TabsContent>
+
+          <TabsContent value="inbox" className="flex-1 min-h-0 overflow-y-auto space-y-2 pr-1">
+            {inbox.length === 0 && (
+              <p className="text-sm text-muted-foreground">
+                Threads you comment in or are mentioned in show up here.
+              </p>
+            )}
+            {inbox.map(({ thread, unread, mentioned }) => {
+              const latest = thread.comments[thread.comments.length - 1];
+              const where = thread.sceneNumber !== null
+                ? `Scene ${sceneLabel(thread.sceneNumber)}`
+                : `Omitted scene ${thread.detachedFrom ?? ''}`.trim();
+              return (
+                <button
+                  key={thread.id}
+                  type="button"
+                  onClick={() => {
+                    if (thread.sceneNumber === null) return;
+                    setTab('scene');
+                    onOpenThread(thread);
+                  }}
+                  className={`w-full text-left rounded-lg border p-3 space-y-1 ${unread ? 'border-primary/50 bg-primary/5' : 'border-border hover:bg-muted/30'}`}
+                >
+                  <div className="flex items-center gap-2 text-xs">
+                    {unread && <span className="w-2 h-2 rounded-full bg-primary flex-shrink-0" />}
+                    <span className="font-semibold text-foreground">{where}</span>
+                    <span className="text-muted-foreground truncate">· {threadLabel(thread)}</span>
+                    {mentioned && <AtSign className="w-3 h-3 text-primary flex-shrink-0" />}
+                    {thread.status === 'resolved' && <span className="ml-auto text-muted-foreground">Resolved</span>}
+                  </div>
+                  {latest && (
+                    <p className="text-xs text-muted-foreground line-clamp-2">
+                      <span className="text-foreground">{latest.authorName}:</span> {latest.body}
+                    </p>
+                  )}
+                </button>
+              );
+            })}
+          </TabsContent>
+        </Tabs>
+      </SheetContent>
+    </Sheet>
+  );
+};
@@ -0,0 +1,94 @@
+import React, { useMemo, useState } from 'react';
+import { Scene } from '@/types/analysis';
+import { CharacterRecord } from '@/lib/characterRegistry';
+import { buildContinuityReport, continuityFieldLabel, ContinuityIssueKind } from '@/utils/continuity';
+import { continuityKindLabel } from '@/utils/exportContinuity';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+
+interface ContinuityReportProps {
+  scenes: Scene[];
+  characters?: CharacterRecord[];
+  onSelectScene: (sceneId: string) => void;
+}
+
+const KIND_STYLES: Record<ContinuityIssueKind, string> = {
+  mismatch: 'bg-red-500/20 text-red-400 border-red-500/30',
+  unexplained_change: 'bg-yellow-500/20 text-yellow-400 border-yellow-500/30',
+  time_conflict: 'bg-blue-500/20 text-blue-400 border-blue-500/30',
+};
+
+const ALL = 'all';
+
+export const ContinuityReport: React.FC<ContinuityReportProps> = ({ scenes, characters = [], onSelectScene }) => {
+  const report = useMemo(() => buildContinuityReport(scenes, characters), [scenes, characters]);
+  const [character, setCharacter] = useState<string>(ALL);
+
+  const sceneIds = useMemo(() => new Map(scenes.map(scene => [scene.scene_number, scene.id])), [scenes]);
+  const issues = character === ALL ? report.issues : report.issues.filter(issue => issue.character === character);
+
+  const sceneLink = (sceneNumber: number, label: string) => {
+    const sceneId = sceneIds.get(sceneNumber);
+    return sceneId ? (
+      <button type="button" onClick={() => onSelectScene(sceneId)} className="text-primary hover:underline font-medium">
+        Sc. {label}
+      </button>
+    ) : (
+      <span>Sc. {label}</span>
+    );
+  };
+
+  if (report.pairsChecked === 0 && report.issues.length === 0) {
+    return (
+      <p className="text-sm text-muted-foreground text-center py-8">
+        Continuity is compared once a character appears in at least two analyzed scenes.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <p className="text-sm text-muted-foreground">
+          {report.issues.length} issue{report.issues.length === 1 ? '' : 's'} across {report.pairsChecked} scene-to-scene checks
+          {report.missingScenes.length > 0 && ` · ${report.missingScenes.length} scene(s) not analyzed yet`}
+        </p>
+        <Select value={character} onValueChange={setCharacter}>
+          <SelectTrigger className="w-48 h-8 text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL}>All characters</SelectItem>
+            {report.characters.map(c => (
+              <SelectItem key={c.name} value={c.name}>{c.name} ({c.sceneNumbers.length})</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {issues.length === 0 ? (
+        <p className="text-sm text-muted-foreground italic">No continuity issues found.</p>
+      ) : (
+        <div className="space-y-2">
+          {issues.map((issue, idx) => (
+            <div key={`${issue.toScene}-${issue.character}-${issue.field}-${idx}`} className="bg-muted/30 rounded-lg p-3 space-y-2">
+              <div className="flex flex-wrap items-center gap-2 text-sm">
+                {sceneLink(issue.fromScene, issue.fromLabel)}
+                <span className="text-muted-foreground">→</span>
+                {sceneLink(issue.toScene, issue.toLabel)}
+                <span className="text-foreground font-medium">{issue.character || 'Scene'}</span>
+                <Badge variant="outline" className="text-xs">{continuityFieldLabel(issue.field)}</Badge>
+                <Badge variant="outline" className={`text-xs ${KIND_STYLES[issue.kind]}`}>{continuityKindLabel(issue.kind)}</Badge>
+              </div>
+              <p className="text-sm text-foreground">{issue.message}</p>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-2 text-xs">
+                <p><span className="text-green-400">Carries out:</span> <span className="text-muted-foreground">{issue.carriedOut || '—'}</span></p>
+                <p><span className="text-blue-400">Carries in:</span> <span className="text-muted-foreground">{issue.carriedIn || '—'}</span></p>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -3,17 +3,20 @@ import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } f
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { FileText, Grid, List, Loader2, BookOpen } from "lucide-react";
+import { Checkbox } from "@/components/ui/checkbox";
+import { FileText, Grid, List, Loader2, BookOpen, FileCode, ClipboardList, CalendarRange, Shirt, Users, DollarSign, MapPin, Clapperboard } from "lucide-react";
 import { cn } from "@/lib/utils";
+import { DEPARTMENTS, DepartmentId } from "@/utils/departments";
 
-type ExportType = "full-report" | "analysis-only" | "storyboard" | "shot-list";
+export type ExportType = "full-report" | "analysis-only" | "storyboard" | "shot-list" | "shooting-order" | "final-draft" | "breakdown" | "dood" | "continuity" | "department" | "budget" | "locations";
+export type ExportFormat = "pdf" | "csv" | "mms";
 type UserRole = "director" | "cinematographer" | "editor" | "producer" | null;
 type PanelsPerPage = 4 | 6 | 9;
 
 interface ExportModalProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
-  onExport: (type: ExportType, options?: { panelsPerPage?: PanelsPerPage }) => Promise<void>;
+  onExport: (type: ExportType, options?: { panelsPerPage?: PanelsPerPage; format?: ExportFormat; department?: DepartmentId; includeComments?: boolean }) => Promise<void>;
 }
 
 const exportOptions = [
@@ -45,13 +48,72 @@ const exportOptions = [
     icon: List,
     format: "CSV/PDF",
   },
+  {
+    id: "shooting-order" as ExportType,
+    title: "Shooting Order",
+    description: "Shots regrouped by lighting setup, with setup counts and time estimates",
+    icon: Clapperboard,
+    format: "CSV/PDF",
+  },
+  {
+    id: "final-draft" as ExportType,
+    title: "Final Draft Script",
+    description: "Script with tagged breakdown elements and scene notes",
+    icon: FileCode,
+    format: "FDX",
+  },
+  {
+    id: "breakdown" as ExportType,
+    title: "Breakdown Sheets",
+    description: "Colour-coded scene sheets with cast IDs, pages and elements",
+    icon: ClipboardList,
+    format: "PDF/MMS",
+  },
+  {
+    id: "dood" as ExportType,
+    title: "Day Out of Days",
+    description: "Cast work and hold days across the shooting schedule",
+    icon: CalendarRange,
+    format: "CSV/PDF",
+  },
+  {
+    id: "continuity" as ExportType,
+    title: "Continuity Report",
+    description: "Costume, prop, makeup and time mismatches between scenes",
+    icon: Shirt,
+    format: "CSV/PDF",
+  },
+  {
+    id: "department" as ExportType,
+    title: "Department Reports",
+    description: "One department's items across the script, by character and set",
+    icon: Users,
+    format: "CSV/PDF",
+  },
+  {
+    id: "budget" as ExportType,
+    title: "Budget Top Sheet",
+    description: "Estimate priced from your rate card, with per-scene cost drivers",
+    icon: DollarSign,
+    format: "CSV/PDF",
+  },
+  {
+    id: "locations" as ExportType,
+    title: "Locations",
+    description: "Shooting locations with their script sets, permits, notes and photos",
+    icon: MapPin,
+    format: "CSV/PDF",
+  },
 ];
 
+// Analysis reports that can carry the project's open comment threads
+const commentableExports: ExportType[] = ["full-report", "analysis-only"];
+
 const rolePresets: Record<string, ExportType> = {
   director: "full-report",
   cinematographer: "shot-list",
   editor: "full-report",
-  producer: "analysis-only",
+  producer: "breakdown",
 };
 
 const panelOptions = [
@@ -60,10 +122,45 @@ const panelOptions = [
   { value: "9", label: "9 panels (3×3)", description: "More per page" },
 ];
 
+// Export types that come in more than one file format
+const formatOptions: Partial<Record<ExportType, Array<{ value: ExportFormat; label: string; description: string }>>> = {
+  "shooting-order": [
+    { value: "pdf", label: "Printable PDF", description: "One block per lighting setup" },
+    { value: "csv", label: "CSV", description: "Open in Excel or Sheets" },
+  ],
+  breakdown: [
+    { value: "pdf", label: "Printable PDF", description: "One sheet per scene" },
+    { value: "mms", label: "Movie Magic Scheduling", description: "Tab-delimited import file" },
+  ],
+  dood: [
+    { value: "pdf", label: "Printable PDF", description: "Colour-coded grid" },
+    { value: "csv", label: "CSV", description: "Open in Excel or Sheets" },
+  ],
+  continuity: [
+    { value: "pdf", label: "Printable PDF", description: "One block per issue" },
+    { value: "csv", label: "CSV", description: "Open in Excel or Sheets" },
+  ],
+  department: [
+    { value: "pdf", label: "Printable PDF", description: "Grouped by character and set" },
+    { value: "csv", label: "CSV", description: "Open in Excel or Sheets" },
+  ],
+  budget: [
+    { value: "pdf", label: "Printable PDF", description: "Top sheet and scene drivers" },
+    { value: "csv", label: "CSV", description: "Open in Excel or Sheets" },
+  ],
+  locations: [
+    { value: "pdf", label: "Printable PDF", description: "One block per location" },
+    { value: "csv", label: "CSV", description: "Open in Excel or Sheets" },
+  ],
+};
+
 export const ExportModal = ({ open, onOpenChange, onExport }: ExportModalProps) => {
   const [selectedType, setSelectedType] = useState<ExportType | null>(null);
   const [selectedRole, setSelectedRole] = useState<UserRole>(null);
   const [panelsPerPage, setPanelsPerPage] = useState<PanelsPerPage>(6);
+  const [format, setFormat] = useState<ExportFormat>("pdf");
+  const [department, setDepartment] = useState<DepartmentId>("wardrobe");
+  const [includeComments, setIncludeComments] = useState(false);
   const [isExporting, setIsExporting] = useState(false);
 
   const handleRoleChange = (role: string) => {
@@ -76,7 +173,15 @@ export const ExportModal = ({ open, onOpenChange, onExport }: ExportModalProps)
 
     setIsExporting(true);
     try {
-      const options = selectedType === "storyboard" ? { panelsPerPage } : undefined;
+      const options = selectedType === "storyboard"
+        ? { panelsPerPage }
+        : selectedType === "department"
+          ? { format, department }
+          : formatOptions[selectedType]
+            ? { format }
+            : commentableExports.includes(selectedType)
+              ? { includeComments }
+              : undefined;
       await onExport(selectedType, options);
       onOpenChange(false);
     } finally {
@@ -89,6 +194,9 @@ export const ExportModal = ({ open, onOpenChange, onExport }: ExportModalProps)
       setSelectedType(null);
       setSelectedRole(null);
       setPanelsPerPage(6);
+      setFormat("pdf");
+      setDepartment("wardrobe");
+      setIncludeComments(false);
       onOpenChange(false);
     }
   };
@@ -124,7 +232,7 @@ export const ExportModal = ({ open, onOpenChange, onExport }: ExportModalProps)
         </div>
 
         {/* Export Options Grid */}
-        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4 py-4">
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4 py-4">
           {exportOptions.map((option) => {
             const Icon = option.icon;
             const isSelected = selectedType === option.id;
@@ -209,6 +317,74 @@ export const ExportModal = ({ open, onOpenChange, onExport }: ExportModalProps)
           </div>
         )}
 
+        {/* Department Options - Only show when department reports are selected */}
+        {selectedType === "department" && (
+          <div className="space-y-3 p-4 bg-muted/30 rounded-lg border border-border">
+            <label className="text-sm font-medium text-foreground">
+              Department
+            </label>
+            <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
+              {DEPARTMENTS.map((option) => (
+                <button
+                  key={option.id}
+                  onClick={() => setDepartment(option.id)}
+                  className={cn(
+                    "p-3 rounded-lg border-2 transition-all text-left",
+                    department === option.id
+                      ? "border-netflix-red bg-netflix-red/10"
+                      : "border-border hover:border-muted-foreground"
+                  )}
+                >
+                  <div className="font-semibold text-foreground text-sm">{option.name}</div>
+                  <div className="text-xs text-muted-foreground">{option.recipient}</div>
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {/* Format Options - Only show for exports with more than one format */}
+        {selectedType && formatOptions[selectedType] && (
+          <div className="space-y-3 p-4 bg-muted/30 rounded-lg border border-border">
+            <label className="text-sm font-medium text-foreground">
+              Format
+            </label>
+            <div className="grid grid-cols-2 gap-3">
+              {formatOptions[selectedType]!.map((option) => (
+                <button
+                  key={option.value}
+                  onClick={() => setFormat(option.value)}
+                  className={cn(
+                    "p-3 rounded-lg border-2 transition-all text-left",
+                    format === option.value
+                      ? "border-netflix-red bg-netflix-red/10"
+                      : "border-border hover:border-muted-foreground"
+                  )}
+                >
+                  <div className="font-semibold text-foreground text-sm">{option.label}</div>
+                  <div className="text-xs text-muted-foreground">{option.description}</div>
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {/* Comment Options - Only show for the analysis reports */}
+        {selectedType && commentableExports.includes(selectedType) && (
+          <div className="flex items-start gap-3 p-4 bg-muted/30 rounded-lg border border-border">
+            <Checkbox
+              id="export-include-comments"
+              checked={includeComments}
+              onCheckedChange={(checked) => setIncludeComments(checked === true)}
+              className="mt-0.5"
+            />
+            <label htmlFor="export-include-comments" className="space-y-1 cursor-pointer">
+              <div className="text-sm font-medium text-foreground">Include open comments</div>
+              <div className="text-xs text-muted-foreground">Print each scene's unresolved comment threads as review notes</div>
+            </label>
+          </div>
+        )}
+
         {/* Actions */}
         <div className="flex justify-end gap-3 pt-4 border-t border-border">
           <Button
@@ -0,0 +1,287 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Scene } from '@/types/analysis';
+import { CharacterRecord } from '@/lib/characterRegistry';
+import {
+  ShootingLocation,
+  PermitStatus,
+  PERMIT_STATUSES,
+  PERMIT_LABELS,
+  addLocation,
+  assignSet,
+  mergeLocations,
+} from '@/lib/locationRegistry';
+import { formatEighths } from '@/utils/breakdown';
+import { buildLocationBoard, LocationBoardEntry, CoverageKey } from '@/utils/locations';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ImagePlus, Merge, Plus, Save, X } from 'lucide-react';
+
+interface LocationsBoardProps {
+  scenes: Scene[];
+  locations: ShootingLocation[];
+  characters?: CharacterRecord[];
+  onSave: (locations: ShootingLocation[], baseVersion?: number) => Promise<void>;
+  /** The saved version the draft starts from, sent back with the save */
+  version?: number;
+}
+
+const PERMIT_STYLES: Record<PermitStatus, string> = {
+  not_needed: 'text-muted-foreground',
+  required: 'bg-yellow-500/20 text-yellow-400 border-yellow-500/30',
+  applied: 'bg-blue-500/20 text-blue-400 border-blue-500/30',
+  approved: 'bg-green-500/20 text-green-400 border-green-500/30',
+  denied: 'bg-red-500/20 text-red-400 border-red-500/30',
+};
+
+// "JOE'S DINER - KITCHEN" → "Joe's Diner - Kitchen" for a new location's name
+const titleCase = (set: string): string =>
+  set.toLowerCase().replace(/(^|[\s\-/(])([a-z])/g, (_, lead: string, letter: string) => lead + letter.toUpperCase());
+
+const coverageBadges = (entry: LocationBoardEntry) =>
+  (Object.entries(entry.coverage) as Array<[CoverageKey, number]>).map(([key, count]) => (
+    <Badge key={key} variant="outline" className="text-xs">{key} ×{count}</Badge>
+  ));
+
+export const LocationsBoard: React.FC<LocationsBoardProps> = ({ scenes, locations, characters, onSave, version }) => {
+  const [draft, setDraft] = useState<ShootingLocation[]>(locations);
+  const [selected, setSelected] = useState<string[]>([]);
+  const [photoInputs, setPhotoInputs] = useState<Record<string, string>>({});
+  const [baseVersion, setBaseVersion] = useState(version);
+  const [isDirty, setIsDirty] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (isDirty) return;
+    setDraft(locations);
+    setBaseVersion(version);
+  }, [locations, isDirty, version]);
+
+  const board = useMemo(() => buildLocationBoard(scenes, draft, characters), [scenes, draft, characters]);
+  const mapped = board.entries.filter(entry => entry.location);
+  const unmapped = board.entries.filter(entry => !entry.location);
+
+  const update = (next: ShootingLocation[]) => {
+    setDraft(next);
+    setIsDirty(true);
+  };
+
+  const updateLocation = (id: string, changes: Partial<ShootingLocation>) =>
+    update(draft.map(location => (location.id === id ? { ...location, ...changes } : location)));
+
+  const addPhoto = (location: ShootingLocation) => {
+    const url = (photoInputs[location.id] || '').trim();
+    if (!/^https?:\/\/\S+$/i.test(url) || location.photos.includes(url)) return;
+    updateLocation(location.id, { photos: [...location.photos, url] });
+    setPhotoInputs(prev => ({ ...prev, [location.id]: '' }));
+  };
+
+  const handleMerge = () => {
+    // The first selected in board order survives and keeps its details
+    const chosen = draft.filter(location => selected.includes(location.id));
+    if (chosen.length < 2) return;
+    update(mergeLocations(draft, chosen[0].id, chosen.slice(1).map(location => location.id)));
+    setSelected([]);
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      await onSave(draft, baseVersion);
+      setIsDirty(false);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Controls */}
+      <div className="flex flex-wrap items-center gap-3">
+        <Button size="sm" variant="outline" onClick={handleMerge} disabled={selected.length < 2}>
+          <Merge className="w-4 h-4 mr-1" />
+          Merge selected{selected.length > 1 ? ` (${selected.length})` : ''}
+        </Button>
+        <Button
+          size="sm"
+          onClick={handleSave}
+          disabled={!isDirty || isSaving}
+          className="bg-netflix-red hover:bg-netflix-red/90"
+        >
+          <Save className="w-4 h-4 mr-1" />
+          {isSaving ? 'Saving...' : 'Save Locations'}
+        </Button>
+        <div className="ml-auto flex gap-2">
+          <Badge variant="outline" className="text-xs">{draft.length} shooting locations</Badge>
+          {board.unmappedSets > 0 && (
+            <Badge variant="outline" className="text-xs text-yellow-400">{board.unmappedSets} sets not mapped</Badge>
+          )}
+        </div>
+      </div>
+
+      {/* Shooting locations */}
+      {mapped.length === 0 ? (
+        <p className="text-sm text-muted-foreground text-center py-6">
+          No shooting locations yet. Create one from a script set below, then add the other sets shot there.
+        </p>
+      ) : (
+        <div className="space-y-3">
+          {mapped.map(entry => {
+            const location = entry.location!;
+            return (
+              <div key={location.id} className="rounded-lg border border-border p-3 space-y-3">
+                <div className="flex items-start gap-3">
+                  <Checkbox
+                    checked={selected.includes(location.id)}
+                    onCheckedChange={(checked) => setSelected(prev =>
+                      checked ? [...prev, location.id] : prev.filter(id => id !== location.id)
+                    )}
+                    className="mt-2"
+                  />
+                  <div className="flex-1 grid grid-cols-1 md:grid-cols-2 gap-2">
+                    <Input
+                      value={location.name}
+                      placeholder="Location name"
+                      onChange={(e) => updateLocation(location.id, { name: e.target.value })}
+                      className="h-8 text-sm font-semibold"
+                    />
+                    <Input
+                      value={location.address}
+                      placeholder="Address"
+                      onChange={(e) => updateLocation(location.id, { address: e.target.value })}
+                      className="h-8 text-xs"
+                    />
+                    <div className="flex items-center gap-2">
+                      <span className="text-xs text-muted-foreground w-16">Permit</span>
+                      <Select
+                        value={location.permitStatus}
+                        onValueChange={(value) => updateLocation(location.id, { permitStatus: value as PermitStatus })}
+                      >
+                        <SelectTrigger className={`h-8 text-xs ${PERMIT_STYLES[location.permitStatus]}`}>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {PERMIT_STATUSES.map(status => (
+                            <SelectItem key={status} value={status}>{PERMIT_LABELS[status]}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <span className="text-xs text-muted-foreground w-24">Company move</span>
+                      <Input
+                        type="number"
+                        min={0}
+                        step={100}
+                        value={location.companyMoveCost || ''}
+                        placeholder="Rate card default"
+                        onChange={(e) => updateLocation(location.id, { companyMoveCost: Math.max(0, parseFloat(e.target.value) || 0) })}
+                        className="h-8 text-xs"
+                      />
+                    </div>
+                  </div>
+                  <div className="text-right space-y-1">
+                    <Badge variant="outline" className="text-xs">{entry.sceneCount} scenes</Badge>
+                    <p className="text-xs text-muted-foreground">{formatEighths(entry.eighths)} pages</p>
+                  </div>
+                </div>
+
+                {/* Script sets shot here */}
+                <div className="flex flex-wrap items-center gap-2 pl-7">
+                  {entry.sets.map(set => (
+                    <Badge key={set.set} variant="secondary" className="text-xs gap-1">
+                      {set.set}
+                      <span className="text-muted-foreground">({set.sceneNumbers.length})</span>
+                      <button
+                        onClick={() => update(assignSet(draft, set.set, null))}
+                        title="Remove this set from the location"
+                        className="hover:text-red-400"
+                      >
+                        <X className="w-3 h-3" />
+                      </button>
+                    </Badge>
+                  ))}
+                  {coverageBadges(entry)}
+                </div>
+
+                <div className="pl-7 space-y-2">
+                  <Textarea
+                    value={location.notes}
+                    placeholder="Scout notes: parking, power, noise, access, contact"
+                    onChange={(e) => updateLocation(location.id, { notes: e.target.value })}
+                    className="min-h-[56px] text-xs"
+                  />
+                  <div className="flex flex-wrap items-center gap-2">
+                    {location.photos.map(url => (
+                      <div key={url} className="relative group">
+                        <a href={url} target="_blank" rel="noreferrer">
+                          <img src={url} alt={`${location.name} reference`} className="w-20 h-14 object-cover rounded border border-border" />
+                        </a>
+                        <button
+                          onClick={() => updateLocation(location.id, { photos: location.photos.filter(p => p !== url) })}
+                          title="Remove photo"
+                          className="absolute -top-1.5 -right-1.5 hidden group-hover:flex bg-black rounded-full p-0.5 hover:text-red-400"
+                        >
+                          <X className="w-3 h-3" />
+                        </button>
+                      </div>
+                    ))}
+                    <Input
+                      value={photoInputs[location.id] || ''}
+                      placeholder="Reference photo URL"
+                      onChange={(e) => setPhotoInputs(prev => ({ ...prev, [location.id]: e.target.value }))}
+                      onKeyDown={(e) => { if (e.key === 'Enter') addPhoto(location); }}
+                      className="h-8 text-xs w-64"
+                    />
+                    <Button size="sm" variant="ghost" onClick={() => addPhoto(location)}>
+                      <ImagePlus className="w-4 h-4" />
+                    </Button>
+                  </div>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {/* Script sets not mapped yet */}
+      {unmapped.length > 0 && (
+        <div className="space-y-2">
+          <h4 className="text-xs font-bold text-muted-foreground uppercase tracking-wider">
+            Script sets not mapped ({unmapped.length})
+          </h4>
+          <div className="rounded-lg border border-border divide-y divide-border/50">
+            {unmapped.map(entry => (
+              <div key={entry.name} className="flex flex-wrap items-center gap-3 px-3 py-2">
+                <span className="text-sm font-medium text-foreground flex-1 min-w-[160px]">{entry.name}</span>
+                <span className="text-xs text-muted-foreground">
+                  Sc. {entry.sets[0]?.sceneLabels.join(', ')} • {formatEighths(entry.eighths)} pages
+                </span>
+                <div className="flex gap-1">{coverageBadges(entry)}</div>
+                {draft.length > 0 && (
+                  <Select onValueChange={(locationId) => update(assignSet(draft, entry.name, locationId))}>
+                    <SelectTrigger className="h-8 w-44 text-xs">
+                      <SelectValue placeholder="Shoot at…" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {draft.map(location => (
+                        <SelectItem key={location.id} value={location.id}>{location.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )}
+                <Button size="sm" variant="outline" onClick={() => update(addLocation(draft, titleCase(entry.name), [entry.name]))}>
+                  <Plus className="w-3 h-3 mr-1" />
+                  New location
+                </Button>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -6,6 +6,7 @@ import { Camera, ArrowLeft, Eye, EyeOff, Sparkles, ImageIcon } from "lucide-reac
 import { cn } from "@/lib/utils";
 import { useToast } from "@/hooks/use-toast";
 import { Scene, ShotListItem, parseAnalysis } from "@/types/analysis";
+import { displaySceneNumber } from "@/lib/sceneNumbering";
 
 interface MobileSceneViewProps {
   scenes: Scene[];
@@ -97,7 +98,7 @@ export const MobileSceneView = ({
         <div className="space-y-2">
           <div className="flex items-center gap-2">
             <span className="text-lg font-bold text-foreground">
-              Scene {scene.scene_number}
+              Scene {displaySceneNumber(scene)}
             </span>
             {analysis?.producing_logistics?.resource_impact && (
               <Badge 
@@ -31,6 +31,12 @@ export const Navigation = ({ onSignOut }: NavigationProps) => {
             >
               Dashboard
             </a>
+            <a 
+              href="/workspaces" 
+              className="text-sm font-medium text-foreground hover:text-netflix-red transition-colors"
+            >
+              Workspaces
+            </a>
             <a 
               href="/guide" 
               className="text-sm font-medium text-foreground hover:text-netflix-red transition-colors"
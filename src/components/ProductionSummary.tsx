@@ -1,9 +1,12 @@
 import React, { useMemo } from 'react';
 import { Scene, AnalysisData, parseAnalysis } from '@/types/analysis';
 import { Badge } from '@/components/ui/badge';
+import { CharacterRecord, resolveCharacter, normalizeCharacterName } from '@/lib/characterRegistry';
+import { displaySceneNumber } from '@/lib/sceneNumbering';
 
 interface ProductionSummaryProps {
   scenes: Scene[];
+  characters?: CharacterRecord[];
 }
 
 // Normalize strings for deduplication
@@ -11,7 +14,7 @@ function normalize(s: string): string {
   return s.trim().toLowerCase().replace(/[.,;:!?]+$/, '');
 }
 
-export const ProductionSummary: React.FC<ProductionSummaryProps> = ({ scenes }) => {
+export const ProductionSummary: React.FC<ProductionSummaryProps> = ({ scenes, characters = [] }) => {
   const data = useMemo(() => {
     const analyzed: { sceneNumber: number; analysis: AnalysisData }[] = [];
     for (const scene of scenes) {
@@ -42,12 +45,12 @@ export const ProductionSummary: React.FC<ProductionSummaryProps> = ({ scenes })
       .map(([name, data]) => ({ name, ...data }))
       .sort((a, b) => b.scenes.length - a.scenes.length);
 
-    // ── Cast ──
+    // ── Cast ── (resolved through the cast registry so aliases collapse into one row)
     const castMap = new Map<string, { speaking: Set<number>; silent: Set<number>; principal: boolean }>();
     const addCast = (names: string[] | undefined, sceneNumber: number, role: 'speaking' | 'silent' | 'principal') => {
       if (!names) return;
       for (const name of names) {
-        const key = normalize(name);
+        const key = resolveCharacter(characters, name)?.name || normalizeCharacterName(name);
         if (!key) continue;
         let entry = castMap.get(key);
         if (!entry) {
@@ -72,12 +75,13 @@ export const ProductionSummary: React.FC<ProductionSummaryProps> = ({ scenes })
     const cast = Array.from(castMap.entries())
       .map(([name, data]) => ({
         name,
+        castNumber: resolveCharacter(characters, name)?.castNumber,
         principal: data.principal,
         speakingScenes: Array.from(data.speaking).sort((a, b) => a - b),
         silentScenes: Array.from(data.silent).sort((a, b) => a - b),
         totalScenes: new Set([...data.speaking, ...data.silent]).size,
       }))
-      .sort((a, b) => b.totalScenes - a.totalScenes);
+      .sort((a, b) => (a.castNumber ?? Infinity) - (b.castNumber ?? Infinity) || b.totalScenes - a.totalScenes);
 
     // ── Props ──
     const propMap = new Map<string, Set<number>>();
@@ -138,7 +142,7 @@ export const ProductionSummary: React.FC<ProductionSummaryProps> = ({ scenes })
       .sort((a, b) => b.rating - a.rating);
 
     return { locations, cast, props, specialReqs, complexity, analyzedCount: analyzed.length };
-  }, [scenes]);
+  }, [scenes, characters]);
 
   if (data.analyzedCount === 0) {
     return (
@@ -148,7 +152,8 @@ export const ProductionSummary: React.FC<ProductionSummaryProps> = ({ scenes })
     );
   }
 
-  const sceneList = (nums: number[]) => nums.map(n => `Sc ${n}`).join(', ');
+  const labelOf = new Map(scenes.map(scene => [scene.scene_number, displaySceneNumber(scene)]));
+  const sceneList = (nums: number[]) => nums.map(n => `Sc ${labelOf.get(n) ?? n}`).join(', ');
   const complexityColor = (rating: number) => {
     if (rating >= 4) return 'bg-red-500/20 text-red-400 border-red-500/30';
     if (rating >= 3) return 'bg-yellow-500/20 text-yellow-400 border-yellow-500/30';
@@ -208,6 +213,7 @@ export const ProductionSummary: React.FC<ProductionSummaryProps> = ({ scenes })
             <table className="w-full">
               <thead className="bg-[#1a1a1a]">
                 <tr>
+                  <th className={`${thClass} text-center`}>Cast #</th>
                   <th className={thClass}>Character</th>
                   <th className={thClass}>Role</th>
                   <th className={thClass}>Speaking</th>
@@ -218,6 +224,7 @@ export const ProductionSummary: React.FC<ProductionSummaryProps> = ({ scenes })
               <tbody>
                 {data.cast.map((c) => (
                   <tr key={c.name} className="hover:bg-white/5">
+                    <td className={`${tdClass} text-center text-muted-foreground`}>{c.castNumber ?? '—'}</td>
                     <td className={`${tdClass} font-medium capitalize`}>{c.name}</td>
                     <td className={tdClass}>
                       {c.principal ? (
@@ -330,7 +337,7 @@ export const ProductionSummary: React.FC<ProductionSummaryProps> = ({ scenes })
               <tbody>
                 {data.complexity.map((c) => (
                   <tr key={c.sceneNumber} className="hover:bg-white/5">
-                    <td className={`${tdClass} font-medium`}>Scene {c.sceneNumber}</td>
+                    <td className={`${tdClass} font-medium`}>Scene {labelOf.get(c.sceneNumber) ?? c.sceneNumber}</td>
                     <td className={`${tdClass} text-center`}>
                       <Badge variant="outline" className={`text-xs ${complexityColor(c.rating)}`}>
                         {c.rating}/5
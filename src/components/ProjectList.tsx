@@ -17,6 +17,7 @@ import {
   Clock
 } from 'lucide-react'
 import { api, ApiError } from '@/utils/apiClient'
+import { ProjectRole, ROLE_LABELS } from '@/lib/projectAccess'
 import { logger } from "@/utils/logger";
 
 // ═══════════════════════════════════════════════════════════════
@@ -30,6 +31,8 @@ interface ProjectItem {
   status?: string
   total_scenes?: number
   scenes_analyzed?: number
+  /** The user's role; anything but owner means the project was shared with them */
+  role?: ProjectRole
 }
 
 interface ProjectListProps {
@@ -409,6 +412,14 @@ function ProjectList({ projects, setProjects, showToast }: ProjectListProps) {
                           {projectName}
                         </span>
                       )}
+                      {project.role && project.role !== 'owner' && (
+                        <span
+                          className="flex-shrink-0 text-xs px-2 py-0.5 rounded-full border border-white/20 text-white/60"
+                          title="Shared with you"
+                        >
+                          Shared · {ROLE_LABELS[project.role]}
+                        </span>
+                      )}
                     </div>
 
                     {/* Meta info row */}
@@ -442,8 +453,8 @@ function ProjectList({ projects, setProjects, showToast }: ProjectListProps) {
                 )}
               </div>
 
-              {/* Overflow Menu */}
-              {!isEditing && (
+              {/* Overflow Menu — renaming and deleting are the owner's */}
+              {!isEditing && (!project.role || project.role === 'owner') && (
                 <OverflowMenu
                   projectId={projectId}
                   projectName={projectName}
@@ -0,0 +1,50 @@
+import React from 'react';
+import { Avatar, AvatarFallback } from '@/components/ui/avatar';
+import { ROLE_LABELS } from '@/lib/projectAccess';
+import { PresenceMember } from '@/types/collaboration';
+
+interface ProjectPresenceProps {
+  members: PresenceMember[];
+  /** This tab's connection, left out of the list */
+  connectionId: string | null;
+  /** Scene labels by number, for "viewing scene 12A" */
+  sceneLabel: (sceneNumber: number) => string;
+  onSelectScene?: (sceneNumber: number) => void;
+}
+
+const MAX_SHOWN = 5;
+
+const initials = (name: string) =>
+  name.split(/\s+/).filter(Boolean).slice(0, 2).map(part => part[0]!.toUpperCase()).join('') || '?';
+
+export const ProjectPresence: React.FC<ProjectPresenceProps> = ({ members, connectionId, sceneLabel, onSelectScene }) => {
+  const others = members.filter(member => member.connectionId !== connectionId);
+  if (others.length === 0) return null;
+  const shown = others.slice(0, MAX_SHOWN);
+
+  return (
+    <div className="flex items-center gap-2">
+      <div className="flex -space-x-2">
+        {shown.map(member => {
+          const where = member.sceneNumber !== null ? `viewing scene ${sceneLabel(member.sceneNumber)}` : 'in the project';
+          return (
+            <button
+              key={member.connectionId}
+              type="button"
+              title={`${member.name} (${ROLE_LABELS[member.role]}) — ${where}`}
+              onClick={() => member.sceneNumber !== null && onSelectScene?.(member.sceneNumber)}
+              className="rounded-full ring-2 ring-[#0a0a0a]"
+            >
+              <Avatar className="h-7 w-7">
+                <AvatarFallback className="text-[10px] bg-primary/20 text-foreground">{initials(member.name)}</AvatarFallback>
+              </Avatar>
+            </button>
+          );
+        })}
+      </div>
+      {others.length > MAX_SHOWN && (
+        <span className="text-xs text-muted-foreground">+{others.length - MAX_SHOWN}</span>
+      )}
+    </div>
+  );
+};
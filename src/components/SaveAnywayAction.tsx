@@ -0,0 +1,6 @@
+import { ToastAction } from "@/components/ui/toast";
+
+/** The toast button that re-sends a save rejected as a version conflict, overwriting the other change */
+export const saveAnywayAction = (onClick: () => void) => (
+  <ToastAction altText="Save anyway" onClick={onClick}>Save anyway</ToastAction>
+);
@@ -1,4 +1,4 @@
-import { useState, useEffect, useRef } from "react";
+import { Fragment, useState, useEffect, useRef } from "react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Badge } from "@/components/ui/badge";
@@ -26,10 +26,12 @@ import {
   TooltipTrigger,
 } from "@/components/ui/tooltip";
 import { useMediaQuery } from "@/hooks/useMediaQuery";
+import { OmittedScene, compareSceneLabels, displaySceneNumber } from "@/lib/sceneNumbering";
 
 interface Scene {
   id: string;
   scene_number: number;
+  scene_label?: string;
   header: string;
   content: string;
   analysis: string | null;
@@ -43,6 +45,8 @@ interface SceneNavigatorProps {
   onClose: () => void;
   isOpen: boolean;
   onRetryScene?: (sceneId: string, sceneNumber: number, sceneContent: string) => void;
+  /** Cut scenes of a locked script, listed in place as OMITTED */
+  omittedScenes?: OmittedScene[];
 }
 
 const getTimeOfDayIcon = (header: string) => {
@@ -72,7 +76,8 @@ export const SceneNavigator = ({
   onSceneSelect,
   onClose,
   isOpen,
-  onRetryScene
+  onRetryScene,
+  omittedScenes = [],
 }: SceneNavigatorProps) => {
   const [searchQuery, setSearchQuery] = useState("");
   const [locationFilter, setLocationFilter] = useState<"all" | "INT" | "EXT">("all");
@@ -83,6 +88,7 @@ export const SceneNavigator = ({
   // Filter scenes
   const filteredScenes = scenes.filter((scene) => {
     const matchesSearch = searchQuery === "" || 
+      displaySceneNumber(scene).toLowerCase() === searchQuery.trim().toLowerCase() ||
       scene.header.toLowerCase().includes(searchQuery.toLowerCase()) ||
       getLocationName(scene.header).toLowerCase().includes(searchQuery.toLowerCase());
     
@@ -92,6 +98,28 @@ export const SceneNavigator = ({
     return matchesSearch && matchesLocation;
   });
 
+  // OMITTED placeholders sit before the first scene numbered after them;
+  // they only make sense in the unfiltered list
+  const showOmitted = searchQuery === "" && locationFilter === "all" && omittedScenes.length > 0;
+  const omittedBefore = (index: number): OmittedScene[] => {
+    if (!showOmitted) return [];
+    const label = displaySceneNumber(filteredScenes[index]);
+    const previous = index > 0 ? displaySceneNumber(filteredScenes[index - 1]) : null;
+    return omittedScenes.filter(o =>
+      compareSceneLabels(o.label, label) < 0 && (previous === null || compareSceneLabels(o.label, previous) > 0)
+    );
+  };
+  const omittedAfterLast = showOmitted && filteredScenes.length > 0
+    ? omittedScenes.filter(o => compareSceneLabels(o.label, displaySceneNumber(filteredScenes[filteredScenes.length - 1])) > 0)
+    : [];
+
+  const renderOmitted = (omitted: OmittedScene) => (
+    <div key={`omitted-${omitted.label}`} className="rounded-md p-2 pl-4 text-xs text-muted-foreground/60">
+      <span className="font-mono font-bold">#{omitted.label}</span>
+      <span className="ml-2 tracking-wider">OMITTED</span>
+    </div>
+  );
+
   // Update selected index when current scene changes
   useEffect(() => {
     if (currentSceneId) {
@@ -210,79 +238,82 @@ export const SceneNavigator = ({
             const locationName = getLocationName(scene.header);
 
             return (
-              <div
-                key={scene.id}
-                data-index={index}
-                onClick={() => onSceneSelect(scene.id)}
-                className={cn(
-                  "relative group cursor-pointer rounded-md p-2 transition-all duration-200",
-                  "hover:bg-muted/50",
-                  isSelected && "bg-muted",
-                  isActive && "bg-muted"
-                )}
-              >
-                {/* Active indicator */}
-                {isActive && (
-                  <div className="absolute left-0 top-1/2 -translate-y-1/2 w-1 h-8 bg-netflix-red rounded-r" />
-                )}
+              <Fragment key={scene.id}>
+                {omittedBefore(index).map(renderOmitted)}
+                <div
+                  data-index={index}
+                  onClick={() => onSceneSelect(scene.id)}
+                  className={cn(
+                    "relative group cursor-pointer rounded-md p-2 transition-all duration-200",
+                    "hover:bg-muted/50",
+                    isSelected && "bg-muted",
+                    isActive && "bg-muted"
+                  )}
+                >
+                  {/* Active indicator */}
+                  {isActive && (
+                    <div className="absolute left-0 top-1/2 -translate-y-1/2 w-1 h-8 bg-netflix-red rounded-r" />
+                  )}
 
-                <div className="flex items-start gap-2 pl-2">
-                  {/* Status Icon */}
-                  <div className="flex-shrink-0 mt-0.5">
-                    {scene.status === "COMPLETED" && (
-                      <CheckCircle2 className="w-4 h-4 text-green-500" />
-                    )}
-                    {(scene.status === "analyzing" || scene.status === "pending" || scene.status === "ANALYZING" || scene.status === "PENDING") && (
-                      <Loader2 className="w-4 h-4 text-netflix-red animate-spin" />
-                    )}
-                    {(scene.status === "ERROR" || scene.status === "error" || scene.status === "FAILED") && (
-                      <AlertCircle className="w-4 h-4 text-red-500" />
-                    )}
-                    {!["COMPLETED", "analyzing", "pending", "ANALYZING", "PENDING", "ERROR", "error", "FAILED"].includes(scene.status) && (
-                      <Circle className="w-4 h-4 text-muted-foreground" />
-                    )}
-                  </div>
-
-                  {/* Scene Info */}
-                  <div className="flex-1 min-w-0">
-                    <div className="flex items-center gap-2 mb-1">
-                      <span className="text-xs font-mono font-bold text-foreground">
-                        #{scene.scene_number}
-                      </span>
-                      {timeIcon}
-                      {hasEdits && <Pencil className="w-3 h-3 text-primary" />}
+                  <div className="flex items-start gap-2 pl-2">
+                    {/* Status Icon */}
+                    <div className="flex-shrink-0 mt-0.5">
+                      {scene.status === "COMPLETED" && (
+                        <CheckCircle2 className="w-4 h-4 text-green-500" />
+                      )}
+                      {(scene.status === "analyzing" || scene.status === "pending" || scene.status === "ANALYZING" || scene.status === "PENDING") && (
+                        <Loader2 className="w-4 h-4 text-netflix-red animate-spin" />
+                      )}
+                      {(scene.status === "ERROR" || scene.status === "error" || scene.status === "FAILED") && (
+                        <AlertCircle className="w-4 h-4 text-red-500" />
+                      )}
+                      {!["COMPLETED", "analyzing", "pending", "ANALYZING", "PENDING", "ERROR", "error", "FAILED"].includes(scene.status) && (
+                        <Circle className="w-4 h-4 text-muted-foreground" />
+                      )}
                     </div>
+
+                    {/* Scene Info */}
+                    <div className="flex-1 min-w-0">
+                      <div className="flex items-center gap-2 mb-1">
+                        <span className="text-xs font-mono font-bold text-foreground">
+                          #{displaySceneNumber(scene)}
+                        </span>
+                        {timeIcon}
+                        {hasEdits && <Pencil className="w-3 h-3 text-primary" />}
+                      </div>
                     
-                    <div className="text-xs text-muted-foreground mb-0.5">
-                      <Badge variant="secondary" className="text-[10px] px-1 py-0 h-4">
-                        {locationPrefix}
-                      </Badge>
-                    </div>
+                      <div className="text-xs text-muted-foreground mb-0.5">
+                        <Badge variant="secondary" className="text-[10px] px-1 py-0 h-4">
+                          {locationPrefix}
+                        </Badge>
+                      </div>
                     
-                    <div className="text-xs text-foreground line-clamp-2">
-                      {locationName}
-                    </div>
+                      <div className="text-xs text-foreground line-clamp-2">
+                        {locationName}
+                      </div>
 
-                    {/* Failed - click to retry */}
-                    {(scene.status === "ERROR" || scene.status === "error" || scene.status === "FAILED") && (
-                      <button
-                        onClick={(e) => {
-                          e.stopPropagation();
-                          if (onRetryScene) {
-                            onRetryScene(scene.id, scene.scene_number, scene.content);
-                          }
-                        }}
-                        className="flex items-center gap-1 mt-1 text-[10px] text-red-400 hover:text-red-300 transition-colors"
-                      >
-                        <RefreshCw className="w-3 h-3" />
-                        Failed - click to retry
-                      </button>
-                    )}
+                      {/* Failed - click to retry */}
+                      {(scene.status === "ERROR" || scene.status === "error" || scene.status === "FAILED") && (
+                        <button
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            if (onRetryScene) {
+                              onRetryScene(scene.id, scene.scene_number, scene.content);
+                            }
+                          }}
+                          className="flex items-center gap-1 mt-1 text-[10px] text-red-400 hover:text-red-300 transition-colors"
+                        >
+                          <RefreshCw className="w-3 h-3" />
+                          Failed - click to retry
+                        </button>
+                      )}
+                    </div>
                   </div>
                 </div>
-              </div>
+              </Fragment>
             );
           })}
+          {omittedAfterLast.map(renderOmitted)}
         </div>
       </ScrollArea>
 
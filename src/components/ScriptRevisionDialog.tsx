@@ -0,0 +1,318 @@
+import React, { useMemo, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useQueryClient } from '@tanstack/react-query';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { useToast } from '@/hooks/use-toast';
+import { useCredits } from '@/hooks/useCredits';
+import { api, ApiError } from '@/utils/apiClient';
+import { Scene } from '@/types/analysis';
+import { splitScreenplayScenes } from '@/lib/screenplayParser';
+import {
+  RevisionSceneInput,
+  SceneRevisionStatus,
+  ScriptRevisionRecord,
+  countMatches,
+  matchRevisedScenes,
+  nextRevisionLabel,
+} from '@/lib/scriptRevision';
+import { OmittedScene, findOmittedLabels, planRevisionLabels } from '@/lib/sceneNumbering';
+import { FileUp, Loader2 } from 'lucide-react';
+
+// Same price as a single-scene analysis in analyze-scene.ts
+const CREDITS_PER_SCENE = 1;
+
+interface ScriptRevisionDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  projectId: string;
+  scenes: Scene[];
+  scriptRevisions?: ScriptRevisionRecord[];
+  sceneNumbersLocked?: boolean;
+  omittedScenes?: OmittedScene[];
+  onReanalyze: (targets: Array<Pick<Scene, 'scene_number' | 'content' | 'storyLogicContext'>>) => void;
+}
+
+const STATUS_STYLES: Record<SceneRevisionStatus, string> = {
+  unchanged: 'text-muted-foreground',
+  modified: 'bg-yellow-500/20 text-yellow-400 border-yellow-500/30',
+  added: 'bg-green-500/20 text-green-400 border-green-500/30',
+  omitted: 'bg-red-500/20 text-red-400 border-red-500/30',
+};
+
+interface RevisedDraft {
+  scenes: RevisionSceneInput[];
+  /** Scene numbers the draft marks OMITTED */
+  omitted: string[];
+}
+
+async function readScreenplayFile(file: File): Promise<RevisedDraft> {
+  const name = file.name.toLowerCase();
+  const fileType = name.endsWith('.pdf') ? 'pdf'
+    : name.endsWith('.fdx') ? 'fdx'
+    : name.endsWith('.fountain') || name.endsWith('.spmd') ? 'fountain'
+    : name.endsWith('.txt') ? 'txt'
+    : null;
+  if (!fileType) throw new Error('Please choose a .pdf, .fdx, .fountain or .txt file');
+
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 8192) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 8192));
+  }
+
+  const parseResult = await api.post('/api/parse-screenplay', {
+    fileData: btoa(binary),
+    fileName: file.name,
+    fileType
+  }, {
+    context: 'Parsing revised screenplay',
+    timeoutMs: 120000,
+    maxRetries: 2
+  });
+
+  const serverScenes: Array<RevisionSceneInput & { sceneLabel?: string }> | undefined = parseResult.scenes;
+  const screenplayText: string = parseResult.screenplayText || '';
+  return {
+    scenes: serverScenes?.length
+      ? serverScenes.map(s => ({ number: s.number, text: s.text, ...(s.sceneLabel ? { label: s.sceneLabel } : {}) }))
+      : splitScreenplayScenes(screenplayText),
+    omitted: (parseResult.omitted as string[] | undefined) || findOmittedLabels(screenplayText),
+  };
+}
+
+export const ScriptRevisionDialog: React.FC<ScriptRevisionDialogProps> = ({
+  open,
+  onOpenChange,
+  projectId,
+  scenes,
+  scriptRevisions,
+  sceneNumbersLocked,
+  omittedScenes,
+  onReanalyze,
+}) => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { balance } = useCredits();
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [revised, setRevised] = useState<RevisionSceneInput[] | null>(null);
+  const [draftOmitted, setDraftOmitted] = useState<string[]>([]);
+  const [label, setLabel] = useState('');
+  const [reanalyze, setReanalyze] = useState(true);
+  const [isParsing, setIsParsing] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const matches = useMemo(
+    () => (revised ? matchRevisedScenes(scenes.map(s => ({ number: s.scene_number, text: s.content })), revised) : []),
+    [scenes, revised]
+  );
+  const counts = countMatches(matches);
+
+  // Same numbering the import endpoint will apply, for the preview
+  const numbering = useMemo(() => planRevisionLabels(matches, {
+    locked: !!sceneNumbersLocked,
+    existingLabels: new Map(scenes.filter(s => s.scene_label).map(s => [s.scene_number, s.scene_label!])),
+    revisedLabels: new Map((revised || []).filter(s => s.label).map(s => [s.number, s.label!])),
+    previouslyOmitted: omittedScenes,
+    draftOmitted,
+  }), [matches, sceneNumbersLocked, scenes, revised, omittedScenes, draftOmitted]);
+  const oldLabels = useMemo(
+    () => new Map(scenes.map(s => [s.scene_number, s.scene_label || String(s.scene_number)])),
+    [scenes]
+  );
+
+  // Modified and added scenes, plus any still waiting from an earlier revision
+  const toReanalyze = useMemo(() => {
+    const flagged = new Set(scenes.filter(s => s.needsReanalysis).map(s => s.scene_number));
+    return matches
+      .filter(m => m.status === 'modified' || m.status === 'added' || (m.status === 'unchanged' && flagged.has(m.oldNumber!)))
+      .map(m => m.newNumber!);
+  }, [matches, scenes]);
+  const creditsNeeded = toReanalyze.length * CREDITS_PER_SCENE;
+  const canAfford = balance >= creditsNeeded;
+
+  const reset = () => {
+    setFileName(null);
+    setRevised(null);
+    setDraftOmitted([]);
+    setLabel('');
+    setError(null);
+    setReanalyze(true);
+  };
+
+  const handleOpenChange = (next: boolean) => {
+    if (!next) reset();
+    onOpenChange(next);
+  };
+
+  const handleFile = async (file: File) => {
+    setError(null);
+    setIsParsing(true);
+    try {
+      const parsed = await readScreenplayFile(file);
+      if (parsed.scenes.length === 0) throw new Error('No scene headers found in the revised draft');
+      setFileName(file.name);
+      setRevised(parsed.scenes);
+      setDraftOmitted(parsed.omitted);
+      setLabel(nextRevisionLabel(scriptRevisions));
+    } catch (err) {
+      setError((err as ApiError).userMessage || (err as Error).message || 'Failed to read file');
+    } finally {
+      setIsParsing(false);
+    }
+  };
+
+  const handleImport = async () => {
+    if (!revised) return;
+    setIsImporting(true);
+    try {
+      const result = await api.post('/api/projects/import-revision', {
+        projectId,
+        scenes: revised,
+        omitted: draftOmitted,
+        label,
+        fileName
+      }, {
+        context: 'Importing script revision',
+        timeoutMs: 60000,
+        maxRetries: 1
+      });
+      await queryClient.invalidateQueries({ queryKey: ['project', projectId] });
+      toast({
+        title: result.message || 'Revision imported',
+        description: `${counts.unchanged} unchanged, ${counts.modified} modified, ${counts.added} added, ${counts.omitted} omitted`,
+      });
+      if (result.warning) {
+        toast({ title: 'Some scene data was not moved', description: result.warning, variant: 'destructive' });
+      }
+
+      if (reanalyze && canAfford) {
+        const byNumber = new Map(revised.map(scene => [scene.number, scene]));
+        const targets = ((result.reanalyze as number[]) || [])
+          .filter(n => byNumber.has(n))
+          .map(n => ({ scene_number: n, content: byNumber.get(n)!.text }));
+        onReanalyze(targets);
+      }
+      handleOpenChange(false);
+    } catch (err) {
+      const errorMsg = (err as ApiError).userMessage || (err as Error).message || 'Failed to import revision';
+      toast({ title: 'Import failed', description: errorMsg, variant: 'destructive' });
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-[760px] max-h-[90vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <FileUp className="w-5 h-5" />
+            Import Script Revision
+          </DialogTitle>
+          <DialogDescription>
+            Upload a revised draft. Scenes are matched to this project by number, heading and content — unchanged scenes keep their analyses.
+            {sceneNumbersLocked && ' Scene numbers are locked: new scenes become inserts (12A) and cut scenes are kept as OMITTED.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {!revised ? (
+          <div className="py-6 space-y-3">
+            <Input
+              type="file"
+              accept=".pdf,.fdx,.fountain,.spmd,.txt"
+              disabled={isParsing}
+              onChange={(e) => e.target.files?.[0] && handleFile(e.target.files[0])}
+            />
+            {isParsing && (
+              <p className="flex items-center gap-2 text-sm text-muted-foreground">
+                <Loader2 className="w-4 h-4 animate-spin" />
+                Reading revised draft...
+              </p>
+            )}
+            {error && <p className="text-sm text-red-400 whitespace-pre-wrap">{error}</p>}
+          </div>
+        ) : (
+          <div className="flex-1 min-h-0 flex flex-col gap-4">
+            <div className="flex flex-wrap items-end gap-3">
+              <div className="space-y-1">
+                <Label className="text-xs text-muted-foreground">Revision</Label>
+                <Input value={label} onChange={(e) => setLabel(e.target.value)} className="w-36 h-8" />
+              </div>
+              <div className="flex gap-2 ml-auto">
+                {(['unchanged', 'modified', 'added', 'omitted'] as SceneRevisionStatus[]).map(status => (
+                  <Badge key={status} variant="outline" className={`text-xs ${STATUS_STYLES[status]}`}>
+                    {counts[status]} {status}
+                  </Badge>
+                ))}
+              </div>
+            </div>
+
+            <div className="flex-1 min-h-0 overflow-y-auto rounded-lg border border-border divide-y divide-border/50">
+              {matches.map((match, idx) => (
+                <div key={idx} className="flex items-center gap-3 px-3 py-1.5 text-xs">
+                  <span className="w-20 text-muted-foreground">
+                    {match.oldNumber !== undefined ? oldLabels.get(match.oldNumber) : '—'} → {
+                      match.newNumber !== undefined ? numbering.labels.get(match.newNumber) ?? match.newNumber : 'OMITTED'
+                    }
+                  </span>
+                  <span className="flex-1 truncate text-foreground">{match.heading}</span>
+                  {match.status === 'modified' && (
+                    <span className="text-muted-foreground">{Math.round(match.similarity * 100)}% same</span>
+                  )}
+                  <Badge variant="outline" className={`text-[10px] ${STATUS_STYLES[match.status]}`}>{match.status}</Badge>
+                </div>
+              ))}
+            </div>
+
+            {/* Credit quote */}
+            <div className="rounded-lg border border-border p-3 space-y-2">
+              <div className="flex items-center gap-2">
+                <Checkbox
+                  id="reanalyze-revised"
+                  checked={reanalyze && canAfford}
+                  disabled={toReanalyze.length === 0 || !canAfford}
+                  onCheckedChange={(checked) => setReanalyze(!!checked)}
+                />
+                <Label htmlFor="reanalyze-revised" className="text-sm">
+                  Re-analyze {toReanalyze.length} changed scene{toReanalyze.length !== 1 ? 's' : ''} after import
+                </Label>
+                <span className="ml-auto text-sm font-semibold">
+                  {creditsNeeded} credit{creditsNeeded !== 1 ? 's' : ''}
+                </span>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Balance: {balance} credits. {counts.unchanged} unchanged scene{counts.unchanged !== 1 ? 's' : ''} keep their analyses at no cost.
+                {counts.omitted > 0 && ` ${counts.omitted} omitted scene${counts.omitted !== 1 ? 's are' : ' is'} removed from the project${sceneNumbersLocked ? ' and left as OMITTED placeholders' : ''}.`}
+              </p>
+              {!canAfford && (
+                <p className="text-xs text-red-400">
+                  Not enough credits to re-analyze now — you can still import and re-analyze later.{' '}
+                  <Link to="/buy-credits" className="underline">Buy credits</Link>
+                </p>
+              )}
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          {revised && (
+            <Button variant="outline" onClick={reset} disabled={isImporting}>Choose another file</Button>
+          )}
+          <Button
+            onClick={handleImport}
+            disabled={!revised || isImporting}
+            className="bg-netflix-red hover:bg-netflix-red/90"
+          >
+            {isImporting ? 'Importing...' : 'Import Revision'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
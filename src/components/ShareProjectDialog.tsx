@@ -0,0 +1,183 @@
+import React, { useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { api, ApiError } from '@/utils/apiClient';
+import {
+  COLLABORATOR_ROLES,
+  CollaboratorRole,
+  ProjectCollaborator,
+  ProjectRole,
+  ROLE_DESCRIPTIONS,
+  ROLE_LABELS,
+} from '@/lib/projectAccess';
+import { logger } from '@/utils/logger';
+import { Share2, UserMinus } from 'lucide-react';
+
+interface ShareProjectDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  projectId: string;
+  role: ProjectRole;
+  collaborators: ProjectCollaborator[];
+  currentUserId: string | undefined;
+  /** Called after the user removes themselves from the project */
+  onLeft: () => void;
+}
+
+type ShareRequest =
+  | { action: 'add'; email: string; role: CollaboratorRole }
+  | { action: 'update'; userId: string; role: CollaboratorRole }
+  | { action: 'remove'; userId: string };
+
+const RoleSelect: React.FC<{ value: CollaboratorRole; onChange: (role: CollaboratorRole) => void; disabled?: boolean }> = ({ value, onChange, disabled }) => (
+  <Select value={value} onValueChange={(next) => onChange(next as CollaboratorRole)} disabled={disabled}>
+    <SelectTrigger className="h-8 w-[130px] text-xs">
+      <SelectValue />
+    </SelectTrigger>
+    <SelectContent>
+      {COLLABORATOR_ROLES.map(option => (
+        <SelectItem key={option} value={option}>
+          <span title={ROLE_DESCRIPTIONS[option]}>{ROLE_LABELS[option]}</span>
+        </SelectItem>
+      ))}
+    </SelectContent>
+  </Select>
+);
+
+export const ShareProjectDialog: React.FC<ShareProjectDialogProps> = ({
+  open,
+  onOpenChange,
+  projectId,
+  role,
+  collaborators,
+  currentUserId,
+  onLeft,
+}) => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [email, setEmail] = useState('');
+  const [newRole, setNewRole] = useState<CollaboratorRole>('editor');
+  const [isSaving, setIsSaving] = useState(false);
+  const isOwner = role === 'owner';
+
+  const share = async (request: ShareRequest): Promise<boolean> => {
+    setIsSaving(true);
+    try {
+      await api.post('/api/projects/share', { projectId, ...request }, {
+        context: 'Updating sharing',
+        timeoutMs: 15000,
+        maxRetries: 1
+      });
+      await queryClient.invalidateQueries({ queryKey: ['project', projectId] });
+      return true;
+    } catch (error) {
+      logger.error('Error updating sharing:', error);
+      toast({
+        title: "Sharing not updated",
+        description: (error as ApiError).userMessage || (error as Error).message || 'Failed to update sharing',
+        variant: "destructive"
+      });
+      return false;
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleAdd = async () => {
+    if (!email.trim()) return;
+    if (await share({ action: 'add', email: email.trim(), role: newRole })) {
+      toast({ title: "Project shared", description: `${email.trim()} can now open it as ${ROLE_LABELS[newRole].toLowerCase()}` });
+      setEmail('');
+    }
+  };
+
+  const handleLeave = async () => {
+    if (!currentUserId || !window.confirm('Leave this project? You will need to be invited again to open it.')) return;
+    if (await share({ action: 'remove', userId: currentUserId })) onLeft();
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[560px]">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Share2 className="w-5 h-5 text-[#E50914]" />
+            Share Project
+          </DialogTitle>
+          <DialogDescription>
+            {isOwner
+              ? 'Invite people by the email address of their account. Changes anyone makes show up for everyone with the project open.'
+              : 'Only the owner can change who the project is shared with.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {isOwner && (
+          <div className="flex items-center gap-2">
+            <Input
+              type="email"
+              placeholder="name@example.com"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && handleAdd()}
+              disabled={isSaving}
+            />
+            <RoleSelect value={newRole} onChange={setNewRole} disabled={isSaving} />
+            <Button size="sm" onClick={handleAdd} disabled={isSaving || !email.trim()}>
+              Invite
+            </Button>
+          </div>
+        )}
+
+        <div className="space-y-2 py-2">
+          {collaborators.length === 0 && (
+            <p className="text-sm text-muted-foreground">Not shared with anyone yet.</p>
+          )}
+          {collaborators.map(collaborator => (
+            <div key={collaborator.userId} className="flex items-center justify-between gap-3 rounded-md border border-border px-3 py-2">
+              <div className="min-w-0">
+                <p className="text-sm font-medium truncate">
+                  {collaborator.name || collaborator.email}
+                  {collaborator.userId === currentUserId && <span className="text-muted-foreground"> (you)</span>}
+                </p>
+                {collaborator.name && <p className="text-xs text-muted-foreground truncate">{collaborator.email}</p>}
+              </div>
+              {isOwner ? (
+                <div className="flex items-center gap-1">
+                  <RoleSelect
+                    value={collaborator.role}
+                    onChange={(next) => share({ action: 'update', userId: collaborator.userId, role: next })}
+                    disabled={isSaving}
+                  />
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    title="Remove access"
+                    onClick={() => share({ action: 'remove', userId: collaborator.userId })}
+                    disabled={isSaving}
+                  >
+                    <UserMinus className="w-4 h-4" />
+                  </Button>
+                </div>
+              ) : (
+                <Badge variant="outline">{ROLE_LABELS[collaborator.role]}</Badge>
+              )}
+            </div>
+          ))}
+        </div>
+
+        {!isOwner && (
+          <div className="flex justify-end">
+            <Button variant="outline" size="sm" onClick={handleLeave} disabled={isSaving} className="text-red-500 hover:text-red-600">
+              Leave Project
+            </Button>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,53 @@
+import React, { useMemo } from 'react';
+import { Scene, AnalysisData } from '@/types/analysis';
+import { formatShotCamera } from '@/lib/shotCamera';
+import { buildSceneShootingOrder, formatMinutes } from '@/utils/shootingOrder';
+import { Badge } from '@/components/ui/badge';
+
+interface ShootingOrderViewProps {
+  scene: Scene;
+  analysis: AnalysisData;
+}
+
+export const ShootingOrderView: React.FC<ShootingOrderViewProps> = ({ scene, analysis }) => {
+  const order = useMemo(() => buildSceneShootingOrder(scene, analysis), [scene, analysis]);
+
+  if (order.shotCount === 0) {
+    return <p className="text-sm text-muted-foreground text-center py-6">No shots to order yet.</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap gap-2">
+        <Badge variant="outline" className="text-xs">{order.lightingSetups} lighting setups</Badge>
+        <Badge variant="outline" className="text-xs">{order.cameraSetups} camera setups</Badge>
+        <Badge variant="outline" className="text-xs">est. {formatMinutes(order.minutes)}</Badge>
+      </div>
+
+      {order.setups.map(setup => (
+        <div key={setup.label} className="rounded-lg border border-border overflow-hidden">
+          <div className="flex items-center justify-between gap-2 bg-muted/50 px-3 py-1.5">
+            <span className="text-xs font-semibold uppercase tracking-wider text-primary">
+              Setup {setup.label} — {setup.direction}
+            </span>
+            <span className="text-xs text-muted-foreground">
+              {setup.cameraSetups} camera setup{setup.cameraSetups === 1 ? '' : 's'} • est. {formatMinutes(setup.minutes)}
+            </span>
+          </div>
+          {setup.shots.map(ordered => (
+            <div key={ordered.shootingPosition} className="flex items-start gap-3 px-3 py-2 border-t border-border/50">
+              <span className="w-6 text-sm font-bold text-foreground">{ordered.shootingPosition}</span>
+              <span className="w-16 text-xs text-muted-foreground pt-0.5">Shot {ordered.shotNumber}</span>
+              <div className="flex-1 space-y-0.5">
+                <p className="text-xs font-mono text-muted-foreground">
+                  {formatShotCamera({ ...ordered.shot, shot_size: ordered.size || undefined }) || ordered.shot.shot_type}
+                </p>
+                <p className="text-sm text-foreground">{ordered.shot.subject || ordered.shot.visual}</p>
+              </div>
+            </div>
+          ))}
+        </div>
+      ))}
+    </div>
+  );
+};
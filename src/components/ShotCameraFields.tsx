@@ -0,0 +1,99 @@
+import {
+  ShotCamera,
+  SHOT_SIZES,
+  CAMERA_ANGLES,
+  CAMERA_MOVEMENTS,
+  CAMERA_RIGS,
+  SHOT_SIZE_ABBREVIATIONS,
+  cameraLabel,
+} from "@/lib/shotCamera";
+import { Input } from "@/components/ui/input";
+
+interface ShotCameraFieldsProps {
+  camera: ShotCamera;
+  onChange: <K extends keyof ShotCamera>(field: K, value: ShotCamera[K]) => void;
+}
+
+const selectClass = "h-8 w-full text-xs rounded-md border border-input bg-background px-2 py-1";
+
+const CameraSelect = <K extends 'shot_size' | 'camera_angle' | 'camera_movement' | 'rig'>({
+  label,
+  field,
+  options,
+  optionLabel = cameraLabel,
+  camera,
+  onChange,
+}: ShotCameraFieldsProps & {
+  label: string;
+  field: K;
+  options: readonly NonNullable<ShotCamera[K]>[];
+  optionLabel?: (value: NonNullable<ShotCamera[K]>) => string;
+}) => (
+  <div>
+    <label className="text-[10px] text-muted-foreground uppercase tracking-wider">{label}</label>
+    <select
+      value={camera[field] || ''}
+      onChange={(e) => onChange(field, (e.target.value || undefined) as ShotCamera[K])}
+      className={selectClass}
+    >
+      <option value="">—</option>
+      {options.map(option => (
+        <option key={option} value={option}>{optionLabel(option)}</option>
+      ))}
+    </select>
+  </div>
+);
+
+// Blank clears the field; anything that isn't a positive number is ignored
+const parsePositive = (value: string): number | undefined => {
+  const parsed = parseFloat(value);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : undefined;
+};
+
+/** Structured camera controls for one shot: size, angle, movement, lens, rig, frame rate, setup */
+export const ShotCameraFields = ({ camera, onChange }: ShotCameraFieldsProps) => (
+  <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+    <CameraSelect
+      label="Size"
+      field="shot_size"
+      options={SHOT_SIZES}
+      optionLabel={(size) => `${SHOT_SIZE_ABBREVIATIONS[size]} — ${cameraLabel(size)}`}
+      camera={camera}
+      onChange={onChange}
+    />
+    <CameraSelect label="Angle" field="camera_angle" options={CAMERA_ANGLES} camera={camera} onChange={onChange} />
+    <CameraSelect label="Movement" field="camera_movement" options={CAMERA_MOVEMENTS} camera={camera} onChange={onChange} />
+    <CameraSelect label="Rig" field="rig" options={CAMERA_RIGS} camera={camera} onChange={onChange} />
+    <div>
+      <label className="text-[10px] text-muted-foreground uppercase tracking-wider">Lens (mm)</label>
+      <Input
+        type="number"
+        min={1}
+        value={camera.lens_mm ?? ''}
+        onChange={(e) => onChange('lens_mm', parsePositive(e.target.value))}
+        className="h-8 text-xs"
+      />
+    </div>
+    <div>
+      <label className="text-[10px] text-muted-foreground uppercase tracking-wider">Frame rate</label>
+      <Input
+        type="number"
+        min={1}
+        value={camera.frame_rate ?? ''}
+        placeholder="Base"
+        onChange={(e) => onChange('frame_rate', parsePositive(e.target.value))}
+        className="h-8 text-xs"
+      />
+    </div>
+    <div>
+      <label className="text-[10px] text-muted-foreground uppercase tracking-wider">Setup</label>
+      <Input
+        value={camera.setup_id ?? ''}
+        placeholder="A"
+        maxLength={12}
+        onChange={(e) => onChange('setup_id', e.target.value.toUpperCase() || undefined)}
+        className="h-8 text-xs uppercase"
+      />
+    </div>
+  </div>
+);
@@ -1,28 +1,28 @@
 import { useState, useCallback } from "react";
-import { Upload, X } from "lucide-react";
+import { Upload, X, Loader2 } from "lucide-react";
 import { Button } from "@/components/ui/button";
+import { isFrameFile } from "@/utils/storyboardFrameImages";
 
 interface ShotImageBoxProps {
-  index: number;
-  onImageChange: (index: number, imageUrl: string | null) => void;
+  /** Unique per box; ties the hidden file input to the click target */
+  inputId: string;
+  alt: string;
+  /** Stored frame (or thumbnail) URL */
   imageUrl: string | null;
+  uploading?: boolean;
+  /** Called with a JPEG, PNG or WebP file; the parent uploads it */
+  onFileSelect: (file: File) => void;
+  onRemove: () => void;
 }
 
-export const ShotImageBox = ({ index, onImageChange, imageUrl }: ShotImageBoxProps) => {
+export const ShotImageBox = ({ inputId, alt, imageUrl, uploading = false, onFileSelect, onRemove }: ShotImageBoxProps) => {
   const [isDragging, setIsDragging] = useState(false);
 
   const handleFileSelect = useCallback((file: File) => {
-    if (file && (file.type === 'image/jpeg' || file.type === 'image/png')) {
-      const reader = new FileReader();
-      reader.onload = (e) => {
-        const result = e.target?.result;
-        if (typeof result === 'string') {
-          onImageChange(index, result);
-        }
-      };
-      reader.readAsDataURL(file);
+    if (file && isFrameFile(file)) {
+      onFileSelect(file);
     }
-  }, [index, onImageChange]);
+  }, [onFileSelect]);
 
   const handleDragOver = useCallback((e: React.DragEvent) => {
     e.preventDefault();
@@ -38,22 +38,24 @@ export const ShotImageBox = ({ index, onImageChange, imageUrl }: ShotImageBoxPro
     e.preventDefault();
     setIsDragging(false);
     const file = e.dataTransfer.files[0];
-    if (file) {
+    if (file && !uploading) {
       handleFileSelect(file);
     }
-  }, [handleFileSelect]);
+  }, [handleFileSelect, uploading]);
 
   const handleFileInput = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (file) {
       handleFileSelect(file);
     }
+    // Picking the same file again after a remove should still fire
+    e.target.value = '';
   }, [handleFileSelect]);
 
   const handleRemove = useCallback((e: React.MouseEvent) => {
     e.stopPropagation();
-    onImageChange(index, null);
-  }, [index, onImageChange]);
+    onRemove();
+  }, [onRemove]);
 
   return (
     <div
@@ -63,35 +65,43 @@ export const ShotImageBox = ({ index, onImageChange, imageUrl }: ShotImageBoxPro
       onDragOver={handleDragOver}
       onDragLeave={handleDragLeave}
       onDrop={handleDrop}
-      onClick={() => !imageUrl && document.getElementById(`file-input-${index}`)?.click()}
+      onClick={() => !imageUrl && !uploading && document.getElementById(inputId)?.click()}
     >
       {imageUrl ? (
         <>
           <img
             src={imageUrl}
-            alt={`Shot ${index + 1}`}
+            alt={alt}
             className="w-full h-full object-contain"
           />
-          <Button
-            variant="destructive"
-            size="icon"
-            className="absolute top-2 right-2 h-8 w-8"
-            onClick={handleRemove}
-          >
-            <X className="h-4 w-4" />
-          </Button>
+          {!uploading && (
+            <Button
+              variant="destructive"
+              size="icon"
+              className="absolute top-2 right-2 h-8 w-8"
+              onClick={handleRemove}
+            >
+              <X className="h-4 w-4" />
+            </Button>
+          )}
         </>
-      ) : (
+      ) : !uploading && (
         <div className="flex flex-col items-center justify-center h-full text-muted-foreground">
           <Upload className="w-8 h-8 mb-2" />
           <p className="text-sm">Click or Drag Image Here</p>
-          <p className="text-xs mt-1">JPG or PNG</p>
+          <p className="text-xs mt-1">JPG, PNG, or WebP</p>
+        </div>
+      )}
+      {uploading && (
+        <div className="absolute inset-0 flex flex-col items-center justify-center bg-background/70 text-muted-foreground">
+          <Loader2 className="w-6 h-6 mb-2 animate-spin" />
+          <p className="text-xs">Uploading…</p>
         </div>
       )}
       <input
-        id={`file-input-${index}`}
+        id={inputId}
         type="file"
-        accept="image/jpeg,image/png"
+        accept="image/jpeg,image/png,image/webp"
         className="hidden"
         onChange={handleFileInput}
       />
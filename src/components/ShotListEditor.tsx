@@ -1,4 +1,3 @@
-import { useState, useCallback } from "react";
 import {
   DndContext,
   closestCenter,
@@ -16,36 +15,54 @@ import {
   verticalListSortingStrategy,
 } from "@dnd-kit/sortable";
 import { CSS } from "@dnd-kit/utilities";
-import { Upload, X, GripVertical } from "lucide-react";
-import { Button } from "@/components/ui/button";
+import { GripVertical } from "lucide-react";
 import { Textarea } from "@/components/ui/textarea";
 import { Label } from "@/components/ui/label";
+import { ShotCamera } from "@/lib/shotCamera";
+import { ShotCameraFields } from "./ShotCameraFields";
+import { ShotImageBox } from "./ShotImageBox";
 
 interface ShotData {
+  /** Stable across drags: the shot's ID where it has one */
   id: string;
+  /** The shot's number in the scene's shot list, which dragging here doesn't change */
+  shotNumber: number;
   shotType: string;
   visual: string;
   rationale: string;
   imageUrl: string | null;
+  /** Set while the shot's frame is uploading or being removed */
+  uploading?: boolean;
   annotation: string;
+  camera: ShotCamera;
 }
 
-interface ShotListEditorProps {
-  shots: ShotData[];
-  onShotsChange: (shots: ShotData[]) => void;
+// Generic so the parent gets its own shot objects back, extra fields and all
+interface ShotListEditorProps<T extends ShotData> {
+  shots: T[];
+  onShotsChange: (shots: T[]) => void;
+  /** Frames are stored by the parent; the editor only reports picks and removals */
+  onImageSelect: (id: string, file: File) => void;
+  onImageRemove: (id: string) => void;
+  /** Called when a note loses focus, so the parent can save it */
+  onAnnotationCommit?: (id: string, annotation: string) => void;
 }
 
 const SortableShot = ({
   shot,
-  onImageChange,
+  onImageSelect,
+  onImageRemove,
   onAnnotationChange,
+  onAnnotationCommit,
+  onCameraChange,
 }: {
   shot: ShotData;
-  onImageChange: (id: string, imageUrl: string | null) => void;
+  onImageSelect: (id: string, file: File) => void;
+  onImageRemove: (id: string) => void;
   onAnnotationChange: (id: string, annotation: string) => void;
+  onAnnotationCommit?: (id: string, annotation: string) => void;
+  onCameraChange: (id: string, camera: ShotCamera) => void;
 }) => {
-  const [isDraggingFile, setIsDraggingFile] = useState(false);
-
   const {
     attributes,
     listeners,
@@ -61,52 +78,6 @@ const SortableShot = ({
     opacity: isDragging ? 0.5 : 1,
   };
 
-  const handleFileSelect = useCallback((file: File) => {
-    if (file && (file.type === 'image/jpeg' || file.type === 'image/png' || file.type === 'image/webp')) {
-      const reader = new FileReader();
-      reader.onload = (e) => {
-        const result = e.target?.result;
-        if (typeof result === 'string') {
-          onImageChange(shot.id, result);
-        }
-      };
-      reader.readAsDataURL(file);
-    }
-  }, [shot.id, onImageChange]);
-
-  const handleDragOver = useCallback((e: React.DragEvent) => {
-    e.preventDefault();
-    setIsDraggingFile(true);
-  }, []);
-
-  const handleDragLeave = useCallback((e: React.DragEvent) => {
-    e.preventDefault();
-    setIsDraggingFile(false);
-  }, []);
-
-  const handleDrop = useCallback((e: React.DragEvent) => {
-    e.preventDefault();
-    setIsDraggingFile(false);
-    const file = e.dataTransfer.files[0];
-    if (file) {
-      handleFileSelect(file);
-    }
-  }, [handleFileSelect]);
-
-  const handleFileInput = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (file) {
-      handleFileSelect(file);
-    }
-  }, [handleFileSelect]);
-
-  const handleRemove = useCallback((e: React.MouseEvent) => {
-    e.stopPropagation();
-    onImageChange(shot.id, null);
-  }, [shot.id, onImageChange]);
-
-  const shotIndex = parseInt(shot.id.split('-')[1]) || 0;
-
   return (
     <div ref={setNodeRef} style={style} className="bg-card border border-border rounded-lg p-4 space-y-4">
       {/* Drag Handle + Shot Info */}
@@ -119,7 +90,7 @@ const SortableShot = ({
           <GripVertical className="w-5 h-5 text-muted-foreground" />
         </button>
         <div className="flex-1 space-y-1">
-          <h4 className="font-bold text-sm">SHOT {shotIndex + 1}</h4>
+          <h4 className="font-bold text-sm">SHOT {shot.shotNumber}</h4>
           <p className="text-sm">
             <span className="font-semibold">Type:</span> {shot.shotType}
           </p>
@@ -132,47 +103,21 @@ const SortableShot = ({
         </div>
       </div>
 
+      {/* Camera */}
+      <ShotCameraFields
+        camera={shot.camera}
+        onChange={(field, value) => onCameraChange(shot.id, { ...shot.camera, [field]: value })}
+      />
+
       {/* Image Upload Zone */}
-      <div
-        className={`relative w-full aspect-video bg-muted border-2 rounded-lg overflow-hidden cursor-pointer transition-all ${
-          isDraggingFile ? 'border-netflix-red bg-netflix-red/10' : 'border-border hover:border-netflix-red/50'
-        }`}
-        onDragOver={handleDragOver}
-        onDragLeave={handleDragLeave}
-        onDrop={handleDrop}
-        onClick={() => !shot.imageUrl && document.getElementById(`file-input-${shot.id}`)?.click()}
-      >
-        {shot.imageUrl ? (
-          <>
-            <img
-              src={shot.imageUrl}
-              alt={`Shot ${shotIndex + 1}`}
-              className="w-full h-full object-contain"
-            />
-            <Button
-              variant="destructive"
-              size="icon"
-              className="absolute top-2 right-2 h-8 w-8"
-              onClick={handleRemove}
-            >
-              <X className="h-4 w-4" />
-            </Button>
-          </>
-        ) : (
-          <div className="flex flex-col items-center justify-center h-full text-muted-foreground">
-            <Upload className="w-8 h-8 mb-2" />
-            <p className="text-sm">Click or Drag Image Here</p>
-            <p className="text-xs mt-1">JPG, PNG, or WebP</p>
-          </div>
-        )}
-        <input
-          id={`file-input-${shot.id}`}
-          type="file"
-          accept="image/jpeg,image/png,image/webp"
-          className="hidden"
-          onChange={handleFileInput}
-        />
-      </div>
+      <ShotImageBox
+        inputId={`file-input-${shot.id}`}
+        alt={`Shot ${shot.shotNumber}`}
+        imageUrl={shot.imageUrl}
+        uploading={shot.uploading}
+        onFileSelect={(file) => onImageSelect(shot.id, file)}
+        onRemove={() => onImageRemove(shot.id)}
+      />
 
       {/* Annotation Field */}
       <div className="space-y-2">
@@ -184,6 +129,7 @@ const SortableShot = ({
           placeholder="Add shot notes, camera movement, or other details..."
           value={shot.annotation}
           onChange={(e) => onAnnotationChange(shot.id, e.target.value)}
+          onBlur={(e) => onAnnotationCommit?.(shot.id, e.target.value)}
           className="text-xs min-h-[60px]"
         />
       </div>
@@ -191,7 +137,7 @@ const SortableShot = ({
   );
 };
 
-export const ShotListEditor = ({ shots, onShotsChange }: ShotListEditorProps) => {
+export const ShotListEditor = <T extends ShotData>({ shots, onShotsChange, onImageSelect, onImageRemove, onAnnotationCommit }: ShotListEditorProps<T>) => {
   const sensors = useSensors(
     useSensor(PointerSensor),
     useSensor(KeyboardSensor, {
@@ -210,18 +156,18 @@ export const ShotListEditor = ({ shots, onShotsChange }: ShotListEditorProps) =>
     }
   };
 
-  const handleImageChange = (id: string, imageUrl: string | null) => {
+  const handleAnnotationChange = (id: string, annotation: string) => {
     onShotsChange(
       shots.map((shot) =>
-        shot.id === id ? { ...shot, imageUrl } : shot
+        shot.id === id ? { ...shot, annotation } : shot
       )
     );
   };
 
-  const handleAnnotationChange = (id: string, annotation: string) => {
+  const handleCameraChange = (id: string, camera: ShotCamera) => {
     onShotsChange(
       shots.map((shot) =>
-        shot.id === id ? { ...shot, annotation } : shot
+        shot.id === id ? { ...shot, camera } : shot
       )
     );
   };
@@ -238,8 +184,11 @@ export const ShotListEditor = ({ shots, onShotsChange }: ShotListEditorProps) =>
             <SortableShot
               key={shot.id}
               shot={shot}
-              onImageChange={handleImageChange}
+              onImageSelect={onImageSelect}
+              onImageRemove={onImageRemove}
               onAnnotationChange={handleAnnotationChange}
+              onAnnotationCommit={onAnnotationCommit}
+              onCameraChange={handleCameraChange}
             />
           ))}
         </SortableContext>
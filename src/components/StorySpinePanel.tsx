@@ -0,0 +1,156 @@
+import React, { useMemo } from 'react';
+import { Scene } from '@/types/analysis';
+import { StorySpine } from '@/lib/storySpine';
+import { displaySceneNumber } from '@/lib/sceneNumbering';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Compass, RefreshCw } from 'lucide-react';
+
+interface StorySpinePanelProps {
+  spine: StorySpine | null | undefined;
+  scenes: Scene[];
+  isBuilding: boolean;
+  onBuild: () => void;
+  onSelectScene: (sceneId: string) => void;
+}
+
+export const StorySpinePanel: React.FC<StorySpinePanelProps> = ({ spine, scenes, isBuilding, onBuild, onSelectScene }) => {
+  const byNumber = useMemo(() => new Map(scenes.map(scene => [scene.scene_number, scene])), [scenes]);
+
+  // Spine references are internal scene numbers; show them as production labels
+  const sceneRef = (number: number) => {
+    const scene = byNumber.get(number);
+    if (!scene) return <span key={number} className="text-muted-foreground">Sc. {number}</span>;
+    return (
+      <button
+        key={number}
+        type="button"
+        onClick={() => onSelectScene(scene.id)}
+        className="text-primary hover:underline"
+        title={scene.header}
+      >
+        Sc. {displaySceneNumber(scene)}
+      </button>
+    );
+  };
+
+  const sceneRefs = (numbers: number[]) => (
+    <span className="inline-flex flex-wrap gap-x-2">
+      {numbers.map(sceneRef)}
+    </span>
+  );
+
+  if (!spine) {
+    return (
+      <div className="text-center py-8 space-y-4">
+        <Compass className="w-10 h-10 mx-auto text-muted-foreground" />
+        <p className="text-sm text-muted-foreground max-w-md mx-auto">
+          Read the whole script once to find its act breaks, character arcs, setups and where they pay off.
+          Every scene analyzed afterwards is analyzed in that context. Costs 1 credit.
+        </p>
+        <Button onClick={onBuild} disabled={isBuilding || scenes.length < 2}>
+          <Compass className={`w-4 h-4 mr-1 ${isBuilding ? 'animate-pulse' : ''}`} />
+          {isBuilding ? 'Reading script...' : 'Build Story Spine'}
+        </Button>
+      </div>
+    );
+  }
+
+  const isStale = spine.meta && spine.meta.sceneCount !== scenes.length;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-start justify-between gap-4">
+        <p className="text-sm text-foreground leading-relaxed italic">{spine.logline}</p>
+        <Button variant="outline" size="sm" onClick={onBuild} disabled={isBuilding} className="flex-shrink-0">
+          <RefreshCw className={`w-4 h-4 mr-1 ${isBuilding ? 'animate-spin' : ''}`} />
+          {isBuilding ? 'Rebuilding...' : 'Rebuild'}
+        </Button>
+      </div>
+      {isStale && (
+        <p className="text-xs text-yellow-400">
+          Built for {spine.meta!.sceneCount} scenes; the script now has {scenes.length}. Rebuild to include the revision.
+        </p>
+      )}
+
+      {/* Act breaks */}
+      <div className="space-y-2">
+        <h3 className="text-sm font-semibold text-primary">Act Breaks</h3>
+        <div className="space-y-2">
+          {spine.act_breaks.map(act => (
+            <div key={act.act} className="bg-muted/30 rounded-lg p-3">
+              <div className="flex items-center gap-2 mb-1">
+                <Badge variant="outline" className="text-xs">Act {act.act}</Badge>
+                {act.label && <span className="text-sm font-medium text-foreground">{act.label}</span>}
+                <span className="text-xs text-muted-foreground">from {sceneRef(act.starts_at_scene)}</span>
+              </div>
+              <p className="text-sm text-muted-foreground">{act.summary}</p>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {/* Setups & payoffs */}
+      <div className="space-y-2">
+        <h3 className="text-sm font-semibold text-primary">Setups & Payoffs</h3>
+        {spine.setup_payoffs.length > 0 ? (
+          <div className="space-y-2">
+            {spine.setup_payoffs.map(thread => (
+              <div key={thread.id} className="bg-muted/30 rounded-lg p-3 space-y-1">
+                <p className="text-sm font-medium text-foreground">{thread.description}</p>
+                <p className="text-sm">
+                  <span className="text-xs font-semibold text-blue-400 uppercase mr-2">Setup</span>
+                  {sceneRef(thread.setup_scene)}
+                  <span className="text-muted-foreground"> — {thread.setup}</span>
+                </p>
+                <p className="text-sm">
+                  <span className="text-xs font-semibold text-green-400 uppercase mr-2">Payoff</span>
+                  {sceneRefs(thread.payoff_scenes)}
+                  <span className="text-muted-foreground"> — {thread.payoff}</span>
+                </p>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground italic">No setups identified</p>
+        )}
+      </div>
+
+      {/* Character arcs */}
+      {spine.character_arcs.length > 0 && (
+        <div className="space-y-2">
+          <h3 className="text-sm font-semibold text-primary">Character Arcs</h3>
+          <div className="space-y-2">
+            {spine.character_arcs.map(arc => (
+              <div key={arc.character} className="bg-muted/30 rounded-lg p-3">
+                <p className="text-sm font-medium text-foreground">{arc.character}</p>
+                <p className="text-sm text-muted-foreground">{arc.arc}</p>
+                {arc.key_scenes.length > 0 && (
+                  <p className="text-xs mt-1">{sceneRefs(arc.key_scenes)}</p>
+                )}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* Motifs */}
+      {spine.motifs.length > 0 && (
+        <div className="space-y-2">
+          <h3 className="text-sm font-semibold text-primary">Recurring Motifs</h3>
+          <div className="space-y-2">
+            {spine.motifs.map(motif => (
+              <div key={motif.motif} className="bg-muted/30 rounded-lg p-3">
+                <p className="text-sm font-medium text-foreground">{motif.motif}</p>
+                <p className="text-sm text-muted-foreground">{motif.meaning}</p>
+                {motif.scenes.length > 0 && (
+                  <p className="text-xs mt-1">{sceneRefs(motif.scenes)}</p>
+                )}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
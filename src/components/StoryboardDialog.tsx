@@ -17,6 +17,10 @@ import { Alert, AlertDescription } from "@/components/ui/alert";
 import { Switch } from "@/components/ui/switch";
 import { Label } from "@/components/ui/label";
 import { Scene, AnalysisData } from "@/types/analysis";
+import { displaySceneNumber } from "@/lib/sceneNumbering";
+import { ShotCamera, normalizeShotCamera } from "@/lib/shotCamera";
+import { StoryboardFrame, findShotFrame, shotFrameKey } from "@/lib/storyboardFrames";
+import { ShotNotes, isShotId } from "@/lib/shotIds";
 import { logger } from "@/utils/logger";
 
 interface StoryboardDialogProps {
@@ -24,18 +28,32 @@ interface StoryboardDialogProps {
   onOpenChange: (open: boolean) => void;
   scene: Scene;
   analysis: AnalysisData;
+  /** The project's stored frames; the dialog picks out this scene's */
+  frames: StoryboardFrame[];
+  onUploadFrame: (sceneNumber: number, shotKey: string, file: File) => Promise<StoryboardFrame | null>;
+  onRemoveFrame: (frameId: string) => Promise<boolean>;
+  /** The project's storyboard notes, keyed by shot ID */
+  notes: ShotNotes;
+  onSaveNote: (shotId: string, note: string) => Promise<boolean>;
 }
 
 interface ShotData {
+  /** The shot's ID, or a positional stand-in for shots saved before IDs existed */
   id: string;
+  shotNumber: number;
   shotType: string;
   visual: string;
   rationale: string;
   imageUrl: string | null;
+  /** Key the shot's frame is stored under, which survives reordering here */
+  frameKey: string;
+  frameId: string | null;
+  uploading?: boolean;
   annotation: string;
+  camera: ShotCamera;
 }
 
-export const StoryboardDialog = ({ open, onOpenChange, scene, analysis }: StoryboardDialogProps) => {
+export const StoryboardDialog = ({ open, onOpenChange, scene, analysis, frames, onUploadFrame, onRemoveFrame, notes, onSaveNote }: StoryboardDialogProps) => {
   const { toast } = useToast();
   const [exportPlaceholders, setExportPlaceholders] = useState(true);
   const [includePrompts, setIncludePrompts] = useState(false);
@@ -43,17 +61,54 @@ export const StoryboardDialog = ({ open, onOpenChange, scene, analysis }: Storyb
   // Initialize shots from analysis shot_list
   const [shots, setShots] = useState<ShotData[]>(() => {
     const shotList = (analysis as any)?.shot_list || [];
-    return shotList.map((shot: any, index: number) => ({
-      id: `shot-${index}`,
-      shotType: shot.shot_type || 'WIDE',
-      visual: shot.visual || shot.action || '',
-      rationale: shot.rationale || '',
-      imageUrl: null,
-      annotation: '',
-      imagePrompt: shot.image_prompt || ''
-    }));
+    return shotList.map((shot: any, index: number) => {
+      const frameKey = shotFrameKey(shot, index);
+      const frame = findShotFrame(frames, scene.scene_number, frameKey);
+      return {
+        id: isShotId(shot?.id) ? shot.id : `shot-${index}`,
+        shotNumber: index + 1,
+        shotType: shot.shot_type || 'WIDE',
+        visual: shot.visual || shot.action || '',
+        rationale: shot.rationale || '',
+        imageUrl: frame?.url || null,
+        frameKey,
+        frameId: frame?.id || null,
+        annotation: (isShotId(shot?.id) && notes[shot.id]) || '',
+        camera: normalizeShotCamera(shot),
+        imagePrompt: shot.image_prompt || ''
+      };
+    });
   });
 
+  const updateShot = (id: string, changes: Partial<ShotData>) =>
+    setShots(current => current.map(shot => shot.id === id ? { ...shot, ...changes } : shot));
+
+  const handleImageSelect = async (id: string, file: File) => {
+    const shot = shots.find(s => s.id === id);
+    if (!shot) return;
+    updateShot(id, { uploading: true });
+    const frame = await onUploadFrame(scene.scene_number, shot.frameKey, file);
+    updateShot(id, frame
+      ? { uploading: false, imageUrl: frame.url || null, frameId: frame.id }
+      : { uploading: false });
+  };
+
+  const handleImageRemove = async (id: string) => {
+    const shot = shots.find(s => s.id === id);
+    if (!shot?.frameId) return;
+    updateShot(id, { uploading: true });
+    const removed = await onRemoveFrame(shot.frameId);
+    updateShot(id, removed
+      ? { uploading: false, imageUrl: null, frameId: null }
+      : { uploading: false });
+  };
+
+  // Notes are saved per shot on blur; shots without an ID have nowhere to keep them
+  const handleAnnotationCommit = (id: string, annotation: string) => {
+    if (!isShotId(id) || annotation.trim() === (notes[id] || '')) return;
+    onSaveNote(id, annotation);
+  };
+
   const hasEmptyFrames = useMemo(() => {
     return shots.some(shot => !shot.imageUrl);
   }, [shots]);
@@ -71,7 +126,7 @@ export const StoryboardDialog = ({ open, onOpenChange, scene, analysis }: Storyb
     }
 
     await generateStoryboardPDF(
-      scene.scene_number,
+      displaySceneNumber(scene),
       scene.header.replace(/\n/g, ' '),
       shots,
       { includePlaceholders: exportPlaceholders, includePrompts }
@@ -79,7 +134,7 @@ export const StoryboardDialog = ({ open, onOpenChange, scene, analysis }: Storyb
 
     toast({
       title: "Storyboard exported",
-      description: `Scene ${scene.scene_number} storyboard downloaded`,
+      description: `Scene ${displaySceneNumber(scene)} storyboard downloaded`,
     });
   };
 
@@ -88,10 +143,10 @@ export const StoryboardDialog = ({ open, onOpenChange, scene, analysis }: Storyb
       <DialogContent className="max-w-[95vw] max-h-[90vh] p-0 gap-0">
         <DialogHeader className="p-6 pb-4 border-b border-border">
           <DialogTitle className="font-mono">
-            SCENE {scene.scene_number} - {scene.header.replace(/\n/g, ' ')}
+            SCENE {displaySceneNumber(scene)} - {scene.header.replace(/\n/g, ' ')}
           </DialogTitle>
           <DialogDescription>
-            Drag to reorder shots, upload images, and add annotations. Preview updates in real-time.
+            Drag to reorder shots, set camera details, upload images, and add annotations. Uploaded frames and notes are saved to the project; preview updates in real-time.
           </DialogDescription>
         </DialogHeader>
 
@@ -99,13 +154,19 @@ export const StoryboardDialog = ({ open, onOpenChange, scene, analysis }: Storyb
         <div className="flex h-[60vh]">
           {/* Left Pane - Shot List Editor */}
           <div className="w-1/2 border-r border-border overflow-y-auto">
-            <ShotListEditor shots={shots} onShotsChange={setShots} />
+            <ShotListEditor
+              shots={shots}
+              onShotsChange={setShots}
+              onImageSelect={handleImageSelect}
+              onImageRemove={handleImageRemove}
+              onAnnotationCommit={handleAnnotationCommit}
+            />
           </div>
 
           {/* Right Pane - Live Preview */}
           <div className="w-1/2">
             <StoryboardPreview
-              sceneNumber={scene.scene_number}
+              sceneNumber={displaySceneNumber(scene)}
               sceneHeader={scene.header.replace(/\n/g, ' ')}
               shots={shots}
             />
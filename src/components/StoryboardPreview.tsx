@@ -3,16 +3,19 @@ import { Button } from "@/components/ui/button";
 import { ZoomIn, ZoomOut, Maximize2 } from "lucide-react";
 import { useState } from "react";
 import { cn } from "@/lib/utils";
+import { ShotCamera, formatShotCamera } from "@/lib/shotCamera";
 
 interface ShotData {
   shotType: string;
   visual: string;
   imageUrl: string | null;
   annotation: string;
+  camera?: ShotCamera;
 }
 
 interface StoryboardPreviewProps {
-  sceneNumber: number;
+  /** Production scene number as displayed, e.g. "12A" */
+  sceneNumber: string;
   sceneHeader: string;
   shots: ShotData[];
 }
@@ -87,6 +90,12 @@ export const StoryboardPreview = ({ sceneNumber, sceneHeader, shots }: Storyboar
                   <div className="bg-gray-50 p-3 space-y-1 border-r border-gray-300">
                     <p className="text-xs font-bold">SHOT {index + 1}</p>
                     <p className="text-[10px] font-semibold uppercase">{shot.shotType}</p>
+                    {shot.camera && formatShotCamera(shot.camera) && (
+                      <p className="text-[9px] font-mono text-gray-700">{formatShotCamera(shot.camera)}</p>
+                    )}
+                    {shot.camera?.setup_id && (
+                      <p className="text-[9px] font-semibold text-gray-700">SETUP {shot.camera.setup_id}</p>
+                    )}
                     <p className="text-[9px] text-gray-600 leading-tight">{shot.visual}</p>
                   </div>
 
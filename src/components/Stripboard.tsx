@@ -0,0 +1,245 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Scene } from '@/types/analysis';
+import { ShootingSchedule, DEFAULT_SCHEDULE_SETTINGS } from '@/types/schedule';
+import { buildSchedulingScenes, generateSchedule, validateSchedule, reconcileSchedule, dayEighths, companyMoves, SchedulingScene } from '@/utils/scheduler';
+import { formatEighths } from '@/utils/breakdown';
+import { CharacterRecord } from '@/lib/characterRegistry';
+import { ShootingLocation } from '@/lib/locationRegistry';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { AlertTriangle, ArrowUp, ArrowDown, CalendarDays, Save, Wand2 } from 'lucide-react';
+
+interface StripboardProps {
+  scenes: Scene[];
+  schedule: ShootingSchedule | null | undefined;
+  characters?: CharacterRecord[];
+  locations?: ShootingLocation[];
+  onSave: (schedule: ShootingSchedule | null, baseVersion?: number) => Promise<void>;
+  /** The saved version the draft starts from, sent back with the save */
+  version?: number;
+}
+
+const Strip: React.FC<{
+  item: SchedulingScene;
+  flagged: boolean;
+  onMoveUp?: () => void;
+  onMoveDown?: () => void;
+}> = ({ item, flagged, onMoveUp, onMoveDown }) => {
+  const [r, g, b] = item.stripColor.rgb;
+  return (
+    <div
+      className={`flex items-center gap-3 px-3 py-1.5 text-xs text-black border-b border-black/20 ${flagged ? 'ring-2 ring-inset ring-red-500' : ''}`}
+      style={{ backgroundColor: `rgb(${r}, ${g}, ${b})` }}
+    >
+      <span className="font-bold w-10">{item.sceneLabel}</span>
+      <span className="w-14">{item.intExt}</span>
+      <span className="flex-1 font-semibold truncate">
+        {item.set}
+        {item.location !== item.set && <span className="font-normal text-black/60"> @ {item.location}</span>}
+      </span>
+      <span className="w-12">{item.dayNight}</span>
+      <span className="w-12 text-right">{formatEighths(item.eighths)}</span>
+      <span className="w-24 truncate text-right">{item.castIds.join(', ')}</span>
+      <div className="flex gap-0.5">
+        <button onClick={onMoveUp} disabled={!onMoveUp} className="p-0.5 rounded hover:bg-black/10 disabled:opacity-30" title="Move up">
+          <ArrowUp className="w-3 h-3" />
+        </button>
+        <button onClick={onMoveDown} disabled={!onMoveDown} className="p-0.5 rounded hover:bg-black/10 disabled:opacity-30" title="Move down">
+          <ArrowDown className="w-3 h-3" />
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export const Stripboard: React.FC<StripboardProps> = ({ scenes, schedule, characters, locations, onSave, version }) => {
+  const items = useMemo(() => buildSchedulingScenes(scenes, characters, locations), [scenes, characters, locations]);
+  const itemByNumber = useMemo(() => new Map(items.map(item => [item.sceneNumber, item])), [items]);
+
+  const [draft, setDraft] = useState<ShootingSchedule | null>(schedule ? reconcileSchedule(schedule, items) : null);
+  const [pagesPerDay, setPagesPerDay] = useState(
+    String((schedule?.settings.maxEighthsPerDay ?? DEFAULT_SCHEDULE_SETTINGS.maxEighthsPerDay) / 8)
+  );
+  const [baseVersion, setBaseVersion] = useState(version);
+  const [isDirty, setIsDirty] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Pick up the saved schedule when the project refetches, unless the user is mid-edit
+  useEffect(() => {
+    if (isDirty) return;
+    setDraft(schedule ? reconcileSchedule(schedule, items) : null);
+    setBaseVersion(version);
+  }, [schedule, items, isDirty, version]);
+
+  const violations = useMemo(() => (draft ? validateSchedule(draft, items) : []), [draft, items]);
+  const flaggedScenes = new Set(violations.filter(v => v.type === 'order').map(v => v.sceneNumber));
+  const unscheduled = violations.filter(v => v.type === 'unscheduled').map(v => v.sceneNumber!);
+
+  const handleGenerate = () => {
+    const pages = parseFloat(pagesPerDay);
+    const maxEighthsPerDay = Math.max(1, Math.round((Number.isNaN(pages) ? 5 : pages) * 8));
+    setDraft(generateSchedule(items, { maxEighthsPerDay }));
+    setIsDirty(true);
+  };
+
+  // Flatten days into one strip order with day breaks, move, then rebuild
+  const moveScene = (sceneNumber: number, direction: -1 | 1) => {
+    if (!draft) return;
+    const days = draft.days.map(day => [...day.sceneNumbers]);
+    const dayIdx = days.findIndex(d => d.includes(sceneNumber));
+    if (dayIdx === -1) return;
+    const pos = days[dayIdx].indexOf(sceneNumber);
+    const target = pos + direction;
+
+    days[dayIdx].splice(pos, 1);
+    if (target >= 0 && target <= days[dayIdx].length) {
+      days[dayIdx].splice(target, 0, sceneNumber);
+    } else if (direction === -1) {
+      if (dayIdx === 0) days.unshift([sceneNumber]);
+      else days[dayIdx - 1].push(sceneNumber);
+    } else if (dayIdx === days.length - 1) {
+      days.push([sceneNumber]);
+    } else {
+      days[dayIdx + 1].unshift(sceneNumber);
+    }
+
+    setDraft(reconcileSchedule({ ...draft, days: days.map((sceneNumbers, idx) => ({ dayNumber: idx + 1, sceneNumbers })) }, items));
+    setIsDirty(true);
+  };
+
+  const addUnscheduled = (sceneNumber: number) => {
+    if (!draft) return;
+    const days = [...draft.days, { dayNumber: draft.days.length + 1, sceneNumbers: [sceneNumber] }];
+    setDraft({ ...draft, days });
+    setIsDirty(true);
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      await onSave(draft, baseVersion);
+      setIsDirty(false);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (items.length === 0) {
+    return (
+      <p className="text-sm text-muted-foreground text-center py-8">
+        Analyze scenes to build a shooting schedule.
+      </p>
+    );
+  }
+
+  const totalEighths = items.reduce((sum, s) => sum + s.eighths, 0);
+
+  return (
+    <div className="space-y-6">
+      {/* Controls */}
+      <div className="flex flex-wrap items-end gap-3">
+        <div className="space-y-1">
+          <label className="text-xs text-muted-foreground">Pages per day</label>
+          <Input
+            type="number"
+            min={0.125}
+            step={0.125}
+            value={pagesPerDay}
+            onChange={(e) => setPagesPerDay(e.target.value)}
+            className="w-24 h-8"
+          />
+        </div>
+        <Button size="sm" variant="outline" onClick={handleGenerate}>
+          <Wand2 className="w-4 h-4 mr-1" />
+          {draft ? 'Rebuild Schedule' : 'Build Schedule'}
+        </Button>
+        <Button
+          size="sm"
+          onClick={handleSave}
+          disabled={!isDirty || isSaving}
+          className="bg-netflix-red hover:bg-netflix-red/90"
+        >
+          <Save className="w-4 h-4 mr-1" />
+          {isSaving ? 'Saving...' : 'Save Schedule'}
+        </Button>
+        <div className="ml-auto flex gap-2">
+          <Badge variant="outline" className="text-xs">{items.length} scenes</Badge>
+          <Badge variant="outline" className="text-xs">{formatEighths(totalEighths)} pages</Badge>
+          {draft && <Badge variant="outline" className="text-xs">{draft.days.length} shoot days</Badge>}
+        </div>
+      </div>
+
+      {/* Violations */}
+      {violations.length > 0 && (
+        <div className="p-3 rounded-lg border border-red-500/40 bg-red-500/10 space-y-1">
+          <div className="flex items-center gap-2 text-sm font-semibold text-red-400">
+            <AlertTriangle className="w-4 h-4" />
+            {violations.length} scheduling issue{violations.length !== 1 ? 's' : ''}
+          </div>
+          <ul className="text-xs text-muted-foreground space-y-0.5">
+            {violations.map((v, idx) => <li key={idx}>• {v.message}</li>)}
+          </ul>
+        </div>
+      )}
+
+      {!draft ? (
+        <p className="text-sm text-muted-foreground text-center py-8">
+          No schedule yet. Set a page budget and build one from the scenes' scheduling notes.
+        </p>
+      ) : (
+        <div className="space-y-4">
+          {draft.days.map((day, dayIdx) => {
+            const eighths = dayEighths(day, items);
+            const over = day.sceneNumbers.length > 1 && eighths > draft.settings.maxEighthsPerDay;
+            const moves = companyMoves(day, items);
+            return (
+              <div key={day.dayNumber} className="rounded-lg overflow-hidden border border-border">
+                <div className="flex items-center gap-2 px-3 py-1.5 bg-[#1a1a1a] text-xs">
+                  <CalendarDays className="w-3.5 h-3.5 text-muted-foreground" />
+                  <span className="font-bold text-foreground">DAY {day.dayNumber}</span>
+                  {moves.length > 0 && (
+                    <span className="text-yellow-400" title={moves.map(m => `${m.from} → ${m.to}`).join('\n')}>
+                      {moves.length} company move{moves.length !== 1 ? 's' : ''}
+                    </span>
+                  )}
+                  <span className={`ml-auto ${over ? 'text-red-400 font-semibold' : 'text-muted-foreground'}`}>
+                    {formatEighths(eighths)} / {formatEighths(draft.settings.maxEighthsPerDay)} pages
+                  </span>
+                </div>
+                {day.sceneNumbers.map((n, pos) => {
+                  const item = itemByNumber.get(n);
+                  if (!item) return null;
+                  const isFirst = dayIdx === 0 && pos === 0;
+                  const isLast = dayIdx === draft.days.length - 1 && pos === day.sceneNumbers.length - 1 && day.sceneNumbers.length === 1;
+                  return (
+                    <Strip
+                      key={n}
+                      item={item}
+                      flagged={flaggedScenes.has(n)}
+                      onMoveUp={isFirst ? undefined : () => moveScene(n, -1)}
+                      onMoveDown={isLast ? undefined : () => moveScene(n, 1)}
+                    />
+                  );
+                })}
+              </div>
+            );
+          })}
+
+          {unscheduled.length > 0 && (
+            <div className="space-y-2">
+              <h4 className="text-xs font-bold text-muted-foreground uppercase tracking-wider">Unscheduled</h4>
+              <div className="flex flex-wrap gap-2">
+                {unscheduled.map(n => (
+                  <Button key={n} size="sm" variant="outline" onClick={() => addUnscheduled(n)}>
+                    + Scene {itemByNumber.get(n)?.sceneLabel ?? n}
+                  </Button>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,107 @@
+import { useEffect, useRef, useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { useUser } from "@clerk/clerk-react";
+import { getAuthToken } from "@/utils/apiClient";
+import { COLLAB_CLOSE, CollabClientMessage, CollabServerMessage, PresenceMember } from "@/types/collaboration";
+import { logger } from "@/utils/logger";
+
+const RECONNECT_BASE_MS = 1000;
+const RECONNECT_MAX_MS = 30000;
+
+function send(socket: WebSocket | null, message: CollabClientMessage) {
+  if (socket?.readyState === WebSocket.OPEN) socket.send(JSON.stringify(message));
+}
+
+/**
+ * Who else has the project open, and a refetch whenever anyone saves to it.
+ * The socket only says that something changed; the project itself still
+ * comes from get-one, so a dropped connection just means a staler view
+ * until it reconnects.
+ */
+export function useProjectCollaboration(projectId: string | undefined, sceneNumber: number | null) {
+  const { user } = useUser();
+  const queryClient = useQueryClient();
+  const [members, setMembers] = useState<PresenceMember[]>([]);
+  const [connectionId, setConnectionId] = useState<string | null>(null);
+  const [connected, setConnected] = useState(false);
+  const socketRef = useRef<WebSocket | null>(null);
+  const sceneRef = useRef(sceneNumber);
+
+  const userId = user?.id;
+  const name = user?.fullName || user?.primaryEmailAddress?.emailAddress || undefined;
+
+  useEffect(() => {
+    if (!projectId || !userId) return;
+    let stopped = false;
+    let attempt = 0;
+    let retryTimer: ReturnType<typeof setTimeout> | undefined;
+
+    const refetch = () => queryClient.invalidateQueries({ queryKey: ['project', projectId] });
+
+    const connect = async () => {
+      const token = await getAuthToken();
+      if (stopped) return;
+      const protocol = window.location.protocol === 'https:' ? 'wss' : 'ws';
+      const socket = new WebSocket(`${protocol}://${window.location.host}/api/collab`);
+      socketRef.current = socket;
+
+      socket.onopen = () => send(socket, { type: 'join', projectId, token: token || '', name });
+
+      socket.onmessage = (event) => {
+        let message: CollabServerMessage;
+        try {
+          message = JSON.parse(event.data);
+        } catch {
+          return;
+        }
+        if (message.type === 'joined') {
+          attempt = 0;
+          setConnected(true);
+          setConnectionId(message.connectionId);
+          setMembers(message.members);
+          send(socket, { type: 'focus', sceneNumber: sceneRef.current });
+        } else if (message.type === 'presence') {
+          setMembers(message.members);
+        } else if (message.type === 'change' && message.change.kind === 'comments') {
+          queryClient.invalidateQueries({ queryKey: ['comments', projectId] });
+        } else if (message.type === 'change' || message.type === 'role') {
+          // Our own saves included: another of our tabs may have made them
+          refetch();
+        } else if (message.type === 'error') {
+          logger.warn('[Collaboration] Server error:', message.error);
+        }
+      };
+
+      socket.onclose = (event) => {
+        if (socketRef.current === socket) socketRef.current = null;
+        setConnected(false);
+        setMembers([]);
+        if (stopped) return;
+        // Access removed or the project deleted: the refetch shows why
+        if (event.code === COLLAB_CLOSE.forbidden || event.code === COLLAB_CLOSE.notFound) {
+          refetch();
+          return;
+        }
+        const delay = Math.min(RECONNECT_MAX_MS, RECONNECT_BASE_MS * 2 ** attempt);
+        attempt++;
+        retryTimer = setTimeout(connect, delay);
+      };
+    };
+
+    connect();
+    return () => {
+      stopped = true;
+      clearTimeout(retryTimer);
+      socketRef.current?.close();
+      socketRef.current = null;
+    };
+  }, [projectId, userId, name, queryClient]);
+
+  // Tell the room which scene is open
+  useEffect(() => {
+    sceneRef.current = sceneNumber;
+    send(socketRef.current, { type: 'focus', sceneNumber });
+  }, [sceneNumber]);
+
+  return { members, connectionId, connected };
+}
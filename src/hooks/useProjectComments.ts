@@ -0,0 +1,100 @@
+import { useMemo } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { api, ApiError } from "@/utils/apiClient";
+import { CommentAnchor, CommentMember, CommentThread, inboxEntries } from "@/lib/projectComments";
+import { logger } from "@/utils/logger";
+
+interface CommentsData {
+  threads: CommentThread[];
+  members: CommentMember[];
+}
+
+type CommentRequest =
+  | { action: 'create'; sceneNumber: number; anchor: CommentAnchor; body: string }
+  | { action: 'reply'; threadId: string; body: string }
+  | { action: 'resolve' | 'reopen' | 'read'; threadId: string };
+
+const FAILURE_TITLES: Record<CommentRequest['action'], string> = {
+  create: "Comment not posted",
+  reply: "Reply not posted",
+  resolve: "Thread not resolved",
+  reopen: "Thread not reopened",
+  read: "Thread not marked read",
+};
+
+/**
+ * The project's comment threads and the signed-in user's inbox. Other
+ * people's comments arrive through useProjectCollaboration, which refetches
+ * ['comments', projectId] when anyone comments.
+ */
+export function useProjectComments(projectId: string | undefined, userId: string | undefined) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const queryKey = ['comments', projectId];
+
+  const { data, isLoading } = useQuery({
+    queryKey,
+    queryFn: async (): Promise<CommentsData> => {
+      const result = await api.get(`/api/projects/comments?projectId=${projectId}`, {
+        context: 'Loading comments',
+        timeoutMs: 30000,
+        maxRetries: 1
+      });
+      return { threads: result.threads || [], members: result.members || [] };
+    },
+    enabled: !!projectId,
+  });
+
+  const threads = useMemo(() => data?.threads || [], [data]);
+  const members = useMemo(() => data?.members || [], [data]);
+  const inbox = useMemo(() => (userId ? inboxEntries(threads, userId) : []), [threads, userId]);
+  const unreadCount = inbox.filter(entry => entry.unread).length;
+
+  const send = async (request: CommentRequest): Promise<CommentThread | null> => {
+    if (!projectId) return null;
+    try {
+      const result = await api.post<{ thread: CommentThread }>('/api/projects/comment', { projectId, ...request }, {
+        context: 'Saving comment',
+        timeoutMs: 15000,
+        maxRetries: request.action === 'read' ? 0 : 1
+      });
+      // Swap in the thread as saved rather than refetching every thread
+      queryClient.setQueryData(queryKey, (oldData: CommentsData | undefined) => {
+        if (!oldData) return oldData;
+        const exists = oldData.threads.some(thread => thread.id === result.thread.id);
+        return {
+          ...oldData,
+          threads: exists
+            ? oldData.threads.map(thread => (thread.id === result.thread.id ? result.thread : thread))
+            : [...oldData.threads, result.thread]
+        };
+      });
+      return result.thread;
+    } catch (error) {
+      logger.error('Error saving comment:', error);
+      if (request.action !== 'read') {
+        toast({
+          title: FAILURE_TITLES[request.action],
+          description: (error as ApiError).userMessage || (error as Error).message || 'Failed to save comment',
+          variant: "destructive"
+        });
+      }
+      return null;
+    }
+  };
+
+  return {
+    threads,
+    members,
+    inbox,
+    unreadCount,
+    isLoading,
+    createThread: (sceneNumber: number, anchor: CommentAnchor, body: string) =>
+      send({ action: 'create', sceneNumber, anchor, body }),
+    reply: (threadId: string, body: string) => send({ action: 'reply', threadId, body }),
+    setResolved: (threadId: string, resolved: boolean) =>
+      send({ action: resolved ? 'resolve' : 'reopen', threadId }),
+    markRead: (threadId: string) => send({ action: 'read', threadId }),
+  };
+}
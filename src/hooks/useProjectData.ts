@@ -1,9 +1,29 @@
 import { useState, useEffect } from "react";
 import { useQuery, useQueryClient } from "@tanstack/react-query";
 import { useToast } from "@/hooks/use-toast";
+import { saveAnywayAction } from "@/components/SaveAnywayAction";
 import { api, ApiError } from "@/utils/apiClient";
 import { VisualProfile } from "@/types/visualProfile";
+import { ShootingSchedule } from "@/types/schedule";
+import { ProjectBudget, RateCard } from "@/lib/rateCard";
+import { CharacterRecord, StoredCharacter } from "@/lib/characterRegistry";
+import { ShootingLocation } from "@/lib/locationRegistry";
+import { ScriptRevisionRecord } from "@/lib/scriptRevision";
+import { OmittedScene } from "@/lib/sceneNumbering";
+import { StorySpine } from "@/lib/storySpine";
+import { StoryboardFrame, isFrameForShot } from "@/lib/storyboardFrames";
+import { ShotNotes } from "@/lib/shotIds";
+import { ProjectCollaborator, ProjectRole } from "@/lib/projectAccess";
+import {
+  ProjectSection,
+  SectionVersions,
+  VersionConflict,
+  describeConflict,
+  sectionVersion,
+  versionConflicts,
+} from "@/lib/projectVersions";
 import { Scene } from "@/types/analysis";
+import { prepareFrameUpload } from "@/utils/storyboardFrameImages";
 import { requestNotificationPermission, notifyAnalysisComplete } from "@/utils/notifications";
 import { logger } from "@/utils/logger";
 
@@ -14,8 +34,22 @@ interface Project {
   current_scene: number;
   status: string;
   visual_style?: string | null;
-  characters?: Array<{ name: string; physical: string }>;
+  characters?: CharacterRecord[];
+  locations?: ShootingLocation[];
   visual_profile?: VisualProfile | null;
+  schedule?: ShootingSchedule | null;
+  budget?: ProjectBudget | null;
+  scriptRevisions?: ScriptRevisionRecord[];
+  sceneNumbersLocked?: boolean;
+  omittedScenes?: OmittedScene[];
+  storySpine?: StorySpine | null;
+  storyboardFrames?: StoryboardFrame[];
+  shotNotes?: ShotNotes;
+  /** The signed-in user's role on the project */
+  role?: ProjectRole;
+  ownerId?: string | null;
+  collaborators?: ProjectCollaborator[];
+  versions?: SectionVersions;
 }
 
 export function useProjectData(id: string | undefined) {
@@ -24,9 +58,10 @@ export function useProjectData(id: string | undefined) {
 
   const [editingVisualStyle, setEditingVisualStyle] = useState(false);
   const [editingCharacters, setEditingCharacters] = useState(false);
-  const [tempCharacters, setTempCharacters] = useState<Array<{ name: string; physical: string }>>([]);
+  const [tempCharacters, setTempCharacters] = useState<StoredCharacter[]>([]);
   const [tempVisualStyle, setTempVisualStyle] = useState("");
   const [isSavingVisualProfile, setIsSavingVisualProfile] = useState(false);
+  const [isBuildingStorySpine, setIsBuildingStorySpine] = useState(false);
   const [hasRequestedNotifications, setHasRequestedNotifications] = useState(false);
 
   const { data: projectData, isLoading, error } = useQuery({
@@ -83,15 +118,37 @@ export function useProjectData(id: string | undefined) {
     }
   }, [project?.status, project?.title, project?.id]);
 
-  const handleSaveVisualStyle = async () => {
+  // Saves send the version they were based on; the cache moves on to the
+  // version each save returns so the next one is based on it
+  const baseVersionOf = (section: ProjectSection) => sectionVersion(project?.versions, section);
+
+  // A 409 means someone else saved the same section first. Their change is
+  // loaded, and "Save anyway" re-sends ours based on it, overwriting theirs
+  const toastConflict = (error: unknown, saveAnyway: (version: number) => void): boolean => {
+    const conflict = versionConflicts(error)?.find((c): c is Extract<VersionConflict, { scope: 'section' }> => c.scope === 'section');
+    if (!conflict) return false;
+    queryClient.invalidateQueries({ queryKey: ['project', id] });
+    toast({
+      title: "Not saved",
+      description: `${describeConflict(conflict)}. Their version has been loaded.`,
+      variant: "destructive",
+      action: saveAnywayAction(() => saveAnyway(conflict.version)),
+    });
+    return true;
+  };
+
+  // The project doesn't refetch while the style is being edited, so the
+  // cached version is the one the edit started from
+  const handleSaveVisualStyle = async (baseVersion = baseVersionOf('style')) => {
     if (!project) {
       setEditingVisualStyle(false);
       return;
     }
     try {
-      await api.post('/api/projects/update-style', {
+      const result = await api.post('/api/projects/update-style', {
         projectId: id,
-        visualStyle: tempVisualStyle.trim() || null
+        visualStyle: tempVisualStyle.trim() || null,
+        baseVersion
       }, {
         context: 'Updating visual style',
         timeoutMs: 15000,
@@ -100,7 +157,11 @@ export function useProjectData(id: string | undefined) {
 
       queryClient.setQueryData(['project', id], (oldData: any) => ({
         ...oldData,
-        project: { ...oldData.project, visual_style: tempVisualStyle.trim() || null }
+        project: {
+          ...oldData.project,
+          visual_style: tempVisualStyle.trim() || null,
+          versions: { ...oldData.project.versions, style: result.version }
+        }
       }));
       setEditingVisualStyle(false);
 
@@ -114,6 +175,7 @@ export function useProjectData(id: string | undefined) {
       });
     } catch (error: any) {
       logger.error('Error updating visual style:', error);
+      if (toastConflict(error, version => handleSaveVisualStyle(version))) return;
       const errorMsg = (error as ApiError).userMessage || error.message || 'Failed to update';
       toast({
         title: "Update failed",
@@ -123,15 +185,18 @@ export function useProjectData(id: string | undefined) {
     }
   };
 
-  const handleSaveCharacters = async () => {
+  // Saves the registry passed in (merge/split UI) or the legacy edit buffer
+  const handleSaveCharacters = async (characters?: StoredCharacter[], baseVersion = baseVersionOf('characters')) => {
     if (!project) {
       setEditingCharacters(false);
       return;
     }
+    const toSave = (characters || tempCharacters).filter(c => c.name.trim());
     try {
-      await api.post("/api/projects/update-characters", {
+      const result = await api.post("/api/projects/update-characters", {
         projectId: id,
-        characters: tempCharacters.filter(c => c.name.trim())
+        characters: toSave,
+        baseVersion
       }, {
         context: 'Updating characters',
         timeoutMs: 15000,
@@ -140,18 +205,23 @@ export function useProjectData(id: string | undefined) {
 
       queryClient.setQueryData(["project", id], (oldData: any) => ({
         ...oldData,
-        project: { ...oldData.project, characters: tempCharacters.filter(c => c.name.trim()) }
+        project: {
+          ...oldData.project,
+          characters: result.characters || oldData.project.characters,
+          versions: { ...oldData.project.versions, characters: result.version }
+        }
       }));
       setEditingCharacters(false);
       setTimeout(() => {
         queryClient.invalidateQueries({ queryKey: ["project", id] });
       }, 100);
       toast({
-        title: "Characters updated",
-        description: "These descriptions will be used in all scene analyses",
+        title: "Cast updated",
+        description: "Scene analyses and reports will resolve names against this cast list",
       });
     } catch (error: any) {
       logger.error("Error updating characters:", error);
+      if (toastConflict(error, version => handleSaveCharacters(toSave, version))) return;
       const errorMsg = (error as ApiError).userMessage || error.message || 'Failed to update';
       toast({
         title: "Update failed",
@@ -161,14 +231,164 @@ export function useProjectData(id: string | undefined) {
     }
   };
 
-  const handleSaveVisualProfile = async (profile: VisualProfile) => {
+  const handleSaveLocations = async (locations: ShootingLocation[], baseVersion = baseVersionOf('locations')) => {
+    if (!project || !id) return;
+
+    try {
+      const result = await api.post('/api/projects/update-locations', {
+        projectId: id,
+        locations,
+        baseVersion
+      }, {
+        context: 'Saving locations',
+        timeoutMs: 15000,
+        maxRetries: 2
+      });
+
+      queryClient.setQueryData(['project', id], (oldData: { project: Project; scenes: Scene[] }) => ({
+        ...oldData,
+        project: {
+          ...oldData.project,
+          locations: result.locations ?? locations,
+          versions: { ...oldData.project.versions, locations: result.version }
+        }
+      }));
+
+      toast({
+        title: "Locations saved",
+        description: "The stripboard, budget and breakdown now group scenes by shooting location",
+      });
+    } catch (error) {
+      logger.error('Error saving locations:', error);
+      if (toastConflict(error, version => handleSaveLocations(locations, version))) return;
+      const errorMsg = (error as ApiError).userMessage || (error as Error).message || 'Failed to save';
+      toast({
+        title: "Save failed",
+        description: errorMsg,
+        variant: "destructive"
+      });
+    }
+  };
+
+  const handleUploadFrame = async (sceneNumber: number, shotKey: string, file: File): Promise<StoryboardFrame | null> => {
+    if (!project || !id) return null;
+
+    try {
+      const prepared = await prepareFrameUpload(file);
+      const result = await api.post<{ frame: StoryboardFrame }>('/api/projects/upload-frame', {
+        projectId: id,
+        sceneNumber,
+        shotKey,
+        ...prepared
+      }, {
+        context: 'Uploading frame',
+        timeoutMs: 60000,
+        maxRetries: 1
+      });
+
+      // One frame per shot: the upload replaces whatever was attached before
+      queryClient.setQueryData(['project', id], (oldData: { project: Project; scenes: Scene[] }) => ({
+        ...oldData,
+        project: {
+          ...oldData.project,
+          storyboardFrames: [
+            ...(oldData.project.storyboardFrames || []).filter(f => !isFrameForShot(f, sceneNumber, shotKey)),
+            result.frame
+          ]
+        }
+      }));
+      return result.frame;
+    } catch (error) {
+      logger.error('Error uploading frame:', error);
+      const errorMsg = (error as ApiError).userMessage || (error as Error).message || 'Failed to upload';
+      toast({
+        title: "Upload failed",
+        description: errorMsg,
+        variant: "destructive"
+      });
+      return null;
+    }
+  };
+
+  const handleRemoveFrame = async (frameId: string): Promise<boolean> => {
+    if (!project || !id) return false;
+
+    try {
+      await api.post('/api/projects/delete-frame', {
+        projectId: id,
+        frameId
+      }, {
+        context: 'Removing frame',
+        timeoutMs: 15000,
+        maxRetries: 2
+      });
+
+      queryClient.setQueryData(['project', id], (oldData: { project: Project; scenes: Scene[] }) => ({
+        ...oldData,
+        project: {
+          ...oldData.project,
+          storyboardFrames: (oldData.project.storyboardFrames || []).filter(f => f.id !== frameId)
+        }
+      }));
+      return true;
+    } catch (error) {
+      logger.error('Error removing frame:', error);
+      const errorMsg = (error as ApiError).userMessage || (error as Error).message || 'Failed to remove';
+      toast({
+        title: "Remove failed",
+        description: errorMsg,
+        variant: "destructive"
+      });
+      return false;
+    }
+  };
+
+  const handleSaveShotNote = async (shotId: string, note: string): Promise<boolean> => {
+    if (!project || !id) return false;
+
+    try {
+      const result = await api.post('/api/projects/update-shot-note', {
+        projectId: id,
+        shotId,
+        note
+      }, {
+        context: 'Saving shot note',
+        timeoutMs: 15000,
+        maxRetries: 2
+      });
+
+      queryClient.setQueryData(['project', id], (oldData: { project: Project; scenes: Scene[] }) => {
+        const { [shotId]: _previous, ...shotNotes } = oldData.project.shotNotes || {};
+        return {
+          ...oldData,
+          project: {
+            ...oldData.project,
+            shotNotes: result.note ? { ...shotNotes, [shotId]: result.note } : shotNotes
+          }
+        };
+      });
+      return true;
+    } catch (error) {
+      logger.error('Error saving shot note:', error);
+      const errorMsg = (error as ApiError).userMessage || (error as Error).message || 'Failed to save';
+      toast({
+        title: "Save failed",
+        description: errorMsg,
+        variant: "destructive"
+      });
+      return false;
+    }
+  };
+
+  const handleSaveVisualProfile = async (profile: VisualProfile, baseVersion = baseVersionOf('visualProfile')) => {
     if (!project || !id) return;
 
     setIsSavingVisualProfile(true);
     try {
-      await api.post('/api/visual-profile', {
+      const result = await api.post('/api/visual-profile', {
         projectId: id,
-        visualProfile: profile
+        visualProfile: profile,
+        baseVersion
       }, {
         context: 'Saving Visual Profile',
         timeoutMs: 15000,
@@ -177,7 +397,11 @@ export function useProjectData(id: string | undefined) {
 
       queryClient.setQueryData(['project', id], (oldData: any) => ({
         ...oldData,
-        project: { ...oldData.project, visual_profile: profile }
+        project: {
+          ...oldData.project,
+          visual_profile: profile,
+          versions: { ...oldData.project.versions, visualProfile: result.version }
+        }
       }));
 
       queryClient.invalidateQueries({ queryKey: ['project', id] });
@@ -188,6 +412,7 @@ export function useProjectData(id: string | undefined) {
       });
     } catch (error: any) {
       logger.error('Error saving Visual Profile:', error);
+      if (toastConflict(error, version => handleSaveVisualProfile(profile, version))) return;
       const errorMsg = (error as ApiError).userMessage || error.message || 'Failed to save';
       toast({
         title: "Save failed",
@@ -199,6 +424,151 @@ export function useProjectData(id: string | undefined) {
     }
   };
 
+  const handleSaveSchedule = async (schedule: ShootingSchedule | null, baseVersion = baseVersionOf('schedule')) => {
+    if (!project || !id) return;
+
+    try {
+      const result = await api.post('/api/projects/update-schedule', {
+        projectId: id,
+        schedule,
+        baseVersion
+      }, {
+        context: 'Saving schedule',
+        timeoutMs: 15000,
+        maxRetries: 2
+      });
+
+      queryClient.setQueryData(['project', id], (oldData: { project: Project; scenes: Scene[] }) => ({
+        ...oldData,
+        project: {
+          ...oldData.project,
+          schedule: result.schedule ?? schedule,
+          versions: { ...oldData.project.versions, schedule: result.version }
+        }
+      }));
+
+      toast({
+        title: schedule ? "Schedule saved" : "Schedule cleared",
+        description: schedule ? `${schedule.days.length} shoot days saved to the project` : "The stripboard has been reset",
+      });
+    } catch (error) {
+      logger.error('Error saving schedule:', error);
+      if (toastConflict(error, version => handleSaveSchedule(schedule, version))) return;
+      const errorMsg = (error as ApiError).userMessage || (error as Error).message || 'Failed to save';
+      toast({
+        title: "Save failed",
+        description: errorMsg,
+        variant: "destructive"
+      });
+    }
+  };
+
+  const handleSaveRateCard = async (rateCard: RateCard | null, baseVersion = baseVersionOf('budget')) => {
+    if (!project || !id) return;
+
+    try {
+      const result = await api.post('/api/projects/update-budget', {
+        projectId: id,
+        rateCard,
+        baseVersion
+      }, {
+        context: 'Saving rate card',
+        timeoutMs: 15000,
+        maxRetries: 2
+      });
+
+      queryClient.setQueryData(['project', id], (oldData: { project: Project; scenes: Scene[] }) => ({
+        ...oldData,
+        project: {
+          ...oldData.project,
+          budget: result.budget ?? null,
+          versions: { ...oldData.project.versions, budget: result.version }
+        }
+      }));
+
+      toast({
+        title: rateCard ? "Rate card saved" : "Rate card reset",
+        description: rateCard ? "The budget estimate uses your rates" : "The budget estimate is back on the default rates",
+      });
+    } catch (error) {
+      logger.error('Error saving rate card:', error);
+      if (toastConflict(error, version => handleSaveRateCard(rateCard, version))) return;
+      const errorMsg = (error as ApiError).userMessage || (error as Error).message || 'Failed to save';
+      toast({
+        title: "Save failed",
+        description: errorMsg,
+        variant: "destructive"
+      });
+    }
+  };
+
+  const handleSetNumbersLocked = async (locked: boolean, baseVersion = baseVersionOf('numbering')) => {
+    if (!project || !id) return;
+
+    try {
+      await api.post('/api/projects/update-numbering', {
+        projectId: id,
+        locked,
+        baseVersion
+      }, {
+        context: locked ? 'Locking scene numbers' : 'Unlocking scene numbers',
+        timeoutMs: 15000,
+        maxRetries: 2
+      });
+
+      await queryClient.invalidateQueries({ queryKey: ['project', id] });
+
+      toast({
+        title: locked ? "Scene numbers locked" : "Scene numbers unlocked",
+        description: locked
+          ? "New scenes will be numbered as inserts (12A, 12B) and cut scenes kept as OMITTED"
+          : "Scene numbers will follow the next imported draft",
+      });
+    } catch (error) {
+      logger.error('Error updating scene numbering:', error);
+      if (toastConflict(error, version => handleSetNumbersLocked(locked, version))) return;
+      const errorMsg = (error as ApiError).userMessage || (error as Error).message || 'Failed to update';
+      toast({
+        title: "Update failed",
+        description: errorMsg,
+        variant: "destructive"
+      });
+    }
+  };
+
+  const handleBuildStorySpine = async () => {
+    if (!project || !id) return;
+
+    setIsBuildingStorySpine(true);
+    try {
+      const result = await api.post('/api/story-spine', { projectId: id }, {
+        context: 'Building story spine',
+        timeoutMs: 560000,
+        maxRetries: 0
+      });
+
+      queryClient.setQueryData(['project', id], (oldData: { project: Project; scenes: Scene[] }) => ({
+        ...oldData,
+        project: { ...oldData.project, storySpine: result.storySpine }
+      }));
+
+      toast({
+        title: "Story spine built",
+        description: "Scenes analyzed from now on will see the whole script's arcs, setups and payoffs",
+      });
+    } catch (error) {
+      logger.error('Error building story spine:', error);
+      const errorMsg = (error as ApiError).userMessage || (error as Error).message || 'Failed to build';
+      toast({
+        title: "Story spine failed",
+        description: errorMsg,
+        variant: "destructive"
+      });
+    } finally {
+      setIsBuildingStorySpine(false);
+    }
+  };
+
   const handleDeleteProject = async (navigate: (path: string) => void) => {
     if (!id) return;
     const confirmed = window.confirm(
@@ -245,9 +615,24 @@ export function useProjectData(id: string | undefined) {
     tempCharacters,
     setTempCharacters,
     handleSaveCharacters,
+    // Locations
+    handleSaveLocations,
+    // Storyboard frames
+    handleUploadFrame,
+    handleRemoveFrame,
+    handleSaveShotNote,
     // Visual profile
     isSavingVisualProfile,
     handleSaveVisualProfile,
+    // Schedule
+    handleSaveSchedule,
+    // Budget
+    handleSaveRateCard,
+    // Scene numbering
+    handleSetNumbersLocked,
+    // Story spine
+    isBuildingStorySpine,
+    handleBuildStorySpine,
     // Project actions
     handleDeleteProject,
   };
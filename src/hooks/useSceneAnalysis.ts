@@ -2,19 +2,29 @@ import { useState, useEffect, createElement } from "react";
 import { useQueryClient } from "@tanstack/react-query";
 import { useToast } from "@/hooks/use-toast";
 import { ToastAction } from "@/components/ui/toast";
+import { saveAnywayAction } from "@/components/SaveAnywayAction";
 import { useUser } from "@clerk/clerk-react";
 import { useNavigate } from "react-router-dom";
-import { api, ApiError } from "@/utils/apiClient";
-import { AnalysisData, Scene, ShotListItem, parseAnalysis} from "@/types/analysis";
+import { api, ApiError, streamEvents } from "@/utils/apiClient";
+import { AnalysisBatchProgress, AnalysisData, AnalysisStreamEvent, LiveSceneAnalysis, Scene, ShotListItem, parseAnalysis} from "@/types/analysis";
 import { VisualProfile } from "@/types/visualProfile";
+import { CharacterRecord } from "@/lib/characterRegistry";
+import { VersionConflict, describeConflict, sceneVersion, versionConflicts } from "@/lib/projectVersions";
 import { logger } from "@/utils/logger";
 
+type AnalysisTarget = Pick<Scene, 'scene_number' | 'content' | 'storyLogicContext'>;
+
+const BATCH_POLL_MS = 5000;
+
+const isBatchActive = (batch: AnalysisBatchProgress | null) =>
+  batch?.status === 'RUNNING' || batch?.status === 'PAUSED';
+
 interface UseSceneAnalysisProps {
   id: string | undefined;
   scenes: Scene[];
   projectVisualStyle?: string | null;
   projectVisualProfile?: VisualProfile | null;
-  projectCharacters?: Array<{ name: string; physical: string }>;
+  projectCharacters?: CharacterRecord[];
   totalScenes?: number;
 }
 
@@ -33,6 +43,8 @@ export function useSceneAnalysis({
 
   const [selectedSceneId, setSelectedSceneId] = useState<string | null>(null);
   const [reanalyzing, setReanalyzing] = useState(false);
+  const [batch, setBatch] = useState<AnalysisBatchProgress | null>(null);
+  const [liveAnalysis, setLiveAnalysis] = useState<LiveSceneAnalysis | null>(null);
   const [showRetryDialog, setShowRetryDialog] = useState(false);
   const [retrySceneData, setRetrySceneData] = useState<{ id: string; number: number; content: string } | null>(null);
 
@@ -48,6 +60,9 @@ export function useSceneAnalysis({
   const [isEditMode, setIsEditMode] = useState(false);
   const [editedScenes, setEditedScenes] = useState<Record<string, AnalysisData>>({});
   const [isSaving, setIsSaving] = useState(false);
+  // The version each edited scene was at when its editing began, sent with
+  // the save so it can't land over someone else's (src/lib/projectVersions.ts)
+  const [baseVersions, setBaseVersions] = useState<Record<string, number>>({});
 
   // Select first scene when scenes load
   useEffect(() => {
@@ -73,81 +88,182 @@ export function useSceneAnalysis({
 
   // ─── Analysis handlers ───
 
-  const handleRegenerateAll = async () => {
-    console.log('[handleRegenerateAll] Called with id:', id, 'scenes.length:', scenes.length);
-    if (!id || scenes.length === 0) {
-      console.log('[handleRegenerateAll] BLOCKED - no id or empty scenes');
-      return;
-    }
-
-    const confirmed = window.confirm(
-      `This will regenerate analysis for all ${scenes.length} scenes with image prompts and your visual style. This may take several minutes. Continue?`
-    );
-    if (!confirmed) {
-      console.log('[handleRegenerateAll] User cancelled confirm dialog');
-      return;
-    }
-
-    console.log('[handleRegenerateAll] Starting analysis loop...');
-    setReanalyzing(true);
-    let successCount = 0;
-    let errorCount = 0;
+  // Pick up a batch still running on the server (page reload, another tab)
+  useEffect(() => {
+    if (!id) return;
+    let cancelled = false;
+    api.get(`/api/analyze-scene-status?projectId=${id}`, {
+      context: 'Checking for analysis in progress',
+      timeoutMs: 10000,
+      maxRetries: 1
+    })
+      .then(response => {
+        if (!cancelled && isBatchActive(response.batch)) setBatch(response.batch);
+      })
+      .catch(error => logger.error('[useSceneAnalysis] Batch lookup failed:', error));
+    return () => { cancelled = true; };
+  }, [id]);
+
+  // Poll the active batch; every newly finished scene refreshes the project
+  useEffect(() => {
+    if (!batch || !isBatchActive(batch)) return;
+    const timer = setTimeout(async () => {
+      try {
+        const response = await api.get(`/api/analyze-scene-status?batchId=${batch.batchId}`, {
+          context: 'Checking analysis progress',
+          timeoutMs: 10000,
+          maxRetries: 1
+        });
+        const next: AnalysisBatchProgress = response.batch;
+        const finished = (b: AnalysisBatchProgress) => b.counts.completed + b.counts.error;
+        if (finished(next) !== finished(batch) || !isBatchActive(next)) {
+          await queryClient.invalidateQueries({ queryKey: ['project', id] });
+        }
+        if (!isBatchActive(next)) {
+          toast({
+            title: next.status === 'CANCELLED' ? "Batch analysis cancelled" : "Batch analysis complete",
+            description: `${next.counts.completed} scenes updated successfully${next.counts.error > 0 ? `, ${next.counts.error} failed` : ''}${next.creditsRefunded > 0 ? `. ${next.creditsRefunded} credit${next.creditsRefunded !== 1 ? 's' : ''} refunded` : ''}`,
+          });
+          setBatch(null);
+          return;
+        }
+        setBatch(next);
+      } catch (error) {
+        logger.error('[useSceneAnalysis] Batch poll failed:', error);
+        // Re-arm the timer and try again
+        setBatch(prev => (prev ? { ...prev } : prev));
+      }
+    }, BATCH_POLL_MS);
+    return () => clearTimeout(timer);
+  }, [batch, id, queryClient, toast]);
+
+  // Queue scenes on the server; shared by Regenerate All and the selective
+  // re-analysis offered after a script revision import
+  // Without scene numbers the server queues every scene not yet analyzed
+  const startBatchAnalysis = async (sceneNumbers: number[] | undefined, title: string) => {
+    try {
+      const response = await api.post('/api/analyze-batch', {
+        projectId: id,
+        sceneNumbers
+      }, {
+        context: 'Queueing scenes for analysis',
+        timeoutMs: 30000,
+        maxRetries: 0
+      });
+      const total = response.sceneNumbers?.length ?? sceneNumbers?.length ?? 0;
+      setBatch({
+        batchId: response.batchId,
+        status: 'RUNNING',
+        total,
+        counts: { pending: total, processing: 0, completed: 0, error: 0, cancelled: 0 },
+        scenes: [],
+        creditsReserved: response.creditsReserved || 0,
+        creditsRefunded: 0,
+      });
+      toast({
+        title,
+        description: `${total} scene${total !== 1 ? 's' : ''} queued. Analysis continues on the server if you leave this page.`,
+      });
+    } catch (error: any) {
+      logger.error('[startBatchAnalysis] Error:', error);
 
-    toast({
-      title: "Regenerating all scenes",
-      description: `Processing ${scenes.length} scenes. Each scene may take up to 2 minutes...`,
-    });
+      if ((error as ApiError).status === 409) {
+        toast({ title: "Analysis already in progress", description: "Wait for the current batch to finish or cancel it first." });
+        return;
+      }
 
-    for (const scene of scenes) {
+      const isCreditsError = error.status === 402 || error.code === 'INSUFFICIENT_CREDITS';
       toast({
-        title: `Analyzing scene ${scene.scene_number}`,
-        description: "This may take 1-2 minutes for complex scenes...",
+        title: isCreditsError ? "Not enough credits" : "Could not start analysis",
+        description: (error as ApiError).userMessage || (error as Error).message,
+        variant: "destructive",
       });
+    }
+  };
 
-      try {
-        const analysisResult = await api.post('/api/analyze-scene', {
-          userId: user?.id,
-          sceneText: scene.content,
-          sceneNumber: scene.scene_number,
-          totalScenes: scenes.length,
-          visualStyle: projectVisualStyle || null,
-          visualProfile: projectVisualProfile || null,
-          characters: projectCharacters || [],
-          storyLogicContext: scene.storyLogicContext || undefined
-        }, {
-          context: `Regenerating scene ${scene.scene_number}`,
-          timeoutMs: 150000,
-          maxRetries: 1
-        });
-
-        await api.post('/api/projects/update-scene-analysis', {
-          projectId: id,
-          sceneNumber: scene.scene_number,
-          analysis: analysisResult.analysis || analysisResult
-        }, {
-          context: `Saving scene ${scene.scene_number}`,
-          timeoutMs: 30000,
-          maxRetries: 2
-        });
+  const handleAnalyzePending = async () => {
+    if (!id) return;
+    await startBatchAnalysis(undefined, "Analyzing remaining scenes");
+  };
 
-        successCount++;
+  const handleBatchAction = async (action: 'pause' | 'resume' | 'cancel') => {
+    if (!batch) return;
+    try {
+      const response = await api.post('/api/analyze-batch-control', {
+        batchId: batch.batchId,
+        action
+      }, {
+        context: `Batch ${action}`,
+        timeoutMs: 15000,
+        maxRetries: 1
+      });
+      setBatch(prev => (prev ? { ...prev, status: response.status } : prev));
+      if (action === 'cancel') {
+        await queryClient.invalidateQueries({ queryKey: ['project', id] });
         toast({
-          title: `Scene ${scene.scene_number} complete`,
-          description: `${successCount} of ${scenes.length} scenes regenerated`,
+          title: "Batch analysis cancelled",
+          description: `Scenes already in progress will finish${response.creditsRefunded > 0 ? `. ${response.creditsRefunded} credit${response.creditsRefunded !== 1 ? 's' : ''} refunded` : ''}`,
         });
-      } catch (error: any) {
-        logger.error(`Failed to regenerate scene ${scene.scene_number}:`, error);
-        errorCount++;
+        setBatch(null);
       }
+    } catch (error) {
+      toast({
+        title: `Could not ${action} analysis`,
+        description: (error as ApiError).userMessage || (error as Error).message,
+        variant: "destructive"
+      });
     }
+  };
 
-    await queryClient.invalidateQueries({ queryKey: ['project', id] });
-    setReanalyzing(false);
+  const handleRegenerateAll = async () => {
+    if (!id || scenes.length === 0) return;
 
-    toast({
-      title: "Bulk regeneration complete",
-      description: `${successCount} scenes updated successfully${errorCount > 0 ? `, ${errorCount} failed` : ''}`,
-    });
+    const confirmed = window.confirm(
+      `This will regenerate analysis for all ${scenes.length} scenes with image prompts and your visual style, using ${scenes.length} credits. Scenes are analyzed on the server and you can pause or cancel at any time. Continue?`
+    );
+    if (!confirmed) return;
+
+    await startBatchAnalysis(scenes.map(s => s.scene_number), "Regenerating all scenes");
+  };
+
+  // Re-analyze only the scenes a script revision changed or added
+  const handleReanalyzeScenes = async (targets: AnalysisTarget[]) => {
+    if (!id || targets.length === 0) return;
+    await startBatchAnalysis(targets.map(t => t.scene_number), "Re-analyzing revised scenes");
+  };
+
+  /**
+   * Follow a background analysis on the SSE stream, mirroring each phase and
+   * finished section into liveAnalysis. Returns the final result, or null when
+   * the stream dropped before the end (the caller falls back to polling).
+   */
+  const followAnalysisStream = async (jobId: string, sceneNumber: number) => {
+    const outcome: { result?: Extract<AnalysisStreamEvent, { type: 'complete' }>['result']; error?: string } = {};
+    setLiveAnalysis({ sceneNumber, phase: 'story', message: 'Starting story analysis...', analysis: {} });
+
+    try {
+      await streamEvents<AnalysisStreamEvent>(`/api/analyze-scene-stream?jobId=${jobId}`, (event) => {
+        switch (event.type) {
+          case 'phase':
+            setLiveAnalysis(live => live && { ...live, phase: event.phase, message: event.message });
+            break;
+          case 'partial':
+            setLiveAnalysis(live => live && { ...live, analysis: { ...live.analysis, ...event.analysis }, usage: event.usage });
+            break;
+          case 'complete':
+            outcome.result = event.result;
+            break;
+          case 'error':
+            outcome.error = event.error;
+            break;
+        }
+      }, { context: `Following analysis for scene ${sceneNumber}` });
+    } catch (streamError) {
+      logger.warn('[handleReanalyzeScene] Progress stream unavailable, falling back to polling:', streamError);
+    }
+
+    if (outcome.error) throw new Error(outcome.error);
+    return outcome.result || null;
   };
 
   const handleReanalyzeScene = async (_sceneId: string, sceneNumber: number, sceneContent: string, customInstructions?: string) => {
@@ -181,6 +297,7 @@ export function useSceneAnalysis({
       // Start analysis (backend will process and track progress via jobId)
       const startResponse = await api.post("/api/analyze-scene", {
         userId: user.id,
+        projectId: id,
         sceneText: sceneContent,
         sceneNumber: sceneNumber,
         totalScenes: totalScenes || 1,
@@ -190,6 +307,7 @@ export function useSceneAnalysis({
         customInstructions: customInstructions || undefined,
         storyLogicContext: sceneData?.storyLogicContext || undefined,
         isRetry,
+        background: true,
       }, {
         context: `Starting analysis for scene ${sceneNumber}`,
         timeoutMs: 350000, // 5m50s - longer than backend to avoid premature timeout
@@ -199,12 +317,12 @@ export function useSceneAnalysis({
       const jobId = startResponse.jobId;
       console.log('[handleReanalyzeScene] Got jobId:', jobId);
 
-      // If we got the result directly (backend completed synchronously), use it
-      if (startResponse.analysis) {
+      const saveAnalysis = async (analysis: AnalysisData, model?: unknown) => {
         await api.post("/api/projects/update-scene-analysis", {
           projectId: id,
           sceneNumber: sceneNumber,
-          analysis: startResponse.analysis
+          analysis,
+          model
         }, {
           context: `Saving scene ${sceneNumber} analysis`,
           timeoutMs: 30000,
@@ -217,10 +335,24 @@ export function useSceneAnalysis({
           title: "Analysis complete!",
           description: `Scene ${sceneNumber} has been analyzed`
         });
+      };
+
+      // If we got the result directly (backend completed synchronously), use it
+      if (startResponse.analysis) {
+        await saveAnalysis(startResponse.analysis, startResponse.meta?.model);
         return;
       }
 
-      // Poll for status updates if we only got a jobId
+      // Follow the analysis live; the stream ends with the result
+      if (jobId) {
+        const streamed = await followAnalysisStream(jobId, sceneNumber);
+        if (streamed) {
+          await saveAnalysis(streamed.analysis, streamed.meta?.model);
+          return;
+        }
+      }
+
+      // Poll for status updates if the stream wasn't available
       if (jobId) {
         console.log('[handleReanalyzeScene] Polling for status updates...');
         let attempts = 0;
@@ -259,23 +391,7 @@ export function useSceneAnalysis({
             if (statusResponse.status === 'COMPLETED' && statusResponse.result) {
               // Analysis complete! Save it
               console.log('[handleReanalyzeScene] Analysis completed, saving result');
-              
-              await api.post("/api/projects/update-scene-analysis", {
-                projectId: id,
-                sceneNumber: sceneNumber,
-                analysis: statusResponse.result.analysis
-              }, {
-                context: `Saving scene ${sceneNumber} analysis`,
-                timeoutMs: 30000,
-                maxRetries: 2
-              });
-
-              await queryClient.invalidateQueries({ queryKey: ["project", id] });
-
-              toast({
-                title: "Analysis complete!",
-                description: `Scene ${sceneNumber} has been analyzed`
-              });
+              await saveAnalysis(statusResponse.result.analysis, statusResponse.result.meta?.model);
               return;
             } else if (statusResponse.status === 'ERROR') {
               throw new Error(statusResponse.error || 'Analysis failed');
@@ -345,6 +461,7 @@ export function useSceneAnalysis({
       });
     } finally {
       setReanalyzing(false);
+      setLiveAnalysis(null);
     }
   };
 
@@ -360,10 +477,81 @@ export function useSceneAnalysis({
     setRetrySceneData(null);
   };
 
+  // ─── Saving edits ───
+
+  const recordBaseVersion = (scene: Scene) => {
+    setBaseVersions(prev => (scene.id in prev ? prev : { ...prev, [scene.id]: sceneVersion(scene) }));
+  };
+
+  // Returns false when nothing was saved because of a conflict (already toasted)
+  const postSceneEdits = async (
+    sceneUpdates: Record<string, AnalysisData>,
+    context: string,
+    versionsOverride?: Record<string, number>
+  ): Promise<boolean> => {
+    const sceneVersions = Object.fromEntries(Object.keys(sceneUpdates).map(key => [
+      key,
+      versionsOverride?.[key] ?? baseVersions[key] ?? sceneVersion(scenes.find(s => s.id === key)),
+    ]));
+    try {
+      const result = await api.post('/api/projects/save-scene', {
+        projectId: id,
+        sceneUpdates,
+        sceneVersions
+      }, {
+        context,
+        timeoutMs: 30000,
+        maxRetries: 2
+      });
+      // Further edits to these scenes build on what was just saved
+      const saved: Record<number, number> = result.versions || {};
+      setBaseVersions(prev => {
+        const next = { ...prev };
+        for (const key of Object.keys(sceneUpdates)) {
+          const number = scenes.find(s => s.id === key)?.scene_number;
+          if (number !== undefined && typeof saved[number] === 'number') next[key] = saved[number];
+        }
+        return next;
+      });
+      return true;
+    } catch (error) {
+      const conflicts = versionConflicts(error);
+      if (!conflicts) throw error;
+      toastSceneConflict(conflicts, sceneUpdates, context);
+      return false;
+    }
+  };
+
+  // Someone else saved one of these scenes first. Their version is loaded for
+  // reference; "Save anyway" re-sends these edits over it
+  const toastSceneConflict = (conflicts: VersionConflict[], sceneUpdates: Record<string, AnalysisData>, context: string) => {
+    queryClient.invalidateQueries({ queryKey: ['project', id] });
+    const current = Object.fromEntries(conflicts
+      .filter((c): c is Extract<VersionConflict, { scope: 'scene' }> => c.scope === 'scene')
+      .map(c => [`scene-${c.sceneNumber}`, c.version]));
+    toast({
+      title: "Not saved",
+      description: conflicts.length === 1
+        ? `${describeConflict(conflicts[0])}. Your edits are still here.`
+        : `${conflicts.length} scenes were changed by someone else since you started editing. Your edits are still here.`,
+      variant: "destructive",
+      action: saveAnywayAction(async () => {
+        try {
+          if (await postSceneEdits(sceneUpdates, context, current)) {
+            toast({ title: "Changes saved", description: "Your edits replaced the other changes" });
+          }
+        } catch (error) {
+          toast({ title: "Save failed", description: (error as ApiError).userMessage || (error as Error).message, variant: "destructive" });
+        }
+      }),
+    });
+  };
+
   // ─── Section editing ───
 
   const startEditingSection = (section: 'story' | 'directing' | 'producing') => {
-    if (!selectedAnalysis) return;
+    if (!selectedScene || !selectedAnalysis) return;
+    recordBaseVersion(selectedScene);
     if (section === 'story') {
       setEditedStoryData(structuredClone(selectedAnalysis.story_analysis));
       setEditingStory(true);
@@ -396,14 +584,7 @@ export function useSceneAnalysis({
         updated = { ...currentEdits, producing_logistics: editedProducingData };
       }
       const sceneUpdates = { [selectedScene.id]: updated };
-      await api.post('/api/projects/save-scene', {
-        projectId: id,
-        sceneUpdates
-      }, {
-        context: `Saving ${section} edits`,
-        timeoutMs: 30000,
-        maxRetries: 2
-      });
+      if (!(await postSceneEdits(sceneUpdates, `Saving ${section} edits`))) return;
       setEditedScenes({ ...editedScenes, [selectedScene.id]: updated });
       toast({ title: "Changes saved", description: `${section.charAt(0).toUpperCase() + section.slice(1)} analysis updated.` });
       cancelEditingSection(section);
@@ -431,12 +612,14 @@ export function useSceneAnalysis({
 
   const updateShotList = (newList: ShotListItem[]) => {
     if (!selectedScene || !selectedAnalysis) return;
+    recordBaseVersion(selectedScene);
     const currentEdits = editedScenes[selectedScene.id] || { ...selectedAnalysis };
     setEditedScenes({ ...editedScenes, [selectedScene.id]: { ...currentEdits, shot_list: newList } });
   };
 
-  const handleShotEdit = (shotIndex: number, field: keyof ShotListItem, value: string) => {
+  const handleShotEdit = <K extends keyof ShotListItem>(shotIndex: number, field: K, value: ShotListItem[K]) => {
     if (!selectedScene || !selectedAnalysis) return;
+    recordBaseVersion(selectedScene);
     const currentEdits = editedScenes[selectedScene.id] || { ...selectedAnalysis };
     const updatedShotList = [...(currentEdits.shot_list || [])];
     if (updatedShotList[shotIndex] && typeof updatedShotList[shotIndex] === "object") {
@@ -474,7 +657,8 @@ export function useSceneAnalysis({
 
   const handleDuplicateShot = (idx: number) => {
     const currentList = getEditableShotList();
-    const copy = { ...currentList[idx] };
+    // The copy is a new shot: it gets its own ID when the scene is saved
+    const { id: _id, ...copy } = currentList[idx];
     const newList = [...currentList];
     newList.splice(idx + 1, 0, copy);
     updateShotList(newList);
@@ -493,14 +677,7 @@ export function useSceneAnalysis({
     if (!id) return;
     setIsSaving(true);
     try {
-      await api.post('/api/projects/save-scene', {
-        projectId: id,
-        sceneUpdates: editedScenes
-      }, {
-        context: 'Saving scene edits',
-        timeoutMs: 30000,
-        maxRetries: 2
-      });
+      if (!(await postSceneEdits(editedScenes, 'Saving scene edits'))) return;
 
       toast({
         title: "Changes saved",
@@ -508,6 +685,7 @@ export function useSceneAnalysis({
       });
 
       setEditedScenes({});
+      setBaseVersions({});
       setIsEditMode(false);
       queryClient.invalidateQueries({ queryKey: ['project', id] });
     } catch (error: any) {
@@ -530,8 +708,15 @@ export function useSceneAnalysis({
     selectedScene,
     selectedAnalysis,
     // Analysis
-    reanalyzing,
+    reanalyzing: reanalyzing || isBatchActive(batch),
+    batch,
+    liveAnalysis,
+    handlePauseBatch: () => handleBatchAction('pause'),
+    handleResumeBatch: () => handleBatchAction('resume'),
+    handleCancelBatch: () => handleBatchAction('cancel'),
     handleRegenerateAll,
+    handleAnalyzePending,
+    handleReanalyzeScenes,
     handleReanalyzeScene,
     handleTryAgain,
     handleRetryWithInstructions,
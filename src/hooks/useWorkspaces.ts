@@ -0,0 +1,116 @@
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { useUser } from "@clerk/clerk-react";
+import { useToast } from "@/hooks/use-toast";
+import { api, ApiError } from "@/utils/apiClient";
+import type { Workspace, WorkspaceLedgerEntry, WorkspaceMemberRole } from "@/lib/workspaces";
+import { logger } from "@/utils/logger";
+
+type MemberRequest =
+  | { action: 'add'; email: string; role: WorkspaceMemberRole; monthlyLimit: number | null }
+  | { action: 'update'; userId: string; role?: WorkspaceMemberRole; monthlyLimit?: number | null }
+  | { action: 'remove'; userId: string };
+
+const errorMessage = (error: unknown, fallback: string) =>
+  (error as ApiError).userMessage || (error as Error).message || fallback;
+
+/**
+ * The workspaces the signed-in user belongs to, and the writes that manage
+ * them. Each write swaps in the workspace as saved.
+ */
+export function useWorkspaces() {
+  const { user } = useUser();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const queryKey = ['workspaces', user?.id];
+
+  const { data: workspaces = [], isLoading } = useQuery({
+    queryKey,
+    queryFn: async (): Promise<Workspace[]> => {
+      const result = await api.get('/api/workspaces/get-all', {
+        context: 'Loading workspaces',
+        timeoutMs: 30000,
+        maxRetries: 1
+      });
+      return result.workspaces || [];
+    },
+    enabled: !!user?.id,
+  });
+
+  // null when the user has left the workspace
+  const replace = (workspaceId: string, workspace: Workspace | null) =>
+    queryClient.setQueryData(queryKey, (oldData: Workspace[] = []) => {
+      if (!workspace) return oldData.filter(w => w.id !== workspaceId);
+      return oldData.some(w => w.id === workspaceId)
+        ? oldData.map(w => (w.id === workspaceId ? workspace : w))
+        : [...oldData, workspace];
+    });
+
+  const createWorkspace = async (name: string): Promise<Workspace | null> => {
+    try {
+      const result = await api.post<{ workspace: Workspace }>('/api/workspaces/create', { name }, {
+        context: 'Creating workspace',
+        timeoutMs: 15000,
+        maxRetries: 0
+      });
+      replace(result.workspace.id, result.workspace);
+      return result.workspace;
+    } catch (error) {
+      logger.error('Error creating workspace:', error);
+      toast({ title: "Workspace not created", description: errorMessage(error, 'Failed to create workspace'), variant: "destructive" });
+      return null;
+    }
+  };
+
+  const updateMembers = async (workspaceId: string, request: MemberRequest): Promise<boolean> => {
+    try {
+      const result = await api.post<{ workspace: Workspace | null }>('/api/workspaces/members', { workspaceId, ...request }, {
+        context: 'Updating workspace members',
+        timeoutMs: 15000,
+        maxRetries: 0
+      });
+      replace(workspaceId, result.workspace);
+      // Members gained or lost access to the workspace's projects
+      queryClient.invalidateQueries({ queryKey: ["projects"] });
+      return true;
+    } catch (error) {
+      logger.error('Error updating workspace members:', error);
+      toast({ title: "Members not updated", description: errorMessage(error, 'Failed to update members'), variant: "destructive" });
+      return false;
+    }
+  };
+
+  const moveProject = async (projectId: string, workspaceId: string | null): Promise<boolean> => {
+    try {
+      await api.post('/api/workspaces/move-project', { projectId, workspaceId }, {
+        context: 'Moving project',
+        timeoutMs: 15000,
+        maxRetries: 0
+      });
+      queryClient.invalidateQueries({ queryKey: ["projects"] });
+      return true;
+    } catch (error) {
+      logger.error('Error moving project:', error);
+      toast({ title: "Project not moved", description: errorMessage(error, 'Failed to move project'), variant: "destructive" });
+      return false;
+    }
+  };
+
+  return { workspaces, isLoading, createWorkspace, updateMembers, moveProject };
+}
+
+/** The workspace's ledger: every entry for admins, the user's own for members */
+export function useWorkspaceLedger(workspaceId: string | undefined) {
+  const { data: entries = [], isLoading } = useQuery({
+    queryKey: ['workspace-ledger', workspaceId],
+    queryFn: async (): Promise<WorkspaceLedgerEntry[]> => {
+      const result = await api.get(`/api/workspaces/ledger?workspaceId=${workspaceId}`, {
+        context: 'Loading workspace ledger',
+        timeoutMs: 30000,
+        maxRetries: 1
+      });
+      return result.entries || [];
+    },
+    enabled: !!workspaceId,
+  });
+  return { entries, isLoading };
+}
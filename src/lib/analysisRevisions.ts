@@ -0,0 +1,167 @@
+// ═══════════════════════════════════════════════════════════════
+// ANALYSIS REVISIONS
+// Every write to a scene's analysis appends an immutable revision.
+// Pure module shared by the API (recording) and the frontend (diffing),
+// so it must not import anything through the '@/' alias.
+// ═══════════════════════════════════════════════════════════════
+
+export type RevisionSource = 'ai' | 'manual' | 'restore';
+
+export interface AnalysisRevision {
+  id: string;
+  projectId: string;
+  sceneNumber: number;
+  /** 1-based, per scene */
+  revision: number;
+  /** Stored exactly as scene.analysis — a JSON string */
+  analysis: string;
+  source: RevisionSource;
+  model?: string;
+  createdBy: string;
+  createdAt: string;
+  /** Set on restores: the revision whose analysis was copied forward */
+  restoredFrom?: number;
+  /** Snapshot of an analysis that predates revision tracking */
+  baseline?: boolean;
+}
+
+export type ChangeKind = 'added' | 'removed' | 'changed';
+
+export interface FieldChange {
+  /** Dotted path, e.g. "story_analysis.the_turn" */
+  path: string;
+  kind: ChangeKind;
+  before?: string;
+  after?: string;
+}
+
+export interface ShotChange {
+  kind: ChangeKind | 'unchanged';
+  beforeIndex?: number;
+  afterIndex?: number;
+  before?: Record<string, unknown>;
+  after?: Record<string, unknown>;
+  /** Shot fields that differ, for 'changed' entries */
+  fields?: string[];
+}
+
+export interface AnalysisDiff {
+  fields: FieldChange[];
+  shots: ShotChange[];
+}
+
+type Json = unknown;
+
+const isPlainObject = (value: Json): value is Record<string, Json> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const display = (value: Json): string => {
+  if (typeof value === 'string') return value;
+  if (Array.isArray(value) && value.every(item => typeof item === 'string')) return value.join(', ');
+  return JSON.stringify(value);
+};
+
+export function parseRevisionAnalysis(analysis: string | Record<string, Json> | null | undefined): Record<string, Json> {
+  if (!analysis) return {};
+  if (typeof analysis !== 'string') return analysis;
+  try {
+    const parsed = JSON.parse(analysis);
+    return isPlainObject(parsed) ? parsed : {};
+  } catch {
+    return {};
+  }
+}
+
+// Objects are walked key by key; arrays and scalars compare as a whole,
+// which keeps list fields (cast, props) readable as one before/after pair
+function diffValues(before: Json, after: Json, path: string, out: FieldChange[]) {
+  if (isPlainObject(before) && isPlainObject(after)) {
+    const keys = Array.from(new Set([...Object.keys(before), ...Object.keys(after)])).sort();
+    for (const key of keys) diffValues(before[key], after[key], path ? `${path}.${key}` : key, out);
+    return;
+  }
+  const hasBefore = before !== undefined && before !== null && before !== '';
+  const hasAfter = after !== undefined && after !== null && after !== '';
+  if (!hasBefore && !hasAfter) return;
+  if (!hasBefore) {
+    out.push({ path, kind: 'added', after: display(after) });
+  } else if (!hasAfter) {
+    out.push({ path, kind: 'removed', before: display(before) });
+  } else if (display(before) !== display(after)) {
+    out.push({ path, kind: 'changed', before: display(before), after: display(after) });
+  }
+}
+
+const shotKey = (shot: Json): string => {
+  if (!isPlainObject(shot)) return display(shot);
+  const { shot_number: _number, id: _id, ...rest } = shot;
+  return JSON.stringify(rest, Object.keys(rest).sort());
+};
+
+/**
+ * Align two shot lists with an LCS over shot content (ignoring shot_number,
+ * which shifts whenever a shot is inserted, and the shot ID, which revisions
+ * saved before IDs existed lack). Between matched shots, leftover
+ * removals and additions are paired up as edits.
+ */
+export function diffShots(beforeList: Json[], afterList: Json[]): ShotChange[] {
+  const a = beforeList.map(shotKey);
+  const b = afterList.map(shotKey);
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const asShot = (value: Json) => (isPlainObject(value) ? value : { value });
+  const changes: ShotChange[] = [];
+  let removed: number[] = [];
+  let added: number[] = [];
+
+  const flush = () => {
+    const paired = Math.min(removed.length, added.length);
+    for (let k = 0; k < paired; k++) {
+      const before = asShot(beforeList[removed[k]]);
+      const after = asShot(afterList[added[k]]);
+      const fields = Array.from(new Set([...Object.keys(before), ...Object.keys(after)]))
+        .filter(key => key !== 'shot_number' && key !== 'id' && display(before[key] ?? '') !== display(after[key] ?? ''));
+      changes.push({ kind: 'changed', beforeIndex: removed[k], afterIndex: added[k], before, after, fields });
+    }
+    removed.slice(paired).forEach(i => changes.push({ kind: 'removed', beforeIndex: i, before: asShot(beforeList[i]) }));
+    added.slice(paired).forEach(j => changes.push({ kind: 'added', afterIndex: j, after: asShot(afterList[j]) }));
+    removed = [];
+    added = [];
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      flush();
+      changes.push({ kind: 'unchanged', beforeIndex: i, afterIndex: j, before: asShot(beforeList[i]), after: asShot(afterList[j]) });
+      i++;
+      j++;
+    } else if (j >= b.length || (i < a.length && lcs[i + 1][j] >= lcs[i][j + 1])) {
+      removed.push(i++);
+    } else {
+      added.push(j++);
+    }
+  }
+  flush();
+  return changes;
+}
+
+export function diffAnalyses(
+  before: string | Record<string, Json> | null | undefined,
+  after: string | Record<string, Json> | null | undefined
+): AnalysisDiff {
+  const { shot_list: beforeShots, ...beforeRest } = parseRevisionAnalysis(before);
+  const { shot_list: afterShots, ...afterRest } = parseRevisionAnalysis(after);
+  const fields: FieldChange[] = [];
+  diffValues(beforeRest, afterRest, '', fields);
+  return {
+    fields,
+    shots: diffShots(Array.isArray(beforeShots) ? beforeShots : [], Array.isArray(afterShots) ? afterShots : []),
+  };
+}
@@ -0,0 +1,274 @@
+// ═══════════════════════════════════════════════════════════════
+// ANALYSIS SCHEMA
+// Runtime rules for what a usable scene analysis looks like. The API checks
+// each model call against its part (story, producing, directing) and asks
+// the model to regenerate only the fields that fail; the assembled result is
+// checked against analysisDataSchema, which mirrors AnalysisData in
+// src/types/analysis.ts — change the two together. Objects pass unknown keys
+// through untouched, so legacy and extra fields survive validation.
+// Pure module shared by the API and the frontend.
+// ═══════════════════════════════════════════════════════════════
+
+import { z } from 'zod';
+
+const text = (field: string, min: number) =>
+  z.string({ required_error: `${field} is missing` }).trim().min(min, `${field} is missing or too short (min ${min} chars)`);
+
+const stringList = z.array(z.string());
+
+const carry = z.object({
+  costume: z.string(),
+  props: z.string(),
+  makeup: z.string(),
+  time_logic: z.string(),
+  emotional_state: z.string(),
+}).passthrough();
+
+const characterCarry = z.object({
+  costume: z.string().optional(),
+  props: z.string().optional(),
+  makeup: z.string().optional(),
+  emotional_state: z.string().optional(),
+}).passthrough();
+
+const shotSchema = z.object({
+  shot_number: z.coerce.number().optional(),
+  shot_type: z.string().min(1, 'shot_type is missing'),
+  subject: z.string().optional(),
+  visual: z.string().optional(),
+  serves_story_element: z.string({ required_error: 'serves_story_element is missing' }).min(1, 'serves_story_element is missing'),
+  rationale: text('rationale', 10),
+  editorial_note: z.string().optional(),
+}).passthrough();
+
+type Shot = z.infer<typeof shotSchema>;
+
+// ─── Cross-field rules ───────────────────────────────────────────
+
+/** The scene turn needs both its cause and its landing on camera */
+export function turnCoverageIssue(theTurn: string | undefined, shots: Shot[]): string | null {
+  if (!theTurn || theTurn.length <= 20 || shots.length === 0) return null;
+  const hasCatalyst = shots.some(s => s.serves_story_element === 'TURN_CATALYST');
+  const hasLanding = shots.some(s => s.serves_story_element === 'TURN_LANDING');
+  if (!hasCatalyst && !hasLanding) return 'Turn coverage missing - no TURN_CATALYST or TURN_LANDING shots for identified scene turn';
+  if (!hasCatalyst) return 'Turn coverage incomplete - missing TURN_CATALYST shot (the cause of the value change)';
+  if (!hasLanding) return 'Turn coverage incomplete - missing TURN_LANDING shot (the character registering the change)';
+  return null;
+}
+
+function checkShotList(
+  value: { shot_list?: Shot[]; shot_list_rationale?: string },
+  theTurn: string | undefined,
+  ctx: z.RefinementCtx
+) {
+  const shots = value.shot_list || [];
+  if (shots.length >= 10 && (value.shot_list_rationale || '').length < 20) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['shot_list_rationale'],
+      message: 'Scene has 10+ shots but missing shot_list_rationale explanation',
+    });
+  }
+  const turnIssue = turnCoverageIssue(theTurn, shots);
+  if (turnIssue) ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['shot_list'], message: turnIssue });
+}
+
+// ─── Call 1: story ───────────────────────────────────────────────
+
+const storyFields = {
+  the_core: text('the_core', 20),
+  synopsis: text('synopsis', 30),
+  the_turn: text('the_turn', 20),
+  ownership: z.string().optional(),
+  the_times: z.string().optional(),
+  imagery_and_tone: z.string().optional(),
+  stakes: z.string().optional(),
+  pitfalls: stringList.optional(),
+  scene_obligation: text('scene_obligation', 30),
+  the_one_thing: text('the_one_thing', 20),
+  setup_payoff: z.object({
+    setups: stringList,
+    payoffs: stringList,
+    links: z.array(z.object({
+      thread: z.string(),
+      role: z.enum(['setup', 'payoff']),
+      description: z.string(),
+      scenes: z.array(z.number()),
+    }).passthrough()).optional(),
+  }).passthrough().optional(),
+  essential_exposition: z.string().optional(),
+  if_this_scene_fails: z.string().optional(),
+  alternative_readings: z.array(z.string(), { invalid_type_error: 'alternative_readings should be an array' }).optional(),
+};
+
+export const storyCallSchema = z.object(storyFields).passthrough();
+
+// ─── Call 2: producing ───────────────────────────────────────────
+
+export const producingCallSchema = z.object({
+  locations: z.object({
+    primary: z.string().optional(),
+    setting: z.string().optional(),
+    intExt: z.string().optional(),
+    timeOfDay: z.string().optional(),
+  }).passthrough().optional(),
+  cast: z.object({
+    principal: stringList.optional(),
+    speaking: stringList.optional(),
+    silent: stringList.optional(),
+    extras: z.union([z.string(), z.object({ count: z.string().optional(), description: z.string().optional() })]).optional(),
+  }).passthrough().optional(),
+  key_props: stringList.optional(),
+  red_flags: stringList,
+  departments_affected: stringList,
+  resource_impact: z.enum(['Low', 'Medium', 'High']),
+  continuity: z.object(
+    {
+      carries_in: carry,
+      carries_out: carry,
+      characters: z.array(z.object({
+        name: z.string(),
+        carries_in: characterCarry.optional(),
+        carries_out: characterCarry.optional(),
+      }).passthrough()).optional(),
+    },
+    { required_error: 'continuity carries_in/carries_out is missing' }
+  ).passthrough(),
+  scene_complexity: z.object({
+    rating: z.coerce.number({ invalid_type_error: 'scene_complexity.rating is missing or not 1-5' }).int().min(1, 'scene_complexity.rating is missing or not 1-5').max(5, 'scene_complexity.rating is missing or not 1-5'),
+    justification: z.string(),
+  }).passthrough(),
+  estimated_screen_time: z.object({
+    pages: z.coerce.number({ invalid_type_error: 'estimated_screen_time.pages is missing or zero' }).positive('estimated_screen_time.pages is missing or zero'),
+    estimated_minutes: z.string(),
+    pacing_note: z.string(),
+  }).passthrough(),
+  scheduling_notes: z.object({
+    combinable_with: stringList,
+    must_schedule_before: stringList,
+    must_schedule_after: stringList,
+    time_of_day_requirement: z.string(),
+    weather_dependency: z.string(),
+    actor_availability_note: z.string(),
+  }).passthrough().optional(),
+  sound_design: z.object({
+    production_sound_challenges: stringList,
+    ambient_requirements: stringList,
+    silence_moments: stringList,
+    sound_effects_needed: stringList,
+    music_notes: z.string(),
+  }).passthrough().optional(),
+  safety_specifics: z.object({
+    concerns: stringList,
+    protocols_required: stringList,
+    personnel_needed: stringList,
+    actor_prep_required: z.string(),
+  }).passthrough().optional(),
+  department_specific_notes: z.record(z.string()).optional(),
+}).passthrough();
+
+// ─── Call 3: directing ───────────────────────────────────────────
+
+const subtextSchema = z.object({
+  what_they_say_vs_want: z.string().optional(),
+  power_dynamic: z.string().optional(),
+  emotional_turn: z.string().optional(),
+  revelation_or_realization: z.string().optional(),
+}).passthrough();
+
+const conflictSchema = z.object({
+  type: z.union([z.string(), stringList]).optional(),
+  what_characters_want: stringList.optional(),
+  obstacles: stringList.optional(),
+  tactics: stringList.optional(),
+  winner: z.string().optional(),
+}).passthrough();
+
+const visionFields = {
+  tone_and_mood: z.object({
+    opening: z.string().optional(),
+    shift: z.string().optional(),
+    closing: z.string().optional(),
+    energy: z.string().optional(),
+  }).passthrough().optional(),
+  visual_strategy: z.object({
+    approach: z.string().optional(),
+    camera_personality: z.string().optional(),
+    lighting_mood: z.string().optional(),
+  }).passthrough().optional(),
+  visual_metaphor: z.string().optional(),
+  editorial_intent: z.string().optional(),
+  blocking: z.object({
+    geography: z.string().optional(),
+    movement: z.string().optional(),
+    eyelines: z.string().optional(),
+  }).passthrough().optional(),
+  actor_objectives: z.record(z.string()).optional(),
+  scene_rhythm: z.object({
+    tempo: z.string({ required_error: 'scene_rhythm.tempo is missing' }).min(1, 'scene_rhythm.tempo is missing'),
+    breaths: z.string(),
+    acceleration_points: z.string(),
+    holds: z.string(),
+  }).passthrough(),
+  what_not_to_do: z.array(z.string()).min(1, 'what_not_to_do is missing or empty (need at least 1 entry)'),
+  tone_reference: z.string().optional(),
+  creative_questions: z.array(z.string()).min(1, 'creative_questions is missing or empty (need at least 1 entry)'),
+};
+
+const shotListFields = {
+  shot_list: z.array(shotSchema).min(1, 'No shots generated'),
+  shot_list_rationale: z.string().optional(),
+};
+
+/** Directing call output, checked against the turn the story call found */
+export const directingCallSchema = (theTurn?: string) =>
+  z.object({
+    subtext: subtextSchema.optional(),
+    conflict: conflictSchema.optional(),
+    ...visionFields,
+    ...shotListFields,
+  }).passthrough().superRefine((value, ctx) => checkShotList(value, theTurn, ctx));
+
+// ─── Assembled analysis ──────────────────────────────────────────
+
+export const analysisDataSchema = z.object({
+  story_analysis: z.object({
+    ...storyFields,
+    subtext: subtextSchema.optional(),
+    conflict: conflictSchema.optional(),
+  }).passthrough(),
+  producing_logistics: producingCallSchema,
+  directing_vision: z.object(visionFields).passthrough(),
+  ...shotListFields,
+}).passthrough().superRefine((value, ctx) => checkShotList(value, value.story_analysis.the_turn, ctx));
+
+/** "path: message", or just the message when it already names its field */
+export function formatSchemaIssue(issue: z.ZodIssue): string {
+  const path = issue.path.join('.');
+  const named = issue.message.includes(String(issue.path[issue.path.length - 1]));
+  if (!path || (named && !issue.path.some(key => typeof key === 'number'))) return issue.message;
+  return `${path}: ${issue.message}`;
+}
+
+/**
+ * Top-level fields of a call's output that fail its schema, with what is
+ * wrong with each. These are the units a repair call regenerates.
+ */
+export function failingFields(schema: z.ZodTypeAny, value: unknown): Map<string, string[]> {
+  const failing = new Map<string, string[]>();
+  const result = schema.safeParse(value);
+  if (result.success) return failing;
+  for (const issue of result.error.issues) {
+    const field = String(issue.path[0] ?? '');
+    if (!field) continue;
+    failing.set(field, [...(failing.get(field) || []), formatSchemaIssue(issue)]);
+  }
+  return failing;
+}
+
+/** Every problem with an assembled analysis, as readable messages */
+export function analysisIssues(analysis: unknown): string[] {
+  const result = analysisDataSchema.safeParse(analysis);
+  if (result.success) return [];
+  return [...new Set(result.error.issues.map(formatSchemaIssue))];
+}
@@ -0,0 +1,186 @@
+// lib/characterRegistry.ts
+// Project-level cast registry. Every character has a stable ID, a cast
+// number, and the aliases the script and the AI have used for them, so
+// "MIKE", "Mike (30s)" and "MICHAEL" resolve to one person.
+//
+// Kept free of app imports so api/ handlers can load it directly.
+
+export interface CharacterRecord {
+  id: string;
+  /** Canonical display name, upper case */
+  name: string;
+  /** Other names that resolve to this character, upper case */
+  aliases: string[];
+  /** Production cast number (1 = lead) — stable once assigned */
+  castNumber: number;
+  physical: string;
+}
+
+/** Shape stored before the registry existed: `{ name, physical }` only */
+export type StoredCharacter = Partial<CharacterRecord> & { name: string };
+
+const newId = (): string =>
+  typeof globalThis.crypto !== 'undefined' && 'randomUUID' in globalThis.crypto
+    ? globalThis.crypto.randomUUID()
+    : `char-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+
+/**
+ * Reduce a name as written in a cue, cast list or AI output to its lookup
+ * form: "Mike (30s)" → "MIKE", "SARAH (V.O.) (CONT'D)" → "SARAH".
+ */
+export function normalizeCharacterName(raw: string): string {
+  return (raw || '')
+    .replace(/\([^)]*\)/g, ' ')
+    .replace(/\bCONT'?D\b|\bCONTINUED\b/gi, ' ')
+    .replace(/^[\s\-–—:,.]+|[\s\-–—:,.;!?]+$/g, '')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .toUpperCase();
+}
+
+const namesOf = (record: CharacterRecord): string[] => [record.name, ...record.aliases];
+
+/**
+ * Upgrade stored characters to full registry records: assign missing IDs and
+ * cast numbers, normalize names, and fold duplicate entries together.
+ */
+export function ensureRegistry(characters: StoredCharacter[] | null | undefined): CharacterRecord[] {
+  const registry: CharacterRecord[] = [];
+  const taken = new Set<number>();
+
+  for (const stored of characters || []) {
+    const name = normalizeCharacterName(stored.name);
+    if (!name) continue;
+    const aliases = (stored.aliases || []).map(normalizeCharacterName).filter(a => a && a !== name);
+
+    const existing = registry.find(r => namesOf(r).includes(name) || aliases.some(a => namesOf(r).includes(a)));
+    if (existing) {
+      existing.aliases = Array.from(new Set([...existing.aliases, name, ...aliases])).filter(a => a !== existing.name);
+      if (!existing.physical && stored.physical) existing.physical = stored.physical;
+      continue;
+    }
+
+    const castNumber = stored.castNumber && !taken.has(stored.castNumber) ? stored.castNumber : 0;
+    if (castNumber) taken.add(castNumber);
+    registry.push({
+      id: stored.id || newId(),
+      name,
+      aliases: Array.from(new Set(aliases)),
+      castNumber,
+      physical: stored.physical || '',
+    });
+  }
+
+  // Entries without a number go to the end of the list, in stored order
+  let next = Math.max(0, ...taken) + 1;
+  for (const record of registry) {
+    if (!record.castNumber) record.castNumber = next++;
+  }
+
+  return registry.sort((a, b) => a.castNumber - b.castNumber);
+}
+
+export function resolveCharacter(registry: CharacterRecord[], name: string): CharacterRecord | undefined {
+  const key = normalizeCharacterName(name);
+  if (!key) return undefined;
+  return registry.find(r => namesOf(r).includes(key));
+}
+
+/**
+ * Map names onto their canonical registry names, de-duplicated. Names the
+ * registry doesn't know are kept in normalized form.
+ */
+export function canonicalizeNames(registry: CharacterRecord[], names: string[] | null | undefined): string[] {
+  const result: string[] = [];
+  for (const name of names || []) {
+    const canonical = resolveCharacter(registry, name)?.name || normalizeCharacterName(name);
+    if (canonical && !result.includes(canonical)) result.push(canonical);
+  }
+  return result;
+}
+
+/**
+ * Seed a registry from every scene's character cues. Cast numbers follow
+ * the usual convention: most scenes first, ties by first appearance.
+ */
+export function buildRegistryFromScenes(sceneTexts: string[], existing: CharacterRecord[] = []): CharacterRecord[] {
+  const stats = new Map<string, { count: number; first: number }>();
+  sceneTexts.forEach((text, idx) => {
+    for (const cue of extractCharacterCues(text)) {
+      const name = resolveCharacter(existing, cue)?.name || cue;
+      const entry = stats.get(name);
+      if (entry) entry.count++;
+      else stats.set(name, { count: 1, first: idx });
+    }
+  });
+  const ordered = Array.from(stats.entries())
+    .sort((a, b) => b[1].count - a[1].count || a[1].first - b[1].first)
+    .map(([name]) => name);
+  return addCharacters(existing, ordered);
+}
+
+/** Add any names the registry can't resolve as new characters with the next cast numbers */
+export function addCharacters(registry: CharacterRecord[], names: string[]): CharacterRecord[] {
+  const next = [...registry];
+  let castNumber = Math.max(0, ...registry.map(r => r.castNumber)) + 1;
+  for (const name of names) {
+    const key = normalizeCharacterName(name);
+    if (!key || resolveCharacter(next, key)) continue;
+    next.push({ id: newId(), name: key, aliases: [], castNumber: castNumber++, physical: '' });
+  }
+  return next;
+}
+
+/**
+ * Fold `sourceIds` into `targetId`. The target keeps its ID and cast number;
+ * source names become aliases and their descriptions are appended.
+ */
+export function mergeCharacters(registry: CharacterRecord[], targetId: string, sourceIds: string[]): CharacterRecord[] {
+  const target = registry.find(r => r.id === targetId);
+  if (!target) return registry;
+  const sources = registry.filter(r => r.id !== targetId && sourceIds.includes(r.id));
+  if (sources.length === 0) return registry;
+
+  const aliases = Array.from(new Set([...target.aliases, ...sources.flatMap(namesOf)])).filter(a => a !== target.name);
+  const physical = [target.physical, ...sources.map(s => s.physical)].filter(Boolean).join(' ');
+  const merged: CharacterRecord = { ...target, aliases, physical };
+
+  return registry
+    .filter(r => !sources.includes(r))
+    .map(r => (r.id === targetId ? merged : r));
+}
+
+/** Detach an alias into its own character, numbered after the current cast */
+export function splitAlias(registry: CharacterRecord[], characterId: string, alias: string): CharacterRecord[] {
+  const key = normalizeCharacterName(alias);
+  const source = registry.find(r => r.id === characterId);
+  if (!source || !source.aliases.includes(key)) return registry;
+
+  const castNumber = Math.max(0, ...registry.map(r => r.castNumber)) + 1;
+  return [
+    ...registry.map(r => (r.id === characterId ? { ...r, aliases: r.aliases.filter(a => a !== key) } : r)),
+    { id: newId(), name: key, aliases: [], castNumber, physical: '' },
+  ];
+}
+
+/**
+ * Character cues from scene text: an all-caps line of 40 chars or fewer
+ * followed by mixed-case dialogue (optionally after a parenthetical).
+ * Sluglines and transitions are skipped.
+ */
+export function extractCharacterCues(sceneText: string): string[] {
+  const lines = (sceneText || '').replace(/\r\n?/g, '\n').split('\n').map(l => l.trim());
+  const cues: string[] = [];
+  for (let i = 0; i < lines.length - 1; i++) {
+    const line = lines[i];
+    if (!line || !lines[i + 1] || line.length > 40) continue;
+    if (/[a-z]/.test(line.replace(/\([^)]*\)/g, '')) || !/[A-Z]/.test(line)) continue;
+    if (/^(\d+\s+)?(INT|EXT|I\/E|INT\.\/EXT|EXT\.\/INT)[.\s/]/.test(line) || /(TO:|OUT\.|IN:)$/.test(line)) continue;
+    if (/^[.!>]/.test(line)) continue;
+    const dialogue = /^\(.*\)$/.test(lines[i + 1]) ? lines[i + 2] : lines[i + 1];
+    if (!dialogue || !/[a-z]/.test(dialogue)) continue;
+    const name = normalizeCharacterName(line.replace(/\^$/, ''));
+    if (name && !cues.includes(name)) cues.push(name);
+  }
+  return cues;
+}
@@ -0,0 +1,320 @@
+// lib/fountainParser.ts
+// Fountain (https://fountain.io) tokenizer.
+// NOTE: Keep this module free of "@/" imports — api/parse-screenplay.ts imports it
+// directly at runtime through tsx, where the Vite path alias does not resolve.
+
+export type FountainElementType =
+  | 'scene_heading'
+  | 'action'
+  | 'character'
+  | 'dialogue'
+  | 'parenthetical'
+  | 'lyrics'
+  | 'transition'
+  | 'centered'
+  | 'section'
+  | 'synopsis'
+  | 'note'
+  | 'page_break';
+
+export interface FountainElement {
+  type: FountainElementType;
+  text: string;
+  /** Scene number written as #12A# on a scene heading */
+  sceneNumber?: string;
+  /** Section depth (# = 1, ## = 2, ...) */
+  depth?: number;
+  /** Dual dialogue side for character/dialogue/parenthetical elements */
+  dual?: 'left' | 'right';
+  /** Element was forced with Fountain markup (. ! @ > ~) */
+  forced?: boolean;
+}
+
+export interface FountainDocument {
+  titlePage: Record<string, string>;
+  elements: FountainElement[];
+}
+
+export interface FountainScene {
+  heading: string;
+  sceneNumber?: string;
+  elements: FountainElement[];
+}
+
+const SCENE_HEADING_REGEX = /^(?:INT|EXT|EST|INT\.?\/EXT|EXT\.?\/INT|I\/E)[.\s]/i;
+const SCENE_NUMBER_REGEX = /\s*#([A-Za-z0-9.-]+)#\s*$/;
+const TITLE_KEY_REGEX = /^([A-Za-z][A-Za-z ]*?):\s*(.*)$/;
+const TRANSITION_REGEX = /^[A-Z0-9\s.'-]+TO:$/;
+const NOTE_PLACEHOLDER_REGEX = /\uE000(\d+)\uE000/g;
+
+/**
+ * Remove Fountain emphasis markup (*italic*, **bold**, _underline_) and escapes.
+ */
+export function stripFountainEmphasis(text: string): string {
+  return text
+    .replace(/(\*{1,3}|_)(?=\S)([^*_\n]*?\S)\1/g, '$2')
+    .replace(/\\([*_])/g, '$1');
+}
+
+function parseTitlePage(lines: string[]): { titlePage: Record<string, string>; bodyStart: number } {
+  const titlePage: Record<string, string> = {};
+
+  let i = 0;
+  while (i < lines.length && !lines[i].trim()) i++;
+  if (i >= lines.length || !TITLE_KEY_REGEX.test(lines[i])) {
+    return { titlePage, bodyStart: 0 };
+  }
+
+  let currentKey: string | null = null;
+  for (; i < lines.length; i++) {
+    const line = lines[i];
+    if (!line.trim()) break;
+
+    const keyMatch = !/^(\s{3,}|\t)/.test(line) ? line.match(TITLE_KEY_REGEX) : null;
+    if (keyMatch) {
+      currentKey = keyMatch[1].trim().toLowerCase();
+      titlePage[currentKey] = stripFountainEmphasis(keyMatch[2].trim());
+    } else if (currentKey) {
+      const continuation = stripFountainEmphasis(line.trim());
+      titlePage[currentKey] = titlePage[currentKey]
+        ? `${titlePage[currentKey]}\n${continuation}`
+        : continuation;
+    } else {
+      // First line looked like a key but this one doesn't — not a title page
+      return { titlePage: {}, bodyStart: 0 };
+    }
+  }
+
+  return { titlePage, bodyStart: i };
+}
+
+function isCharacterCue(line: string): boolean {
+  const name = line.replace(/\^$/, '').replace(/\(.*\)\s*$/, '').trim();
+  return /[A-Z]/.test(name) && !/[a-z]/.test(name) && !name.endsWith(':');
+}
+
+/**
+ * Tokenize a Fountain document into its title page and typed elements.
+ * Boneyard is discarded; notes are tokenized as separate 'note' elements only
+ * so they stay out of the text around them (splitFountainScenes drops them).
+ */
+export function tokenizeFountain(rawText: string): FountainDocument {
+  const notes: string[] = [];
+  const text = rawText
+    .replace(/^\uFEFF/, '')
+    .replace(/\r\n?/g, '\n')
+    .replace(/\t/g, '    ')
+    .replace(/\/\*[\s\S]*?\*\//g, '')
+    .replace(/\[\[([\s\S]*?)\]\]/g, (_match, note: string) => {
+      notes.push(note.replace(/\s+/g, ' ').trim());
+      return `\uE000${notes.length - 1}\uE000`;
+    });
+
+  const lines = text.split('\n');
+  const { titlePage, bodyStart } = parseTitlePage(lines);
+  const elements: FountainElement[] = [];
+  // A blank line before the current line starts a new action paragraph
+  let paragraphStart = false;
+
+  const push = (element: FountainElement) => {
+    // Pull any inline notes out into their own elements
+    const inlineNotes: string[] = [];
+    const cleaned = element.text.replace(NOTE_PLACEHOLDER_REGEX, (_m, idx: string) => {
+      inlineNotes.push(notes[Number(idx)]);
+      return '';
+    }).replace(/[ ]{2,}/g, ' ').trim();
+
+    if (cleaned) {
+      const last = elements[elements.length - 1];
+      // Consecutive action lines (within a paragraph) and dialogue lines collapse into a single element
+      if (last && ((element.type === 'action' && !paragraphStart) || element.type === 'dialogue') &&
+          last.type === element.type && last.dual === element.dual && !element.forced) {
+        last.text += '\n' + cleaned;
+      } else {
+        elements.push({ ...element, text: cleaned });
+      }
+    }
+    for (const note of inlineNotes) {
+      if (note) elements.push({ type: 'note', text: note });
+    }
+  };
+
+  let inDialogue = false;
+  let dualSide: 'right' | undefined;
+
+  for (let i = bodyStart; i < lines.length; i++) {
+    const line = lines[i].trimEnd();
+    const trimmed = line.trim();
+    const prevBlank = i === bodyStart || !lines[i - 1].trim();
+    const nextBlank = i + 1 >= lines.length || !lines[i + 1].trim();
+    paragraphStart = prevBlank;
+
+    if (!trimmed) {
+      // Two spaces on an otherwise blank line keep a dialogue block open
+      if (!(inDialogue && line.length >= 2 && lines[i].startsWith('  '))) {
+        inDialogue = false;
+        dualSide = undefined;
+      }
+      continue;
+    }
+
+    if (/^={3,}$/.test(trimmed)) {
+      elements.push({ type: 'page_break', text: '' });
+      continue;
+    }
+
+    const sectionMatch = trimmed.match(/^(#+)\s*(.*)$/);
+    if (sectionMatch) {
+      push({ type: 'section', text: sectionMatch[2], depth: sectionMatch[1].length });
+      continue;
+    }
+
+    const synopsisMatch = trimmed.match(/^=(?!=)\s*(.*)$/);
+    if (synopsisMatch) {
+      push({ type: 'synopsis', text: synopsisMatch[1] });
+      continue;
+    }
+
+    if (inDialogue) {
+      if (/^\(.*\)$/.test(trimmed)) {
+        push({ type: 'parenthetical', text: trimmed, dual: dualSide });
+      } else {
+        push({ type: 'dialogue', text: stripFountainEmphasis(trimmed), dual: dualSide });
+      }
+      continue;
+    }
+
+    // Forced scene heading (".FLASHBACK") — but not an ellipsis
+    const forcedHeading = /^\.[^.]/.test(trimmed);
+    if (forcedHeading || (prevBlank && SCENE_HEADING_REGEX.test(trimmed))) {
+      let heading = forcedHeading ? trimmed.slice(1).trim() : trimmed;
+      let sceneNumber: string | undefined;
+      const numberMatch = heading.match(SCENE_NUMBER_REGEX);
+      if (numberMatch) {
+        sceneNumber = numberMatch[1];
+        heading = heading.replace(SCENE_NUMBER_REGEX, '');
+      }
+      push({ type: 'scene_heading', text: heading.toUpperCase(), sceneNumber, forced: forcedHeading || undefined });
+      continue;
+    }
+
+    if (trimmed.startsWith('!')) {
+      push({ type: 'action', text: stripFountainEmphasis(line.replace(/^\s*!/, '')), forced: true });
+      continue;
+    }
+
+    if (trimmed.startsWith('~')) {
+      push({ type: 'lyrics', text: stripFountainEmphasis(trimmed.slice(1).trim()), forced: true });
+      continue;
+    }
+
+    const centeredMatch = trimmed.match(/^>\s*(.*?)\s*<$/);
+    if (centeredMatch) {
+      push({ type: 'centered', text: stripFountainEmphasis(centeredMatch[1]) });
+      continue;
+    }
+
+    if (trimmed.startsWith('>')) {
+      push({ type: 'transition', text: trimmed.slice(1).trim().toUpperCase(), forced: true });
+      continue;
+    }
+
+    if (prevBlank && nextBlank && TRANSITION_REGEX.test(trimmed)) {
+      push({ type: 'transition', text: trimmed });
+      continue;
+    }
+
+    const forcedCharacter = trimmed.startsWith('@');
+    if (forcedCharacter || (prevBlank && !nextBlank && isCharacterCue(trimmed))) {
+      let name = forcedCharacter ? trimmed.slice(1).trim() : trimmed;
+      const isDual = name.endsWith('^');
+      if (isDual) {
+        name = name.slice(0, -1).trim();
+        // The preceding speaker becomes the left column of the pair
+        for (let j = elements.length - 1; j >= 0; j--) {
+          const prev = elements[j];
+          if (prev.type === 'note') continue;
+          if (prev.type !== 'dialogue' && prev.type !== 'parenthetical' && prev.type !== 'character') break;
+          prev.dual = 'left';
+          if (prev.type === 'character') break;
+        }
+      }
+      dualSide = isDual ? 'right' : undefined;
+      push({ type: 'character', text: name, dual: dualSide, forced: forcedCharacter || undefined });
+      inDialogue = true;
+      continue;
+    }
+
+    push({ type: 'action', text: stripFountainEmphasis(line) });
+  }
+
+  return { titlePage, elements };
+}
+
+/**
+ * Group tokenized elements into scenes. Elements before the first heading
+ * (FADE IN:, etc.) are dropped. Sections, synopses and notes are outlining
+ * aids that never print, so they are left out of the scenes.
+ */
+export function splitFountainScenes(doc: FountainDocument): FountainScene[] {
+  const scenes: FountainScene[] = [];
+  let current: FountainScene | null = null;
+
+  for (const element of doc.elements) {
+    if (element.type === 'scene_heading') {
+      current = {
+        heading: element.text,
+        sceneNumber: element.sceneNumber,
+        elements: [],
+      };
+      scenes.push(current);
+      continue;
+    }
+
+    if (!current || element.type === 'section' || element.type === 'synopsis' || element.type === 'note') continue;
+    current.elements.push(element);
+  }
+
+  return scenes;
+}
+
+/**
+ * Render scene elements back to plain screenplay text (the format the
+ * analysis prompts expect). Notes, synopses and sections are non-printing
+ * in Fountain and are left out.
+ */
+export function renderFountainElements(elements: FountainElement[]): string {
+  const blocks: string[] = [];
+  let dialogueBlock: string[] | null = null;
+
+  const flushDialogue = () => {
+    if (dialogueBlock) blocks.push(dialogueBlock.join('\n'));
+    dialogueBlock = null;
+  };
+
+  for (const element of elements) {
+    switch (element.type) {
+      case 'character':
+        flushDialogue();
+        dialogueBlock = [element.text];
+        break;
+      case 'parenthetical':
+      case 'dialogue':
+        if (dialogueBlock) dialogueBlock.push(element.text);
+        else blocks.push(element.text);
+        break;
+      case 'action':
+      case 'lyrics':
+      case 'centered':
+      case 'transition':
+        flushDialogue();
+        blocks.push(element.text);
+        break;
+      default:
+        flushDialogue();
+    }
+  }
+  flushDialogue();
+
+  return blocks.join('\n\n').trim();
+}
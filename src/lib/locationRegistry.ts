@@ -0,0 +1,130 @@
+// lib/locationRegistry.ts
+// Project-level shooting locations. Each entry is a real place the company
+// goes to — an address, permits, reference photos — and the script sets
+// shot there, so "JOE'S DINER", "DINER - KITCHEN" and "DINER PARKING LOT"
+// can all be one practical location for scheduling and budgeting.
+//
+// Kept free of app imports so api/ handlers can load it directly.
+
+export type PermitStatus = 'not_needed' | 'required' | 'applied' | 'approved' | 'denied';
+
+export const PERMIT_STATUSES: PermitStatus[] = ['not_needed', 'required', 'applied', 'approved', 'denied'];
+
+export const PERMIT_LABELS: Record<PermitStatus, string> = {
+  not_needed: 'Not needed',
+  required: 'Required',
+  applied: 'Applied',
+  approved: 'Approved',
+  denied: 'Denied',
+};
+
+export interface ShootingLocation {
+  id: string;
+  name: string;
+  address: string;
+  notes: string;
+  /** Reference photo URLs from the scout */
+  photos: string[];
+  permitStatus: PermitStatus;
+  /** Cost of moving the company here mid-day; 0 uses the rate card's default */
+  companyMoveCost: number;
+  /** Script sets shot here, in normalized form — a set belongs to one location at most */
+  sets: string[];
+}
+
+/** Shape a client may send: anything but the name can be missing */
+export type StoredLocation = Partial<ShootingLocation> & { name: string };
+
+const newId = (): string =>
+  typeof globalThis.crypto !== 'undefined' && 'randomUUID' in globalThis.crypto
+    ? globalThis.crypto.randomUUID()
+    : `loc-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+
+/**
+ * Reduce a set name as written in a slugline or the analysis to its lookup
+ * form: "Joe's Diner." → "JOE'S DINER".
+ */
+export function normalizeSetName(raw: string): string {
+  return (raw || '')
+    .replace(/\s+/g, ' ')
+    .replace(/^[\s\-–—:,.]+|[\s\-–—:,.;!?]+$/g, '')
+    .trim()
+    .toUpperCase();
+}
+
+const isPhotoUrl = (url: unknown): url is string =>
+  typeof url === 'string' && /^https?:\/\/\S+$/i.test(url.trim());
+
+/**
+ * Clean up stored or client-sent locations: assign missing IDs, normalize
+ * set names, drop unusable photo links, and give every set to the first
+ * location that claims it.
+ */
+export function ensureLocations(locations: StoredLocation[] | null | undefined): ShootingLocation[] {
+  const result: ShootingLocation[] = [];
+  const claimed = new Set<string>();
+
+  for (const stored of locations || []) {
+    const name = (stored?.name || '').trim();
+    if (!name) continue;
+    const sets = Array.from(new Set((stored.sets || []).map(normalizeSetName))).filter(set => set && !claimed.has(set));
+    sets.forEach(set => claimed.add(set));
+    const cost = Number(stored.companyMoveCost);
+
+    result.push({
+      id: stored.id || newId(),
+      name,
+      address: (stored.address || '').trim(),
+      notes: stored.notes || '',
+      photos: Array.from(new Set((stored.photos || []).filter(isPhotoUrl).map(url => url.trim()))),
+      permitStatus: PERMIT_STATUSES.includes(stored.permitStatus as PermitStatus) ? stored.permitStatus as PermitStatus : 'not_needed',
+      companyMoveCost: Number.isFinite(cost) && cost > 0 ? cost : 0,
+      sets,
+    });
+  }
+
+  return result;
+}
+
+export function resolveLocation(locations: ShootingLocation[], set: string): ShootingLocation | undefined {
+  const key = normalizeSetName(set);
+  if (!key) return undefined;
+  return locations.find(location => location.sets.includes(key));
+}
+
+/** Move a set to `locationId`, taking it off whichever location had it */
+export function assignSet(locations: ShootingLocation[], set: string, locationId: string | null): ShootingLocation[] {
+  const key = normalizeSetName(set);
+  return locations.map(location => {
+    const sets = location.sets.filter(s => s !== key);
+    if (location.id === locationId) sets.push(key);
+    return { ...location, sets };
+  });
+}
+
+/** A new location for a script set that isn't mapped yet, named after it */
+export function addLocation(locations: ShootingLocation[], name: string, sets: string[] = []): ShootingLocation[] {
+  const location = ensureLocations([{ name, sets }])[0];
+  if (!location) return locations;
+  const keys = new Set(location.sets);
+  return [...locations.map(l => ({ ...l, sets: l.sets.filter(s => !keys.has(s)) })), location];
+}
+
+/** Fold `sourceIds` into `targetId`: their sets and photos move over, notes are appended */
+export function mergeLocations(locations: ShootingLocation[], targetId: string, sourceIds: string[]): ShootingLocation[] {
+  const target = locations.find(l => l.id === targetId);
+  if (!target) return locations;
+  const sources = locations.filter(l => l.id !== targetId && sourceIds.includes(l.id));
+  if (sources.length === 0) return locations;
+
+  const merged: ShootingLocation = {
+    ...target,
+    sets: Array.from(new Set([...target.sets, ...sources.flatMap(s => s.sets)])),
+    photos: Array.from(new Set([...target.photos, ...sources.flatMap(s => s.photos)])),
+    notes: [target.notes, ...sources.map(s => s.notes)].filter(Boolean).join('\n'),
+  };
+
+  return locations
+    .filter(l => !sources.includes(l))
+    .map(l => (l.id === targetId ? merged : l));
+}
@@ -0,0 +1,81 @@
+// ═══════════════════════════════════════════════════════════════
+// PROJECT ACCESS
+// Who can do what on a project. The owner is the account that created it
+// (the project's userId); everyone it is shared with is listed in
+// `collaborators` with one of the other roles. Each role can do everything
+// the roles below it can:
+//   owner     — share the project, delete it
+//   editor    — change anything in the project, run analysis
+//   commenter — read it and leave comments
+//   viewer    — read it
+// Projects a workspace owns (workspaceId) belong to the workspace instead:
+// its owners and admins are the project's owners, its members editors, and
+// the account that created the project has no more say than that.
+// Projects from before accounts (no userId) stay open to every signed-in
+// user, as they always have been.
+// Pure module shared by the API and the frontend.
+// ═══════════════════════════════════════════════════════════════
+
+import type { WorkspaceProjectMember } from './workspaces';
+
+export const PROJECT_ROLES = ['owner', 'editor', 'commenter', 'viewer'] as const;
+
+export type ProjectRole = typeof PROJECT_ROLES[number];
+
+/** The roles a project can be shared with; there is only ever one owner */
+export type CollaboratorRole = Exclude<ProjectRole, 'owner'>;
+
+export const COLLABORATOR_ROLES: CollaboratorRole[] = ['editor', 'commenter', 'viewer'];
+
+export interface ProjectCollaborator {
+  userId: string;
+  /** The address the project was shared with, shown in the share list */
+  email: string;
+  name?: string;
+  role: CollaboratorRole;
+  addedBy: string;
+  addedAt: string;
+}
+
+export const ROLE_LABELS: Record<ProjectRole, string> = {
+  owner: 'Owner',
+  editor: 'Editor',
+  commenter: 'Commenter',
+  viewer: 'Viewer',
+};
+
+export const ROLE_DESCRIPTIONS: Record<CollaboratorRole, string> = {
+  editor: 'Can edit scenes, shots, schedule and budget',
+  commenter: 'Can read and comment',
+  viewer: 'Can read only',
+};
+
+const RANK: Record<ProjectRole, number> = { viewer: 0, commenter: 1, editor: 2, owner: 3 };
+
+export const isCollaboratorRole = (value: unknown): value is CollaboratorRole =>
+  typeof value === 'string' && (COLLABORATOR_ROLES as string[]).includes(value);
+
+/** The user's role on the project, or null when it isn't shared with them */
+export function projectRole(
+  project: {
+    userId?: string | null;
+    collaborators?: ProjectCollaborator[] | null;
+    workspaceId?: string | null;
+    workspaceMembers?: WorkspaceProjectMember[] | null;
+  },
+  userId: string
+): ProjectRole | null {
+  const collaborator = (project.collaborators || []).find(c => c.userId === userId);
+  const shared = collaborator && isCollaboratorRole(collaborator.role) ? collaborator.role : null;
+  if (!project.workspaceId) {
+    return !project.userId || project.userId === userId ? 'owner' : shared;
+  }
+  const member = (project.workspaceMembers || []).find(m => m.userId === userId);
+  const viaWorkspace: ProjectRole | null = !member ? null : member.role === 'member' ? 'editor' : 'owner';
+  if (!viaWorkspace) return shared;
+  return shared && RANK[shared] > RANK[viaWorkspace] ? shared : viaWorkspace;
+}
+
+/** Whether a role includes everything `required` may do */
+export const hasProjectRole = (role: ProjectRole | null | undefined, required: ProjectRole): boolean =>
+  !!role && RANK[role] >= RANK[required];
@@ -0,0 +1,174 @@
+// ═══════════════════════════════════════════════════════════════
+// PROJECT COMMENTS
+// Review notes on a project, kept apart from the analysis so a reader can
+// disagree with a field without overwriting it. A thread is anchored to a
+// scene as a whole, to one field of its analysis (by dotted path, e.g.
+// "story_analysis.the_turn") or to one shot (by shot ID, so the thread
+// stays with the shot through reorders and re-analysis). Threads follow
+// their scene through script revisions; an omitted scene's threads are
+// detached and kept. "@Name" in a comment mentions a project member, who
+// then finds the thread in their inbox.
+// Pure module shared by the API and the frontend.
+// ═══════════════════════════════════════════════════════════════
+
+import { isShotId } from './shotIds';
+
+export const MAX_COMMENT_LENGTH = 4000;
+export const MAX_THREAD_COMMENTS = 200;
+
+export type CommentAnchor =
+  | { kind: 'scene' }
+  | { kind: 'field'; path: string }
+  | { kind: 'shot'; shotId: string };
+
+export type ThreadStatus = 'open' | 'resolved';
+
+export interface ProjectComment {
+  id: string;
+  authorId: string;
+  authorName: string;
+  body: string;
+  /** User IDs of the members mentioned in the body */
+  mentions: string[];
+  createdAt: string;
+}
+
+export interface CommentThread {
+  id: string;
+  projectId: string;
+  /** null once the scene is omitted by a script revision */
+  sceneNumber: number | null;
+  /** The scene number the thread had when its scene was omitted */
+  detachedFrom?: number;
+  anchor: CommentAnchor;
+  status: ThreadStatus;
+  /** Oldest first; the first comment opened the thread */
+  comments: ProjectComment[];
+  createdBy: string;
+  createdAt: string;
+  updatedAt: string;
+  resolvedBy?: string;
+  resolvedAt?: string;
+  /** When each member last read the thread */
+  readBy: Record<string, string>;
+}
+
+/** Someone who can be mentioned: the owner and everyone the project is shared with */
+export interface CommentMember {
+  userId: string;
+  name: string;
+  email?: string;
+}
+
+const ANALYSIS_SECTIONS = ['story_analysis', 'producing_logistics', 'directing_vision', 'shot_list_rationale'];
+const FIELD_PATH = /^[a-z][a-z0-9_]*(\.[a-z][a-z0-9_]*){0,4}$/i;
+
+export const isFieldPath = (value: unknown): value is string =>
+  typeof value === 'string' && FIELD_PATH.test(value) && ANALYSIS_SECTIONS.includes(value.split('.')[0]);
+
+/** The anchor from a request body, or null when it isn't one */
+export function parseAnchor(value: unknown): CommentAnchor | null {
+  if (typeof value !== 'object' || value === null) return null;
+  const anchor = value as Record<string, unknown>;
+  if (anchor.kind === 'scene') return { kind: 'scene' };
+  if (anchor.kind === 'field' && isFieldPath(anchor.path)) return { kind: 'field', path: anchor.path };
+  if (anchor.kind === 'shot' && isShotId(anchor.shotId)) return { kind: 'shot', shotId: anchor.shotId };
+  return null;
+}
+
+export const sameAnchor = (a: CommentAnchor, b: CommentAnchor): boolean =>
+  a.kind === b.kind &&
+  (a.kind !== 'field' || a.path === (b as typeof a).path) &&
+  (a.kind !== 'shot' || a.shotId === (b as typeof a).shotId);
+
+const SECTION_LABELS: Record<string, string> = {
+  story_analysis: 'Story',
+  producing_logistics: 'Producing',
+  directing_vision: 'Directing',
+};
+
+// "producing_logistics.cast.principal" -> "Producing › Cast › Principal"
+export const analysisFieldLabel = (path: string): string =>
+  path.split('.').map(part =>
+    SECTION_LABELS[part] || part.replace(/_/g, ' ').replace(/\b\w/g, c => c.toUpperCase())
+  ).join(' › ');
+
+/**
+ * What the thread is about, e.g. "Story › The Turn" or "Shot 4". Shots are
+ * numbered by their position in `shotIds` (the scene's current shot list);
+ * a shot no longer in the list is "Removed shot", and without the list
+ * it is just "Shot".
+ */
+export function anchorLabel(anchor: CommentAnchor, shotIds?: string[]): string {
+  if (anchor.kind === 'field') return analysisFieldLabel(anchor.path);
+  if (anchor.kind === 'shot') {
+    if (!shotIds) return 'Shot';
+    const index = shotIds.indexOf(anchor.shotId);
+    return index === -1 ? 'Removed shot' : `Shot ${index + 1}`;
+  }
+  return 'Scene';
+}
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * The members mentioned in a comment body. A mention is "@" followed by the
+ * member's name or email address (or the part of the address before the
+ * "@"), in any case. Longer names are tried first, so "@Sam Lee" mentions
+ * Sam Lee rather than a member named Sam.
+ */
+export function findMentions(body: string, members: CommentMember[]): string[] {
+  const handles = members.flatMap(member => [member.name, member.email, member.email?.split('@')[0]]
+    .filter((handle): handle is string => !!handle && handle.trim().length > 0)
+    .map(handle => ({ handle: handle.trim(), userId: member.userId })))
+    .sort((a, b) => b.handle.length - a.handle.length);
+
+  const mentioned = new Set<string>();
+  let rest = body;
+  for (const { handle, userId } of handles) {
+    const pattern = new RegExp(`(^|[^\\w@])@${escapeRegExp(handle)}(?![\\w@-])`, 'gi');
+    if (rest.search(pattern) !== -1) {
+      mentioned.add(userId);
+      // So a shorter handle can't match inside a longer one already taken
+      rest = rest.replace(pattern, '$1');
+    }
+  }
+  return Array.from(mentioned);
+}
+
+/** Whether someone else has commented since the user last read the thread */
+export function isThreadUnread(thread: CommentThread, userId: string): boolean {
+  const readAt = thread.readBy[userId];
+  return thread.comments.some(comment => comment.authorId !== userId && (!readAt || comment.createdAt > readAt));
+}
+
+export interface InboxEntry {
+  thread: CommentThread;
+  unread: boolean;
+  /** The user is mentioned somewhere in the thread */
+  mentioned: boolean;
+}
+
+/**
+ * A user's inbox: threads that mention them or that they have commented
+ * in, leaving out resolved threads they have already read. Unread threads
+ * come first, then the most recently active.
+ */
+export function inboxEntries(threads: CommentThread[], userId: string): InboxEntry[] {
+  return threads
+    .map(thread => ({
+      thread,
+      unread: isThreadUnread(thread, userId),
+      mentioned: thread.comments.some(comment => comment.mentions.includes(userId)),
+      participant: thread.comments.some(comment => comment.authorId === userId),
+    }))
+    .filter(entry => (entry.mentioned || entry.participant) && (entry.thread.status === 'open' || entry.unread))
+    .sort((a, b) => Number(b.unread) - Number(a.unread) || b.thread.updatedAt.localeCompare(a.thread.updatedAt))
+    .map(({ thread, unread, mentioned }) => ({ thread, unread, mentioned }));
+}
+
+/** Open threads on one scene, optionally only those on one anchor */
+export const openThreads = (threads: CommentThread[], sceneNumber: number, anchor?: CommentAnchor): CommentThread[] =>
+  threads.filter(thread =>
+    thread.status === 'open' && thread.sceneNumber === sceneNumber && (!anchor || sameAnchor(thread.anchor, anchor))
+  );
@@ -0,0 +1,66 @@
+// ═══════════════════════════════════════════════════════════════
+// PROJECT VERSIONS
+// Optimistic concurrency for project writes. Every scene carries a
+// `version`, and each of the project's other editable sections has a
+// counter under `versions`; a write bumps the counters of what it changes.
+// The client sends the version it based its change on, and the write only
+// lands if nobody has bumped that counter since — otherwise the API
+// answers 409 with the current version, and the client reloads or
+// overwrites knowingly. Documents saved before versions count as 0.
+// Pure module shared by the API and the frontend.
+// ═══════════════════════════════════════════════════════════════
+
+export const PROJECT_SECTIONS = [
+  'name',
+  'style',
+  'characters',
+  'locations',
+  'schedule',
+  'budget',
+  'numbering',
+  'visualProfile',
+] as const;
+
+export type ProjectSection = typeof PROJECT_SECTIONS[number];
+
+export type SectionVersions = Partial<Record<ProjectSection, number>>;
+
+const SECTION_LABELS: Record<ProjectSection, string> = {
+  name: 'The project name',
+  style: 'The visual style',
+  characters: 'The character list',
+  locations: 'The locations board',
+  schedule: 'The shooting schedule',
+  budget: 'The rate card',
+  numbering: 'Scene numbering',
+  visualProfile: 'The visual profile',
+};
+
+export type VersionConflict =
+  | { scope: 'scene'; sceneNumber: number; version: number }
+  | { scope: 'section'; section: ProjectSection; version: number };
+
+export const sceneVersion = (scene: { version?: unknown } | null | undefined): number =>
+  typeof scene?.version === 'number' ? scene.version : 0;
+
+export const sectionVersion = (versions: SectionVersions | null | undefined, section: ProjectSection): number =>
+  versions?.[section] ?? 0;
+
+/** A version sent by the client: a non-negative integer, or undefined when the caller didn't send one */
+export function parseBaseVersion(value: unknown): number | undefined {
+  return typeof value === 'number' && Number.isInteger(value) && value >= 0 ? value : undefined;
+}
+
+export function describeConflict(conflict: VersionConflict): string {
+  const subject = conflict.scope === 'scene'
+    ? `Scene ${conflict.sceneNumber}`
+    : SECTION_LABELS[conflict.section];
+  return `${subject} was changed by someone else since you loaded it`;
+}
+
+/** The conflicts behind a failed save, or null when it didn't fail on versions */
+export function versionConflicts(error: unknown): VersionConflict[] | null {
+  const failed = error as { status?: number; details?: { conflicts?: unknown } } | null;
+  if (failed?.status !== 409 || !Array.isArray(failed.details?.conflicts)) return null;
+  return failed.details.conflicts as VersionConflict[];
+}
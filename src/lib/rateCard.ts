@@ -0,0 +1,115 @@
+// ═══════════════════════════════════════════════════════════════
+// RATE CARD
+// The rates a project's budget estimate is priced with: flat
+// above-the-line fees, cast day rates by tier, per-day costs for crew,
+// equipment, extras, vehicles and locations, and the multipliers applied
+// to scenes with effects, stunts, night work or high complexity.
+// Stored on the project; anything missing falls back to the defaults.
+// Pure module shared by the API and the frontend.
+// ═══════════════════════════════════════════════════════════════
+
+export interface RateCard {
+  /** ISO 4217 code the amounts are in */
+  currency: string;
+
+  // Above the line — flat fees
+  writerFee: number;
+  producerFee: number;
+  directorFee: number;
+
+  // Cast day rates; payroll runs from first to last work day, holds included
+  leadDayRate: number;
+  supportingDayRate: number;
+  dayPlayerRate: number;
+  /** The first N numbered cast members are leads */
+  leadCount: number;
+
+  // Below the line — per shoot day
+  crewDayRate: number;
+  equipmentDayRate: number;
+  /** Per shooting location, per day the company shoots there */
+  locationDayFee: number;
+  /** Per mid-day company move, unless the destination has its own cost */
+  companyMoveCost: number;
+  extraDayRate: number;
+  /** Headcount assumed when the breakdown says "bar patrons" without a number */
+  extrasPerUnspecifiedGroup: number;
+  vehicleDayRate: number;
+
+  // Scene multipliers on the crew and equipment share of a scene
+  sfxMultiplier: number;
+  stuntMultiplier: number;
+  nightMultiplier: number;
+  /** Added per complexity point above 3 (0.1 = +10% for a 4, +20% for a 5) */
+  complexityStep: number;
+
+  /** Per minute of estimated screen time */
+  postPerMinute: number;
+  contingencyPercent: number;
+}
+
+export type RateCardKey = Exclude<keyof RateCard, 'currency'>;
+
+/** What's stored on the project; the estimate itself is derived on every render */
+export interface ProjectBudget {
+  rateCard: RateCard;
+  updatedAt: string;
+}
+
+export const DEFAULT_RATE_CARD: RateCard = {
+  currency: 'USD',
+  writerFee: 25000,
+  producerFee: 30000,
+  directorFee: 40000,
+  leadDayRate: 2000,
+  supportingDayRate: 1000,
+  dayPlayerRate: 600,
+  leadCount: 2,
+  crewDayRate: 12000,
+  equipmentDayRate: 4000,
+  locationDayFee: 1500,
+  companyMoveCost: 2500,
+  extraDayRate: 200,
+  extrasPerUnspecifiedGroup: 5,
+  vehicleDayRate: 350,
+  sfxMultiplier: 1.5,
+  stuntMultiplier: 1.6,
+  nightMultiplier: 1.25,
+  complexityStep: 0.1,
+  postPerMinute: 1500,
+  contingencyPercent: 10,
+};
+
+export const RATE_CARD_KEYS = Object.keys(DEFAULT_RATE_CARD).filter(key => key !== 'currency') as RateCardKey[];
+
+/**
+ * Check a rate card sent by the client. Every amount must be a finite,
+ * non-negative number and multipliers can't discount a scene below its
+ * base cost. Returns the complete card, or a readable error.
+ */
+export function validateRateCard(raw: unknown): { rateCard: RateCard } | { error: string } {
+  if (!raw || typeof raw !== 'object') return { error: 'rateCard must be an object' };
+  const input = raw as Record<string, unknown>;
+  const rateCard: RateCard = { ...DEFAULT_RATE_CARD };
+
+  if (input.currency !== undefined) {
+    if (typeof input.currency !== 'string' || !/^[A-Z]{3}$/.test(input.currency)) {
+      return { error: 'currency must be a three-letter ISO code such as USD' };
+    }
+    rateCard.currency = input.currency;
+  }
+
+  for (const key of RATE_CARD_KEYS) {
+    const value = input[key];
+    if (value === undefined) continue;
+    if (typeof value !== 'number' || !Number.isFinite(value) || value < 0) {
+      return { error: `${key} must be a non-negative number` };
+    }
+    if (/Multiplier$/.test(key) && value < 1) {
+      return { error: `${key} must be at least 1` };
+    }
+    rateCard[key] = value;
+  }
+
+  return { rateCard };
+}
@@ -0,0 +1,173 @@
+// ═══════════════════════════════════════════════════════════════
+// PRODUCTION SCENE NUMBERS
+// Once a script is locked, scene numbers never change: new scenes are
+// inserted as 12A, 12B..., and cut scenes stay behind as "OMITTED 13"
+// placeholders. Scene.scene_number remains the internal sequence (order,
+// keys, schedules); the label here is what people see and what exports print.
+// Pure module shared by the API and the frontend.
+// ═══════════════════════════════════════════════════════════════
+
+import type { SceneMatch } from './scriptRevision';
+
+export interface OmittedScene {
+  /** Locked scene number that was cut, e.g. "13" */
+  label: string;
+  /** Heading it had before it was cut, when known */
+  heading?: string;
+}
+
+// "12", "12A", "12AB", and the "A12" form some scripts use for pre-inserts
+const LABEL = String.raw`(?:\d{1,4}[A-Z]{0,2}|[A-Z]\d{1,4})`;
+const HEADING_START = String.raw`(?:INT|EXT|EST|I\/E|I\.E)`;
+
+const LEADING_LABEL_RE = new RegExp(String.raw`^\s*(${LABEL})\.?\s+(?=${HEADING_START})`, 'i');
+const TRAILING_LABEL_RE = new RegExp(String.raw`\s+\*?(${LABEL})\*?\s*$`, 'i');
+const OMITTED_RE = new RegExp(String.raw`^\s*(?:SCENES?\s+)?(${LABEL})?\s*[.:-]?\s*OMITTED\b\s*(${LABEL})?\s*$`, 'i');
+
+/**
+ * Scene number written on a numbered slugline ("12A INT. HOUSE - DAY 12A"),
+ * or null for an unnumbered one.
+ */
+export function parseSceneLabel(heading: string): string | null {
+  const line = heading.split('\n')[0] || '';
+  const leading = line.match(LEADING_LABEL_RE);
+  if (leading) return leading[1].toUpperCase();
+  // A trailing number alone is only trusted when it isn't a story day ("NIGHT - DAY 2")
+  const trailing = line.match(TRAILING_LABEL_RE);
+  if (
+    trailing &&
+    new RegExp(String.raw`^\s*${HEADING_START}`, 'i').test(line) &&
+    !/\b(?:DAY|NIGHT|MORNING|EVENING)\s+\*?\d+[A-Z]?\*?\s*$/i.test(line)
+  ) {
+    return trailing[1].toUpperCase();
+  }
+  return null;
+}
+
+/** Lines like "13  OMITTED  13", "OMITTED 13" or "SCENE 13 OMITTED" */
+export function findOmittedLabels(text: string): string[] {
+  const labels: string[] = [];
+  for (const line of text.split('\n')) {
+    const match = line.match(OMITTED_RE);
+    const label = match && (match[1] || match[2]);
+    if (label && !labels.includes(label.toUpperCase())) labels.push(label.toUpperCase());
+  }
+  return labels;
+}
+
+function splitLabel(label: string): { number: number; suffix: string; prefix: string } {
+  const match = label.toUpperCase().match(/^([A-Z]?)(\d+)([A-Z]*)$/);
+  if (!match) return { number: Number.MAX_SAFE_INTEGER, suffix: label, prefix: '' };
+  return { prefix: match[1], number: parseInt(match[2], 10), suffix: match[3] };
+}
+
+/** Production order: A12 < 12 < 12A < 12B < ... < 12Z < 12AA < 13 */
+export function compareSceneLabels(a: string, b: string): number {
+  const left = splitLabel(a);
+  const right = splitLabel(b);
+  if (left.number !== right.number) return left.number - right.number;
+  if (left.prefix !== right.prefix) return left.prefix ? (right.prefix ? left.prefix.localeCompare(right.prefix) : -1) : 1;
+  if (left.suffix.length !== right.suffix.length) return left.suffix.length - right.suffix.length;
+  return left.suffix.localeCompare(right.suffix);
+}
+
+const nextSuffix = (suffix: string): string => {
+  if (!suffix) return 'A';
+  const last = suffix[suffix.length - 1];
+  if (last === 'Z') return `${suffix}A`;
+  return suffix.slice(0, -1) + String.fromCharCode(last.charCodeAt(0) + 1);
+};
+
+/**
+ * Label for a scene inserted after `previous` (12 -> 12A, 12A -> 12B),
+ * skipping anything already taken. With no previous scene the insert goes
+ * before `next` (1 -> A1).
+ */
+export function insertSceneLabel(previous: string | null, next: string | null, taken: Set<string>): string {
+  if (!previous) {
+    const base = next ? splitLabel(next).number : 1;
+    for (let code = 65; code <= 90; code++) {
+      const candidate = `${String.fromCharCode(code)}${base}`;
+      if (!taken.has(candidate)) return candidate;
+    }
+  }
+  const { number, suffix } = splitLabel(previous || '1');
+  let candidate = `${number}${nextSuffix(suffix)}`;
+  while (taken.has(candidate)) candidate = `${number}${nextSuffix(splitLabel(candidate).suffix)}`;
+  return candidate;
+}
+
+/**
+ * Fill in labels for an ordered scene list where some scenes already hold a
+ * locked number and the rest are new inserts.
+ */
+export function assignLockedLabels(labels: Array<string | null | undefined>, reserved: string[] = []): string[] {
+  const taken = new Set<string>([...labels.filter((l): l is string => !!l), ...reserved]);
+  const result: string[] = [];
+  labels.forEach((label, idx) => {
+    if (label) {
+      result.push(label);
+      return;
+    }
+    const next = labels.slice(idx + 1).find((l): l is string => !!l) || null;
+    const assigned = insertSceneLabel(result[idx - 1] || null, next, taken);
+    taken.add(assigned);
+    result.push(assigned);
+  });
+  return result;
+}
+
+/** The number to show and export for a scene */
+export const displaySceneNumber = (scene: { scene_number: number; scene_label?: string | null }): string =>
+  scene.scene_label || String(scene.scene_number);
+
+export interface RevisionLabelPlan {
+  /** Label for each scene of the revised draft, by its new scene number */
+  labels: Map<number, string>;
+  omitted: OmittedScene[];
+}
+
+/**
+ * Scene labels after importing a revised draft. Locked projects keep every
+ * matched scene's number, give added scenes insert numbers and turn dropped
+ * scenes into OMITTED placeholders; unlocked projects take whatever
+ * numbering the new draft carries.
+ */
+export function planRevisionLabels(
+  matches: SceneMatch[],
+  options: {
+    locked: boolean;
+    existingLabels: Map<number, string>;
+    revisedLabels: Map<number, string>;
+    previouslyOmitted?: OmittedScene[];
+    draftOmitted?: string[];
+  }
+): RevisionLabelPlan {
+  const kept = matches.filter(m => m.status !== 'omitted');
+  const labels = new Map<number, string>();
+
+  if (!options.locked) {
+    for (const match of kept) {
+      const label = options.revisedLabels.get(match.newNumber!);
+      if (label) labels.set(match.newNumber!, label);
+    }
+    return { labels, omitted: (options.draftOmitted || []).map(label => ({ label })) };
+  }
+
+  const omitted = [...(options.previouslyOmitted || [])];
+  for (const match of matches) {
+    if (match.status !== 'omitted') continue;
+    const label = options.existingLabels.get(match.oldNumber!) || String(match.oldNumber);
+    if (!omitted.some(o => o.label === label)) omitted.push({ label, heading: match.heading });
+  }
+
+  const assigned = assignLockedLabels(
+    kept.map(match =>
+      match.oldNumber !== undefined ? options.existingLabels.get(match.oldNumber) || String(match.oldNumber) : null
+    ),
+    omitted.map(o => o.label)
+  );
+  kept.forEach((match, idx) => labels.set(match.newNumber!, assigned[idx]));
+  omitted.sort((a, b) => compareSceneLabels(a.label, b.label));
+  return { labels, omitted };
+}
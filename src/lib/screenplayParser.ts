@@ -1,5 +1,6 @@
 // lib/screenplayParser.ts
 import { logger } from "@/utils/logger";
+import { parseSceneLabel } from "./sceneNumbering";
 
 export interface SceneHeader {
   raw: string;
@@ -16,6 +17,8 @@ export interface ParsedScene {
   content: string;
   pageNumber?: number;
   duration?: string;
+  /** Scene number as written on a numbered slugline, if any */
+  sceneLabel?: string;
 }
 
 export interface ParsedScreenplay {
@@ -23,7 +26,7 @@ export interface ParsedScreenplay {
   scenes: ParsedScene[];
   metadata: {
     totalScenes: number;
-    format: 'fountain' | 'fdx' | 'plaintext';
+    format: 'fdx' | 'plaintext';
     parseDate: string;
   };
 }
@@ -319,6 +322,7 @@ export function parseScreenplay(rawText: string): ParsedScreenplay {
         header: line.trim(),
         headerParsed: parseSlugline(line, sceneCounter),
         content: '',
+        sceneLabel: parseSceneLabel(line) || undefined,
       };
       continue;
     }
@@ -359,6 +363,41 @@ export function parseScreenplay(rawText: string): ParsedScreenplay {
   };
 }
 
+/**
+ * Split extracted screenplay text (PDF, FDX, TXT) into numbered scene blocks
+ * at each INT./EXT. heading. Used for uploads the server doesn't structure.
+ * Numbered sluglines ("12A INT. HOUSE - DAY 12A") carry their production
+ * scene number through as `label`.
+ */
+export function splitScreenplayScenes(text: string): Array<{ number: number; text: string; label?: string }> {
+  logger.log(`[Parse] Processing extracted text (${text?.length} chars)`);
+
+  // Server-side PDF parser already handles spaced-out text correctly
+  text = text.replace(/  +/g, ' ');
+  text = text.replace(/\s+(\d{1,4}[A-Z]{0,2}\s+)?(INT\.|EXT\.|I\/E\.|I\.E\.)\s+/gi, '\n$1$2 ');
+
+  const firstSceneMatch = text.match(/(?:^|\n)\s*\d*\s*(INT\.|EXT\.|I\/E|I\.E\.)\s+/i);
+  if (!firstSceneMatch) {
+    return [];
+  }
+
+  const scriptText = text.substring(firstSceneMatch.index!);
+  const scenePattern = /(?=(?:^|\n)[ \t]*\d*[ \t]*(?:INT\.|EXT\.|I\/E|I\.E\.)[ \t]+)/gim;
+  const sceneBlocks = scriptText.split(scenePattern);
+
+  const scenes = sceneBlocks
+    .map(block => block.trim())
+    .filter(block => /^[ \t]*\d*[ \t]*(?:INT\.|EXT\.|I\/E|I\.E\.)[ \t]+/i.test(block.trim()))
+    .map((block, index) => {
+      const label = parseSceneLabel(block);
+      return { number: index + 1, text: block.trim(), ...(label ? { label } : {}) };
+    });
+
+  logger.log(`[Parse] Extracted ${scenes.length} scenes`);
+
+  return scenes;
+}
+
 export function getSceneContentForAnalysis(scene: ParsedScene): string {
   return scene.content;
 }
@@ -0,0 +1,172 @@
+// ═══════════════════════════════════════════════════════════════
+// SCRIPT REVISIONS
+// Matches the scenes of a revised draft (blue pages, pink pages...)
+// against the scenes already in a project, so unchanged scenes keep
+// their analyses and only modified or new ones need re-analysis.
+// Pure module shared by the import endpoint and the preview dialog.
+// ═══════════════════════════════════════════════════════════════
+
+export type SceneRevisionStatus = 'unchanged' | 'modified' | 'added' | 'omitted';
+
+/** Industry-standard revision colour order, starting after the white draft */
+export const REVISION_COLORS = [
+  'Blue', 'Pink', 'Yellow', 'Green', 'Goldenrod', 'Buff', 'Salmon', 'Cherry',
+] as const;
+
+export interface RevisionSceneInput {
+  number: number;
+  text: string;
+  /** Production scene number printed on the draft's slugline, if any */
+  label?: string;
+}
+
+export interface SceneMatch {
+  status: SceneRevisionStatus;
+  /** Scene number in the revised draft (absent for omitted scenes) */
+  newNumber?: number;
+  /** Scene number in the project (absent for added scenes) */
+  oldNumber?: number;
+  heading: string;
+  /** 0–1 content similarity of the matched pair */
+  similarity: number;
+}
+
+export interface ScriptRevisionRecord {
+  label: string;
+  fileName?: string;
+  importedAt: string;
+  counts: Record<SceneRevisionStatus, number>;
+}
+
+// A pair must score at least this to count as the same scene
+const MATCH_THRESHOLD = 0.35;
+
+const WEIGHTS = { content: 0.6, heading: 0.3, number: 0.1 };
+
+export const sceneHeading = (text: string): string =>
+  (text.split('\n').find(line => line.trim()) || '').trim();
+
+// Scene numbers on either side of the slugline come and go between drafts
+const normalizeHeading = (heading: string): string =>
+  heading
+    .toLowerCase()
+    .replace(/^\s*\d+[a-z]?\s+/, '')
+    .replace(/\s+\d+[a-z]?\s*$/, '')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+
+const sceneBody = (text: string): string => {
+  const lines = text.split('\n');
+  const headingIdx = lines.findIndex(line => line.trim());
+  return lines.slice(headingIdx + 1).join(' ').replace(/\s+/g, ' ').trim().toLowerCase();
+};
+
+function shingles(text: string): Set<string> {
+  const words = text.toLowerCase().match(/[a-z0-9']+/g) || [];
+  if (words.length < 2) return new Set(words);
+  const result = new Set<string>();
+  for (let i = 0; i < words.length - 1; i++) result.add(`${words[i]} ${words[i + 1]}`);
+  return result;
+}
+
+/** Sørensen–Dice coefficient over word bigrams */
+function dice(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 && b.size === 0) return 1;
+  if (a.size === 0 || b.size === 0) return 0;
+  let shared = 0;
+  for (const item of a) if (b.has(item)) shared++;
+  return (2 * shared) / (a.size + b.size);
+}
+
+interface Prepared {
+  number: number;
+  text: string;
+  heading: string;
+  headingKey: string;
+  body: string;
+  headingShingles: Set<string>;
+  bodyShingles: Set<string>;
+}
+
+const prepare = (scene: RevisionSceneInput): Prepared => {
+  const heading = sceneHeading(scene.text);
+  const headingKey = normalizeHeading(heading);
+  const body = sceneBody(scene.text);
+  return {
+    number: scene.number,
+    text: scene.text,
+    heading,
+    headingKey,
+    body,
+    headingShingles: shingles(headingKey),
+    bodyShingles: shingles(body),
+  };
+};
+
+/**
+ * Pair every revised scene with at most one existing scene. Pairs are scored
+ * on content, heading and scene number and assigned greedily, best first.
+ * A pair whose heading and body are identical (ignoring whitespace and scene
+ * numbers) is unchanged; any other pair is modified. Leftovers on the revised
+ * side are added, leftovers on the project side are omitted.
+ */
+export function matchRevisedScenes(existing: RevisionSceneInput[], revised: RevisionSceneInput[]): SceneMatch[] {
+  const oldScenes = existing.map(prepare);
+  const newScenes = revised.map(prepare);
+
+  const candidates: Array<{ oldIdx: number; newIdx: number; score: number; content: number }> = [];
+  newScenes.forEach((next, newIdx) => {
+    oldScenes.forEach((prev, oldIdx) => {
+      const content = dice(prev.bodyShingles, next.bodyShingles);
+      const heading = prev.headingKey === next.headingKey ? 1 : dice(prev.headingShingles, next.headingShingles);
+      const score = WEIGHTS.content * content + WEIGHTS.heading * heading + WEIGHTS.number * (prev.number === next.number ? 1 : 0);
+      if (score >= MATCH_THRESHOLD) candidates.push({ oldIdx, newIdx, score, content });
+    });
+  });
+  candidates.sort((a, b) => b.score - a.score || Math.abs(a.oldIdx - a.newIdx) - Math.abs(b.oldIdx - b.newIdx));
+
+  const oldTaken = new Map<number, { newIdx: number; content: number }>();
+  const newTaken = new Map<number, { oldIdx: number; content: number }>();
+  for (const candidate of candidates) {
+    if (oldTaken.has(candidate.oldIdx) || newTaken.has(candidate.newIdx)) continue;
+    oldTaken.set(candidate.oldIdx, { newIdx: candidate.newIdx, content: candidate.content });
+    newTaken.set(candidate.newIdx, { oldIdx: candidate.oldIdx, content: candidate.content });
+  }
+
+  const matches: SceneMatch[] = newScenes.map((next, newIdx) => {
+    const pair = newTaken.get(newIdx);
+    if (!pair) return { status: 'added', newNumber: next.number, heading: next.heading, similarity: 0 };
+    const prev = oldScenes[pair.oldIdx];
+    const identical = prev.headingKey === next.headingKey && prev.body === next.body;
+    return {
+      status: identical ? 'unchanged' : 'modified',
+      newNumber: next.number,
+      oldNumber: prev.number,
+      heading: next.heading,
+      similarity: identical ? 1 : pair.content,
+    };
+  });
+
+  oldScenes.forEach((prev, oldIdx) => {
+    if (!oldTaken.has(oldIdx)) {
+      matches.push({ status: 'omitted', oldNumber: prev.number, heading: prev.heading, similarity: 0 });
+    }
+  });
+
+  return matches;
+}
+
+export function countMatches(matches: SceneMatch[]): Record<SceneRevisionStatus, number> {
+  const counts: Record<SceneRevisionStatus, number> = { unchanged: 0, modified: 0, added: 0, omitted: 0 };
+  for (const match of matches) counts[match.status]++;
+  return counts;
+}
+
+/** Scenes that need a fresh analysis: modified and added, in revised order */
+export const scenesToReanalyze = (matches: SceneMatch[]): number[] =>
+  matches
+    .filter(m => (m.status === 'modified' || m.status === 'added') && m.newNumber !== undefined)
+    .map(m => m.newNumber!);
+
+export const nextRevisionLabel = (previous: ScriptRevisionRecord[] = []): string =>
+  REVISION_COLORS[previous.length % REVISION_COLORS.length];
@@ -0,0 +1,164 @@
+// ═══════════════════════════════════════════════════════════════
+// SHOT CAMERA
+// Structured camera metadata for a shot-list entry: size, angle, movement,
+// lens, rig, frame rate and the setup it belongs to. The vocabularies match
+// ShotImagePrompt.shot_details so a shot can drive an image prompt without
+// translation. The directing call fills these in; normalizeShotCamera
+// coerces whatever the model (or an older analysis) wrote into them and
+// drops values it can't place, so a bad lens never blocks a save.
+// Shots that share a setup_id share a camera position and lighting, and are
+// shot back to back. Pure module shared by the API and the frontend.
+// ═══════════════════════════════════════════════════════════════
+
+export const SHOT_SIZES = ['EXTREME_WIDE', 'WIDE', 'MEDIUM_WIDE', 'MEDIUM', 'MEDIUM_CLOSE', 'CLOSE_UP', 'EXTREME_CLOSE', 'INSERT', 'POV'] as const;
+export const CAMERA_ANGLES = ['EYE_LEVEL', 'LOW_ANGLE', 'HIGH_ANGLE', 'DUTCH_ANGLE', 'OVERHEAD', 'WORM_EYE'] as const;
+export const CAMERA_MOVEMENTS = ['STATIC', 'PUSH_IN', 'PULL_OUT', 'DOLLY', 'PAN', 'TILT', 'HANDHELD', 'STEADICAM', 'CRANE'] as const;
+export const CAMERA_RIGS = ['TRIPOD', 'DOLLY', 'SLIDER', 'HANDHELD', 'STEADICAM', 'GIMBAL', 'CRANE', 'DRONE', 'CAR_MOUNT'] as const;
+
+export type ShotSize = typeof SHOT_SIZES[number];
+export type CameraAngle = typeof CAMERA_ANGLES[number];
+export type CameraMovement = typeof CAMERA_MOVEMENTS[number];
+export type CameraRig = typeof CAMERA_RIGS[number];
+
+export interface ShotCamera {
+  shot_size?: ShotSize;
+  camera_angle?: CameraAngle;
+  camera_movement?: CameraMovement;
+  /** Focal length in millimetres (full-frame equivalent) */
+  lens_mm?: number;
+  rig?: CameraRig;
+  /** Capture frame rate; only worth recording when it isn't the project base */
+  frame_rate?: number;
+  /** Short setup label ("A", "B"...). Shots sharing it share a camera position and lighting */
+  setup_id?: string;
+}
+
+export const SHOT_CAMERA_KEYS: Array<keyof ShotCamera> = ['shot_size', 'camera_angle', 'camera_movement', 'lens_mm', 'rig', 'frame_rate', 'setup_id'];
+
+/** Abbreviations a camera report uses for shot sizes */
+export const SHOT_SIZE_ABBREVIATIONS: Record<ShotSize, string> = {
+  EXTREME_WIDE: 'EWS',
+  WIDE: 'WS',
+  MEDIUM_WIDE: 'MWS',
+  MEDIUM: 'MS',
+  MEDIUM_CLOSE: 'MCU',
+  CLOSE_UP: 'CU',
+  EXTREME_CLOSE: 'ECU',
+  INSERT: 'INSERT',
+  POV: 'POV',
+};
+
+// Spellings the model and older analyses use for the same thing
+const SIZE_ALIASES: Record<string, ShotSize> = {
+  EWS: 'EXTREME_WIDE', ELS: 'EXTREME_WIDE', EXTREME_LONG: 'EXTREME_WIDE', ESTABLISHING: 'EXTREME_WIDE',
+  WS: 'WIDE', LS: 'WIDE', LONG: 'WIDE', FULL: 'WIDE', GROUP_SHOT: 'WIDE',
+  MWS: 'MEDIUM_WIDE', MLS: 'MEDIUM_WIDE', MEDIUM_LONG: 'MEDIUM_WIDE', COWBOY: 'MEDIUM_WIDE', TWO_SHOT: 'MEDIUM_WIDE',
+  MS: 'MEDIUM', MID: 'MEDIUM',
+  MCU: 'MEDIUM_CLOSE', MEDIUM_CLOSE_UP: 'MEDIUM_CLOSE', OVER_SHOULDER: 'MEDIUM_CLOSE', OTS: 'MEDIUM_CLOSE',
+  CU: 'CLOSE_UP', CLOSE: 'CLOSE_UP', CLOSEUP: 'CLOSE_UP',
+  ECU: 'EXTREME_CLOSE', XCU: 'EXTREME_CLOSE', EXTREME_CLOSE_UP: 'EXTREME_CLOSE',
+  INSERT_SHOT: 'INSERT',
+};
+
+const MOVEMENT_ALIASES: Record<string, CameraMovement> = {
+  LOCKED_OFF: 'STATIC', LOCKED: 'STATIC', NONE: 'STATIC',
+  PUSH: 'PUSH_IN', DOLLY_IN: 'PUSH_IN', TRACK_IN: 'PUSH_IN',
+  PULL: 'PULL_OUT', PULL_BACK: 'PULL_OUT', DOLLY_OUT: 'PULL_OUT', TRACK_OUT: 'PULL_OUT',
+  TRACK: 'DOLLY', TRACKING: 'DOLLY',
+  WHIP_PAN: 'PAN',
+  HAND_HELD: 'HANDHELD',
+  JIB: 'CRANE',
+};
+
+const ANGLE_ALIASES: Record<string, CameraAngle> = {
+  EYE: 'EYE_LEVEL', NEUTRAL: 'EYE_LEVEL',
+  LOW: 'LOW_ANGLE', HIGH: 'HIGH_ANGLE',
+  DUTCH: 'DUTCH_ANGLE', CANTED: 'DUTCH_ANGLE',
+  TOP_DOWN: 'OVERHEAD', BIRDS_EYE: 'OVERHEAD',
+  WORMS_EYE: 'WORM_EYE',
+};
+
+const RIG_ALIASES: Record<string, CameraRig> = {
+  STICKS: 'TRIPOD', STATIC: 'TRIPOD',
+  TRACK: 'DOLLY', HAND_HELD: 'HANDHELD', SHOULDER: 'HANDHELD',
+  JIB: 'CRANE', TECHNOCRANE: 'CRANE',
+  UAV: 'DRONE', CAR_RIG: 'CAR_MOUNT', HOSTESS_TRAY: 'CAR_MOUNT',
+};
+
+// "Close-up", "close up" and "CLOSE_UP" all become CLOSE_UP
+const token = (value: unknown): string =>
+  typeof value === 'string' ? value.trim().toUpperCase().replace(/['’]/g, '').replace(/[^A-Z0-9]+/g, '_').replace(/^_|_$/g, '') : '';
+
+function pick<T extends string>(value: unknown, allowed: readonly T[], aliases: Record<string, T>): T | undefined {
+  const key = token(value);
+  if ((allowed as readonly string[]).includes(key)) return key as T;
+  return aliases[key];
+}
+
+// 35, "35", "35mm" and "35 mm" all read as 35
+function positiveNumber(value: unknown, max: number): number | undefined {
+  const parsed = typeof value === 'number' ? value : parseFloat(String(value ?? ''));
+  return Number.isFinite(parsed) && parsed > 0 && parsed <= max ? Math.round(parsed * 100) / 100 : undefined;
+}
+
+/** Shot size implied by the free-text shot_type, for shots that predate shot_size */
+export const shotSizeFromType = (shotType: string | undefined): ShotSize | undefined =>
+  pick(shotType, SHOT_SIZES, SIZE_ALIASES);
+
+/** Coerce raw camera fields into the structured vocabulary, dropping anything unplaceable */
+export function normalizeShotCamera(raw: Record<string, unknown>): ShotCamera {
+  const camera: ShotCamera = {
+    shot_size: pick(raw.shot_size, SHOT_SIZES, SIZE_ALIASES),
+    camera_angle: pick(raw.camera_angle, CAMERA_ANGLES, ANGLE_ALIASES),
+    camera_movement: pick(raw.camera_movement, CAMERA_MOVEMENTS, MOVEMENT_ALIASES),
+    lens_mm: positiveNumber(raw.lens_mm, 2000),
+    rig: pick(raw.rig, CAMERA_RIGS, RIG_ALIASES),
+    frame_rate: positiveNumber(raw.frame_rate, 1000),
+    setup_id: typeof raw.setup_id === 'string' && raw.setup_id.trim() ? raw.setup_id.trim().toUpperCase().slice(0, 12) : undefined,
+  };
+  for (const key of SHOT_CAMERA_KEYS) {
+    if (camera[key] === undefined) delete camera[key];
+  }
+  return camera;
+}
+
+/** The shot with its camera fields normalized in place of whatever was there */
+export function withShotCamera<T extends object>(shot: T): T & ShotCamera {
+  const rest = { ...shot } as Record<string, unknown>;
+  for (const key of SHOT_CAMERA_KEYS) delete rest[key];
+  return { ...rest, ...normalizeShotCamera(shot as Record<string, unknown>) } as T & ShotCamera;
+}
+
+/** "PUSH_IN" → "Push in" */
+export const cameraLabel = (value: string): string =>
+  value.charAt(0) + value.slice(1).toLowerCase().replace(/_/g, ' ');
+
+/** One-line camera summary, e.g. "MCU • Low angle • Push in • 50mm • Dolly • 48fps" */
+export function formatShotCamera(camera: ShotCamera): string {
+  return [
+    camera.shot_size ? SHOT_SIZE_ABBREVIATIONS[camera.shot_size] : '',
+    camera.camera_angle ? cameraLabel(camera.camera_angle) : '',
+    camera.camera_movement ? cameraLabel(camera.camera_movement) : '',
+    camera.lens_mm ? `${camera.lens_mm}mm` : '',
+    camera.rig ? cameraLabel(camera.rig) : '',
+    camera.frame_rate ? `${camera.frame_rate}fps` : '',
+  ].filter(Boolean).join(' • ');
+}
+
+export interface ShotSetup {
+  setupId: string;
+  /** Zero-based positions in the shot list, in cut order */
+  shotIndexes: number[];
+}
+
+/** Shots grouped by setup in order of first appearance; shots without one (or legacy string shots) are left out */
+export function groupShotsBySetup(shots: Array<ShotCamera | string>): ShotSetup[] {
+  const setups = new Map<string, ShotSetup>();
+  shots.forEach((shot, index) => {
+    if (typeof shot !== 'object' || !shot?.setup_id) return;
+    const setup = setups.get(shot.setup_id) || { setupId: shot.setup_id, shotIndexes: [] };
+    setup.shotIndexes.push(index);
+    setups.set(shot.setup_id, setup);
+  });
+  return Array.from(setups.values());
+}
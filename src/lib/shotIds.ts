@@ -0,0 +1,102 @@
+// ═══════════════════════════════════════════════════════════════
+// SHOT IDS
+// Every structured shot carries a UUID the server assigns when the
+// analysis is saved. The ID is what frames, notes and exports refer to, so
+// it has to outlive the shot's position: reordering keeps it because the
+// client sends it back, and a re-analysis (which comes back from the model
+// without IDs) inherits it from the previous shot it most resembles.
+// Shots nothing resembles get a fresh ID. Pure module shared by the API
+// and the frontend.
+// ═══════════════════════════════════════════════════════════════
+
+const UUID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/** Below this word overlap a re-analyzed shot counts as a different shot */
+const MIN_SIMILARITY = 0.5;
+
+export const isShotId = (value: unknown): value is string => typeof value === 'string' && UUID.test(value);
+
+export const newShotId = (): string =>
+  typeof globalThis.crypto !== 'undefined' && 'randomUUID' in globalThis.crypto
+    ? globalThis.crypto.randomUUID()
+    : 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, c => {
+        const r = Math.floor(Math.random() * 16);
+        return (c === 'x' ? r : (r & 0x3) | 0x8).toString(16);
+      });
+
+type ShotLike = Record<string, unknown> & { id?: unknown };
+
+const isShotObject = (shot: unknown): shot is ShotLike => typeof shot === 'object' && shot !== null;
+
+function words(shot: ShotLike): Set<string> {
+  const text = [shot.subject, shot.visual, shot.visual_description, shot.visualDescription]
+    .filter((part): part is string => typeof part === 'string')
+    .join(' ')
+    .toLowerCase();
+  return new Set(text.match(/[a-z0-9']{3,}/g) || []);
+}
+
+function similarity(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 || b.size === 0) return 0;
+  let shared = 0;
+  a.forEach(word => { if (b.has(word)) shared++; });
+  return shared / (a.size + b.size - shared);
+}
+
+/**
+ * The shot list with an ID on every structured shot. Valid IDs the shots
+ * already carry are kept (the first copy of a duplicated shot keeps it);
+ * the rest inherit the ID of the most similar previous shot not already
+ * spoken for, or get a new one. Plain-string shots from very old analyses
+ * are passed through.
+ */
+export function assignShotIds<T>(shots: T[], previous: unknown[] = []): T[] {
+  const used = new Set<string>();
+  const needsId: Array<{ shot: ShotLike; index: number }> = [];
+  shots.forEach((shot, index) => {
+    if (!isShotObject(shot)) return;
+    if (isShotId(shot.id) && !used.has(shot.id)) {
+      used.add(shot.id);
+    } else {
+      needsId.push({ shot, index });
+    }
+  });
+
+  const candidates = previous
+    .map((shot, index) => ({ shot, index }))
+    .filter((entry): entry is { shot: ShotLike & { id: string }; index: number } =>
+      isShotObject(entry.shot) && isShotId(entry.shot.id) && !used.has(entry.shot.id));
+
+  // Best pairs first; a small nudge toward shots that stayed in place breaks ties
+  const pairs: Array<{ next: number; id: string; score: number }> = [];
+  const span = Math.max(shots.length, previous.length, 1);
+  needsId.forEach(({ shot, index }) => {
+    const shotWords = words(shot);
+    candidates.forEach(candidate => {
+      let score = similarity(shotWords, words(candidate.shot));
+      if (score < MIN_SIMILARITY) return;
+      if (shot.shot_type && shot.shot_type === candidate.shot.shot_type) score += 0.05;
+      score -= (Math.abs(index - candidate.index) / span) * 0.01;
+      pairs.push({ next: index, id: candidate.shot.id, score });
+    });
+  });
+  pairs.sort((a, b) => b.score - a.score);
+
+  const inherited = new Map<number, string>();
+  for (const pair of pairs) {
+    if (inherited.has(pair.next) || used.has(pair.id)) continue;
+    inherited.set(pair.next, pair.id);
+    used.add(pair.id);
+  }
+
+  const result = [...shots];
+  needsId.forEach(({ shot, index }) => {
+    result[index] = { ...shot, id: inherited.get(index) || newShotId() } as T;
+  });
+  return result;
+}
+
+/** Storyboard notes on the project, keyed by shot ID so they follow the shot */
+export type ShotNotes = Record<string, string>;
+
+export const MAX_SHOT_NOTE_LENGTH = 2000;
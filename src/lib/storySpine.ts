@@ -0,0 +1,204 @@
+// ═══════════════════════════════════════════════════════════════
+// STORY SPINE
+// A compact bible of the whole script, built in one pass before scenes are
+// analyzed: logline, act breaks, character arcs, setups with the scenes they
+// pay off in, and recurring motifs. Every scene's story and directing prompts
+// get the slice of it that concerns that scene, so a prop planted in scene 3
+// is analyzed as the setup for scene 44. Scene references are the internal
+// sequence numbers (Scene.scene_number), not production labels.
+// Pure module shared by the API and the frontend.
+// ═══════════════════════════════════════════════════════════════
+
+import { z } from 'zod';
+
+export interface SpineActBreak {
+  act: number;
+  label: string;
+  starts_at_scene: number;
+  summary: string;
+}
+
+export interface SpineCharacterArc {
+  character: string;
+  /** Where they start, what changes them, where they end */
+  arc: string;
+  key_scenes: number[];
+}
+
+export interface SpineSetupPayoff {
+  /** Stable within one spine ("SP1"); scene analyses link to it */
+  id: string;
+  /** Short name for the thread, e.g. "The loaded revolver in the drawer" */
+  description: string;
+  setup_scene: number;
+  setup: string;
+  payoff_scenes: number[];
+  payoff: string;
+}
+
+export interface SpineMotif {
+  motif: string;
+  meaning: string;
+  scenes: number[];
+}
+
+export interface StorySpineMeta {
+  model: string;
+  generatedAt: string;
+  /** Scenes in the script when the spine was built; a mismatch means it is stale */
+  sceneCount: number;
+}
+
+export interface StorySpine {
+  logline: string;
+  act_breaks: SpineActBreak[];
+  character_arcs: SpineCharacterArc[];
+  setup_payoffs: SpineSetupPayoff[];
+  motifs: SpineMotif[];
+  meta?: StorySpineMeta;
+}
+
+/** A scene's end of a spine thread, and the scenes at the other end */
+export interface SetupPayoffLink {
+  thread: string;
+  role: 'setup' | 'payoff';
+  description: string;
+  /** For a setup, the scenes it pays off in; for a payoff, the scene that set it up */
+  scenes: number[];
+}
+
+// ─── Model output ────────────────────────────────────────────────
+
+const sceneRefs = z.array(z.coerce.number()).default([]);
+
+/** What the STORY_SPINE call must return; scene references are checked separately */
+export const storySpineSchema = z.object({
+  logline: z.string({ required_error: 'logline is missing' }).trim().min(20, 'logline is missing or too short (min 20 chars)'),
+  act_breaks: z.array(z.object({
+    act: z.coerce.number(),
+    label: z.string().default(''),
+    starts_at_scene: z.coerce.number(),
+    summary: z.string().default(''),
+  }).passthrough()).min(1, 'act_breaks is missing or empty'),
+  character_arcs: z.array(z.object({
+    character: z.string().min(1, 'character is missing'),
+    arc: z.string().default(''),
+    key_scenes: sceneRefs,
+  }).passthrough()).default([]),
+  setup_payoffs: z.array(z.object({
+    description: z.string().min(1, 'description is missing'),
+    setup_scene: z.coerce.number(),
+    setup: z.string().default(''),
+    payoff_scenes: sceneRefs,
+    payoff: z.string().default(''),
+  }).passthrough()).default([]),
+  motifs: z.array(z.object({
+    motif: z.string().min(1, 'motif is missing'),
+    meaning: z.string().default(''),
+    scenes: sceneRefs,
+  }).passthrough()).default([]),
+}).passthrough();
+
+/** Model output before its threads are numbered */
+type SpineDraft = Omit<StorySpine, 'setup_payoffs' | 'meta'> & { setup_payoffs: Array<Omit<SpineSetupPayoff, 'id'>> };
+
+/**
+ * Validated model output with every scene reference checked against the
+ * script: unknown scenes are dropped, threads whose setup or every payoff
+ * fell off are removed, and threads get their ids. Throws a readable error
+ * when the output doesn't fit the schema.
+ */
+export function normalizeStorySpine(raw: unknown, sceneNumbers: number[]): StorySpine {
+  const result = storySpineSchema.safeParse(raw);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    throw new Error(`Story spine is incomplete: ${issue.path.join('.') || 'output'}: ${issue.message}`);
+  }
+  const parsed = result.data as unknown as SpineDraft;
+  const known = new Set(sceneNumbers);
+  const refs = (scenes: number[]) => [...new Set(scenes.filter(n => known.has(n)))].sort((a, b) => a - b);
+
+  return {
+    logline: parsed.logline,
+    act_breaks: parsed.act_breaks
+      .filter(act => known.has(act.starts_at_scene))
+      .sort((a, b) => a.starts_at_scene - b.starts_at_scene),
+    character_arcs: parsed.character_arcs.map(arc => ({ ...arc, key_scenes: refs(arc.key_scenes) })),
+    setup_payoffs: parsed.setup_payoffs
+      .map(thread => ({ ...thread, payoff_scenes: refs(thread.payoff_scenes).filter(n => n !== thread.setup_scene) }))
+      .filter(thread => known.has(thread.setup_scene) && thread.payoff_scenes.length > 0)
+      .sort((a, b) => a.setup_scene - b.setup_scene)
+      .map((thread, index) => ({ ...thread, id: `SP${index + 1}` })),
+    motifs: parsed.motifs.map(motif => ({ ...motif, scenes: refs(motif.scenes) })),
+  };
+}
+
+// ─── Per-scene slices ────────────────────────────────────────────
+
+/** Spine threads that start or land in this scene */
+export function sceneThreadLinks(spine: StorySpine | null | undefined, sceneNumber: number): SetupPayoffLink[] {
+  if (!spine) return [];
+  const links: SetupPayoffLink[] = [];
+  for (const thread of spine.setup_payoffs) {
+    if (thread.setup_scene === sceneNumber) {
+      links.push({ thread: thread.id, role: 'setup', description: thread.description, scenes: thread.payoff_scenes });
+    }
+    if (thread.payoff_scenes.includes(sceneNumber)) {
+      links.push({ thread: thread.id, role: 'payoff', description: thread.description, scenes: [thread.setup_scene] });
+    }
+  }
+  return links;
+}
+
+/** The act a scene falls in: the last act break at or before it */
+export function actForScene(spine: StorySpine, sceneNumber: number): SpineActBreak | null {
+  let current: SpineActBreak | null = null;
+  for (const act of spine.act_breaks) {
+    if (act.starts_at_scene <= sceneNumber) current = act;
+  }
+  return current;
+}
+
+const sceneList = (scenes: number[]) => scenes.map(n => `scene ${n}`).join(', ');
+
+/**
+ * Prompt block telling the model where this scene sits in the whole script.
+ * Only the arcs, threads and motifs that touch the scene are included, so it
+ * stays short however long the script is. Empty without a spine.
+ */
+export function spineContextForScene(spine: StorySpine | null | undefined, sceneNumber: number): string {
+  if (!spine) return '';
+  const lines = [`LOGLINE: ${spine.logline}`];
+
+  const act = actForScene(spine, sceneNumber);
+  if (act) lines.push(`POSITION: Act ${act.act}${act.label ? ` (${act.label})` : ''} — ${act.summary}`);
+  const nextAct = spine.act_breaks.find(a => a.starts_at_scene === sceneNumber + 1);
+  if (nextAct) lines.push(`This scene closes the act; Act ${nextAct.act} begins next.`);
+
+  const arcs = spine.character_arcs.filter(arc => arc.key_scenes.includes(sceneNumber));
+  if (arcs.length > 0) {
+    lines.push('CHARACTER ARCS THAT TURN HERE:');
+    arcs.forEach(arc => lines.push(`- ${arc.character}: ${arc.arc}`));
+  }
+
+  const byId = new Map(spine.setup_payoffs.map(thread => [thread.id, thread]));
+  const links = sceneThreadLinks(spine, sceneNumber);
+  if (links.length > 0) {
+    lines.push('SETUPS AND PAYOFFS IN THIS SCENE:');
+    for (const link of links) {
+      const thread = byId.get(link.thread);
+      if (!thread) continue;
+      lines.push(link.role === 'setup'
+        ? `- [${link.thread}] SETUP "${thread.description}": ${thread.setup} — pays off in ${sceneList(link.scenes)}: ${thread.payoff}`
+        : `- [${link.thread}] PAYOFF "${thread.description}": ${thread.payoff} — set up in ${sceneList(link.scenes)}: ${thread.setup}`);
+    }
+  }
+
+  const motifs = spine.motifs.filter(motif => motif.scenes.includes(sceneNumber));
+  if (motifs.length > 0) {
+    lines.push('RECURRING MOTIFS PRESENT:');
+    motifs.forEach(motif => lines.push(`- ${motif.motif}: ${motif.meaning} (also in ${sceneList(motif.scenes.filter(n => n !== sceneNumber)) || 'no other scene'})`));
+  }
+
+  return lines.join('\n');
+}
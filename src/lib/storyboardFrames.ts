@@ -0,0 +1,103 @@
+// ═══════════════════════════════════════════════════════════════
+// STORYBOARD FRAMES
+// Uploaded storyboard frames and where they live. The image bytes sit in
+// asset storage (local disk or an S3-compatible bucket, see
+// api/lib/assetStorage.ts); the project document keeps one record per
+// frame naming the scene and shot it is attached to and the storage keys
+// of the frame and its thumbnail. A shot has at most one frame, so
+// attaching a new one replaces the old.
+// Pure module shared by the API and the frontend.
+// ═══════════════════════════════════════════════════════════════
+
+import { isShotId } from './shotIds';
+
+export const FRAME_CONTENT_TYPES = ['image/jpeg', 'image/png', 'image/webp'] as const;
+
+export type FrameContentType = typeof FRAME_CONTENT_TYPES[number];
+
+/** Largest frame the API stores; the client downscales to well under this */
+export const MAX_FRAME_BYTES = 8 * 1024 * 1024;
+
+/** Longest edge of a stored frame, in pixels */
+export const FRAME_MAX_EDGE = 1920;
+
+/** Longest edge of a thumbnail, in pixels — enough for a 6-up storyboard page */
+export const THUMBNAIL_MAX_EDGE = 480;
+
+export interface StoryboardFrame {
+  id: string;
+  sceneNumber: number;
+  /** The shot's ID, or its 1-based position for frames attached before shots had IDs; see shotFrameKey */
+  shotKey: string;
+  contentType: FrameContentType;
+  width: number;
+  height: number;
+  bytes: number;
+  storageKey: string;
+  thumbnailKey: string;
+  uploadedBy: string;
+  uploadedAt: string;
+  /** Time-limited URLs, filled in by the API when it returns the frame */
+  url?: string;
+  thumbnailUrl?: string;
+}
+
+/**
+ * The key a shot's frame is filed under: the shot's ID, so the frame
+ * follows the shot through reordering. Shots saved before IDs existed fall
+ * back to their 1-based position until their scene is next saved.
+ */
+export const shotFrameKey = (shot: { id?: string } | string, shotIndex: number): string =>
+  typeof shot === 'object' && isShotId(shot.id) ? shot.id : String(shotIndex + 1);
+
+/** Whether a frame is attached to the shot. Shot IDs are unique across the project, so they match in any scene */
+export const isFrameForShot = (frame: StoryboardFrame, sceneNumber: number, shotKey: string): boolean =>
+  frame.shotKey === shotKey && (isShotId(shotKey) || frame.sceneNumber === sceneNumber);
+
+/** The frame attached to a shot, if any */
+export function findShotFrame(
+  frames: StoryboardFrame[] | undefined,
+  sceneNumber: number,
+  shotKey: string
+): StoryboardFrame | undefined {
+  return (frames || []).find(frame => isFrameForShot(frame, sceneNumber, shotKey));
+}
+
+/**
+ * Re-file a scene's positional frames under the IDs of the shots at those
+ * positions. `shots` must be the list the frames were attached against,
+ * with IDs assigned. Returns null when nothing moved.
+ */
+export function rekeyPositionalFrames(
+  frames: StoryboardFrame[] | undefined,
+  sceneNumber: number,
+  shots: unknown[]
+): StoryboardFrame[] | null {
+  let changed = false;
+  const rekeyed = (frames || []).map(frame => {
+    if (frame.sceneNumber !== sceneNumber || isShotId(frame.shotKey)) return frame;
+    const shot = shots[Number(frame.shotKey) - 1] as { id?: unknown } | undefined;
+    if (!shot || typeof shot !== 'object' || !isShotId(shot.id)) return frame;
+    changed = true;
+    return { ...frame, shotKey: shot.id };
+  });
+  return changed ? rekeyed : null;
+}
+
+/** Sniff the image type from the file's first bytes rather than trusting the declared type */
+export function detectFrameContentType(bytes: Uint8Array): FrameContentType | null {
+  if (bytes.length >= 3 && bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff) return 'image/jpeg';
+  if (bytes.length >= 8 && bytes[0] === 0x89 && bytes[1] === 0x50 && bytes[2] === 0x4e && bytes[3] === 0x47) return 'image/png';
+  if (
+    bytes.length >= 12 &&
+    String.fromCharCode(bytes[0], bytes[1], bytes[2], bytes[3]) === 'RIFF' &&
+    String.fromCharCode(bytes[8], bytes[9], bytes[10], bytes[11]) === 'WEBP'
+  ) return 'image/webp';
+  return null;
+}
+
+export const FRAME_EXTENSIONS: Record<FrameContentType, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/webp': 'webp',
+};
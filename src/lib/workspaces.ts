@@ -0,0 +1,135 @@
+// ═══════════════════════════════════════════════════════════════
+// WORKSPACES
+// A team that shares one credit balance. Members analyze the workspace's
+// projects on the workspace's credits instead of their own, each within an
+// optional monthly spending limit. Roles, highest first:
+//   owner  — everything below; there is only ever one
+//   admin  — add and remove members, set limits, buy credits
+//   member — spend the workspace's credits on its projects
+// Every change to the balance is written to the workspace's ledger.
+// Projects a workspace owns are open to its members: owners and admins as
+// project owners, members as editors (see projectRole).
+// Pure module shared by the API and the frontend.
+// ═══════════════════════════════════════════════════════════════
+
+export const WORKSPACE_ROLES = ['owner', 'admin', 'member'] as const;
+
+export type WorkspaceRole = typeof WORKSPACE_ROLES[number];
+
+/** The roles a member can be given; the owner is whoever created it */
+export type WorkspaceMemberRole = Exclude<WorkspaceRole, 'owner'>;
+
+export const WORKSPACE_MEMBER_ROLES: WorkspaceMemberRole[] = ['admin', 'member'];
+
+export const MAX_WORKSPACE_MEMBERS = 100;
+export const MAX_WORKSPACE_NAME_LENGTH = 80;
+
+export interface WorkspaceMember {
+  userId: string;
+  email: string;
+  name?: string;
+  role: WorkspaceRole;
+  /** Credits the member may spend per calendar month (UTC); null for no limit */
+  monthlyLimit: number | null;
+  addedBy: string;
+  addedAt: string;
+}
+
+/** The part of the member list stored on each workspace project for access checks */
+export interface WorkspaceProjectMember {
+  userId: string;
+  role: WorkspaceRole;
+}
+
+export interface Workspace {
+  id: string;
+  name: string;
+  ownerId: string;
+  credits: number;
+  members: WorkspaceMember[];
+  /** The signed-in user's role */
+  role: WorkspaceRole;
+  /** Credits each member has spent this period, by userId */
+  spent: Record<string, number>;
+  period: string;
+  createdAt: string;
+}
+
+export type LedgerEntryKind = 'purchase' | 'usage' | 'refund';
+
+export interface WorkspaceLedgerEntry {
+  id: string;
+  workspaceId: string;
+  /** Who bought or spent the credits, or whose analysis was refunded */
+  userId: string;
+  kind: LedgerEntryKind;
+  /** Positive when credits come in, negative when they are spent */
+  credits: number;
+  /** Balance after the entry */
+  balance: number;
+  projectId?: string;
+  reason?: string;
+  /** Dollars paid, for purchases */
+  amount?: number;
+  createdAt: string;
+}
+
+export const WORKSPACE_ROLE_LABELS: Record<WorkspaceRole, string> = {
+  owner: 'Owner',
+  admin: 'Admin',
+  member: 'Member',
+};
+
+export const WORKSPACE_ROLE_DESCRIPTIONS: Record<WorkspaceMemberRole, string> = {
+  admin: 'Can manage members and limits, and buy credits',
+  member: 'Can run analysis on workspace projects',
+};
+
+export const LEDGER_KIND_LABELS: Record<LedgerEntryKind, string> = {
+  purchase: 'Purchase',
+  usage: 'Analysis',
+  refund: 'Refund',
+};
+
+const RANK: Record<WorkspaceRole, number> = { member: 0, admin: 1, owner: 2 };
+
+export const isWorkspaceMemberRole = (value: unknown): value is WorkspaceMemberRole =>
+  typeof value === 'string' && (WORKSPACE_MEMBER_ROLES as string[]).includes(value);
+
+/** Whether a role includes everything `required` may do */
+export const hasWorkspaceRole = (role: WorkspaceRole | null | undefined, required: WorkspaceRole): boolean =>
+  !!role && RANK[role] >= RANK[required];
+
+/**
+ * Whether someone with role `actor` may add, change or remove a member with
+ * role `target`: admins manage members, the owner manages everyone else.
+ */
+export const canManageMember = (actor: WorkspaceRole | null | undefined, target: WorkspaceRole): boolean =>
+  target !== 'owner' && (actor === 'owner' || (actor === 'admin' && target === 'member'));
+
+/** The user's role in the workspace, or null when they aren't a member */
+export function workspaceRole(
+  members: Array<{ userId: string; role: WorkspaceRole }> | null | undefined,
+  userId: string
+): WorkspaceRole | null {
+  const member = (members || []).find(m => m.userId === userId);
+  return member && member.role in RANK ? member.role : null;
+}
+
+/** A monthly limit as sent by a client: a whole number of credits, or null for none */
+export function parseMonthlyLimit(value: unknown): number | null | undefined {
+  if (value === null || value === '') return null;
+  const limit = typeof value === 'string' ? Number(value) : value;
+  return typeof limit === 'number' && Number.isInteger(limit) && limit >= 0 ? limit : undefined;
+}
+
+/** The spending period limits reset on: the calendar month in UTC, as YYYY-MM */
+export const spendingPeriod = (date: Date = new Date()): string =>
+  date.toISOString().slice(0, 7);
+
+/** Credits the member can still spend this period; null when they have no limit */
+export function remainingAllowance(workspace: Pick<Workspace, 'members' | 'spent'>, userId: string): number | null {
+  const member = workspace.members.find(m => m.userId === userId);
+  if (!member || member.monthlyLimit === null) return null;
+  return Math.max(0, member.monthlyLimit - (workspace.spent[userId] || 0));
+}
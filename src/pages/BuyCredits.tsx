@@ -1,7 +1,9 @@
 // src/pages/BuyCredits.tsx
 // Credit purchase page
+// Packs go to the buyer's own balance, or to a workspace they administer
 
 import { useState } from "react"
+import { useSearchParams } from "react-router-dom"
 import { Check, Coins, Loader2, Sparkles } from "lucide-react"
 import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card"
@@ -12,6 +14,12 @@ import { Navigation } from "@/components/Navigation"
 import { useClerk } from "@clerk/clerk-react"
 import { toast } from "sonner"
 import { api } from "@/utils/apiClient"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { useWorkspaces } from "@/hooks/useWorkspaces"
+import { hasWorkspaceRole } from "@/lib/workspaces"
+
+/** The Select value for buying credits for yourself */
+const PERSONAL = 'personal'
 
 const CREDIT_PACKS = [
   {
@@ -57,6 +65,11 @@ export default function BuyCredits() {
   const { balance, isLoading: balanceLoading } = useCredits()
   const { signOut } = useClerk()
   const [purchasingPack, setPurchasingPack] = useState<string | null>(null)
+  const [searchParams] = useSearchParams()
+  const { workspaces } = useWorkspaces()
+  const fundable = workspaces.filter(w => hasWorkspaceRole(w.role, 'admin'))
+  const [target, setTarget] = useState<string>(searchParams.get('workspace') || PERSONAL)
+  const workspace = fundable.find(w => w.id === target) || null
 
   const handlePurchase = async (packId: string) => {
     if (!user) return
@@ -66,7 +79,7 @@ export default function BuyCredits() {
     try {
       const { url } = await api.post<{ url: string; sessionId: string }>(
         '/api/credits/create-checkout',
-        { pack: packId },
+        { pack: packId, ...(workspace ? { workspaceId: workspace.id } : {}) },
         { context: 'Create checkout' }
       )
       window.location.href = url
@@ -91,8 +104,32 @@ export default function BuyCredits() {
             One credit = one scene analysis. Choose the pack that fits your needs.
           </p>
           
+          {/* Who the credits are for */}
+          {fundable.length > 0 && (
+            <div className="mt-6 flex items-center justify-center gap-3">
+              <span className="text-sm text-muted-foreground">Buy credits for:</span>
+              <Select value={workspace ? workspace.id : PERSONAL} onValueChange={setTarget}>
+                <SelectTrigger className="w-64">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={PERSONAL}>Myself</SelectItem>
+                  {fundable.map(w => (
+                    <SelectItem key={w.id} value={w.id}>{w.name} (workspace)</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
           {/* Current Balance */}
-          {!balanceLoading && (
+          {workspace ? (
+            <div className="mt-6 inline-flex items-center gap-2 px-4 py-2 rounded-full bg-muted">
+              <span className="text-sm text-muted-foreground">{workspace.name} balance:</span>
+              <span className="font-mono font-bold text-lg">{workspace.credits}</span>
+              <span className="text-sm text-muted-foreground">credits</span>
+            </div>
+          ) : !balanceLoading && (
             <div className="mt-6 inline-flex items-center gap-2 px-4 py-2 rounded-full bg-muted">
               <span className="text-sm text-muted-foreground">Current balance:</span>
               <span className="font-mono font-bold text-lg">{balance}</span>
@@ -17,7 +17,8 @@ import {
   CheckCircle2,
   AlertCircle,
   ArrowRight,
-  LogOut
+  LogOut,
+  Building2
 } from "lucide-react";
 import shotlogicLogo from "@/assets/shotlogic-logo-netflix.png";
 import heroImage from "@/assets/SLV2.jpg";
@@ -28,8 +29,14 @@ import {
   DropdownMenuContent,
   DropdownMenuItem,
   DropdownMenuSeparator,
+  DropdownMenuSub,
+  DropdownMenuSubContent,
+  DropdownMenuSubTrigger,
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
+import { useWorkspaces } from "@/hooks/useWorkspaces";
+import { hasWorkspaceRole } from "@/lib/workspaces";
+import type { ProjectRole } from "@/lib/projectAccess";
 import {
   AlertDialog,
   AlertDialogAction,
@@ -59,6 +66,8 @@ interface Project {
   status: string;
   total_scenes?: number;
   scenes_analyzed?: number;
+  role?: ProjectRole;
+  workspaceId?: string | null;
 }
 
 // Logo component using actual image
@@ -91,6 +100,9 @@ const Dashboard = () => {
   const [newTitle, setNewTitle] = useState("");
   const [showAllProjects, setShowAllProjects] = useState(false);
   const [showWelcome, setShowWelcome] = useState(false);
+  const { workspaces, moveProject } = useWorkspaces();
+  // Projects can only be moved into workspaces the user administers
+  const movableTo = workspaces.filter(w => hasWorkspaceRole(w.role, 'admin'));
 
   // Check onboarding status for new users
   useEffect(() => {
@@ -257,6 +269,10 @@ const Dashboard = () => {
               <Plus className="w-4 h-4 mr-2" />
               New Project
             </Button>
+            <Button variant="ghost" onClick={() => navigate("/workspaces")}>
+              <Building2 className="w-4 h-4 mr-2" />
+              Workspaces
+            </Button>
             <CreditsIndicator />
             <DropdownMenu>
               <DropdownMenuTrigger asChild>
@@ -408,6 +424,26 @@ const Dashboard = () => {
                           <Pencil className="w-4 h-4 mr-2" />
                           Rename
                         </DropdownMenuItem>
+                        {project.role === 'owner' && (movableTo.length > 0 || project.workspaceId) && (
+                          <DropdownMenuSub>
+                            <DropdownMenuSubTrigger onClick={(e) => e.stopPropagation()}>
+                              <Building2 className="w-4 h-4 mr-2" />
+                              Move to workspace
+                            </DropdownMenuSubTrigger>
+                            <DropdownMenuSubContent className="bg-card border-border">
+                              {project.workspaceId && (
+                                <DropdownMenuItem onClick={(e) => { e.stopPropagation(); moveProject(project._id, null); }}>
+                                  My projects
+                                </DropdownMenuItem>
+                              )}
+                              {movableTo.filter(w => w.id !== project.workspaceId).map(w => (
+                                <DropdownMenuItem key={w.id} onClick={(e) => { e.stopPropagation(); moveProject(project._id, w.id); }}>
+                                  {w.name}
+                                </DropdownMenuItem>
+                              ))}
+                            </DropdownMenuSubContent>
+                          </DropdownMenuSub>
+                        )}
                         <DropdownMenuSeparator />
                         <DropdownMenuItem 
                           onClick={(e) => { e.stopPropagation(); setDeleteProjectId(project._id); }}
@@ -421,6 +457,12 @@ const Dashboard = () => {
                   </div>
 
                   <h3 className="font-semibold text-foreground mb-1 truncate">{project.name || 'Untitled Project'}</h3>
+                  {project.workspaceId && (
+                    <div className="flex items-center gap-1 text-xs text-[#D4A843] mb-1 truncate">
+                      <Building2 className="w-3 h-3 flex-shrink-0" />
+                      {workspaces.find(w => w.id === project.workspaceId)?.name || 'Workspace'}
+                    </div>
+                  )}
                   
                   <div className="flex items-center gap-2 text-sm text-muted-foreground mb-3">
                     {getStatusIcon(project)}
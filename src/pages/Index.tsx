@@ -8,10 +8,14 @@ import { api, ApiError } from '@/utils/apiClient'
 import {
   validateFileBeforeUpload,
   validateScreenplayContent,
+  validateParsedScenes,
   formatValidationError,
   checkForScannedPDF
 } from '@/utils/screenplayValidator'
 import { logger } from "@/utils/logger";
+import { buildRegistryFromScenes } from "@/lib/characterRegistry";
+import { splitScreenplayScenes } from "@/lib/screenplayParser";
+import { OmittedScene, findOmittedLabels } from "@/lib/sceneNumbering";
 import {
   Dialog,
   DialogContent,
@@ -21,10 +25,17 @@ import {
   DialogTitle,
 } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useWorkspaces } from "@/hooks/useWorkspaces";
+
+/** The Select value for a personal project, billed to the user's own credits */
+const PERSONAL = 'personal';
 
 interface ParsedScene {
   number: number;
   text: string;
+  /** Production scene number from a numbered slugline, e.g. "12A" */
+  label?: string;
 }
 
 interface AnalyzedScene {
@@ -33,6 +44,7 @@ interface AnalyzedScene {
   analysis: any;
   status: 'pending' | 'analyzing' | 'complete' | 'error';
   error: string | null;
+  model?: string;
 }
 
 export default function Index() {
@@ -53,6 +65,10 @@ export default function Index() {
   const [elapsedTime, setElapsedTime] = useState(0);
   const [batchTimes, setBatchTimes] = useState<number[]>([]);
   const [showCreditError, setShowCreditError] = useState(false);
+  const [creditErrorMessage, setCreditErrorMessage] = useState<string | null>(null);
+  const { workspaces } = useWorkspaces();
+  // The workspace the new project belongs to and is billed to, if any
+  const [workspaceId, setWorkspaceId] = useState<string>(PERSONAL);
 
 
   // Timer effect for showing elapsed time during analysis
@@ -70,6 +86,7 @@ export default function Index() {
     try {
       const result = await api.post('/api/analyze-scene', {
         userId: user?.id,
+        projectId: projectIdForErrors,
         sceneText: scene.text,
         sceneNumber: scene.number,
         totalScenes: totalScenes
@@ -79,10 +96,11 @@ export default function Index() {
         maxRetries: 2
       });
 
-      return { ...scene, analysis: result.analysis, status: 'complete', error: null };
+      return { ...scene, analysis: result.analysis, status: 'complete', error: null, model: result.meta?.model };
     } catch (err) {
       // Check for 402 Payment Required (insufficient credits)
       if ((err as any).status === 402 || (err as any).statusCode === 402) {
+        setCreditErrorMessage(workspaceId !== PERSONAL ? (err as ApiError).userMessage || null : null);
         setShowCreditError(true);
         setIsAnalyzing(false);
         setIsParsing(false);
@@ -121,7 +139,9 @@ export default function Index() {
         projectId: projectId,
         sceneUpdates: {
           [sceneKey]: scene.analysis
-        }
+        },
+        source: 'ai',
+        model: scene.model
       }, {
         context: `Saving scene ${scene.number}`,
         timeoutMs: 30000,
@@ -133,11 +153,12 @@ export default function Index() {
     }
   };
 
-  const createProjectRecord = async (name: string, parsedScenes: ParsedScene[]): Promise<string | null> => {
+  const createProjectRecord = async (name: string, parsedScenes: ParsedScene[], omittedScenes: OmittedScene[] = []): Promise<string | null> => {
     try {
       const scenesForDb = parsedScenes.map(s => ({
         number: s.number,
         text: s.text,
+        ...(s.label ? { label: s.label } : {}),
         analysis: null,
         status: 'PENDING',
         error: null
@@ -146,6 +167,12 @@ export default function Index() {
       const result = await api.post('/api/projects/save', {
         name: name,
         scenes: scenesForDb,
+        // Seed the cast registry from dialogue cues; analyses resolve against it
+        characters: buildRegistryFromScenes(parsedScenes.map(s => s.text)),
+        // A numbered draft is a locked one: keep its numbers from here on
+        sceneNumbersLocked: parsedScenes.some(s => s.label),
+        omittedScenes,
+        ...(workspaceId !== PERSONAL ? { workspaceId } : {}),
         userId: user?.id,
         createdAt: new Date().toISOString(),
         status: 'processing'
@@ -165,7 +192,7 @@ export default function Index() {
     }
   };
 
-  const analyzeAllScenes = async (parsedScenes: ParsedScene[], name: string) => {
+  const analyzeAllScenes = async (parsedScenes: ParsedScene[], name: string, omittedScenes: OmittedScene[] = []) => {
     setIsAnalyzing(true);
     setUploadStep('analyzing');
     setCurrentSceneIndex(0);
@@ -175,7 +202,7 @@ export default function Index() {
     }));
     setScenes(initialScenes);
 
-    const newProjectId = await createProjectRecord(name, parsedScenes);
+    const newProjectId = await createProjectRecord(name, parsedScenes, omittedScenes);
     if (!newProjectId) {
       setError('Failed to create project. Please try again.');
       setIsAnalyzing(false);
@@ -188,6 +215,19 @@ export default function Index() {
     // and review scenes as they complete
     navigate('/project/' + newProjectId);
 
+    // Read the whole script once first, so each scene is analyzed against the
+    // story spine (act breaks, arcs, setups and where they pay off)
+    try {
+      await api.post('/api/story-spine', { projectId: newProjectId }, {
+        context: 'Building story spine',
+        timeoutMs: 560000,
+        maxRetries: 0
+      });
+    } catch (err) {
+      // Scenes are still analyzed on their own; the spine can be built later
+      logger.warn('[Story spine] Skipped:', err);
+    }
+
     const analyzedScenes: AnalyzedScene[] = [...initialScenes];
     const BATCH_SIZE = 2; // Reduced from 4 to 2 to stay under Railway's 120s timeout
     const totalBatches = Math.ceil(parsedScenes.length / BATCH_SIZE);
@@ -263,42 +303,6 @@ export default function Index() {
     setUploadStep('complete');
   };
 
-  function processExtractedText(text: string): ParsedScene[] {
-    logger.log(`[Parse] Processing extracted text (${text?.length} chars)`);
-
-    // Server-side PDF parser already handles spaced-out text correctly
-    // No client-side spacing fix needed
-
-    text = text.replace(/  +/g, ' ');
-    text = text.replace(/\s+(INT\.|EXT\.|I\/E\.|I\.E\.)\s+/gi, '\n$1 ');
-
-
-    
-    const firstSceneMatch = text.match(/(?:^|\n)\s*\d*\s*(INT\.|EXT\.|I\/E|I\.E\.)\s+/i);
-
-    
-    if (!firstSceneMatch) {
-      return [];
-    }
-    
-    const scriptText = text.substring(firstSceneMatch.index!);
-
-    
-    const scenePattern = /(?=(?:^|\n)[ \t]*\d*[ \t]*(?:INT\.|EXT\.|I\/E|I\.E\.)[ \t]+)/gim;
-    const sceneBlocks = scriptText.split(scenePattern);
-    
-
-    
-    const scenes = sceneBlocks
-      .map(block => block.trim())
-      .filter(block => /^[ \t]*\d*[ \t]*(?:INT\.|EXT\.|I\/E|I\.E\.)[ \t]+/i.test(block.trim()))
-      .map((block, index) => ({ number: index + 1, text: block.trim() }));
-    
-    logger.log(`[Parse] Extracted ${scenes.length} scenes`);
-    
-    return scenes;
-  }
-
   const handleFile = useCallback(async (file: File) => {
     setError(null);
     setScenes([]);
@@ -307,14 +311,15 @@ export default function Index() {
 
     // Check file type first — JSON files skip screenplay validation
     const fileName = file.name.toLowerCase();
-    let fileType: 'txt' | 'pdf' | 'fdx' | 'json' | null = null;
+    let fileType: 'txt' | 'pdf' | 'fdx' | 'fountain' | 'json' | null = null;
     if (fileName.endsWith('.txt')) fileType = 'txt';
     else if (fileName.endsWith('.pdf')) fileType = 'pdf';
     else if (fileName.endsWith('.fdx')) fileType = 'fdx';
+    else if (fileName.endsWith('.fountain') || fileName.endsWith('.spmd')) fileType = 'fountain';
     else if (fileName.endsWith('.json')) fileType = 'json';
 
     if (!fileType) {
-      setError('Please upload a .txt, .pdf, .fdx, or .json file');
+      setError('Please upload a .txt, .pdf, .fdx, .fountain, or .json file');
       return;
     }
 
@@ -392,7 +397,7 @@ export default function Index() {
       }
     }
 
-    const extractedName = file.name.replace(/\.(txt|pdf|fdx)$/i, '');
+    let extractedName = file.name.replace(/\.(txt|pdf|fdx|fountain|spmd)$/i, '');
     setProjectName(extractedName);
 
 
@@ -424,6 +429,13 @@ export default function Index() {
       });
 
       const { screenplayText } = parseResult;
+      // Fountain uploads come back already split into scenes (forced headings,
+      // scene numbers) — trust those over the client-side INT./EXT. regex
+      const serverScenes: Array<ParsedScene & { sceneLabel?: string }> | undefined = parseResult.scenes;
+      if (parseResult.title) {
+        extractedName = parseResult.title;
+        setProjectName(extractedName);
+      }
 
 
 
@@ -447,7 +459,9 @@ export default function Index() {
         return;
       }
 
-      const contentValidation = validateScreenplayContent(screenplayText, file.name);
+      const contentValidation = serverScenes?.length
+        ? validateParsedScenes(serverScenes, file.name)
+        : validateScreenplayContent(screenplayText, file.name);
 
       if (!contentValidation.valid) {
         setError(formatValidationError(contentValidation));
@@ -470,7 +484,12 @@ export default function Index() {
         }
       }
 
-      const parsedScenes = processExtractedText(screenplayText);
+      const parsedScenes: ParsedScene[] = serverScenes?.length
+        ? serverScenes.map(s => ({ number: s.number, text: s.text, ...(s.sceneLabel ? { label: s.sceneLabel } : {}) }))
+        : splitScreenplayScenes(screenplayText);
+      // Cut scenes in a locked draft survive only as "13 OMITTED 13" lines
+      const omittedScenes: OmittedScene[] = ((parseResult.omitted as string[] | undefined) || findOmittedLabels(screenplayText))
+        .map(label => ({ label }));
 
       if (parsedScenes.length === 0) {
         setError('No scene headers found. Make sure your screenplay has INT. or EXT. headers.');
@@ -502,7 +521,7 @@ export default function Index() {
       }
 
       // Step 3: Analyze elements (handled in analyzeAllScenes)
-      await analyzeAllScenes(parsedScenes, extractedName);
+      await analyzeAllScenes(parsedScenes, extractedName, omittedScenes);
 
     } catch (err) {
       const errorMsg = (err as ApiError).userMessage ||
@@ -563,6 +582,24 @@ export default function Index() {
               <h1 className="text-3xl font-bold mb-2">Upload Your Screenplay</h1>
               <p className="text-white/60">We'll analyze every scene automatically</p>
             </div>
+            {workspaces.length > 0 && (
+              <div className="flex items-center justify-center gap-3 mb-6">
+                <span className="text-sm text-white/60">Create in</span>
+                <Select value={workspaceId} onValueChange={setWorkspaceId}>
+                  <SelectTrigger className="w-64">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={PERSONAL}>My projects (my credits)</SelectItem>
+                    {workspaces.map(workspace => (
+                      <SelectItem key={workspace.id} value={workspace.id}>
+                        {workspace.name} ({workspace.credits} credits)
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
             <div
               onDrop={handleDrop}
               onDragOver={handleDragOver}
@@ -571,11 +608,11 @@ export default function Index() {
             >
               <Upload className="w-12 h-12 text-white/40 mx-auto mb-4" />
               <p className="text-lg font-medium mb-2">Drag & drop or click to browse</p>
-              <p className="text-white/50 text-sm">Supports .pdf, .fdx, .txt, .json (StoryLogic)</p>
+              <p className="text-white/50 text-sm">Supports .pdf, .fdx, .fountain, .txt, .json (StoryLogic)</p>
               <input
                 id="file-input"
                 type="file"
-                accept=".pdf,.fdx,.txt,.json"
+                accept=".pdf,.fdx,.fountain,.spmd,.txt,.json"
                 onChange={(e) => e.target.files?.[0] && handleFile(e.target.files[0])}
                 className="hidden"
               />
@@ -690,7 +727,7 @@ export default function Index() {
               <DialogTitle className="text-xl text-white">Credits Required</DialogTitle>
             </div>
             <DialogDescription className="text-white/70 text-base">
-              You need credits to analyze scenes. Purchase a credit pack to get started with your screenplay analysis.
+              {creditErrorMessage || 'You need credits to analyze scenes. Purchase a credit pack to get started with your screenplay analysis.'}
             </DialogDescription>
           </DialogHeader>
 
@@ -711,11 +748,11 @@ export default function Index() {
               Cancel
             </Button>
             <Button
-              onClick={() => navigate('/buy-credits')}
+              onClick={() => navigate(workspaceId !== PERSONAL ? '/workspaces' : '/buy-credits')}
               className="w-full sm:w-auto bg-[#E50914] hover:bg-[#E50914]/90 text-white"
             >
               <CreditCard className="w-4 h-4 mr-2" />
-              Buy Credits
+              {workspaceId !== PERSONAL ? 'Open Workspace' : 'Buy Credits'}
             </Button>
           </DialogFooter>
         </DialogContent>
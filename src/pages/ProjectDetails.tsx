@@ -1,6 +1,7 @@
 import React from 'react';
-import { useState, useEffect } from "react";
+import { useState, useEffect, useMemo } from "react";
 import { useParams, useNavigate } from "react-router-dom";
+import { useUser } from "@clerk/clerk-react";
 import { useToast } from "@/hooks/use-toast";
 import { Button } from "@/components/ui/button";
 import { Switch } from "@/components/ui/switch";
@@ -8,23 +9,46 @@ import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { Input } from "@/components/ui/input";
 import { StoryboardDialog } from "@/components/StoryboardDialog";
-import { ExportModal } from "@/components/ExportModal";
+import { ExportModal, ExportType, ExportFormat } from "@/components/ExportModal";
 import { AnalysisProgressPanel } from "@/components/AnalysisProgressPanel";
 import { SceneNavigator } from "@/components/SceneNavigator";
 import { MobileSceneView } from "@/components/MobileSceneView";
 import { RetryAnalysisDialog } from "@/components/RetryAnalysisDialog";
 import { ProductionSummary } from "@/components/ProductionSummary";
+import { Stripboard } from "@/components/Stripboard";
+import { CastRegistry } from "@/components/CastRegistry";
+import { StorySpinePanel } from "@/components/StorySpinePanel";
+import { ContinuityReport } from "@/components/ContinuityReport";
+import { BudgetTopSheet } from "@/components/BudgetTopSheet";
+import { LocationsBoard } from "@/components/LocationsBoard";
+import { ShotCameraFields } from "@/components/ShotCameraFields";
+import { ShootingOrderView } from "@/components/ShootingOrderView";
+import { AnalysisHistoryDialog } from "@/components/AnalysisHistoryDialog";
+import { ScriptRevisionDialog } from "@/components/ScriptRevisionDialog";
+import { BatchAnalysisBar } from "@/components/BatchAnalysisBar";
+import { ShareProjectDialog } from "@/components/ShareProjectDialog";
+import { ProjectPresence } from "@/components/ProjectPresence";
+import { CommentAnchorButton, CommentsPanel } from "@/components/CommentsPanel";
+import { displaySceneNumber } from "@/lib/sceneNumbering";
+import { hasProjectRole, ROLE_LABELS } from "@/lib/projectAccess";
+import { sectionVersion } from "@/lib/projectVersions";
+import { CommentAnchor, CommentThread, openThreads } from "@/lib/projectComments";
 import { AnalysisData, Scene, ShotListItem, parseAnalysis } from "@/types/analysis";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Badge } from "@/components/ui/badge";
-import { Trash2, ArrowLeft, Film, Camera, Printer, Download, RefreshCw, FileText, Save, Menu, Sparkles, ImageIcon, Palette, X, Check, ChevronLeft, ChevronRight, ChevronDown, ChevronUp, Users, Plus, ArrowUp, ArrowDown, Copy, Pencil } from "lucide-react";
+import { Trash2, ArrowLeft, Film, Camera, Printer, Download, RefreshCw, FileText, Save, Menu, Sparkles, ImageIcon, Palette, X, Check, ChevronLeft, ChevronRight, ChevronDown, ChevronUp, Users, Plus, ArrowUp, ArrowDown, Copy, Pencil, CalendarDays, History, FileUp, Lock, Unlock, Compass, Shirt, DollarSign, MapPin, Share2, Eye, MessageSquare } from "lucide-react";
 import { useKeyboardShortcut } from "@/hooks/useKeyboardShortcut";
 import { useMediaQuery } from "@/hooks/useMediaQuery";
-import { exportShotListPDF, exportShotListCSV, exportStoryboardPDF, exportAnalysisOnlyPDF } from "@/utils/shotListExporter";
+import { exportShotListPDF, exportShotListCSV, exportStoryboardPDF, exportAnalysisOnlyPDF, exportFinalDraft, exportBreakdownPDF, exportBreakdownMMS, exportDoodCSV, exportDoodPDF, exportContinuityCSV, exportContinuityPDF, exportDepartmentCSV, exportDepartmentPDF, exportBudgetCSV, exportBudgetPDF, exportLocationsCSV, exportLocationsPDF, exportShootingOrderCSV, exportShootingOrderPDF } from "@/utils/shotListExporter";
+import { DEFAULT_RATE_CARD } from "@/lib/rateCard";
+import { formatShotCamera, groupShotsBySetup } from "@/lib/shotCamera";
+import { DepartmentId, getDepartment } from "@/utils/departments";
 import { generatePromptPair } from "@/utils/promptBuilder";
 import { logger } from "@/utils/logger";
 import { useProjectData } from "@/hooks/useProjectData";
 import { useSceneAnalysis } from "@/hooks/useSceneAnalysis";
+import { useProjectCollaboration } from "@/hooks/useProjectCollaboration";
+import { useProjectComments } from "@/hooks/useProjectComments";
 
 // Helper to safely convert extras field to string (handles legacy object format)
 function safeExtrasString(extras: unknown): string {
@@ -47,19 +71,22 @@ const ProjectDetails = () => {
   const { id } = useParams();
   const navigate = useNavigate();
   const { toast } = useToast();
+  const { user } = useUser();
 
   // ─── Project data hook ───
   const {
     project, scenes, isLoading, error,
     editingVisualStyle, setEditingVisualStyle, tempVisualStyle, setTempVisualStyle, handleSaveVisualStyle,
-    editingCharacters, setEditingCharacters, tempCharacters, setTempCharacters, handleSaveCharacters,
-    handleDeleteProject,
+    editingCharacters, setEditingCharacters, tempCharacters, setTempCharacters, handleSaveCharacters, handleSaveLocations,
+    handleSaveSchedule, handleSaveRateCard, handleSetNumbersLocked, isBuildingStorySpine, handleBuildStorySpine, handleDeleteProject,
+    handleUploadFrame, handleRemoveFrame, handleSaveShotNote,
   } = useProjectData(id);
 
   // ─── Scene analysis hook ───
   const {
     selectedSceneId, setSelectedSceneId, selectedSceneIndex, selectedScene, selectedAnalysis,
-    reanalyzing, handleRegenerateAll, handleReanalyzeScene, handleTryAgain, handleRetryWithInstructions,
+    reanalyzing, batch, liveAnalysis, handlePauseBatch, handleResumeBatch, handleCancelBatch,
+    handleRegenerateAll, handleAnalyzePending, handleReanalyzeScenes, handleReanalyzeScene, handleTryAgain, handleRetryWithInstructions,
     showRetryDialog, setShowRetryDialog, retrySceneData,
     isEditMode, setIsEditMode, editedScenes, isSaving, handleSaveEdits,
     editingStory, editingDirecting, editingProducing,
@@ -76,11 +103,65 @@ const ProjectDetails = () => {
     totalScenes: project?.total_scenes,
   });
 
+  // ─── Collaboration ───
+  // Commenters and viewers see the project read-only; the API enforces the same roles
+  const canEdit = hasProjectRole(project?.role, 'editor');
+  const { members: presentMembers, connectionId } = useProjectCollaboration(id, selectedScene?.scene_number ?? null);
+  const [showShare, setShowShare] = useState(false);
+
+  useEffect(() => {
+    if (!canEdit) setIsEditMode(false);
+  }, [canEdit, setIsEditMode]);
+
+  // ─── Comments ───
+  const canComment = hasProjectRole(project?.role, 'commenter');
+  const comments = useProjectComments(id, user?.id);
+  const [showComments, setShowComments] = useState(false);
+  const [commentAnchor, setCommentAnchor] = useState<CommentAnchor | null>(null);
+  const sceneShotIds = useMemo(() => (selectedAnalysis?.shot_list || [])
+    .map(shot => (typeof shot === 'object' ? shot.id : undefined))
+    .filter((shotId): shotId is string => !!shotId), [selectedAnalysis]);
+
+  // A shot anchor only means something on the scene that has the shot
+  useEffect(() => {
+    if (commentAnchor?.kind === 'shot' && !sceneShotIds.includes(commentAnchor.shotId)) setCommentAnchor(null);
+  }, [commentAnchor, sceneShotIds]);
+
+  const openComments = (anchor: CommentAnchor | null) => {
+    setCommentAnchor(anchor);
+    setShowComments(true);
+  };
+
+  const commentButton = (anchor: CommentAnchor) => (
+    <CommentAnchorButton
+      count={selectedScene ? openThreads(comments.threads, selectedScene.scene_number, anchor).length : 0}
+      onClick={() => openComments(anchor)}
+    />
+  );
+
+  const handleOpenThread = (thread: CommentThread) => {
+    const scene = scenes.find(s => s.scene_number === thread.sceneNumber);
+    if (scene) setSelectedSceneId(scene.id);
+    setCommentAnchor(thread.anchor);
+  };
+
+  const sceneLabel = (sceneNumber: number) =>
+    displaySceneNumber(scenes.find(s => s.scene_number === sceneNumber) || { scene_number: sceneNumber });
+
   // ─── Local UI state ───
   const [storyboardScene, setStoryboardScene] = useState<{ scene: Scene; analysis: AnalysisData } | null>(null);
   const [showExportModal, setShowExportModal] = useState(false);
   const [showNavigator, setShowNavigator] = useState(true); // Always visible by default
   const [showProductionSummary, setShowProductionSummary] = useState(false);
+  const [showStripboard, setShowStripboard] = useState(false);
+  const [showCastRegistry, setShowCastRegistry] = useState(false);
+  const [showStorySpine, setShowStorySpine] = useState(false);
+  const [showContinuity, setShowContinuity] = useState(false);
+  const [showBudget, setShowBudget] = useState(false);
+  const [showLocations, setShowLocations] = useState(false);
+  const [shotOrder, setShotOrder] = useState<"story" | "shooting">("story");
+  const [showAnalysisHistory, setShowAnalysisHistory] = useState(false);
+  const [showScriptRevision, setShowScriptRevision] = useState(false);
   const [forceMobileView, setForceMobileView] = useState(false);
   const [forceDesktopView, setForceDesktopView] = useState(false);
   const [showTabGuide, setShowTabGuide] = useState(false);
@@ -186,7 +267,7 @@ const ProjectDetails = () => {
   };
 
   const SectionEditButtons = ({ section, editing }: { section: 'story' | 'directing' | 'producing'; editing: boolean }) => (
-    editing ? (
+    !canEdit ? null : editing ? (
       <div className="flex gap-2">
         <Button size="sm" className="h-7 bg-green-600 hover:bg-green-700 text-white" onClick={() => saveSection(section)} disabled={isSaving}>
           <Save className="w-3 h-3 mr-1" />{isSaving ? 'Saving...' : 'Save'}
@@ -209,22 +290,23 @@ const ProjectDetails = () => {
     setSelectedSceneId(sceneId);
   };
 
-  const handleExport = async (type: "full-report" | "analysis-only" | "storyboard" | "shot-list", options?: { panelsPerPage?: number }) => {
+  const handleExport = async (type: ExportType, options?: { panelsPerPage?: number; format?: ExportFormat; department?: DepartmentId; includeComments?: boolean }) => {
+    const exportComments = options?.includeComments ? comments.threads : undefined;
     try {
       if (type === "full-report") {
-        exportShotListPDF(scenes, project?.title || "Untitled");
+        exportShotListPDF(scenes, project?.title || "Untitled", { comments: exportComments });
         toast({
           title: "Full report exported",
           description: "Your complete analysis report has been downloaded",
         });
       } else if (type === "analysis-only") {
-        exportAnalysisOnlyPDF(scenes, project?.title || "Untitled");
+        exportAnalysisOnlyPDF(scenes, project?.title || "Untitled", { comments: exportComments });
         toast({
           title: "Analysis exported",
           description: "Story, directing & producing analysis has been downloaded",
         });
       } else if (type === "storyboard") {
-        exportStoryboardPDF(scenes, project?.title || "Untitled", options?.panelsPerPage || 6);
+        await exportStoryboardPDF(scenes, project?.title || "Untitled", options?.panelsPerPage || 6, project?.storyboardFrames);
         toast({
           title: "Storyboard exported",
           description: "Your storyboard PDF has been downloaded",
@@ -235,6 +317,88 @@ const ProjectDetails = () => {
           title: "CSV exported",
           description: "Shot list CSV has been downloaded",
         });
+      } else if (type === "shooting-order") {
+        if (options?.format === "csv") {
+          exportShootingOrderCSV(scenes, project?.title || "Untitled");
+        } else {
+          await exportShootingOrderPDF(scenes, project?.title || "Untitled");
+        }
+        toast({
+          title: "Shooting order exported",
+          description: "Shots grouped by lighting setup, with their editorial shot numbers",
+        });
+      } else if (type === "final-draft") {
+        exportFinalDraft(scenes, project?.title || "Untitled");
+        toast({
+          title: "Final Draft exported",
+          description: "Script with tagged breakdown and scene notes has been downloaded",
+        });
+      } else if (type === "breakdown") {
+        if (options?.format === "mms") {
+          exportBreakdownMMS(scenes, project?.title || "Untitled", project?.characters, project?.locations);
+        } else {
+          await exportBreakdownPDF(scenes, project?.title || "Untitled", project?.characters, project?.locations);
+        }
+        toast({
+          title: "Breakdown exported",
+          description: options?.format === "mms"
+            ? "Movie Magic Scheduling import file has been downloaded"
+            : "Breakdown sheets PDF has been downloaded",
+        });
+      } else if (type === "dood") {
+        if (options?.format === "csv") {
+          exportDoodCSV(scenes, project?.title || "Untitled", project?.schedule, project?.characters);
+        } else {
+          await exportDoodPDF(scenes, project?.title || "Untitled", project?.schedule, project?.characters);
+        }
+        toast({
+          title: "Day Out of Days exported",
+          description: project?.schedule?.days.length
+            ? "Built from your saved shooting schedule"
+            : "No schedule saved yet, so shoot days follow script order",
+        });
+      } else if (type === "continuity") {
+        if (options?.format === "csv") {
+          exportContinuityCSV(scenes, project?.title || "Untitled", project?.characters);
+        } else {
+          await exportContinuityPDF(scenes, project?.title || "Untitled", project?.characters);
+        }
+        toast({
+          title: "Continuity report exported",
+          description: "Mismatches between each scene's carries-out and the next scene's carries-in",
+        });
+      } else if (type === "department") {
+        const department = options?.department || "wardrobe";
+        if (options?.format === "csv") {
+          exportDepartmentCSV(scenes, project?.title || "Untitled", department, project?.characters);
+        } else {
+          await exportDepartmentPDF(scenes, project?.title || "Untitled", department, project?.characters);
+        }
+        toast({
+          title: `${getDepartment(department).name} report exported`,
+          description: "Items grouped by character and set",
+        });
+      } else if (type === "budget") {
+        const rateCard = project?.budget?.rateCard || DEFAULT_RATE_CARD;
+        if (options?.format === "csv") {
+          exportBudgetCSV(scenes, project?.title || "Untitled", rateCard, project?.schedule, project?.characters, project?.locations);
+        } else {
+          await exportBudgetPDF(scenes, project?.title || "Untitled", rateCard, project?.schedule, project?.characters, project?.locations);
+        }
+        toast({
+          title: "Budget exported",
+          description: project?.budget ? "Priced from your saved rate card" : "No rate card saved yet, so default rates were used",
+        });
+      } else if (type === "locations") {
+        if (options?.format === "csv") {
+          exportLocationsCSV(scenes, project?.title || "Untitled", project?.locations, project?.characters);
+        } else {
+          await exportLocationsPDF(scenes, project?.title || "Untitled", project?.locations, project?.characters);
+        }
+        toast({
+          title: "Locations exported",
+          description: "Shooting locations with the script sets, permits and notes for each",
+        });
       }
     } catch (error) {
       logger.error("Export error:", error);
@@ -302,7 +466,7 @@ const ProjectDetails = () => {
         initialSceneIndex={currentSceneIndex >= 0 ? currentSceneIndex : 0}
         onBack={() => navigate("/")}
         onSwitchToDesktop={() => setForceDesktopView(true)}
-        onReanalyzeScene={handleReanalyzeScene}
+        onReanalyzeScene={canEdit ? handleReanalyzeScene : undefined}
         isReanalyzing={reanalyzing}
       />
     );
@@ -318,7 +482,8 @@ const ProjectDetails = () => {
         onSceneSelect={handleSceneSelect}
         onClose={() => setShowNavigator(false)}
         isOpen={showNavigator}
-        onRetryScene={handleReanalyzeScene}
+        onRetryScene={canEdit ? handleReanalyzeScene : undefined}
+        omittedScenes={project?.omittedScenes}
       />
 
       {/* Main Content */}
@@ -344,16 +509,27 @@ const ProjectDetails = () => {
                 </Button>
               </div>
               <div className="flex items-center gap-3">
-                <div className="flex items-center space-x-2">
-                  <Switch 
-                    id="edit-mode" 
-                    checked={isEditMode}
-                    onCheckedChange={setIsEditMode}
-                  />
-                  <Label htmlFor="edit-mode" className="cursor-pointer text-sm">
-                    Edit
-                  </Label>
-                </div>
+                <ProjectPresence
+                  members={presentMembers}
+                  connectionId={connectionId}
+                  sceneLabel={sceneLabel}
+                  onSelectScene={(sceneNumber) => {
+                    const scene = scenes.find(s => s.scene_number === sceneNumber);
+                    if (scene) setSelectedSceneId(scene.id);
+                  }}
+                />
+                {canEdit && (
+                  <div className="flex items-center space-x-2">
+                    <Switch 
+                      id="edit-mode" 
+                      checked={isEditMode}
+                      onCheckedChange={setIsEditMode}
+                    />
+                    <Label htmlFor="edit-mode" className="cursor-pointer text-sm">
+                      Edit
+                    </Label>
+                  </div>
+                )}
 
                 {isEditMode && Object.keys(editedScenes).length > 0 && (
                   <Button 
@@ -371,7 +547,7 @@ const ProjectDetails = () => {
                   variant="outline" 
                   size="sm"
                   onClick={handleRegenerateAll}
-                  disabled={reanalyzing}
+                  disabled={reanalyzing || !canEdit}
                 >
                   <Sparkles className={`w-4 h-4 mr-1 ${reanalyzing ? 'animate-pulse' : ''}`} />
                   Regenerate All
@@ -379,12 +555,88 @@ const ProjectDetails = () => {
                 <Button
                   variant={showProductionSummary ? "default" : "outline"}
                   size="sm"
-                  onClick={() => setShowProductionSummary(!showProductionSummary)}
+                  onClick={() => { setShowProductionSummary(!showProductionSummary); setShowStripboard(false); setShowCastRegistry(false); setShowStorySpine(false); setShowContinuity(false); setShowBudget(false); setShowLocations(false); }}
                   className={showProductionSummary ? "bg-primary text-primary-foreground" : ""}
                 >
                   <Printer className="w-4 h-4 mr-1" />
                   Production Summary
                 </Button>
+                <Button
+                  variant={showStripboard ? "default" : "outline"}
+                  size="sm"
+                  onClick={() => { setShowStripboard(!showStripboard); setShowProductionSummary(false); setShowCastRegistry(false); setShowStorySpine(false); setShowContinuity(false); setShowBudget(false); setShowLocations(false); }}
+                  className={showStripboard ? "bg-primary text-primary-foreground" : ""}
+                >
+                  <CalendarDays className="w-4 h-4 mr-1" />
+                  Stripboard
+                </Button>
+                <Button
+                  variant={showCastRegistry ? "default" : "outline"}
+                  size="sm"
+                  onClick={() => { setShowCastRegistry(!showCastRegistry); setShowProductionSummary(false); setShowStripboard(false); setShowStorySpine(false); setShowContinuity(false); setShowBudget(false); setShowLocations(false); }}
+                  className={showCastRegistry ? "bg-primary text-primary-foreground" : ""}
+                >
+                  <Users className="w-4 h-4 mr-1" />
+                  Cast
+                </Button>
+                <Button
+                  variant={showStorySpine ? "default" : "outline"}
+                  size="sm"
+                  onClick={() => { setShowStorySpine(!showStorySpine); setShowProductionSummary(false); setShowStripboard(false); setShowCastRegistry(false); setShowContinuity(false); setShowBudget(false); setShowLocations(false); }}
+                  className={showStorySpine ? "bg-primary text-primary-foreground" : ""}
+                >
+                  <Compass className="w-4 h-4 mr-1" />
+                  Story Spine
+                </Button>
+                <Button
+                  variant={showContinuity ? "default" : "outline"}
+                  size="sm"
+                  onClick={() => { setShowContinuity(!showContinuity); setShowProductionSummary(false); setShowStripboard(false); setShowCastRegistry(false); setShowStorySpine(false); setShowBudget(false); setShowLocations(false); }}
+                  className={showContinuity ? "bg-primary text-primary-foreground" : ""}
+                >
+                  <Shirt className="w-4 h-4 mr-1" />
+                  Continuity
+                </Button>
+                <Button
+                  variant={showBudget ? "default" : "outline"}
+                  size="sm"
+                  onClick={() => { setShowBudget(!showBudget); setShowProductionSummary(false); setShowStripboard(false); setShowCastRegistry(false); setShowStorySpine(false); setShowContinuity(false); setShowLocations(false); }}
+                  className={showBudget ? "bg-primary text-primary-foreground" : ""}
+                >
+                  <DollarSign className="w-4 h-4 mr-1" />
+                  Budget
+                </Button>
+                <Button
+                  variant={showLocations ? "default" : "outline"}
+                  size="sm"
+                  onClick={() => { setShowLocations(!showLocations); setShowProductionSummary(false); setShowStripboard(false); setShowCastRegistry(false); setShowStorySpine(false); setShowContinuity(false); setShowBudget(false); }}
+                  className={showLocations ? "bg-primary text-primary-foreground" : ""}
+                >
+                  <MapPin className="w-4 h-4 mr-1" />
+                  Locations
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setShowScriptRevision(true)}
+                  disabled={reanalyzing || !canEdit}
+                >
+                  <FileUp className="w-4 h-4 mr-1" />
+                  Import Revision
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => handleSetNumbersLocked(!project?.sceneNumbersLocked)}
+                  disabled={!canEdit}
+                  title={project?.sceneNumbersLocked
+                    ? "Scene numbers are locked — revisions add 12A-style inserts and keep cut scenes as OMITTED"
+                    : "Lock scene numbers for production"}
+                  className={project?.sceneNumbersLocked ? "bg-primary text-primary-foreground" : ""}
+                >
+                  {project?.sceneNumbersLocked ? <Lock className="w-4 h-4 mr-1" /> : <Unlock className="w-4 h-4 mr-1" />}
+                  {project?.sceneNumbersLocked ? "Numbers Locked" : "Lock Numbers"}
+                </Button>
                 <Button
                   variant="outline"
                   size="sm"
@@ -393,14 +645,33 @@ const ProjectDetails = () => {
                   <Download className="w-4 h-4 mr-1" />
                   Export
                 </Button>
-                <Button 
-                  variant="outline" 
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => openComments(null)}
+                >
+                  <MessageSquare className="w-4 h-4 mr-1" />
+                  Comments
+                  {comments.unreadCount > 0 && <Badge className="ml-1 h-5 px-1.5">{comments.unreadCount}</Badge>}
+                </Button>
+                <Button
+                  variant="outline"
                   size="sm"
-                  onClick={() => handleDeleteProject(navigate)}
-                  className="text-red-500 hover:text-red-600 hover:bg-red-50"
+                  onClick={() => setShowShare(true)}
                 >
-                  <Trash2 className="w-4 h-4" />
+                  <Share2 className="w-4 h-4 mr-1" />
+                  Share
                 </Button>
+                {project.role === 'owner' && (
+                  <Button 
+                    variant="outline" 
+                    size="sm"
+                    onClick={() => handleDeleteProject(navigate)}
+                    className="text-red-500 hover:text-red-600 hover:bg-red-50"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                )}
               </div>
             </div>
 
@@ -417,6 +688,12 @@ const ProjectDetails = () => {
                   <span className="text-sm text-muted-foreground">
                     {scenes.filter(s => parseAnalysis(s.analysis)).length} analyzed
                   </span>
+                  {!canEdit && project.role && (
+                    <Badge variant="outline" className="gap-1" title="Ask the owner for editor access to make changes">
+                      <Eye className="w-3 h-3" />
+                      View only · {ROLE_LABELS[project.role]}
+                    </Badge>
+                  )}
                 </div>
 
                 {/* Visual Style - REMOVED per Bob's request 2026-02-17 */}
@@ -427,13 +704,27 @@ const ProjectDetails = () => {
         </div>
 
         {/* Progress Panel (when analyzing) */}
-        {project.status !== 'COMPLETED' && scenes.length > 0 && (
+        {(project.status !== 'COMPLETED' || liveAnalysis) && scenes.length > 0 && (
           <div className="max-w-5xl mx-auto px-4 pt-4">
             <AnalysisProgressPanel
               scenes={scenes}
               onSceneClick={(sceneId: string) => setSelectedSceneId(sceneId)}
               currentSceneId={selectedSceneId}
               onRetryScene={handleReanalyzeScene}
+              live={liveAnalysis}
+            />
+          </div>
+        )}
+
+        {/* Server-side batch analysis */}
+        {batch && (
+          <div className="max-w-5xl mx-auto px-4 pt-4">
+            <BatchAnalysisBar
+              batch={batch}
+              scenes={scenes}
+              onPause={handlePauseBatch}
+              onResume={handleResumeBatch}
+              onCancel={handleCancelBatch}
             />
           </div>
         )}
@@ -441,15 +732,24 @@ const ProjectDetails = () => {
         {/* Pending scenes banner */}
         {(() => {
           const pendingCount = scenes.filter(s => !parseAnalysis(s.analysis)).length;
-          return pendingCount > 0 && project.status === 'COMPLETED' ? (
+          return pendingCount > 0 && project.status === 'COMPLETED' && !batch ? (
             <div className="max-w-5xl mx-auto px-4 pt-4">
               <div className="bg-gradient-to-r from-netflix-red/20 to-primary/20 border border-netflix-red/40 rounded-lg px-5 py-4 flex items-center justify-between">
                 <div className="flex items-center gap-3">
                   <Sparkles className="w-5 h-5 text-netflix-red flex-shrink-0" />
                   <p className="text-sm font-medium text-foreground">
-                    <span className="text-netflix-red font-bold">{pendingCount} scene{pendingCount !== 1 ? 's' : ''}</span> ready to analyze — select a scene and click <span className="font-bold">Analyze Scene</span> to run it
+                    <span className="text-netflix-red font-bold">{pendingCount} scene{pendingCount !== 1 ? 's' : ''}</span> ready to analyze — select a scene and click <span className="font-bold">Analyze Scene</span> to run it, or analyze them all at once
                   </p>
                 </div>
+                <Button
+                  size="sm"
+                  onClick={handleAnalyzePending}
+                  disabled={reanalyzing}
+                  className="bg-netflix-red hover:bg-netflix-red/90 flex-shrink-0"
+                >
+                  <Sparkles className="w-4 h-4 mr-1" />
+                  Analyze All ({pendingCount})
+                </Button>
               </div>
             </div>
           ) : null;
@@ -465,13 +765,128 @@ const ProjectDetails = () => {
                   {scenes.filter(s => parseAnalysis(s.analysis)).length} of {scenes.length} scenes analyzed
                 </Badge>
               </div>
-              <ProductionSummary scenes={scenes} />
+              <ProductionSummary scenes={scenes} characters={project.characters} />
+            </div>
+          </div>
+        )}
+
+        {/* Stripboard / Shooting Schedule View */}
+        {showStripboard && (
+          <div className="max-w-5xl mx-auto p-4">
+            <div className="bg-[#0a0a0a] border border-border rounded-lg p-6">
+              <div className="flex items-center justify-between mb-6">
+                <h2 className="text-lg font-bold text-foreground">Stripboard</h2>
+                {project.schedule?.updatedAt && (
+                  <Badge variant="outline" className="text-xs">
+                    Saved {new Date(project.schedule.updatedAt).toLocaleString()}
+                  </Badge>
+                )}
+              </div>
+              <Stripboard scenes={scenes} schedule={project.schedule} characters={project.characters} locations={project.locations} onSave={handleSaveSchedule} version={sectionVersion(project.versions, 'schedule')} />
+            </div>
+          </div>
+        )}
+
+        {/* Cast Registry View */}
+        {showCastRegistry && (
+          <div className="max-w-5xl mx-auto p-4">
+            <div className="bg-[#0a0a0a] border border-border rounded-lg p-6">
+              <div className="flex items-center justify-between mb-6">
+                <h2 className="text-lg font-bold text-foreground">Cast</h2>
+                <span className="text-xs text-muted-foreground">Merge aliases so every report counts each character once</span>
+              </div>
+              <CastRegistry scenes={scenes} characters={project.characters || []} onSave={handleSaveCharacters} version={sectionVersion(project.versions, 'characters')} />
+            </div>
+          </div>
+        )}
+
+        {/* Story Spine View */}
+        {showStorySpine && (
+          <div className="max-w-5xl mx-auto p-4">
+            <div className="bg-[#0a0a0a] border border-border rounded-lg p-6">
+              <div className="flex items-center justify-between mb-6">
+                <h2 className="text-lg font-bold text-foreground">Story Spine</h2>
+                {project.storySpine?.meta?.generatedAt && (
+                  <Badge variant="outline" className="text-xs">
+                    Built {new Date(project.storySpine.meta.generatedAt).toLocaleString()}
+                  </Badge>
+                )}
+              </div>
+              <StorySpinePanel
+                spine={project.storySpine}
+                scenes={scenes}
+                isBuilding={isBuildingStorySpine}
+                onBuild={handleBuildStorySpine}
+                onSelectScene={(sceneId) => { setSelectedSceneId(sceneId); setShowStorySpine(false); }}
+              />
+            </div>
+          </div>
+        )}
+
+        {/* Continuity Report View */}
+        {showContinuity && (
+          <div className="max-w-5xl mx-auto p-4">
+            <div className="bg-[#0a0a0a] border border-border rounded-lg p-6">
+              <div className="flex items-center justify-between mb-6">
+                <h2 className="text-lg font-bold text-foreground">Continuity</h2>
+                <span className="text-xs text-muted-foreground">Each character's carries-out checked against their next scene's carries-in</span>
+              </div>
+              <ContinuityReport
+                scenes={scenes}
+                characters={project.characters}
+                onSelectScene={(sceneId) => { setSelectedSceneId(sceneId); setShowContinuity(false); }}
+              />
+            </div>
+          </div>
+        )}
+
+        {/* Budget Top Sheet View */}
+        {showBudget && (
+          <div className="max-w-5xl mx-auto p-4">
+            <div className="bg-[#0a0a0a] border border-border rounded-lg p-6">
+              <div className="flex items-center justify-between mb-6">
+                <h2 className="text-lg font-bold text-foreground">Budget Estimate</h2>
+                {project.budget?.updatedAt && (
+                  <Badge variant="outline" className="text-xs">
+                    Rates saved {new Date(project.budget.updatedAt).toLocaleString()}
+                  </Badge>
+                )}
+              </div>
+              <BudgetTopSheet
+                scenes={scenes}
+                schedule={project.schedule}
+                budget={project.budget}
+                characters={project.characters}
+                locations={project.locations}
+                onSave={handleSaveRateCard}
+                version={sectionVersion(project.versions, 'budget')}
+                onSelectScene={(sceneId) => { setSelectedSceneId(sceneId); setShowBudget(false); }}
+              />
+            </div>
+          </div>
+        )}
+
+        {/* Locations View */}
+        {showLocations && (
+          <div className="max-w-5xl mx-auto p-4">
+            <div className="bg-[#0a0a0a] border border-border rounded-lg p-6">
+              <div className="flex items-center justify-between mb-6">
+                <h2 className="text-lg font-bold text-foreground">Locations</h2>
+                <span className="text-xs text-muted-foreground">Map script sets to the real places you'll shoot them</span>
+              </div>
+              <LocationsBoard
+                scenes={scenes}
+                locations={project.locations || []}
+                characters={project.characters}
+                onSave={handleSaveLocations}
+                version={sectionVersion(project.versions, 'locations')}
+              />
             </div>
           </div>
         )}
 
         {/* Selected Scene Content */}
-        <div className={`max-w-5xl mx-auto p-4 ${showProductionSummary ? 'hidden' : ''}`}>
+        <div className={`max-w-5xl mx-auto p-4 ${showProductionSummary || showStripboard || showCastRegistry || showStorySpine || showContinuity || showBudget || showLocations ? 'hidden' : ''}`}>
           {!selectedScene ? (
             <div className="bg-card border border-border rounded-lg p-12 text-center text-muted-foreground">
               Select a scene from the navigator
@@ -484,11 +899,16 @@ const ProjectDetails = () => {
                   <div className="min-w-0 flex-1">
                     <div className="flex items-center gap-2 mb-1">
                       <span className="text-lg font-bold text-foreground">
-                        Scene {selectedScene.scene_number}
+                        Scene {displaySceneNumber(selectedScene)}
                       </span>
                       <Badge variant={selectedScene.status === 'COMPLETED' ? 'default' : 'secondary'} className="text-xs">
                         {selectedScene.status}
                       </Badge>
+                      {selectedScene.needsReanalysis && (
+                        <Badge variant="outline" className="text-xs bg-yellow-500/20 text-yellow-400 border-yellow-500/30" title="Changed by a script revision since it was analyzed">
+                          {selectedScene.revisionStatus === 'added' ? 'New in revision' : 'Revised — re-analyze'}
+                        </Badge>
+                      )}
                       {selectedAnalysis?.producing_logistics?.resource_impact && (
                         <Badge 
                           variant="outline" 
@@ -512,7 +932,7 @@ const ProjectDetails = () => {
                       <Button
                         size="default"
                         onClick={() => handleReanalyzeScene(selectedScene.id, selectedScene.scene_number, selectedScene.content)}
-                        disabled={reanalyzing}
+                        disabled={reanalyzing || !canEdit}
                         className="bg-netflix-red hover:bg-netflix-red/90 text-white font-bold px-6 animate-pulse hover:animate-none"
                       >
                         <Sparkles className={`w-4 h-4 mr-2 ${reanalyzing ? 'animate-spin' : ''}`} />
@@ -523,7 +943,7 @@ const ProjectDetails = () => {
                         variant="outline"
                         size="sm"
                         onClick={() => handleReanalyzeScene(selectedScene.id, selectedScene.scene_number, selectedScene.content)}
-                        disabled={reanalyzing}
+                        disabled={reanalyzing || !canEdit}
                       >
                         <RefreshCw className={`w-4 h-4 mr-1 ${reanalyzing ? 'animate-spin' : ''}`} />
                         {reanalyzing ? 'Analyzing...' : 'Re-analyze'}
@@ -534,13 +954,24 @@ const ProjectDetails = () => {
                         variant="outline"
                         size="sm"
                         onClick={() => handleTryAgain(selectedScene.id, selectedScene.scene_number, selectedScene.content)}
-                        disabled={reanalyzing}
+                        disabled={reanalyzing || !canEdit}
                         className="border-[#E50914]/50 text-[#E50914] hover:bg-[#E50914]/10"
                       >
                         <Sparkles className={`w-4 h-4 mr-1 ${reanalyzing ? 'animate-pulse' : ''}`} />
                         Try Again
                       </Button>
                     )}
+                    {selectedAnalysis && id && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => setShowAnalysisHistory(true)}
+                        title="Analysis history"
+                      >
+                        <History className="w-4 h-4 mr-1" />
+                        History
+                      </Button>
+                    )}
                     <div className="flex gap-1">
                       <Button
                         variant="outline"
@@ -610,7 +1041,7 @@ const ProjectDetails = () => {
                         <p className="text-sm text-muted-foreground mb-4">Generate AI-powered story insights</p>
                         <Button
                           onClick={() => handleReanalyzeScene(selectedScene.id, selectedScene.scene_number, selectedScene.content)}
-                          disabled={reanalyzing}
+                          disabled={reanalyzing || !canEdit}
                           className="bg-netflix-red hover:bg-netflix-red/90"
                         >
                           <Sparkles className="w-4 h-4 mr-2" />
@@ -625,7 +1056,10 @@ const ProjectDetails = () => {
                     ) : (
                       <>
                       <div className="flex items-center justify-between mb-2">
-                        <h3 className="text-sm font-semibold text-primary">Story Analysis</h3>
+                        <div className="flex items-center gap-1">
+                          <h3 className="text-sm font-semibold text-primary">Story Analysis</h3>
+                          {commentButton({ kind: 'field', path: 'story_analysis' })}
+                        </div>
                         <SectionEditButtons section="story" editing={editingStory} />
                       </div>
                       {editingStory && editedStoryData ? (
@@ -650,7 +1084,7 @@ const ProjectDetails = () => {
                       <div className="space-y-4">
                         {/* ── Layer 1: The One Thing (always visible) ── */}
                         <div className="space-y-2">
-                          <h3 className="text-sm font-semibold text-primary flex items-center gap-2">🔑 The One Thing</h3>
+                          <h3 className="text-sm font-semibold text-primary flex items-center gap-2">🔑 The One Thing{commentButton({ kind: 'field', path: 'story_analysis.the_one_thing' })}</h3>
                           <div className="bg-amber-500/10 border border-amber-500/30 rounded-lg p-4">
                             <p className="text-base text-foreground leading-relaxed font-medium">
                               {selectedAnalysis.story_analysis?.the_one_thing || 'Not analyzed - click Re-analyze to generate'}
@@ -662,7 +1096,7 @@ const ProjectDetails = () => {
                         <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                           {/* Synopsis */}
                           <div className="space-y-2 md:col-span-2">
-                            <h3 className="text-sm font-semibold text-primary flex items-center gap-2">📝 Synopsis</h3>
+                            <h3 className="text-sm font-semibold text-primary flex items-center gap-2">📝 Synopsis{commentButton({ kind: 'field', path: 'story_analysis.synopsis' })}</h3>
                             <p className="text-sm text-foreground leading-relaxed bg-muted/30 rounded-lg p-3">
                               {selectedAnalysis.story_analysis?.synopsis || 'No synopsis available'}
                             </p>
@@ -670,7 +1104,7 @@ const ProjectDetails = () => {
 
                           {/* The Turn */}
                           <div className="space-y-2">
-                            <h3 className="text-sm font-semibold text-primary flex items-center gap-2">⚡ The Turn</h3>
+                            <h3 className="text-sm font-semibold text-primary flex items-center gap-2">⚡ The Turn{commentButton({ kind: 'field', path: 'story_analysis.the_turn' })}</h3>
                             <div className="bg-accent/20 border border-accent/30 rounded-lg p-3">
                               {selectedAnalysis.story_analysis?.the_turn || selectedAnalysis.story_analysis?.breaking_point ? (
                                 <p className="text-sm text-foreground">
@@ -684,7 +1118,7 @@ const ProjectDetails = () => {
 
                           {/* Ownership */}
                           <div className="space-y-2">
-                            <h3 className="text-sm font-semibold text-primary flex items-center gap-2">👤 Ownership</h3>
+                            <h3 className="text-sm font-semibold text-primary flex items-center gap-2">👤 Ownership{commentButton({ kind: 'field', path: 'story_analysis.ownership' })}</h3>
                             <div className="bg-muted/30 rounded-lg p-3">
                               {selectedAnalysis.story_analysis?.ownership ? (
                                 <p className="text-sm text-foreground">{selectedAnalysis.story_analysis.ownership}</p>
@@ -696,7 +1130,7 @@ const ProjectDetails = () => {
 
                           {/* Stakes */}
                           <div className="space-y-2 md:col-span-2">
-                            <h3 className="text-sm font-semibold text-primary flex items-center gap-2">⚔️ Stakes</h3>
+                            <h3 className="text-sm font-semibold text-primary flex items-center gap-2">⚔️ Stakes{commentButton({ kind: 'field', path: 'story_analysis.stakes' })}</h3>
                             <div className="bg-muted/30 rounded-lg p-3">
                               {selectedAnalysis.story_analysis?.stakes ? (
                                 <p className="text-sm text-foreground leading-relaxed">{selectedAnalysis.story_analysis.stakes}</p>
@@ -804,6 +1238,25 @@ const ProjectDetails = () => {
                                           )}
                                         </div>
                                       </div>
+                                      {(selectedAnalysis.story_analysis.setup_payoff.links?.length ?? 0) > 0 && (
+                                        <ul className="space-y-1">
+                                          {selectedAnalysis.story_analysis.setup_payoff.links!.map(link => (
+                                            <li key={`${link.thread}-${link.role}`} className="text-xs text-muted-foreground flex flex-wrap items-center gap-x-2">
+                                              <span className={link.role === 'setup' ? 'text-blue-400' : 'text-green-400'}>{link.role === 'setup' ? 'Sets up' : 'Pays off'}</span>
+                                              <span className="text-foreground">{link.description}</span>
+                                              <span>{link.role === 'setup' ? '→ lands in' : '← set up in'}</span>
+                                              {link.scenes.map(n => {
+                                                const target = scenes.find(sc => sc.scene_number === n);
+                                                return target ? (
+                                                  <button key={n} type="button" onClick={() => setSelectedSceneId(target.id)} className="text-primary hover:underline" title={target.header}>
+                                                    Sc. {displaySceneNumber(target)}
+                                                  </button>
+                                                ) : <span key={n}>Sc. {n}</span>;
+                                              })}
+                                            </li>
+                                          ))}
+                                        </ul>
+                                      )}
                                     </div>
                                   )}
 
@@ -940,7 +1393,7 @@ const ProjectDetails = () => {
                         <p className="text-sm text-muted-foreground mb-4">Generate production logistics</p>
                         <Button
                           onClick={() => handleReanalyzeScene(selectedScene.id, selectedScene.scene_number, selectedScene.content)}
-                          disabled={reanalyzing}
+                          disabled={reanalyzing || !canEdit}
                           className="bg-netflix-red hover:bg-netflix-red/90"
                         >
                           <Sparkles className="w-4 h-4 mr-2" />
@@ -955,7 +1408,10 @@ const ProjectDetails = () => {
                     ) : (
                       <>
                       <div className="flex items-center justify-between mb-2">
-                        <h3 className="text-sm font-semibold text-primary">Production Logistics</h3>
+                        <div className="flex items-center gap-1">
+                          <h3 className="text-sm font-semibold text-primary">Production Logistics</h3>
+                          {commentButton({ kind: 'field', path: 'producing_logistics' })}
+                        </div>
                         <SectionEditButtons section="producing" editing={editingProducing} />
                       </div>
                       {editingProducing && editedProducingData ? (
@@ -1347,7 +1803,7 @@ const ProjectDetails = () => {
                         <p className="text-sm text-muted-foreground mb-4">Generate directing vision</p>
                         <Button
                           onClick={() => handleReanalyzeScene(selectedScene.id, selectedScene.scene_number, selectedScene.content)}
-                          disabled={reanalyzing}
+                          disabled={reanalyzing || !canEdit}
                           className="bg-netflix-red hover:bg-netflix-red/90"
                         >
                           <Sparkles className="w-4 h-4 mr-2" />
@@ -1362,7 +1818,10 @@ const ProjectDetails = () => {
                     ) : (
                       <>
                       <div className="flex items-center justify-between mb-2">
-                        <h3 className="text-sm font-semibold text-primary">Directing Vision</h3>
+                        <div className="flex items-center gap-1">
+                          <h3 className="text-sm font-semibold text-primary">Directing Vision</h3>
+                          {commentButton({ kind: 'field', path: 'directing_vision' })}
+                        </div>
                         <SectionEditButtons section="directing" editing={editingDirecting} />
                       </div>
                       {editingDirecting && editedDirectingData ? (
@@ -1709,7 +2168,7 @@ const ProjectDetails = () => {
                         <p className="text-sm text-muted-foreground mb-4">Generate a detailed shot list</p>
                         <Button
                           onClick={() => handleReanalyzeScene(selectedScene.id, selectedScene.scene_number, selectedScene.content)}
-                          disabled={reanalyzing}
+                          disabled={reanalyzing || !canEdit}
                           className="bg-netflix-red hover:bg-netflix-red/90"
                         >
                           <Sparkles className="w-4 h-4 mr-2" />
@@ -1724,6 +2183,19 @@ const ProjectDetails = () => {
                             <span className="text-2xl font-bold text-primary">{selectedAnalysis.shot_list.length}</span>
                             <span className="text-sm text-muted-foreground">shots {isEditMode && <span className="text-primary">(Editing)</span>}</span>
                           </div>
+                          {!isEditMode && (
+                            <div className="flex rounded-md border border-border overflow-hidden text-xs">
+                              {(["story", "shooting"] as const).map(order => (
+                                <button
+                                  key={order}
+                                  onClick={() => setShotOrder(order)}
+                                  className={`px-3 py-1.5 ${shotOrder === order ? "bg-primary text-primary-foreground" : "text-muted-foreground hover:text-foreground"}`}
+                                >
+                                  {order === "story" ? "Story order" : "Shooting order"}
+                                </button>
+                              ))}
+                            </div>
+                          )}
                           <Button
                             variant="outline"
                             size="sm"
@@ -1733,11 +2205,24 @@ const ProjectDetails = () => {
                             Storyboard PDF
                           </Button>
                         </div>
+                        {groupShotsBySetup(editedScenes[selectedScene.id]?.shot_list || selectedAnalysis.shot_list).length > 0 && (
+                          <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+                            <span className="font-medium uppercase tracking-wider">Setups</span>
+                            {groupShotsBySetup(editedScenes[selectedScene.id]?.shot_list || selectedAnalysis.shot_list).map(setup => (
+                              <span key={setup.setupId} className="px-1.5 py-0.5 rounded border border-border">
+                                {setup.setupId}: shot{setup.shotIndexes.length > 1 ? 's' : ''} {setup.shotIndexes.map(i => i + 1).join(', ')}
+                              </span>
+                            ))}
+                          </div>
+                        )}
+                        {shotOrder === "shooting" && !isEditMode ? (
+                          <ShootingOrderView scene={selectedScene} analysis={selectedAnalysis} />
+                        ) : (
                         <div className="space-y-3">
                           {(editedScenes[selectedScene.id]?.shot_list || selectedAnalysis.shot_list).map((shot, idx) => {
                             if (isShotListItem(shot)) {
                               return (
-                                <div key={idx} className={`flex gap-4 p-4 rounded-lg border ${
+                                <div key={shot.id || idx} className={`flex gap-4 p-4 rounded-lg border ${
                                   getShotStoryElement(shot).startsWith('TURN_')
                                     ? 'bg-amber-500/5 border-amber-500/30 ring-1 ring-amber-500/20'
                                     : 'bg-muted/30 border-border'
@@ -1799,6 +2284,10 @@ const ProjectDetails = () => {
                                             placeholder="Composition and camera notes for Director/DP"
                                           />
                                         </div>
+                                        <ShotCameraFields
+                                          camera={getCurrentShot(idx) || shot}
+                                          onChange={(field, value) => handleShotEdit(idx, field, value as ShotListItem[typeof field])}
+                                        />
                                         <div className="flex items-center gap-2">
                                           <label className="text-xs text-muted-foreground w-20">Serves:</label>
                                           <select
@@ -1837,6 +2326,11 @@ const ProjectDetails = () => {
                                             <span className="text-sm font-bold text-primary uppercase tracking-wide">
                                               {getShotType(shot)}
                                             </span>
+                                            {shot.setup_id && (
+                                              <span className="text-[10px] font-semibold uppercase tracking-wider px-1.5 py-0.5 rounded border border-border text-muted-foreground">
+                                                Setup {shot.setup_id}
+                                              </span>
+                                            )}
                                             {getShotStoryElement(shot) && (
                                               <span className={`text-[10px] font-semibold uppercase tracking-wider px-1.5 py-0.5 rounded border ${
                                                 getShotStoryElement(shot).startsWith('TURN_')
@@ -1847,7 +2341,8 @@ const ProjectDetails = () => {
                                               </span>
                                             )}
                                           </div>
-                                          <div className="flex gap-1">
+                                          <div className="flex items-center gap-1">
+                                            {shot.id && commentButton({ kind: 'shot', shotId: shot.id })}
                                             <Button
                                               size="sm"
                                               variant="ghost"
@@ -1863,6 +2358,9 @@ const ProjectDetails = () => {
                                             </Button>
                                           </div>
                                         </div>
+                                        {formatShotCamera(shot) && (
+                                          <p className="text-xs font-mono text-muted-foreground">{formatShotCamera(shot)}</p>
+                                        )}
                                         {getShotSubject(shot) && (
                                           <p className="text-sm font-medium text-foreground">{getShotSubject(shot)}</p>
                                         )}
@@ -1893,6 +2391,7 @@ const ProjectDetails = () => {
                             }
                           })}
                         </div>
+                        )}
                         {isEditMode && (
                           <Button variant="outline" className="w-full mt-3 border-dashed" onClick={handleAddShot}>
                             <Plus className="w-4 h-4 mr-2" />Add Shot
@@ -1915,9 +2414,72 @@ const ProjectDetails = () => {
           onOpenChange={(open) => !open && setStoryboardScene(null)}
           scene={storyboardScene.scene}
           analysis={storyboardScene.analysis}
+          frames={project?.storyboardFrames || []}
+          onUploadFrame={handleUploadFrame}
+          onRemoveFrame={handleRemoveFrame}
+          notes={project?.shotNotes || {}}
+          onSaveNote={handleSaveShotNote}
         />
       )}
 
+      {/* Analysis History Dialog */}
+      {selectedScene && id && (
+        <AnalysisHistoryDialog
+          open={showAnalysisHistory}
+          onOpenChange={setShowAnalysisHistory}
+          projectId={id}
+          scene={selectedScene}
+        />
+      )}
+
+      {/* Script Revision Import */}
+      {id && (
+        <ScriptRevisionDialog
+          open={showScriptRevision}
+          onOpenChange={setShowScriptRevision}
+          projectId={id}
+          scenes={scenes}
+          scriptRevisions={project?.scriptRevisions}
+          sceneNumbersLocked={project?.sceneNumbersLocked}
+          omittedScenes={project?.omittedScenes}
+          onReanalyze={handleReanalyzeScenes}
+        />
+      )}
+
+      {/* Sharing */}
+      {id && project.role && (
+        <ShareProjectDialog
+          open={showShare}
+          onOpenChange={setShowShare}
+          projectId={id}
+          role={project.role}
+          collaborators={project.collaborators || []}
+          currentUserId={user?.id}
+          onLeft={() => navigate("/")}
+        />
+      )}
+
+      {/* Comments */}
+      <CommentsPanel
+        open={showComments}
+        onOpenChange={setShowComments}
+        threads={comments.threads}
+        members={comments.members}
+        inbox={comments.inbox}
+        currentUserId={user?.id}
+        canComment={canComment}
+        sceneNumber={selectedScene?.scene_number ?? null}
+        shotIds={sceneShotIds}
+        anchor={commentAnchor}
+        onAnchorChange={setCommentAnchor}
+        sceneLabel={sceneLabel}
+        onOpenThread={handleOpenThread}
+        onCreateThread={comments.createThread}
+        onReply={comments.reply}
+        onSetResolved={comments.setResolved}
+        onMarkRead={comments.markRead}
+      />
+
       {/* Export Modal */}
       <ExportModal
         open={showExportModal}
@@ -65,6 +65,7 @@ export default function UserGuide() {
               <li><strong>PDF</strong> — Most common (must be text, not scanned)</li>
               <li><strong>DOCX</strong> — Word documents</li>
               <li><strong>Final Draft (.fdx)</strong> — Screenwriting software files</li>
+              <li><strong>Fountain (.fountain)</strong> — Plain-text screenwriting markup (Highland, Slugline, Fade In, Beat)</li>
               <li><strong>TXT</strong> — Plain text files</li>
             </ul>
             <div className="mt-4 p-4 bg-yellow-500/10 border border-yellow-500/20 rounded-lg">
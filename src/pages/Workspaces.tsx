@@ -0,0 +1,409 @@
+// src/pages/Workspaces.tsx
+// Team workspaces: a shared credit balance, its members and their monthly
+// limits, and the ledger of every purchase and analysis charged to it
+
+import { useEffect, useState } from "react"
+import { useNavigate, useSearchParams } from "react-router-dom"
+import { Building2, Coins, Loader2, LogOut, Plus, Trash2, UserPlus } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Input } from "@/components/ui/input"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { Navigation } from "@/components/Navigation"
+import { useClerk, useUser } from "@clerk/clerk-react"
+import { toast } from "sonner"
+import { useWorkspaceLedger, useWorkspaces } from "@/hooks/useWorkspaces"
+import {
+  canManageMember,
+  hasWorkspaceRole,
+  LEDGER_KIND_LABELS,
+  MAX_WORKSPACE_NAME_LENGTH,
+  parseMonthlyLimit,
+  remainingAllowance,
+  WORKSPACE_MEMBER_ROLES,
+  WORKSPACE_ROLE_DESCRIPTIONS,
+  WORKSPACE_ROLE_LABELS,
+  type Workspace,
+  type WorkspaceMember,
+  type WorkspaceMemberRole,
+} from "@/lib/workspaces"
+
+type UpdateMembers = ReturnType<typeof useWorkspaces>['updateMembers']
+
+/** A member's limit, saved when the field loses focus */
+function LimitInput({ member, onSave }: {
+  member: WorkspaceMember
+  onSave: (limit: number | null) => void
+}) {
+  const [value, setValue] = useState(member.monthlyLimit === null ? '' : String(member.monthlyLimit))
+  useEffect(() => {
+    setValue(member.monthlyLimit === null ? '' : String(member.monthlyLimit))
+  }, [member.monthlyLimit])
+
+  const commit = () => {
+    const limit = parseMonthlyLimit(value.trim())
+    if (limit === undefined) {
+      toast.error('Enter a whole number of credits, or leave it empty for no limit')
+      setValue(member.monthlyLimit === null ? '' : String(member.monthlyLimit))
+      return
+    }
+    if (limit !== member.monthlyLimit) onSave(limit)
+  }
+
+  return (
+    <Input
+      value={value}
+      onChange={(e) => setValue(e.target.value)}
+      onBlur={commit}
+      onKeyDown={(e) => { if (e.key === 'Enter') (e.target as HTMLInputElement).blur() }}
+      placeholder="No limit"
+      inputMode="numeric"
+      className="h-8 w-28"
+    />
+  )
+}
+
+function MembersCard({ workspace, userId, updateMembers }: {
+  workspace: Workspace
+  userId: string
+  updateMembers: UpdateMembers
+}) {
+  const [email, setEmail] = useState("")
+  const [role, setRole] = useState<WorkspaceMemberRole>('member')
+  const [limit, setLimit] = useState("")
+  const [isAdding, setIsAdding] = useState(false)
+  const isAdmin = hasWorkspaceRole(workspace.role, 'admin')
+
+  const handleAdd = async () => {
+    const monthlyLimit = parseMonthlyLimit(limit.trim())
+    if (monthlyLimit === undefined) {
+      toast.error('Enter a whole number of credits, or leave the limit empty')
+      return
+    }
+    setIsAdding(true)
+    const added = await updateMembers(workspace.id, { action: 'add', email: email.trim(), role, monthlyLimit })
+    setIsAdding(false)
+    if (added) {
+      setEmail("")
+      setLimit("")
+      toast.success(`Added ${email.trim()}`)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Members</CardTitle>
+        <CardDescription>
+          Monthly limits cap what each member can spend of the workspace's credits in a calendar month (UTC).
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Member</TableHead>
+              <TableHead>Role</TableHead>
+              <TableHead>Monthly limit</TableHead>
+              <TableHead className="text-right">Spent this month</TableHead>
+              <TableHead />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {workspace.members.map((member) => {
+              const manageable = canManageMember(workspace.role, member.role)
+              const remaining = remainingAllowance(workspace, member.userId)
+              return (
+                <TableRow key={member.userId}>
+                  <TableCell>
+                    <div className="font-medium">{member.name || member.email || 'Member'}</div>
+                    {member.name && member.email && <div className="text-xs text-muted-foreground">{member.email}</div>}
+                  </TableCell>
+                  <TableCell>
+                    {manageable && workspace.role === 'owner' ? (
+                      <Select
+                        value={member.role}
+                        onValueChange={(value) => updateMembers(workspace.id, { action: 'update', userId: member.userId, role: value as WorkspaceMemberRole })}
+                      >
+                        <SelectTrigger className="h-8 w-28"><SelectValue /></SelectTrigger>
+                        <SelectContent>
+                          {WORKSPACE_MEMBER_ROLES.map(r => (
+                            <SelectItem key={r} value={r}>{WORKSPACE_ROLE_LABELS[r]}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    ) : (
+                      <Badge variant="outline">{WORKSPACE_ROLE_LABELS[member.role]}</Badge>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    {manageable ? (
+                      <LimitInput
+                        member={member}
+                        onSave={(monthlyLimit) => updateMembers(workspace.id, { action: 'update', userId: member.userId, monthlyLimit })}
+                      />
+                    ) : (
+                      <span className="text-sm text-muted-foreground">
+                        {member.monthlyLimit === null ? 'No limit' : `${member.monthlyLimit} credits`}
+                      </span>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-right font-mono">
+                    {workspace.spent[member.userId] || 0}
+                    {remaining !== null && (
+                      <div className="text-xs text-muted-foreground font-sans">{remaining} left</div>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {manageable && member.userId !== userId && (
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => updateMembers(workspace.id, { action: 'remove', userId: member.userId })}
+                        aria-label={`Remove ${member.name || member.email}`}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    )}
+                  </TableCell>
+                </TableRow>
+              )
+            })}
+          </TableBody>
+        </Table>
+
+        {isAdmin && (
+          <div className="flex flex-wrap items-end gap-2 pt-2 border-t border-border">
+            <Input
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              placeholder="Email address"
+              type="email"
+              className="w-64"
+            />
+            <Select value={role} onValueChange={(value) => setRole(value as WorkspaceMemberRole)}>
+              <SelectTrigger className="w-36"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                {WORKSPACE_MEMBER_ROLES.filter(r => canManageMember(workspace.role, r)).map(r => (
+                  <SelectItem key={r} value={r}>
+                    {WORKSPACE_ROLE_LABELS[r]}
+                    <span className="block text-xs text-muted-foreground">{WORKSPACE_ROLE_DESCRIPTIONS[r]}</span>
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Input
+              value={limit}
+              onChange={(e) => setLimit(e.target.value)}
+              placeholder="Monthly limit"
+              inputMode="numeric"
+              className="w-36"
+            />
+            <Button onClick={handleAdd} disabled={!email.includes('@') || isAdding}>
+              {isAdding ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <UserPlus className="h-4 w-4 mr-2" />}
+              Add member
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
+
+function LedgerCard({ workspace }: { workspace: Workspace }) {
+  const { entries, isLoading } = useWorkspaceLedger(workspace.id)
+  const nameOf = (userId: string) => {
+    const member = workspace.members.find(m => m.userId === userId)
+    return member ? member.name || member.email : 'Former member'
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Ledger</CardTitle>
+        <CardDescription>
+          {hasWorkspaceRole(workspace.role, 'admin')
+            ? 'Every purchase, analysis and refund on this workspace.'
+            : 'Your purchases, analyses and refunds on this workspace.'}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+        ) : entries.length === 0 ? (
+          <p className="text-sm text-muted-foreground">Nothing yet.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Date</TableHead>
+                <TableHead>Member</TableHead>
+                <TableHead>Type</TableHead>
+                <TableHead>Details</TableHead>
+                <TableHead className="text-right">Credits</TableHead>
+                <TableHead className="text-right">Balance</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {entries.map((entry) => (
+                <TableRow key={entry.id}>
+                  <TableCell className="whitespace-nowrap">{new Date(entry.createdAt).toLocaleString()}</TableCell>
+                  <TableCell>{nameOf(entry.userId)}</TableCell>
+                  <TableCell>{LEDGER_KIND_LABELS[entry.kind]}</TableCell>
+                  <TableCell className="text-sm text-muted-foreground">
+                    {entry.amount !== undefined ? `$${entry.amount.toFixed(2)}` : entry.reason || ''}
+                  </TableCell>
+                  <TableCell className={`text-right font-mono ${entry.credits < 0 ? 'text-netflix-red' : 'text-green-500'}`}>
+                    {entry.credits > 0 ? `+${entry.credits}` : entry.credits}
+                  </TableCell>
+                  <TableCell className="text-right font-mono">{entry.balance}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
+
+export default function Workspaces() {
+  const navigate = useNavigate()
+  const { user } = useUser()
+  const { signOut } = useClerk()
+  const [searchParams, setSearchParams] = useSearchParams()
+  const { workspaces, isLoading, createWorkspace, updateMembers } = useWorkspaces()
+  const [selectedId, setSelectedId] = useState<string | null>(null)
+  const [newName, setNewName] = useState("")
+  const [isCreating, setIsCreating] = useState(false)
+
+  useEffect(() => {
+    if (searchParams.get('credits') === 'success') {
+      toast.success('Payment received. The credits will appear in the workspace shortly.')
+      searchParams.delete('credits')
+      setSearchParams(searchParams, { replace: true })
+    }
+  }, [searchParams, setSearchParams])
+
+  const selected = workspaces.find(w => w.id === selectedId) || workspaces[0] || null
+
+  const handleCreate = async () => {
+    setIsCreating(true)
+    const workspace = await createWorkspace(newName.trim())
+    setIsCreating(false)
+    if (workspace) {
+      setNewName("")
+      setSelectedId(workspace.id)
+    }
+  }
+
+  const handleLeave = async (workspace: Workspace) => {
+    if (!user || !window.confirm(`Leave ${workspace.name}? You will lose access to its projects and credits.`)) return
+    if (await updateMembers(workspace.id, { action: 'remove', userId: user.id })) {
+      setSelectedId(null)
+      toast.success(`You left ${workspace.name}`)
+    }
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Navigation onSignOut={() => signOut()} />
+
+      <div className="max-w-6xl mx-auto px-4 py-12 space-y-8">
+        <div className="flex flex-wrap items-center justify-between gap-4">
+          <div>
+            <div className="flex items-center gap-2">
+              <Building2 className="h-8 w-8 text-netflix-red" />
+              <h1 className="text-4xl font-bold">Workspaces</h1>
+            </div>
+            <p className="text-muted-foreground mt-2">
+              Share one credit balance across your team. Projects in a workspace are billed to it.
+            </p>
+          </div>
+          <div className="flex items-center gap-2">
+            <Input
+              value={newName}
+              onChange={(e) => setNewName(e.target.value)}
+              placeholder="New workspace name"
+              maxLength={MAX_WORKSPACE_NAME_LENGTH}
+              className="w-56"
+            />
+            <Button onClick={handleCreate} disabled={!newName.trim() || isCreating}>
+              {isCreating ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Plus className="h-4 w-4 mr-2" />}
+              Create
+            </Button>
+          </div>
+        </div>
+
+        {isLoading ? (
+          <div className="flex justify-center py-12">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : !selected ? (
+          <Card>
+            <CardContent className="py-12 text-center text-muted-foreground">
+              You're not in any workspaces yet. Create one to pool credits with your team.
+            </CardContent>
+          </Card>
+        ) : (
+          <>
+            {workspaces.length > 1 && (
+              <div className="flex flex-wrap gap-2">
+                {workspaces.map(w => (
+                  <Button
+                    key={w.id}
+                    variant={w.id === selected.id ? 'default' : 'outline'}
+                    size="sm"
+                    onClick={() => setSelectedId(w.id)}
+                  >
+                    {w.name}
+                  </Button>
+                ))}
+              </div>
+            )}
+
+            <Card>
+              <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+                <div>
+                  <CardTitle className="text-2xl">{selected.name}</CardTitle>
+                  <CardDescription>You are {WORKSPACE_ROLE_LABELS[selected.role].toLowerCase()} of this workspace.</CardDescription>
+                </div>
+                <div className="flex items-center gap-2">
+                  {hasWorkspaceRole(selected.role, 'admin') && (
+                    <Button onClick={() => navigate(`/buy-credits?workspace=${selected.id}`)}>
+                      <Coins className="h-4 w-4 mr-2" />
+                      Buy credits
+                    </Button>
+                  )}
+                  {selected.role !== 'owner' && (
+                    <Button variant="outline" onClick={() => handleLeave(selected)}>
+                      <LogOut className="h-4 w-4 mr-2" />
+                      Leave
+                    </Button>
+                  )}
+                </div>
+              </CardHeader>
+              <CardContent className="flex flex-wrap gap-8">
+                <div>
+                  <div className="text-sm text-muted-foreground">Shared balance</div>
+                  <div className="text-3xl font-mono font-bold">{selected.credits}</div>
+                </div>
+                {user && remainingAllowance(selected, user.id) !== null && (
+                  <div>
+                    <div className="text-sm text-muted-foreground">Your allowance left this month</div>
+                    <div className="text-3xl font-mono font-bold">{remainingAllowance(selected, user.id)}</div>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+
+            {user && <MembersCard workspace={selected} userId={user.id} updateMembers={updateMembers} />}
+            <LedgerCard workspace={selected} />
+          </>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -1,10 +1,17 @@
 /**
  * Shared types for scene analysis data.
  * Single source of truth — used across ProjectDetails, shotListExporter,
- * MobileSceneView, StoryboardDialog, and promptBuilder.
+ * MobileSceneView, StoryboardDialog, and promptBuilder. The runtime rules
+ * for a complete analysis live in src/lib/analysisSchema.ts.
  */
 
-export interface ShotListItem {
+import type { SetupPayoffLink } from '../lib/storySpine';
+import type { ShotCamera } from '../lib/shotCamera';
+
+/** One shot; structured camera fields come from ShotCamera */
+export interface ShotListItem extends ShotCamera {
+  /** Stable shot ID, assigned server-side on save; see lib/shotIds */
+  id?: string;
   shot_number?: number;
   shot_type: string;
   subject?: string;
@@ -24,6 +31,14 @@ export interface ShotListItem {
   coverage?: string;
 }
 
+/** What one character carries into or out of a scene */
+export interface CharacterContinuityState {
+  costume?: string;
+  props?: string;
+  makeup?: string;
+  emotional_state?: string;
+}
+
 export interface StoryLogicContext {
   synopsis: string;
   want: string;
@@ -38,11 +53,71 @@ export interface StoryLogicContext {
 export interface Scene {
   id: string;
   scene_number: number;
+  /** Production scene number ("12A") once numbers are locked; display with displaySceneNumber */
+  scene_label?: string;
   header: string;
   content: string;
   analysis: string | null;
   status: string;
   storyLogicContext?: StoryLogicContext;
+  /** How the last imported script revision changed this scene */
+  revisionStatus?: 'unchanged' | 'modified' | 'added';
+  /** Set when a script revision changed the scene after it was analyzed */
+  needsReanalysis?: boolean;
+  /** Bumped on every save; sent back with edits so concurrent saves conflict (see lib/projectVersions) */
+  version?: number;
+}
+
+export type AnalysisPhase = 'story' | 'producing' | 'directing' | 'complete';
+
+/** Tokens and cost spent on one scene so far, across every model call */
+export interface AnalysisUsageTotals {
+  totalInputTokens: number;
+  totalOutputTokens: number;
+  totalCost: string;
+}
+
+/**
+ * Events on /api/analyze-scene-stream. Partial events carry the sections
+ * finished so far in their final AnalysisData shape; complete carries the
+ * same result the status endpoint reports.
+ */
+export type AnalysisStreamEvent =
+  | { type: 'phase'; phase: AnalysisPhase; message: string }
+  | { type: 'partial'; analysis: Partial<AnalysisData>; usage: AnalysisUsageTotals }
+  | {
+      type: 'complete';
+      result: {
+        analysis: AnalysisData;
+        validation?: { quality: 'good' | 'fair' | 'poor'; issues: string[] };
+        meta?: Record<string, unknown>;
+      };
+    }
+  | { type: 'error'; error: string };
+
+/** A single-scene analysis the client is following on the stream */
+export interface LiveSceneAnalysis {
+  sceneNumber: number;
+  phase: AnalysisPhase;
+  message: string;
+  analysis: Partial<AnalysisData>;
+  usage?: AnalysisUsageTotals;
+}
+
+/** A whole-project analysis batch as reported by analyze-scene-status?batchId= */
+export interface AnalysisBatchProgress {
+  batchId: string;
+  status: 'RUNNING' | 'PAUSED' | 'CANCELLED' | 'COMPLETED';
+  total: number;
+  counts: { pending: number; processing: number; completed: number; error: number; cancelled: number };
+  scenes: Array<{
+    sceneNumber: number;
+    status: 'PENDING' | 'PROCESSING' | 'COMPLETED' | 'ERROR' | 'CANCELLED';
+    progress?: { phase: string; message: string };
+    error?: string;
+  }>;
+  creditsReserved: number;
+  creditsRefunded: number;
 }
 
 export interface AnalysisData {
@@ -64,6 +139,8 @@ export interface AnalysisData {
     setup_payoff?: {
       setups: string[];
       payoffs: string[];
+      /** Story spine threads this scene starts or lands, with the scenes at the other end */
+      links?: SetupPayoffLink[];
     };
     essential_exposition?: string;
     if_this_scene_fails?: string;
@@ -75,7 +152,7 @@ export interface AnalysisData {
       revelation_or_realization?: string;
     };
     conflict?: {
-      type?: string;
+      type?: string | string[];
       what_characters_want?: string[];
       obstacles?: string[];
       tactics?: string[];
@@ -122,6 +199,12 @@ export interface AnalysisData {
         time_logic: string;
         emotional_state: string;
       };
+      /** Each principal's own state entering and leaving; older analyses only have the scene-level fields */
+      characters?: Array<{
+        name: string;
+        carries_in?: CharacterContinuityState;
+        carries_out?: CharacterContinuityState;
+      }>;
     };
     scene_complexity?: {
       rating: number;
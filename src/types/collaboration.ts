@@ -0,0 +1,54 @@
+/**
+ * Collaboration
+ * Messages on the project WebSocket (/api/collab). A client joins one
+ * project per connection, reports which scene it has open, and hears about
+ * who else is in the project and every change saved to it.
+ */
+
+import type { ProjectRole } from '../lib/projectAccess';
+import type { ProjectSection } from '../lib/projectVersions';
+
+/** What part of the project a change touched */
+export type ProjectChangeKind = 'scenes' | ProjectSection | 'storySpine' | 'frames' | 'notes' | 'comments' | 'sharing' | 'deleted';
+
+export interface ProjectChange {
+  kind: ProjectChangeKind;
+  /** For scene changes, the scenes written */
+  sceneNumbers?: number[];
+  /** The user who saved it; null for the server's own writes (batch analysis) */
+  by: string | null;
+  at: string;
+}
+
+export interface PresenceMember {
+  /** One per open connection, so the same person in two tabs shows once per tab */
+  connectionId: string;
+  userId: string;
+  name: string;
+  role: ProjectRole;
+  /** The scene they have open, if any */
+  sceneNumber: number | null;
+  joinedAt: string;
+}
+
+export type CollabClientMessage =
+  | { type: 'join'; projectId: string; token: string; name?: string }
+  | { type: 'focus'; sceneNumber: number | null }
+  | { type: 'ping' };
+
+export type CollabServerMessage =
+  | { type: 'joined'; connectionId: string; role: ProjectRole; members: PresenceMember[] }
+  | { type: 'presence'; members: PresenceMember[] }
+  | { type: 'change'; change: ProjectChange }
+  | { type: 'role'; role: ProjectRole }
+  | { type: 'pong' }
+  | { type: 'error'; error: string };
+
+/** Close codes the server uses when it ends a connection on purpose */
+export const COLLAB_CLOSE = {
+  /** No valid join arrived in time */
+  unauthenticated: 4001,
+  /** The project isn't shared with this user (or no longer is) */
+  forbidden: 4003,
+  notFound: 4004,
+} as const;
@@ -0,0 +1,37 @@
+/**
+ * Shooting Schedule
+ * Stripboard days persisted on the project document. Violations are derived
+ * from the current scene analyses on every render, so only the day layout
+ * and settings are stored.
+ */
+
+export interface ScheduleSettings {
+  /** Page budget per shoot day, in eighths (1 page = 8) */
+  maxEighthsPerDay: number;
+}
+
+export interface ShootDay {
+  dayNumber: number;
+  /** Scenes in shooting order for the day */
+  sceneNumbers: number[];
+}
+
+export interface ShootingSchedule {
+  settings: ScheduleSettings;
+  days: ShootDay[];
+  generatedAt: string;
+  updatedAt?: string;
+}
+
+export type ScheduleViolationType = 'order' | 'page_budget' | 'time_of_day' | 'unscheduled';
+
+export interface ScheduleViolation {
+  type: ScheduleViolationType;
+  message: string;
+  sceneNumber?: number;
+  dayNumber?: number;
+}
+
+export const DEFAULT_SCHEDULE_SETTINGS: ScheduleSettings = {
+  maxEighthsPerDay: 5 * 8,
+};
@@ -3,6 +3,8 @@
  * Ensures visual consistency across all scenes in a screenplay
  */
 
+import type { CameraAngle, CameraMovement, ShotSize } from '../lib/shotCamera';
+
 export interface VisualProfile {
   // Color
   color_palette_hex: string[]; // 6 primary colors for the film's visual identity
@@ -73,9 +75,9 @@ export interface ShotImagePrompt {
 
   // Shot-specific details
   shot_details: {
-    shot_size: 'EXTREME_WIDE' | 'WIDE' | 'MEDIUM_WIDE' | 'MEDIUM' | 'MEDIUM_CLOSE' | 'CLOSE_UP' | 'EXTREME_CLOSE' | 'INSERT' | 'POV';
-    camera_angle: 'EYE_LEVEL' | 'LOW_ANGLE' | 'HIGH_ANGLE' | 'DUTCH_ANGLE' | 'OVERHEAD' | 'WORM_EYE';
-    camera_movement: 'STATIC' | 'PUSH_IN' | 'PULL_OUT' | 'DOLLY' | 'PAN' | 'TILT' | 'HANDHELD' | 'STEADICAM' | 'CRANE';
+    shot_size: ShotSize;
+    camera_angle: CameraAngle;
+    camera_movement: CameraMovement;
     subject_description: string; // "JOHN (40s, exhausted) sitting at desk"
     action: string; // "reviewing documents with growing concern"
     environment: string; // "dimly lit home office, rain visible through window"
@@ -9,6 +9,16 @@ export function setAuthTokenGetter(fn: (() => Promise<string | null>) | null) {
   authTokenGetter = fn;
 }
 
+/** The current session token, for connections that can't go through fetch (WebSockets) */
+export async function getAuthToken(): Promise<string | null> {
+  if (!authTokenGetter) return null;
+  try {
+    return await authTokenGetter();
+  } catch {
+    return null;
+  }
+}
+
 async function buildHeaders(existing: HeadersInit | undefined): Promise<HeadersInit> {
   const headers = new Headers(existing);
   if (authTokenGetter) {
@@ -36,6 +46,8 @@ export interface ApiError extends Error {
   userMessage: string;
   retryable: boolean;
   originalError?: Error;
+  /** The parsed error response body, for errors that carry data (409 conflicts) */
+  details?: Record<string, unknown>;
 }
 
 const DEFAULT_CONFIG: Required<RetryConfig> = {
@@ -105,6 +117,11 @@ function createApiError(
         apiError.userMessage = `${context}: Resource not found. It may have been deleted.`;
         apiError.retryable = false;
         break;
+      case 409:
+        apiError.message = 'Conflict';
+        apiError.userMessage = `${context}: Someone else changed this since you loaded it. Reload to see their changes.`;
+        apiError.retryable = false;
+        break;
       case 413:
         apiError.message = 'Request too large';
         apiError.userMessage = `${context}: File or request is too large. Please try with a smaller file.`;
@@ -288,6 +305,7 @@ export async function apiCall<T = any>(
     if (error instanceof Response) {
       try {
         const errorData = await error.json();
+        apiError.details = errorData;
         if (errorData.error || errorData.message || errorData.userMessage) {
           apiError.code = errorData.error || apiError.code;
           apiError.message = errorData.message || apiError.message;
@@ -302,6 +320,48 @@ export async function apiCall<T = any>(
   }
 }
 
+/**
+ * Read a Server-Sent Events stream, calling onEvent with each event's parsed
+ * JSON data. Resolves when the server ends the stream or the signal aborts.
+ */
+export async function streamEvents<T = unknown>(
+  url: string,
+  onEvent: (event: T) => void,
+  options: { signal?: AbortSignal; context?: string } = {}
+): Promise<void> {
+  const context = options.context || 'Streaming updates';
+  const headers = await buildHeaders({ Accept: 'text/event-stream' });
+  const response = await fetch(url, { headers, signal: options.signal });
+  if (!response.ok || !response.body) {
+    throw createApiError(response.ok ? new Error('Streaming is not supported here') : response, context, false);
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+      // Events are separated by a blank line; "data:" lines carry the payload
+      let boundary: number;
+      while ((boundary = buffer.indexOf('\n\n')) >= 0) {
+        const frame = buffer.slice(0, boundary);
+        buffer = buffer.slice(boundary + 2);
+        const data = frame
+          .split('\n')
+          .filter(line => line.startsWith('data:'))
+          .map(line => line.slice(5).trimStart())
+          .join('\n');
+        if (data) onEvent(JSON.parse(data));
+      }
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
 /**
  * Convenience methods for common HTTP verbs
  */
@@ -0,0 +1,254 @@
+import { Scene, AnalysisData, parseAnalysis } from "@/types/analysis";
+import { CharacterRecord, canonicalizeNames, resolveCharacter } from "@/lib/characterRegistry";
+import { ShootingLocation, resolveLocation } from "@/lib/locationRegistry";
+import { displaySceneNumber } from "@/lib/sceneNumbering";
+
+// ═══════════════════════════════════════════════════════════════
+// SCRIPT BREAKDOWN MODEL
+// Normalizes each scene's producing_logistics into an industry-style
+// breakdown sheet: strip colour, eighths of a page, numbered cast and
+// elements grouped by category. Shared by the breakdown exporters and
+// anything that needs scheduling-grade scene data.
+// ═══════════════════════════════════════════════════════════════
+
+export type IntExt = 'INT' | 'EXT' | 'INT/EXT';
+export type DayNight = 'DAY' | 'NIGHT' | 'DAWN' | 'DUSK';
+
+export type BreakdownCategory =
+  | 'Background Actors'
+  | 'Props'
+  | 'Vehicles'
+  | 'Wardrobe'
+  | 'Makeup/Hair'
+  | 'Special Effects'
+  | 'Visual Effects'
+  | 'Stunts'
+  | 'Sound'
+  | 'Security/Safety'
+  | 'Notes';
+
+// Order elements appear on the sheet (after Cast Members)
+export const BREAKDOWN_CATEGORIES: BreakdownCategory[] = [
+  'Background Actors',
+  'Props',
+  'Vehicles',
+  'Wardrobe',
+  'Makeup/Hair',
+  'Special Effects',
+  'Visual Effects',
+  'Stunts',
+  'Sound',
+  'Security/Safety',
+  'Notes',
+];
+
+export interface CastMember {
+  id: number;
+  name: string;
+  sceneCount: number;
+}
+
+export interface BreakdownSheet {
+  sheetNumber: number;
+  sceneNumber: number;
+  /** Production scene number as printed ("12A") */
+  sceneLabel: string;
+  header: string;
+  intExt: IntExt;
+  dayNight: DayNight;
+  set: string;
+  /** Practical location the set is shot at; the set itself until it's mapped */
+  location: string;
+  locationId: string | null;
+  /** Page length in eighths (1 page = 8) */
+  eighths: number;
+  synopsis: string;
+  castIds: number[];
+  elements: Record<BreakdownCategory, string[]>;
+  stripColor: StripColor;
+}
+
+export interface Breakdown {
+  cast: CastMember[];
+  sheets: BreakdownSheet[];
+}
+
+export interface StripColor {
+  name: string;
+  rgb: [number, number, number];
+}
+
+// Standard stripboard colours used by most US productions
+const STRIP_COLORS: Record<string, StripColor> = {
+  'INT-DAY': { name: 'White', rgb: [255, 255, 255] },
+  'EXT-DAY': { name: 'Yellow', rgb: [255, 236, 120] },
+  'INT-NIGHT': { name: 'Blue', rgb: [150, 190, 255] },
+  'EXT-NIGHT': { name: 'Green', rgb: [150, 220, 150] },
+  'DAWN': { name: 'Pink', rgb: [255, 190, 210] },
+  'DUSK': { name: 'Orange', rgb: [255, 200, 140] },
+};
+
+export function getStripColor(intExt: IntExt, dayNight: DayNight): StripColor {
+  if (dayNight === 'DAWN' || dayNight === 'DUSK') return STRIP_COLORS[dayNight];
+  const exterior = intExt === 'EXT' ? 'EXT' : 'INT';
+  return STRIP_COLORS[`${exterior}-${dayNight}`];
+}
+
+/**
+ * Flatten the loosely-typed producing fields (wardrobe, sfx, etc.) into a
+ * list of labels. Older analyses store these as strings, arrays, or objects
+ * keyed by character/category.
+ */
+export function flattenElements(value: unknown): string[] {
+  if (!value) return [];
+  if (typeof value === 'string') {
+    const trimmed = value.trim();
+    if (!trimmed || /^(none|n\/a|none required|not applicable)\.?$/i.test(trimmed)) return [];
+    return [trimmed];
+  }
+  if (Array.isArray(value)) return value.flatMap(flattenElements);
+  if (typeof value === 'object') return Object.values(value as Record<string, unknown>).flatMap(flattenElements);
+  return [];
+}
+
+// Strip descriptors like "MIKE (30s)" → "MIKE" so the label matches the script text
+export const cleanLabel = (label: string): string =>
+  label.replace(/\s*\([^)]*\)\s*/g, ' ').replace(/\s+/g, ' ').trim();
+
+export function uniqueLabels(items: string[]): string[] {
+  const seen = new Set<string>();
+  return items.map(cleanLabel).filter(item => {
+    const key = item.toLowerCase();
+    if (!item || seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+export function normalizeIntExt(raw: string | undefined, header: string): IntExt {
+  const source = (raw || header).toUpperCase();
+  const hasInt = /\bINT\b|INT\.|INTERIOR|I\/E/.test(source);
+  const hasExt = /\bEXT\b|EXT\.|EXTERIOR|I\/E/.test(source);
+  if (hasInt && hasExt) return 'INT/EXT';
+  if (hasExt) return 'EXT';
+  return 'INT';
+}
+
+export function normalizeDayNight(raw: string | undefined, header: string): DayNight {
+  const source = `${raw || ''} ${header}`.toUpperCase();
+  if (/\bDAWN\b|\bSUNRISE\b/.test(source)) return 'DAWN';
+  if (/\bDUSK\b|\bSUNSET\b|\bMAGIC HOUR\b/.test(source)) return 'DUSK';
+  if (/\bNIGHT\b|\bEVENING\b|\bMIDNIGHT\b/.test(source)) return 'NIGHT';
+  return 'DAY';
+}
+
+export function setFromHeader(header: string): string {
+  return header
+    .replace(/^\s*\d+[A-Z]?\s+/, '')
+    .replace(/^(INT\.?\s*\/\s*EXT\.?|EXT\.?\s*\/\s*INT\.?|INT\.?|EXT\.?|I\/E\.?|INTERIOR|EXTERIOR)\s*/i, '')
+    .replace(/\s*[-–—]+\s*[^-–—]*$/, '')
+    .trim()
+    .toUpperCase() || 'UNKNOWN SET';
+}
+
+/**
+ * Page length in eighths. Prefers the analysis estimate; falls back to
+ * ~55 lines per page of scene text. Never less than 1/8.
+ */
+export function estimateEighths(analysis: AnalysisData | null, content: string): number {
+  const pages = Number(analysis?.producing_logistics?.estimated_screen_time?.pages);
+  if (pages && !Number.isNaN(pages) && pages > 0) return Math.max(1, Math.round(pages * 8));
+  const lines = (content || '').split('\n').length;
+  return Math.max(1, Math.round((lines / 55) * 8));
+}
+
+/** Format eighths the way breakdown sheets do: 11 → "1 3/8", 4 → "4/8" */
+export function formatEighths(eighths: number): string {
+  const whole = Math.floor(eighths / 8);
+  const rest = eighths % 8;
+  if (whole === 0) return `${rest}/8`;
+  return rest ? `${whole} ${rest}/8` : `${whole}`;
+}
+
+function sceneCastNames(analysis: AnalysisData | null, registry: CharacterRecord[]): string[] {
+  const cast = analysis?.producing_logistics?.cast;
+  const names = [...(cast?.principal || []), ...(cast?.speaking || []), ...(cast?.silent || [])];
+  return canonicalizeNames(registry, names);
+}
+
+function sceneElements(analysis: AnalysisData | null): Record<BreakdownCategory, string[]> {
+  const p = analysis?.producing_logistics;
+  const notes = p?.department_specific_notes || {};
+  const extras = p?.cast?.extras;
+  const extrasLabels = typeof extras === 'object' && extras !== null
+    ? flattenElements([extras.count && extras.description ? `${extras.count} ${extras.description}` : extras.description || extras.count])
+    : flattenElements(extras);
+
+  return {
+    'Background Actors': uniqueLabels(extrasLabels),
+    'Props': uniqueLabels(flattenElements(p?.key_props)),
+    'Vehicles': uniqueLabels(flattenElements(p?.vehicles)),
+    'Wardrobe': uniqueLabels(flattenElements(p?.wardrobe)),
+    'Makeup/Hair': uniqueLabels(flattenElements(p?.makeup)),
+    'Special Effects': uniqueLabels([...flattenElements(p?.sfx?.practical ?? (typeof p?.sfx === 'string' || Array.isArray(p?.sfx) ? p?.sfx : [])), ...flattenElements(notes.special_effects)]),
+    'Visual Effects': uniqueLabels([...flattenElements(p?.sfx?.vfx), ...flattenElements(notes.vfx)]),
+    'Stunts': uniqueLabels(flattenElements(notes.stunts)),
+    'Sound': uniqueLabels(flattenElements(p?.sound_design?.sound_effects_needed)),
+    'Security/Safety': uniqueLabels([...flattenElements(p?.safety_specifics?.protocols_required), ...flattenElements(p?.safety_specifics?.personnel_needed)]),
+    'Notes': uniqueLabels([...flattenElements(p?.special_requirements), ...flattenElements(p?.red_flags)]),
+  };
+}
+
+/**
+ * Build the breakdown for every analyzed scene. Names resolve through the
+ * project's cast registry and keep its cast numbers; anyone the registry
+ * doesn't know is numbered after it, most scenes first, ties broken by
+ * first appearance. Sets resolve to the project's shooting locations.
+ */
+export function buildBreakdown(scenes: Scene[], registry: CharacterRecord[] = [], locations: ShootingLocation[] = []): Breakdown {
+  const analyzed = scenes
+    .map(scene => ({ scene, analysis: parseAnalysis(scene.analysis) }))
+    .filter(({ analysis }) => analysis?.producing_logistics);
+
+  const castStats = new Map<string, { count: number; firstIndex: number }>();
+  analyzed.forEach(({ analysis }, idx) => {
+    for (const name of sceneCastNames(analysis, registry)) {
+      const entry = castStats.get(name);
+      if (entry) entry.count++;
+      else castStats.set(name, { count: 1, firstIndex: idx });
+    }
+  });
+
+  let nextId = Math.max(0, ...registry.map(r => r.castNumber)) + 1;
+  const cast: CastMember[] = Array.from(castStats.entries())
+    .sort((a, b) => b[1].count - a[1].count || a[1].firstIndex - b[1].firstIndex)
+    .map(([name, stats]) => ({ id: resolveCharacter(registry, name)?.castNumber ?? nextId++, name, sceneCount: stats.count }))
+    .sort((a, b) => a.id - b.id);
+  const castIdByName = new Map(cast.map(c => [c.name, c.id]));
+
+  const sheets: BreakdownSheet[] = analyzed.map(({ scene, analysis }, idx) => {
+    const loc = analysis?.producing_logistics?.locations;
+    const intExt = normalizeIntExt(loc?.intExt, scene.header);
+    const dayNight = normalizeDayNight(loc?.timeOfDay, scene.header);
+    const set = (loc?.primary || setFromHeader(scene.header)).toUpperCase();
+    const shootingLocation = resolveLocation(locations, set);
+    return {
+      sheetNumber: idx + 1,
+      sceneNumber: scene.scene_number,
+      sceneLabel: displaySceneNumber(scene),
+      header: scene.header,
+      intExt,
+      dayNight,
+      set,
+      location: shootingLocation?.name || set,
+      locationId: shootingLocation?.id || null,
+      eighths: estimateEighths(analysis, scene.content),
+      synopsis: analysis?.story_analysis?.synopsis || '',
+      castIds: sceneCastNames(analysis, registry).map(n => castIdByName.get(n)!).sort((a, b) => a - b),
+      elements: sceneElements(analysis),
+      stripColor: getStripColor(intExt, dayNight),
+    };
+  });
+
+  return { cast, sheets };
+}
@@ -0,0 +1,290 @@
+import { Scene, AnalysisData, parseAnalysis } from "@/types/analysis";
+import { ShootingSchedule } from "@/types/schedule";
+import { CharacterRecord } from "@/lib/characterRegistry";
+import { ShootingLocation } from "@/lib/locationRegistry";
+import { RateCard, DEFAULT_RATE_CARD } from "@/lib/rateCard";
+import { buildBreakdown, flattenElements, uniqueLabels } from "@/utils/breakdown";
+import { buildDood } from "@/utils/dood";
+
+// ═══════════════════════════════════════════════════════════════
+// BUDGET TOP SHEET
+// Rules-based estimate priced from the project's rate card. Shoot days come
+// from the saved schedule (or script order, like the DOOD), so crew,
+// equipment and location days are split across each day's scenes by page
+// count, and cast are paid from first to last work day. Location fees and
+// company moves follow the practical locations sets are mapped to. Effects, stunts,
+// night work and complexity add a premium on a scene's crew share.
+// Every below-the-line amount is the sum of the per-scene costs.
+// ═══════════════════════════════════════════════════════════════
+
+export type BudgetSection = 'above' | 'below' | 'post';
+
+export type BudgetAccount =
+  | 'Story & Rights'
+  | 'Producers'
+  | 'Director'
+  | 'Cast — Leads'
+  | 'Cast — Supporting'
+  | 'Cast — Day Players'
+  | 'Production Crew'
+  | 'Camera, Grip & Electric'
+  | 'Locations'
+  | 'Company Moves'
+  | 'Background Extras'
+  | 'Picture Vehicles'
+  | 'Special Effects & Stunts'
+  | 'Night & Complexity Premiums'
+  | 'Post-Production';
+
+export interface TopSheetLine {
+  account: BudgetAccount;
+  section: BudgetSection;
+  /** How the amount was worked out, e.g. "12 days × $12,000" */
+  basis: string;
+  amount: number;
+}
+
+export interface SceneCostDriver {
+  label: string;
+  amount: number;
+}
+
+export interface SceneCost {
+  sceneNumber: number;
+  sceneLabel: string;
+  header: string;
+  eighths: number;
+  total: number;
+  /** Largest first */
+  drivers: SceneCostDriver[];
+  /** The analysis' budget_flags, unpriced */
+  flags: string[];
+}
+
+export interface BudgetEstimate {
+  rateCard: RateCard;
+  lines: TopSheetLine[];
+  aboveTheLine: number;
+  belowTheLine: number;
+  post: number;
+  contingency: number;
+  total: number;
+  shootDays: number;
+  /** 'schedule' when shoot days come from the saved stripboard, 'script' for the fallback */
+  source: 'schedule' | 'script';
+  scenes: SceneCost[];
+  /** Scenes not analyzed yet, so not priced */
+  missingScenes: number[];
+}
+
+export const formatMoney = (amount: number, currency: string): string => {
+  try {
+    return new Intl.NumberFormat('en-US', { style: 'currency', currency, maximumFractionDigits: 0 }).format(amount);
+  } catch {
+    return `${currency} ${Math.round(amount).toLocaleString('en-US')}`;
+  }
+};
+
+type CastTier = 'lead' | 'supporting' | 'dayPlayer';
+
+const TIER_ACCOUNTS: Record<CastTier, BudgetAccount> = {
+  lead: 'Cast — Leads',
+  supporting: 'Cast — Supporting',
+  dayPlayer: 'Cast — Day Players',
+};
+
+/** Complexity 1-5; older analyses only have resource_impact */
+function complexityRating(analysis: AnalysisData | null): number {
+  const rating = Number(analysis?.producing_logistics?.scene_complexity?.rating);
+  if (rating >= 1 && rating <= 5) return Math.round(rating);
+  return analysis?.producing_logistics?.resource_impact === 'High' ? 4 : 3;
+}
+
+/** "12 bar patrons" → 12; a group without a number gets the rate card's assumption */
+function extrasHeadcount(labels: string[], rateCard: RateCard): number {
+  return labels.reduce((sum, label) => {
+    const count = Number(label.match(/\d+/)?.[0]);
+    return sum + (count > 0 ? count : rateCard.extrasPerUnspecifiedGroup);
+  }, 0);
+}
+
+/** Split an amount across scenes in proportion to their page count */
+function allocate(amount: number, sceneNumbers: number[], eighthsOf: (n: number) => number, add: (n: number, share: number) => void) {
+  const total = sceneNumbers.reduce((sum, n) => sum + eighthsOf(n), 0);
+  if (total === 0) return;
+  for (const n of sceneNumbers) add(n, (amount * eighthsOf(n)) / total);
+}
+
+export function buildBudget(
+  scenes: Scene[],
+  rateCard: RateCard = DEFAULT_RATE_CARD,
+  schedule?: ShootingSchedule | null,
+  registry: CharacterRecord[] = [],
+  locations: ShootingLocation[] = []
+): BudgetEstimate {
+  const money = (amount: number) => formatMoney(amount, rateCard.currency);
+  const { cast, sheets } = buildBreakdown(scenes, registry, locations);
+  const dood = buildDood(scenes, schedule, registry);
+  const sheetByScene = new Map(sheets.map(sheet => [sheet.sceneNumber, sheet]));
+  const analysisByScene = new Map(scenes.map(scene => [scene.scene_number, parseAnalysis(scene.analysis)]));
+  const eighthsOf = (n: number) => sheetByScene.get(n)?.eighths || 0;
+
+  // Per-scene running totals by driver
+  const costs = new Map<number, Map<string, number>>(sheets.map(sheet => [sheet.sceneNumber, new Map()]));
+  const charge = (sceneNumber: number, label: string, amount: number) => {
+    const drivers = costs.get(sceneNumber);
+    if (!drivers || amount <= 0) return;
+    drivers.set(label, (drivers.get(label) || 0) + amount);
+  };
+  const accounts = new Map<BudgetAccount, number>();
+  const book = (account: BudgetAccount, amount: number) => accounts.set(account, (accounts.get(account) || 0) + amount);
+
+  // Crew, equipment and locations: per shoot day, split by pages
+  let locationDays = 0;
+  let moves = 0;
+  let movesTotal = 0;
+  const crewShare = new Map<number, number>();
+  for (const day of dood.days) {
+    allocate(rateCard.crewDayRate + rateCard.equipmentDayRate, day.sceneNumbers, eighthsOf, (n, share) => {
+      crewShare.set(n, share);
+      charge(n, 'Crew & equipment', share);
+    });
+    const byLocation = new Map<string, number[]>();
+    let previous: string | null = null;
+    for (const n of day.sceneNumbers) {
+      const sheet = sheetByScene.get(n);
+      const location = sheet?.location || 'UNKNOWN SET';
+      byLocation.set(location, [...(byLocation.get(location) || []), n]);
+      // Moving mid-day is charged to the scene the company moves for
+      if (previous !== null && location !== previous) {
+        const ownCost = locations.find(l => l.id === sheet?.locationId)?.companyMoveCost || 0;
+        const cost = ownCost > 0 ? ownCost : rateCard.companyMoveCost;
+        moves++;
+        movesTotal += cost;
+        charge(n, 'Company move', cost);
+      }
+      previous = location;
+    }
+    byLocation.forEach(sceneNumbers => {
+      locationDays++;
+      allocate(rateCard.locationDayFee, sceneNumbers, eighthsOf, (n, share) => charge(n, 'Location', share));
+    });
+  }
+  const shootDays = dood.days.length;
+  book('Production Crew', shootDays * rateCard.crewDayRate);
+  book('Camera, Grip & Electric', shootDays * rateCard.equipmentDayRate);
+  book('Locations', locationDays * rateCard.locationDayFee);
+  book('Company Moves', movesTotal);
+
+  // Cast: payroll days (work + hold) at the tier rate, split over their scenes
+  const tierCounts: Record<CastTier, { people: number; days: number }> = {
+    lead: { people: 0, days: 0 },
+    supporting: { people: 0, days: 0 },
+    dayPlayer: { people: 0, days: 0 },
+  };
+  const leadIds = new Set(cast.slice(0, rateCard.leadCount).map(member => member.id));
+  for (const row of dood.rows) {
+    if (row.totalDays === 0) continue;
+    const tier: CastTier = leadIds.has(row.castId) ? 'lead' : row.workDays > 1 ? 'supporting' : 'dayPlayer';
+    const rate = tier === 'lead' ? rateCard.leadDayRate : tier === 'supporting' ? rateCard.supportingDayRate : rateCard.dayPlayerRate;
+    const amount = row.totalDays * rate;
+    tierCounts[tier].people++;
+    tierCounts[tier].days += row.totalDays;
+    book(TIER_ACCOUNTS[tier], amount);
+    const castScenes = sheets.filter(sheet => sheet.castIds.includes(row.castId)).map(sheet => sheet.sceneNumber);
+    allocate(amount, castScenes, eighthsOf, (n, share) => charge(n, 'Cast', share));
+  }
+
+  // Scene-level bookings and premiums
+  let extrasTotal = 0;
+  let vehiclesTotal = 0;
+  for (const sheet of sheets) {
+    const n = sheet.sceneNumber;
+    const extras = extrasHeadcount(sheet.elements['Background Actors'], rateCard);
+    extrasTotal += extras;
+    charge(n, `Extras (${extras})`, extras * rateCard.extraDayRate);
+    book('Background Extras', extras * rateCard.extraDayRate);
+
+    const vehicles = sheet.elements['Vehicles'].length;
+    vehiclesTotal += vehicles;
+    charge(n, `Vehicles (${vehicles})`, vehicles * rateCard.vehicleDayRate);
+    book('Picture Vehicles', vehicles * rateCard.vehicleDayRate);
+
+    const base = crewShare.get(n) || 0;
+    const hasEffects = sheet.elements['Special Effects'].length > 0 || sheet.elements['Visual Effects'].length > 0;
+    const effects = hasEffects ? base * (rateCard.sfxMultiplier - 1) : 0;
+    const stunts = sheet.elements['Stunts'].length > 0 ? base * (rateCard.stuntMultiplier - 1) : 0;
+    const night = sheet.dayNight === 'NIGHT' ? base * (rateCard.nightMultiplier - 1) : 0;
+    const complexity = base * rateCard.complexityStep * Math.max(0, complexityRating(analysisByScene.get(n) || null) - 3);
+    charge(n, 'SFX/VFX premium', effects);
+    charge(n, 'Stunt premium', stunts);
+    charge(n, 'Night premium', night);
+    charge(n, 'Complexity premium', complexity);
+    book('Special Effects & Stunts', effects + stunts);
+    book('Night & Complexity Premiums', night + complexity);
+
+    // A page of script is roughly a minute of screen time
+    const post = (sheet.eighths / 8) * rateCard.postPerMinute;
+    charge(n, 'Post', post);
+    book('Post-Production', post);
+  }
+
+  const totalEighths = sheets.reduce((sum, sheet) => sum + sheet.eighths, 0);
+  const tierBasis = (tier: CastTier, rate: number) =>
+    `${tierCounts[tier].people} cast, ${tierCounts[tier].days} days × ${money(rate)}`;
+
+  const lines: TopSheetLine[] = [
+    { account: 'Story & Rights', section: 'above', basis: 'Flat fee', amount: rateCard.writerFee },
+    { account: 'Producers', section: 'above', basis: 'Flat fee', amount: rateCard.producerFee },
+    { account: 'Director', section: 'above', basis: 'Flat fee', amount: rateCard.directorFee },
+    { account: 'Cast — Leads', section: 'above', basis: tierBasis('lead', rateCard.leadDayRate), amount: accounts.get('Cast — Leads') || 0 },
+    { account: 'Cast — Supporting', section: 'above', basis: tierBasis('supporting', rateCard.supportingDayRate), amount: accounts.get('Cast — Supporting') || 0 },
+    { account: 'Cast — Day Players', section: 'above', basis: tierBasis('dayPlayer', rateCard.dayPlayerRate), amount: accounts.get('Cast — Day Players') || 0 },
+    { account: 'Production Crew', section: 'below', basis: `${shootDays} days × ${money(rateCard.crewDayRate)}`, amount: accounts.get('Production Crew') || 0 },
+    { account: 'Camera, Grip & Electric', section: 'below', basis: `${shootDays} days × ${money(rateCard.equipmentDayRate)}`, amount: accounts.get('Camera, Grip & Electric') || 0 },
+    { account: 'Locations', section: 'below', basis: `${locationDays} location-days × ${money(rateCard.locationDayFee)}`, amount: accounts.get('Locations') || 0 },
+    { account: 'Company Moves', section: 'below', basis: `${moves} mid-day moves`, amount: accounts.get('Company Moves') || 0 },
+    { account: 'Background Extras', section: 'below', basis: `${extrasTotal} extra-days × ${money(rateCard.extraDayRate)}`, amount: accounts.get('Background Extras') || 0 },
+    { account: 'Picture Vehicles', section: 'below', basis: `${vehiclesTotal} vehicle-days × ${money(rateCard.vehicleDayRate)}`, amount: accounts.get('Picture Vehicles') || 0 },
+    { account: 'Special Effects & Stunts', section: 'below', basis: `×${rateCard.sfxMultiplier} effects, ×${rateCard.stuntMultiplier} stunts on crew share`, amount: accounts.get('Special Effects & Stunts') || 0 },
+    { account: 'Night & Complexity Premiums', section: 'below', basis: `×${rateCard.nightMultiplier} nights, +${Math.round(rateCard.complexityStep * 100)}% per complexity point over 3`, amount: accounts.get('Night & Complexity Premiums') || 0 },
+    { account: 'Post-Production', section: 'post', basis: `~${Math.round(totalEighths / 8)} min × ${money(rateCard.postPerMinute)}`, amount: accounts.get('Post-Production') || 0 },
+  ];
+
+  const sectionTotal = (section: BudgetSection) =>
+    lines.filter(line => line.section === section).reduce((sum, line) => sum + line.amount, 0);
+  const aboveTheLine = sectionTotal('above');
+  const belowTheLine = sectionTotal('below');
+  const post = sectionTotal('post');
+  const contingency = ((aboveTheLine + belowTheLine + post) * rateCard.contingencyPercent) / 100;
+
+  const sceneCosts: SceneCost[] = sheets.map(sheet => {
+    const drivers = Array.from(costs.get(sheet.sceneNumber)!.entries())
+      .map(([label, amount]) => ({ label, amount }))
+      .sort((a, b) => b.amount - a.amount);
+    return {
+      sceneNumber: sheet.sceneNumber,
+      sceneLabel: sheet.sceneLabel,
+      header: sheet.header,
+      eighths: sheet.eighths,
+      total: drivers.reduce((sum, driver) => sum + driver.amount, 0),
+      drivers,
+      flags: uniqueLabels(flattenElements(analysisByScene.get(sheet.sceneNumber)?.producing_logistics?.budget_flags)),
+    };
+  });
+
+  const priced = new Set(sheets.map(sheet => sheet.sceneNumber));
+  return {
+    rateCard,
+    lines,
+    aboveTheLine,
+    belowTheLine,
+    post,
+    contingency,
+    total: aboveTheLine + belowTheLine + post + contingency,
+    shootDays,
+    source: dood.source,
+    scenes: sceneCosts,
+    missingScenes: scenes.map(scene => scene.scene_number).filter(n => !priced.has(n)).sort((a, b) => a - b),
+  };
+}
@@ -0,0 +1,298 @@
+import { Scene, AnalysisData, CharacterContinuityState, parseAnalysis } from "@/types/analysis";
+import { CharacterRecord, canonicalizeNames, normalizeCharacterName } from "@/lib/characterRegistry";
+import { displaySceneNumber } from "@/lib/sceneNumbering";
+import { normalizeDayNight } from "@/utils/breakdown";
+
+// ═══════════════════════════════════════════════════════════════
+// CONTINUITY TRACKER
+// Walks the scenes in script order and, for every character, compares what
+// they carry out of one appearance with what they carry into the next:
+// costume, props, makeup/hair and emotional state. The analyses describe
+// these in free text, so two states "match" when they share enough of their
+// significant words. In continuous time any difference is a mismatch; across
+// a time jump costume and mood may change, but injuries and damage that
+// vanish are still flagged as unexplained.
+// ═══════════════════════════════════════════════════════════════
+
+export type ContinuityField = 'costume' | 'props' | 'makeup' | 'emotional_state' | 'time_logic';
+
+export type ContinuityIssueKind =
+  /** Continuous time, but the next scene starts from a different state */
+  | 'mismatch'
+  /** After a time jump, damage or an injury is gone with nothing to explain it */
+  | 'unexplained_change'
+  /** A scene claims to be continuous with one at a different time of day */
+  | 'time_conflict';
+
+export interface ContinuityIssue {
+  kind: ContinuityIssueKind;
+  /** Null for scene-level time logic */
+  character: string | null;
+  field: ContinuityField;
+  fromScene: number;
+  fromLabel: string;
+  toScene: number;
+  toLabel: string;
+  carriedOut: string;
+  carriedIn: string;
+  message: string;
+}
+
+export interface ContinuityReport {
+  issues: ContinuityIssue[];
+  /** Characters tracked, with the scenes their state was compared across */
+  characters: Array<{ name: string; sceneNumbers: number[] }>;
+  pairsChecked: number;
+  /** Scenes without continuity data (not analyzed yet) */
+  missingScenes: number[];
+}
+
+type CharacterField = Exclude<ContinuityField, 'time_logic'>;
+const CHARACTER_FIELDS: CharacterField[] = ['costume', 'props', 'makeup', 'emotional_state'];
+
+const FIELD_LABELS: Record<ContinuityField, string> = {
+  costume: 'Costume',
+  props: 'Props',
+  makeup: 'Makeup/hair',
+  emotional_state: 'Emotional state',
+  time_logic: 'Time logic',
+};
+
+export const continuityFieldLabel = (field: ContinuityField): string => FIELD_LABELS[field];
+
+interface CharacterState {
+  in: CharacterContinuityState;
+  out: CharacterContinuityState;
+}
+
+interface SceneContinuity {
+  scene: Scene;
+  label: string;
+  dayNight: string;
+  timeIn: string;
+  timeOut: string;
+  characters: Map<string, CharacterState>;
+}
+
+// ─── Text comparison ─────────────────────────────────────────────
+
+const BLANK_RE = /^(none|n\/?a|nothing|not (specified|applicable|mentioned|noted)|unknown|-+)\.?$/i;
+const UNCHANGED_RE = /^(unchanged|same|no change|as before|as entering|same as (before|entering|above|previous))\b/i;
+const CONTINUOUS_RE = /\b(continuous|same time|simultaneous|immediately|moments? later|seconds? later|(a )?(few )?minutes? later)\b/i;
+const TIME_JUMP_RE = /\b(later|next|following|tomorrow|yesterday|overnight|weeks?|months?|years?|days?|hours?|ago|earlier|flashback|flash forward|previously)\b/i;
+// Marks that don't come off between scenes without a reason
+const DAMAGE_RE = /\b(blood\w*|bruis\w*|cuts?|scars?|wound\w*|bandag\w*|cast|sling|stitch\w*|torn|ripped|soaked|wet|mud\w*|dirt\w*|stain\w*|burn\w*|black eye|swollen|limp\w*)\b/gi;
+
+const STOPWORDS = new Set([
+  'the', 'and', 'with', 'her', 'his', 'their', 'she', 'him', 'they', 'them', 'from', 'into', 'still', 'now',
+  'wearing', 'wears', 'carrying', 'carries', 'holding', 'holds', 'has', 'have', 'had', 'same', 'previous',
+  'scene', 'entering', 'exiting', 'leaving', 'state', 'slightly', 'very', 'more', 'less', 'that', 'this',
+  'for', 'but', 'not', 'its', 'are', 'was', 'were', 'been', 'being', 'all', 'some', 'one', 'two',
+]);
+
+const isBlank = (value: string | undefined): boolean => !value || !value.trim() || BLANK_RE.test(value.trim());
+
+function keywords(text: string, ignore: Set<string>): Set<string> {
+  const words = text
+    .toLowerCase()
+    .replace(/['’]s\b/g, '')
+    .split(/[^a-z0-9]+/)
+    .filter(word => word.length >= 3 && !STOPWORDS.has(word) && !ignore.has(word))
+    .map(word => (word.length > 3 && word.endsWith('s') && !word.endsWith('ss') ? word.slice(0, -1) : word));
+  return new Set(words);
+}
+
+/** Share of the shorter description's words that the other one also has */
+function overlap(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 || b.size === 0) return 1;
+  let shared = 0;
+  a.forEach(word => { if (b.has(word)) shared++; });
+  return shared / Math.min(a.size, b.size);
+}
+
+const splitItems = (text: string): string[] =>
+  text.split(/,|;|\n|\band\b|\+/i).map(item => item.trim()).filter(item => !isBlank(item));
+
+const damageMarks = (text: string): string[] =>
+  Array.from(new Set((text.match(DAMAGE_RE) || []).map(mark => mark.toLowerCase())));
+
+// ─── Per-scene states ────────────────────────────────────────────
+
+/** "Unchanged" on the way out means whatever the character came in with */
+function resolveOut(value: string | undefined, entering: string | undefined): string {
+  if (value && UNCHANGED_RE.test(value.trim())) return entering || '';
+  return value || '';
+}
+
+function characterStates(analysis: AnalysisData, registry: CharacterRecord[]): Map<string, CharacterState> {
+  const continuity = analysis.producing_logistics?.continuity;
+  const states = new Map<string, CharacterState>();
+  if (!continuity) return states;
+
+  const add = (rawName: string, entering: CharacterContinuityState, leaving: CharacterContinuityState) => {
+    const name = canonicalizeNames(registry, [rawName])[0];
+    if (!name) return;
+    const out: CharacterContinuityState = {};
+    for (const field of CHARACTER_FIELDS) out[field] = resolveOut(leaving[field], entering[field]);
+    states.set(name, { in: entering, out });
+  };
+
+  if (Array.isArray(continuity.characters) && continuity.characters.length > 0) {
+    for (const entry of continuity.characters) {
+      if (entry?.name) add(entry.name, entry.carries_in || {}, entry.carries_out || {});
+    }
+    return states;
+  }
+
+  // Older analyses only have scene-level carries. Give each character the
+  // clauses that name them; a one-character scene gets everything.
+  const cast = analysis.producing_logistics?.cast;
+  const names = canonicalizeNames(registry, [...(cast?.principal || []), ...(cast?.speaking || [])]);
+  const carriesIn = continuity.carries_in || ({} as Record<string, string>);
+  const carriesOut = continuity.carries_out || ({} as Record<string, string>);
+  for (const name of names) {
+    const firstName = name.split(' ')[0];
+    const pick = (text: string | undefined): string => {
+      if (!text || names.length === 1) return text || '';
+      return text
+        .split(/(?<=[.;])\s+|\n/)
+        .filter(clause => normalizeCharacterName(clause).includes(firstName))
+        .join(' ');
+    };
+    const entering: CharacterContinuityState = {};
+    const leaving: CharacterContinuityState = {};
+    for (const field of CHARACTER_FIELDS) {
+      entering[field] = pick(carriesIn[field]);
+      leaving[field] = pick(carriesOut[field]);
+    }
+    if (CHARACTER_FIELDS.some(field => entering[field] || leaving[field])) add(name, entering, leaving);
+  }
+  return states;
+}
+
+// ─── Report ──────────────────────────────────────────────────────
+
+export function buildContinuityReport(scenes: Scene[], registry: CharacterRecord[] = []): ContinuityReport {
+  const ordered = [...scenes].sort((a, b) => a.scene_number - b.scene_number);
+  const tracked: SceneContinuity[] = [];
+  const missingScenes: number[] = [];
+
+  for (const scene of ordered) {
+    const analysis = parseAnalysis(scene.analysis);
+    const continuity = analysis?.producing_logistics?.continuity;
+    if (!analysis || !continuity) {
+      missingScenes.push(scene.scene_number);
+      continue;
+    }
+    tracked.push({
+      scene,
+      label: displaySceneNumber(scene),
+      dayNight: normalizeDayNight(analysis.producing_logistics?.locations?.timeOfDay, scene.header),
+      timeIn: continuity.carries_in?.time_logic || '',
+      timeOut: continuity.carries_out?.time_logic || '',
+      characters: characterStates(analysis, registry),
+    });
+  }
+
+  const issues: ContinuityIssue[] = [];
+
+  // Time passes between two tracked scenes if any step between them says so,
+  // or the time of day changes along the way
+  const jumpBefore = tracked.map((current, idx) => {
+    if (idx === 0) return true;
+    const previous = tracked[idx - 1];
+    const claimsContinuous = CONTINUOUS_RE.test(current.timeIn) || /\bCONTINUOUS\b/i.test(current.scene.header);
+    if (claimsContinuous && previous.dayNight !== current.dayNight) {
+      issues.push({
+        kind: 'time_conflict',
+        character: null,
+        field: 'time_logic',
+        fromScene: previous.scene.scene_number,
+        fromLabel: previous.label,
+        toScene: current.scene.scene_number,
+        toLabel: current.label,
+        carriedOut: `${previous.dayNight}${previous.timeOut ? ` — ${previous.timeOut}` : ''}`,
+        carriedIn: `${current.dayNight}${current.timeIn ? ` — ${current.timeIn}` : ''}`,
+        message: `Scene ${current.label} is marked continuous with scene ${previous.label}, but one is ${previous.dayNight} and the other ${current.dayNight}`,
+      });
+    }
+    if (claimsContinuous) return false;
+    return previous.dayNight !== current.dayNight || TIME_JUMP_RE.test(current.timeIn) || TIME_JUMP_RE.test(previous.timeOut);
+  });
+  const timePassesBetween = (fromIdx: number, toIdx: number) => jumpBefore.slice(fromIdx + 1, toIdx + 1).some(Boolean);
+
+  const appearances = new Map<string, number[]>();
+  tracked.forEach((entry, idx) => {
+    for (const name of entry.characters.keys()) appearances.set(name, [...(appearances.get(name) || []), idx]);
+  });
+
+  let pairsChecked = 0;
+  const characters: ContinuityReport['characters'] = [];
+
+  for (const [name, indices] of appearances) {
+    characters.push({ name, sceneNumbers: indices.map(idx => tracked[idx].scene.scene_number) });
+    const nameWords = new Set(name.toLowerCase().split(/\s+/));
+
+    for (let i = 1; i < indices.length; i++) {
+      const from = tracked[indices[i - 1]];
+      const to = tracked[indices[i]];
+      const leaving = from.characters.get(name)!.out;
+      const entering = to.characters.get(name)!.in;
+      const timeJump = timePassesBetween(indices[i - 1], indices[i]);
+      pairsChecked++;
+
+      const flag = (kind: ContinuityIssueKind, field: CharacterField, message: string) => issues.push({
+        kind,
+        character: name,
+        field,
+        fromScene: from.scene.scene_number,
+        fromLabel: from.label,
+        toScene: to.scene.scene_number,
+        toLabel: to.label,
+        carriedOut: leaving[field] || '',
+        carriedIn: entering[field] || '',
+        message,
+      });
+
+      for (const field of CHARACTER_FIELDS) {
+        const out = leaving[field] || '';
+        const into = entering[field] || '';
+        if (isBlank(out) || isBlank(into) || UNCHANGED_RE.test(into.trim())) continue;
+
+        if (timeJump) {
+          // Clothes and moods change off screen; wounds and mud don't just vanish
+          if (field !== 'costume' && field !== 'makeup') continue;
+          const gone = damageMarks(out).filter(mark => !damageMarks(into).includes(mark));
+          if (gone.length > 0) {
+            flag('unexplained_change', field, `${name} leaves scene ${from.label} with ${gone.join(', ')}; it's gone in scene ${to.label}`);
+          }
+          continue;
+        }
+
+        if (field === 'props') {
+          const outItems = splitItems(out);
+          const inItems = splitItems(into);
+          const inWords = keywords(into, nameWords);
+          const outWords = keywords(out, nameWords);
+          const dropped = outItems.filter(item => overlap(keywords(item, nameWords), inWords) === 0);
+          const appeared = inItems.filter(item => overlap(keywords(item, nameWords), outWords) === 0);
+          if (dropped.length > 0) {
+            flag('mismatch', field, `${name} leaves scene ${from.label} with ${dropped.join(', ')} but doesn't have it entering scene ${to.label}`);
+          }
+          if (appeared.length > 0) {
+            flag('mismatch', field, `${name} enters scene ${to.label} with ${appeared.join(', ')}, which they didn't have leaving scene ${from.label}`);
+          }
+          continue;
+        }
+
+        if (overlap(keywords(out, nameWords), keywords(into, nameWords)) < 0.34) {
+          flag('mismatch', field, `${continuityFieldLabel(field)} for ${name} changes between scene ${from.label} and scene ${to.label} with no time passing`);
+        }
+      }
+    }
+  }
+
+  issues.sort((a, b) => a.toScene - b.toScene || (a.character || '').localeCompare(b.character || ''));
+  characters.sort((a, b) => b.sceneNumbers.length - a.sceneNumbers.length);
+  return { issues, characters, pairsChecked, missingScenes };
+}
@@ -0,0 +1,245 @@
+import { Scene, AnalysisData, parseAnalysis } from "@/types/analysis";
+import { CharacterRecord, canonicalizeNames } from "@/lib/characterRegistry";
+import { displaySceneNumber } from "@/lib/sceneNumbering";
+import { flattenElements, uniqueLabels, normalizeDayNight, setFromHeader, DayNight } from "@/utils/breakdown";
+
+// ═══════════════════════════════════════════════════════════════
+// DEPARTMENT REPORTS
+// Collects one department's items from every analyzed scene — wardrobe,
+// makeup/hair, props, special effects, sound or safety — so each head of
+// department gets just their list. Items that belong to a character
+// (what they wear, what they carry) are grouped under that character;
+// everything else is grouped under the set it's needed on.
+// ═══════════════════════════════════════════════════════════════
+
+export type DepartmentId = 'wardrobe' | 'makeup' | 'props' | 'sfx' | 'sound' | 'safety';
+
+export interface DepartmentDefinition {
+  id: DepartmentId;
+  name: string;
+  /** Who the report is handed to */
+  recipient: string;
+}
+
+export const DEPARTMENTS: DepartmentDefinition[] = [
+  { id: 'wardrobe', name: 'Wardrobe', recipient: 'Costume Designer' },
+  { id: 'makeup', name: 'Makeup & Hair', recipient: 'Makeup & Hair Department Head' },
+  { id: 'props', name: 'Props', recipient: 'Property Master' },
+  { id: 'sfx', name: 'Special Effects', recipient: 'SFX Supervisor' },
+  { id: 'sound', name: 'Sound', recipient: 'Production Sound Mixer' },
+  { id: 'safety', name: 'Safety', recipient: 'Safety Officer / Stunt Coordinator' },
+];
+
+export const getDepartment = (id: DepartmentId): DepartmentDefinition =>
+  DEPARTMENTS.find(dept => dept.id === id) || DEPARTMENTS[0];
+
+export interface DepartmentEntry {
+  sceneNumber: number;
+  /** Production scene number as printed ("12A") */
+  sceneLabel: string;
+  set: string;
+  dayNight: DayNight;
+  /** Kind of item within the department, e.g. "Costume change" or "Ambience" */
+  category: string;
+  item: string;
+}
+
+export interface DepartmentGroup {
+  kind: 'character' | 'location';
+  name: string;
+  entries: DepartmentEntry[];
+  sceneNumbers: number[];
+}
+
+export interface DepartmentReport {
+  department: DepartmentDefinition;
+  /** Characters first, then sets, each in order of first appearance */
+  groups: DepartmentGroup[];
+  itemCount: number;
+  /** Analyzed scenes with at least one item for this department */
+  sceneCount: number;
+  /** Scenes not analyzed yet, so not covered */
+  missingScenes: number[];
+}
+
+interface CollectedItem {
+  kind: DepartmentGroup['kind'];
+  /** Character name; location items use the scene's set */
+  group?: string;
+  category: string;
+  item: string;
+}
+
+interface SceneContext {
+  analysis: AnalysisData;
+  registry: CharacterRecord[];
+  /** Canonical names of everyone in the scene */
+  cast: string[];
+}
+
+const UNCHANGED_RE = /^(unchanged|same|no change|as before|as entering)\b/i;
+
+const labels = (value: unknown): string[] =>
+  uniqueLabels(flattenElements(value)).filter(item => !UNCHANGED_RE.test(item));
+
+const atLocation = (category: string, value: unknown): CollectedItem[] =>
+  labels(value).map(item => ({ kind: 'location', category, item }));
+
+/**
+ * Per-character continuity state for one field. What a character carries in
+ * is what the department dresses them in; a different state on the way out
+ * is a change made during the scene.
+ */
+function fromContinuity(ctx: SceneContext, field: 'costume' | 'makeup' | 'props', category: string, changeCategory: string): CollectedItem[] {
+  const items: CollectedItem[] = [];
+  for (const entry of ctx.analysis.producing_logistics?.continuity?.characters || []) {
+    const name = entry?.name && canonicalizeNames(ctx.registry, [entry.name])[0];
+    if (!name) continue;
+    const entering = labels(entry.carries_in?.[field]);
+    const leaving = labels(entry.carries_out?.[field]).filter(item => !entering.some(e => e.toLowerCase() === item.toLowerCase()));
+    entering.forEach(item => items.push({ kind: 'character', group: name, category, item }));
+    leaving.forEach(item => items.push({ kind: 'character', group: name, category: changeCategory, item }));
+  }
+  return items;
+}
+
+/**
+ * Older analyses store wardrobe and makeup as free text, lists, or objects
+ * keyed by character. Keys that name someone in the scene go to that
+ * character; anything else stays with the set.
+ */
+function fromLooseField(ctx: SceneContext, value: unknown, category: string): CollectedItem[] {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return atLocation(category, value);
+  const items: CollectedItem[] = [];
+  for (const [key, inner] of Object.entries(value as Record<string, unknown>)) {
+    const name = canonicalizeNames(ctx.registry, [key])[0];
+    if (name && ctx.cast.includes(name)) {
+      labels(inner).forEach(item => items.push({ kind: 'character', group: name, category, item }));
+    } else {
+      items.push(...atLocation(category, inner));
+    }
+  }
+  return items;
+}
+
+function collect(department: DepartmentId, ctx: SceneContext): CollectedItem[] {
+  const p = ctx.analysis.producing_logistics;
+  const notes = p?.department_specific_notes || {};
+
+  switch (department) {
+    case 'wardrobe':
+      return [
+        ...fromContinuity(ctx, 'costume', 'Costume', 'Costume change'),
+        ...fromLooseField(ctx, p?.wardrobe, 'Wardrobe'),
+        ...atLocation('Department note', notes.costume),
+      ];
+    case 'makeup':
+      return [
+        ...fromContinuity(ctx, 'makeup', 'Look', 'Look change'),
+        ...fromLooseField(ctx, p?.makeup, 'Makeup/hair'),
+        ...atLocation('Department note', notes.makeup),
+      ];
+    case 'props':
+      return [
+        ...fromContinuity(ctx, 'props', 'Carried', 'Picked up / changed'),
+        ...atLocation('Key prop', p?.key_props),
+        ...atLocation('Vehicle', p?.vehicles),
+        ...atLocation('Department note', notes.props),
+      ];
+    case 'sfx': {
+      const sfx = p?.sfx;
+      const practical = sfx?.practical ?? (typeof sfx === 'string' || Array.isArray(sfx) ? sfx : []);
+      return [
+        ...atLocation('Practical', practical),
+        ...atLocation('Practical', notes.special_effects),
+        ...atLocation('VFX', sfx?.vfx),
+        ...atLocation('VFX', notes.vfx),
+        ...atLocation('Stunts', notes.stunts),
+      ];
+    }
+    case 'sound': {
+      const sound = p?.sound_design;
+      return [
+        ...atLocation('Recording challenge', sound?.production_sound_challenges),
+        ...atLocation('Ambience', sound?.ambient_requirements),
+        ...atLocation('Clean silence', sound?.silence_moments),
+        ...atLocation('Sound effect', sound?.sound_effects_needed),
+        ...atLocation('Music / playback', sound?.music_notes),
+        ...atLocation('Department note', notes.sound),
+      ];
+    }
+    case 'safety': {
+      const safety = p?.safety_specifics;
+      return [
+        ...atLocation('Concern', safety?.concerns),
+        ...atLocation('Protocol', safety?.protocols_required),
+        ...atLocation('Personnel', safety?.personnel_needed),
+        ...atLocation('Actor prep', safety?.actor_prep_required),
+        ...atLocation('Stunts', notes.stunts),
+      ];
+    }
+  }
+}
+
+/**
+ * Build one department's report across the script. Scenes are walked in
+ * story order; an item repeated in the same scene and group is listed once.
+ */
+export function buildDepartmentReport(scenes: Scene[], department: DepartmentId, registry: CharacterRecord[] = []): DepartmentReport {
+  const groups = new Map<string, DepartmentGroup>();
+  const missingScenes: number[] = [];
+  const coveredScenes = new Set<number>();
+  let itemCount = 0;
+
+  const ordered = [...scenes].sort((a, b) => a.scene_number - b.scene_number);
+  for (const scene of ordered) {
+    const analysis = parseAnalysis(scene.analysis);
+    if (!analysis?.producing_logistics) {
+      missingScenes.push(scene.scene_number);
+      continue;
+    }
+
+    const loc = analysis.producing_logistics.locations;
+    const set = (loc?.primary || setFromHeader(scene.header)).toUpperCase();
+    const cast = analysis.producing_logistics.cast;
+    const ctx: SceneContext = {
+      analysis,
+      registry,
+      cast: canonicalizeNames(registry, [...(cast?.principal || []), ...(cast?.speaking || []), ...(cast?.silent || [])]),
+    };
+    const base = {
+      sceneNumber: scene.scene_number,
+      sceneLabel: displaySceneNumber(scene),
+      set,
+      dayNight: normalizeDayNight(loc?.timeOfDay, scene.header),
+    };
+
+    const seen = new Set<string>();
+    for (const collected of collect(department, ctx)) {
+      const name = collected.kind === 'character' ? collected.group! : set;
+      const key = `${collected.kind}:${name}`;
+      const dedupeKey = `${key}:${collected.item.toLowerCase()}`;
+      if (seen.has(dedupeKey)) continue;
+      seen.add(dedupeKey);
+
+      let group = groups.get(key);
+      if (!group) {
+        group = { kind: collected.kind, name, entries: [], sceneNumbers: [] };
+        groups.set(key, group);
+      }
+      group.entries.push({ ...base, category: collected.category, item: collected.item });
+      if (!group.sceneNumbers.includes(scene.scene_number)) group.sceneNumbers.push(scene.scene_number);
+      coveredScenes.add(scene.scene_number);
+      itemCount++;
+    }
+  }
+
+  const all = Array.from(groups.values());
+  return {
+    department: getDepartment(department),
+    groups: [...all.filter(g => g.kind === 'character'), ...all.filter(g => g.kind === 'location')],
+    itemCount,
+    sceneCount: coveredScenes.size,
+    missingScenes,
+  };
+}
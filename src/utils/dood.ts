@@ -0,0 +1,82 @@
+import { Scene } from "@/types/analysis";
+import { ShootingSchedule, DEFAULT_SCHEDULE_SETTINGS } from "@/types/schedule";
+import { CharacterRecord } from "@/lib/characterRegistry";
+import { buildBreakdown } from "@/utils/breakdown";
+import { buildSchedulingScenes, reconcileSchedule, scriptOrderSchedule } from "@/utils/scheduler";
+
+// ═══════════════════════════════════════════════════════════════
+// DAY OUT OF DAYS
+// Cast-by-shoot-day grid using the standard DOOD codes:
+//   SW  start work     W  work       WF  work finish
+//   SWF start-work-finish (one day only)     H  hold (paid, not working)
+// ═══════════════════════════════════════════════════════════════
+
+export type DoodCode = 'SW' | 'W' | 'WF' | 'SWF' | 'H' | '';
+
+export interface DoodRow {
+  castId: number;
+  name: string;
+  /** One code per shoot day, aligned with DoodReport.days */
+  codes: DoodCode[];
+  workDays: number;
+  holdDays: number;
+  /** Days on payroll: first work day through last work day */
+  totalDays: number;
+  startDay: number;
+  finishDay: number;
+}
+
+export interface DoodReport {
+  /** sceneLabels are the production scene numbers to print for each day */
+  days: Array<{ dayNumber: number; sceneNumbers: number[]; sceneLabels: string[] }>;
+  rows: DoodRow[];
+  /** 'schedule' when built from the saved stripboard, 'script' for the fallback */
+  source: 'schedule' | 'script';
+}
+
+export function buildDood(scenes: Scene[], schedule?: ShootingSchedule | null, registry: CharacterRecord[] = []): DoodReport {
+  const { cast, sheets } = buildBreakdown(scenes, registry);
+  const items = buildSchedulingScenes(scenes, registry);
+  const source = schedule && schedule.days.length > 0 ? 'schedule' : 'script';
+  const plan = source === 'schedule'
+    ? reconcileSchedule(schedule!, items)
+    : scriptOrderSchedule(items, schedule?.settings || DEFAULT_SCHEDULE_SETTINGS);
+
+  const castBySheet = new Map(sheets.map(sheet => [sheet.sceneNumber, sheet.castIds]));
+
+  const rows: DoodRow[] = cast.map(member => {
+    const working = plan.days.map(day =>
+      day.sceneNumbers.some(n => (castBySheet.get(n) || []).includes(member.id))
+    );
+    const first = working.indexOf(true);
+    const last = working.lastIndexOf(true);
+
+    const codes: DoodCode[] = working.map((isWorking, idx) => {
+      if (first === -1 || idx < first || idx > last) return '';
+      if (first === last) return 'SWF';
+      if (idx === first) return 'SW';
+      if (idx === last) return 'WF';
+      return isWorking ? 'W' : 'H';
+    });
+
+    const workDays = working.filter(Boolean).length;
+    return {
+      castId: member.id,
+      name: member.name,
+      codes,
+      workDays,
+      holdDays: codes.filter(c => c === 'H').length,
+      totalDays: first === -1 ? 0 : last - first + 1,
+      startDay: first + 1,
+      finishDay: last + 1,
+    };
+  });
+
+  const labelOf = new Map(sheets.map(sheet => [sheet.sceneNumber, sheet.sceneLabel]));
+  const days = plan.days.map(day => ({
+    ...day,
+    sceneLabels: day.sceneNumbers.map(n => labelOf.get(n) ?? String(n)),
+  }));
+
+  return { days, rows, source };
+}
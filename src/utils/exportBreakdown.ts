@@ -0,0 +1,190 @@
+import jsPDF from "jspdf";
+import { Scene } from "@/types/analysis";
+import { CharacterRecord } from "@/lib/characterRegistry";
+import { ShootingLocation } from "@/lib/locationRegistry";
+import { buildBreakdown, formatEighths, BREAKDOWN_CATEGORIES, Breakdown, BreakdownSheet } from "@/utils/breakdown";
+
+// ═══════════════════════════════════════════════════════════════
+// BREAKDOWN SHEET EXPORT
+// Printable one-sheet-per-scene PDF, plus a tab-delimited file whose
+// columns map 1:1 onto Movie Magic Scheduling breakdown fields so the
+// 1st AD can import it with the MMS text import wizard.
+// ═══════════════════════════════════════════════════════════════
+
+const castLabel = (breakdown: Breakdown, id: number): string => {
+  const member = breakdown.cast.find(c => c.id === id);
+  return member ? `${id}. ${member.name}` : String(id);
+};
+
+function drawSheet(pdf: jsPDF, sheet: BreakdownSheet, breakdown: Breakdown, projectTitle: string) {
+  const pageWidth = pdf.internal.pageSize.getWidth();
+  const pageHeight = pdf.internal.pageSize.getHeight();
+  const margin = 12;
+  const maxWidth = pageWidth - margin * 2;
+  let yPosition = 14;
+
+  pdf.setFillColor(255, 255, 255);
+  pdf.rect(0, 0, pageWidth, pageHeight, 'F');
+
+  // Title row
+  pdf.setFont("helvetica", "bold");
+  pdf.setFontSize(14);
+  pdf.setTextColor(0, 0, 0);
+  pdf.text("BREAKDOWN SHEET", margin, yPosition);
+  pdf.setFont("helvetica", "normal");
+  pdf.setFontSize(9);
+  pdf.text(projectTitle, pageWidth - margin, yPosition, { align: 'right' });
+  yPosition += 6;
+
+  // Strip — filled with the standard stripboard colour for INT/EXT + DAY/NIGHT
+  pdf.setFillColor(...sheet.stripColor.rgb);
+  pdf.setDrawColor(0, 0, 0);
+  pdf.setLineWidth(0.4);
+  pdf.rect(margin, yPosition, maxWidth, 12, 'FD');
+  pdf.setFont("helvetica", "bold");
+  pdf.setFontSize(11);
+  pdf.text(`SC. ${sheet.sceneLabel}`, margin + 3, yPosition + 8);
+  pdf.text(`${sheet.intExt}  ${sheet.set}`.substring(0, 60), margin + 28, yPosition + 8);
+  pdf.text(sheet.dayNight, pageWidth - margin - 3, yPosition + 8, { align: 'right' });
+  yPosition += 12;
+
+  // Info row
+  const cells: Array<[string, string]> = [
+    ['SHEET #', String(sheet.sheetNumber)],
+    ['SCENE #', sheet.sceneLabel],
+    ['INT/EXT', sheet.intExt],
+    ['DAY/NIGHT', sheet.dayNight],
+    ['PAGES', formatEighths(sheet.eighths)],
+    ['STRIP', sheet.stripColor.name.toUpperCase()],
+  ];
+  const cellWidth = maxWidth / cells.length;
+  cells.forEach(([label, value], idx) => {
+    const x = margin + idx * cellWidth;
+    pdf.rect(x, yPosition, cellWidth, 12);
+    pdf.setFont("helvetica", "normal");
+    pdf.setFontSize(6);
+    pdf.setTextColor(100, 100, 100);
+    pdf.text(label, x + 2, yPosition + 4);
+    pdf.setFont("helvetica", "bold");
+    pdf.setFontSize(10);
+    pdf.setTextColor(0, 0, 0);
+    pdf.text(value, x + 2, yPosition + 10);
+  });
+  yPosition += 16;
+
+  // Practical location, once the set has been mapped to one
+  if (sheet.locationId) {
+    pdf.setFont("helvetica", "bold");
+    pdf.setFontSize(7);
+    pdf.setTextColor(100, 100, 100);
+    pdf.text("LOCATION", margin, yPosition);
+    pdf.setFont("helvetica", "normal");
+    pdf.setFontSize(9);
+    pdf.setTextColor(0, 0, 0);
+    pdf.text(sheet.location.substring(0, 80), margin + 16, yPosition);
+    yPosition += 6;
+  }
+
+  // Synopsis
+  pdf.setFont("helvetica", "bold");
+  pdf.setFontSize(7);
+  pdf.setTextColor(100, 100, 100);
+  pdf.text("SCENE DESCRIPTION", margin, yPosition);
+  yPosition += 4;
+  pdf.setFont("helvetica", "normal");
+  pdf.setFontSize(9);
+  pdf.setTextColor(0, 0, 0);
+  const synopsisLines = pdf.splitTextToSize(sheet.synopsis || sheet.header, maxWidth).slice(0, 4);
+  pdf.text(synopsisLines, margin, yPosition);
+  yPosition += synopsisLines.length * 4 + 4;
+
+  // Category boxes: Cast Members first, then the standard categories, two per row
+  const boxes: Array<{ title: string; items: string[] }> = [
+    { title: 'CAST MEMBERS', items: sheet.castIds.map(id => castLabel(breakdown, id)) },
+    ...BREAKDOWN_CATEGORIES.map(category => ({ title: category.toUpperCase(), items: sheet.elements[category] })),
+  ];
+  const boxWidth = (maxWidth - 4) / 2;
+  const footerTop = pageHeight - 14;
+  const rows = Math.ceil(boxes.length / 2);
+  const boxHeight = Math.max(20, (footerTop - yPosition) / rows - 2);
+
+  boxes.forEach((box, idx) => {
+    const x = margin + (idx % 2) * (boxWidth + 4);
+    const y = yPosition + Math.floor(idx / 2) * (boxHeight + 2);
+    pdf.setDrawColor(0, 0, 0);
+    pdf.rect(x, y, boxWidth, boxHeight);
+    pdf.setFillColor(235, 235, 235);
+    pdf.rect(x, y, boxWidth, 5, 'FD');
+    pdf.setFont("helvetica", "bold");
+    pdf.setFontSize(7);
+    pdf.setTextColor(0, 0, 0);
+    pdf.text(box.title, x + 2, y + 3.6);
+
+    pdf.setFont("helvetica", "normal");
+    pdf.setFontSize(8);
+    const maxLines = Math.floor((boxHeight - 7) / 3.6);
+    const lines = box.items.flatMap(item => pdf.splitTextToSize(item, boxWidth - 4) as string[]);
+    const visible = lines.length > maxLines ? [...lines.slice(0, maxLines - 1), `+${lines.length - maxLines + 1} more`] : lines;
+    visible.forEach((line, lineIdx) => pdf.text(line, x + 2, y + 8.5 + lineIdx * 3.6));
+  });
+
+  // Footer
+  pdf.setFont("helvetica", "normal");
+  pdf.setFontSize(7);
+  pdf.setTextColor(150, 150, 150);
+  pdf.text(`Sheet ${sheet.sheetNumber} of ${breakdown.sheets.length} • ${projectTitle} • ShotLogic Breakdown`, pageWidth / 2, pageHeight - 6, { align: 'center' });
+}
+
+export const exportBreakdownPDF = async (scenes: Scene[], projectTitle: string, characters: CharacterRecord[] = [], locations: ShootingLocation[] = []) => {
+  const breakdown = buildBreakdown(scenes, characters, locations);
+  if (breakdown.sheets.length === 0) throw new Error('No analyzed scenes to break down');
+
+  const pdf = new jsPDF();
+  breakdown.sheets.forEach((sheet, idx) => {
+    if (idx > 0) pdf.addPage();
+    drawSheet(pdf, sheet, breakdown, projectTitle);
+  });
+
+  pdf.save(`${projectTitle}-breakdown.pdf`);
+};
+
+// Tabs and newlines would break the row structure MMS expects
+const mmsField = (value: string): string => value.replace(/[\t\r\n]+/g, ' ').trim();
+
+/**
+ * Build the MMS import text. Cast members use the "ID. NAME" convention so
+ * MMS keeps our cast numbers; multiple elements are comma separated within
+ * a category column.
+ */
+export function buildMmsImport(breakdown: Breakdown): string {
+  const headers = [
+    'Sheet', 'Scene', 'Int/Ext', 'Set', 'Location', 'Day/Night', 'Pages', 'Synopsis', 'Cast Members',
+    ...BREAKDOWN_CATEGORIES,
+  ];
+
+  const rows = breakdown.sheets.map(sheet => [
+    String(sheet.sheetNumber),
+    sheet.sceneLabel,
+    sheet.intExt,
+    sheet.set,
+    sheet.locationId ? sheet.location : '',
+    sheet.dayNight,
+    formatEighths(sheet.eighths),
+    sheet.synopsis,
+    sheet.castIds.map(id => castLabel(breakdown, id)).join(', '),
+    ...BREAKDOWN_CATEGORIES.map(category => sheet.elements[category].join(', ')),
+  ]);
+
+  return [headers, ...rows].map(row => row.map(mmsField).join('\t')).join('\r\n');
+}
+
+export const exportBreakdownMMS = (scenes: Scene[], projectTitle: string, characters: CharacterRecord[] = [], locations: ShootingLocation[] = []) => {
+  const breakdown = buildBreakdown(scenes, characters, locations);
+  if (breakdown.sheets.length === 0) throw new Error('No analyzed scenes to break down');
+
+  const blob = new Blob([buildMmsImport(breakdown)], { type: 'text/tab-separated-values;charset=utf-8;' });
+  const link = document.createElement('a');
+  link.href = URL.createObjectURL(blob);
+  link.download = `${projectTitle}-breakdown-mms.txt`;
+  link.click();
+};
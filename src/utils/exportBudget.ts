@@ -0,0 +1,201 @@
+import jsPDF from "jspdf";
+import { Scene } from "@/types/analysis";
+import { ShootingSchedule } from "@/types/schedule";
+import { CharacterRecord } from "@/lib/characterRegistry";
+import { ShootingLocation } from "@/lib/locationRegistry";
+import { RateCard } from "@/lib/rateCard";
+import { buildBudget, formatMoney, BudgetEstimate, BudgetSection } from "@/utils/budget";
+
+const SECTION_TITLES: Record<BudgetSection, string> = {
+  above: 'Above the Line',
+  below: 'Below the Line',
+  post: 'Post-Production',
+};
+
+const SECTIONS: BudgetSection[] = ['above', 'below', 'post'];
+
+function ensurePriced(estimate: BudgetEstimate) {
+  if (estimate.scenes.length === 0) {
+    throw new Error('No analyzed scenes to budget — analyze scenes first');
+  }
+}
+
+const sectionTotal = (estimate: BudgetEstimate, section: BudgetSection): number =>
+  section === 'above' ? estimate.aboveTheLine : section === 'below' ? estimate.belowTheLine : estimate.post;
+
+export function buildBudgetCsv(estimate: BudgetEstimate): string {
+  const amount = (value: number) => Math.round(value).toString();
+  const rows: string[][] = [['Section', 'Account', 'Basis', `Amount (${estimate.rateCard.currency})`]];
+
+  for (const section of SECTIONS) {
+    for (const line of estimate.lines.filter(l => l.section === section)) {
+      rows.push([SECTION_TITLES[section], line.account, line.basis, amount(line.amount)]);
+    }
+    rows.push([SECTION_TITLES[section], 'Subtotal', '', amount(sectionTotal(estimate, section))]);
+  }
+  rows.push(['', 'Contingency', `${estimate.rateCard.contingencyPercent}%`, amount(estimate.contingency)]);
+  rows.push(['', 'Grand Total', `${estimate.shootDays} shoot days`, amount(estimate.total)]);
+
+  // Per-scene cost drivers below the top sheet
+  rows.push([]);
+  rows.push(['Scene', 'Header', 'Driver', `Amount (${estimate.rateCard.currency})`, 'Budget Flags']);
+  for (const scene of estimate.scenes) {
+    scene.drivers.forEach((driver, idx) => {
+      rows.push([scene.sceneLabel, scene.header, driver.label, amount(driver.amount), idx === 0 ? scene.flags.join('; ') : '']);
+    });
+    rows.push([scene.sceneLabel, scene.header, 'Scene Total', amount(scene.total), '']);
+  }
+
+  return rows.map(row =>
+    row.map(cell => `"${(cell || '').replace(/"/g, '""')}"`).join(',')
+  ).join('\n');
+}
+
+export const exportBudgetCSV = (
+  scenes: Scene[],
+  projectTitle: string,
+  rateCard: RateCard,
+  schedule?: ShootingSchedule | null,
+  characters: CharacterRecord[] = [],
+  locations: ShootingLocation[] = []
+) => {
+  const estimate = buildBudget(scenes, rateCard, schedule, characters, locations);
+  ensurePriced(estimate);
+
+  const blob = new Blob([buildBudgetCsv(estimate)], { type: 'text/csv;charset=utf-8;' });
+  const link = document.createElement('a');
+  link.href = URL.createObjectURL(blob);
+  link.download = `${projectTitle}-budget.csv`;
+  link.click();
+};
+
+export const exportBudgetPDF = async (
+  scenes: Scene[],
+  projectTitle: string,
+  rateCard: RateCard,
+  schedule?: ShootingSchedule | null,
+  characters: CharacterRecord[] = [],
+  locations: ShootingLocation[] = []
+) => {
+  const estimate = buildBudget(scenes, rateCard, schedule, characters, locations);
+  ensurePriced(estimate);
+  const money = (value: number) => formatMoney(value, rateCard.currency);
+
+  const pdf = new jsPDF();
+  const pageWidth = pdf.internal.pageSize.getWidth();
+  const pageHeight = pdf.internal.pageSize.getHeight();
+  const margin = 12;
+  const amountX = pageWidth - margin - 2;
+  let yPosition = 16;
+
+  const ensureSpace = (needed: number) => {
+    if (yPosition + needed > pageHeight - 12) {
+      pdf.addPage();
+      yPosition = 16;
+    }
+  };
+
+  pdf.setFont("helvetica", "bold");
+  pdf.setFontSize(14);
+  pdf.setTextColor(229, 9, 20);
+  pdf.text("BUDGET TOP SHEET", margin, yPosition);
+  pdf.setFont("helvetica", "normal");
+  pdf.setFontSize(9);
+  pdf.setTextColor(0, 0, 0);
+  pdf.text(projectTitle, pageWidth - margin, yPosition, { align: 'right' });
+  yPosition += 6;
+  pdf.setFontSize(8);
+  pdf.setTextColor(100, 100, 100);
+  pdf.text(
+    `Estimate • ${estimate.shootDays} shoot days (${estimate.source === 'schedule' ? 'from saved schedule' : 'script order, no schedule saved'}) • ${estimate.scenes.length} scenes priced`,
+    margin,
+    yPosition
+  );
+  if (estimate.missingScenes.length > 0) {
+    yPosition += 4;
+    pdf.text(`Not yet analyzed, so not priced: ${estimate.missingScenes.length} scene(s)`, margin, yPosition);
+  }
+  yPosition += 8;
+
+  for (const section of SECTIONS) {
+    ensureSpace(20);
+    pdf.setFillColor(235, 235, 235);
+    pdf.rect(margin, yPosition, pageWidth - margin * 2, 7, 'F');
+    pdf.setFont("helvetica", "bold");
+    pdf.setFontSize(9);
+    pdf.setTextColor(0, 0, 0);
+    pdf.text(SECTION_TITLES[section].toUpperCase(), margin + 2, yPosition + 5);
+    yPosition += 11;
+
+    pdf.setFontSize(8);
+    for (const line of estimate.lines.filter(l => l.section === section)) {
+      ensureSpace(5);
+      pdf.setFont("helvetica", "normal");
+      pdf.setTextColor(0, 0, 0);
+      pdf.text(line.account, margin + 2, yPosition);
+      pdf.setTextColor(120, 120, 120);
+      pdf.text(line.basis, margin + 55, yPosition);
+      pdf.setTextColor(0, 0, 0);
+      pdf.text(money(line.amount), amountX, yPosition, { align: 'right' });
+      yPosition += 4.5;
+    }
+    pdf.setFont("helvetica", "bold");
+    pdf.text(`Total ${SECTION_TITLES[section]}`, margin + 2, yPosition);
+    pdf.text(money(sectionTotal(estimate, section)), amountX, yPosition, { align: 'right' });
+    yPosition += 8;
+  }
+
+  ensureSpace(16);
+  pdf.setFont("helvetica", "normal");
+  pdf.setFontSize(9);
+  pdf.text(`Contingency (${rateCard.contingencyPercent}%)`, margin + 2, yPosition);
+  pdf.text(money(estimate.contingency), amountX, yPosition, { align: 'right' });
+  yPosition += 6;
+  pdf.setFont("helvetica", "bold");
+  pdf.setFontSize(11);
+  pdf.setTextColor(229, 9, 20);
+  pdf.text("GRAND TOTAL", margin + 2, yPosition);
+  pdf.text(money(estimate.total), amountX, yPosition, { align: 'right' });
+  yPosition += 10;
+
+  // Per-scene cost drivers, most expensive first
+  pdf.addPage();
+  yPosition = 16;
+  pdf.setFontSize(12);
+  pdf.text("COST DRIVERS BY SCENE", margin, yPosition);
+  yPosition += 8;
+
+  for (const scene of [...estimate.scenes].sort((a, b) => b.total - a.total)) {
+    const driverText = scene.drivers.map(d => `${d.label} ${money(d.amount)}`).join('  •  ');
+    const lines = pdf.splitTextToSize(driverText, pageWidth - margin * 2 - 4) as string[];
+    const flagLines = scene.flags.length > 0
+      ? pdf.splitTextToSize(`Flags: ${scene.flags.join('; ')}`, pageWidth - margin * 2 - 4) as string[]
+      : [];
+    ensureSpace(6 + (lines.length + flagLines.length) * 3.6);
+
+    pdf.setFont("helvetica", "bold");
+    pdf.setFontSize(8);
+    pdf.setTextColor(0, 0, 0);
+    pdf.text(`Sc. ${scene.sceneLabel}  ${scene.header}`.slice(0, 90), margin + 2, yPosition);
+    pdf.text(money(scene.total), amountX, yPosition, { align: 'right' });
+    yPosition += 4;
+    pdf.setFont("helvetica", "normal");
+    pdf.setFontSize(7);
+    pdf.setTextColor(90, 90, 90);
+    lines.forEach(line => { pdf.text(line, margin + 2, yPosition); yPosition += 3.6; });
+    pdf.setTextColor(180, 90, 0);
+    flagLines.forEach(line => { pdf.text(line, margin + 2, yPosition); yPosition += 3.6; });
+    yPosition += 2;
+  }
+
+  // Footer on all pages
+  const totalPages = pdf.internal.pages.length - 1;
+  for (let i = 1; i <= totalPages; i++) {
+    pdf.setPage(i);
+    pdf.setFontSize(7);
+    pdf.setTextColor(150, 150, 150);
+    pdf.text(`Page ${i} of ${totalPages} • ${projectTitle} • ShotLogic Budget Estimate`, pageWidth / 2, pageHeight - 4, { align: 'center' });
+  }
+
+  pdf.save(`${projectTitle}-budget.pdf`);
+};
@@ -0,0 +1,142 @@
+import jsPDF from "jspdf";
+import { Scene } from "@/types/analysis";
+import { CharacterRecord } from "@/lib/characterRegistry";
+import { buildContinuityReport, continuityFieldLabel, ContinuityIssueKind, ContinuityReport } from "@/utils/continuity";
+
+const KIND_LABELS: Record<ContinuityIssueKind, string> = {
+  mismatch: 'Mismatch',
+  unexplained_change: 'Unexplained change',
+  time_conflict: 'Time conflict',
+};
+
+// Row tint per kind — mismatches red, unexplained changes amber, time blue
+const KIND_FILL: Record<ContinuityIssueKind, [number, number, number]> = {
+  mismatch: [252, 225, 225],
+  unexplained_change: [252, 240, 210],
+  time_conflict: [220, 232, 252],
+};
+
+export const continuityKindLabel = (kind: ContinuityIssueKind): string => KIND_LABELS[kind];
+
+function ensureTracked(report: ContinuityReport) {
+  if (report.pairsChecked === 0 && report.issues.length === 0) {
+    throw new Error('No continuity to compare — analyze more scenes first');
+  }
+}
+
+export function buildContinuityCsv(report: ContinuityReport): string {
+  const rows: string[][] = [
+    ['From Scene', 'To Scene', 'Character', 'Field', 'Issue', 'Carries Out', 'Carries In', 'Note'],
+  ];
+
+  for (const issue of report.issues) {
+    rows.push([
+      issue.fromLabel,
+      issue.toLabel,
+      issue.character || 'Scene',
+      continuityFieldLabel(issue.field),
+      KIND_LABELS[issue.kind],
+      issue.carriedOut,
+      issue.carriedIn,
+      issue.message,
+    ]);
+  }
+
+  return rows.map(row =>
+    row.map(cell => `"${(cell || '').replace(/"/g, '""')}"`).join(',')
+  ).join('\n');
+}
+
+export const exportContinuityCSV = (scenes: Scene[], projectTitle: string, characters: CharacterRecord[] = []) => {
+  const report = buildContinuityReport(scenes, characters);
+  ensureTracked(report);
+
+  const blob = new Blob([buildContinuityCsv(report)], { type: 'text/csv;charset=utf-8;' });
+  const link = document.createElement('a');
+  link.href = URL.createObjectURL(blob);
+  link.download = `${projectTitle}-continuity.csv`;
+  link.click();
+};
+
+export const exportContinuityPDF = async (scenes: Scene[], projectTitle: string, characters: CharacterRecord[] = []) => {
+  const report = buildContinuityReport(scenes, characters);
+  ensureTracked(report);
+
+  const pdf = new jsPDF();
+  const pageWidth = pdf.internal.pageSize.getWidth();
+  const pageHeight = pdf.internal.pageSize.getHeight();
+  const margin = 12;
+  const textWidth = pageWidth - margin * 2 - 4;
+  let yPosition = 16;
+
+  pdf.setFont("helvetica", "bold");
+  pdf.setFontSize(14);
+  pdf.setTextColor(229, 9, 20);
+  pdf.text("CONTINUITY REPORT", margin, yPosition);
+  pdf.setFont("helvetica", "normal");
+  pdf.setFontSize(9);
+  pdf.setTextColor(0, 0, 0);
+  pdf.text(projectTitle, pageWidth - margin, yPosition, { align: 'right' });
+  yPosition += 6;
+  pdf.setFontSize(8);
+  pdf.setTextColor(100, 100, 100);
+  pdf.text(
+    `${report.issues.length} issue${report.issues.length === 1 ? '' : 's'} across ${report.pairsChecked} scene-to-scene checks for ${report.characters.length} characters`,
+    margin,
+    yPosition
+  );
+  if (report.missingScenes.length > 0) {
+    yPosition += 4;
+    pdf.text(`Not yet analyzed, so not checked: ${report.missingScenes.length} scene(s)`, margin, yPosition);
+  }
+  yPosition += 8;
+
+  if (report.issues.length === 0) {
+    pdf.setFontSize(10);
+    pdf.setTextColor(0, 0, 0);
+    pdf.text("No continuity issues found.", margin, yPosition);
+  }
+
+  for (const issue of report.issues) {
+    const lines = [
+      ...pdf.splitTextToSize(issue.message, textWidth),
+      ...pdf.splitTextToSize(`Out (Sc. ${issue.fromLabel}): ${issue.carriedOut || '—'}`, textWidth),
+      ...pdf.splitTextToSize(`In (Sc. ${issue.toLabel}): ${issue.carriedIn || '—'}`, textWidth),
+    ] as string[];
+    const blockHeight = 6 + lines.length * 3.8 + 2;
+    if (yPosition + blockHeight > pageHeight - 12) {
+      pdf.addPage();
+      yPosition = 16;
+    }
+
+    pdf.setFillColor(...KIND_FILL[issue.kind]);
+    pdf.rect(margin, yPosition, pageWidth - margin * 2, blockHeight, 'F');
+    pdf.setFont("helvetica", "bold");
+    pdf.setFontSize(8);
+    pdf.setTextColor(0, 0, 0);
+    pdf.text(
+      `Sc. ${issue.fromLabel} → Sc. ${issue.toLabel}   ${issue.character || 'Scene'} · ${continuityFieldLabel(issue.field)}`,
+      margin + 2,
+      yPosition + 4.5
+    );
+    pdf.text(KIND_LABELS[issue.kind].toUpperCase(), pageWidth - margin - 2, yPosition + 4.5, { align: 'right' });
+    pdf.setFont("helvetica", "normal");
+    pdf.setFontSize(7.5);
+    lines.forEach((line, idx) => {
+      pdf.setTextColor(idx === 0 ? 0 : 80, idx === 0 ? 0 : 80, idx === 0 ? 0 : 80);
+      pdf.text(line, margin + 2, yPosition + 8.5 + idx * 3.8);
+    });
+    yPosition += blockHeight + 2;
+  }
+
+  // Footer on all pages
+  const totalPages = pdf.internal.pages.length - 1;
+  for (let i = 1; i <= totalPages; i++) {
+    pdf.setPage(i);
+    pdf.setFontSize(7);
+    pdf.setTextColor(150, 150, 150);
+    pdf.text(`Page ${i} of ${totalPages} • ${projectTitle} • ShotLogic Continuity`, pageWidth / 2, pageHeight - 4, { align: 'center' });
+  }
+
+  pdf.save(`${projectTitle}-continuity.pdf`);
+};
@@ -1,8 +1,10 @@
 import { Scene, parseAnalysis } from "@/types/analysis";
+import { displaySceneNumber } from "@/lib/sceneNumbering";
+import { ShotCamera, cameraLabel } from "@/lib/shotCamera";
 
 export const exportShotListCSV = (scenes: Scene[], projectTitle: string) => {
   const rows: string[][] = [
-    ['Scene', 'Shot', 'Type', 'Subject', 'Visual', 'Serves Story Element', 'Rationale', 'Editorial Note']
+    ['Scene', 'Shot', 'Type', 'Setup', 'Size', 'Angle', 'Movement', 'Lens (mm)', 'Rig', 'Frame Rate', 'Subject', 'Visual', 'Serves Story Element', 'Rationale', 'Editorial Note', 'Shot ID']
   ];
 
   scenes.forEach((scene) => {
@@ -10,15 +12,24 @@ export const exportShotListCSV = (scenes: Scene[], projectTitle: string) => {
     if (!analysis || !analysis.shot_list) return;
 
     analysis.shot_list.forEach((shot, idx) => {
+      const camera: ShotCamera = typeof shot === 'object' ? shot : {};
       rows.push([
-        `Scene ${scene.scene_number}`,
-        `${scene.scene_number}.${idx + 1}`,
+        `Scene ${displaySceneNumber(scene)}`,
+        `${displaySceneNumber(scene)}.${idx + 1}`,
         shot.shot_type || 'WIDE',
+        camera.setup_id || '',
+        camera.shot_size ? cameraLabel(camera.shot_size) : '',
+        camera.camera_angle ? cameraLabel(camera.camera_angle) : '',
+        camera.camera_movement ? cameraLabel(camera.camera_movement) : '',
+        camera.lens_mm ? String(camera.lens_mm) : '',
+        camera.rig ? cameraLabel(camera.rig) : '',
+        camera.frame_rate ? String(camera.frame_rate) : '',
         shot.subject || '',
         shot.visual || shot.visualDescription || '',
         shot.serves_story_element || '',
         shot.rationale || '',
-        shot.editorial_note || ''
+        shot.editorial_note || '',
+        typeof shot === 'object' ? shot.id || '' : ''
       ]);
     });
   });
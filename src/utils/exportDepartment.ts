@@ -0,0 +1,137 @@
+import jsPDF from "jspdf";
+import { Scene } from "@/types/analysis";
+import { CharacterRecord } from "@/lib/characterRegistry";
+import { buildDepartmentReport, DepartmentId, DepartmentReport } from "@/utils/departments";
+
+function ensureItems(report: DepartmentReport) {
+  if (report.itemCount === 0) {
+    throw new Error(`No ${report.department.name.toLowerCase()} items found — analyze scenes first`);
+  }
+}
+
+export function buildDepartmentCsv(report: DepartmentReport): string {
+  const rows: string[][] = [
+    ['Group', 'Character / Set', 'Scene', 'Set', 'D/N', 'Category', 'Item'],
+  ];
+
+  for (const group of report.groups) {
+    for (const entry of group.entries) {
+      rows.push([
+        group.kind === 'character' ? 'Character' : 'Set',
+        group.name,
+        entry.sceneLabel,
+        entry.set,
+        entry.dayNight,
+        entry.category,
+        entry.item,
+      ]);
+    }
+  }
+
+  return rows.map(row =>
+    row.map(cell => `"${(cell || '').replace(/"/g, '""')}"`).join(',')
+  ).join('\n');
+}
+
+export const exportDepartmentCSV = (scenes: Scene[], projectTitle: string, department: DepartmentId, characters: CharacterRecord[] = []) => {
+  const report = buildDepartmentReport(scenes, department, characters);
+  ensureItems(report);
+
+  const blob = new Blob([buildDepartmentCsv(report)], { type: 'text/csv;charset=utf-8;' });
+  const link = document.createElement('a');
+  link.href = URL.createObjectURL(blob);
+  link.download = `${projectTitle}-${department}.csv`;
+  link.click();
+};
+
+export const exportDepartmentPDF = async (scenes: Scene[], projectTitle: string, department: DepartmentId, characters: CharacterRecord[] = []) => {
+  const report = buildDepartmentReport(scenes, department, characters);
+  ensureItems(report);
+
+  const pdf = new jsPDF();
+  const pageWidth = pdf.internal.pageSize.getWidth();
+  const pageHeight = pdf.internal.pageSize.getHeight();
+  const margin = 12;
+  const sceneCol = margin + 2;
+  const categoryCol = margin + 20;
+  const itemCol = margin + 58;
+  const itemWidth = pageWidth - margin - itemCol;
+  let yPosition = 16;
+
+  const ensureSpace = (needed: number) => {
+    if (yPosition + needed > pageHeight - 12) {
+      pdf.addPage();
+      yPosition = 16;
+    }
+  };
+
+  pdf.setFont("helvetica", "bold");
+  pdf.setFontSize(14);
+  pdf.setTextColor(229, 9, 20);
+  pdf.text(`${report.department.name.toUpperCase()} BREAKDOWN`, margin, yPosition);
+  pdf.setFont("helvetica", "normal");
+  pdf.setFontSize(9);
+  pdf.setTextColor(0, 0, 0);
+  pdf.text(projectTitle, pageWidth - margin, yPosition, { align: 'right' });
+  yPosition += 6;
+  pdf.setFontSize(8);
+  pdf.setTextColor(100, 100, 100);
+  pdf.text(
+    `For: ${report.department.recipient}  •  ${report.itemCount} items across ${report.sceneCount} scenes`,
+    margin,
+    yPosition
+  );
+  if (report.missingScenes.length > 0) {
+    yPosition += 4;
+    pdf.text(`Not yet analyzed, so not included: ${report.missingScenes.length} scene(s)`, margin, yPosition);
+  }
+  yPosition += 8;
+
+  for (const group of report.groups) {
+    ensureSpace(16);
+    pdf.setFillColor(235, 235, 235);
+    pdf.rect(margin, yPosition, pageWidth - margin * 2, 7, 'F');
+    pdf.setFont("helvetica", "bold");
+    pdf.setFontSize(9);
+    pdf.setTextColor(0, 0, 0);
+    pdf.text(group.name, margin + 2, yPosition + 5);
+    pdf.setFont("helvetica", "normal");
+    pdf.setFontSize(7);
+    pdf.setTextColor(100, 100, 100);
+    pdf.text(
+      `${group.kind === 'character' ? 'Character' : 'Set'} • ${group.sceneNumbers.length} scene${group.sceneNumbers.length === 1 ? '' : 's'}`,
+      pageWidth - margin - 2,
+      yPosition + 5,
+      { align: 'right' }
+    );
+    yPosition += 10;
+
+    for (const entry of group.entries) {
+      const lines = pdf.splitTextToSize(entry.item, itemWidth) as string[];
+      const rowHeight = lines.length * 3.6 + 1.5;
+      ensureSpace(rowHeight);
+      pdf.setFontSize(7.5);
+      pdf.setFont("helvetica", "bold");
+      pdf.setTextColor(0, 0, 0);
+      pdf.text(`Sc. ${entry.sceneLabel}`, sceneCol, yPosition);
+      pdf.setFont("helvetica", "normal");
+      pdf.setTextColor(100, 100, 100);
+      pdf.text(entry.category, categoryCol, yPosition);
+      pdf.setTextColor(0, 0, 0);
+      lines.forEach((line, idx) => pdf.text(line, itemCol, yPosition + idx * 3.6));
+      yPosition += rowHeight;
+    }
+    yPosition += 3;
+  }
+
+  // Footer on all pages
+  const totalPages = pdf.internal.pages.length - 1;
+  for (let i = 1; i <= totalPages; i++) {
+    pdf.setPage(i);
+    pdf.setFontSize(7);
+    pdf.setTextColor(150, 150, 150);
+    pdf.text(`Page ${i} of ${totalPages} • ${projectTitle} • ShotLogic ${report.department.name}`, pageWidth / 2, pageHeight - 4, { align: 'center' });
+  }
+
+  pdf.save(`${projectTitle}-${department}.pdf`);
+};
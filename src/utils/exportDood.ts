@@ -0,0 +1,181 @@
+import jsPDF from "jspdf";
+import { Scene } from "@/types/analysis";
+import { ShootingSchedule } from "@/types/schedule";
+import { CharacterRecord } from "@/lib/characterRegistry";
+import { buildDood, DoodCode, DoodReport } from "@/utils/dood";
+
+// Cell fills for the DOOD grid — work codes dark, holds light
+const CODE_FILL: Record<Exclude<DoodCode, ''>, [number, number, number]> = {
+  SW: [200, 230, 200],
+  W: [220, 235, 220],
+  WF: [200, 230, 200],
+  SWF: [180, 220, 180],
+  H: [245, 240, 200],
+};
+
+const DAYS_PER_PAGE = 20;
+
+function ensureCast(report: DoodReport) {
+  if (report.rows.length === 0) throw new Error('No cast found in analyzed scenes');
+}
+
+export function buildDoodCsv(report: DoodReport): string {
+  const rows: string[][] = [
+    ['ID', 'Cast Member', ...report.days.map(d => `Day ${d.dayNumber}`), 'Work', 'Hold', 'Total', 'Start', 'Finish'],
+    ['', 'Scenes', ...report.days.map(d => d.sceneLabels.join(' ')), '', '', '', '', ''],
+  ];
+
+  for (const row of report.rows) {
+    rows.push([
+      String(row.castId),
+      row.name,
+      ...row.codes,
+      String(row.workDays),
+      String(row.holdDays),
+      String(row.totalDays),
+      `Day ${row.startDay}`,
+      `Day ${row.finishDay}`,
+    ]);
+  }
+
+  return rows.map(row =>
+    row.map(cell => `"${(cell || '').replace(/"/g, '""')}"`).join(',')
+  ).join('\n');
+}
+
+export const exportDoodCSV = (
+  scenes: Scene[],
+  projectTitle: string,
+  schedule?: ShootingSchedule | null,
+  characters: CharacterRecord[] = []
+) => {
+  const report = buildDood(scenes, schedule, characters);
+  ensureCast(report);
+
+  const blob = new Blob([buildDoodCsv(report)], { type: 'text/csv;charset=utf-8;' });
+  const link = document.createElement('a');
+  link.href = URL.createObjectURL(blob);
+  link.download = `${projectTitle}-day-out-of-days.csv`;
+  link.click();
+};
+
+export const exportDoodPDF = async (
+  scenes: Scene[],
+  projectTitle: string,
+  schedule?: ShootingSchedule | null,
+  characters: CharacterRecord[] = []
+) => {
+  const report = buildDood(scenes, schedule, characters);
+  ensureCast(report);
+
+  const pdf = new jsPDF('landscape');
+  const pageWidth = pdf.internal.pageSize.getWidth();
+  const pageHeight = pdf.internal.pageSize.getHeight();
+  const margin = 10;
+  const nameWidth = 55;
+  const totalsWidth = 36;
+  const rowHeight = 6;
+
+  // Wide schedules are split across pages, DAYS_PER_PAGE columns at a time
+  for (let start = 0; start < report.days.length; start += DAYS_PER_PAGE) {
+    if (start > 0) pdf.addPage();
+    const days = report.days.slice(start, start + DAYS_PER_PAGE);
+    const cellWidth = (pageWidth - margin * 2 - nameWidth - totalsWidth) / DAYS_PER_PAGE;
+    let yPosition = 15;
+
+    pdf.setFont("helvetica", "bold");
+    pdf.setFontSize(14);
+    pdf.setTextColor(229, 9, 20);
+    pdf.text("DAY OUT OF DAYS", margin, yPosition);
+    pdf.setFont("helvetica", "normal");
+    pdf.setFontSize(9);
+    pdf.setTextColor(0, 0, 0);
+    pdf.text(projectTitle, pageWidth - margin, yPosition, { align: 'right' });
+    yPosition += 5;
+    pdf.setFontSize(7);
+    pdf.setTextColor(100, 100, 100);
+    pdf.text(
+      report.source === 'schedule' ? 'Based on saved shooting schedule' : 'No saved schedule — days follow script order',
+      margin,
+      yPosition
+    );
+    yPosition += 5;
+
+    // Header row
+    pdf.setFillColor(40, 40, 40);
+    pdf.rect(margin, yPosition, pageWidth - margin * 2, rowHeight * 2, 'F');
+    pdf.setFont("helvetica", "bold");
+    pdf.setFontSize(7);
+    pdf.setTextColor(255, 255, 255);
+    pdf.text("CAST MEMBER", margin + 2, yPosition + 7);
+    days.forEach((day, idx) => {
+      const x = margin + nameWidth + idx * cellWidth + cellWidth / 2;
+      pdf.text(`D${day.dayNumber}`, x, yPosition + 4.5, { align: 'center' });
+      pdf.setFont("helvetica", "normal");
+      pdf.setFontSize(5);
+      pdf.text(day.sceneLabels.join(',').substring(0, 10), x, yPosition + 9.5, { align: 'center' });
+      pdf.setFont("helvetica", "bold");
+      pdf.setFontSize(7);
+    });
+    const totalsX = pageWidth - margin - totalsWidth;
+    ['WORK', 'HOLD', 'TOTAL'].forEach((label, idx) => {
+      pdf.text(label, totalsX + idx * 12 + 6, yPosition + 7, { align: 'center' });
+    });
+    yPosition += rowHeight * 2;
+
+    report.rows.forEach((row, rowIdx) => {
+      if (yPosition + rowHeight > pageHeight - 12) {
+        pdf.addPage();
+        yPosition = 15;
+      }
+      if (rowIdx % 2 === 1) {
+        pdf.setFillColor(245, 245, 245);
+        pdf.rect(margin, yPosition, pageWidth - margin * 2, rowHeight, 'F');
+      }
+
+      pdf.setFont("helvetica", "bold");
+      pdf.setFontSize(7);
+      pdf.setTextColor(0, 0, 0);
+      pdf.text(`${row.castId}. ${row.name}`.substring(0, 32), margin + 2, yPosition + 4.2);
+
+      days.forEach((_, idx) => {
+        const code = row.codes[start + idx];
+        const x = margin + nameWidth + idx * cellWidth;
+        if (code) {
+          pdf.setFillColor(...CODE_FILL[code]);
+          pdf.rect(x + 0.3, yPosition + 0.3, cellWidth - 0.6, rowHeight - 0.6, 'F');
+          pdf.setFont("helvetica", code === 'H' ? "normal" : "bold");
+          pdf.text(code, x + cellWidth / 2, yPosition + 4.2, { align: 'center' });
+        }
+        pdf.setDrawColor(220, 220, 220);
+        pdf.line(x, yPosition, x, yPosition + rowHeight);
+      });
+
+      pdf.setFont("helvetica", "normal");
+      [row.workDays, row.holdDays, row.totalDays].forEach((value, idx) => {
+        pdf.text(String(value), totalsX + idx * 12 + 6, yPosition + 4.2, { align: 'center' });
+      });
+      yPosition += rowHeight;
+    });
+
+    // Legend
+    pdf.setFontSize(6);
+    pdf.setTextColor(100, 100, 100);
+    pdf.text(
+      'SW = Start Work   W = Work   WF = Work Finish   SWF = Start-Work-Finish   H = Hold',
+      margin,
+      Math.min(yPosition + 6, pageHeight - 8)
+    );
+  }
+
+  // Footer on all pages
+  const totalPages = pdf.internal.pages.length - 1;
+  for (let i = 1; i <= totalPages; i++) {
+    pdf.setPage(i);
+    pdf.setFontSize(7);
+    pdf.setTextColor(150, 150, 150);
+    pdf.text(`Page ${i} of ${totalPages} • ${projectTitle} • ShotLogic DOOD`, pageWidth / 2, pageHeight - 4, { align: 'center' });
+  }
+
+  pdf.save(`${projectTitle}-day-out-of-days.pdf`);
+};
@@ -0,0 +1,263 @@
+import { Scene, AnalysisData, parseAnalysis } from "@/types/analysis";
+import { flattenElements, uniqueLabels } from "@/utils/breakdown";
+import { displaySceneNumber } from "@/lib/sceneNumbering";
+
+// ═══════════════════════════════════════════════════════════════
+// FINAL DRAFT (.fdx) EXPORT
+// Rebuilds screenplay paragraphs from each scene's text, tags breakdown
+// elements from producing_logistics with Final Draft Tagger categories,
+// and attaches the_core / the_turn as ScriptNotes on each scene heading.
+// ═══════════════════════════════════════════════════════════════
+
+type FdxParagraphType = 'Scene Heading' | 'Action' | 'Character' | 'Parenthetical' | 'Dialogue' | 'Transition';
+
+interface FdxParagraph {
+  type: FdxParagraphType;
+  text: string;
+}
+
+type TagCategoryKey = 'cast' | 'props' | 'vehicles' | 'wardrobe' | 'sfx';
+
+// Names and colours match Final Draft's built-in Tagger categories so the
+// elements land in the existing buckets instead of creating custom ones
+const TAG_CATEGORIES: Array<{ key: TagCategoryKey; name: string; color: string }> = [
+  { key: 'cast', name: 'Cast Members', color: '#FF0000' },
+  { key: 'props', name: 'Props', color: '#8000FF' },
+  { key: 'vehicles', name: 'Vehicles', color: '#FF00FF' },
+  { key: 'wardrobe', name: 'Wardrobe', color: '#00FFFF' },
+  { key: 'sfx', name: 'Special Effects', color: '#0000FF' },
+];
+
+interface TagDefinition {
+  id: string;
+  categoryKey: TagCategoryKey;
+  label: string;
+  number: number;
+}
+
+interface TagOccurrence {
+  number: number;
+  defId: string;
+}
+
+const escapeXml = (value: string): string =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+
+const escapeRegExp = (value: string): string => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const newId = (): string =>
+  typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `${Date.now().toString(16)}-${Math.random().toString(16).slice(2, 10)}`;
+
+function collectBreakdown(analysis: AnalysisData | null): Record<TagCategoryKey, string[]> {
+  const p = analysis?.producing_logistics;
+  return {
+    cast: uniqueLabels([...(p?.cast?.principal || []), ...(p?.cast?.speaking || []), ...(p?.cast?.silent || [])]),
+    props: uniqueLabels(flattenElements(p?.key_props)),
+    vehicles: uniqueLabels(flattenElements(p?.vehicles)),
+    wardrobe: uniqueLabels(flattenElements(p?.wardrobe)),
+    sfx: uniqueLabels(flattenElements(p?.sfx)),
+  };
+}
+
+const isCharacterCue = (line: string): boolean => {
+  const name = line.replace(/\([^)]*\)/g, '').trim();
+  return name.length > 0 && name.length <= 40 && /[A-Z]/.test(name) && !/[a-z]/.test(name) && !/TO:$/.test(name);
+};
+
+const isTransition = (line: string): boolean =>
+  /^[A-Z\s.'-]+(TO:|OUT\.|IN:)$/.test(line.trim()) && !/[a-z]/.test(line);
+
+/**
+ * Rebuild Final Draft paragraphs from plain scene text. Blocks are separated
+ * by blank lines; a block that opens with an ALL-CAPS cue is a speech.
+ */
+export function sceneTextToParagraphs(header: string, content: string): FdxParagraph[] {
+  const lines = (content || '').replace(/\r\n?/g, '\n').split('\n');
+  if (lines.length && lines[0].trim().toUpperCase() === header.trim().toUpperCase()) lines.shift();
+
+  const paragraphs: FdxParagraph[] = [{ type: 'Scene Heading', text: header.trim().toUpperCase() }];
+  const blocks: string[][] = [];
+  let current: string[] = [];
+  for (const raw of lines) {
+    const line = raw.trim();
+    if (!line) {
+      if (current.length) blocks.push(current);
+      current = [];
+    } else {
+      current.push(line);
+    }
+  }
+  if (current.length) blocks.push(current);
+
+  for (const block of blocks) {
+    if (block.length === 1 && isTransition(block[0])) {
+      paragraphs.push({ type: 'Transition', text: block[0] });
+      continue;
+    }
+
+    if (block.length > 1 && isCharacterCue(block[0])) {
+      paragraphs.push({ type: 'Character', text: block[0] });
+      let dialogue: string[] = [];
+      const flush = () => {
+        if (dialogue.length) paragraphs.push({ type: 'Dialogue', text: dialogue.join(' ') });
+        dialogue = [];
+      };
+      for (const line of block.slice(1)) {
+        if (/^\(.*\)$/.test(line)) {
+          flush();
+          paragraphs.push({ type: 'Parenthetical', text: line });
+        } else {
+          dialogue.push(line);
+        }
+      }
+      flush();
+      continue;
+    }
+
+    paragraphs.push({ type: 'Action', text: block.join(' ') });
+  }
+
+  return paragraphs;
+}
+
+/**
+ * Split a paragraph's text into <Text> runs, wrapping every mention of a
+ * breakdown element in a tagged run. Longest labels win on overlap.
+ */
+function renderTaggedText(
+  text: string,
+  definitions: TagDefinition[],
+  occurrences: TagOccurrence[],
+  nextTagNumber: () => number
+): string {
+  const matches: Array<{ start: number; end: number; def: TagDefinition }> = [];
+  const sorted = [...definitions].sort((a, b) => b.label.length - a.label.length);
+
+  for (const def of sorted) {
+    const pattern = new RegExp(`(^|[^A-Za-z0-9])(${escapeRegExp(def.label)})(?=$|[^A-Za-z0-9])`, 'gi');
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(text)) !== null) {
+      const start = match.index + match[1].length;
+      const end = start + match[2].length;
+      if (!matches.some(m => start < m.end && end > m.start)) {
+        matches.push({ start, end, def });
+      }
+    }
+  }
+  matches.sort((a, b) => a.start - b.start);
+
+  const runs: string[] = [];
+  let cursor = 0;
+  for (const m of matches) {
+    if (m.start > cursor) runs.push(`<Text>${escapeXml(text.slice(cursor, m.start))}</Text>`);
+    const number = nextTagNumber();
+    occurrences.push({ number, defId: m.def.id });
+    runs.push(`<Text TagNumber="${number}">${escapeXml(text.slice(m.start, m.end))}</Text>`);
+    cursor = m.end;
+  }
+  if (cursor < text.length || runs.length === 0) runs.push(`<Text>${escapeXml(text.slice(cursor))}</Text>`);
+  return runs.join('');
+}
+
+function renderScriptNote(id: number, headerLength: number, analysis: AnalysisData | null): string {
+  const story = analysis?.story_analysis;
+  const lines = [
+    story?.the_core ? `THE CORE: ${story.the_core}` : '',
+    story?.the_turn ? `THE TURN: ${story.the_turn}` : '',
+  ].filter(Boolean);
+  if (lines.length === 0) return '';
+
+  const body = lines.map(line => `          <Paragraph><Text>${escapeXml(line)}</Text></Paragraph>`).join('\n');
+  return `        <ScriptNote ID="${id}" Marker="Comment" MarkerColor="#E50914" Range="0,${headerLength}" Writer="ShotLogic" DateStamp="${new Date().toISOString()}">
+${body}
+        </ScriptNote>
+`;
+}
+
+export function buildFinalDraftXml(scenes: Scene[], projectTitle: string): string {
+  const definitions: TagDefinition[] = [];
+  const occurrences: TagOccurrence[] = [];
+  const categoryIds = Object.fromEntries(TAG_CATEGORIES.map(c => [c.key, newId()])) as Record<TagCategoryKey, string>;
+  let tagCounter = 0;
+  let noteCounter = 0;
+  const nextTagNumber = () => ++tagCounter;
+
+  const definitionFor = (categoryKey: TagCategoryKey, label: string): TagDefinition => {
+    const existing = definitions.find(d => d.categoryKey === categoryKey && d.label.toLowerCase() === label.toLowerCase());
+    if (existing) return existing;
+    const def: TagDefinition = { id: newId(), categoryKey, label, number: definitions.length + 1 };
+    definitions.push(def);
+    return def;
+  };
+
+  const paragraphXml: string[] = [];
+
+  scenes.forEach((scene) => {
+    const analysis = parseAnalysis(scene.analysis);
+    const breakdown = collectBreakdown(analysis);
+    const sceneDefs = TAG_CATEGORIES.flatMap(c => breakdown[c.key].map(label => definitionFor(c.key, label)));
+    const paragraphs = sceneTextToParagraphs(scene.header, scene.content);
+
+    paragraphs.forEach((para, idx) => {
+      const isHeading = idx === 0;
+      const attrs = isHeading ? ` Number="${escapeXml(displaySceneNumber(scene))}"` : '';
+      const note = isHeading ? renderScriptNote(++noteCounter, para.text.length, analysis) : '';
+      // Headings stay untagged — FD reads them for the scene list and reports
+      const textRuns = isHeading
+        ? `<Text>${escapeXml(para.text)}</Text>`
+        : renderTaggedText(para.text, sceneDefs, occurrences, nextTagNumber);
+      paragraphXml.push(`      <Paragraph Type="${para.type}"${attrs}>\n${note}        ${textRuns}\n      </Paragraph>`);
+    });
+  });
+
+  const categoriesXml = TAG_CATEGORIES.map((c, idx) =>
+    `      <TagCategory Color="${c.color}" Id="${categoryIds[c.key]}" Name="${escapeXml(c.name)}" Number="${idx + 1}" Style="Bold"/>`
+  ).join('\n');
+  const definitionsXml = definitions.map(d =>
+    `      <TagDefinition CatId="${categoryIds[d.categoryKey]}" Id="${d.id}" Label="${escapeXml(d.label)}" Number="${d.number}"/>`
+  ).join('\n');
+  const tagsXml = occurrences.map(o =>
+    `      <Tag Number="${o.number}"><DefId>${o.defId}</DefId></Tag>`
+  ).join('\n');
+
+  return `<?xml version="1.0" encoding="UTF-8" standalone="no" ?>
+<FinalDraft DocumentType="Script" Template="No" Version="5">
+  <Content>
+${paragraphXml.join('\n')}
+  </Content>
+  <TitlePage>
+    <Content>
+      <Paragraph Alignment="Center" Type="General"><Text>${escapeXml(projectTitle.toUpperCase())}</Text></Paragraph>
+      <Paragraph Alignment="Center" Type="General"><Text>Breakdown exported from ShotLogic</Text></Paragraph>
+    </Content>
+  </TitlePage>
+  <TagData>
+    <TagCategories>
+${categoriesXml}
+    </TagCategories>
+    <TagDefinitions>
+${definitionsXml}
+    </TagDefinitions>
+    <Tags>
+${tagsXml}
+    </Tags>
+  </TagData>
+</FinalDraft>
+`;
+}
+
+export const exportFinalDraft = (scenes: Scene[], projectTitle: string) => {
+  const xml = buildFinalDraftXml(scenes, projectTitle);
+  const blob = new Blob([xml], { type: 'application/xml;charset=utf-8;' });
+  const link = document.createElement('a');
+  link.href = URL.createObjectURL(blob);
+  link.download = `${projectTitle}.fdx`;
+  link.click();
+};
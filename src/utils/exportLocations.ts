@@ -0,0 +1,128 @@
+import jsPDF from "jspdf";
+import { Scene } from "@/types/analysis";
+import { CharacterRecord } from "@/lib/characterRegistry";
+import { ShootingLocation, PERMIT_LABELS } from "@/lib/locationRegistry";
+import { formatEighths } from "@/utils/breakdown";
+import { buildLocationBoard, formatCoverage, LocationBoard } from "@/utils/locations";
+
+function ensureLocations(board: LocationBoard) {
+  if (board.entries.length === 0) {
+    throw new Error('No locations yet — analyze scenes or add shooting locations first');
+  }
+}
+
+export function buildLocationsCsv(board: LocationBoard): string {
+  const rows: string[][] = [
+    ['Shooting Location', 'Address', 'Permit', 'Company Move Cost', 'Script Set', 'Scenes', 'Pages', 'Coverage', 'Photos', 'Notes'],
+  ];
+
+  for (const entry of board.entries) {
+    const location = entry.location;
+    for (const set of entry.sets) {
+      rows.push([
+        location ? location.name : '(not mapped)',
+        location?.address || '',
+        location ? PERMIT_LABELS[location.permitStatus] : '',
+        location?.companyMoveCost ? String(location.companyMoveCost) : '',
+        set.set,
+        set.sceneLabels.join(' '),
+        formatEighths(set.eighths),
+        formatCoverage(entry.coverage),
+        location?.photos.join(' ') || '',
+        location?.notes || '',
+      ]);
+    }
+  }
+
+  return rows.map(row =>
+    row.map(cell => `"${(cell || '').replace(/"/g, '""')}"`).join(',')
+  ).join('\n');
+}
+
+export const exportLocationsCSV = (scenes: Scene[], projectTitle: string, locations: ShootingLocation[] = [], characters: CharacterRecord[] = []) => {
+  const board = buildLocationBoard(scenes, locations, characters);
+  ensureLocations(board);
+
+  const blob = new Blob([buildLocationsCsv(board)], { type: 'text/csv;charset=utf-8;' });
+  const link = document.createElement('a');
+  link.href = URL.createObjectURL(blob);
+  link.download = `${projectTitle}-locations.csv`;
+  link.click();
+};
+
+export const exportLocationsPDF = async (scenes: Scene[], projectTitle: string, locations: ShootingLocation[] = [], characters: CharacterRecord[] = []) => {
+  const board = buildLocationBoard(scenes, locations, characters);
+  ensureLocations(board);
+
+  const pdf = new jsPDF();
+  const pageWidth = pdf.internal.pageSize.getWidth();
+  const pageHeight = pdf.internal.pageSize.getHeight();
+  const margin = 12;
+  const textWidth = pageWidth - margin * 2 - 4;
+  let yPosition = 16;
+
+  const ensureSpace = (needed: number) => {
+    if (yPosition + needed > pageHeight - 12) {
+      pdf.addPage();
+      yPosition = 16;
+    }
+  };
+
+  pdf.setFont("helvetica", "bold");
+  pdf.setFontSize(14);
+  pdf.setTextColor(229, 9, 20);
+  pdf.text("LOCATIONS", margin, yPosition);
+  pdf.setFont("helvetica", "normal");
+  pdf.setFontSize(9);
+  pdf.setTextColor(0, 0, 0);
+  pdf.text(projectTitle, pageWidth - margin, yPosition, { align: 'right' });
+  yPosition += 6;
+  pdf.setFontSize(8);
+  pdf.setTextColor(100, 100, 100);
+  pdf.text(
+    `${board.entries.length - board.unmappedSets} shooting locations • ${board.unmappedSets} script sets not mapped yet`,
+    margin,
+    yPosition
+  );
+  yPosition += 8;
+
+  for (const entry of board.entries) {
+    const location = entry.location;
+    const details = [
+      location?.address ? `Address: ${location.address}` : '',
+      location ? `Permit: ${PERMIT_LABELS[location.permitStatus]}` : 'Not mapped to a shooting location',
+      `${entry.sceneCount} scenes, ${formatEighths(entry.eighths)} pages${Object.keys(entry.coverage).length ? ` • ${formatCoverage(entry.coverage)}` : ''}`,
+      ...entry.sets.map(set => `${set.set}: ${set.sceneLabels.length ? `Sc. ${set.sceneLabels.join(', ')}` : 'no analyzed scenes'}`),
+      location?.notes ? `Notes: ${location.notes}` : '',
+      location?.photos.length ? `Photos: ${location.photos.join('  ')}` : '',
+    ].filter(Boolean);
+    const lines = details.flatMap(detail => pdf.splitTextToSize(detail, textWidth) as string[]);
+    ensureSpace(10 + lines.length * 3.8);
+
+    if (location) pdf.setFillColor(235, 235, 235);
+    else pdf.setFillColor(252, 240, 210);
+    pdf.rect(margin, yPosition, pageWidth - margin * 2, 7, 'F');
+    pdf.setFont("helvetica", "bold");
+    pdf.setFontSize(9);
+    pdf.setTextColor(0, 0, 0);
+    pdf.text(entry.name, margin + 2, yPosition + 5);
+    yPosition += 10;
+
+    pdf.setFont("helvetica", "normal");
+    pdf.setFontSize(7.5);
+    pdf.setTextColor(60, 60, 60);
+    lines.forEach(line => { pdf.text(line, margin + 2, yPosition); yPosition += 3.8; });
+    yPosition += 3;
+  }
+
+  // Footer on all pages
+  const totalPages = pdf.internal.pages.length - 1;
+  for (let i = 1; i <= totalPages; i++) {
+    pdf.setPage(i);
+    pdf.setFontSize(7);
+    pdf.setTextColor(150, 150, 150);
+    pdf.text(`Page ${i} of ${totalPages} • ${projectTitle} • ShotLogic Locations`, pageWidth / 2, pageHeight - 4, { align: 'center' });
+  }
+
+  pdf.save(`${projectTitle}-locations.pdf`);
+};
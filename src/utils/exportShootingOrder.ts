@@ -0,0 +1,158 @@
+import jsPDF from "jspdf";
+import { Scene } from "@/types/analysis";
+import { cameraLabel } from "@/lib/shotCamera";
+import { buildShootingOrder, formatMinutes, shotSizeLabel, ShootingOrderReport } from "@/utils/shootingOrder";
+
+function ensureShots(report: ShootingOrderReport) {
+  if (report.scenes.length === 0) {
+    throw new Error('No shot lists to order — analyze scenes first');
+  }
+}
+
+export function buildShootingOrderCsv(report: ShootingOrderReport): string {
+  const rows: string[][] = [
+    ['Scene', 'Shooting Order', 'Editorial Shot', 'Lighting Setup', 'Direction', 'Camera Setup', 'Setup Est. (min)', 'Type', 'Size', 'Angle', 'Movement', 'Lens (mm)', 'Rig', 'Frame Rate', 'Subject', 'Serves Story Element', 'Shot ID'],
+  ];
+
+  for (const scene of report.scenes) {
+    for (const setup of scene.setups) {
+      setup.shots.forEach((ordered, idx) => {
+        const shot = ordered.shot;
+        rows.push([
+          scene.sceneLabel,
+          `${scene.sceneLabel}.${ordered.shootingPosition}`,
+          `${scene.sceneLabel}.${ordered.shotNumber}`,
+          setup.label,
+          setup.direction,
+          String(ordered.cameraSetup),
+          idx === 0 ? String(setup.minutes) : '',
+          shot.shot_type || '',
+          shotSizeLabel(ordered),
+          shot.camera_angle ? cameraLabel(shot.camera_angle) : '',
+          shot.camera_movement ? cameraLabel(shot.camera_movement) : '',
+          shot.lens_mm ? String(shot.lens_mm) : '',
+          shot.rig ? cameraLabel(shot.rig) : '',
+          shot.frame_rate ? String(shot.frame_rate) : '',
+          shot.subject || '',
+          shot.serves_story_element || '',
+          shot.id || '',
+        ]);
+      });
+    }
+  }
+
+  return rows.map(row =>
+    row.map(cell => `"${(cell || '').replace(/"/g, '""')}"`).join(',')
+  ).join('\n');
+}
+
+export const exportShootingOrderCSV = (scenes: Scene[], projectTitle: string) => {
+  const report = buildShootingOrder(scenes);
+  ensureShots(report);
+
+  const blob = new Blob([buildShootingOrderCsv(report)], { type: 'text/csv;charset=utf-8;' });
+  const link = document.createElement('a');
+  link.href = URL.createObjectURL(blob);
+  link.download = `${projectTitle}-shooting-order.csv`;
+  link.click();
+};
+
+export const exportShootingOrderPDF = async (scenes: Scene[], projectTitle: string) => {
+  const report = buildShootingOrder(scenes);
+  ensureShots(report);
+
+  const pdf = new jsPDF();
+  const pageWidth = pdf.internal.pageSize.getWidth();
+  const pageHeight = pdf.internal.pageSize.getHeight();
+  const margin = 12;
+  const textWidth = pageWidth - margin * 2 - 30;
+  let yPosition = 16;
+
+  const ensureSpace = (needed: number) => {
+    if (yPosition + needed > pageHeight - 12) {
+      pdf.addPage();
+      yPosition = 16;
+    }
+  };
+
+  pdf.setFont("helvetica", "bold");
+  pdf.setFontSize(14);
+  pdf.setTextColor(229, 9, 20);
+  pdf.text("SHOOTING ORDER", margin, yPosition);
+  pdf.setFont("helvetica", "normal");
+  pdf.setFontSize(9);
+  pdf.setTextColor(0, 0, 0);
+  pdf.text(projectTitle, pageWidth - margin, yPosition, { align: 'right' });
+  yPosition += 6;
+  pdf.setFontSize(8);
+  pdf.setTextColor(100, 100, 100);
+  pdf.text(
+    `${report.scenes.length} scenes • ${report.scenes.reduce((sum, s) => sum + s.lightingSetups, 0)} lighting setups • est. ${formatMinutes(report.totalMinutes)} on camera • shot numbers refer to the editorial shot list`,
+    margin,
+    yPosition
+  );
+  yPosition += 8;
+
+  for (const scene of report.scenes) {
+    ensureSpace(24);
+    pdf.setFillColor(235, 235, 235);
+    pdf.rect(margin, yPosition, pageWidth - margin * 2, 7, 'F');
+    pdf.setFont("helvetica", "bold");
+    pdf.setFontSize(9);
+    pdf.setTextColor(0, 0, 0);
+    pdf.text(`Sc. ${scene.sceneLabel}  ${scene.header}`.slice(0, 80), margin + 2, yPosition + 5);
+    pdf.setFont("helvetica", "normal");
+    pdf.setFontSize(7.5);
+    pdf.text(
+      `${scene.lightingSetups} lighting / ${scene.cameraSetups} camera setups • est. ${formatMinutes(scene.minutes)}`,
+      pageWidth - margin - 2,
+      yPosition + 5,
+      { align: 'right' }
+    );
+    yPosition += 11;
+
+    for (const setup of scene.setups) {
+      ensureSpace(12);
+      pdf.setFont("helvetica", "bold");
+      pdf.setFontSize(8);
+      pdf.setTextColor(229, 9, 20);
+      pdf.text(`SETUP ${setup.label} — ${setup.direction}`, margin + 2, yPosition);
+      pdf.setTextColor(100, 100, 100);
+      pdf.setFont("helvetica", "normal");
+      pdf.text(`${setup.cameraSetups} camera setup${setup.cameraSetups === 1 ? '' : 's'} • est. ${formatMinutes(setup.minutes)}`, pageWidth - margin - 2, yPosition, { align: 'right' });
+      yPosition += 4.5;
+
+      for (const ordered of setup.shots) {
+        const shot = ordered.shot;
+        const camera = [shotSizeLabel(ordered), shot.lens_mm ? `${shot.lens_mm}mm` : '', shot.rig ? cameraLabel(shot.rig) : '', shot.frame_rate ? `${shot.frame_rate}fps` : '']
+          .filter(Boolean).join(', ');
+        const lines = pdf.splitTextToSize(`${camera} — ${shot.subject || shot.visual || ''}`, textWidth) as string[];
+        ensureSpace(lines.length * 3.6 + 1.5);
+
+        pdf.setFont("helvetica", "bold");
+        pdf.setFontSize(7.5);
+        pdf.setTextColor(0, 0, 0);
+        pdf.text(`${ordered.shootingPosition}.`, margin + 4, yPosition);
+        pdf.setFont("helvetica", "normal");
+        pdf.setTextColor(120, 120, 120);
+        pdf.text(`(shot ${ordered.shotNumber})`, margin + 10, yPosition);
+        pdf.setTextColor(40, 40, 40);
+        lines.forEach((line, idx) => pdf.text(line, margin + 28, yPosition + idx * 3.6));
+        yPosition += lines.length * 3.6 + 1.5;
+      }
+      yPosition += 2;
+    }
+    yPosition += 3;
+  }
+
+  // Footer on all pages
+  const totalPages = pdf.internal.pages.length - 1;
+  for (let i = 1; i <= totalPages; i++) {
+    pdf.setPage(i);
+    pdf.setFontSize(7);
+    pdf.setTextColor(150, 150, 150);
+    pdf.text(`Page ${i} of ${totalPages} • ${projectTitle} • ShotLogic Shooting Order`, pageWidth / 2, pageHeight - 4, { align: 'center' });
+  }
+
+  pdf.save(`${projectTitle}-shooting-order.pdf`);
+};
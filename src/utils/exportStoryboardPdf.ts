@@ -1,91 +1,137 @@
 import jsPDF from "jspdf";
-import { Scene, parseAnalysis } from "@/types/analysis";
+import { Scene, ShotListItem, parseAnalysis } from "@/types/analysis";
+import { displaySceneNumber } from "@/lib/sceneNumbering";
+import { StoryboardFrame, findShotFrame, shotFrameKey } from "@/lib/storyboardFrames";
+import { loadFrameDataUrl, pdfImageFormat } from "@/utils/storyboardFrameImages";
+
+// Columns × rows for each panels-per-page choice in the export modal
+const GRIDS: Record<number, { cols: number; rows: number }> = {
+  4: { cols: 2, rows: 2 },
+  6: { cols: 3, rows: 2 },
+  9: { cols: 3, rows: 3 },
+};
 
-export const exportStoryboardPDF = async (scenes: Scene[], projectTitle: string) => {
+interface Panel {
+  label: string;
+  shot: ShotListItem;
+  frame?: StoryboardFrame;
+}
+
+export const exportStoryboardPDF = async (
+  scenes: Scene[],
+  projectTitle: string,
+  panelsPerPage: number = 6,
+  frames: StoryboardFrame[] = []
+) => {
   const pdf = new jsPDF('landscape');
   const pageWidth = pdf.internal.pageSize.getWidth();
   const pageHeight = pdf.internal.pageSize.getHeight();
   const margin = 10;
-  let yPosition = 15;
-
-  // Title
-  pdf.setFillColor(255, 255, 255);
-  pdf.rect(0, 0, pageWidth, pageHeight, 'F');
-
-  pdf.setFontSize(16);
-  pdf.setFont("helvetica", "bold");
-  pdf.setTextColor(229, 9, 20);
-  pdf.text(`STORYBOARD: ${projectTitle}`, pageWidth / 2, yPosition, { align: 'center' });
-  yPosition += 10;
-
-  // Grid layout: 3 columns x 2 rows per page
-  const frameWidth = 85;
-  const frameHeight = 55;
   const framePadding = 8;
-  let frameIndex = 0;
-
+  const gridTop = 25;
+  const { cols, rows } = GRIDS[panelsPerPage] || GRIDS[6];
+  const perPage = cols * rows;
+  const frameWidth = (pageWidth - margin * 2 - framePadding * (cols - 1)) / cols;
+  const frameHeight = (pageHeight - gridTop - margin) / rows - framePadding;
+  const captionHeight = 14;
+
+  const panels: Panel[] = [];
   scenes.forEach((scene) => {
     const analysis = parseAnalysis(scene.analysis);
     if (!analysis?.shot_list) return;
-
     analysis.shot_list.forEach((shot, shotIdx) => {
-      // Calculate position in grid
-      const col = frameIndex % 3;
-      const row = Math.floor(frameIndex / 3) % 2;
-
-      // New page every 6 frames
-      if (frameIndex > 0 && frameIndex % 6 === 0) {
-        pdf.addPage();
-        pdf.setFillColor(255, 255, 255);
-        pdf.rect(0, 0, pageWidth, pageHeight, 'F');
-      }
-
-      const xPos = margin + col * (frameWidth + framePadding);
-      const yPos = 25 + row * (frameHeight + framePadding + 15);
-
-      // Frame border
-      pdf.setDrawColor(100, 100, 100);
-      pdf.setLineWidth(0.5);
-      pdf.rect(xPos, yPos, frameWidth, frameHeight);
-
-      // Frame placeholder (for image)
-      pdf.setFillColor(240, 240, 240);
-      pdf.rect(xPos + 1, yPos + 1, frameWidth - 2, frameHeight - 15, 'F');
-
-      // Shot number badge
-      pdf.setFillColor(229, 9, 20);
-      pdf.rect(xPos + 2, yPos + 2, 18, 6, 'F');
-      pdf.setFontSize(6);
-      pdf.setFont("helvetica", "bold");
-      pdf.setTextColor(255, 255, 255);
-      pdf.text(`${scene.scene_number}.${shotIdx + 1}`, xPos + 4, yPos + 6);
-
-      // Shot type
-      pdf.setFillColor(50, 50, 50);
-      pdf.rect(xPos + 22, yPos + 2, 20, 6, 'F');
-      pdf.setFontSize(5);
-      pdf.text(shot.shot_type || 'WIDE', xPos + 24, yPos + 6);
-
-      // Subject/Description at bottom of frame
-      pdf.setFillColor(255, 255, 255);
-      pdf.rect(xPos + 1, yPos + frameHeight - 14, frameWidth - 2, 13, 'F');
-
-      pdf.setFontSize(6);
-      pdf.setFont("helvetica", "bold");
-      pdf.setTextColor(0, 0, 0);
-      const subject = (shot.subject || shot.visual || shot.visualDescription || '').substring(0, 45);
-      pdf.text(subject, xPos + 3, yPos + frameHeight - 9);
-
-      pdf.setFontSize(5);
-      pdf.setFont("helvetica", "normal");
-      pdf.setTextColor(80, 80, 80);
-      const rationale = (shot.rationale || '').substring(0, 50);
-      pdf.text(rationale, xPos + 3, yPos + frameHeight - 4);
-
-      frameIndex++;
+      // Very old analyses list shots as plain strings
+      const item: ShotListItem = typeof shot === 'string' ? { shot_type: '', visual: shot, rationale: '' } : shot;
+      panels.push({
+        label: `${displaySceneNumber(scene)}.${shotIdx + 1}`,
+        shot: item,
+        frame: findShotFrame(frames, scene.scene_number, shotFrameKey(shot, shotIdx)),
+      });
     });
   });
 
+  // Thumbnails are plenty for the smaller panels; 4-up pages get the full frame
+  const images = await Promise.all(panels.map(panel =>
+    panel.frame ? loadFrameDataUrl(perPage <= 4 ? panel.frame.url : panel.frame.thumbnailUrl || panel.frame.url) : null
+  ));
+
+  const drawPageBackground = () => {
+    pdf.setFillColor(255, 255, 255);
+    pdf.rect(0, 0, pageWidth, pageHeight, 'F');
+  };
+
+  drawPageBackground();
+  pdf.setFontSize(16);
+  pdf.setFont("helvetica", "bold");
+  pdf.setTextColor(229, 9, 20);
+  pdf.text(`STORYBOARD: ${projectTitle}`, pageWidth / 2, 15, { align: 'center' });
+
+  panels.forEach(({ label, shot, frame }, frameIndex) => {
+    const col = frameIndex % cols;
+    const row = Math.floor(frameIndex / cols) % rows;
+
+    if (frameIndex > 0 && frameIndex % perPage === 0) {
+      pdf.addPage();
+      drawPageBackground();
+    }
+
+    const xPos = margin + col * (frameWidth + framePadding);
+    const yPos = gridTop + row * (frameHeight + framePadding);
+
+    // Frame border
+    pdf.setDrawColor(100, 100, 100);
+    pdf.setLineWidth(0.5);
+    pdf.rect(xPos, yPos, frameWidth, frameHeight);
+
+    // Image area: the uploaded frame, fitted without distortion, or a placeholder
+    const areaWidth = frameWidth - 2;
+    const areaHeight = frameHeight - captionHeight - 1;
+    pdf.setFillColor(240, 240, 240);
+    pdf.rect(xPos + 1, yPos + 1, areaWidth, areaHeight, 'F');
+    const image = images[frameIndex];
+    if (image && frame) {
+      const aspect = frame.width && frame.height ? frame.width / frame.height : 16 / 9;
+      const width = Math.min(areaWidth, areaHeight * aspect);
+      const height = width / aspect;
+      try {
+        pdf.addImage(image, pdfImageFormat(image), xPos + 1 + (areaWidth - width) / 2, yPos + 1 + (areaHeight - height) / 2, width, height);
+      } catch {
+        // An unreadable image leaves the placeholder
+      }
+    }
+
+    // Shot number badge
+    pdf.setFillColor(229, 9, 20);
+    pdf.rect(xPos + 2, yPos + 2, 18, 6, 'F');
+    pdf.setFontSize(6);
+    pdf.setFont("helvetica", "bold");
+    pdf.setTextColor(255, 255, 255);
+    pdf.text(label, xPos + 4, yPos + 6);
+
+    // Shot type
+    pdf.setFillColor(50, 50, 50);
+    pdf.rect(xPos + 22, yPos + 2, 20, 6, 'F');
+    pdf.setFontSize(5);
+    pdf.text(shot.shot_type || 'WIDE', xPos + 24, yPos + 6);
+
+    // Subject/Description at bottom of frame
+    pdf.setFillColor(255, 255, 255);
+    pdf.rect(xPos + 1, yPos + frameHeight - captionHeight, frameWidth - 2, captionHeight - 1, 'F');
+
+    const captionChars = Math.floor(frameWidth / 1.9);
+    pdf.setFontSize(6);
+    pdf.setFont("helvetica", "bold");
+    pdf.setTextColor(0, 0, 0);
+    const subject = (shot.subject || shot.visual || shot.visualDescription || '').substring(0, captionChars);
+    pdf.text(subject, xPos + 3, yPos + frameHeight - 9);
+
+    pdf.setFontSize(5);
+    pdf.setFont("helvetica", "normal");
+    pdf.setTextColor(80, 80, 80);
+    const rationale = (shot.rationale || '').substring(0, captionChars + 5);
+    pdf.text(rationale, xPos + 3, yPos + frameHeight - 4);
+  });
+
   // Footer on all pages
   const totalPages = pdf.internal.pages.length - 1;
   for (let i = 1; i <= totalPages; i++) {
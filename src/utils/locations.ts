@@ -0,0 +1,88 @@
+import { Scene } from "@/types/analysis";
+import { CharacterRecord } from "@/lib/characterRegistry";
+import { ShootingLocation } from "@/lib/locationRegistry";
+import { buildBreakdown, BreakdownSheet, DayNight, IntExt } from "@/utils/breakdown";
+
+// ═══════════════════════════════════════════════════════════════
+// LOCATION BOARD
+// Groups the breakdown's script sets under the shooting locations they've
+// been mapped to, with the scenes, pages and INT/EXT × DAY/NIGHT coverage
+// each place has to support. Sets nobody has mapped yet are listed on
+// their own so the locations team can see what's left to scout.
+// ═══════════════════════════════════════════════════════════════
+
+export type CoverageKey = `${IntExt}/${DayNight}`;
+
+export interface LocationSet {
+  set: string;
+  sceneNumbers: number[];
+  sceneLabels: string[];
+  eighths: number;
+}
+
+export interface LocationBoardEntry {
+  /** Null for a script set that isn't mapped to a shooting location yet */
+  location: ShootingLocation | null;
+  name: string;
+  sets: LocationSet[];
+  sceneCount: number;
+  eighths: number;
+  /** Scenes per INT/EXT and DAY/NIGHT combination */
+  coverage: Partial<Record<CoverageKey, number>>;
+}
+
+export interface LocationBoard {
+  /** Mapped locations in the project's order, then unmapped sets by page count */
+  entries: LocationBoardEntry[];
+  unmappedSets: number;
+}
+
+function summarize(location: ShootingLocation | null, name: string, sheets: BreakdownSheet[]): LocationBoardEntry {
+  const bySet = new Map<string, LocationSet>();
+  const coverage: Partial<Record<CoverageKey, number>> = {};
+  for (const sheet of sheets) {
+    const entry = bySet.get(sheet.set) || { set: sheet.set, sceneNumbers: [], sceneLabels: [], eighths: 0 };
+    entry.sceneNumbers.push(sheet.sceneNumber);
+    entry.sceneLabels.push(sheet.sceneLabel);
+    entry.eighths += sheet.eighths;
+    bySet.set(sheet.set, entry);
+    const key: CoverageKey = `${sheet.intExt}/${sheet.dayNight}`;
+    coverage[key] = (coverage[key] || 0) + 1;
+  }
+  // Mapped sets with no analyzed scenes yet still show on their location
+  for (const set of location?.sets || []) {
+    if (!bySet.has(set)) bySet.set(set, { set, sceneNumbers: [], sceneLabels: [], eighths: 0 });
+  }
+  return {
+    location,
+    name,
+    sets: Array.from(bySet.values()),
+    sceneCount: sheets.length,
+    eighths: sheets.reduce((sum, sheet) => sum + sheet.eighths, 0),
+    coverage,
+  };
+}
+
+export function buildLocationBoard(scenes: Scene[], locations: ShootingLocation[] = [], registry: CharacterRecord[] = []): LocationBoard {
+  const { sheets } = buildBreakdown(scenes, registry, locations);
+
+  const mapped = locations.map(location =>
+    summarize(location, location.name, sheets.filter(sheet => sheet.locationId === location.id))
+  );
+
+  const unmappedBySet = new Map<string, BreakdownSheet[]>();
+  for (const sheet of sheets) {
+    if (sheet.locationId) continue;
+    unmappedBySet.set(sheet.set, [...(unmappedBySet.get(sheet.set) || []), sheet]);
+  }
+  const unmapped = Array.from(unmappedBySet.entries())
+    .map(([set, setSheets]) => summarize(null, set, setSheets))
+    .sort((a, b) => b.eighths - a.eighths);
+
+  return { entries: [...mapped, ...unmapped], unmappedSets: unmapped.length };
+}
+
+export const formatCoverage = (coverage: LocationBoardEntry['coverage']): string =>
+  (Object.entries(coverage) as Array<[CoverageKey, number]>)
+    .map(([key, count]) => `${key} ×${count}`)
+    .join(', ');
@@ -0,0 +1,239 @@
+import { Scene, parseAnalysis } from "@/types/analysis";
+import { buildBreakdown, formatEighths, BreakdownSheet, DayNight, IntExt, StripColor } from "@/utils/breakdown";
+import { ShootingSchedule, ShootDay, ScheduleSettings, ScheduleViolation } from "@/types/schedule";
+import { CharacterRecord } from "@/lib/characterRegistry";
+import { ShootingLocation } from "@/lib/locationRegistry";
+
+// ═══════════════════════════════════════════════════════════════
+// SHOOTING SCHEDULER
+// Turns breakdown sheets + scheduling_notes into shoot days. Scenes are
+// picked greedily in dependency order, preferring to stay at the same
+// location, then combinable scenes, then shared cast, until the day's page
+// budget is spent. Sets mapped to one shooting location count as one place.
+// ═══════════════════════════════════════════════════════════════
+
+export interface SchedulingScene {
+  sceneNumber: number;
+  /** Production scene number as printed ("12A") */
+  sceneLabel: string;
+  header: string;
+  set: string;
+  /** Practical location; equals the set until it's mapped */
+  location: string;
+  intExt: IntExt;
+  dayNight: DayNight;
+  eighths: number;
+  castIds: number[];
+  stripColor: StripColor;
+  /** Scenes that have to be shot before this one */
+  mustFollow: number[];
+  combinableWith: number[];
+  timeOfDayRequirement: string;
+}
+
+/**
+ * Pull scene numbers out of the free-text references the producing call
+ * returns ("Scene 12", "Sc. 4", "14 - needs wet wardrobe").
+ */
+export function parseSceneRefs(refs: unknown, known: Set<number>, self: number): number[] {
+  if (!Array.isArray(refs)) return [];
+  const numbers = refs.flatMap(ref => String(ref ?? '').match(/\d+/g) || []).map(Number);
+  return Array.from(new Set(numbers)).filter(n => n !== self && known.has(n));
+}
+
+export function buildSchedulingScenes(scenes: Scene[], registry: CharacterRecord[] = [], locations: ShootingLocation[] = []): SchedulingScene[] {
+  const { sheets } = buildBreakdown(scenes, registry, locations);
+  const known = new Set(sheets.map(s => s.sceneNumber));
+  const notesByScene = new Map(
+    scenes.map(scene => [scene.scene_number, parseAnalysis(scene.analysis)?.producing_logistics?.scheduling_notes])
+  );
+
+  const items = new Map<number, SchedulingScene>(sheets.map((sheet: BreakdownSheet) => {
+    const notes = notesByScene.get(sheet.sceneNumber);
+    return [sheet.sceneNumber, {
+      sceneNumber: sheet.sceneNumber,
+      sceneLabel: sheet.sceneLabel,
+      header: sheet.header,
+      set: sheet.set,
+      location: sheet.location,
+      intExt: sheet.intExt,
+      dayNight: sheet.dayNight,
+      eighths: sheet.eighths,
+      castIds: sheet.castIds,
+      stripColor: sheet.stripColor,
+      mustFollow: parseSceneRefs(notes?.must_schedule_after, known, sheet.sceneNumber),
+      combinableWith: parseSceneRefs(notes?.combinable_with, known, sheet.sceneNumber),
+      timeOfDayRequirement: notes?.time_of_day_requirement || '',
+    }];
+  }));
+
+  // must_schedule_before is the mirror image: "these scenes need me first"
+  for (const sheet of sheets) {
+    const notes = notesByScene.get(sheet.sceneNumber);
+    for (const later of parseSceneRefs(notes?.must_schedule_before, known, sheet.sceneNumber)) {
+      const target = items.get(later);
+      if (target && !target.mustFollow.includes(sheet.sceneNumber)) target.mustFollow.push(sheet.sceneNumber);
+    }
+  }
+
+  return Array.from(items.values());
+}
+
+function affinity(candidate: SchedulingScene, day: SchedulingScene[]): number {
+  if (day.length === 0) return 0;
+  const last = day[day.length - 1];
+  let score = 0;
+  if (candidate.location === last.location) score += candidate.set === last.set ? 100 : 90;
+  else if (day.some(s => s.location === candidate.location)) score += 60;
+  if (day.some(s => s.combinableWith.includes(candidate.sceneNumber) || candidate.combinableWith.includes(s.sceneNumber))) score += 50;
+  if (candidate.dayNight === last.dayNight) score += 20;
+  const dayCast = new Set(day.flatMap(s => s.castIds));
+  score += candidate.castIds.filter(id => dayCast.has(id)).length * 5;
+  return score;
+}
+
+export function generateSchedule(items: SchedulingScene[], settings: ScheduleSettings): ShootingSchedule {
+  const remaining = new Map(items.map(item => [item.sceneNumber, item]));
+  const days: SchedulingScene[][] = [];
+  let current: SchedulingScene[] = [];
+  let used = 0;
+
+  // Pages left per location, so an empty day opens at the biggest one
+  const locationWeight = (location: string) =>
+    Array.from(remaining.values()).filter(s => s.location === location).reduce((sum, s) => sum + s.eighths, 0);
+
+  while (remaining.size > 0) {
+    let available = Array.from(remaining.values()).filter(s => s.mustFollow.every(n => !remaining.has(n)));
+    // A dependency cycle leaves nothing available — fall back to everything and let validation flag it
+    if (available.length === 0) available = Array.from(remaining.values());
+
+    const fitting = available.filter(s => used + s.eighths <= settings.maxEighthsPerDay);
+    if (current.length > 0 && fitting.length === 0) {
+      days.push(current);
+      current = [];
+      used = 0;
+      continue;
+    }
+
+    const pool = current.length > 0 ? fitting : available;
+    const pick = pool.reduce((best, candidate) => {
+      const a = current.length > 0 ? affinity(candidate, current) : locationWeight(candidate.location);
+      const b = current.length > 0 ? affinity(best, current) : locationWeight(best.location);
+      if (a !== b) return a > b ? candidate : best;
+      return candidate.sceneNumber < best.sceneNumber ? candidate : best;
+    });
+
+    current.push(pick);
+    used += pick.eighths;
+    remaining.delete(pick.sceneNumber);
+  }
+  if (current.length > 0) days.push(current);
+
+  return {
+    settings,
+    days: days.map((day, idx) => ({ dayNumber: idx + 1, sceneNumbers: day.map(s => s.sceneNumber) })),
+    generatedAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * Pack scenes into days in script order, with no reordering. Used when a
+ * report needs shoot days but the project has no saved schedule yet.
+ */
+export function scriptOrderSchedule(items: SchedulingScene[], settings: ScheduleSettings): ShootingSchedule {
+  const days: number[][] = [];
+  let used = 0;
+  for (const item of [...items].sort((a, b) => a.sceneNumber - b.sceneNumber)) {
+    if (days.length === 0 || (used > 0 && used + item.eighths > settings.maxEighthsPerDay)) {
+      days.push([]);
+      used = 0;
+    }
+    days[days.length - 1].push(item.sceneNumber);
+    used += item.eighths;
+  }
+  return {
+    settings,
+    days: days.map((sceneNumbers, idx) => ({ dayNumber: idx + 1, sceneNumbers })),
+    generatedAt: new Date().toISOString(),
+  };
+}
+
+/** Times the company changes location during a day, shot in the order listed */
+export function companyMoves(day: ShootDay, items: SchedulingScene[]): Array<{ from: string; to: string }> {
+  const locations = day.sceneNumbers
+    .map(n => items.find(s => s.sceneNumber === n)?.location)
+    .filter((location): location is string => Boolean(location));
+  const moves: Array<{ from: string; to: string }> = [];
+  for (let i = 1; i < locations.length; i++) {
+    if (locations[i] !== locations[i - 1]) moves.push({ from: locations[i - 1], to: locations[i] });
+  }
+  return moves;
+}
+
+export function dayEighths(day: ShootDay, items: SchedulingScene[]): number {
+  return day.sceneNumbers.reduce((sum, n) => sum + (items.find(s => s.sceneNumber === n)?.eighths || 0), 0);
+}
+
+/**
+ * Check a (possibly hand-edited) schedule against the current analyses.
+ * Scenes shot on the same day as their prerequisite are accepted.
+ */
+export function validateSchedule(schedule: ShootingSchedule, items: SchedulingScene[]): ScheduleViolation[] {
+  const violations: ScheduleViolation[] = [];
+  const labelOf = new Map(items.map(item => [item.sceneNumber, item.sceneLabel]));
+  const dayOf = new Map<number, number>();
+  schedule.days.forEach(day => day.sceneNumbers.forEach(n => dayOf.set(n, day.dayNumber)));
+
+  for (const item of items) {
+    const day = dayOf.get(item.sceneNumber);
+    if (day === undefined) {
+      violations.push({ type: 'unscheduled', sceneNumber: item.sceneNumber, message: `Scene ${item.sceneLabel} is not on the schedule` });
+      continue;
+    }
+    for (const before of item.mustFollow) {
+      const beforeDay = dayOf.get(before);
+      if (beforeDay !== undefined && beforeDay > day) {
+        violations.push({
+          type: 'order',
+          sceneNumber: item.sceneNumber,
+          dayNumber: day,
+          message: `Scene ${item.sceneLabel} (day ${day}) must be shot after scene ${labelOf.get(before) ?? before} (day ${beforeDay})`,
+        });
+      }
+    }
+  }
+
+  for (const day of schedule.days) {
+    const dayItems = day.sceneNumbers
+      .map(n => items.find(s => s.sceneNumber === n))
+      .filter((s): s is SchedulingScene => Boolean(s));
+    const eighths = dayItems.reduce((sum, s) => sum + s.eighths, 0);
+    if (dayItems.length > 1 && eighths > schedule.settings.maxEighthsPerDay) {
+      violations.push({
+        type: 'page_budget',
+        dayNumber: day.dayNumber,
+        message: `Day ${day.dayNumber} is over the page budget (${formatEighths(eighths)} of ${formatEighths(schedule.settings.maxEighthsPerDay)} pages)`,
+      });
+    }
+    const exterior = dayItems.filter(s => s.intExt !== 'INT');
+    if (exterior.some(s => s.dayNight === 'DAY') && exterior.some(s => s.dayNight === 'NIGHT')) {
+      violations.push({
+        type: 'time_of_day',
+        dayNumber: day.dayNumber,
+        message: `Day ${day.dayNumber} mixes exterior DAY and NIGHT scenes (split day)`,
+      });
+    }
+  }
+
+  return violations;
+}
+
+/** Drop scenes that no longer exist or are no longer analyzed, and renumber days */
+export function reconcileSchedule(schedule: ShootingSchedule, items: SchedulingScene[]): ShootingSchedule {
+  const known = new Set(items.map(s => s.sceneNumber));
+  const days = schedule.days
+    .map(day => day.sceneNumbers.filter(n => known.has(n)))
+    .filter(sceneNumbers => sceneNumbers.length > 0)
+    .map((sceneNumbers, idx) => ({ dayNumber: idx + 1, sceneNumbers }));
+  return { ...schedule, days };
+}
@@ -27,12 +27,13 @@ const MIN_SCENE_HEADERS = 1; // At least one scene
 const RECOMMENDED_MIN_SCENES = 3; // Warning if fewer
 
 // Supported file types
-const SUPPORTED_EXTENSIONS = ['.txt', '.pdf', '.fdx', '.json'];
+const SUPPORTED_EXTENSIONS = ['.txt', '.pdf', '.fdx', '.fountain', '.spmd', '.json'];
 const SUPPORTED_MIME_TYPES = [
   'text/plain',
   'application/pdf',
   'application/xml',
   'text/xml',
+  'text/x-fountain',
   'application/json',
   'application/octet-stream' // FDX files sometimes use this
 ];
@@ -257,3 +258,44 @@ export function checkForScannedPDF(text: string, originalFileSize: number): bool
 
   return false;
 }
+
+/**
+ * Deep validation for scenes the server has already split (Fountain), where
+ * the scene-header patterns above don't apply: every scene needs content
+ * below its heading.
+ */
+export function validateParsedScenes(
+  scenes: Array<{ number: number; text: string }>,
+  fileName: string
+): ValidationResult {
+  const warnings: string[] = [];
+  const body = (scene: { text: string }) =>
+    typeof scene.text === 'string' ? scene.text.split('\n').slice(1).join('\n').trim() : '';
+  const empty = scenes.filter(scene => body(scene).length === 0);
+
+  if (scenes.length < MIN_SCENE_HEADERS || empty.length === scenes.length) {
+    return {
+      valid: false,
+      error: `No scenes with content found in "${fileName}".\n\nEach scene heading needs the action and dialogue that follow it.`
+    };
+  }
+
+  if (empty.length > 0) {
+    warnings.push(`Scene${empty.length === 1 ? '' : 's'} ${empty.map(scene => scene.number).join(', ')} ${empty.length === 1 ? 'has' : 'have'} a heading but no content.`);
+  }
+  if (scenes.length < RECOMMENDED_MIN_SCENES) {
+    warnings.push(`Only ${scenes.length} scene${scenes.length === 1 ? '' : 's'} detected. Consider checking if this is the complete screenplay.`);
+  }
+
+  const text = scenes.map(scene => scene.text).join('\n\n');
+  return {
+    valid: true,
+    warnings: warnings.length > 0 ? warnings : undefined,
+    fileInfo: {
+      name: fileName,
+      size: text.length,
+      type: 'text',
+      estimatedPages: Math.ceil(text.length / 3000)
+    }
+  };
+}
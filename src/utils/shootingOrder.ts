@@ -0,0 +1,230 @@
+import { Scene, AnalysisData, ShotListItem, parseAnalysis } from "@/types/analysis";
+import { displaySceneNumber } from "@/lib/sceneNumbering";
+import { CameraRig, ShotSize, SHOT_SIZES, cameraLabel, shotSizeFromType } from "@/lib/shotCamera";
+
+// ═══════════════════════════════════════════════════════════════
+// SHOOTING ORDER
+// Reorders a scene's story-order shot list into the order a crew shoots it.
+// Shots are grouped into lighting setups by the direction the camera faces:
+// the shot's setup_id when the analysis gave one, otherwise the master
+// (wide and two-shot coverage), the character a single is on, or inserts.
+// Each lighting setup is shot widest to tightest, because the light is set
+// for the wide and refined as the camera pushes in, and the setups run
+// master first and inserts last. A camera setup is one size/lens/rig/frame
+// rate within a lighting setup. Time per setup is a rough planning figure
+// from the constants below, not a schedule.
+// ═══════════════════════════════════════════════════════════════
+
+/** Lighting the scene for its first direction */
+const FIRST_LIGHTING_MINUTES = 60;
+/** Each turnaround: relighting for a new camera direction */
+const TURNAROUND_MINUTES = 40;
+/** Moving the camera to a new size or lens within a lighting setup */
+const CAMERA_MOVE_MINUTES = 15;
+/** Rehearsal and takes for one shot */
+const SHOT_MINUTES = 12;
+/** Extra shooting time for an off-speed shot */
+const OFF_SPEED_MINUTES = 10;
+/** Building and rehearsing a rig, once per camera setup that uses it */
+const RIG_MINUTES: Partial<Record<CameraRig, number>> = {
+  DOLLY: 20,
+  SLIDER: 10,
+  STEADICAM: 20,
+  GIMBAL: 10,
+  CRANE: 45,
+  DRONE: 30,
+  CAR_MOUNT: 60,
+};
+
+/** Base frame rates; anything else is an off-speed shot */
+const BASE_FRAME_RATES = [23.98, 24, 25, 29.97, 30];
+
+const WIDE_SIZES: ShotSize[] = ['EXTREME_WIDE', 'WIDE', 'MEDIUM_WIDE'];
+
+export interface OrderedShot {
+  /** Position in the editorial (story-order) shot list, as numbered there */
+  shotNumber: number;
+  /** Position in the shooting order */
+  shootingPosition: number;
+  /** Camera setup within the scene, counted in shooting order */
+  cameraSetup: number;
+  size: ShotSize | null;
+  shot: ShotListItem;
+}
+
+export interface LightingSetup {
+  /** "A", "B"... in shooting order */
+  label: string;
+  /** Where the camera faces, e.g. "Master / wide" or "On SARAH" */
+  direction: string;
+  /** The analysis's own setup_id when the shots carried one */
+  setupId: string | null;
+  shots: OrderedShot[];
+  cameraSetups: number;
+  minutes: number;
+}
+
+export interface SceneShootingOrder {
+  sceneNumber: number;
+  sceneLabel: string;
+  header: string;
+  setups: LightingSetup[];
+  shotCount: number;
+  lightingSetups: number;
+  cameraSetups: number;
+  minutes: number;
+}
+
+export interface ShootingOrderReport {
+  scenes: SceneShootingOrder[];
+  totalMinutes: number;
+  /** Scenes without a structured shot list yet */
+  missingScenes: number[];
+}
+
+// Shots listed as plain strings (very old analyses) have nothing to group by
+const isShot = (shot: ShotListItem | string): shot is ShotListItem =>
+  typeof shot === 'object' && shot !== null;
+
+const sizeOf = (shot: ShotListItem): ShotSize | null =>
+  shot.shot_size || shotSizeFromType(shot.shot_type) || null;
+
+// Wide to tight; POV and unknown sizes sit with the mediums
+const sizeRank = (size: ShotSize | null): number =>
+  size === null || size === 'POV' ? SHOT_SIZES.indexOf('MEDIUM') : SHOT_SIZES.indexOf(size);
+
+/** Everyone the analysis names in the scene, longest names first so "MARY ANN" beats "MARY" */
+function sceneCharacters(analysis: AnalysisData): string[] {
+  const cast = analysis.producing_logistics?.cast;
+  const names = new Set<string>([
+    ...(cast?.principal || []),
+    ...(cast?.speaking || []),
+    ...(cast?.silent || []),
+    ...Object.keys(analysis.directing_vision?.actor_objectives || {}),
+    ...Object.keys(analysis.directing_vision?.performance_notes || {}),
+  ].map(name => name.trim().toUpperCase()).filter(Boolean));
+  return Array.from(names).sort((a, b) => b.length - a.length);
+}
+
+/** The character named first in the shot's subject, which is who the camera is on */
+function subjectCharacter(shot: ShotListItem, characters: string[]): string | null {
+  const subject = (shot.subject || shot.visual || '').toUpperCase();
+  let best: { name: string; at: number } | null = null;
+  for (const name of characters) {
+    const match = new RegExp(`(^|[^A-Z])${name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}($|[^A-Z])`).exec(subject);
+    if (match && (!best || match.index < best.at)) best = { name, at: match.index };
+  }
+  return best?.name || null;
+}
+
+interface Direction {
+  key: string;
+  direction: string;
+  setupId: string | null;
+  /** Inserts are picked up after the actors are released */
+  last: boolean;
+}
+
+function directionOf(shot: ShotListItem, size: ShotSize | null, characters: string[]): Direction {
+  if (shot.setup_id) {
+    return { key: `setup:${shot.setup_id}`, direction: `Setup ${shot.setup_id}`, setupId: shot.setup_id, last: size === 'INSERT' };
+  }
+  if (size === 'INSERT') return { key: 'inserts', direction: 'Inserts', setupId: null, last: true };
+  if (size && WIDE_SIZES.includes(size)) return { key: 'master', direction: 'Master / wide', setupId: null, last: false };
+  const character = subjectCharacter(shot, characters);
+  if (character) return { key: `on:${character}`, direction: `On ${character}`, setupId: null, last: false };
+  return { key: 'other', direction: 'Other coverage', setupId: null, last: false };
+}
+
+const isOffSpeed = (shot: ShotListItem): boolean =>
+  !!shot.frame_rate && !BASE_FRAME_RATES.includes(shot.frame_rate);
+
+// Shots that can be made without moving the camera or changing speed
+const cameraKey = (shot: ShotListItem, size: ShotSize | null): string =>
+  [size || '', shot.lens_mm || '', shot.rig || '', isOffSpeed(shot) ? shot.frame_rate : ''].join('|');
+
+export function buildSceneShootingOrder(scene: Scene, analysis: AnalysisData): SceneShootingOrder {
+  const characters = sceneCharacters(analysis);
+  const groups = new Map<string, Direction & { shots: Array<{ shot: ShotListItem; size: ShotSize | null; shotNumber: number; index: number }> }>();
+
+  (analysis.shot_list || []).forEach((shot, index) => {
+    if (!isShot(shot)) return;
+    const size = sizeOf(shot);
+    const direction = directionOf(shot, size, characters);
+    const group = groups.get(direction.key) || { ...direction, shots: [] };
+    group.shots.push({ shot, size, shotNumber: Number(shot.shot_number) || index + 1, index });
+    groups.set(direction.key, group);
+  });
+
+  // Master first, then by widest shot, then as they first appear in the cut; inserts last
+  const ordered = Array.from(groups.values()).sort((a, b) =>
+    Number(a.last) - Number(b.last)
+    || Math.min(...a.shots.map(s => sizeRank(s.size))) - Math.min(...b.shots.map(s => sizeRank(s.size)))
+    || a.shots[0].index - b.shots[0].index
+  );
+
+  let position = 0;
+  let cameraSetup = 0;
+  const setups: LightingSetup[] = ordered.map((group, groupIndex) => {
+    const shots = [...group.shots].sort((a, b) => sizeRank(a.size) - sizeRank(b.size) || a.index - b.index);
+    const cameraKeys = new Map<string, number>();
+    let minutes = groupIndex === 0 ? FIRST_LIGHTING_MINUTES : TURNAROUND_MINUTES;
+
+    const orderedShots = shots.map(({ shot, size, shotNumber }) => {
+      const key = cameraKey(shot, size);
+      if (!cameraKeys.has(key)) {
+        cameraKeys.set(key, ++cameraSetup);
+        if (cameraKeys.size > 1) minutes += CAMERA_MOVE_MINUTES;
+        minutes += (shot.rig && RIG_MINUTES[shot.rig]) || 0;
+      }
+      minutes += SHOT_MINUTES + (isOffSpeed(shot) ? OFF_SPEED_MINUTES : 0);
+      return { shotNumber, shootingPosition: ++position, cameraSetup: cameraKeys.get(key)!, size, shot };
+    });
+
+    return {
+      label: String.fromCharCode(65 + (groupIndex % 26)) + (groupIndex >= 26 ? Math.floor(groupIndex / 26) : ''),
+      direction: group.direction,
+      setupId: group.setupId,
+      shots: orderedShots,
+      cameraSetups: cameraKeys.size,
+      minutes,
+    };
+  });
+
+  return {
+    sceneNumber: scene.scene_number,
+    sceneLabel: displaySceneNumber(scene),
+    header: scene.header.replace(/\n/g, ' '),
+    setups,
+    shotCount: position,
+    lightingSetups: setups.length,
+    cameraSetups: cameraSetup,
+    minutes: setups.reduce((sum, setup) => sum + setup.minutes, 0),
+  };
+}
+
+export function buildShootingOrder(scenes: Scene[]): ShootingOrderReport {
+  const report: ShootingOrderReport = { scenes: [], totalMinutes: 0, missingScenes: [] };
+  for (const scene of [...scenes].sort((a, b) => a.scene_number - b.scene_number)) {
+    const analysis = parseAnalysis(scene.analysis);
+    const order = analysis ? buildSceneShootingOrder(scene, analysis) : null;
+    if (!order || order.shotCount === 0) {
+      report.missingScenes.push(scene.scene_number);
+      continue;
+    }
+    report.scenes.push(order);
+    report.totalMinutes += order.minutes;
+  }
+  return report;
+}
+
+/** 135 → "2h 15m" */
+export const formatMinutes = (minutes: number): string => {
+  const hours = Math.floor(minutes / 60);
+  const rest = Math.round(minutes % 60);
+  return hours > 0 ? `${hours}h${rest ? ` ${rest}m` : ''}` : `${rest}m`;
+};
+
+/** Readable size for a shooting-order row ("Close up"), falling back to the free-text type */
+export const shotSizeLabel = (shot: OrderedShot): string =>
+  shot.size ? cameraLabel(shot.size) : (shot.shot.shot_type || '');
@@ -1,11 +1,21 @@
 import jsPDF from "jspdf";
 import { Scene, parseAnalysis } from "@/types/analysis";
+import { displaySceneNumber } from "@/lib/sceneNumbering";
+import { ShotCamera, formatShotCamera, groupShotsBySetup } from "@/lib/shotCamera";
+import { CommentThread, anchorLabel } from "@/lib/projectComments";
 import { logger } from "@/utils/logger";
 
 // AnalysisData, ShotListItem, Scene, and parseAnalysis imported from @/types/analysis
 
-export const exportShotListPDF = async (scenes: Scene[], projectTitle: string, options?: { includeShotList?: boolean }) => {
+interface AnalysisPDFOptions {
+  includeShotList?: boolean;
+  /** Comment threads to print as review notes; only open ones are printed */
+  comments?: CommentThread[];
+}
+
+export const exportShotListPDF = async (scenes: Scene[], projectTitle: string, options?: AnalysisPDFOptions) => {
   const includeShotList = options?.includeShotList !== false;
+  const openComments = (options?.comments || []).filter(thread => thread.status === 'open');
   const pdf = new jsPDF();
   const pageWidth = pdf.internal.pageSize.getWidth();
   const pageHeight = pdf.internal.pageSize.getHeight();
@@ -71,7 +81,7 @@ export const exportShotListPDF = async (scenes: Scene[], projectTitle: string, o
     pdf.setFont("helvetica", "bold");
     pdf.setFontSize(11);
     pdf.setTextColor(255, 255, 255);
-    pdf.text(`SCENE ${scene.scene_number}`, margin + 3, yPosition + 3);
+    pdf.text(`SCENE ${displaySceneNumber(scene)}`, margin + 3, yPosition + 3);
     yPosition += 12;
 
     // Scene slug line
@@ -84,6 +94,49 @@ export const exportShotListPDF = async (scenes: Scene[], projectTitle: string, o
     pdf.text(headerText, margin + 3, yPosition + 2);
     yPosition += 12;
 
+    // ═══════════════════════════════════════════════════════════════
+    // REVIEW NOTES (open comment threads, when asked for)
+    // ═══════════════════════════════════════════════════════════════
+    const sceneThreads = openComments.filter(thread => thread.sceneNumber === scene.scene_number);
+    if (sceneThreads.length > 0) {
+      const shotIds = (analysis.shot_list || [])
+        .map(shot => (typeof shot === 'object' ? shot.id : undefined))
+        .filter((shotId): shotId is string => !!shotId);
+
+      pdf.setFont("helvetica", "bold");
+      pdf.setFontSize(10);
+      pdf.setTextColor(229, 9, 20);
+      pdf.text(`REVIEW NOTES (${sceneThreads.length} open)`, margin, yPosition);
+      yPosition += 6;
+
+      sceneThreads.forEach(thread => {
+        checkPageBreak(15);
+        pdf.setFont("helvetica", "bold");
+        pdf.setFontSize(7);
+        pdf.setTextColor(80, 80, 140);
+        pdf.text(anchorLabel(thread.anchor, shotIds).toUpperCase(), margin + 2, yPosition);
+        yPosition += 4;
+
+        thread.comments.forEach((comment, commentIndex) => {
+          // Replies sit indented and greyed under the comment that opened the thread
+          const indent = commentIndex === 0 ? 2 : 6;
+          const shade = commentIndex === 0 ? 0 : 80;
+          const lines = pdf.splitTextToSize(`${comment.authorName}: ${comment.body}`, maxWidth - indent - 3);
+          checkPageBreak(lines.length * 3.5 + 2);
+          pdf.setFont("helvetica", "normal");
+          pdf.setFontSize(7.5);
+          pdf.setTextColor(shade, shade, shade);
+          pdf.text(lines, margin + indent, yPosition);
+          yPosition += lines.length * 3.5 + 1;
+        });
+        yPosition += 3;
+      });
+
+      pdf.setTextColor(0, 0, 0);
+      yPosition += 4;
+      checkPageBreak(20);
+    }
+
     // ═══════════════════════════════════════════════════════════════
     // STORY ANALYSIS SECTION
     // ═══════════════════════════════════════════════════════════════
@@ -938,6 +991,21 @@ if (dv) {
         pdf.setTextColor(0, 0, 0);
       }
 
+      // Camera setups, so the crew can shoot each position's shots back to back
+      const setups = groupShotsBySetup(analysis.shot_list);
+      if (setups.length > 0) {
+        pdf.setFont("helvetica", "normal");
+        pdf.setFontSize(7);
+        pdf.setTextColor(80, 80, 80);
+        const setupText = setups
+          .map(setup => `${setup.setupId}: ${setup.shotIndexes.map(i => `${displaySceneNumber(scene)}.${i + 1}`).join(', ')}`)
+          .join('   ');
+        const setupLines = pdf.splitTextToSize(`${setups.length} setups — ${setupText}`, maxWidth - 5);
+        pdf.text(setupLines, margin + 2, yPosition);
+        yPosition += setupLines.length * 3.5 + 4;
+        pdf.setTextColor(0, 0, 0);
+      }
+
       // Shot cards (one per shot, story-driven layout)
       analysis.shot_list.forEach((shot, shotIndex) => {
         checkPageBreak(35);
@@ -955,12 +1023,26 @@ if (dv) {
         pdf.setTextColor(255, 255, 255);
         const shotType = shot.shot_type || 'WIDE';
         const turnIndicator = isTurnShot ? '* THE TURN - ' : '';
-        pdf.text(`${scene.scene_number}.${shotIndex + 1}  ${turnIndicator}${shotType}`, margin + 2, yPosition + 1);
+        pdf.text(`${displaySceneNumber(scene)}.${shotIndex + 1}  ${turnIndicator}${shotType}`, margin + 2, yPosition + 1);
         if (shot.serves_story_element) {
           pdf.text(`SERVES: ${shot.serves_story_element}`, margin + 80, yPosition + 1);
         }
+        const camera: ShotCamera = typeof shot === 'object' ? shot : {};
+        if (camera.setup_id) {
+          pdf.text(`SETUP ${camera.setup_id}`, margin + maxWidth - 2, yPosition + 1, { align: 'right' });
+        }
         yPosition += 7;
 
+        // Camera: size, angle, movement, lens, rig, frame rate
+        const cameraLine = formatShotCamera(camera);
+        if (cameraLine) {
+          pdf.setFont("helvetica", "bold");
+          pdf.setFontSize(6.5);
+          pdf.setTextColor(90, 90, 90);
+          pdf.text(cameraLine, margin + 2, yPosition + 1);
+          yPosition += 4;
+        }
+
         // Alternating background
         if (shotIndex % 2 === 0) {
           pdf.setFillColor(248, 248, 248);
@@ -1034,10 +1116,18 @@ if (dv) {
 // ═══════════════════════════════════════════════════════════════
 // ANALYSIS-ONLY PDF EXPORT (no shot list table)
 // ═══════════════════════════════════════════════════════════════
-export const exportAnalysisOnlyPDF = async (scenes: Scene[], projectTitle: string) => {
-  return exportShotListPDF(scenes, projectTitle, { includeShotList: false });
+export const exportAnalysisOnlyPDF = async (scenes: Scene[], projectTitle: string, options?: Pick<AnalysisPDFOptions, 'comments'>) => {
+  return exportShotListPDF(scenes, projectTitle, { ...options, includeShotList: false });
 };
 
 // Re-export extracted modules for backwards compatibility
 export { exportStoryboardPDF } from "./exportStoryboardPdf";
 export { exportShotListCSV } from "./exportCsv";
+export { exportFinalDraft } from "./exportFdx";
+export { exportBreakdownPDF, exportBreakdownMMS } from "./exportBreakdown";
+export { exportDoodCSV, exportDoodPDF } from "./exportDood";
+export { exportContinuityCSV, exportContinuityPDF } from "./exportContinuity";
+export { exportDepartmentCSV, exportDepartmentPDF } from "./exportDepartment";
+export { exportBudgetCSV, exportBudgetPDF } from "./exportBudget";
+export { exportLocationsCSV, exportLocationsPDF } from "./exportLocations";
+export { exportShootingOrderCSV, exportShootingOrderPDF } from "./exportShootingOrder";
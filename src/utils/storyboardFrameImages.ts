@@ -0,0 +1,74 @@
+import { FRAME_CONTENT_TYPES, FRAME_MAX_EDGE, THUMBNAIL_MAX_EDGE } from "@/lib/storyboardFrames";
+
+// Browser-side image work for storyboard frames: the API stores bytes as
+// given, so frames are downscaled and thumbnailed here before upload, and
+// stored frames are read back into data URLs for jsPDF.
+
+export interface PreparedFrame {
+  /** JPEG data URL, longest edge at most FRAME_MAX_EDGE */
+  image: string;
+  /** JPEG data URL, longest edge at most THUMBNAIL_MAX_EDGE */
+  thumbnail: string;
+  width: number;
+  height: number;
+}
+
+export const isFrameFile = (file: File): boolean =>
+  (FRAME_CONTENT_TYPES as readonly string[]).includes(file.type);
+
+function renderJpeg(bitmap: ImageBitmap, maxEdge: number, quality: number): { dataUrl: string; width: number; height: number } {
+  const scale = Math.min(1, maxEdge / Math.max(bitmap.width, bitmap.height));
+  const width = Math.max(1, Math.round(bitmap.width * scale));
+  const height = Math.max(1, Math.round(bitmap.height * scale));
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext('2d');
+  if (!context) throw new Error('Could not process the image in this browser');
+  // JPEG has no alpha; transparent PNG areas print as paper, not black
+  context.fillStyle = '#ffffff';
+  context.fillRect(0, 0, width, height);
+  context.drawImage(bitmap, 0, 0, width, height);
+  return { dataUrl: canvas.toDataURL('image/jpeg', quality), width, height };
+}
+
+/** Downscale a picked file and make its thumbnail, ready for the upload-frame API */
+export async function prepareFrameUpload(file: File): Promise<PreparedFrame> {
+  if (!isFrameFile(file)) {
+    throw new Error('Frames must be JPEG, PNG or WebP images');
+  }
+  const bitmap = await createImageBitmap(file);
+  try {
+    const frame = renderJpeg(bitmap, FRAME_MAX_EDGE, 0.9);
+    const thumbnail = renderJpeg(bitmap, THUMBNAIL_MAX_EDGE, 0.8);
+    return { image: frame.dataUrl, thumbnail: thumbnail.dataUrl, width: frame.width, height: frame.height };
+  } finally {
+    bitmap.close();
+  }
+}
+
+/** Fetch a stored frame into a data URL jsPDF can embed; null if it can't be read */
+export async function loadFrameDataUrl(url: string | null | undefined): Promise<string | null> {
+  if (!url) return null;
+  if (url.startsWith('data:image')) return url;
+  try {
+    const response = await fetch(url);
+    if (!response.ok) return null;
+    const blob = await response.blob();
+    return await new Promise<string | null>((resolve) => {
+      const reader = new FileReader();
+      reader.onload = () => resolve(typeof reader.result === 'string' ? reader.result : null);
+      reader.onerror = () => resolve(null);
+      reader.readAsDataURL(blob);
+    });
+  } catch {
+    return null;
+  }
+}
+
+/** jsPDF's name for a data URL's image format */
+export function pdfImageFormat(dataUrl: string): 'JPEG' | 'PNG' | 'WEBP' {
+  if (dataUrl.startsWith('data:image/png')) return 'PNG';
+  if (dataUrl.startsWith('data:image/webp')) return 'WEBP';
+  return 'JPEG';
+}
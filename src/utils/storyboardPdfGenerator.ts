@@ -1,4 +1,6 @@
 import jsPDF from "jspdf";
+import { ShotCamera, formatShotCamera } from "@/lib/shotCamera";
+import { loadFrameDataUrl, pdfImageFormat } from "@/utils/storyboardFrameImages";
 
 interface ShotData {
   id: string;
@@ -8,10 +10,11 @@ interface ShotData {
   imageUrl: string | null;
   annotation: string;
   imagePrompt?: string;
+  camera?: ShotCamera;
 }
 
 export const generateStoryboardPDF = async (
-  sceneNumber: number,
+  sceneNumber: string,
   sceneHeader: string,
   shots: ShotData[],
   options: { includePlaceholders: boolean; includePrompts: boolean }
@@ -45,6 +48,9 @@ export const generateStoryboardPDF = async (
   const frameHeight = (pageHeight - 40) / 2; // 40 for header space
   
   let currentPage = 1;
+
+  // Stored frames are URLs; jsPDF needs the bytes in hand
+  const images = await Promise.all(shots.map(shot => loadFrameDataUrl(shot.imageUrl)));
   
   for (let i = 0; i < shots.length; i++) {
     const shot = shots[i];
@@ -82,6 +88,15 @@ export const generateStoryboardPDF = async (
     pdf.setFontSize(9);
     pdf.setFont('helvetica', 'bold');
     pdf.text(`SHOT ${i + 1}  |  ${shot.shotType}`, x + 3, y + 5.5);
+    const cameraLine = [
+      shot.camera ? formatShotCamera(shot.camera) : '',
+      shot.camera?.setup_id ? `SETUP ${shot.camera.setup_id}` : '',
+    ].filter(Boolean).join('  |  ');
+    if (cameraLine) {
+      pdf.setFontSize(7);
+      pdf.setFont('helvetica', 'normal');
+      pdf.text(cameraLine, x + frameWidth - 3, y + 5.5, { align: 'right' });
+    }
     
     // Image area (16:9 aspect ratio)
     const imageAreaY = y + 10;
@@ -93,10 +108,11 @@ export const generateStoryboardPDF = async (
     pdf.setFillColor(245, 245, 245);
     pdf.rect(imageX, imageAreaY, imageAreaWidth, imageAreaHeight, 'FD');
     
-    if (shot.imageUrl && shot.imageUrl.startsWith('data:image')) {
+    const image = images[i];
+    if (image) {
       try {
         // Add actual image
-        pdf.addImage(shot.imageUrl, 'JPEG', imageX + 1, imageAreaY + 1, imageAreaWidth - 2, imageAreaHeight - 2);
+        pdf.addImage(image, pdfImageFormat(image), imageX + 1, imageAreaY + 1, imageAreaWidth - 2, imageAreaHeight - 2);
       } catch (e) {
         // If image fails, show placeholder text
         pdf.setTextColor(150);
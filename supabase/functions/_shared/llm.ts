@@ -0,0 +1,132 @@
+// supabase/functions/_shared/llm.ts
+// Edge-function twin of api/lib/llm.ts (edge functions can't import the Node
+// code). LLM_PROVIDER picks the implementation:
+//   openai (default)  OPENAI_API_KEY, OPENAI_MODEL, OPENAI_BASE_URL
+//   anthropic         ANTHROPIC_API_KEY, CLAUDE_MODEL
+//   mock              LLM_MOCK_FIXTURES_DIR/<CALL_NAME>.json, no network;
+//                     LLM_MOCK_FAIL=PARSE_SCREENPLAY,... fails those calls
+
+export interface LLMRequest {
+  system: string;
+  user: string;
+  maxTokens: number;
+  /** Which call this is (PARSE_SCREENPLAY...); names the mock fixture */
+  callName: string;
+  timeoutMs?: number;
+}
+
+export interface LLMProvider {
+  name: 'anthropic' | 'openai' | 'mock';
+  model: string;
+  /** Why this provider can't run (missing key...), or null when it can */
+  configError(): string | null;
+  /** Raw reply text; throws on HTTP errors and timeouts */
+  complete(request: LLMRequest): Promise<string>;
+}
+
+async function postJson(url: string, headers: Record<string, string>, body: unknown, timeoutMs: number) {
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
+  try {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: { ...headers, 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+      signal: controller.signal,
+    });
+    if (!response.ok) {
+      throw new Error(`API error ${response.status}: ${await response.text()}`);
+    }
+    return await response.json();
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
+
+function openAICompatibleProvider(): LLMProvider {
+  const apiKey = Deno.env.get('OPENAI_API_KEY');
+  const baseUrl = (Deno.env.get('OPENAI_BASE_URL') || 'https://api.openai.com/v1').replace(/\/+$/, '');
+  return {
+    name: 'openai',
+    model: Deno.env.get('OPENAI_MODEL') || 'gpt-4o',
+    configError: () => (apiKey ? null : 'OPENAI_API_KEY not configured'),
+    async complete(request) {
+      const data = await postJson(
+        `${baseUrl}/chat/completions`,
+        { 'Authorization': `Bearer ${apiKey}` },
+        {
+          model: this.model,
+          max_tokens: request.maxTokens,
+          messages: [
+            { role: 'system', content: request.system },
+            { role: 'user', content: request.user },
+          ],
+          response_format: { type: 'json_object' },
+        },
+        request.timeoutMs ?? 30000,
+      );
+      return data.choices?.[0]?.message?.content || '';
+    },
+  };
+}
+
+function anthropicProvider(): LLMProvider {
+  const apiKey = Deno.env.get('ANTHROPIC_API_KEY');
+  return {
+    name: 'anthropic',
+    model: Deno.env.get('CLAUDE_MODEL') || 'claude-sonnet-4-5-20250929',
+    configError: () => (apiKey ? null : 'ANTHROPIC_API_KEY not configured'),
+    async complete(request) {
+      const data = await postJson(
+        'https://api.anthropic.com/v1/messages',
+        { 'x-api-key': apiKey || '', 'anthropic-version': '2023-06-01' },
+        {
+          model: this.model,
+          max_tokens: request.maxTokens,
+          system: request.system,
+          messages: [{ role: 'user', content: request.user }],
+        },
+        request.timeoutMs ?? 30000,
+      );
+      return data.content?.[0]?.text || '';
+    },
+  };
+}
+
+function mockProvider(): LLMProvider {
+  const failing = (Deno.env.get('LLM_MOCK_FAIL') || '').split(',').map(s => s.trim()).filter(Boolean);
+  const fixturesDir = Deno.env.get('LLM_MOCK_FIXTURES_DIR');
+  return {
+    name: 'mock',
+    model: 'mock-fixtures',
+    configError: () => null,
+    async complete(request) {
+      if (failing.includes(request.callName)) {
+        throw new Error(`API error 422: mock failure for ${request.callName}`);
+      }
+      if (!fixturesDir) throw new Error(`No mock fixture for ${request.callName} (set LLM_MOCK_FIXTURES_DIR)`);
+      return await Deno.readTextFile(`${fixturesDir}/${request.callName}.json`);
+    },
+  };
+}
+
+/** The provider selected by LLM_PROVIDER */
+export function getLLMProvider(name: string | undefined = Deno.env.get('LLM_PROVIDER')): LLMProvider {
+  switch ((name || 'openai').toLowerCase()) {
+    case 'openai':
+      return openAICompatibleProvider();
+    case 'anthropic':
+      return anthropicProvider();
+    case 'mock':
+      return mockProvider();
+    default:
+      throw new Error(`Unknown LLM_PROVIDER "${name}" (expected anthropic, openai or mock)`);
+  }
+}
+
+/** Pull the JSON object out of a reply that may wrap it in a code fence or prose */
+export function extractJson(content: string): unknown {
+  const fenced = content.match(/```(?:json)?\s*([\s\S]*?)```/);
+  const raw = fenced ? fenced[1] : content.match(/\{[\s\S]*\}/)?.[0] ?? content;
+  return JSON.parse(raw.trim());
+}
@@ -1,4 +1,5 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { extractJson, getLLMProvider } from "../_shared/llm.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -176,11 +177,12 @@ serve(async (req) => {
     console.log('Parsing screenplay text, length:', rawText.length);
 
     // Check if user explicitly requested fallback or if AI is unavailable
-    const OPENAI_API_KEY = Deno.env.get('OPENAI_API_KEY');
+    const provider = getLLMProvider();
+    const configError = provider.configError();
 
-    if (useFallback || !OPENAI_API_KEY) {
-      if (!OPENAI_API_KEY) {
-        console.warn('OPENAI_API_KEY not configured - using regex fallback');
+    if (useFallback || configError) {
+      if (configError) {
+        console.warn(`${configError} - using regex fallback`);
       } else {
         console.log('Fallback explicitly requested');
       }
@@ -210,24 +212,14 @@ serve(async (req) => {
     }
 
     // Try AI parsing first
-    console.log('Attempting AI-based parsing with GPT-4o');
+    console.log(`Attempting AI-based parsing with ${provider.name}:${provider.model}`);
 
     let aiResult;
     let aiError;
 
     try {
-      const response = await fetch('https://api.openai.com/v1/chat/completions', {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${OPENAI_API_KEY}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          model: 'gpt-4o',
-          messages: [
-            {
-              role: 'system',
-              content: `You are a Screenplay Formatter. Your job is to extract the scenes from the raw script text. The goal is general compatibility with standard screenplay formatting.
+      const content = await provider.complete({
+        system: `You are a Screenplay Formatter. Your job is to extract the scenes from the raw script text. The goal is general compatibility with standard screenplay formatting.
 
 CRITICAL NUMBERING CONSTRAINT: The 'scene_number' in the JSON output MUST be sequentially re-numbered starting from 1 (1, 2, 3, 4, ...). Ignore any scene numbers found in the raw text.
 
@@ -240,38 +232,24 @@ Return a JSON object with a "scenes" array where each item has:
 - header (string): Cleaned scene header (e.g., "INT. CLASSROOM - DAY")
 - content (string): The dialogue and action for that scene
 
-Fix spacing issues, reconstruct proper headers, and ignore title pages.`
-            },
-            {
-              role: 'user',
-              content: rawText
-            }
-          ],
-          response_format: { type: 'json_object' },
-          timeout: 30000 // 30 second timeout
-        }),
+Fix spacing issues, reconstruct proper headers, and ignore title pages.`,
+        user: rawText,
+        maxTokens: 16000,
+        callName: 'PARSE_SCREENPLAY',
+        timeoutMs: 30000,
       });
 
-      if (!response.ok) {
-        const errorText = await response.text();
-        console.error('OpenAI error:', response.status, errorText);
-        aiError = new Error(`OpenAI API error: ${response.status} - ${errorText}`);
+      if (!content) {
+        aiError = new Error('No content in AI response');
       } else {
-        const data = await response.json();
-        const content = data.choices?.[0]?.message?.content;
+        aiResult = extractJson(content) as { scenes?: Scene[] };
 
-        if (!content) {
-          aiError = new Error('No content in AI response');
+        // Validate AI result
+        if (!aiResult.scenes || !Array.isArray(aiResult.scenes) || aiResult.scenes.length === 0) {
+          console.warn('AI returned empty or invalid scenes array - falling back to regex');
+          aiError = new Error('AI returned no scenes');
         } else {
-          aiResult = JSON.parse(content);
-
-          // Validate AI result
-          if (!aiResult.scenes || !Array.isArray(aiResult.scenes) || aiResult.scenes.length === 0) {
-            console.warn('AI returned empty or invalid scenes array - falling back to regex');
-            aiError = new Error('AI returned no scenes');
-          } else {
-            console.log('AI parsed scenes successfully:', aiResult.scenes.length);
-          }
+          console.log('AI parsed scenes successfully:', aiResult.scenes.length);
         }
       }
     } catch (error) {
@@ -285,7 +263,8 @@ Fix spacing issues, reconstruct proper headers, and ignore title pages.`
         JSON.stringify({
           ...aiResult,
           meta: {
-            method: 'ai-gpt4o',
+            method: `ai-${provider.name}`,
+            model: provider.model,
             totalScenes: aiResult.scenes.length
           }
         }),
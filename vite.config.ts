@@ -24,7 +24,9 @@ export default defineConfig({
       '/api': {
         target: 'https://shotlogic-production.up.railway.app',
         changeOrigin: true,
-        secure: true
+        secure: true,
+        // The collaboration socket (/api/collab) upgrades through the same proxy
+        ws: true
       }
     }
   }